@@ -0,0 +1,114 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AllocationTargetsEditor } from "@/components/allocation/allocation-targets-editor";
+import { AllocationPlanner } from "@/components/allocation/allocation-planner";
+import { DriftTable, type AllocationGroup } from "@/components/allocation/drift-table";
+import { useCurrency } from "@/components/providers/currency-provider";
+import { queryKeys } from "@/lib/query-keys";
+import type { Currency } from "@/lib/utils/currency";
+import {
+  ALLOCATION_SCOPES,
+  ALLOCATION_SCOPE_LABELS,
+  type AllocationScope,
+} from "@/lib/constants";
+
+export const dynamic = "force-dynamic";
+
+interface AllocationDriftResponse {
+  scope: AllocationScope;
+  hasTargets: boolean;
+  totalTargetPercent: number;
+  groups: AllocationGroup[];
+  totalAssets: number;
+  displayCurrency: Currency;
+  calculatedAt: string;
+}
+
+async function fetchDrift(
+  scope: AllocationScope,
+  displayCurrency: Currency
+): Promise<AllocationDriftResponse> {
+  const response = await fetch(
+    `/api/allocation/drift?scope=${scope}&displayCurrency=${displayCurrency}`
+  );
+  if (!response.ok) {
+    throw new Error("Failed to fetch allocation drift");
+  }
+  return response.json();
+}
+
+/**
+ * Target Allocation
+ *
+ * Target weights by asset type, holding or custom bucket, drift from the
+ * current breakdown, and a planner for new cash or a full rebalance.
+ */
+export default function AllocationPage() {
+  const { displayCurrency, isLoading: currencyLoading } = useCurrency();
+  const [scope, setScope] = useState<AllocationScope>("asset_type");
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.allocation.drift(scope, displayCurrency),
+    queryFn: () => fetchDrift(scope, displayCurrency),
+    enabled: !currencyLoading,
+  });
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Target Allocation</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Set where you want to be and plan the trades to get there
+          </p>
+        </div>
+        <Select value={scope} onValueChange={(v) => setScope(v as AllocationScope)}>
+          <SelectTrigger className="w-[180px] h-9 bg-card border border-border text-foreground">
+            <SelectValue placeholder="Group by" />
+          </SelectTrigger>
+          <SelectContent className="bg-card border-border">
+            {ALLOCATION_SCOPES.map((s) => (
+              <SelectItem
+                key={s}
+                value={s}
+                className="text-foreground focus:bg-accent/10 focus:text-foreground"
+              >
+                {ALLOCATION_SCOPE_LABELS[s]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        <AllocationTargetsEditor key={scope} scope={scope} />
+
+        <div className="rounded-lg border border-border bg-card/50 p-6">
+          <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide mb-4">
+            Drift
+          </h3>
+          {isLoading || currencyLoading ? (
+            <div className="animate-pulse h-24 bg-muted rounded" />
+          ) : error || !data ? (
+            <p className="text-destructive">Failed to load allocation drift</p>
+          ) : data.groups.length === 0 ? (
+            <p className="text-muted-foreground">No assets to compare yet.</p>
+          ) : (
+            <DriftTable groups={data.groups} currency={data.displayCurrency} />
+          )}
+        </div>
+      </div>
+
+      <AllocationPlanner scope={scope} />
+    </div>
+  );
+}
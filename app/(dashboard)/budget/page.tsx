@@ -34,6 +34,7 @@ import { BudgetVsActualChart } from "@/components/budget/charts/budget-vs-actual
 import { SpendingPaceChart } from "@/components/budget/charts/spending-pace-chart";
 import { AiCheckinCard } from "@/components/budget/ai-checkin-card";
 import { CorrectionSuggestions } from "@/components/budget/correction-suggestions";
+import { IncomeSources } from "@/components/budget/income-sources";
 import { AnomalyAlerts } from "@/components/budget/anomaly-alerts";
 import { SavingsWaterfall } from "@/components/budget/charts/savings-waterfall";
 import { SpendingTrendsChart } from "@/components/budget/charts/spending-trends";
@@ -489,6 +490,9 @@ export default function BudgetDashboardPage() {
         />
       </div>
 
+      {/* Income per confirmed source, and deposits to confirm as income */}
+      <IncomeSources sources={summary.income.sources} />
+
       {/* Overall progress bar with period info */}
       <div className="rounded-lg border border-border bg-card/50 p-4">
         <div className="flex items-center justify-between gap-2 mb-2">
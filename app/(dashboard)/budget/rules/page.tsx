@@ -0,0 +1,403 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import Link from "next/link";
+import { format, parseISO } from "date-fns";
+import { ArrowLeft, ListFilter, Pencil, Plus, RotateCcw, Trash2, Wand2 } from "lucide-react";
+import { queryKeys } from "@/lib/query-keys";
+import { showError, showSuccess } from "@/lib/toast-helpers";
+import { useBudgetSavers } from "@/lib/hooks/use-budget-savers";
+import { RULE_MATCH_FIELD_LABELS, RULE_MATCH_TYPE_LABELS } from "@/lib/constants";
+import {
+  CategorisationRuleDialog,
+  type CategorisationRuleResponse,
+  type UpAccountOption,
+} from "@/components/budget/categorisation-rule-dialog";
+import { RecategoriseDialog } from "@/components/budget/recategorise-dialog";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { EmptyState } from "@/components/ui/empty-state";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+export const dynamic = "force-dynamic";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface RulesResponse {
+  rules: CategorisationRuleResponse[];
+  accounts: UpAccountOption[];
+}
+
+interface RecategorisationBatch {
+  id: string;
+  startDate: string;
+  endDate: string;
+  changedCount: number;
+  undoneAt: string | null;
+  createdAt: string;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+async function fetchRules(): Promise<RulesResponse> {
+  const response = await fetch("/api/budget/rules");
+  if (!response.ok) {
+    throw new Error("Failed to fetch categorisation rules");
+  }
+  return response.json();
+}
+
+async function fetchBatches(): Promise<{ batches: RecategorisationBatch[] }> {
+  const response = await fetch("/api/budget/recategorise");
+  if (!response.ok) {
+    throw new Error("Failed to fetch recategorisation history");
+  }
+  return response.json();
+}
+
+function formatDollars(cents: number): string {
+  return (cents / 100).toLocaleString("en-AU", {
+    style: "currency",
+    currency: "AUD",
+    maximumFractionDigits: 2,
+  });
+}
+
+/**
+ * Describe a rule's conditions, e.g. "Description contains COLES, $-200 to $0".
+ */
+function describeConditions(
+  rule: CategorisationRuleResponse,
+  accounts: UpAccountOption[]
+): string {
+  const parts = [
+    `${RULE_MATCH_FIELD_LABELS[rule.matchField]} ${RULE_MATCH_TYPE_LABELS[rule.matchType].toLowerCase()} ${rule.pattern}`,
+  ];
+
+  if (rule.minAmountCents !== null && rule.maxAmountCents !== null) {
+    parts.push(`${formatDollars(rule.minAmountCents)} to ${formatDollars(rule.maxAmountCents)}`);
+  } else if (rule.minAmountCents !== null) {
+    parts.push(`at least ${formatDollars(rule.minAmountCents)}`);
+  } else if (rule.maxAmountCents !== null) {
+    parts.push(`at most ${formatDollars(rule.maxAmountCents)}`);
+  }
+
+  if (rule.upAccountId) {
+    const account = accounts.find((a) => a.upAccountId === rule.upAccountId);
+    parts.push(`on ${account?.displayName ?? "an old account"}`);
+  }
+
+  if (rule.isTransfer !== null) {
+    parts.push(rule.isTransfer ? "transfers only" : "not transfers");
+  }
+
+  return parts.join(", ");
+}
+
+// ---------------------------------------------------------------------------
+// Skeleton
+// ---------------------------------------------------------------------------
+
+function RulesSkeleton() {
+  return (
+    <div className="space-y-2 animate-pulse">
+      {Array.from({ length: 8 }).map((_, i) => (
+        <div key={i} className="h-12 rounded-md bg-muted" />
+      ))}
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Page
+// ---------------------------------------------------------------------------
+
+export default function CategorisationRulesPage() {
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<CategorisationRuleResponse | undefined>();
+  const [deletingRule, setDeletingRule] = useState<CategorisationRuleResponse | null>(null);
+  const [recategoriseOpen, setRecategoriseOpen] = useState(false);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.budget.rules,
+    queryFn: fetchRules,
+  });
+  const { data: savers = [] } = useBudgetSavers();
+  const { data: batchData } = useQuery({
+    queryKey: queryKeys.budget.recategorisations,
+    queryFn: fetchBatches,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      const response = await fetch(`/api/budget/rules/${id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isActive }),
+      });
+      if (!response.ok) {
+        throw new Error("Failed to update rule");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.budget.rules });
+    },
+    onError: (err: Error) => {
+      showError(err.message);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/budget/rules/${id}`, { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error("Failed to delete rule");
+      }
+    },
+    onSuccess: () => {
+      showSuccess("Rule deleted");
+      setDeletingRule(null);
+      queryClient.invalidateQueries({ queryKey: queryKeys.budget.rules });
+    },
+    onError: (err: Error) => {
+      showError(err.message);
+    },
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: async (batchId: string) => {
+      const response = await fetch(`/api/budget/recategorise/${batchId}/undo`, { method: "PATCH" });
+      if (!response.ok) {
+        throw new Error("Failed to undo recategorisation");
+      }
+      return response.json() as Promise<{ restoredCount: number; skippedCount: number }>;
+    },
+    onSuccess: ({ restoredCount, skippedCount }) => {
+      showSuccess(
+        `Restored ${restoredCount} transactions`,
+        skippedCount > 0 ? `${skippedCount} changed since and were kept` : undefined
+      );
+      queryClient.invalidateQueries({ queryKey: queryKeys.budget.transactions.all });
+      queryClient.invalidateQueries({ queryKey: ["budget", "summary"] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.budget.recategorisations });
+    },
+    onError: (err: Error) => {
+      showError(err.message);
+    },
+  });
+
+  const rules = data?.rules ?? [];
+  const batches = batchData?.batches ?? [];
+  const accounts = data?.accounts ?? [];
+  const nextPriority = rules.length > 0 ? Math.max(...rules.map((r) => r.priority)) + 10 : 10;
+  const saverMap = new Map(savers.map((s) => [s.saverKey, s]));
+
+  const openDialog = (rule?: CategorisationRuleResponse) => {
+    setEditingRule(rule);
+    setDialogOpen(true);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-3">
+          <Link
+            href="/budget"
+            className="h-11 w-11 flex items-center justify-center rounded-md text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+            aria-label="Back to Budget"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+          <div>
+            <h1 className="text-xl font-semibold text-foreground">Categorisation Rules</h1>
+            <p className="text-sm text-muted-foreground">
+              Applied to transactions as they sync from UP, lowest priority first.
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            className="gap-1.5"
+            onClick={() => setRecategoriseOpen(true)}
+          >
+            <Wand2 className="h-4 w-4" />
+            Re-run Rules
+          </Button>
+          <Button size="sm" className="gap-1.5" onClick={() => openDialog()}>
+            <Plus className="h-4 w-4" />
+            Add Rule
+          </Button>
+        </div>
+      </div>
+
+      {/* Content */}
+      {isLoading ? (
+        <RulesSkeleton />
+      ) : error ? (
+        <p className="text-sm text-destructive">Failed to load rules.</p>
+      ) : rules.length === 0 ? (
+        <EmptyState
+          icon={ListFilter}
+          title="No rules"
+          description="Add a rule to classify transactions by merchant, UP category or amount as they sync."
+        />
+      ) : (
+        <div className="rounded-lg border border-border bg-card/50">
+          <Table>
+            <TableHeader>
+              <TableRow className="border-border hover:bg-transparent">
+                <TableHead className="text-muted-foreground w-16">Priority</TableHead>
+                <TableHead className="text-muted-foreground">Rule</TableHead>
+                <TableHead className="text-muted-foreground hidden md:table-cell">Assigns</TableHead>
+                <TableHead className="text-muted-foreground text-right">Active</TableHead>
+                <TableHead className="w-24" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule) => {
+                const saver = rule.saverKey ? saverMap.get(rule.saverKey) : undefined;
+                const category = saver?.categories.find((c) => c.categoryKey === rule.categoryKey);
+                return (
+                  <TableRow
+                    key={rule.id}
+                    className={`border-border ${rule.isActive ? "" : "opacity-50"}`}
+                  >
+                    <TableCell className="text-muted-foreground font-mono">{rule.priority}</TableCell>
+                    <TableCell>
+                      <p className="text-foreground font-medium">{rule.name}</p>
+                      <p className="text-xs text-muted-foreground font-mono break-all">
+                        {describeConditions(rule, accounts)}
+                      </p>
+                    </TableCell>
+                    <TableCell className="hidden md:table-cell">
+                      <div className="flex flex-wrap items-center gap-1.5 text-sm">
+                        {rule.saverKey && (
+                          <span className="text-foreground">
+                            {saver ? `${saver.emoji} ${saver.displayName}` : rule.saverKey} &rarr;{" "}
+                            {category?.displayName ?? rule.categoryKey}
+                          </span>
+                        )}
+                        {rule.mjolnirCategoryId && (
+                          <span className="text-muted-foreground">({rule.mjolnirCategoryId})</span>
+                        )}
+                        {rule.tags.map((tag) => (
+                          <span
+                            key={tag}
+                            className="rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground"
+                          >
+                            #{tag}
+                          </span>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Switch
+                        checked={rule.isActive}
+                        onCheckedChange={(isActive) => toggleMutation.mutate({ id: rule.id, isActive })}
+                        disabled={toggleMutation.isPending}
+                        aria-label="Rule active"
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openDialog(rule)}
+                          aria-label="Edit rule"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setDeletingRule(rule)}
+                          aria-label="Delete rule"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {/* Recent re-runs */}
+      {batches.length > 0 && (
+        <div className="space-y-2">
+          <h2 className="text-sm font-medium text-muted-foreground">Recent re-runs</h2>
+          <div className="rounded-lg border border-border bg-card/50 divide-y divide-border">
+            {batches.map((batch) => (
+              <div key={batch.id} className="flex items-center justify-between gap-3 px-4 py-2 text-sm">
+                <div>
+                  <p className="text-foreground">
+                    {format(parseISO(batch.startDate), "d MMM")} –{" "}
+                    {format(parseISO(batch.endDate), "d MMM yyyy")}: {batch.changedCount} changed
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Run {format(parseISO(batch.createdAt), "d MMM yyyy, h:mm a")}
+                    {batch.undoneAt && ` · undone ${format(parseISO(batch.undoneAt), "d MMM yyyy")}`}
+                  </p>
+                </div>
+                {!batch.undoneAt && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="gap-1.5"
+                    onClick={() => undoMutation.mutate(batch.id)}
+                    disabled={undoMutation.isPending}
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                    Undo
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <RecategoriseDialog open={recategoriseOpen} onOpenChange={setRecategoriseOpen} />
+
+      <CategorisationRuleDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        rule={editingRule}
+        accounts={accounts}
+        nextPriority={nextPriority}
+      />
+
+      <ConfirmDialog
+        open={deletingRule !== null}
+        onOpenChange={(open) => !open && setDeletingRule(null)}
+        title="Delete rule?"
+        description={`"${deletingRule?.name}" will stop applying to new transactions. Transactions it already classified keep their classification.`}
+        confirmLabel="Delete"
+        variant="destructive"
+        onConfirm={() => deletingRule && deleteMutation.mutate(deletingRule.id)}
+        loading={deleteMutation.isPending}
+      />
+    </div>
+  );
+}
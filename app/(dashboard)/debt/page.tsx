@@ -0,0 +1,350 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { CreditCard } from "lucide-react";
+import { queryKeys } from "@/lib/query-keys";
+import { formatCurrency } from "@/lib/utils/currency";
+import {
+  DEBT_PAYOFF_STRATEGIES,
+  DEBT_PAYOFF_STRATEGY_LABELS,
+  DEFAULT_EXTRA_REPAYMENTS,
+  MAX_EXTRA_REPAYMENTS,
+  type DebtPayoffStrategy,
+} from "@/lib/constants";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { EmptyState } from "@/components/ui/empty-state";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+export const dynamic = "force-dynamic";
+
+interface PayoffDebt {
+  id: string;
+  name: string;
+  balance: number;
+  annualRate: number;
+  monthlyRepayment: number;
+  offsetBalance: number;
+}
+
+interface PayoffPlan {
+  strategy: DebtPayoffStrategy | null;
+  extraMonthly: number;
+  debtFreeDate: string | null;
+  months: number | null;
+  totalInterest: number;
+  interestSaved: number;
+  monthsSaved: number | null;
+  debts: Array<{
+    id: string;
+    name: string;
+    payoffDate: string | null;
+    months: number | null;
+    interest: number;
+  }>;
+}
+
+interface DebtPayoffResponse {
+  debts: PayoffDebt[];
+  excluded: Array<{ id: string; name: string; reason: string }>;
+  baseline: PayoffPlan;
+  plans: PayoffPlan[];
+  calculatedAt: string;
+}
+
+async function fetchDebtPayoff(extraAmounts: number[]): Promise<DebtPayoffResponse> {
+  const response = await fetch(`/api/debt/payoff?extra=${extraAmounts.join(",")}`);
+  if (!response.ok) {
+    throw new Error("Failed to fetch debt payoff plans");
+  }
+  return response.json();
+}
+
+function formatMonth(date: string | null): string {
+  return date ? format(parseISO(date), "MMM yyyy") : "Never";
+}
+
+function formatMonths(months: number | null): string {
+  if (months === null) return "—";
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  if (years === 0) return `${rest} mo`;
+  return rest === 0 ? `${years} yrs` : `${years} yrs ${rest} mo`;
+}
+
+/**
+ * Parses a comma-separated list of extra amounts, or returns null if any
+ * amount is not a positive number or there are too many.
+ */
+function parseExtraAmounts(value: string): number[] | null {
+  const amounts = value
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean)
+    .map(Number);
+  if (
+    amounts.length === 0 ||
+    amounts.length > MAX_EXTRA_REPAYMENTS ||
+    amounts.some((a) => !Number.isFinite(a) || a <= 0)
+  ) {
+    return null;
+  }
+  return [...new Set(amounts)].sort((a, b) => a - b);
+}
+
+/**
+ * Debt Payoff
+ *
+ * Compares repaying every debt holding with the avalanche or snowball
+ * strategy at several extra monthly amounts: when each debt is repaid, when
+ * you're debt free, and the interest saved against scheduled repayments.
+ */
+export default function DebtPayoffPage() {
+  const [strategy, setStrategy] = useState<DebtPayoffStrategy>("avalanche");
+  const [extraInput, setExtraInput] = useState(DEFAULT_EXTRA_REPAYMENTS.join(", "));
+  const [extraAmounts, setExtraAmounts] = useState<number[]>(DEFAULT_EXTRA_REPAYMENTS);
+  const [extraError, setExtraError] = useState<string | null>(null);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.holdings.debtPayoff(extraAmounts),
+    queryFn: () => fetchDebtPayoff(extraAmounts),
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const amounts = parseExtraAmounts(extraInput);
+    if (!amounts) {
+      setExtraError(`Enter up to ${MAX_EXTRA_REPAYMENTS} positive amounts separated by commas`);
+      return;
+    }
+    setExtraError(null);
+    setExtraAmounts(amounts);
+  };
+
+  const plans = data?.plans.filter((p) => p.strategy === strategy) ?? [];
+  const totalDebt = data?.debts.reduce((sum, d) => sum + d.balance, 0) ?? 0;
+  const stats = data
+    ? [
+        { label: "Total Debt", value: formatCurrency(totalDebt, "AUD", { compact: true }) },
+        {
+          label: "Scheduled Repayments",
+          value: `${formatCurrency(
+            data.debts.reduce((sum, d) => sum + d.monthlyRepayment, 0),
+            "AUD"
+          )}/mo`,
+        },
+        { label: "Debt Free (Scheduled)", value: formatMonth(data.baseline.debtFreeDate) },
+        {
+          label: "Interest (Scheduled)",
+          value: formatCurrency(data.baseline.totalInterest, "AUD", { compact: true }),
+        },
+      ]
+    : [];
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-foreground">Debt Payoff</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          How soon extra repayments could clear your debts, and the interest they save
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="rounded-lg border border-border bg-card/50 p-6">
+          <div className="animate-pulse h-80 bg-muted rounded" />
+        </div>
+      ) : error || !data ? (
+        <div className="rounded-lg border border-destructive bg-destructive/10 p-6">
+          <p className="text-destructive">Failed to load debt payoff plans</p>
+        </div>
+      ) : data.debts.length === 0 && data.excluded.length === 0 ? (
+        <EmptyState
+          icon={CreditCard}
+          title="No debts to plan"
+          description="Add a debt holding and record its balance at check-in to plan its payoff."
+        />
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            <div className="rounded-lg border border-border bg-card/50 p-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                {stats.map((stat) => (
+                  <div key={stat.label}>
+                    <p className="text-xs text-muted-foreground">{stat.label}</p>
+                    <p className="text-xl font-bold font-mono text-foreground">{stat.value}</p>
+                  </div>
+                ))}
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-border hover:bg-transparent">
+                    <TableHead className="text-muted-foreground">Extra / Month</TableHead>
+                    <TableHead className="text-muted-foreground text-right">Debt Free</TableHead>
+                    <TableHead className="text-muted-foreground text-right">Interest</TableHead>
+                    <TableHead className="text-muted-foreground text-right">Interest Saved</TableHead>
+                    <TableHead className="text-muted-foreground text-right">Time Saved</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plans.map((plan) => (
+                    <TableRow key={plan.extraMonthly} className="border-border">
+                      <TableCell className="text-foreground font-mono">
+                        {formatCurrency(plan.extraMonthly, "AUD")}
+                      </TableCell>
+                      <TableCell className="text-right text-foreground">
+                        {formatMonth(plan.debtFreeDate)}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-muted-foreground">
+                        {formatCurrency(plan.totalInterest, "AUD")}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-positive">
+                        {formatCurrency(plan.interestSaved, "AUD")}
+                      </TableCell>
+                      <TableCell className="text-right text-foreground">
+                        {formatMonths(plan.monthsSaved)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <p className="text-xs text-muted-foreground mt-4">
+                Every debt keeps its scheduled repayment. Extra repayments, and the repayments
+                of debts already cleared, go to the next debt in order. Savings are against
+                scheduled repayments only. Rates and offset balances are held at today&apos;s
+                values; amounts in AUD.
+              </p>
+            </div>
+
+            {data.debts.length > 0 && (
+              <div className="rounded-lg border border-border bg-card/50 p-6">
+                <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide mb-4">
+                  Payoff Order
+                </h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-border hover:bg-transparent">
+                      <TableHead className="text-muted-foreground">Debt</TableHead>
+                      <TableHead className="text-muted-foreground text-right">Rate</TableHead>
+                      <TableHead className="text-muted-foreground text-right">Balance</TableHead>
+                      <TableHead className="text-muted-foreground text-right">Scheduled</TableHead>
+                      {plans.map((plan) => (
+                        <TableHead key={plan.extraMonthly} className="text-muted-foreground text-right">
+                          +{formatCurrency(plan.extraMonthly, "AUD", { compact: true })}
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {(plans[0]?.debts ?? []).map((planDebt) => {
+                      const debt = data.debts.find((d) => d.id === planDebt.id)!;
+                      const scheduled = data.baseline.debts.find((d) => d.id === debt.id);
+                      return (
+                        <TableRow key={debt.id} className="border-border">
+                          <TableCell className="text-foreground">
+                            <Link href={`/holdings/${debt.id}`} className="hover:underline">
+                              {debt.name}
+                            </Link>
+                          </TableCell>
+                          <TableCell className="text-right font-mono text-muted-foreground">
+                            {debt.annualRate.toFixed(2)}%
+                          </TableCell>
+                          <TableCell className="text-right font-mono text-muted-foreground">
+                            {formatCurrency(debt.balance, "AUD", { compact: true })}
+                          </TableCell>
+                          <TableCell className="text-right text-muted-foreground">
+                            {formatMonth(scheduled?.payoffDate ?? null)}
+                          </TableCell>
+                          {plans.map((plan) => (
+                            <TableCell key={plan.extraMonthly} className="text-right text-foreground">
+                              {formatMonth(
+                                plan.debts.find((d) => d.id === debt.id)?.payoffDate ?? null
+                              )}
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-6">
+            <div className="rounded-lg border border-border bg-card/50 p-6 h-fit">
+              <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide mb-4">
+                Strategy
+              </h3>
+              <div className="space-y-2">
+                {DEBT_PAYOFF_STRATEGIES.map((s) => (
+                  <Button
+                    key={s}
+                    type="button"
+                    variant={s === strategy ? "default" : "outline"}
+                    className="w-full justify-start"
+                    onClick={() => setStrategy(s)}
+                  >
+                    {DEBT_PAYOFF_STRATEGY_LABELS[s]}
+                  </Button>
+                ))}
+              </div>
+
+              <form onSubmit={handleSubmit} className="space-y-2 mt-6">
+                <Label htmlFor="extra-amounts" className="text-muted-foreground text-sm">
+                  Extra per month (AUD)
+                </Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="extra-amounts"
+                    value={extraInput}
+                    onChange={(e) => setExtraInput(e.target.value)}
+                    placeholder="250, 500, 1000"
+                  />
+                  <Button type="submit" variant="outline">
+                    Compare
+                  </Button>
+                </div>
+                {extraError && <p className="text-sm text-destructive">{extraError}</p>}
+              </form>
+            </div>
+
+            {data.excluded.length > 0 && (
+              <div className="rounded-lg border border-border bg-card/50 p-6 h-fit">
+                <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide mb-4">
+                  Not Included
+                </h3>
+                <ul className="space-y-2 text-sm">
+                  {data.excluded.map((debt) => (
+                    <li key={debt.id} className="flex justify-between gap-4">
+                      <Link href={`/holdings/${debt.id}`} className="text-foreground hover:underline">
+                        {debt.name}
+                      </Link>
+                      <span className="text-muted-foreground">{debt.reason}</span>
+                    </li>
+                  ))}
+                </ul>
+                <p className="text-xs text-muted-foreground mt-4">
+                  Edit the holding to add its interest rate and repayment.
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
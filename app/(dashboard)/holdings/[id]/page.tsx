@@ -12,9 +12,22 @@ import { CurrencyDisplay } from "@/components/ui/currency-display";
 import { EditHoldingDialog } from "@/components/holdings/edit-holding-dialog";
 import { HoldingPriceChart } from "@/components/holdings/holding-price-chart";
 import { SuperBalanceHistoryChart } from "@/components/holdings/super-balance-history-chart";
+import { HoldingDividends } from "@/components/holdings/holding-dividends";
+import { HoldingRisk } from "@/components/holdings/holding-risk";
+import { RealAssetSummary } from "@/components/holdings/real-asset-summary";
+import { DebtSummary } from "@/components/holdings/debt-summary";
+import { ManualPrices } from "@/components/holdings/manual-prices";
+import { CorporateActions } from "@/components/holdings/corporate-actions";
+import { SettlementLedger } from "@/components/holdings/settlement-ledger";
 import type { Holding } from "@/lib/db/schema";
 import type { Currency } from "@/lib/utils/currency";
-import { isTradeable as isTradeableType } from "@/lib/constants";
+import {
+  COST_BASIS_METHOD_LABELS,
+  PRICE_PROVIDER_LABELS,
+  resolvePriceProvider,
+  isTradeable as isTradeableType,
+  isRealAsset as isRealAssetType,
+} from "@/lib/constants";
 import { queryKeys } from "@/lib/query-keys";
 
 export const dynamic = "force-dynamic";
@@ -27,6 +40,8 @@ const HOLDING_TYPE_LABELS: Record<string, string> = {
   super: "Superannuation",
   cash: "Cash",
   debt: "Debt",
+  property: "Property",
+  vehicle: "Vehicle",
 };
 
 interface HoldingWithData extends Holding {
@@ -210,8 +225,11 @@ export default function HoldingDetailPage({ params }: HoldingDetailPageProps) {
   });
 
   const isTradeable = holding ? isTradeableType(holding.type) : false;
+  const isManuallyPriced =
+    holding && isTradeable ? resolvePriceProvider(holding) === "manual" : false;
 
   const isSuper = holding ? holding.type === "super" : false;
+  const isRealAsset = holding ? isRealAssetType(holding.type) : false;
 
   // Fetch price for tradeable holdings
   const { data: priceData, isLoading: priceLoading } = useQuery({
@@ -311,7 +329,7 @@ export default function HoldingDetailPage({ params }: HoldingDetailPageProps) {
         {/* Price or Balance card */}
         <div className="rounded-lg border border-border bg-card/50 p-6">
           <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide mb-2">
-            {isTradeable ? "Current Price" : "Balance"}
+            {isTradeable ? "Current Price" : isRealAsset ? "Latest Valuation" : "Balance"}
           </h3>
           {isTradeable ? (
             priceLoading ? (
@@ -358,7 +376,9 @@ export default function HoldingDetailPage({ params }: HoldingDetailPageProps) {
                 )}
               </div>
             ) : (
-              <span className="text-muted-foreground text-lg">No price data</span>
+              <span className="text-muted-foreground text-lg">
+                {isManuallyPriced ? "No price entered" : "No price data"}
+              </span>
             )
           ) : holding.latestSnapshot ? (
             <div>
@@ -372,7 +392,14 @@ export default function HoldingDetailPage({ params }: HoldingDetailPageProps) {
               </p>
             </div>
           ) : (
-            <span className="text-muted-foreground text-lg">No balance recorded</span>
+            <span className="text-muted-foreground text-lg">
+              {isRealAsset ? "No valuation recorded" : "No balance recorded"}
+            </span>
+          )}
+          {isTradeable && holding.priceProvider && (
+            <p className="text-muted-foreground text-xs mt-2">
+              {PRICE_PROVIDER_LABELS[holding.priceProvider]}
+            </p>
           )}
         </div>
 
@@ -442,6 +469,40 @@ export default function HoldingDetailPage({ params }: HoldingDetailPageProps) {
           </div>
         )}
 
+        {/* Cost Basis card (tradeable only) */}
+        {isTradeable && (
+          <div className="rounded-lg border border-border bg-card/50 p-6">
+            <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide mb-2">
+              Cost Basis
+            </h3>
+            {holding.costBasis !== null && holding.costBasis !== undefined ? (
+              <div>
+                <CurrencyDisplay
+                  amount={holding.costBasis}
+                  currency={holdingCurrency}
+                  className="text-2xl font-bold text-foreground"
+                />
+                {holding.avgCost !== null && holding.avgCost !== undefined && (
+                  <p className="text-muted-foreground text-sm mt-1">
+                    Avg{" "}
+                    <CurrencyDisplay
+                      amount={holding.avgCost}
+                      currency={holdingCurrency}
+                      className="inline-flex"
+                    />{" "}
+                    per unit
+                  </p>
+                )}
+              </div>
+            ) : (
+              <span className="text-muted-foreground text-lg">—</span>
+            )}
+            <p className="text-muted-foreground text-xs mt-2">
+              {COST_BASIS_METHOD_LABELS[holding.costBasisMethod]}
+            </p>
+          </div>
+        )}
+
         {/* Currency card (for non-tradeable) */}
         {!isTradeable && (
           <div className="rounded-lg border border-border bg-card/50 p-6">
@@ -477,6 +538,29 @@ export default function HoldingDetailPage({ params }: HoldingDetailPageProps) {
         </div>
       )}
 
+      {/* Dated prices (manually priced holdings only) */}
+      {isManuallyPriced && <ManualPrices holdingId={id} holdingCurrency={holdingCurrency} />}
+
+      {/* Symbol changes, mergers, spin-offs and returns of capital (tradeable only) */}
+      {isTradeable && <CorporateActions holdingId={id} />}
+
+      {/* Dividend income and yield (tradeable only) */}
+      {isTradeable && <HoldingDividends holdingId={id} />}
+
+      {/* Volatility, drawdown and correlation with other holdings (tradeable only) */}
+      {isTradeable && <HoldingRisk holdingId={id} />}
+
+      {/* Valuation, equity and depreciation (property/vehicle only) */}
+      {isRealAsset && <RealAssetSummary holdingId={id} />}
+
+      {/* Loan schedule and actual vs scheduled balance (debt only) */}
+      {holding.type === "debt" && <DebtSummary holdingId={id} />}
+
+      {/* Trades settled since the last balance (cash only) */}
+      {holding.type === "cash" && (
+        <SettlementLedger holdingId={id} holdingCurrency={holdingCurrency} />
+      )}
+
       {/* Balance & Contribution Chart (super only) */}
       {isSuper && (
         <div className="rounded-lg border border-border bg-card/50 p-6">
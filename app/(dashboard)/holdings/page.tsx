@@ -6,7 +6,7 @@ import { useSearchParams, useRouter } from "next/navigation";
 import { RefreshCw, Briefcase, Filter, Wallet, ArrowRightLeft, Camera, EyeOff } from "lucide-react";
 import { toast } from "sonner";
 import { queryKeys } from "@/lib/query-keys";
-import { HoldingsTable, type HoldingWithData, type PriceData } from "@/components/holdings/holdings-table";
+import { HoldingsTable, type HoldingWithData, type HoldingReturnData, type PriceData } from "@/components/holdings/holdings-table";
 
 /**
  * Sparkline data from the API.
@@ -35,6 +35,33 @@ async function fetchSparklineData(): Promise<Map<string, number[]>> {
   }
   return map;
 }
+/**
+ * Since-inception return for a holding from the API.
+ */
+interface HoldingReturnResult extends HoldingReturnData {
+  holdingId: string;
+}
+
+async function fetchHoldingReturns(): Promise<Map<string, HoldingReturnData>> {
+  const response = await fetch("/api/net-worth/returns?window=inception");
+  if (!response.ok) {
+    if (response.status === 401) {
+      throw new Error("Unauthorized");
+    }
+    throw new Error("Failed to fetch returns");
+  }
+  const results: { holdings: HoldingReturnResult[] } = await response.json();
+
+  const map = new Map<string, HoldingReturnData>();
+  for (const result of results.holdings) {
+    map.set(result.holdingId, {
+      xirr: result.xirr,
+      twr: result.twr,
+      annualisedTwr: result.annualisedTwr,
+    });
+  }
+  return map;
+}
 import { AddHoldingDialog } from "@/components/holdings/add-holding-dialog";
 import { CurrencyFilter, type CurrencyFilterValue } from "@/components/holdings/currency-filter";
 import { FilterTabs, type HoldingTypeFilter } from "@/components/holdings/filter-tabs";
@@ -46,6 +73,7 @@ import { EmptyState } from "@/components/ui/empty-state";
 import { SpeedDial, type SpeedDialAction } from "@/components/shared/speed-dial";
 import { AddTransactionDialog } from "@/components/transactions/add-transaction-dialog";
 import { CheckInModal } from "@/components/check-in/check-in-modal";
+import { isEnabledCurrency } from "@/lib/constants";
 
 export const dynamic = "force-dynamic";
 
@@ -157,11 +185,11 @@ export default function HoldingsPage() {
 
   const showDormant = searchParams.get("show_dormant") === "true";
   const currencyFilterParam = searchParams.get("currency") as CurrencyFilterValue | null;
-  const currencyFilter: CurrencyFilterValue = currencyFilterParam && ["all", "AUD", "NZD", "USD"].includes(currencyFilterParam)
+  const currencyFilter: CurrencyFilterValue = currencyFilterParam && (currencyFilterParam === "all" || isEnabledCurrency(currencyFilterParam))
     ? currencyFilterParam
     : "all";
   const typeFilterParam = searchParams.get("type") as HoldingTypeFilter | null;
-  const typeFilter: HoldingTypeFilter = typeFilterParam && ["all", "stock", "etf", "crypto", "super", "cash", "debt"].includes(typeFilterParam)
+  const typeFilter: HoldingTypeFilter = typeFilterParam && ["all", "stock", "etf", "crypto", "super", "cash", "property", "vehicle", "debt"].includes(typeFilterParam)
     ? typeFilterParam
     : "all";
 
@@ -237,6 +265,15 @@ export default function HoldingsPage() {
     staleTime: 1000 * 60 * 30, // 30 minutes — historical data doesn't change often
   });
 
+  // Fetch since-inception XIRR/TWR for tradeable holdings
+  const {
+    data: returnsMap,
+    isLoading: returnsLoading,
+  } = useQuery({
+    queryKey: queryKeys.returns.byHolding,
+    queryFn: fetchHoldingReturns,
+  });
+
   // Mutation for refreshing prices (manual user action with toasts)
   const refreshMutation = useMutation({
     mutationFn: () => refreshPrices(),
@@ -423,7 +460,7 @@ export default function HoldingsPage() {
           <EmptyState
             icon={Briefcase}
             title="No holdings yet"
-            description="Add your first holding to start tracking your net worth. You can add stocks, ETFs, crypto, superannuation, cash, and debt."
+            description="Add your first holding to start tracking your net worth. You can add stocks, ETFs, crypto, superannuation, cash, property, vehicles, and debt."
             action={
               <AddHoldingDialog>
                 <Button size="lg">Add your first holding</Button>
@@ -440,6 +477,7 @@ export default function HoldingsPage() {
     const typeLabels: Record<string, string> = {
       stock: "stock", etf: "ETF", crypto: "crypto",
       super: "super", cash: "cash", debt: "debt",
+      property: "property", vehicle: "vehicle",
     };
     const typeLabel = typeFilter !== "all" ? typeLabels[typeFilter] ?? typeFilter : null;
     const emptyTitle = typeLabel ? `No ${typeLabel} holdings` : "No matching holdings";
@@ -553,6 +591,8 @@ export default function HoldingsPage() {
         typeFilter={typeFilter}
         sparklineData={sparklineMap}
         sparklineLoading={sparklineLoading}
+        returns={returnsMap}
+        returnsLoading={returnsLoading}
       />
 
       {/* Speed-dial FAB with hidden dialog triggers */}
@@ -2,14 +2,36 @@
 
 import * as React from "react";
 import { toast } from "sonner";
-import { Download } from "lucide-react";
+import { Download, Trash2 } from "lucide-react";
 import { FileUpload } from "@/components/import/file-upload";
 import { ImportResults, type ImportError } from "@/components/import/import-results";
 import { ImportProgress } from "@/components/import/import-progress";
 import { ImportPreview } from "@/components/import/import-preview";
+import { ImportProfileEditor } from "@/components/import/import-profile-editor";
 import { RecentImports, type ImportHistoryRecord } from "@/components/import/recent-imports";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { parseCSV, type CSVRow } from "@/lib/import/csv-parser";
+import {
+  applyImportProfileToRows,
+  BUILT_IN_IMPORT_PROFILES,
+  DEFAULT_IMPORT_PROFILE_ID,
+  findMissingImportColumns,
+  IMPORT_FIELDS,
+  type TransactionImportProfile,
+} from "@/lib/import/profiles";
+import { validateTransactionRows } from "@/lib/import/validators/transaction-validator";
+import type { ImportProfileMapping } from "@/lib/db/schema";
 
 // CSV template content
 const TRANSACTIONS_TEMPLATE = `date,symbol,action,quantity,unit_price,fees,currency,exchange,notes
@@ -54,19 +76,40 @@ interface PreviewData {
   headers: string[];
   rows: string[][];
   warnings: string[];
+  rowErrors?: string[][];
 }
 
-// Validate transaction preview rows for obvious issues
-function validateTransactionPreview(headers: string[], _rows: string[][]): string[] {
+interface TransactionFileData {
+  headers: string[];
+  rows: CSVRow[];
+}
+
+// Map transaction rows through an import profile and validate the result,
+// so the preview shows exactly what will be imported
+function buildTransactionPreview(
+  file: TransactionFileData,
+  mapping: ImportProfileMapping
+): PreviewData {
   const warnings: string[] = [];
-  const requiredHeaders = ["date", "symbol", "action", "quantity", "unit_price"];
-  const missing = requiredHeaders.filter(
-    (h) => !headers.map((x) => x.toLowerCase()).includes(h)
-  );
-  if (missing.length > 0) {
-    warnings.push(`Missing required column${missing.length > 1 ? "s" : ""}: ${missing.join(", ")}`);
+  const missing = findMissingImportColumns(file.headers, mapping);
+  if (missing.required.length > 0) {
+    warnings.push(
+      `Missing required column${missing.required.length > 1 ? "s" : ""}: ${missing.required.join(", ")}`
+    );
   }
-  return warnings;
+  if (missing.optional.length > 0) {
+    warnings.push(`Optional columns not found: ${missing.optional.join(", ")}`);
+  }
+
+  const mapped = applyImportProfileToRows(file.rows, mapping);
+  const results = validateTransactionRows(mapped);
+
+  return {
+    headers: [...IMPORT_FIELDS],
+    rows: mapped.map((row) => IMPORT_FIELDS.map((field) => row[field] ?? "")),
+    warnings,
+    rowErrors: results.map((result) => result.errors),
+  };
 }
 
 // Validate snapshot preview rows for obvious issues
@@ -85,7 +128,7 @@ function validateSnapshotPreview(headers: string[], _rows: string[][]): string[]
 export default function ImportPage() {
   // Transaction import state
   const [transactionFile, setTransactionFile] = React.useState<File | null>(null);
-  const [transactionPreview, setTransactionPreview] = React.useState<PreviewData | null>(null);
+  const [transactionData, setTransactionData] = React.useState<TransactionFileData | null>(null);
   const [transactionResults, setTransactionResults] = React.useState<ImportSummary | null>(null);
   const [transactionLoading, setTransactionLoading] = React.useState(false);
   const [transactionRowCount, setTransactionRowCount] = React.useState<number | undefined>(undefined);
@@ -97,6 +140,12 @@ export default function ImportPage() {
   const [snapshotLoading, setSnapshotLoading] = React.useState(false);
   const [snapshotRowCount, setSnapshotRowCount] = React.useState<number | undefined>(undefined);
 
+  // Import profile state; customMapping is set while the mapping editor is open
+  const [importProfiles, setImportProfiles] =
+    React.useState<TransactionImportProfile[]>(BUILT_IN_IMPORT_PROFILES);
+  const [profileId, setProfileId] = React.useState(DEFAULT_IMPORT_PROFILE_ID);
+  const [customMapping, setCustomMapping] = React.useState<ImportProfileMapping | null>(null);
+
   // Recent imports state
   const [recentImports, setRecentImports] = React.useState<ImportHistoryRecord[]>([]);
   const [recentImportsLoading, setRecentImportsLoading] = React.useState(true);
@@ -121,15 +170,43 @@ export default function ImportPage() {
     fetchRecentImports();
   }, [fetchRecentImports]);
 
+  // Fetch built-in and saved import profiles
+  const fetchImportProfiles = React.useCallback(async () => {
+    try {
+      const response = await fetch("/api/import/profiles");
+      if (response.ok) {
+        const data = await response.json();
+        setImportProfiles(data.profiles);
+      }
+    } catch (error) {
+      console.error("Failed to fetch import profiles:", error);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    fetchImportProfiles();
+  }, [fetchImportProfiles]);
+
+  const selectedProfile =
+    importProfiles.find((p) => p.id === profileId) ?? BUILT_IN_IMPORT_PROFILES[0];
+
+  const transactionPreview = React.useMemo(
+    () =>
+      transactionData
+        ? buildTransactionPreview(transactionData, customMapping ?? selectedProfile.mapping)
+        : null,
+    [transactionData, customMapping, selectedProfile]
+  );
+
   // Handle file selection with preview parsing
   const handleTransactionFileSelect = async (file: File) => {
     setTransactionFile(file);
     setTransactionResults(null);
     const text = await file.text();
-    const { headers, rows } = parseCsv(text);
+    const rows = parseCSV(text);
+    const headers = rows.length > 0 ? Object.keys(rows[0]) : parseCsv(text).headers;
     setTransactionRowCount(rows.length);
-    const warnings = validateTransactionPreview(headers, rows);
-    setTransactionPreview({ headers, rows, warnings });
+    setTransactionData({ headers, rows });
   };
 
   const handleSnapshotFileSelect = async (file: File) => {
@@ -145,13 +222,19 @@ export default function ImportPage() {
   const handleTransactionImport = async () => {
     if (!transactionFile) return;
 
+    if (customMapping) {
+      toast.error("Save the column mapping as a profile before importing");
+      return;
+    }
+
     setTransactionLoading(true);
     setTransactionResults(null);
-    setTransactionPreview(null);
+    setTransactionData(null);
 
     try {
       const formData = new FormData();
       formData.append("file", transactionFile);
+      formData.append("profile_id", selectedProfile.id);
 
       const response = await fetch("/api/import/transactions", {
         method: "POST",
@@ -230,11 +313,44 @@ export default function ImportPage() {
 
   const handleTransactionFileClear = () => {
     setTransactionFile(null);
-    setTransactionPreview(null);
+    setTransactionData(null);
     setTransactionResults(null);
     setTransactionRowCount(undefined);
+    setCustomMapping(null);
+  };
+
+  const handleProfileSaved = (profile: TransactionImportProfile) => {
+    setImportProfiles((prev) => [...prev, profile]);
+    setProfileId(profile.id);
+    setCustomMapping(null);
   };
 
+  const handleProfileDelete = async () => {
+    if (selectedProfile.builtIn) return;
+
+    try {
+      const response = await fetch(`/api/import/profiles/${selectedProfile.id}`, {
+        method: "DELETE",
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        toast.error(data.error || "Failed to delete import profile");
+        return;
+      }
+
+      toast.success(`Deleted import profile "${selectedProfile.name}"`);
+      setImportProfiles((prev) => prev.filter((p) => p.id !== selectedProfile.id));
+      setProfileId(DEFAULT_IMPORT_PROFILE_ID);
+    } catch (error) {
+      toast.error("Failed to delete import profile");
+      console.error("Import profile delete error:", error);
+    }
+  };
+
+  const builtInProfiles = importProfiles.filter((p) => p.builtIn);
+  const savedProfiles = importProfiles.filter((p) => !p.builtIn);
+
   const handleSnapshotFileClear = () => {
     setSnapshotFile(null);
     setSnapshotPreview(null);
@@ -259,18 +375,90 @@ export default function ImportPage() {
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
+            {/* Import profile */}
+            <div className="space-y-1">
+              <Label>Import Profile</Label>
+              <div className="flex gap-2">
+                <Select
+                  value={selectedProfile.id}
+                  onValueChange={(value) => {
+                    setProfileId(value);
+                    setCustomMapping(null);
+                  }}
+                  disabled={transactionLoading}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectGroup>
+                      <SelectLabel>Built-in</SelectLabel>
+                      {builtInProfiles.map((p) => (
+                        <SelectItem key={p.id} value={p.id}>
+                          {p.name}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                    {savedProfiles.length > 0 && (
+                      <SelectGroup>
+                        <SelectLabel>Saved</SelectLabel>
+                        {savedProfiles.map((p) => (
+                          <SelectItem key={p.id} value={p.id}>
+                            {p.name}
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    )}
+                  </SelectContent>
+                </Select>
+                {transactionData && !customMapping && (
+                  <Button
+                    variant="outline"
+                    onClick={() => setCustomMapping(selectedProfile.mapping)}
+                    disabled={transactionLoading}
+                  >
+                    Custom Mapping
+                  </Button>
+                )}
+                {!selectedProfile.builtIn && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={handleProfileDelete}
+                    disabled={transactionLoading}
+                    aria-label="Delete import profile"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+
             <FileUpload
               onFileSelect={handleTransactionFileSelect}
               onFileClear={handleTransactionFileClear}
               disabled={transactionLoading}
             />
 
+            {/* Mapping editor */}
+            {transactionData && customMapping && !transactionLoading && (
+              <ImportProfileEditor
+                headers={transactionData.headers}
+                rows={transactionData.rows}
+                mapping={customMapping}
+                onChange={setCustomMapping}
+                onSaved={handleProfileSaved}
+                onCancel={() => setCustomMapping(null)}
+              />
+            )}
+
             {/* Preview step */}
             {transactionPreview && !transactionResults && !transactionLoading && (
               <ImportPreview
                 headers={transactionPreview.headers}
                 rows={transactionPreview.rows}
                 warnings={transactionPreview.warnings}
+                rowErrors={transactionPreview.rowErrors}
                 onConfirm={handleTransactionImport}
                 onCancel={handleTransactionFileClear}
                 isLoading={transactionLoading}
@@ -313,6 +501,7 @@ export default function ImportPage() {
               </pre>
               <p className="text-xs text-muted-foreground mt-2">
                 Required: date, symbol, action, quantity, unit_price. Optional: fees, currency, exchange, notes.
+                Broker exports can be imported with a built-in profile or a custom mapping.
               </p>
             </div>
           </CardContent>
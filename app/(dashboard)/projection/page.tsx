@@ -0,0 +1,218 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/lib/query-keys";
+import { showError, showSuccess } from "@/lib/toast-helpers";
+import { formatCurrency } from "@/lib/utils/currency";
+import {
+  ProjectionFanChart,
+  type ProjectionHistoryPoint,
+  type ProjectionPoint,
+} from "@/components/projection/projection-fan-chart";
+import {
+  ProjectionSettingsForm,
+  type ProjectionSettingsValues,
+} from "@/components/projection/projection-settings-form";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+export const dynamic = "force-dynamic";
+
+interface ProjectionResponse {
+  settings: ProjectionSettingsValues;
+  startingNetWorth: number;
+  fiNumber: number;
+  monthlyContribution: number;
+  contributionSource: "manual" | "budget";
+  budgetSurplus: number | null;
+  probabilityAtTargetAge: number;
+  deterministicFiAge: number | null;
+  medianFiAge: number | null;
+  series: ProjectionPoint[];
+  history: ProjectionHistoryPoint[];
+  simulations: number;
+  calculatedAt: string;
+}
+
+async function fetchProjection(): Promise<ProjectionResponse> {
+  const response = await fetch("/api/net-worth/projection");
+  if (!response.ok) {
+    throw new Error("Failed to fetch projection");
+  }
+  return response.json();
+}
+
+async function saveProjectionSettings(
+  settings: ProjectionSettingsValues
+): Promise<ProjectionResponse> {
+  const response = await fetch("/api/net-worth/projection", {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(settings),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    const firstError = data.errors ? Object.values(data.errors)[0] : data.error;
+    throw new Error(typeof firstError === "string" ? firstError : "Failed to save projection settings");
+  }
+  return response.json();
+}
+
+function formatAge(age: number | null): string {
+  return age === null ? "Not reached" : `${Math.ceil(age)}`;
+}
+
+/**
+ * Net Worth Projection
+ *
+ * Deterministic and Monte Carlo projections of net worth in today's dollars,
+ * with the probability of reaching the FI number by a target age.
+ */
+export default function ProjectionPage() {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.netWorth.projection,
+    queryFn: fetchProjection,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: saveProjectionSettings,
+    onSuccess: (projection) => {
+      queryClient.setQueryData(queryKeys.netWorth.projection, projection);
+      showSuccess("Projection updated");
+    },
+    onError: (err: Error) => {
+      showError(err.message);
+    },
+  });
+
+  const stats = data
+    ? [
+        {
+          label: `Chance of FI by ${data.settings.targetAge}`,
+          value: `${data.probabilityAtTargetAge.toFixed(0)}%`,
+        },
+        { label: "FI Number", value: formatCurrency(data.fiNumber, "AUD", { compact: true }) },
+        { label: "Median FI Age", value: formatAge(data.medianFiAge) },
+        { label: "FI Age at Expected Returns", value: formatAge(data.deterministicFiAge) },
+      ]
+    : [];
+
+  // Every fifth year, plus the target age
+  const milestones = data
+    ? data.series.filter(
+        (point, i) => i > 0 && (i % 5 === 0 || point.age === data.settings.targetAge)
+      )
+    : [];
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold text-foreground">Projection</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Where your net worth could be, and your chance of reaching financial independence
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="rounded-lg border border-border bg-card/50 p-6">
+          <div className="animate-pulse h-80 bg-muted rounded" />
+        </div>
+      ) : error || !data ? (
+        <div className="rounded-lg border border-destructive bg-destructive/10 p-6">
+          <p className="text-destructive">Failed to load projection</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            <div className="rounded-lg border border-border bg-card/50 p-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                {stats.map((stat) => (
+                  <div key={stat.label}>
+                    <p className="text-xs text-muted-foreground">{stat.label}</p>
+                    <p className="text-xl font-bold font-mono text-foreground">{stat.value}</p>
+                  </div>
+                ))}
+              </div>
+
+              <ProjectionFanChart
+                series={data.series}
+                history={data.history}
+                fiNumber={data.fiNumber}
+                targetAge={data.settings.targetAge}
+              />
+
+              <p className="text-xs text-muted-foreground mt-4">
+                Today&apos;s dollars, from a net worth of{" "}
+                {formatCurrency(data.startingNetWorth, "AUD")} and{" "}
+                {formatCurrency(data.monthlyContribution, "AUD")} a month
+                {data.contributionSource === "budget" && " (average budget surplus)"}. Shaded
+                bands cover the middle 50% and 80% of {data.simulations.toLocaleString()}{" "}
+                simulated paths.
+              </p>
+            </div>
+
+            <div className="rounded-lg border border-border bg-card/50 p-6">
+              <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide mb-4">
+                Milestones
+              </h3>
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-border hover:bg-transparent">
+                    <TableHead className="text-muted-foreground">Age</TableHead>
+                    <TableHead className="text-muted-foreground text-right">Median</TableHead>
+                    <TableHead className="text-muted-foreground text-right">10th–90th</TableHead>
+                    <TableHead className="text-muted-foreground text-right">Expected</TableHead>
+                    <TableHead className="text-muted-foreground text-right">Chance of FI</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {milestones.map((point) => (
+                    <TableRow key={point.age} className="border-border">
+                      <TableCell className="text-foreground">
+                        {point.age}{" "}
+                        <span className="text-muted-foreground text-xs">({point.year})</span>
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-foreground">
+                        {formatCurrency(point.p50, "AUD", { compact: true })}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-muted-foreground">
+                        {formatCurrency(point.p10, "AUD", { compact: true })} –{" "}
+                        {formatCurrency(point.p90, "AUD", { compact: true })}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-muted-foreground">
+                        {formatCurrency(point.deterministic, "AUD", { compact: true })}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-foreground">
+                        {point.probabilityFi.toFixed(0)}%
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+
+          <div className="rounded-lg border border-border bg-card/50 p-6 h-fit">
+            <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide mb-4">
+              Assumptions
+            </h3>
+            <ProjectionSettingsForm
+              settings={data.settings}
+              budgetSurplus={data.budgetSurplus}
+              onSubmit={(settings) => saveMutation.mutate(settings)}
+              isSaving={saveMutation.isPending}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
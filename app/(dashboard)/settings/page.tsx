@@ -1,7 +1,9 @@
 "use client";
 
-import { Settings, Globe, Bell, Keyboard, Info } from "lucide-react";
+import { Settings, Globe, Wallet, Bell, BellRing, Keyboard, Info } from "lucide-react";
 import { EmailPreferences } from "@/components/settings/email-preferences";
+import { AlertRules } from "@/components/settings/alert-rules";
+import { PayCycleSettings } from "@/components/settings/pay-cycle-settings";
 import { SettingsSkeleton } from "@/components/settings/settings-skeleton";
 import { SettingsSection } from "@/components/settings/settings-section";
 import { CurrencySelector } from "@/components/ui/currency-selector";
@@ -15,7 +17,9 @@ import { Label } from "@/components/ui/label";
  *
  * User settings page for configuring app preferences:
  * - Currency display preferences (display currency, show native currency toggle)
+ * - Pay cycle that budget periods follow (cycle, payday, holiday adjustment)
  * - Email reminder preferences (enable/disable, reminder day)
+ * - Price and portfolio alerts delivered by email
  * - Keyboard shortcuts reference
  * - About section with app info
  */
@@ -87,6 +91,16 @@ export default function SettingsPage() {
             </div>
           </SettingsSection>
 
+          {/* Pay Cycle Section */}
+          <SettingsSection
+            value="pay-cycle"
+            icon={Wallet}
+            title="Pay Cycle"
+            description="Set when you get paid so budget periods line up with payday"
+          >
+            <PayCycleSettings />
+          </SettingsSection>
+
           {/* Email Preferences Section */}
           <SettingsSection
             value="email"
@@ -97,6 +111,16 @@ export default function SettingsPage() {
             <EmailPreferences />
           </SettingsSection>
 
+          {/* Alerts Section */}
+          <SettingsSection
+            value="alerts"
+            icon={BellRing}
+            title="Alerts"
+            description="Get an email when prices, holdings or net worth pass a threshold"
+          >
+            <AlertRules />
+          </SettingsSection>
+
           {/* Keyboard Shortcuts Section */}
           <SettingsSection
             value="shortcuts"
@@ -0,0 +1,283 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Coins } from "lucide-react";
+import Link from "next/link";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CurrencyDisplay } from "@/components/ui/currency-display";
+import { EmptyState } from "@/components/ui/empty-state";
+import { FinancialYearSelector } from "@/components/tax/financial-year-selector";
+import { getCurrentFinancialYear } from "@/lib/utils/financial-year";
+import type { Currency } from "@/lib/utils/currency";
+import { queryKeys } from "@/lib/query-keys";
+
+export const dynamic = "force-dynamic";
+
+interface DividendEvent {
+  transactionId: string;
+  holdingId: string;
+  name: string;
+  symbol: string | null;
+  currency: string;
+  date: string;
+  shares: number;
+  amountPerShare: number;
+  cashAmount: number;
+  withholdingTax: number;
+  frankingPercent: number;
+  frankingCredit: number;
+  isDrp: boolean;
+  grossedUpAmountAud: number;
+}
+
+interface DividendTotals {
+  cashAmount: number;
+  withholdingTax: number;
+  netCash: number;
+  frankingCredit: number;
+  grossedUpAmount: number;
+  reinvested: number;
+  count: number;
+}
+
+interface HoldingDividendTotals extends DividendTotals {
+  holdingId: string;
+  name: string;
+  symbol: string | null;
+}
+
+interface DividendReportResponse {
+  financialYear: number;
+  label: string;
+  startDate: string;
+  endDate: string;
+  events: DividendEvent[];
+  byHolding: HoldingDividendTotals[];
+  summary: DividendTotals;
+  availableYears: number[];
+  calculatedAt: string;
+}
+
+async function fetchDividends(financialYear: number): Promise<DividendReportResponse> {
+  const response = await fetch(`/api/tax/dividends?fy=${financialYear}`);
+  if (!response.ok) {
+    if (response.status === 401) {
+      throw new Error("Unauthorized");
+    }
+    throw new Error("Failed to fetch dividend income");
+  }
+  return response.json();
+}
+
+/**
+ * Format a date string (YYYY-MM-DD) to display format
+ */
+function formatDate(dateString: string): string {
+  const date = new Date(dateString);
+  return date.toLocaleDateString("en-AU", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+}
+
+/**
+ * Dividend Income Report
+ *
+ * Dividends received in an Australian financial year, with franking credits,
+ * foreign withholding tax and DRP reinvestment, per holding and per payment.
+ */
+export default function DividendsPage() {
+  const [financialYear, setFinancialYear] = useState(getCurrentFinancialYear);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.tax.dividends(financialYear),
+    queryFn: () => fetchDividends(financialYear),
+  });
+
+  const header = (
+    <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Dividend Income</h1>
+        {data && (
+          <p className="text-sm text-muted-foreground mt-1">
+            {formatDate(data.startDate)} – {formatDate(data.endDate)}
+          </p>
+        )}
+      </div>
+      <FinancialYearSelector
+        value={financialYear}
+        years={data?.availableYears ?? []}
+        onChange={setFinancialYear}
+      />
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        {header}
+        <div className="flex items-center justify-center min-h-[30vh]">
+          <div className="text-muted-foreground">Loading dividend income...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        {header}
+        <div className="flex flex-col items-center justify-center min-h-[30vh] gap-2">
+          <p className="text-destructive">Failed to load dividend income</p>
+          {error && <p className="text-muted-foreground text-sm">{error.message}</p>}
+        </div>
+      </div>
+    );
+  }
+
+  const { summary, byHolding, events } = data;
+
+  const summaryCards = [
+    { label: "Cash Dividends", amount: summary.cashAmount, colorClass: "text-foreground" },
+    { label: "Franking Credits", amount: summary.frankingCredit, colorClass: "text-accent" },
+    { label: "Tax Withheld", amount: -summary.withholdingTax, colorClass: "text-destructive" },
+    { label: "Reinvested (DRP)", amount: summary.reinvested, colorClass: "text-foreground" },
+    { label: "Grossed-up Income", amount: summary.grossedUpAmount, colorClass: "text-positive" },
+  ];
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {header}
+
+      {events.length === 0 ? (
+        <EmptyState
+          icon={Coins}
+          title={`No dividends in ${data.label}`}
+          description="Record a DIVIDEND transaction against a holding to see it here. Pick another financial year to view past income."
+        />
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4 mb-6">
+            {summaryCards.map((card) => (
+              <div key={card.label} className="rounded-lg border border-border bg-card/50 p-4">
+                <span className="text-sm text-muted-foreground">{card.label}</span>
+                <div className={`text-lg font-semibold font-mono ${card.colorClass}`}>
+                  <CurrencyDisplay amount={card.amount} currency="AUD" />
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Per-holding totals */}
+          <h2 className="text-heading-sm text-foreground mb-3">By Holding</h2>
+          <div className="rounded-lg border border-border overflow-x-auto mb-8">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-border hover:bg-transparent">
+                  <TableHead className="text-muted-foreground">Holding</TableHead>
+                  <TableHead className="text-muted-foreground text-right hidden sm:table-cell">Payments</TableHead>
+                  <TableHead className="text-muted-foreground text-right">Cash</TableHead>
+                  <TableHead className="text-muted-foreground text-right hidden md:table-cell">Franking</TableHead>
+                  <TableHead className="text-muted-foreground text-right hidden md:table-cell">Withheld</TableHead>
+                  <TableHead className="text-muted-foreground text-right">Grossed-up</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {byHolding.map((row) => (
+                  <TableRow key={row.holdingId} className="border-border">
+                    <TableCell className="text-foreground font-medium">
+                      <Link href={`/holdings/${row.holdingId}`} className="hover:underline">
+                        {row.symbol || row.name}
+                      </Link>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-right font-mono hidden sm:table-cell">
+                      {row.count}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-right font-mono">
+                      <CurrencyDisplay amount={row.cashAmount} currency="AUD" className="justify-end" />
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-right font-mono hidden md:table-cell">
+                      <CurrencyDisplay amount={row.frankingCredit} currency="AUD" className="justify-end" />
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-right font-mono hidden md:table-cell">
+                      <CurrencyDisplay amount={row.withholdingTax} currency="AUD" className="justify-end" />
+                    </TableCell>
+                    <TableCell className="text-positive text-right font-mono font-medium">
+                      <CurrencyDisplay amount={row.grossedUpAmount} currency="AUD" className="justify-end" />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          {/* Individual payments */}
+          <h2 className="text-heading-sm text-foreground mb-3">Payments</h2>
+          <div className="rounded-lg border border-border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-border hover:bg-transparent">
+                  <TableHead className="text-muted-foreground">Paid</TableHead>
+                  <TableHead className="text-muted-foreground">Holding</TableHead>
+                  <TableHead className="text-muted-foreground text-right hidden md:table-cell">Per Share</TableHead>
+                  <TableHead className="text-muted-foreground text-right">Cash</TableHead>
+                  <TableHead className="text-muted-foreground text-right hidden sm:table-cell">Franked</TableHead>
+                  <TableHead className="text-muted-foreground text-right hidden md:table-cell">Withheld</TableHead>
+                  <TableHead className="text-muted-foreground text-right">Grossed-up</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map((event) => {
+                  const currency = event.currency as Currency;
+                  return (
+                    <TableRow key={event.transactionId} className="border-border">
+                      <TableCell className="text-muted-foreground">{formatDate(event.date)}</TableCell>
+                      <TableCell className="text-foreground font-medium">
+                        <Link href={`/holdings/${event.holdingId}`} className="hover:underline">
+                          {event.symbol || event.name}
+                        </Link>
+                        {event.isDrp && (
+                          <span className="ml-2 inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium bg-muted text-muted-foreground">
+                            DRP
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground text-right font-mono hidden md:table-cell">
+                        <CurrencyDisplay amount={event.amountPerShare} currency={currency} className="justify-end" />
+                      </TableCell>
+                      <TableCell className="text-muted-foreground text-right font-mono">
+                        <CurrencyDisplay amount={event.cashAmount} currency={currency} className="justify-end" />
+                      </TableCell>
+                      <TableCell className="text-muted-foreground text-right font-mono hidden sm:table-cell">
+                        {event.frankingPercent > 0 ? `${event.frankingPercent}%` : "—"}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground text-right font-mono hidden md:table-cell">
+                        {event.withholdingTax > 0 ? (
+                          <CurrencyDisplay amount={event.withholdingTax} currency={currency} className="justify-end" />
+                        ) : (
+                          "—"
+                        )}
+                      </TableCell>
+                      <TableCell className="text-positive text-right font-mono font-medium">
+                        <CurrencyDisplay amount={event.grossedUpAmountAud} currency="AUD" className="justify-end" />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
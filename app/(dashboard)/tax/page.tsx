@@ -0,0 +1,316 @@
+"use client";
+
+import { Fragment, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ChevronDown, ChevronRight, Receipt } from "lucide-react";
+import Link from "next/link";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CurrencyDisplay } from "@/components/ui/currency-display";
+import { EmptyState } from "@/components/ui/empty-state";
+import { FinancialYearSelector } from "@/components/tax/financial-year-selector";
+import { getCurrentFinancialYear } from "@/lib/utils/financial-year";
+import type { Currency } from "@/lib/utils/currency";
+import { queryKeys } from "@/lib/query-keys";
+
+export const dynamic = "force-dynamic";
+
+interface RealisedParcel {
+  acquiredDate: string;
+  quantity: number;
+  costBase: number;
+  proceeds: number;
+  gain: number;
+  gainAud: number;
+  holdingDays: number;
+  discountEligible: boolean;
+}
+
+interface RealisedGainEvent {
+  transactionId: string;
+  holdingId: string;
+  name: string;
+  symbol: string | null;
+  currency: string;
+  sellDate: string;
+  financialYear: number;
+  quantity: number;
+  proceeds: number;
+  costBase: number;
+  gain: number;
+  proceedsAud: number;
+  costBaseAud: number;
+  gainAud: number;
+  parcels: RealisedParcel[];
+}
+
+interface CapitalGainsSummary {
+  nonDiscountableGains: number;
+  discountableGains: number;
+  totalLosses: number;
+  discountApplied: number;
+  netCapitalGain: number;
+  unappliedLosses: number;
+  eventCount: number;
+}
+
+interface CapitalGainsResponse {
+  financialYear: number;
+  label: string;
+  startDate: string;
+  endDate: string;
+  events: RealisedGainEvent[];
+  summary: CapitalGainsSummary;
+  availableYears: number[];
+  calculatedAt: string;
+}
+
+async function fetchCapitalGains(financialYear: number): Promise<CapitalGainsResponse> {
+  const response = await fetch(`/api/tax/capital-gains?fy=${financialYear}`);
+  if (!response.ok) {
+    if (response.status === 401) {
+      throw new Error("Unauthorized");
+    }
+    throw new Error("Failed to fetch capital gains");
+  }
+  return response.json();
+}
+
+/**
+ * Format a date string (YYYY-MM-DD) to display format
+ */
+function formatDate(dateString: string): string {
+  const date = new Date(dateString);
+  return date.toLocaleDateString("en-AU", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+}
+
+function formatQuantity(quantity: number): string {
+  return quantity.toLocaleString("en-AU", {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 8,
+  });
+}
+
+function gainClass(amount: number): string {
+  return amount >= 0 ? "text-positive" : "text-destructive";
+}
+
+/**
+ * Capital Gains Report
+ *
+ * Realised gains and losses for an Australian financial year, with the
+ * lots each sale consumed and the 50% CGT discount applied to lots held
+ * for more than 12 months.
+ */
+export default function CapitalGainsPage() {
+  const [financialYear, setFinancialYear] = useState(getCurrentFinancialYear);
+  const [expandedEvents, setExpandedEvents] = useState<Set<string>>(new Set());
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.tax.capitalGains(financialYear),
+    queryFn: () => fetchCapitalGains(financialYear),
+  });
+
+  const toggleEvent = (transactionId: string) => {
+    setExpandedEvents((prev) => {
+      const next = new Set(prev);
+      if (next.has(transactionId)) {
+        next.delete(transactionId);
+      } else {
+        next.add(transactionId);
+      }
+      return next;
+    });
+  };
+
+  const header = (
+    <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Capital Gains</h1>
+        {data && (
+          <p className="text-sm text-muted-foreground mt-1">
+            {formatDate(data.startDate)} – {formatDate(data.endDate)}
+          </p>
+        )}
+      </div>
+      <FinancialYearSelector
+        value={financialYear}
+        years={data?.availableYears ?? []}
+        onChange={setFinancialYear}
+      />
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        {header}
+        <div className="flex items-center justify-center min-h-[30vh]">
+          <div className="text-muted-foreground">Loading capital gains...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        {header}
+        <div className="flex flex-col items-center justify-center min-h-[30vh] gap-2">
+          <p className="text-destructive">Failed to load capital gains</p>
+          {error && <p className="text-muted-foreground text-sm">{error.message}</p>}
+        </div>
+      </div>
+    );
+  }
+
+  const { summary, events } = data;
+
+  const summaryCards = [
+    { label: "Short-term Gains", amount: summary.nonDiscountableGains, colorClass: "text-foreground" },
+    { label: "Discountable Gains", amount: summary.discountableGains, colorClass: "text-foreground" },
+    { label: "Capital Losses", amount: -summary.totalLosses, colorClass: "text-destructive" },
+    { label: "CGT Discount", amount: -summary.discountApplied, colorClass: "text-accent" },
+    { label: "Net Capital Gain", amount: summary.netCapitalGain, colorClass: "text-positive" },
+  ];
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {header}
+
+      {events.length === 0 ? (
+        <EmptyState
+          icon={Receipt}
+          title={`No disposals in ${data.label}`}
+          description="Capital gains are realised when you record a SELL transaction. Pick another financial year or add a sale to see it here."
+        />
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4 mb-6">
+            {summaryCards.map((card) => (
+              <div key={card.label} className="rounded-lg border border-border bg-card/50 p-4">
+                <span className="text-sm text-muted-foreground">{card.label}</span>
+                <div className={`text-lg font-semibold font-mono ${card.colorClass}`}>
+                  <CurrencyDisplay amount={card.amount} currency="AUD" />
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {summary.unappliedLosses > 0 && (
+            <p className="text-sm text-muted-foreground mb-6">
+              <CurrencyDisplay amount={summary.unappliedLosses} currency="AUD" className="inline-flex" />{" "}
+              of capital losses were not absorbed by gains this year and can be carried forward.
+            </p>
+          )}
+
+          <div className="rounded-lg border border-border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-border hover:bg-transparent">
+                  <TableHead className="text-muted-foreground w-8" />
+                  <TableHead className="text-muted-foreground">Sold</TableHead>
+                  <TableHead className="text-muted-foreground">Holding</TableHead>
+                  <TableHead className="text-muted-foreground text-right hidden md:table-cell">Quantity</TableHead>
+                  <TableHead className="text-muted-foreground text-right hidden sm:table-cell">Proceeds</TableHead>
+                  <TableHead className="text-muted-foreground text-right hidden sm:table-cell">Cost Base</TableHead>
+                  <TableHead className="text-muted-foreground text-right">Gain/Loss</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map((event) => {
+                  const currency = event.currency as Currency;
+                  const isExpanded = expandedEvents.has(event.transactionId);
+                  return (
+                    <Fragment key={event.transactionId}>
+                      <TableRow
+                        className="border-border cursor-pointer transition-[background-color] duration-150 hover:bg-accent/5"
+                        onClick={() => toggleEvent(event.transactionId)}
+                      >
+                        <TableCell className="text-muted-foreground">
+                          {isExpanded ? (
+                            <ChevronDown className="h-4 w-4" />
+                          ) : (
+                            <ChevronRight className="h-4 w-4" />
+                          )}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">{formatDate(event.sellDate)}</TableCell>
+                        <TableCell className="text-foreground font-medium">
+                          <Link
+                            href={`/holdings/${event.holdingId}`}
+                            className="hover:underline"
+                            onClick={(e) => e.stopPropagation()}
+                          >
+                            {event.symbol || event.name}
+                          </Link>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground text-right font-mono hidden md:table-cell">
+                          {formatQuantity(event.quantity)}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground text-right font-mono hidden sm:table-cell">
+                          <CurrencyDisplay amount={event.proceeds} currency={currency} className="justify-end" />
+                        </TableCell>
+                        <TableCell className="text-muted-foreground text-right font-mono hidden sm:table-cell">
+                          <CurrencyDisplay amount={event.costBase} currency={currency} className="justify-end" />
+                        </TableCell>
+                        <TableCell className={`text-right font-mono font-medium ${gainClass(event.gainAud)}`}>
+                          <CurrencyDisplay
+                            amount={event.gainAud}
+                            currency="AUD"
+                            showNative
+                            nativeCurrency={currency}
+                            nativeAmount={event.gain}
+                            className="justify-end"
+                          />
+                        </TableCell>
+                      </TableRow>
+                      {isExpanded &&
+                        event.parcels.map((parcel, index) => (
+                          <TableRow
+                            key={`${event.transactionId}-${index}`}
+                            className="border-border bg-muted/20 hover:bg-muted/20"
+                          >
+                            <TableCell />
+                            <TableCell className="text-xs text-muted-foreground" colSpan={2}>
+                              Acquired {formatDate(parcel.acquiredDate)} · held {parcel.holdingDays} days
+                              {parcel.discountEligible && (
+                                <span className="ml-2 inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium bg-accent/10 text-accent">
+                                  50% discount
+                                </span>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-xs text-muted-foreground text-right font-mono hidden md:table-cell">
+                              {formatQuantity(parcel.quantity)}
+                            </TableCell>
+                            <TableCell className="text-xs text-muted-foreground text-right font-mono hidden sm:table-cell">
+                              <CurrencyDisplay amount={parcel.proceeds} currency={currency} className="justify-end" />
+                            </TableCell>
+                            <TableCell className="text-xs text-muted-foreground text-right font-mono hidden sm:table-cell">
+                              <CurrencyDisplay amount={parcel.costBase} currency={currency} className="justify-end" />
+                            </TableCell>
+                            <TableCell className={`text-xs text-right font-mono ${gainClass(parcel.gain)}`}>
+                              <CurrencyDisplay amount={parcel.gain} currency={currency} className="justify-end" />
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                    </Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
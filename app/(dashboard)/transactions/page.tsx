@@ -46,8 +46,12 @@ interface TransactionWithHolding {
   quantity: string;
   unitPrice: string;
   fees: string;
-  currency: "AUD" | "NZD" | "USD";
+  currency: Currency;
   notes: string | null;
+  frankingPercent: string | null;
+  withholdingTax: string | null;
+  isDrp: boolean;
+  dividendTransactionId: string | null;
   createdAt: string;
   updatedAt: string;
   holding: {
@@ -677,6 +681,11 @@ export default function TransactionsPage() {
                           >
                             {transaction.action}
                           </span>
+                          {(transaction.isDrp || transaction.dividendTransactionId) && (
+                            <span className="ml-1.5 inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium bg-muted text-muted-foreground">
+                              DRP
+                            </span>
+                          )}
                         </TableCell>
                         <TableCell className="text-muted-foreground text-right font-mono hidden md:table-cell">
                           {transaction.action === "SPLIT"
@@ -0,0 +1,135 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { alertRules } from "@/lib/db/schema";
+import { eq, isNull, and } from "drizzle-orm";
+import { withAuth } from "@/lib/utils/with-auth";
+import {
+  toAlertRuleColumns,
+  validateAlertRuleFields,
+  type AlertRuleBody,
+} from "@/lib/utils/alert-fields";
+
+/**
+ * Finds an alert rule owned by the user.
+ */
+async function findOwnedRule(id: string, userId: string) {
+  const [rule] = await db
+    .select()
+    .from(alertRules)
+    .where(
+      and(
+        eq(alertRules.id, id),
+        eq(alertRules.userId, userId),
+        isNull(alertRules.deletedAt)
+      )
+    );
+  return rule;
+}
+
+/**
+ * PATCH /api/alerts/:id
+ *
+ * Updates an alert rule. Changing the holding, direction or threshold
+ * re-arms the rule so it fires the next time its new condition is met.
+ *
+ * Request body (all optional):
+ *   - holdingId: Holding to watch, validated as for POST
+ *   - direction: "above" | "below", or null to clear (daily_move only)
+ *   - threshold: New threshold, validated as for POST
+ *   - isActive: Whether the rule is evaluated
+ *
+ * The rule's type cannot be changed.
+ *
+ * Response: The updated AlertRule object
+ *
+ * Errors:
+ *   - 400 with { errors } for validation failures or invalid JSON
+ *   - 401 if not authenticated
+ *   - 404 if rule not found or doesn't belong to user
+ */
+export const PATCH = withAuth(async (request, context, userId) => {
+  const { id } = await context.params;
+
+  let body: AlertRuleBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const existing = await findOwnedRule(id, userId);
+  if (!existing) {
+    return NextResponse.json({ error: "Alert rule not found" }, { status: 404 });
+  }
+
+  const errors: Record<string, string> = {};
+
+  if (body.type !== undefined && body.type !== existing.type) {
+    errors.type = "Type cannot be changed";
+  }
+  if (body.isActive !== undefined && typeof body.isActive !== "boolean") {
+    errors.isActive = "isActive must be a boolean";
+  }
+
+  const merged: AlertRuleBody = {
+    type: existing.type,
+    holdingId: body.holdingId !== undefined ? body.holdingId : existing.holdingId,
+    direction: body.direction !== undefined ? body.direction : existing.direction,
+    threshold: body.threshold !== undefined ? body.threshold : existing.threshold,
+  };
+  await validateAlertRuleFields(merged, userId, errors);
+
+  if (Object.keys(errors).length > 0) {
+    return NextResponse.json({ errors }, { status: 400 });
+  }
+
+  const columns = toAlertRuleColumns(merged);
+  const conditionChanged =
+    columns.holdingId !== existing.holdingId ||
+    columns.direction !== existing.direction ||
+    Number(columns.threshold) !== Number(existing.threshold);
+
+  const [updated] = await db
+    .update(alertRules)
+    .set({
+      ...columns,
+      ...(body.isActive !== undefined && { isActive: body.isActive }),
+      ...(conditionChanged && { conditionMet: false }),
+      updatedAt: new Date(),
+    })
+    .where(eq(alertRules.id, id))
+    .returning();
+
+  return NextResponse.json(updated);
+}, "updating alert rule");
+
+/**
+ * DELETE /api/alerts/:id
+ *
+ * Soft-deletes an alert rule by setting `deletedAt` timestamp.
+ *
+ * Response: The soft-deleted AlertRule object
+ *
+ * Errors:
+ *   - 401 if not authenticated
+ *   - 404 if rule not found or doesn't belong to user
+ */
+export const DELETE = withAuth(async (_request, context, userId) => {
+  const { id } = await context.params;
+
+  const existing = await findOwnedRule(id, userId);
+  if (!existing) {
+    return NextResponse.json({ error: "Alert rule not found" }, { status: 404 });
+  }
+
+  const [deleted] = await db
+    .update(alertRules)
+    .set({ deletedAt: new Date(), updatedAt: new Date() })
+    .where(eq(alertRules.id, id))
+    .returning();
+
+  return NextResponse.json(deleted);
+}, "deleting alert rule");
@@ -0,0 +1,106 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { alertRules, holdings } from "@/lib/db/schema";
+import { eq, isNull, and, asc } from "drizzle-orm";
+import { withAuth } from "@/lib/utils/with-auth";
+import {
+  toAlertRuleColumns,
+  validateAlertRuleFields,
+  type AlertRuleBody,
+} from "@/lib/utils/alert-fields";
+
+/**
+ * GET /api/alerts
+ *
+ * Returns the authenticated user's alert rules, oldest first, with the
+ * holding each watches.
+ *
+ * Response: Array of alert rule objects
+ *   { id, userId, type, holdingId, direction, threshold, isActive,
+ *     conditionMet, lastTriggeredAt, lastTriggeredValue, createdAt, updatedAt,
+ *     holding: { id, name, symbol, currency } | null }
+ *
+ * Errors:
+ *   - 401 if not authenticated
+ */
+export const GET = withAuth(async (_request, _context, userId) => {
+  const rows = await db
+    .select({
+      rule: alertRules,
+      holding: {
+        id: holdings.id,
+        name: holdings.name,
+        symbol: holdings.symbol,
+        currency: holdings.currency,
+      },
+    })
+    .from(alertRules)
+    .leftJoin(holdings, eq(alertRules.holdingId, holdings.id))
+    .where(and(eq(alertRules.userId, userId), isNull(alertRules.deletedAt)))
+    .orderBy(asc(alertRules.createdAt));
+
+  return NextResponse.json(
+    rows.map(({ rule, holding }) => ({
+      ...rule,
+      holding,
+    }))
+  );
+}, "fetching alert rules");
+
+/**
+ * POST /api/alerts
+ *
+ * Creates an alert rule, evaluated daily by the evaluate-alerts cron job.
+ *
+ * Request body:
+ *   - type: (required) "price_cross" | "daily_move" | "holding_weight" |
+ *     "net_worth_cross" | "debt_below"
+ *   - holdingId: (required except for net_worth_cross) Holding to watch.
+ *     Tradeable for price_cross and daily_move, a debt for debt_below, any
+ *     other holding for holding_weight.
+ *   - direction: "above" | "below". Required for price_cross and
+ *     net_worth_cross; optional for daily_move (a move either way if absent)
+ *   - threshold: (required) Price in the holding's quoted currency, daily
+ *     change or weight as a percentage, net worth in AUD, or debt balance in
+ *     the holding's currency
+ *   - isActive: (optional) Defaults to true
+ *
+ * Response: 201 with the created AlertRule object
+ *
+ * Errors:
+ *   - 400 with { errors } for validation failures or invalid JSON
+ *   - 401 if not authenticated
+ */
+export const POST = withAuth(async (request, _context, userId) => {
+  let body: AlertRuleBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const errors: Record<string, string> = {};
+  await validateAlertRuleFields(body, userId, errors);
+
+  if (body.isActive !== undefined && typeof body.isActive !== "boolean") {
+    errors.isActive = "isActive must be a boolean";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return NextResponse.json({ errors }, { status: 400 });
+  }
+
+  const [created] = await db
+    .insert(alertRules)
+    .values({
+      userId,
+      ...toAlertRuleColumns(body),
+      isActive: body.isActive ?? true,
+    })
+    .returning();
+
+  return NextResponse.json(created, { status: 201 });
+}, "creating alert rule");
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { calculateAllocationDrift } from "@/lib/calculations/allocation";
+import type { Currency } from "@/lib/utils/currency";
+import { withAuth } from "@/lib/utils/with-auth";
+import { ALLOCATION_SCOPES, isEnabledCurrency, type AllocationScope } from "@/lib/constants";
+
+/**
+ * GET /api/allocation/drift
+ *
+ * Compares the authenticated user's current asset breakdown with their
+ * target allocation.
+ *
+ * Query parameters:
+ *   - scope: "asset_type" | "holding" | "bucket" (default "asset_type")
+ *   - displayCurrency: Currency for values (any enabled currency). Defaults to AUD.
+ *
+ * Response:
+ *   - scope: The scope used
+ *   - hasTargets: True if any targets are set in the scope
+ *   - totalTargetPercent: Sum of the targets set
+ *   - groups: Array of { key, label, targetPercent, currentValue,
+ *     currentPercent, driftPercent, driftValue }. Holdings without a target
+ *     are grouped under key "untargeted".
+ *   - totalAssets: Total assets in display currency
+ *   - displayCurrency: Currency used for values
+ *   - calculatedAt: Timestamp when calculation was performed
+ *
+ * Errors:
+ *   - 400 if scope is invalid
+ *   - 401 if not authenticated
+ */
+export const GET = withAuth(async (request, _context, userId) => {
+  const searchParams = request.nextUrl.searchParams;
+  const scopeParam = searchParams.get("scope") ?? "asset_type";
+
+  if (!ALLOCATION_SCOPES.includes(scopeParam as AllocationScope)) {
+    return NextResponse.json(
+      { error: `Invalid scope parameter. Must be one of: ${ALLOCATION_SCOPES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  const displayCurrencyParam = searchParams.get("displayCurrency");
+  const displayCurrency: Currency =
+    displayCurrencyParam && isEnabledCurrency(displayCurrencyParam) ? displayCurrencyParam : "AUD";
+
+  const drift = await calculateAllocationDrift(
+    userId,
+    scopeParam as AllocationScope,
+    displayCurrency
+  );
+
+  return NextResponse.json({
+    ...drift,
+    calculatedAt: drift.calculatedAt.toISOString(),
+  });
+}, "calculating allocation drift");
@@ -0,0 +1,98 @@
+import { NextResponse } from "next/server";
+import { planAllocation } from "@/lib/calculations/allocation";
+import type { Currency } from "@/lib/utils/currency";
+import { withAuth } from "@/lib/utils/with-auth";
+import {
+  ALLOCATION_SCOPES,
+  ALLOCATION_PLAN_MODES,
+  isEnabledCurrency,
+  type AllocationPlanMode,
+  type AllocationScope,
+} from "@/lib/constants";
+
+/**
+ * GET /api/allocation/plan
+ *
+ * Proposes whole-unit orders, at current cached prices, that move the
+ * authenticated user's portfolio towards their target allocation.
+ *
+ * Query parameters:
+ *   - amount: New cash to invest, in display currency (default 0)
+ *   - scope: "asset_type" | "holding" | "bucket" (default "asset_type")
+ *   - mode: "buy" to only buy (default), or "rebalance" to also sell
+ *     overweight holdings
+ *   - displayCurrency: Currency for values (any enabled currency). Defaults to AUD.
+ *   - marginalTaxRate: Optional marginal tax rate (%) to estimate CGT on sales
+ *
+ * Response:
+ *   - scope, mode, amount: The inputs used
+ *   - hasTargets: True if any targets are set in the scope
+ *   - orders: Array of { holdingId, name, symbol, groupKey, action, quantity,
+ *     price, currency, value, estimatedGainAud }, sells first
+ *   - totalBuys, totalSells, unallocatedCash: Totals in display currency
+ *   - before, after: Allocation groups (as for /api/allocation/drift) now
+ *     and once the orders are filled
+ *   - capitalGains: Estimated CGT summary for the sales in AUD (rebalance only)
+ *   - estimatedTax: Net capital gain x marginal tax rate in AUD (or null)
+ *   - displayCurrency: Currency used for values
+ *   - calculatedAt: Timestamp when calculation was performed
+ *
+ * Errors:
+ *   - 400 if amount, scope, mode or marginalTaxRate is invalid
+ *   - 401 if not authenticated
+ */
+export const GET = withAuth(async (request, _context, userId) => {
+  const searchParams = request.nextUrl.searchParams;
+  const amount = Number(searchParams.get("amount") ?? 0);
+  const scopeParam = searchParams.get("scope") ?? "asset_type";
+  const modeParam = searchParams.get("mode") ?? "buy";
+  const taxRateParam = searchParams.get("marginalTaxRate");
+  const marginalTaxRate = taxRateParam ? Number(taxRateParam) : undefined;
+
+  if (!Number.isFinite(amount) || amount < 0) {
+    return NextResponse.json(
+      { error: "Invalid amount parameter. Must be a number of 0 or more" },
+      { status: 400 }
+    );
+  }
+
+  if (!ALLOCATION_SCOPES.includes(scopeParam as AllocationScope)) {
+    return NextResponse.json(
+      { error: `Invalid scope parameter. Must be one of: ${ALLOCATION_SCOPES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  if (!ALLOCATION_PLAN_MODES.includes(modeParam as AllocationPlanMode)) {
+    return NextResponse.json(
+      { error: `Invalid mode parameter. Must be one of: ${ALLOCATION_PLAN_MODES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  if (
+    marginalTaxRate !== undefined &&
+    (!Number.isFinite(marginalTaxRate) || marginalTaxRate < 0 || marginalTaxRate > 100)
+  ) {
+    return NextResponse.json(
+      { error: "Invalid marginalTaxRate parameter. Must be between 0 and 100" },
+      { status: 400 }
+    );
+  }
+
+  const displayCurrencyParam = searchParams.get("displayCurrency");
+  const displayCurrency: Currency =
+    displayCurrencyParam && isEnabledCurrency(displayCurrencyParam) ? displayCurrencyParam : "AUD";
+
+  const plan = await planAllocation(userId, scopeParam as AllocationScope, {
+    amount,
+    mode: modeParam as AllocationPlanMode,
+    displayCurrency,
+    marginalTaxRate,
+  });
+
+  return NextResponse.json({
+    ...plan,
+    calculatedAt: plan.calculatedAt.toISOString(),
+  });
+}, "planning allocation");
@@ -0,0 +1,241 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { allocationTargets, holdings, type NewAllocationTarget } from "@/lib/db/schema";
+import { eq, and, isNull, inArray } from "drizzle-orm";
+import { getAllocationTargets } from "@/lib/calculations/allocation";
+import { withAuth } from "@/lib/utils/with-auth";
+import {
+  ALLOCATION_SCOPES,
+  HOLDING_TYPE_ORDER,
+  type AllocationScope,
+} from "@/lib/constants";
+
+// Debt is not an asset, so it cannot be given a share of total assets
+const TARGETABLE_TYPES = HOLDING_TYPE_ORDER.filter((t) => t !== "debt");
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface TargetBody {
+  assetType?: string;
+  holdingId?: string;
+  bucketName?: string;
+  holdingIds?: string[];
+  targetPercent?: number;
+}
+
+interface ReplaceTargetsBody {
+  scope?: string;
+  targets?: TargetBody[];
+}
+
+/**
+ * GET /api/allocation/targets
+ *
+ * Returns the authenticated user's target allocations.
+ *
+ * Query parameters:
+ *   - scope: Optional "asset_type" | "holding" | "bucket" to filter by
+ *
+ * Response: Array of targets { id, scope, assetType, holdingId, holdingName,
+ *   bucketName, bucketHoldingIds, targetPercent, createdAt, updatedAt }
+ *
+ * Errors:
+ *   - 400 if scope is invalid
+ *   - 401 if not authenticated
+ */
+export const GET = withAuth(async (request, _context, userId) => {
+  const scopeParam = request.nextUrl.searchParams.get("scope");
+
+  if (scopeParam && !ALLOCATION_SCOPES.includes(scopeParam as AllocationScope)) {
+    return NextResponse.json(
+      { error: `Invalid scope parameter. Must be one of: ${ALLOCATION_SCOPES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  const targets = await getAllocationTargets(
+    userId,
+    (scopeParam as AllocationScope | null) ?? undefined
+  );
+
+  return NextResponse.json(targets);
+}, "fetching allocation targets");
+
+/**
+ * PUT /api/allocation/targets
+ *
+ * Replaces every target in a scope. Send an empty list to clear the scope.
+ *
+ * Request body:
+ *   - scope: (required) "asset_type" | "holding" | "bucket"
+ *   - targets: (required) Array of targets, each with:
+ *     - targetPercent: (required) Share of total assets, greater than 0 and
+ *       at most 100. All targets together must not exceed 100.
+ *     - assetType: (asset_type scope) Any holding type except "debt"
+ *     - holdingId: (holding scope) ID of one of the user's non-debt holdings
+ *     - bucketName: (bucket scope) Unique name for the bucket
+ *     - holdingIds: (bucket scope) The user's non-debt holdings in the
+ *       bucket; a holding can only be in one bucket
+ *
+ * Response: The scope's targets, as returned by GET
+ *
+ * Errors:
+ *   - 400 with { errors } object for validation failures, keyed by field
+ *     (per-target errors are keyed "targets.{index}.{field}")
+ *   - 401 if not authenticated
+ */
+export const PUT = withAuth(async (request, _context, userId) => {
+  let body: ReplaceTargetsBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const errors: Record<string, string> = {};
+
+  if (!body.scope) {
+    errors.scope = "Scope is required";
+  } else if (!ALLOCATION_SCOPES.includes(body.scope as AllocationScope)) {
+    errors.scope = `Scope must be one of: ${ALLOCATION_SCOPES.join(", ")}`;
+  }
+
+  if (!Array.isArray(body.targets)) {
+    errors.targets = "Targets must be an array";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return NextResponse.json({ errors }, { status: 400 });
+  }
+
+  const scope = body.scope as AllocationScope;
+  const targets = body.targets!;
+
+  // The user's holdings that can be targeted, for holding and bucket scopes
+  const referencedIds = targets.flatMap((t) =>
+    scope === "holding"
+      ? [t.holdingId]
+      : scope === "bucket" && Array.isArray(t.holdingIds)
+        ? t.holdingIds
+        : []
+  ).filter((id): id is string => typeof id === "string" && UUID_PATTERN.test(id));
+
+  const ownedHoldings = referencedIds.length > 0
+    ? await db
+        .select({ id: holdings.id, type: holdings.type })
+        .from(holdings)
+        .where(
+          and(
+            eq(holdings.userId, userId),
+            isNull(holdings.deletedAt),
+            inArray(holdings.id, referencedIds)
+          )
+        )
+    : [];
+  const ownedTypes = new Map(ownedHoldings.map((h) => [h.id, h.type]));
+
+  const checkHolding = (id: unknown): string | null => {
+    const type = typeof id === "string" ? ownedTypes.get(id) : undefined;
+    if (!type) return "Holding not found";
+    if (type === "debt") return "Debt holdings cannot have a target";
+    return null;
+  };
+
+  const seen = new Set<string>();
+  const bucketed = new Set<string>();
+  let totalPercent = 0;
+
+  targets.forEach((target, index) => {
+    const field = (name: string) => `targets.${index}.${name}`;
+    const percent = target.targetPercent;
+
+    if (typeof percent !== "number" || !Number.isFinite(percent) || percent <= 0 || percent > 100) {
+      errors[field("targetPercent")] = "Target must be greater than 0 and at most 100";
+    } else {
+      totalPercent += percent;
+    }
+
+    switch (scope) {
+      case "asset_type":
+        if (!TARGETABLE_TYPES.includes(target.assetType as (typeof TARGETABLE_TYPES)[number])) {
+          errors[field("assetType")] = `Asset type must be one of: ${TARGETABLE_TYPES.join(", ")}`;
+        } else if (seen.has(target.assetType!)) {
+          errors[field("assetType")] = "Asset type already has a target";
+        } else {
+          seen.add(target.assetType!);
+        }
+        break;
+
+      case "holding": {
+        const holdingError = checkHolding(target.holdingId);
+        if (holdingError) {
+          errors[field("holdingId")] = holdingError;
+        } else if (seen.has(target.holdingId!)) {
+          errors[field("holdingId")] = "Holding already has a target";
+        } else {
+          seen.add(target.holdingId!);
+        }
+        break;
+      }
+
+      case "bucket": {
+        const name = target.bucketName?.trim();
+        if (!name) {
+          errors[field("bucketName")] = "Bucket name is required";
+        } else if (seen.has(name.toLowerCase())) {
+          errors[field("bucketName")] = "Bucket name is already used";
+        } else {
+          seen.add(name.toLowerCase());
+        }
+
+        if (!Array.isArray(target.holdingIds) || target.holdingIds.length === 0) {
+          errors[field("holdingIds")] = "Bucket must contain at least one holding";
+          break;
+        }
+        for (const holdingId of new Set(target.holdingIds)) {
+          const holdingError = checkHolding(holdingId);
+          if (holdingError) {
+            errors[field("holdingIds")] = holdingError;
+          } else if (bucketed.has(holdingId)) {
+            errors[field("holdingIds")] = "A holding can only be in one bucket";
+          } else {
+            bucketed.add(holdingId);
+          }
+        }
+        break;
+      }
+    }
+  });
+
+  // Allow for rounding in targets entered to 2 decimal places
+  if (totalPercent > 100.005) {
+    errors.targets = `Targets add up to ${totalPercent.toFixed(2)}%, which is more than 100%`;
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return NextResponse.json({ errors }, { status: 400 });
+  }
+
+  const rows: NewAllocationTarget[] = targets.map((t) => ({
+    userId,
+    scope,
+    assetType: scope === "asset_type" ? (t.assetType as NewAllocationTarget["assetType"]) : null,
+    holdingId: scope === "holding" ? t.holdingId! : null,
+    bucketName: scope === "bucket" ? t.bucketName!.trim() : null,
+    bucketHoldingIds: scope === "bucket" ? [...new Set(t.holdingIds)] : null,
+    targetPercent: t.targetPercent!.toString(),
+  }));
+
+  await db
+    .delete(allocationTargets)
+    .where(and(eq(allocationTargets.userId, userId), eq(allocationTargets.scope, scope)));
+
+  if (rows.length > 0) {
+    await db.insert(allocationTargets).values(rows);
+  }
+
+  return NextResponse.json(await getAllocationTargets(userId, scope));
+}, "updating allocation targets");
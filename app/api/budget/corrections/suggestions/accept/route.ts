@@ -0,0 +1,142 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { categorisationRules, correctionSuggestionDecisions } from "@/lib/db/schema";
+import { and, eq } from "drizzle-orm";
+import { withAuth } from "@/lib/utils/with-auth";
+import { RULE_MATCH_TYPES } from "@/lib/constants";
+import {
+  toRuleDefinition,
+  validateRuleDefinition,
+  getMerchantRulePriority,
+} from "@/lib/budget/rules";
+import { recategoriseUncategorisedMatches } from "@/lib/budget/recategorise";
+
+const acceptSchema = z.object({
+  merchantPattern: z.string().trim().min(1, "merchantPattern is required").max(512),
+  saverKey: z.string().min(1, "saverKey is required").max(50),
+  categoryKey: z.string().min(1, "categoryKey is required").max(50),
+  name: z.string().trim().min(1, "Name is required").max(100),
+  matchType: z.enum(RULE_MATCH_TYPES),
+  pattern: z.string().trim().min(1, "Pattern is required").max(255),
+  priority: z.number().int().min(0).optional(),
+  recategorise: z.boolean().optional(),
+});
+
+/**
+ * POST /api/budget/corrections/suggestions/accept
+ *
+ * Turns a correction suggestion into a categorisation rule that matches the
+ * transaction description and assigns the suggested saver/category. The
+ * suggestion is not offered again. Accepting again reuses a rule with the
+ * same pattern and saver/category rather than adding a duplicate.
+ *
+ * Request body:
+ *   - merchantPattern: The suggestion's merchant pattern
+ *   - saverKey, categoryKey: The suggested saver/category
+ *   - name: Rule name
+ *   - matchType: "contains" | "exact" | "regex"
+ *   - pattern: Description pattern, as edited by the user
+ *   - priority: (optional) Defaults to before the UP category rules
+ *   - recategorise: (optional) Also apply the rules to the uncategorised
+ *     transactions it matches, as an undoable recategorisation batch
+ *
+ * Response: 201 with { rule, batch, changedCount }
+ *
+ * Errors:
+ *   - 400 for validation failures
+ */
+export const POST = withAuth(async (request) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const parsed = acceptSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Validation failed", errors: parsed.error.flatten().fieldErrors },
+      { status: 400 }
+    );
+  }
+
+  const data = parsed.data;
+  const definition = toRuleDefinition({
+    name: data.name,
+    matchField: "description",
+    matchType: data.matchType,
+    pattern: data.pattern,
+    saverKey: data.saverKey,
+    categoryKey: data.categoryKey,
+  });
+  const errors = await validateRuleDefinition(definition);
+  if (Object.keys(errors).length > 0) {
+    return NextResponse.json({ error: "Validation failed", errors }, { status: 400 });
+  }
+
+  // A retry after a failed accept reuses the rule it already created
+  const [existingRule] = await db
+    .select()
+    .from(categorisationRules)
+    .where(
+      and(
+        eq(categorisationRules.matchField, "description"),
+        eq(categorisationRules.matchType, data.matchType),
+        eq(categorisationRules.pattern, data.pattern),
+        eq(categorisationRules.saverKey, data.saverKey),
+        eq(categorisationRules.categoryKey, data.categoryKey)
+      )
+    )
+    .limit(1);
+
+  const ruleId = existingRule?.id ?? crypto.randomUUID();
+  const recordDecision = db
+    .insert(correctionSuggestionDecisions)
+    .values({
+      merchantPattern: data.merchantPattern,
+      saverKey: data.saverKey,
+      categoryKey: data.categoryKey,
+      status: "accepted",
+      ruleId,
+    })
+    .onConflictDoUpdate({
+      target: [
+        correctionSuggestionDecisions.merchantPattern,
+        correctionSuggestionDecisions.saverKey,
+        correctionSuggestionDecisions.categoryKey,
+      ],
+      set: { status: "accepted", ruleId },
+    });
+
+  let rule = existingRule;
+  if (existingRule) {
+    await recordDecision;
+  } else {
+    // Rule and decision land together, so a failure can't leave a rule
+    // behind with the suggestion still open
+    [[rule]] = await db.batch([
+      db
+        .insert(categorisationRules)
+        .values({
+          ...definition,
+          id: ruleId,
+          name: data.name,
+          priority: data.priority ?? (await getMerchantRulePriority()),
+        })
+        .returning(),
+      recordDecision,
+    ]);
+  }
+
+  const batch = data.recategorise ? await recategoriseUncategorisedMatches(definition) : null;
+
+  return NextResponse.json(
+    { rule, batch, changedCount: batch?.changedCount ?? 0 },
+    { status: 201 }
+  );
+}, "accepting correction suggestion");
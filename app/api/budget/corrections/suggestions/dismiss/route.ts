@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { correctionSuggestionDecisions } from "@/lib/db/schema";
+import { withAuth } from "@/lib/utils/with-auth";
+
+const dismissSchema = z.object({
+  merchantPattern: z.string().trim().min(1, "merchantPattern is required").max(512),
+  saverKey: z.string().min(1, "saverKey is required").max(50),
+  categoryKey: z.string().min(1, "categoryKey is required").max(50),
+});
+
+/**
+ * POST /api/budget/corrections/suggestions/dismiss
+ *
+ * Dismisses a correction suggestion so it is not suggested again.
+ *
+ * Request body:
+ *   - merchantPattern: The suggestion's merchant pattern
+ *   - saverKey, categoryKey: The suggested saver/category
+ *
+ * Response: { success: true }
+ *
+ * Errors:
+ *   - 400 for validation failures
+ */
+export const POST = withAuth(async (request) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const parsed = dismissSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Validation failed", errors: parsed.error.flatten().fieldErrors },
+      { status: 400 }
+    );
+  }
+
+  await db
+    .insert(correctionSuggestionDecisions)
+    .values({ ...parsed.data, status: "dismissed" })
+    .onConflictDoUpdate({
+      target: [
+        correctionSuggestionDecisions.merchantPattern,
+        correctionSuggestionDecisions.saverKey,
+        correctionSuggestionDecisions.categoryKey,
+      ],
+      set: { status: "dismissed", ruleId: null },
+    });
+
+  return NextResponse.json({ success: true });
+}, "dismissing correction suggestion");
@@ -1,36 +1,50 @@
 import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { classificationCorrections } from "@/lib/db/schema";
+import { classificationCorrections, correctionSuggestionDecisions } from "@/lib/db/schema";
 import { sql } from "drizzle-orm";
 import { withAuth } from "@/lib/utils/with-auth";
+import { getMerchantRulePriority } from "@/lib/budget/rules";
 
 /**
  * GET /api/budget/corrections/suggestions
  *
  * Finds merchants that have been manually corrected 3+ times to the same
- * saver/category combination. Returns these as rule suggestions.
+ * saver/category combination. Returns these as rule suggestions, leaving
+ * out suggestions already accepted or dismissed.
  *
  * Response: { suggestions: [{ merchantPattern, suggestedSaverKey, suggestedCategoryKey,
- *             correctionCount, exampleDescriptions }] }
+ *             correctionCount, exampleDescriptions }], rulePriority }
+ *
+ * `rulePriority` is where an accepted suggestion's rule goes: before the
+ * UP category rules, which the corrections override.
  */
 export const GET = withAuth(async () => {
   // Group corrections by normalised merchant → corrected saver/category
   // Only include groups with 3+ corrections (the threshold for suggesting a rule)
-  const rows = await db.execute(sql`
-    SELECT
-      UPPER(TRIM(${classificationCorrections.merchantDescription})) AS merchant_pattern,
-      ${classificationCorrections.correctedSaverKey} AS suggested_saver_key,
-      ${classificationCorrections.correctedCategoryKey} AS suggested_category_key,
-      COUNT(*)::int AS correction_count,
-      ARRAY_AGG(DISTINCT ${classificationCorrections.merchantDescription}) AS example_descriptions
-    FROM ${classificationCorrections}
-    GROUP BY
-      UPPER(TRIM(${classificationCorrections.merchantDescription})),
-      ${classificationCorrections.correctedSaverKey},
-      ${classificationCorrections.correctedCategoryKey}
-    HAVING COUNT(*) >= 3
-    ORDER BY COUNT(*) DESC
-  `);
+  const [rows, rulePriority] = await Promise.all([
+    db.execute(sql`
+      SELECT
+        UPPER(TRIM(${classificationCorrections.merchantDescription})) AS merchant_pattern,
+        ${classificationCorrections.correctedSaverKey} AS suggested_saver_key,
+        ${classificationCorrections.correctedCategoryKey} AS suggested_category_key,
+        COUNT(*)::int AS correction_count,
+        ARRAY_AGG(DISTINCT ${classificationCorrections.merchantDescription}) AS example_descriptions
+      FROM ${classificationCorrections}
+      GROUP BY
+        UPPER(TRIM(${classificationCorrections.merchantDescription})),
+        ${classificationCorrections.correctedSaverKey},
+        ${classificationCorrections.correctedCategoryKey}
+      HAVING COUNT(*) >= 3
+        AND NOT EXISTS (
+          SELECT 1 FROM ${correctionSuggestionDecisions}
+          WHERE ${correctionSuggestionDecisions.merchantPattern} = UPPER(TRIM(${classificationCorrections.merchantDescription}))
+            AND ${correctionSuggestionDecisions.saverKey} = ${classificationCorrections.correctedSaverKey}
+            AND ${correctionSuggestionDecisions.categoryKey} = ${classificationCorrections.correctedCategoryKey}
+        )
+      ORDER BY COUNT(*) DESC
+    `),
+    getMerchantRulePriority(),
+  ]);
 
   const suggestions = rows.rows.map(
     (row: Record<string, unknown>) => ({
@@ -42,5 +56,5 @@ export const GET = withAuth(async () => {
     })
   );
 
-  return NextResponse.json({ suggestions });
+  return NextResponse.json({ suggestions, rulePriority });
 }, "fetching correction suggestions");
@@ -0,0 +1,107 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { incomeSources } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { withAuth } from "@/lib/utils/with-auth";
+import { INCOME_SOURCE_KINDS } from "@/lib/constants";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const updateSourceSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100).optional(),
+  kind: z.enum(INCOME_SOURCE_KINDS).optional(),
+});
+
+async function findSource(id: string) {
+  if (!UUID_PATTERN.test(id)) return undefined;
+
+  const [source] = await db
+    .select()
+    .from(incomeSources)
+    .where(eq(incomeSources.id, id));
+  return source?.status === "confirmed" ? source : undefined;
+}
+
+/**
+ * PUT /api/budget/income-sources/:id
+ *
+ * Renames a confirmed income source or changes its kind.
+ *
+ * Request body:
+ *   - name: (optional) Display name, max 100 chars
+ *   - kind: (optional) "salary" | "side_income" | "interest" | "other"
+ *
+ * Response: Updated income source
+ *
+ * Errors:
+ *   - 400 for validation failures
+ *   - 404 if income source not found
+ */
+export const PUT = withAuth(async (request, context) => {
+  const { id } = await context.params;
+
+  const existing = await findSource(id);
+  if (!existing) {
+    return NextResponse.json(
+      { error: "Income source not found" },
+      { status: 404 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const parsed = updateSourceSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Validation failed", errors: parsed.error.flatten().fieldErrors },
+      { status: 400 }
+    );
+  }
+
+  const [updated] = await db
+    .update(incomeSources)
+    .set({ ...parsed.data, updatedAt: new Date() })
+    .where(eq(incomeSources.id, id))
+    .returning();
+
+  return NextResponse.json(updated);
+}, "updating income source");
+
+/**
+ * DELETE /api/budget/income-sources/:id
+ *
+ * Stops tracking a payer as an income source; it may be suggested again.
+ * Transactions already classified as income keep their classification and
+ * count as "Other income".
+ *
+ * Response: { success: true }
+ *
+ * Errors:
+ *   - 404 if income source not found
+ */
+export const DELETE = withAuth(async (_request, context) => {
+  const { id } = await context.params;
+
+  const existing = await findSource(id);
+  if (!existing) {
+    return NextResponse.json(
+      { error: "Income source not found" },
+      { status: 404 }
+    );
+  }
+
+  await db
+    .delete(incomeSources)
+    .where(eq(incomeSources.id, id));
+
+  return NextResponse.json({ success: true });
+}, "deleting income source");
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { incomeSources } from "@/lib/db/schema";
+import { withAuth } from "@/lib/utils/with-auth";
+
+const dismissSchema = z.object({
+  payerPattern: z.string().trim().min(1, "payerPattern is required").max(512),
+  name: z.string().trim().min(1).max(100).optional(),
+});
+
+/**
+ * POST /api/budget/income-sources/dismiss
+ *
+ * Dismisses a recurring deposit candidate so it is not suggested again.
+ * Its credits are not treated as income.
+ *
+ * Request body:
+ *   - payerPattern: The candidate's normalised payer
+ *   - name: (optional) The candidate's suggested name, kept for reference
+ *
+ * Response: { success: true }
+ *
+ * Errors:
+ *   - 400 for validation failures
+ */
+export const POST = withAuth(async (request) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const parsed = dismissSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Validation failed", errors: parsed.error.flatten().fieldErrors },
+      { status: 400 }
+    );
+  }
+
+  const { payerPattern } = parsed.data;
+  const name = parsed.data.name ?? payerPattern.slice(0, 100);
+
+  await db
+    .insert(incomeSources)
+    .values({ payerPattern, name, status: "dismissed" })
+    .onConflictDoUpdate({
+      target: incomeSources.payerPattern,
+      set: { status: "dismissed", updatedAt: new Date() },
+    });
+
+  return NextResponse.json({ success: true });
+}, "dismissing income source candidate");
@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withAuth } from "@/lib/utils/with-auth";
+import { INCOME_CADENCES, INCOME_SOURCE_KINDS } from "@/lib/constants";
+import {
+  confirmIncomeSource,
+  findIncomeCandidates,
+  getConfirmedIncomeSources,
+} from "@/lib/budget/income";
+
+const confirmSourceSchema = z.object({
+  payerPattern: z.string().trim().min(1, "payerPattern is required").max(512),
+  name: z.string().trim().min(1, "Name is required").max(100),
+  kind: z.enum(INCOME_SOURCE_KINDS),
+  cadence: z.enum(INCOME_CADENCES).nullable().optional(),
+  typicalAmountCents: z.number().int().positive().nullable().optional(),
+});
+
+/**
+ * GET /api/budget/income-sources
+ *
+ * Lists confirmed income sources and recurring deposits that look like
+ * income but have not been confirmed or dismissed yet.
+ *
+ * Response: { sources: IncomeSource[], candidates: [{ payerPattern, suggestedName,
+ *             suggestedKind, cadence, typicalAmountCents, depositCount,
+ *             lastDepositDate, exampleDescriptions }] }
+ */
+export const GET = withAuth(async () => {
+  const [sources, candidates] = await Promise.all([
+    getConfirmedIncomeSources(),
+    findIncomeCandidates(),
+  ]);
+
+  return NextResponse.json({ sources, candidates });
+}, "fetching income sources");
+
+/**
+ * POST /api/budget/income-sources
+ *
+ * Confirms a payer as an income source. Its past and future credits are
+ * classified as income (manually corrected transactions are left alone) and
+ * tracked separately in the budget summary.
+ *
+ * Request body:
+ *   - payerPattern: (required) The candidate's normalised payer
+ *   - name: (required) Display name, max 100 chars
+ *   - kind: (required) "salary" | "side_income" | "interest" | "other"
+ *   - cadence: (optional) "weekly" | "fortnightly" | "monthly"
+ *   - typicalAmountCents: (optional) Typical deposit
+ *
+ * Response: 201 { source, reclassifiedCount }
+ *
+ * Errors:
+ *   - 400 for validation failures
+ */
+export const POST = withAuth(async (request) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const parsed = confirmSourceSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Validation failed", errors: parsed.error.flatten().fieldErrors },
+      { status: 400 }
+    );
+  }
+
+  const { source, reclassifiedCount } = await confirmIncomeSource(parsed.data.payerPattern, {
+    name: parsed.data.name,
+    kind: parsed.data.kind,
+    cadence: parsed.data.cadence ?? null,
+    typicalAmountCents: parsed.data.typicalAmountCents ?? null,
+  });
+
+  return NextResponse.json({ source, reclassifiedCount }, { status: 201 });
+}, "confirming income source");
@@ -1,53 +1,61 @@
 import { NextResponse } from "next/server";
 import { z } from "zod";
 import { db } from "@/lib/db";
-import { paydayConfig } from "@/lib/db/schema";
+import { paydayConfig, type PaydayConfig } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
 import { withAuth } from "@/lib/utils/with-auth";
+import { ANCHORED_PAY_CYCLES, PAY_CYCLES } from "@/lib/constants";
 import {
-  calculateBudgetPeriod,
-  type PaydaySettings,
+  DEFAULT_PAY_CYCLE_CONFIG,
+  findNextPayday,
+  formatDate,
+  generatePeriod,
+  toPayCycleConfig,
 } from "@/lib/budget/payday";
 
-const updatePaydaySchema = z.object({
-  paydayDay: z.number().int().min(1).max(28),
-  adjustForWeekends: z.boolean(),
-  incomeSourcePattern: z.string().max(255).nullable().optional(),
-});
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Must be YYYY-MM-DD");
 
-const DEFAULT_PAYDAY_DAY = 15;
-const DEFAULT_ADJUST_FOR_WEEKENDS = true;
+const updatePaydaySchema = z
+  .object({
+    cycle: z.enum(PAY_CYCLES).default("monthly"),
+    paydayDay: z.number().int().min(1).max(28),
+    anchorDate: isoDate.nullable().optional(),
+    adjustForWeekends: z.boolean(),
+    adjustForHolidays: z.boolean().default(true),
+    holidays: z.array(isoDate).max(100).default([]),
+    expectedIncomeCents: z.number().int().positive().nullable().optional(),
+    incomeSourcePattern: z.string().max(255).nullable().optional(),
+  })
+  .refine(
+    (data) => !ANCHORED_PAY_CYCLES.includes(data.cycle) || Boolean(data.anchorDate),
+    {
+      message: "Weekly and fortnightly cycles need an anchor payday",
+      path: ["anchorDate"],
+    }
+  );
 
-function buildResponse(config: {
-  id: string;
-  paydayDay: number;
-  adjustForWeekends: boolean;
-  incomeSourcePattern: string | null;
-  createdAt: Date;
-  updatedAt: Date;
-}) {
-  const settings: PaydaySettings = {
-    paydayDay: config.paydayDay,
-    adjustForWeekends: config.adjustForWeekends,
-  };
-  const currentPeriod = calculateBudgetPeriod(settings, new Date());
+function buildResponse(config: PaydayConfig) {
+  const active = toPayCycleConfig(config);
+  const today = new Date();
+  const currentPeriod = generatePeriod(active, today);
 
   return {
     ...config,
     currentPeriod: {
-      startDate: currentPeriod.startDate.toISOString().split("T")[0],
-      endDate: currentPeriod.endDate.toISOString().split("T")[0],
+      startDate: formatDate(currentPeriod.startDate),
+      endDate: formatDate(currentPeriod.endDate),
       daysInPeriod: currentPeriod.daysInPeriod,
     },
+    nextPayday: formatDate(findNextPayday(today, active)),
   };
 }
 
 /**
  * GET /api/budget/payday
  *
- * Returns the current payday configuration, or sensible defaults
- * (day 15, adjust_for_weekends true) if none has been saved yet.
- * The response includes the calculated current budget period dates.
+ * Returns the current pay cycle configuration, or the defaults (monthly on
+ * the 14th, weekend and holiday adjustment on) if none has been saved yet.
+ * The response includes the current budget period dates and the next payday.
  */
 export const GET = withAuth(async () => {
   const rows = await db.select().from(paydayConfig);
@@ -59,10 +67,15 @@ export const GET = withAuth(async () => {
 
   // Return defaults without persisting — let the user explicitly save
   const now = new Date();
-  const defaults = {
+  const defaults: PaydayConfig = {
     id: "",
-    paydayDay: DEFAULT_PAYDAY_DAY,
-    adjustForWeekends: DEFAULT_ADJUST_FOR_WEEKENDS,
+    cycle: DEFAULT_PAY_CYCLE_CONFIG.cycle,
+    paydayDay: DEFAULT_PAY_CYCLE_CONFIG.paydayDay,
+    anchorDate: null,
+    adjustForWeekends: DEFAULT_PAY_CYCLE_CONFIG.adjustForWeekends,
+    adjustForHolidays: DEFAULT_PAY_CYCLE_CONFIG.adjustForHolidays,
+    holidays: [],
+    expectedIncomeCents: null,
     incomeSourcePattern: null,
     createdAt: now,
     updatedAt: now,
@@ -74,14 +87,20 @@ export const GET = withAuth(async () => {
 /**
  * PUT /api/budget/payday
  *
- * Create or update the payday configuration (upsert).
+ * Create or update the pay cycle configuration (upsert). Takes effect from
+ * the next budget period generated; existing periods keep their dates.
  *
  * Request body:
- *   - paydayDay: (required) Integer 1-28
+ *   - cycle: (optional) "weekly" | "fortnightly" | "monthly" | "last_business_day", default "monthly"
+ *   - paydayDay: (required) Integer 1-28, used by the monthly cycle
+ *   - anchorDate: (required for weekly/fortnightly) Any past payday, YYYY-MM-DD
  *   - adjustForWeekends: (required) Boolean
+ *   - adjustForHolidays: (optional) Boolean, default true
+ *   - holidays: (optional) Local public holidays as YYYY-MM-DD strings
+ *   - expectedIncomeCents: (optional) Positive integer, or null for the default
  *   - incomeSourcePattern: (optional) String or null
  *
- * Response: 200 with the saved config and current budget period dates.
+ * Response: 200 with the saved config, current budget period dates and next payday.
  */
 export const PUT = withAuth(async (request) => {
   let body: unknown;
@@ -106,6 +125,15 @@ export const PUT = withAuth(async (request) => {
   }
 
   const data = parsed.data;
+  const values = {
+    cycle: data.cycle,
+    paydayDay: data.paydayDay,
+    anchorDate: data.anchorDate ?? null,
+    adjustForWeekends: data.adjustForWeekends,
+    adjustForHolidays: data.adjustForHolidays,
+    holidays: [...new Set(data.holidays)].sort(),
+    expectedIncomeCents: data.expectedIncomeCents ?? null,
+  };
 
   // Check for existing config
   const rows = await db.select().from(paydayConfig);
@@ -118,8 +146,7 @@ export const PUT = withAuth(async (request) => {
     [saved] = await db
       .update(paydayConfig)
       .set({
-        paydayDay: data.paydayDay,
-        adjustForWeekends: data.adjustForWeekends,
+        ...values,
         incomeSourcePattern: data.incomeSourcePattern ?? existing.incomeSourcePattern,
         updatedAt: new Date(),
       })
@@ -130,8 +157,7 @@ export const PUT = withAuth(async (request) => {
     [saved] = await db
       .insert(paydayConfig)
       .values({
-        paydayDay: data.paydayDay,
-        adjustForWeekends: data.adjustForWeekends,
+        ...values,
         incomeSourcePattern: data.incomeSourcePattern ?? null,
       })
       .returning();
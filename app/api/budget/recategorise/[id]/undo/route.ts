@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { recategorisationBatches } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { withAuth } from "@/lib/utils/with-auth";
+import { undoRecategorisation } from "@/lib/budget/recategorise";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * PATCH /api/budget/recategorise/:id/undo
+ *
+ * Restores the transactions in a recategorisation batch to their previous
+ * classification. Transactions changed again since the batch ran are left
+ * as they are.
+ *
+ * Response: { restoredCount, skippedCount }
+ *
+ * Errors:
+ *   - 400 if the batch has already been undone
+ *   - 404 if batch not found
+ */
+export const PATCH = withAuth(async (_request, context) => {
+  const { id } = await context.params;
+
+  const [batch] = UUID_PATTERN.test(id)
+    ? await db
+        .select()
+        .from(recategorisationBatches)
+        .where(eq(recategorisationBatches.id, id))
+    : [];
+
+  if (!batch) {
+    return NextResponse.json(
+      { error: "Batch not found" },
+      { status: 404 }
+    );
+  }
+
+  if (batch.undoneAt) {
+    return NextResponse.json(
+      { error: "Batch has already been undone" },
+      { status: 400 }
+    );
+  }
+
+  const result = await undoRecategorisation(id);
+  return NextResponse.json(result);
+}, "undoing recategorisation");
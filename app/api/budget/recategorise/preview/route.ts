@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/utils/with-auth";
+import {
+  recategorisationRangeSchema,
+  resolveRecategorisationRange,
+  previewRecategorisation,
+} from "@/lib/budget/recategorise";
+
+/**
+ * POST /api/budget/recategorise/preview
+ *
+ * Dry run of POST /api/budget/recategorise: shows which transactions the
+ * active rules would move and how each budget period's totals would change.
+ * Nothing is written.
+ *
+ * Request body: same as POST /api/budget/recategorise
+ *
+ * Response: { startDate, endDate, transactionCount, protectedCount, changedCount,
+ *             changes: [{ id, transactionDate, description, amountCents, current, proposed }],
+ *             periods: [{ periodId, startDate, endDate,
+ *                         totals: [{ saverKey, categoryKey, beforeCents, afterCents }] }] }
+ *
+ * Errors:
+ *   - 400 for validation failures
+ *   - 404 if period not found
+ */
+export const POST = withAuth(async (request) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const parsed = recategorisationRangeSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Validation failed", errors: parsed.error.flatten().fieldErrors },
+      { status: 400 }
+    );
+  }
+
+  const range = await resolveRecategorisationRange(parsed.data);
+  if (!range) {
+    return NextResponse.json(
+      { error: "Budget period not found" },
+      { status: 404 }
+    );
+  }
+
+  const preview = await previewRecategorisation(range.startDate, range.endDate);
+  return NextResponse.json(preview);
+}, "previewing recategorisation");
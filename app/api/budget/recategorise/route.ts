@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/utils/with-auth";
+import {
+  recategorisationRangeSchema,
+  resolveRecategorisationRange,
+  applyRecategorisation,
+  listRecategorisationBatches,
+} from "@/lib/budget/recategorise";
+
+/**
+ * GET /api/budget/recategorise
+ *
+ * Returns the most recent recategorisation batches, newest first.
+ *
+ * Response: { batches: RecategorisationBatch[] }
+ */
+export const GET = withAuth(async () => {
+  const batches = await listRecategorisationBatches();
+  return NextResponse.json({ batches });
+}, "fetching recategorisation batches");
+
+/**
+ * POST /api/budget/recategorise
+ *
+ * Re-runs the active categorisation rules over historical transactions and
+ * records the changes as one batch, which PATCH /api/budget/recategorise/:id/undo
+ * reverses. Transactions the user corrected manually are never changed.
+ *
+ * Request body:
+ *   - periodId: (optional) Budget period to recategorise
+ *   - startDate, endDate: (optional) Date range, inclusive, if no periodId
+ *
+ * Response: 201 with { batch, changedCount }, or 200 with { batch: null,
+ *           changedCount: 0 } when nothing would change
+ *
+ * Errors:
+ *   - 400 for validation failures
+ *   - 404 if period not found
+ */
+export const POST = withAuth(async (request) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const parsed = recategorisationRangeSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Validation failed", errors: parsed.error.flatten().fieldErrors },
+      { status: 400 }
+    );
+  }
+
+  const range = await resolveRecategorisationRange(parsed.data);
+  if (!range) {
+    return NextResponse.json(
+      { error: "Budget period not found" },
+      { status: 404 }
+    );
+  }
+
+  const batch = await applyRecategorisation(range.startDate, range.endDate);
+  if (!batch) {
+    return NextResponse.json({ batch: null, changedCount: 0 });
+  }
+
+  return NextResponse.json({ batch, changedCount: batch.changedCount }, { status: 201 });
+}, "recategorising transactions");
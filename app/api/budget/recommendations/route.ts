@@ -7,10 +7,10 @@ import {
   aiRecommendations,
   budgetPeriods,
   budgetCategories,
-  paydayConfig,
   upTransactions,
 } from "@/lib/db/schema";
 import { calculateBudgetSummary } from "@/lib/budget/summary";
+import { getPayCycleConfig } from "@/lib/budget/payday";
 
 /**
  * GET /api/budget/recommendations
@@ -113,15 +113,15 @@ export const POST = withAuth(async () => {
   const currentPeriodId = periodRows[0].id;
 
   // 2. Gather data concurrently
-  const [summary, historicalSpending, paydayRows] = await Promise.all([
+  const [summary, historicalSpending, payCycle] = await Promise.all([
     // Current period summary (income, allocations, spending)
     calculateBudgetSummary(currentPeriodId),
 
     // 3-month average spending: get up to 3 previous periods and their spending
     getHistoricalCategorySpending(currentPeriodId),
 
-    // Payday config
-    db.select().from(paydayConfig).limit(1),
+    // Pay cycle config
+    getPayCycleConfig(),
   ]);
 
   // 3. Build the payload for n8n
@@ -136,12 +136,13 @@ export const POST = withAuth(async () => {
     })),
     historicalAverages: historicalSpending,
     savingsGoalPercentage: 30,
-    paydayConfig: paydayRows[0]
-      ? {
-          paydayDay: paydayRows[0].paydayDay,
-          adjustForWeekends: paydayRows[0].adjustForWeekends,
-        }
-      : { paydayDay: 15, adjustForWeekends: true },
+    paydayConfig: {
+      cycle: payCycle.cycle,
+      paydayDay: payCycle.paydayDay,
+      anchorDate: payCycle.anchorDate,
+      adjustForWeekends: payCycle.adjustForWeekends,
+      adjustForHolidays: payCycle.adjustForHolidays,
+    },
     periodDates: {
       startDate: summary.startDate,
       endDate: summary.endDate,
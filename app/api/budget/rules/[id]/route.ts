@@ -0,0 +1,123 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { categorisationRules } from "@/lib/db/schema";
+import { eq } from "drizzle-orm";
+import { withAuth } from "@/lib/utils/with-auth";
+import {
+  categorisationRuleSchema,
+  toRuleDefinition,
+  validateRuleDefinition,
+} from "@/lib/budget/rules";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const updateRuleSchema = categorisationRuleSchema.partial();
+
+async function findRule(id: string) {
+  if (!UUID_PATTERN.test(id)) return undefined;
+
+  const [rule] = await db
+    .select()
+    .from(categorisationRules)
+    .where(eq(categorisationRules.id, id));
+  return rule;
+}
+
+/**
+ * PUT /api/budget/rules/:id
+ *
+ * Updates a categorisation rule. Accepts any of the POST /api/budget/rules
+ * fields; omitted fields are unchanged and null clears a condition or target.
+ *
+ * Response: Updated rule
+ *
+ * Errors:
+ *   - 400 for validation failures
+ *   - 404 if rule not found
+ */
+export const PUT = withAuth(async (request, context) => {
+  const { id } = await context.params;
+
+  const existing = await findRule(id);
+  if (!existing) {
+    return NextResponse.json(
+      { error: "Rule not found" },
+      { status: 404 }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const parsed = updateRuleSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Validation failed", errors: parsed.error.flatten().fieldErrors },
+      { status: 400 }
+    );
+  }
+
+  // Validate the rule as it will be once the update is applied
+  const data = parsed.data;
+  const merged = { ...existing };
+  for (const [key, value] of Object.entries(data)) {
+    if (value !== undefined) {
+      (merged as Record<string, unknown>)[key] = value;
+    }
+  }
+  const rule = toRuleDefinition(merged);
+  const errors = await validateRuleDefinition(rule);
+  if (Object.keys(errors).length > 0) {
+    return NextResponse.json({ error: "Validation failed", errors }, { status: 400 });
+  }
+
+  const [updated] = await db
+    .update(categorisationRules)
+    .set({
+      ...rule,
+      name: merged.name,
+      priority: merged.priority,
+      isActive: merged.isActive,
+      updatedAt: new Date(),
+    })
+    .where(eq(categorisationRules.id, id))
+    .returning();
+
+  return NextResponse.json(updated);
+}, "updating categorisation rule");
+
+/**
+ * DELETE /api/budget/rules/:id
+ *
+ * Deletes a categorisation rule. Transactions it already classified keep
+ * their classification.
+ *
+ * Response: { success: true }
+ *
+ * Errors:
+ *   - 404 if rule not found
+ */
+export const DELETE = withAuth(async (_request, context) => {
+  const { id } = await context.params;
+
+  const existing = await findRule(id);
+  if (!existing) {
+    return NextResponse.json(
+      { error: "Rule not found" },
+      { status: 404 }
+    );
+  }
+
+  await db
+    .delete(categorisationRules)
+    .where(eq(categorisationRules.id, id));
+
+  return NextResponse.json({ success: true });
+}, "deleting categorisation rule");
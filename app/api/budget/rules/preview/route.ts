@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { withAuth } from "@/lib/utils/with-auth";
+import {
+  categorisationRuleSchema,
+  toRuleDefinition,
+  previewCategorisationRule,
+} from "@/lib/budget/rules";
+
+const previewSchema = categorisationRuleSchema.extend({
+  name: z.string().optional(),
+  ruleId: z.string().uuid().optional(),
+});
+
+/**
+ * POST /api/budget/rules/preview
+ *
+ * Tests a rule against the last 90 days of transactions without saving it
+ * or changing any transaction.
+ *
+ * Request body: the POST /api/budget/rules fields (name optional), plus
+ *   - ruleId: (optional) ID of the rule being edited, so its saved version
+ *     is left out of the ruleset
+ *
+ * Response: { days, transactionCount, matchCount, changedCount, totalCents,
+ *             matches: [{ id, transactionDate, description, amountCents,
+ *                         current, proposed, changed, decidedBy }] }
+ *
+ * Errors:
+ *   - 400 for validation failures
+ */
+export const POST = withAuth(async (request) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const parsed = previewSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Validation failed", errors: parsed.error.flatten().fieldErrors },
+      { status: 400 }
+    );
+  }
+
+  const rule = toRuleDefinition({ ...parsed.data, name: parsed.data.name ?? "" });
+  if (rule.matchType === "regex") {
+    try {
+      new RegExp(rule.pattern, "i");
+    } catch {
+      return NextResponse.json(
+        { error: "Validation failed", errors: { pattern: "Pattern is not a valid regular expression" } },
+        { status: 400 }
+      );
+    }
+  }
+
+  const preview = await previewCategorisationRule(
+    rule,
+    parsed.data.priority ?? Number.MAX_SAFE_INTEGER,
+    parsed.data.ruleId
+  );
+
+  return NextResponse.json(preview);
+}, "previewing categorisation rule");
@@ -0,0 +1,119 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { categorisationRules, upAccounts } from "@/lib/db/schema";
+import { asc, desc } from "drizzle-orm";
+import { withAuth } from "@/lib/utils/with-auth";
+import { seedCategorisationRules } from "@/lib/db/seeds/categorisation-rules";
+import {
+  categorisationRuleSchema,
+  toRuleDefinition,
+  validateRuleDefinition,
+} from "@/lib/budget/rules";
+
+/**
+ * GET /api/budget/rules
+ *
+ * Returns all categorisation rules in the order they are applied, and the
+ * UP accounts a rule can be limited to. If no rules exist, seeds the
+ * default rules first.
+ *
+ * Response: { rules: CategorisationRule[], accounts: [{ upAccountId, displayName }] }
+ */
+export const GET = withAuth(async () => {
+  const listRules = () =>
+    db
+      .select()
+      .from(categorisationRules)
+      .orderBy(asc(categorisationRules.priority), asc(categorisationRules.createdAt));
+
+  let rules = await listRules();
+
+  // Auto-seed defaults if no rules exist
+  if (rules.length === 0) {
+    await seedCategorisationRules();
+    rules = await listRules();
+  }
+
+  const accounts = await db
+    .select({ upAccountId: upAccounts.upAccountId, displayName: upAccounts.displayName })
+    .from(upAccounts)
+    .orderBy(asc(upAccounts.displayName));
+
+  return NextResponse.json({ rules, accounts });
+}, "fetching categorisation rules");
+
+/**
+ * POST /api/budget/rules
+ *
+ * Creates a categorisation rule.
+ *
+ * Request body:
+ *   - name: (required) Display name
+ *   - priority: (optional) Lower runs first; defaults to after existing rules
+ *   - matchField: (required) "description" | "raw_text" | "up_category_id"
+ *   - matchType: (required) "contains" | "exact" | "regex"
+ *   - pattern: (required) Text or regex to match, case-insensitive
+ *   - minAmountCents, maxAmountCents: (optional) Signed amount range, inclusive
+ *   - upAccountId: (optional) Only match transactions on this UP account
+ *   - isTransfer: (optional) Only match transfers (true) or non-transfers (false)
+ *   - mjolnirCategoryId: (optional) Budget category to assign
+ *   - saverKey, categoryKey: (optional) Saver/category to assign, set together
+ *   - tags: (optional) Tags to add
+ *   - isActive: (optional) Default true
+ *
+ * At least one of mjolnirCategoryId, saverKey or tags is required.
+ *
+ * Response: 201 with the created rule
+ *
+ * Errors:
+ *   - 400 for validation failures
+ */
+export const POST = withAuth(async (request) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const parsed = categorisationRuleSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Validation failed", errors: parsed.error.flatten().fieldErrors },
+      { status: 400 }
+    );
+  }
+
+  const data = parsed.data;
+  const rule = toRuleDefinition(data);
+  const errors = await validateRuleDefinition(rule);
+  if (Object.keys(errors).length > 0) {
+    return NextResponse.json({ error: "Validation failed", errors }, { status: 400 });
+  }
+
+  // Determine priority if not provided — place after existing rules
+  let priority = data.priority;
+  if (priority === undefined) {
+    const [last] = await db
+      .select({ priority: categorisationRules.priority })
+      .from(categorisationRules)
+      .orderBy(desc(categorisationRules.priority))
+      .limit(1);
+    priority = last ? last.priority + 10 : 10;
+  }
+
+  const [created] = await db
+    .insert(categorisationRules)
+    .values({
+      ...rule,
+      name: data.name,
+      priority,
+      isActive: data.isActive ?? true,
+    })
+    .returning();
+
+  return NextResponse.json(created, { status: 201 });
+}, "creating categorisation rule");
@@ -10,6 +10,7 @@ import {
 import { and, eq, gte, lte, lt, isNull, sql, asc } from "drizzle-orm";
 import { withAuth } from "@/lib/utils/with-auth";
 import { ensureCurrentPeriodExists } from "@/lib/budget/payday";
+import { getIncomeBySource } from "@/lib/budget/income";
 
 // -----------------------------------------------------------------------------
 // Types
@@ -116,7 +117,7 @@ export const GET = withAuth(async (request) => {
   const [
     allSavers,
     allCategories,
-    incomeRows,
+    income,
     spendingBySaver,
     spendingByCategory,
     allGoals,
@@ -135,22 +136,8 @@ export const GET = withAuth(async (request) => {
       .where(eq(budgetCategories.isActive, true))
       .orderBy(asc(budgetCategories.sortOrder)),
 
-    // 3. Actual income: sum of positive-amount transactions in the period
-    db
-      .select({
-        totalCents:
-          sql<number>`COALESCE(SUM(${upTransactions.amountCents}), 0)`,
-      })
-      .from(upTransactions)
-      .where(
-        and(
-          sql`${upTransactions.amountCents} > 0`,
-          gte(upTransactions.transactionDate, startDate),
-          lte(upTransactions.transactionDate, endDate),
-          eq(upTransactions.isTransfer, false),
-          isNull(upTransactions.deletedAt)
-        )
-      ),
+    // 3. Actual income: credits classified as income, split by source
+    getIncomeBySource(startDate, endDate),
 
     // 4. Spending aggregated by saverKey
     db
@@ -305,8 +292,6 @@ export const GET = withAuth(async (request) => {
     icon: goal.icon,
   }));
 
-  const actualIncomeCents = Number(incomeRows[0]?.totalCents ?? 0);
-
   return NextResponse.json({
     periodId: resolvedPeriodId,
     period: {
@@ -319,7 +304,8 @@ export const GET = withAuth(async (request) => {
     },
     income: {
       expectedCents: expectedIncomeCents,
-      actualCents: actualIncomeCents,
+      actualCents: income.actualCents,
+      sources: income.sources,
     },
     spendingSavers,
     totalSpentCents,
@@ -3,18 +3,20 @@ import { db } from "@/lib/db";
 import { snapshots, contributions, holdings, type NewSnapshot, type NewContribution } from "@/lib/db/schema";
 import { eq, isNull, and, inArray } from "drizzle-orm";
 import { SNAPSHOT_TYPES, normalizeToFirstOfMonth, isValidSnapshotMonth } from "@/lib/constants";
-import type { Currency } from "@/lib/constants";
+import { SUPER_DEDUCTION_FIELDS, SUPER_DEDUCTION_LABELS } from "@/lib/constants";
+import type { Currency, SuperDeductionField } from "@/lib/constants";
 import { withAuth } from "@/lib/utils/with-auth";
 
-// Entry for a super holding with optional contributions
-interface SuperEntry {
+// Entry for a super holding with optional contributions and deductions
+interface SuperEntry extends Partial<Record<SuperDeductionField, string>> {
   holdingId: string;
   balance: string;
   employerContrib?: string;
   employeeContrib?: string;
+  nonConcessionalContrib?: string;
 }
 
-// Entry for cash or debt holding (balance only)
+// Entry for cash, debt, property or vehicle holding (balance or valuation only)
 interface BalanceEntry {
   holdingId: string;
   balance: string;
@@ -25,6 +27,8 @@ interface CheckInSaveBody {
   super?: SuperEntry[];
   cash?: BalanceEntry[];
   debt?: BalanceEntry[];
+  property?: BalanceEntry[];
+  vehicle?: BalanceEntry[];
 }
 
 /**
@@ -36,9 +40,13 @@ interface CheckInSaveBody {
  *
  * Request body:
  *   - month: (required) Date string in YYYY-MM-01 format (current or previous month)
- *   - super: (optional) Array of { holdingId, balance, employerContrib?, employeeContrib? }
+ *   - super: (optional) Array of { holdingId, balance, employerContrib?, employeeContrib?,
+ *     nonConcessionalContrib?, adminFees?, investmentFees?, insurancePremiums?,
+ *     contributionsTax? }
  *   - cash: (optional) Array of { holdingId, balance }
  *   - debt: (optional) Array of { holdingId, balance }
+ *   - property: (optional) Array of { holdingId, balance } (balance = valuation)
+ *   - vehicle: (optional) Array of { holdingId, balance } (balance = valuation)
  *
  * Validation:
  *   - At least one entry must be provided
@@ -85,6 +93,8 @@ export const POST = withAuth(async (request, _context, userId) => {
     ...(body.super?.map(s => s.holdingId) || []),
     ...(body.cash?.map(c => c.holdingId) || []),
     ...(body.debt?.map(d => d.holdingId) || []),
+    ...(body.property?.map(p => p.holdingId) || []),
+    ...(body.vehicle?.map(v => v.holdingId) || []),
   ];
 
   if (allHoldingIds.length === 0) {
@@ -126,9 +136,19 @@ export const POST = withAuth(async (request, _context, userId) => {
     }
   };
 
-  body.super?.forEach(entry => validateBalanceEntry(entry, "Super"));
+  body.super?.forEach(entry => {
+    validateBalanceEntry(entry, "Super");
+    for (const field of SUPER_DEDUCTION_FIELDS) {
+      const value = entry[field];
+      if (value && (isNaN(Number(value)) || Number(value) < 0)) {
+        errors[entry.holdingId] = `${SUPER_DEDUCTION_LABELS[field]} must be a number of 0 or more`;
+      }
+    }
+  });
   body.cash?.forEach(entry => validateBalanceEntry(entry, "Cash"));
   body.debt?.forEach(entry => validateBalanceEntry(entry, "Debt"));
+  body.property?.forEach(entry => validateBalanceEntry(entry, "Property"));
+  body.vehicle?.forEach(entry => validateBalanceEntry(entry, "Vehicle"));
 
   if (Object.keys(errors).length > 0) {
     return NextResponse.json({ errors }, { status: 400 });
@@ -183,12 +203,23 @@ export const POST = withAuth(async (request, _context, userId) => {
     });
 
     // Add contribution if provided (only for non-dormant super)
-    if (!holding.isDormant && (entry.employerContrib || entry.employeeContrib)) {
+    if (
+      !holding.isDormant &&
+      (entry.employerContrib ||
+        entry.employeeContrib ||
+        entry.nonConcessionalContrib ||
+        SUPER_DEDUCTION_FIELDS.some((field) => entry[field]))
+    ) {
       contributionsToInsert.push({
         holdingId: entry.holdingId,
         date: normalizedDate,
         employerContrib: entry.employerContrib || "0",
         employeeContrib: entry.employeeContrib || "0",
+        nonConcessionalContrib: entry.nonConcessionalContrib || "0",
+        adminFees: entry.adminFees || "0",
+        investmentFees: entry.investmentFees || "0",
+        insurancePremiums: entry.insurancePremiums || "0",
+        contributionsTax: entry.contributionsTax || "0",
         notes: null,
       });
     }
@@ -207,8 +238,8 @@ export const POST = withAuth(async (request, _context, userId) => {
     });
   }
 
-  // Process debt entries
-  for (const entry of body.debt || []) {
+  // Process debt, property and vehicle entries
+  for (const entry of [...(body.debt || []), ...(body.property || []), ...(body.vehicle || [])]) {
     const holding = holdingsMap.get(entry.holdingId)!;
 
     snapshotsToInsert.push({
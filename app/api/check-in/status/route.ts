@@ -3,9 +3,7 @@ import { db } from "@/lib/db";
 import { holdings, snapshots, contributions } from "@/lib/db/schema";
 import { eq, isNull, and, inArray, desc, lt } from "drizzle-orm";
 import { withAuth } from "@/lib/utils/with-auth";
-
-// Valid snapshot types (non-tradeable holdings)
-const snapshotTypes = ["super", "cash", "debt"] as const;
+import { SNAPSHOT_TYPES } from "@/lib/constants";
 
 // Get first of current month
 function getFirstOfCurrentMonth(): string {
@@ -100,7 +98,7 @@ export const GET = withAuth(async (request, _context, userId) => {
         eq(holdings.userId, userId),
         eq(holdings.isActive, true),
         isNull(holdings.deletedAt),
-        inArray(holdings.type, [...snapshotTypes])
+        inArray(holdings.type, [...SNAPSHOT_TYPES])
       )
     );
 
@@ -3,10 +3,17 @@ import { db } from "@/lib/db";
 import { contributions, holdings } from "@/lib/db/schema";
 import { eq, and, isNull } from "drizzle-orm";
 import { withAuth } from "@/lib/utils/with-auth";
-
-interface UpdateContributionBody {
+import type { SuperDeductionField } from "@/lib/constants";
+import {
+  validateSuperDeductionFields,
+  toSuperDeductionColumns,
+  type SuperDeductionsBody,
+} from "@/lib/utils/super-deduction-fields";
+
+interface UpdateContributionBody extends SuperDeductionsBody {
   employer_contribution?: string | number;
   employee_contribution?: string | number;
+  non_concessional_contribution?: string | number;
   notes?: string;
 }
 
@@ -17,8 +24,9 @@ interface UpdateContributionBody {
  * Ownership is validated via the parent holding's userId.
  *
  * Response: Contribution object
- *   { id, holdingId, date, employerContrib, employeeContrib, notes,
- *     createdAt, updatedAt, holdingName }
+ *   { id, holdingId, date, employerContrib, employeeContrib,
+ *     nonConcessionalContrib, adminFees, investmentFees, insurancePremiums,
+ *     contributionsTax, notes, createdAt, updatedAt, holdingName }
  *
  * Errors:
  *   - 401 if not authenticated
@@ -35,6 +43,11 @@ export const GET = withAuth(async (_request, context, userId) => {
       date: contributions.date,
       employerContrib: contributions.employerContrib,
       employeeContrib: contributions.employeeContrib,
+      nonConcessionalContrib: contributions.nonConcessionalContrib,
+      adminFees: contributions.adminFees,
+      investmentFees: contributions.investmentFees,
+      insurancePremiums: contributions.insurancePremiums,
+      contributionsTax: contributions.contributionsTax,
       notes: contributions.notes,
       createdAt: contributions.createdAt,
       updatedAt: contributions.updatedAt,
@@ -61,12 +74,15 @@ export const GET = withAuth(async (_request, context, userId) => {
 /**
  * PATCH /api/contributions/:id
  *
- * Partially updates a contribution. Only contribution amounts and notes
- * can be changed; holding and date are immutable after creation.
+ * Partially updates a contribution. Only contribution and deduction amounts
+ * and notes can be changed; holding and date are immutable after creation.
  *
  * Request body (all optional):
  *   - employer_contribution: Numeric amount
  *   - employee_contribution: Numeric amount
+ *   - non_concessional_contribution: Numeric amount
+ *   - admin_fees, investment_fees, insurance_premiums, contributions_tax:
+ *     Amounts the fund deducted, 0 or more
  *   - notes: Free-text notes
  *
  * Response: Updated contribution object with holdingName
@@ -126,6 +142,17 @@ export const PATCH = withAuth(async (request, context, userId) => {
     }
   }
 
+  if (
+    body.non_concessional_contribution !== undefined &&
+    body.non_concessional_contribution !== ""
+  ) {
+    if (isNaN(Number(body.non_concessional_contribution))) {
+      errors.non_concessional_contribution = "Non-concessional contribution must be a number";
+    }
+  }
+
+  validateSuperDeductionFields(body, errors);
+
   if (Object.keys(errors).length > 0) {
     return NextResponse.json({ errors }, { status: 400 });
   }
@@ -134,9 +161,11 @@ export const PATCH = withAuth(async (request, context, userId) => {
   const updateData: Partial<{
     employerContrib: string;
     employeeContrib: string;
+    nonConcessionalContrib: string;
     notes: string | null;
     updatedAt: Date;
-  }> = {
+  } & Record<SuperDeductionField, string>> = {
+    ...toSuperDeductionColumns(body),
     updatedAt: new Date(),
   };
 
@@ -146,6 +175,9 @@ export const PATCH = withAuth(async (request, context, userId) => {
   if (body.employee_contribution !== undefined) {
     updateData.employeeContrib = String(body.employee_contribution || "0");
   }
+  if (body.non_concessional_contribution !== undefined) {
+    updateData.nonConcessionalContrib = String(body.non_concessional_contribution || "0");
+  }
   if (body.notes !== undefined) {
     updateData.notes = body.notes?.trim() || null;
   }
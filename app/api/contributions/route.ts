@@ -4,12 +4,18 @@ import { contributions, holdings, type NewContribution } from "@/lib/db/schema";
 import { eq, isNull, and, desc } from "drizzle-orm";
 import { withAuth } from "@/lib/utils/with-auth";
 import { normalizeToFirstOfMonth } from "@/lib/constants";
+import {
+  validateSuperDeductionFields,
+  toSuperDeductionColumns,
+  type SuperDeductionsBody,
+} from "@/lib/utils/super-deduction-fields";
 
-interface CreateContributionBody {
+interface CreateContributionBody extends SuperDeductionsBody {
   holding_id?: string;
   date?: string;
   employer_contribution?: string | number;
   employee_contribution?: string | number;
+  non_concessional_contribution?: string | number;
   notes?: string;
 }
 
@@ -23,8 +29,9 @@ interface CreateContributionBody {
  *   - holding_id: Filter to a specific super holding's contributions
  *
  * Response: Array of contribution objects
- *   { id, holdingId, date, employerContrib, employeeContrib, notes,
- *     createdAt, updatedAt, holdingName }
+ *   { id, holdingId, date, employerContrib, employeeContrib,
+ *     nonConcessionalContrib, adminFees, investmentFees, insurancePremiums,
+ *     contributionsTax, notes, createdAt, updatedAt, holdingName }
  *
  * Errors:
  *   - 401 if not authenticated
@@ -52,6 +59,11 @@ export const GET = withAuth(async (request, _context, userId) => {
       date: contributions.date,
       employerContrib: contributions.employerContrib,
       employeeContrib: contributions.employeeContrib,
+      nonConcessionalContrib: contributions.nonConcessionalContrib,
+      adminFees: contributions.adminFees,
+      investmentFees: contributions.investmentFees,
+      insurancePremiums: contributions.insurancePremiums,
+      contributionsTax: contributions.contributionsTax,
       notes: contributions.notes,
       createdAt: contributions.createdAt,
       updatedAt: contributions.updatedAt,
@@ -76,6 +88,9 @@ export const GET = withAuth(async (request, _context, userId) => {
  *   - date: (required) Date string (normalized to YYYY-MM-01)
  *   - employer_contribution: (optional) Numeric amount (defaults to "0")
  *   - employee_contribution: (optional) Numeric amount (defaults to "0")
+ *   - non_concessional_contribution: (optional) Numeric amount (defaults to "0")
+ *   - admin_fees, investment_fees, insurance_premiums, contributions_tax:
+ *     (optional) Amounts the fund deducted, 0 or more (default "0")
  *   - notes: (optional) Free-text notes
  *
  * Validation:
@@ -126,6 +141,17 @@ export const POST = withAuth(async (request, _context, userId) => {
     }
   }
 
+  if (
+    body.non_concessional_contribution !== undefined &&
+    body.non_concessional_contribution !== ""
+  ) {
+    if (isNaN(Number(body.non_concessional_contribution))) {
+      errors.non_concessional_contribution = "Non-concessional contribution must be a number";
+    }
+  }
+
+  validateSuperDeductionFields(body, errors);
+
   // Return early if basic validation fails
   if (Object.keys(errors).length > 0) {
     return NextResponse.json({ errors }, { status: 400 });
@@ -186,6 +212,10 @@ export const POST = withAuth(async (request, _context, userId) => {
     date: normalizedDate,
     employerContrib: body.employer_contribution ? String(body.employer_contribution) : "0",
     employeeContrib: body.employee_contribution ? String(body.employee_contribution) : "0",
+    nonConcessionalContrib: body.non_concessional_contribution
+      ? String(body.non_concessional_contribution)
+      : "0",
+    ...toSuperDeductionColumns(body),
     notes: body.notes?.trim() || null,
   };
 
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { corporateActions, holdings } from "@/lib/db/schema";
+import { eq, isNull, and } from "drizzle-orm";
+import { withAuth } from "@/lib/utils/with-auth";
+
+/**
+ * DELETE /api/corporate-actions/:id
+ *
+ * Soft-deletes a corporate action by setting `deletedAt` timestamp. Deleting
+ * a symbol change restores the old symbol, unless the holding has been
+ * renamed again since.
+ *
+ * Response: The soft-deleted CorporateAction object (with deletedAt set)
+ *
+ * Errors:
+ *   - 401 if not authenticated
+ *   - 404 if corporate action not found or doesn't belong to user
+ */
+export const DELETE = withAuth(async (_request, context, userId) => {
+  const { id } = await context.params;
+
+  // Verify the action exists and belongs to the user
+  const [existing] = await db
+    .select({
+      action: corporateActions,
+      holdingSymbol: holdings.symbol,
+    })
+    .from(corporateActions)
+    .innerJoin(holdings, eq(corporateActions.holdingId, holdings.id))
+    .where(
+      and(
+        eq(corporateActions.id, id),
+        eq(holdings.userId, userId),
+        isNull(holdings.deletedAt),
+        isNull(corporateActions.deletedAt)
+      )
+    );
+
+  if (!existing) {
+    return NextResponse.json({ error: "Corporate action not found" }, { status: 404 });
+  }
+
+  const [deleted] = await db
+    .update(corporateActions)
+    .set({
+      deletedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    .where(eq(corporateActions.id, id))
+    .returning();
+
+  const { action } = existing;
+  if (action.type === "symbol_change" && existing.holdingSymbol === action.newSymbol) {
+    await db
+      .update(holdings)
+      .set({ symbol: action.oldSymbol, updatedAt: new Date() })
+      .where(eq(holdings.id, action.holdingId));
+  }
+
+  return NextResponse.json(deleted);
+}, "deleting corporate action");
@@ -0,0 +1,305 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import {
+  corporateActions,
+  holdings,
+  type Holding,
+  type NewCorporateAction,
+} from "@/lib/db/schema";
+import { alias } from "drizzle-orm/pg-core";
+import { eq, isNull, and, desc, or } from "drizzle-orm";
+import { calculateQuantityHeld } from "@/lib/calculations/quantity";
+import { withAuth } from "@/lib/utils/with-auth";
+import {
+  CORPORATE_ACTION_TYPES,
+  CORPORATE_ACTIONS_WITH_TARGET,
+  isTradeable,
+  type CorporateActionType,
+} from "@/lib/constants";
+
+interface CreateCorporateActionBody {
+  holding_id?: string;
+  type?: string;
+  date?: string;
+  target_holding_id?: string;
+  ratio?: number | string;
+  cash_per_unit?: number | string;
+  cost_base_percent?: number | string;
+  new_symbol?: string;
+  notes?: string;
+}
+
+/** True if an optional numeric body field was supplied. */
+function isProvided(value: number | string | undefined | null): value is number | string {
+  return value !== undefined && value !== null && value !== "";
+}
+
+const targetHoldings = alias(holdings, "target_holdings");
+
+/**
+ * GET /api/corporate-actions
+ *
+ * Returns corporate actions for the authenticated user, ordered by date
+ * descending, with the holding each was recorded against and the holding
+ * that received units (merger and spin-off only).
+ *
+ * Query parameters:
+ *   - holding_id: Filter to actions that touch a holding, as source or target
+ *
+ * Response: Array of corporate action objects
+ *   { id, holdingId, targetHoldingId, type, date, ratio, cashPerUnit,
+ *     costBasePercent, oldSymbol, newSymbol, notes, createdAt, updatedAt,
+ *     holding: { id, name, symbol },
+ *     targetHolding: { id, name, symbol } | null }
+ *
+ * Errors:
+ *   - 401 if not authenticated
+ */
+export const GET = withAuth(async (request, _context, userId) => {
+  const holdingId = request.nextUrl.searchParams.get("holding_id");
+
+  const conditions = [
+    eq(holdings.userId, userId),
+    isNull(holdings.deletedAt),
+    isNull(corporateActions.deletedAt),
+  ];
+
+  if (holdingId) {
+    conditions.push(
+      or(
+        eq(corporateActions.holdingId, holdingId),
+        eq(corporateActions.targetHoldingId, holdingId)
+      )!
+    );
+  }
+
+  const rows = await db
+    .select({
+      action: corporateActions,
+      holding: {
+        id: holdings.id,
+        name: holdings.name,
+        symbol: holdings.symbol,
+      },
+      targetHolding: {
+        id: targetHoldings.id,
+        name: targetHoldings.name,
+        symbol: targetHoldings.symbol,
+      },
+    })
+    .from(corporateActions)
+    .innerJoin(holdings, eq(corporateActions.holdingId, holdings.id))
+    .leftJoin(targetHoldings, eq(corporateActions.targetHoldingId, targetHoldings.id))
+    .where(and(...conditions))
+    .orderBy(desc(corporateActions.date));
+
+  return NextResponse.json(
+    rows.map(({ action, holding, targetHolding }) => ({
+      ...action,
+      holding,
+      targetHolding,
+    }))
+  );
+}, "fetching corporate actions");
+
+/**
+ * POST /api/corporate-actions
+ *
+ * Records a corporate action against a tradeable holding. A symbol change
+ * also renames the holding's symbol.
+ *
+ * Request body:
+ *   - holding_id: (required) UUID of the holding the action happened to
+ *   - type: (required) "symbol_change" | "merger" | "spin_off" | "return_of_capital"
+ *   - date: (required) YYYY-MM-DD effective date
+ *   - new_symbol: (symbol_change only, required) The holding's new symbol
+ *   - target_holding_id: (merger and spin_off, required) Tradeable holding
+ *     that receives the new units, in the same currency
+ *   - ratio: (merger and spin_off, required) New units per unit held
+ *   - cash_per_unit: (merger optional, return_of_capital required) Cash paid
+ *     per unit held, in the holding's currency
+ *   - cost_base_percent: (spin_off required, merger required with cash)
+ *     Share of the cost base carried to the new units, 0-100. Defaults to
+ *     100 for a merger without cash.
+ *   - notes: (optional) Free-text notes
+ *
+ * Validation:
+ *   - Holdings must exist, belong to user, and be tradeable types
+ *   - Units must be held on the date (except for symbol changes)
+ *
+ * Response: 201 with the created CorporateAction object
+ *
+ * Errors:
+ *   - 400 with { errors } for validation failures or invalid JSON
+ *   - 401 if not authenticated
+ */
+export const POST = withAuth(async (request, _context, userId) => {
+  let body: CreateCorporateActionBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const errors: Record<string, string> = {};
+  const type = body.type as CorporateActionType;
+
+  if (!body.holding_id) {
+    errors.holding_id = "Holding ID is required";
+  }
+
+  if (!body.type) {
+    errors.type = "Type is required";
+  } else if (!CORPORATE_ACTION_TYPES.includes(type)) {
+    errors.type = `Type must be one of: ${CORPORATE_ACTION_TYPES.join(", ")}`;
+  }
+
+  if (!body.date) {
+    errors.date = "Date is required";
+  } else if (!/^\d{4}-\d{2}-\d{2}$/.test(body.date) || isNaN(Date.parse(body.date))) {
+    errors.date = "Date must be in YYYY-MM-DD format";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return NextResponse.json({ errors }, { status: 400 });
+  }
+
+  const hasTarget = CORPORATE_ACTIONS_WITH_TARGET.includes(type);
+  const cash = isProvided(body.cash_per_unit) ? Number(body.cash_per_unit) : null;
+  const ratio = isProvided(body.ratio) ? Number(body.ratio) : null;
+  const costBasePercent = isProvided(body.cost_base_percent)
+    ? Number(body.cost_base_percent)
+    : null;
+
+  if (type === "symbol_change" && !body.new_symbol?.trim()) {
+    errors.new_symbol = "New symbol is required";
+  }
+
+  if (hasTarget) {
+    if (!body.target_holding_id) {
+      errors.target_holding_id = "Target holding is required";
+    } else if (body.target_holding_id === body.holding_id) {
+      errors.target_holding_id = "Target holding must be a different holding";
+    }
+
+    if (ratio === null) {
+      errors.ratio = "Ratio is required";
+    } else if (isNaN(ratio) || ratio <= 0) {
+      errors.ratio = "Ratio must be a positive number";
+    }
+  }
+
+  if (type === "merger" || type === "return_of_capital") {
+    if (cash === null) {
+      if (type === "return_of_capital") {
+        errors.cash_per_unit = "Cash per unit is required";
+      }
+    } else if (isNaN(cash) || cash < 0 || (type === "return_of_capital" && cash === 0)) {
+      errors.cash_per_unit =
+        type === "merger"
+          ? "Cash per unit must be a non-negative number"
+          : "Cash per unit must be a positive number";
+    }
+  }
+
+  const needsCostBasePercent = type === "spin_off" || (type === "merger" && !!cash);
+  if (hasTarget) {
+    if (costBasePercent === null) {
+      if (needsCostBasePercent) {
+        errors.cost_base_percent =
+          type === "merger"
+            ? "Cost base percent is required when cash is paid"
+            : "Cost base percent is required";
+      }
+    } else if (isNaN(costBasePercent) || costBasePercent < 0 || costBasePercent > 100) {
+      errors.cost_base_percent = "Cost base percent must be between 0 and 100";
+    } else if (type === "merger" && !cash && costBasePercent !== 100) {
+      errors.cost_base_percent = "A merger without cash carries the whole cost base (100)";
+    }
+  }
+
+  let holding: Holding | undefined;
+  if (!errors.holding_id) {
+    [holding] = await db
+      .select()
+      .from(holdings)
+      .where(
+        and(
+          eq(holdings.id, body.holding_id!),
+          eq(holdings.userId, userId),
+          isNull(holdings.deletedAt)
+        )
+      );
+
+    if (!holding) {
+      errors.holding_id = "Holding not found";
+    } else if (!isTradeable(holding.type)) {
+      errors.holding_id = "Corporate actions can only be recorded for stock, etf, or crypto holdings";
+    } else if (
+      type === "symbol_change" &&
+      body.new_symbol?.trim().toUpperCase() === holding.symbol?.toUpperCase()
+    ) {
+      errors.new_symbol = "New symbol must differ from the current symbol";
+    }
+  }
+
+  if (hasTarget && body.target_holding_id && !errors.target_holding_id) {
+    const [target] = await db
+      .select()
+      .from(holdings)
+      .where(
+        and(
+          eq(holdings.id, body.target_holding_id),
+          eq(holdings.userId, userId),
+          isNull(holdings.deletedAt)
+        )
+      );
+
+    if (!target) {
+      errors.target_holding_id = "Target holding not found";
+    } else if (!isTradeable(target.type)) {
+      errors.target_holding_id = "Target holding must be a stock, etf, or crypto holding";
+    } else if (holding && target.currency !== holding.currency) {
+      errors.target_holding_id = `Target holding must be in ${holding.currency}`;
+    }
+  }
+
+  if (holding && !errors.holding_id && type !== "symbol_change") {
+    const quantity = await calculateQuantityHeld(holding.id, body.date);
+    if (quantity <= 0) {
+      errors.date = "No units were held on this date";
+    }
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return NextResponse.json({ errors }, { status: 400 });
+  }
+
+  const values: NewCorporateAction = {
+    holdingId: holding!.id,
+    type,
+    date: body.date!,
+    targetHoldingId: hasTarget ? body.target_holding_id! : null,
+    ratio: hasTarget ? String(ratio) : null,
+    cashPerUnit:
+      type === "merger" || type === "return_of_capital" ? String(cash ?? 0) : null,
+    costBasePercent: hasTarget ? String(costBasePercent ?? 100) : null,
+    oldSymbol: type === "symbol_change" ? holding!.symbol : null,
+    newSymbol: type === "symbol_change" ? body.new_symbol!.trim().toUpperCase() : null,
+    notes: body.notes || null,
+  };
+
+  const [created] = await db.insert(corporateActions).values(values).returning();
+
+  if (type === "symbol_change") {
+    await db
+      .update(holdings)
+      .set({ symbol: created.newSymbol, updatedAt: new Date() })
+      .where(eq(holdings.id, holding!.id));
+  }
+
+  return NextResponse.json(created, { status: 201 });
+}, "creating corporate action");
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { topUpExchangeRateHistory } from "@/lib/services/exchange-rate-history";
+import { verifyCronRequest } from "@/lib/utils/cron-auth";
+
+/**
+ * POST /api/cron/capture-fx-rates
+ *
+ * Vercel Cron endpoint for the daily exchange rate history.
+ * Backfills any days missed since the last stored rate (or the last
+ * 10 years on first run), then records today's live rate for every
+ * supported currency pair.
+ *
+ * Security: Requires CRON_SECRET header to match environment variable.
+ */
+export async function POST(request: NextRequest) {
+  const authError = verifyCronRequest(request, "capture-fx-rates");
+  if (authError) {
+    return authError;
+  }
+
+  try {
+    const { backfilled, captured } = await topUpExchangeRateHistory();
+
+    console.log(
+      `[capture-fx-rates] Backfilled ${backfilled} rates, captured ${captured.length} pairs`
+    );
+
+    return NextResponse.json({
+      success: true,
+      summary: {
+        backfilled,
+        captured,
+      },
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error(`[capture-fx-rates] Failed: ${errorMessage}`);
+    return NextResponse.json(
+      { success: false, error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/cron/capture-fx-rates
+ *
+ * Health check endpoint for the cron job.
+ * Returns status without fetching any rates.
+ */
+export async function GET() {
+  return NextResponse.json({
+    status: "ok",
+    endpoint: "/api/cron/capture-fx-rates",
+    method: "POST required",
+    description: "Vercel Cron endpoint for daily exchange rate history",
+  });
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { users, alertRules } from "@/lib/db/schema";
+import { eq, and, isNull } from "drizzle-orm";
+import { sendAlertNotifications } from "@/lib/services/alerts";
+import { verifyCronRequest } from "@/lib/utils/cron-auth";
+
+/**
+ * POST /api/cron/evaluate-alerts
+ *
+ * Vercel Cron endpoint for price and portfolio alerts.
+ * Evaluates every active alert rule and emails each user the alerts that
+ * fired. Rules that have already fired are not sent again until their
+ * condition clears (see lib/services/alerts.ts).
+ *
+ * Security: Requires CRON_SECRET header to match environment variable.
+ */
+export async function POST(request: NextRequest) {
+  const authError = verifyCronRequest(request, "evaluate-alerts");
+  if (authError) {
+    return authError;
+  }
+
+  // Users with at least one active alert rule
+  const eligibleUsers = await db
+    .selectDistinct({
+      userId: users.id,
+      email: users.email,
+      name: users.name,
+    })
+    .from(users)
+    .innerJoin(alertRules, eq(alertRules.userId, users.id))
+    .where(and(eq(alertRules.isActive, true), isNull(alertRules.deletedAt)));
+
+  console.log(`[evaluate-alerts] Found ${eligibleUsers.length} users with active alerts`);
+
+  // Track results
+  const results: {
+    userId: string;
+    success: boolean;
+    rulesEvaluated: number;
+    alertsFired: number;
+    error?: string;
+  }[] = [];
+
+  for (const user of eligibleUsers) {
+    try {
+      const result = await sendAlertNotifications({
+        userId: user.userId,
+        email: user.email,
+        userName: user.name ?? undefined,
+      });
+
+      results.push({
+        userId: user.userId,
+        success: result.success,
+        rulesEvaluated: result.rulesEvaluated,
+        alertsFired: result.alertsFired,
+        error: result.error,
+      });
+
+      if (result.success && result.alertsFired > 0) {
+        console.log(
+          `[evaluate-alerts] Sent ${result.alertsFired} alerts to ${user.email}`
+        );
+      } else if (!result.success) {
+        console.error(
+          `[evaluate-alerts] Failed to send to ${user.email}: ${result.error}`
+        );
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      results.push({
+        userId: user.userId,
+        success: false,
+        rulesEvaluated: 0,
+        alertsFired: 0,
+        error: errorMessage,
+      });
+      console.error(
+        `[evaluate-alerts] Error processing ${user.email}: ${errorMessage}`
+      );
+    }
+  }
+
+  // Summary
+  const emailsSent = results.filter((r) => r.success && r.alertsFired > 0).length;
+  const failed = results.filter((r) => !r.success).length;
+
+  return NextResponse.json({
+    success: true,
+    summary: {
+      eligibleUsers: eligibleUsers.length,
+      rulesEvaluated: results.reduce((sum, r) => sum + r.rulesEvaluated, 0),
+      alertsFired: results.reduce((sum, r) => sum + r.alertsFired, 0),
+      emailsSent,
+      failed,
+    },
+  });
+}
+
+/**
+ * GET /api/cron/evaluate-alerts
+ *
+ * Health check endpoint for the cron job.
+ * Returns status without evaluating any alerts.
+ */
+export async function GET() {
+  return NextResponse.json({
+    status: "ok",
+    endpoint: "/api/cron/evaluate-alerts",
+    method: "POST required",
+    description: "Vercel Cron endpoint for price and portfolio alerts",
+  });
+}
@@ -1,9 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
-import { timingSafeEqual } from "crypto";
 import { db } from "@/lib/db";
 import { users, userPreferences } from "@/lib/db/schema";
 import { eq, and, or, isNull, lt } from "drizzle-orm";
 import { sendCheckInReminder } from "@/lib/services/reminders";
+import { verifyCronRequest } from "@/lib/utils/cron-auth";
 
 /**
  * Get the first day of the current month as a Date object.
@@ -24,33 +24,9 @@ function getFirstOfCurrentMonth(): Date {
  * Security: Requires CRON_SECRET header to match environment variable.
  */
 export async function POST(request: NextRequest) {
-  // Verify CRON_SECRET for security
-  const cronSecret = process.env.CRON_SECRET;
-  const authHeader = request.headers.get("authorization");
-
-  if (!cronSecret) {
-    console.error("[send-reminders] CRON_SECRET not configured");
-    return NextResponse.json(
-      { error: "Cron endpoint not configured" },
-      { status: 500 }
-    );
-  }
-
-  // Vercel sends the secret in Authorization header as "Bearer <secret>"
-  const providedSecret = authHeader?.startsWith("Bearer ")
-    ? authHeader.slice(7)
-    : "";
-
-  // Use timing-safe comparison to prevent secret guessing via response timing
-  const secretBuffer = Buffer.from(cronSecret);
-  const providedBuffer = Buffer.from(providedSecret);
-  const isValid =
-    secretBuffer.length === providedBuffer.length &&
-    timingSafeEqual(secretBuffer, providedBuffer);
-
-  if (!isValid) {
-    console.error("[send-reminders] Invalid authorization");
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const authError = verifyCronRequest(request, "send-reminders");
+  if (authError) {
+    return authError;
   }
 
   // Get current day of month (1-31)
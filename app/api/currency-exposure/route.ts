@@ -2,17 +2,16 @@ import { NextResponse } from "next/server";
 import { calculateCurrencyExposure } from "@/lib/calculations/net-worth";
 import type { Currency } from "@/lib/utils/currency";
 import { withAuth } from "@/lib/utils/with-auth";
-
-const VALID_CURRENCIES = ["AUD", "NZD", "USD"] as const;
+import { isEnabledCurrency } from "@/lib/constants";
 
 /**
  * GET /api/currency-exposure
  *
  * Returns the currency exposure breakdown for the authenticated user.
- * Shows how assets are distributed across different currencies (AUD, NZD, USD).
+ * Shows how assets are distributed across the currencies they are held in.
  *
  * Query parameters:
- *   - displayCurrency: Currency for display values (AUD, NZD, USD). Defaults to AUD.
+ *   - displayCurrency: Currency for display values (any enabled currency). Defaults to AUD.
  *
  * Response:
  *   - exposure: Array of currency exposure items with value, valueNative, percentage, count
@@ -28,8 +27,8 @@ export const GET = withAuth(async (request, _context, userId) => {
   const displayCurrencyParam = searchParams.get("displayCurrency");
   let displayCurrency: Currency = "AUD";
   if (displayCurrencyParam) {
-    if (VALID_CURRENCIES.includes(displayCurrencyParam as Currency)) {
-      displayCurrency = displayCurrencyParam as Currency;
+    if (isEnabledCurrency(displayCurrencyParam)) {
+      displayCurrency = displayCurrencyParam;
     }
     // Invalid currency silently falls back to AUD
   }
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { getDebtPayoffComparison } from "@/lib/calculations/debt";
+import { withAuth } from "@/lib/utils/with-auth";
+import { DEFAULT_EXTRA_REPAYMENTS, MAX_EXTRA_REPAYMENTS } from "@/lib/constants";
+
+/**
+ * GET /api/debt/payoff
+ *
+ * Compares the avalanche and snowball strategies for repaying all of the
+ * authenticated user's debt holdings with extra monthly repayments.
+ *
+ * Query parameters:
+ *   - extra: Comma-separated extra monthly amounts in AUD (default:
+ *     250,500,1000; at most 5)
+ *
+ * Response (amounts in AUD):
+ *   - debts: { id, name, balance, annualRate, monthlyRepayment, offsetBalance }
+ *   - excluded: { id, name, reason } for debts without a rate or repayment
+ *   - baseline: Plan with scheduled repayments only
+ *   - plans: One plan per strategy per extra amount (including 0), each
+ *     { strategy, extraMonthly, debtFreeDate, months, totalInterest,
+ *     interestSaved, monthsSaved, debts: { id, name, payoffDate, months,
+ *     interest } }
+ *   - calculatedAt: Timestamp when calculation was performed
+ *
+ * Errors:
+ *   - 400 if an extra amount is not a positive number, or too many are given
+ *   - 401 if not authenticated
+ */
+export const GET = withAuth(async (request, _context, userId) => {
+  const extraParam = request.nextUrl.searchParams.get("extra");
+
+  let extraAmounts = DEFAULT_EXTRA_REPAYMENTS;
+  if (extraParam) {
+    extraAmounts = extraParam.split(",").map((value) => Number(value.trim()));
+    if (extraAmounts.some((amount) => !Number.isFinite(amount) || amount <= 0)) {
+      return NextResponse.json(
+        { error: "Invalid extra parameter. Must be positive amounts separated by commas." },
+        { status: 400 }
+      );
+    }
+    if (extraAmounts.length > MAX_EXTRA_REPAYMENTS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_EXTRA_REPAYMENTS} extra amounts can be compared` },
+        { status: 400 }
+      );
+    }
+  }
+
+  const amounts = [...new Set(extraAmounts)].sort((a, b) => a - b);
+  const comparison = await getDebtPayoffComparison(userId, amounts);
+
+  return NextResponse.json({
+    ...comparison,
+    calculatedAt: comparison.calculatedAt.toISOString(),
+  });
+}, "planning debt payoff");
@@ -6,15 +6,15 @@ import {
   DEFAULT_EXCHANGE_RATE_TTL_MINUTES,
 } from "@/lib/services/exchange-rates";
 import { withAuth } from "@/lib/utils/with-auth";
+import { BASE_CURRENCY, ENABLED_CURRENCIES } from "@/lib/constants";
 
 /**
- * Currency pairs to refresh when `?refresh=true` is requested.
- * These are the primary pairs we need for display in AUD.
+ * Currency pairs to refresh when `?refresh=true` is requested: each enabled
+ * currency into AUD, which is all the client needs to convert between them.
  */
-const PAIRS_TO_REFRESH: Array<[string, string]> = [
-  ["USD", "AUD"],
-  ["NZD", "AUD"],
-];
+const PAIRS_TO_REFRESH: Array<[string, string]> = ENABLED_CURRENCIES.filter(
+  (c) => c !== BASE_CURRENCY
+).map((c) => [c, BASE_CURRENCY]);
 
 /**
  * Response structure for exchange rates endpoint.
@@ -28,7 +28,8 @@ interface ExchangeRatesResponse {
 /**
  * GET /api/exchange-rates
  *
- * Returns all cached exchange rates.
+ * Returns all cached exchange rates, fetching any enabled currency's rate
+ * into AUD that is not cached yet.
  * Supports `?refresh=true` query parameter to force refresh.
  *
  * @returns { rates: { 'USD/AUD': 1.53, 'NZD/AUD': 0.92 }, fetchedAt, isStale }
@@ -38,21 +39,28 @@ export const GET = withAuth(async (request, _context, _userId) => {
   const searchParams = request.nextUrl.searchParams;
   const shouldRefresh = searchParams.get("refresh") === "true";
 
-  if (shouldRefresh) {
-    // Force refresh all pairs
+  // Refresh all pairs if asked; otherwise only fetch pairs with no cached
+  // rate yet (e.g. a newly enabled currency)
+  let cachedRates = await getAllCachedRates();
+  const pairsToFetch = shouldRefresh
+    ? PAIRS_TO_REFRESH
+    : PAIRS_TO_REFRESH.filter(
+        ([from, to]) =>
+          !cachedRates.some((r) => r.fromCurrency === from && r.toCurrency === to)
+      );
+
+  if (pairsToFetch.length > 0) {
     try {
       await Promise.all(
-        PAIRS_TO_REFRESH.map(([from, to]) => getExchangeRate(from, to))
+        pairsToFetch.map(([from, to]) => getExchangeRate(from, to))
       );
     } catch (error) {
       // Log error but continue - will return stale data if available
       console.error("Error refreshing exchange rates:", error);
     }
+    cachedRates = await getAllCachedRates();
   }
 
-  // Get all cached rates
-  const cachedRates = await getAllCachedRates();
-
   // Convert to response format: { 'USD/AUD': 1.53, ... }
   const rates: Record<string, number> = {};
   let oldestFetchedAt: Date | null = null;
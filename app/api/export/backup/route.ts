@@ -34,6 +34,12 @@ export const GET = withAuth(async (_request, _context, userId) => {
       fees: transactions.fees,
       currency: transactions.currency,
       notes: transactions.notes,
+      lotSelections: transactions.lotSelections,
+      frankingPercent: transactions.frankingPercent,
+      frankingCredit: transactions.frankingCredit,
+      withholdingTax: transactions.withholdingTax,
+      isDrp: transactions.isDrp,
+      dividendTransactionId: transactions.dividendTransactionId,
       createdAt: transactions.createdAt,
       updatedAt: transactions.updatedAt,
       deletedAt: transactions.deletedAt,
@@ -122,6 +128,11 @@ export const GET = withAuth(async (_request, _context, userId) => {
       date: contributions.date,
       employerContrib: contributions.employerContrib,
       employeeContrib: contributions.employeeContrib,
+      nonConcessionalContrib: contributions.nonConcessionalContrib,
+      adminFees: contributions.adminFees,
+      investmentFees: contributions.investmentFees,
+      insurancePremiums: contributions.insurancePremiums,
+      contributionsTax: contributions.contributionsTax,
       notes: contributions.notes,
       createdAt: contributions.createdAt,
       updatedAt: contributions.updatedAt,
@@ -33,6 +33,12 @@ export const GET = withAuth(async (request, _context, userId) => {
       fees: transactions.fees,
       currency: transactions.currency,
       notes: transactions.notes,
+      lotSelections: transactions.lotSelections,
+      frankingPercent: transactions.frankingPercent,
+      frankingCredit: transactions.frankingCredit,
+      withholdingTax: transactions.withholdingTax,
+      isDrp: transactions.isDrp,
+      dividendTransactionId: transactions.dividendTransactionId,
       createdAt: transactions.createdAt,
       updatedAt: transactions.updatedAt,
       deletedAt: transactions.deletedAt,
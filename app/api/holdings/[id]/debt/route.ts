@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { holdings } from "@/lib/db/schema";
+import { eq, and, isNull } from "drizzle-orm";
+import { calculateDebtSummary } from "@/lib/calculations/debt";
+import { withAuth } from "@/lib/utils/with-auth";
+
+/**
+ * GET /api/holdings/:id/debt
+ *
+ * Returns the loan details, remaining amortisation schedule and actual vs
+ * scheduled balances for a debt holding.
+ *
+ * Response (amounts in the holding's currency):
+ *   - balance, balanceDate: Latest balance owing (or null)
+ *   - terms: { annualRate, repayment, frequency, repaymentSource }, or null
+ *     without an interest rate and either a repayment or a running term
+ *   - offset: Linked offset account and its latest balance (or null)
+ *   - termEndDate: End of the loan term (or null)
+ *   - monthsAheadOfTerm: Months the schedule pays off before the term ends
+ *   - schedule: { repayments, payoffDate, totalInterest, totalRepaid, years },
+ *     or null without terms
+ *   - history: { date, actual, scheduled, difference } per recorded balance
+ *   - calculatedAt: Timestamp when calculation was performed
+ *
+ * Errors:
+ *   - 400 if the holding is not a debt
+ *   - 401 if not authenticated
+ *   - 404 if holding not found or doesn't belong to user
+ */
+export const GET = withAuth(async (_request, context, userId) => {
+  const { id } = await context.params;
+
+  const [holding] = await db
+    .select()
+    .from(holdings)
+    .where(
+      and(
+        eq(holdings.id, id),
+        eq(holdings.userId, userId),
+        isNull(holdings.deletedAt)
+      )
+    );
+
+  if (!holding) {
+    return NextResponse.json({ error: "Holding not found" }, { status: 404 });
+  }
+
+  if (holding.type !== "debt") {
+    return NextResponse.json(
+      { error: "Loan schedules are only available for debt holdings" },
+      { status: 400 }
+    );
+  }
+
+  const summary = await calculateDebtSummary(holding, userId);
+
+  return NextResponse.json({
+    ...summary,
+    calculatedAt: summary.calculatedAt.toISOString(),
+  });
+}, "calculating debt schedule");
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { holdings } from "@/lib/db/schema";
+import { eq, and, isNull } from "drizzle-orm";
+import { getHoldingDividendSummary } from "@/lib/calculations/dividends";
+import { withAuth } from "@/lib/utils/with-auth";
+import { isTradeable } from "@/lib/constants";
+
+/**
+ * GET /api/holdings/:id/dividends
+ *
+ * Returns dividend history and trailing yield for a tradeable holding.
+ *
+ * Response:
+ *   - events: Dividend payments, newest first
+ *   - byFinancialYear: Totals per financial year (AUD), newest first
+ *   - trailing12Months: Totals for the last 12 months (AUD)
+ *   - marketValue: Current market value in the holding's currency (or null)
+ *   - trailingYield: Last 12 months' cash dividends / market value (%)
+ *   - grossedUpYield: Last 12 months' dividends plus franking / market value (%)
+ *   - calculatedAt: Timestamp when calculation was performed
+ *
+ * Errors:
+ *   - 400 if the holding is not a tradeable type
+ *   - 401 if not authenticated
+ *   - 404 if holding not found or doesn't belong to user
+ */
+export const GET = withAuth(async (_request, context, userId) => {
+  const { id } = await context.params;
+
+  const [holding] = await db
+    .select()
+    .from(holdings)
+    .where(
+      and(
+        eq(holdings.id, id),
+        eq(holdings.userId, userId),
+        isNull(holdings.deletedAt)
+      )
+    );
+
+  if (!holding) {
+    return NextResponse.json({ error: "Holding not found" }, { status: 404 });
+  }
+
+  if (!isTradeable(holding.type)) {
+    return NextResponse.json(
+      { error: "Dividends are only tracked for stock, etf, and crypto holdings" },
+      { status: 400 }
+    );
+  }
+
+  const summary = await getHoldingDividendSummary(holding);
+
+  return NextResponse.json({
+    ...summary,
+    calculatedAt: summary.calculatedAt.toISOString(),
+  });
+}, "fetching holding dividends");
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { holdings } from "@/lib/db/schema";
+import { eq, and, isNull } from "drizzle-orm";
+import { getOpenLots } from "@/lib/calculations/cost-basis";
+import { withAuth } from "@/lib/utils/with-auth";
+
+/**
+ * GET /api/holdings/:id/lots
+ *
+ * Returns the purchase lots that still have units held, matched using the
+ * holding's cost basis method. Used to pick lots for specific-lot SELLs.
+ *
+ * Query parameters:
+ *   - as_of: Optional YYYY-MM-DD date; transactions after it are ignored
+ *     (so a back-dated SELL sees the lots open on its trade date)
+ *
+ * Response:
+ *   { costBasisMethod, lots: [{ transactionId, date, quantity, unitPrice,
+ *     fees, remainingQuantity }] }
+ *
+ * Errors:
+ *   - 400 if as_of is not a YYYY-MM-DD date
+ *   - 401 if not authenticated
+ *   - 404 if holding not found or doesn't belong to user
+ */
+export const GET = withAuth(async (request, context, userId) => {
+  const { id } = await context.params;
+  const asOf = request.nextUrl.searchParams.get("as_of") ?? undefined;
+
+  if (asOf && !/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+    return NextResponse.json(
+      { error: "as_of must be in YYYY-MM-DD format" },
+      { status: 400 }
+    );
+  }
+
+  // Verify the holding exists and belongs to the user
+  const [holding] = await db
+    .select({ id: holdings.id, costBasisMethod: holdings.costBasisMethod })
+    .from(holdings)
+    .where(
+      and(
+        eq(holdings.id, id),
+        eq(holdings.userId, userId),
+        isNull(holdings.deletedAt)
+      )
+    );
+
+  if (!holding) {
+    return NextResponse.json({ error: "Holding not found" }, { status: 404 });
+  }
+
+  const lots = await getOpenLots(id, holding.costBasisMethod, asOf);
+
+  return NextResponse.json({ costBasisMethod: holding.costBasisMethod, lots });
+}, "fetching holding lots");
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { holdings } from "@/lib/db/schema";
+import { eq, and, isNull } from "drizzle-orm";
+import { deleteManualPrice } from "@/lib/services/manual-prices";
+import { withAuth } from "@/lib/utils/with-auth";
+import { isTradeable, resolvePriceProvider } from "@/lib/constants";
+
+/**
+ * DELETE /api/holdings/:id/prices/:date
+ *
+ * Deletes the price entered for a manually priced holding on a date. The
+ * latest remaining price becomes the holding's current price.
+ *
+ * Response: { success: true }
+ *
+ * Errors:
+ *   - 400 if the holding does not use manual prices
+ *   - 401 if not authenticated
+ *   - 404 if holding not found, or no price was entered on the date
+ */
+export const DELETE = withAuth(async (_request, context, userId) => {
+  const { id, date } = await context.params;
+
+  const [holding] = await db
+    .select()
+    .from(holdings)
+    .where(
+      and(
+        eq(holdings.id, id),
+        eq(holdings.userId, userId),
+        isNull(holdings.deletedAt)
+      )
+    );
+
+  if (!holding) {
+    return NextResponse.json({ error: "Holding not found" }, { status: 404 });
+  }
+
+  if (!isTradeable(holding.type) || resolvePriceProvider(holding) !== "manual") {
+    return NextResponse.json(
+      { error: "Prices can only be entered for holdings using manual prices" },
+      { status: 400 }
+    );
+  }
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !(await deleteManualPrice(holding, date))) {
+    return NextResponse.json({ error: "Price not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ success: true });
+}, "deleting manual price");
@@ -0,0 +1,145 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { holdings } from "@/lib/db/schema";
+import { eq, and, isNull } from "drizzle-orm";
+import { getManualPrices, saveManualPrice } from "@/lib/services/manual-prices";
+import { withAuth } from "@/lib/utils/with-auth";
+import {
+  ENABLED_CURRENCIES,
+  isEnabledCurrency,
+  isTradeable,
+  resolvePriceProvider,
+  type Currency,
+} from "@/lib/constants";
+
+interface ManualPriceBody {
+  date?: string;
+  price?: number;
+  currency?: string;
+}
+
+/**
+ * GET /api/holdings/:id/prices
+ *
+ * Returns the prices entered for a manually priced holding.
+ *
+ * Response: Array of { date, close, currency }, newest first
+ *
+ * Errors:
+ *   - 400 if the holding does not use manual prices
+ *   - 401 if not authenticated
+ *   - 404 if holding not found or doesn't belong to user
+ */
+export const GET = withAuth(async (_request, context, userId) => {
+  const { id } = await context.params;
+
+  const [holding] = await db
+    .select()
+    .from(holdings)
+    .where(
+      and(
+        eq(holdings.id, id),
+        eq(holdings.userId, userId),
+        isNull(holdings.deletedAt)
+      )
+    );
+
+  if (!holding) {
+    return NextResponse.json({ error: "Holding not found" }, { status: 404 });
+  }
+
+  if (!isTradeable(holding.type) || resolvePriceProvider(holding) !== "manual") {
+    return NextResponse.json(
+      { error: "Prices can only be entered for holdings using manual prices" },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json(await getManualPrices(holding));
+}, "fetching manual prices");
+
+/**
+ * POST /api/holdings/:id/prices
+ *
+ * Records the price of a manually priced holding on a date, replacing any
+ * price already entered for that date. The latest price becomes the
+ * holding's current price.
+ *
+ * Request body:
+ *   - date: (required) Date the price applies to (YYYY-MM-DD), not in the future
+ *   - price: (required) Unit price, greater than 0
+ *   - currency: (optional) An enabled currency code (default: the holding's)
+ *
+ * Response: 201 with the holding's prices, as returned by GET
+ *
+ * Errors:
+ *   - 400 with { errors } object for validation failures
+ *   - 400 if the holding does not use manual prices
+ *   - 401 if not authenticated
+ *   - 404 if holding not found or doesn't belong to user
+ */
+export const POST = withAuth(async (request, context, userId) => {
+  const { id } = await context.params;
+
+  const [holding] = await db
+    .select()
+    .from(holdings)
+    .where(
+      and(
+        eq(holdings.id, id),
+        eq(holdings.userId, userId),
+        isNull(holdings.deletedAt)
+      )
+    );
+
+  if (!holding) {
+    return NextResponse.json({ error: "Holding not found" }, { status: 404 });
+  }
+
+  if (!isTradeable(holding.type) || resolvePriceProvider(holding) !== "manual") {
+    return NextResponse.json(
+      { error: "Prices can only be entered for holdings using manual prices" },
+      { status: 400 }
+    );
+  }
+
+  let body: ManualPriceBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const errors: Record<string, string> = {};
+
+  if (!body.date) {
+    errors.date = "Date is required";
+  } else if (!/^\d{4}-\d{2}-\d{2}$/.test(body.date) || isNaN(Date.parse(body.date))) {
+    errors.date = "Date must be in YYYY-MM-DD format";
+  } else if (new Date(body.date) > new Date()) {
+    errors.date = "Date cannot be in the future";
+  }
+
+  if (typeof body.price !== "number" || !Number.isFinite(body.price) || body.price <= 0) {
+    errors.price = "Price must be a number greater than 0";
+  }
+
+  if (body.currency !== undefined && !isEnabledCurrency(body.currency)) {
+    errors.currency = `Currency must be one of: ${ENABLED_CURRENCIES.join(", ")}`;
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return NextResponse.json({ errors }, { status: 400 });
+  }
+
+  await saveManualPrice(holding, {
+    date: body.date!,
+    price: body.price!,
+    currency: (body.currency as Currency | undefined) ?? holding.currency,
+  });
+
+  return NextResponse.json(await getManualPrices(holding), { status: 201 });
+}, "saving manual price");
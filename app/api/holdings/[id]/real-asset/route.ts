@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { holdings } from "@/lib/db/schema";
+import { eq, and, isNull } from "drizzle-orm";
+import { calculateRealAssetSummary } from "@/lib/calculations/real-assets";
+import { withAuth } from "@/lib/utils/with-auth";
+import { isRealAsset } from "@/lib/constants";
+
+/**
+ * GET /api/holdings/:id/real-asset
+ *
+ * Returns valuation, capital growth, equity and LVR for a property or
+ * vehicle holding, plus a depreciation schedule for vehicles.
+ *
+ * Response (amounts in the holding's currency):
+ *   - currentValue: Latest valuation, or an estimate when none is entered
+ *   - valuationSource: "valuation", "depreciation" or "purchase_price"
+ *   - valuationDate: Date of the latest valuation (or null)
+ *   - purchasePrice, purchaseCosts, costBase: Purchase details
+ *   - capitalGrowth, capitalGrowthPercent, annualisedGrowth: Growth vs cost base
+ *   - linkedDebt: Linked loan and its latest balance (or null)
+ *   - equity: Current value - linked debt balance
+ *   - lvr: Linked debt balance / current value (%)
+ *   - depreciationSchedule: Year-by-year schedule (vehicles only)
+ *   - calculatedAt: Timestamp when calculation was performed
+ *
+ * Errors:
+ *   - 400 if the holding is not a property or vehicle
+ *   - 401 if not authenticated
+ *   - 404 if holding not found or doesn't belong to user
+ */
+export const GET = withAuth(async (_request, context, userId) => {
+  const { id } = await context.params;
+
+  const [holding] = await db
+    .select()
+    .from(holdings)
+    .where(
+      and(
+        eq(holdings.id, id),
+        eq(holdings.userId, userId),
+        isNull(holdings.deletedAt)
+      )
+    );
+
+  if (!holding) {
+    return NextResponse.json({ error: "Holding not found" }, { status: 404 });
+  }
+
+  if (!isRealAsset(holding.type)) {
+    return NextResponse.json(
+      { error: "Valuation summaries are only available for property and vehicle holdings" },
+      { status: 400 }
+    );
+  }
+
+  const summary = await calculateRealAssetSummary(holding, userId);
+
+  return NextResponse.json({
+    ...summary,
+    calculatedAt: summary.calculatedAt.toISOString(),
+  });
+}, "fetching real asset summary");
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { holdings } from "@/lib/db/schema";
+import { eq, and, isNull } from "drizzle-orm";
+import { getHoldingRisk } from "@/lib/calculations/risk";
+import { withAuth } from "@/lib/utils/with-auth";
+import { isTradeable } from "@/lib/constants";
+
+/**
+ * GET /api/holdings/:id/risk
+ *
+ * Returns volatility, maximum drawdown and a Sharpe-like ratio for a
+ * tradeable holding from its daily closes, and its correlation with each of
+ * the user's other held tradeable holdings.
+ *
+ * Response:
+ *   - risk: Metrics with marketValue (AUD) and weight (%), or null if the
+ *     holding is not held or has no price history
+ *   - correlations: { holdingId, name, symbol, correlation }, highest first
+ *   - calculatedAt: Timestamp when calculation was performed
+ *
+ * Errors:
+ *   - 400 if the holding is not a tradeable type
+ *   - 401 if not authenticated
+ *   - 404 if holding not found or doesn't belong to user
+ */
+export const GET = withAuth(async (_request, context, userId) => {
+  const { id } = await context.params;
+
+  const [holding] = await db
+    .select()
+    .from(holdings)
+    .where(
+      and(
+        eq(holdings.id, id),
+        eq(holdings.userId, userId),
+        isNull(holdings.deletedAt)
+      )
+    );
+
+  if (!holding) {
+    return NextResponse.json({ error: "Holding not found" }, { status: 404 });
+  }
+
+  if (!isTradeable(holding.type)) {
+    return NextResponse.json(
+      { error: "Risk is only calculated for stock, etf, and crypto holdings" },
+      { status: 400 }
+    );
+  }
+
+  const report = await getHoldingRisk(id, userId);
+
+  return NextResponse.json({
+    ...report,
+    calculatedAt: report.calculatedAt.toISOString(),
+  });
+}, "calculating holding risk");
@@ -2,23 +2,49 @@ import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { holdings, snapshots } from "@/lib/db/schema";
 import { eq, and, isNull, desc } from "drizzle-orm";
-import { calculateCostBasis } from "@/lib/calculations/cost-basis";
+import { calculateCostBasis, calculateCostBasisAud } from "@/lib/calculations/cost-basis";
 import { withAuth } from "@/lib/utils/with-auth";
 import {
-  CURRENCIES,
+  validateRealAssetFields,
+  toRealAssetColumns,
+  type RealAssetFieldsBody,
+} from "@/lib/utils/real-asset-fields";
+import {
+  validatePriceSourceFields,
+  toPriceSourceColumns,
+  type PriceSourceFieldsBody,
+} from "@/lib/utils/price-source-fields";
+import {
+  validateSettlementFields,
+  toSettlementColumns,
+  type SettlementFieldsBody,
+} from "@/lib/utils/settlement-fields";
+import {
+  validateDebtFields,
+  toDebtColumns,
+  type DebtFieldsBody,
+} from "@/lib/utils/debt-fields";
+import { deletePriceHistory, getPriceSymbol } from "@/lib/services/price-history";
+import { deleteCachedPrice } from "@/lib/services/price-cache";
+import {
+  ENABLED_CURRENCIES,
   EXCHANGES,
   TRADEABLE_TYPES,
   SNAPSHOT_TYPES,
+  COST_BASIS_METHODS,
+  type CostBasisMethod,
   type Currency,
   type HoldingWithData,
+  isEnabledCurrency,
 } from "@/lib/constants";
 
-interface UpdateHoldingBody {
+interface UpdateHoldingBody extends RealAssetFieldsBody, PriceSourceFieldsBody, SettlementFieldsBody, DebtFieldsBody {
   name?: string;
   symbol?: string;
   currency?: string;
   exchange?: string;
   isDormant?: boolean;
+  costBasisMethod?: string;
   notes?: string;
 }
 
@@ -28,8 +54,8 @@ interface UpdateHoldingBody {
  * Returns a single holding by ID, scoped to the authenticated user.
  *
  * Query parameters:
- *   - include_cost_basis: If "true", returns quantity, costBasis, avgCost
- *     for tradeable holdings (stock, etf, crypto)
+ *   - include_cost_basis: If "true", returns quantity, costBasis, costBasisAud,
+ *     avgCost for tradeable holdings (stock, etf, crypto)
  *   - include_latest_snapshot: If "true", returns the most recent snapshot
  *     for snapshot-type holdings (super, cash, debt)
  *
@@ -72,14 +98,16 @@ export const GET = withAuth(async (request, context, userId) => {
 
   let quantity: number | null = null;
   let costBasis: number | null = null;
+  let costBasisAud: number | null = null;
   let avgCost: number | null = null;
   let latestSnapshot: HoldingWithData["latestSnapshot"] = null;
 
   // Calculate cost basis for tradeable types if requested
   if (includeCostBasis && isTradeable) {
-    const costBasisResult = await calculateCostBasis(holding.id);
+    const costBasisResult = await calculateCostBasis(holding.id, holding.costBasisMethod);
     quantity = costBasisResult.quantity;
     costBasis = costBasisResult.costBasis;
+    costBasisAud = await calculateCostBasisAud(costBasisResult.lots, holding.currency);
     avgCost = costBasisResult.quantity > 0
       ? costBasisResult.costBasis / costBasisResult.quantity
       : null;
@@ -112,6 +140,7 @@ export const GET = withAuth(async (request, context, userId) => {
     ...holding,
     quantity,
     costBasis,
+    costBasisAud,
     avgCost,
     latestSnapshot,
   };
@@ -127,9 +156,24 @@ export const GET = withAuth(async (request, context, userId) => {
  * Request body (all optional):
  *   - name: New display name
  *   - symbol: New ticker symbol
- *   - currency: "AUD" | "NZD" | "USD"
+ *   - currency: An enabled currency code (e.g. "AUD", "USD")
  *   - exchange: "ASX" | "NZX" | "NYSE" | "NASDAQ" (or null to clear)
  *   - isDormant: Boolean
+ *   - costBasisMethod: "fifo" | "average" | "hifo" | "specific_lot"
+ *     (tradeable holdings only)
+ *   - purchasePrice, purchaseCosts, purchaseDate, linkedDebtId: Purchase
+ *     details and linked loan (property/vehicle only, null to clear)
+ *   - depreciationMethod, depreciationRate: (vehicle only, null to clear)
+ *   - priceProvider: "yahoo" | "coingecko" | "manual" | "derived" (tradeable
+ *     holdings only, null for the default)
+ *   - priceSourceSymbol, priceRatio: Derived price settings. Changing them
+ *     clears the holding's derived price history so it is rebuilt.
+ *   - settlementHoldingId: Cash holding in the same currency that trades
+ *     settle to (tradeable holdings only, null to unlink)
+ *   - interestRate, repaymentAmount, repaymentFrequency, loanStartDate,
+ *     loanTermMonths: Loan details (debt only, null to clear)
+ *   - offsetHoldingId: Cash holding in the same currency that offsets the
+ *     interest charged (debt only, null to unlink)
  *   - notes: Free-text notes (or null to clear)
  *
  * Response: Updated Holding object
@@ -175,8 +219,8 @@ export const PATCH = withAuth(async (request, context, userId) => {
     errors.name = "Name cannot be empty";
   }
 
-  if (body.currency !== undefined && !CURRENCIES.includes(body.currency as Currency)) {
-    errors.currency = `Currency must be one of: ${CURRENCIES.join(", ")}`;
+  if (body.currency !== undefined && !isEnabledCurrency(body.currency)) {
+    errors.currency = `Currency must be one of: ${ENABLED_CURRENCIES.join(", ")}`;
   }
 
   if (body.exchange !== undefined && body.exchange !== null && body.exchange !== "") {
@@ -185,6 +229,31 @@ export const PATCH = withAuth(async (request, context, userId) => {
     }
   }
 
+  if (body.costBasisMethod !== undefined) {
+    if (!COST_BASIS_METHODS.includes(body.costBasisMethod as CostBasisMethod)) {
+      errors.costBasisMethod = `Cost basis method must be one of: ${COST_BASIS_METHODS.join(", ")}`;
+    } else if (!TRADEABLE_TYPES.includes(existing[0].type as (typeof TRADEABLE_TYPES)[number])) {
+      errors.costBasisMethod = "Cost basis method only applies to stock, etf, and crypto holdings";
+    }
+  }
+
+  await validateRealAssetFields(body, existing[0].type, userId, errors);
+  validatePriceSourceFields(body, existing[0].type, errors, existing[0]);
+  await validateSettlementFields(
+    body,
+    existing[0].type,
+    body.currency ?? existing[0].currency,
+    userId,
+    errors
+  );
+  await validateDebtFields(
+    body,
+    existing[0].type,
+    body.currency ?? existing[0].currency,
+    userId,
+    errors
+  );
+
   // Return validation errors if any
   if (Object.keys(errors).length > 0) {
     return NextResponse.json({ errors }, { status: 400 });
@@ -197,9 +266,15 @@ export const PATCH = withAuth(async (request, context, userId) => {
     currency: Currency;
     exchange: string | null;
     isDormant: boolean;
+    costBasisMethod: CostBasisMethod;
     notes: string | null;
     updatedAt: Date;
-  }> = {
+  }> & ReturnType<typeof toRealAssetColumns> & ReturnType<typeof toPriceSourceColumns> &
+    ReturnType<typeof toSettlementColumns> & ReturnType<typeof toDebtColumns> = {
+    ...toRealAssetColumns(body),
+    ...toPriceSourceColumns(body),
+    ...toSettlementColumns(body),
+    ...toDebtColumns(body),
     updatedAt: new Date(),
   };
 
@@ -218,6 +293,9 @@ export const PATCH = withAuth(async (request, context, userId) => {
   if (body.isDormant !== undefined) {
     updateData.isDormant = body.isDormant;
   }
+  if (body.costBasisMethod !== undefined) {
+    updateData.costBasisMethod = body.costBasisMethod as CostBasisMethod;
+  }
   if (body.notes !== undefined) {
     updateData.notes = body.notes?.trim() || null;
   }
@@ -233,6 +311,19 @@ export const PATCH = withAuth(async (request, context, userId) => {
     )
     .returning();
 
+  // Derived prices were calculated with the old settings, so drop them
+  const previousSymbol = getPriceSymbol(existing[0]);
+  if (
+    previousSymbol &&
+    existing[0].priceProvider === "derived" &&
+    (updated.priceProvider !== "derived" ||
+      updated.priceSourceSymbol !== existing[0].priceSourceSymbol ||
+      Number(updated.priceRatio) !== Number(existing[0].priceRatio))
+  ) {
+    await deletePriceHistory(previousSymbol);
+    await deleteCachedPrice(previousSymbol);
+  }
+
   return NextResponse.json(updated);
 }, "updating holding");
 
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { holdings } from "@/lib/db/schema";
+import { eq, and, isNull } from "drizzle-orm";
+import { getSettlementLedger } from "@/lib/calculations/settlement";
+import { withAuth } from "@/lib/utils/with-auth";
+
+/**
+ * GET /api/holdings/:id/settlement
+ *
+ * Returns the settlement ledger for a cash holding: its latest snapshot and
+ * the cash movements from trades on linked holdings since then.
+ *
+ * Response (amounts in the holding's currency):
+ *   - linkedHoldings: [{ id, name, symbol }] settling to this holding
+ *   - snapshot: { date, balance } opening balance (or null)
+ *   - entries: [{ transactionId, holdingId, holdingName, holdingSymbol,
+ *     date, action, amount, balance }] oldest first; debits are negative
+ *   - balance: Ledger balance after the last entry (or null without a snapshot)
+ *
+ * Errors:
+ *   - 400 if the holding is not a cash holding
+ *   - 401 if not authenticated
+ *   - 404 if holding not found or doesn't belong to user
+ */
+export const GET = withAuth(async (_request, context, userId) => {
+  const { id } = await context.params;
+
+  const [holding] = await db
+    .select()
+    .from(holdings)
+    .where(
+      and(
+        eq(holdings.id, id),
+        eq(holdings.userId, userId),
+        isNull(holdings.deletedAt)
+      )
+    );
+
+  if (!holding) {
+    return NextResponse.json({ error: "Holding not found" }, { status: 404 });
+  }
+
+  if (holding.type !== "cash") {
+    return NextResponse.json(
+      { error: "Settlement ledgers are only available for cash holdings" },
+      { status: 400 }
+    );
+  }
+
+  const [linkedHoldings, ledger] = await Promise.all([
+    db
+      .select({ id: holdings.id, name: holdings.name, symbol: holdings.symbol })
+      .from(holdings)
+      .where(
+        and(
+          eq(holdings.settlementHoldingId, id),
+          eq(holdings.userId, userId),
+          isNull(holdings.deletedAt)
+        )
+      ),
+    getSettlementLedger(id, userId),
+  ]);
+
+  return NextResponse.json({ linkedHoldings, ...ledger });
+}, "fetching settlement ledger");
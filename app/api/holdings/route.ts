@@ -2,28 +2,53 @@ import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { holdings, snapshots, type NewHolding } from "@/lib/db/schema";
 import { eq, isNull, and, sql } from "drizzle-orm";
-import { calculateCostBasis } from "@/lib/calculations/cost-basis";
+import { calculateCostBasis, calculateCostBasisAud } from "@/lib/calculations/cost-basis";
 import { withAuth } from "@/lib/utils/with-auth";
+import {
+  validateRealAssetFields,
+  toRealAssetColumns,
+  type RealAssetFieldsBody,
+} from "@/lib/utils/real-asset-fields";
+import {
+  validatePriceSourceFields,
+  toPriceSourceColumns,
+  getEffectivePriceProvider,
+  type PriceSourceFieldsBody,
+} from "@/lib/utils/price-source-fields";
+import {
+  validateSettlementFields,
+  toSettlementColumns,
+  type SettlementFieldsBody,
+} from "@/lib/utils/settlement-fields";
+import {
+  validateDebtFields,
+  toDebtColumns,
+  type DebtFieldsBody,
+} from "@/lib/utils/debt-fields";
 import {
   HOLDING_TYPE_ORDER,
-  CURRENCIES,
+  ENABLED_CURRENCIES,
   EXCHANGES,
   TRADEABLE_TYPES,
   SNAPSHOT_TYPES,
+  COST_BASIS_METHODS,
+  type CostBasisMethod,
   type Currency,
   type HoldingWithData,
+  isEnabledCurrency,
 } from "@/lib/constants";
 
-// Types that require an exchange (stock/etf only, not crypto)
+// Types that require an exchange (stock/etf only, not crypto) when priced by Yahoo
 const exchangeRequiredTypes = ["stock", "etf"] as const;
 
-interface CreateHoldingBody {
+interface CreateHoldingBody extends RealAssetFieldsBody, PriceSourceFieldsBody, SettlementFieldsBody, DebtFieldsBody {
   type?: string;
   name?: string;
   symbol?: string;
   currency?: string;
   exchange?: string;
   isDormant?: boolean;
+  costBasisMethod?: string;
   notes?: string;
 }
 
@@ -35,12 +60,12 @@ interface CreateHoldingBody {
  * Query parameters:
  *   - include_dormant: If "true", includes dormant holdings (default: false)
  *   - include_cost_basis: If "true", calculates and returns quantity, costBasis,
- *     and avgCost for tradeable holdings (stock, etf, crypto)
+ *     costBasisAud and avgCost for tradeable holdings (stock, etf, crypto)
  *   - include_latest_snapshot: If "true", returns the most recent snapshot for
  *     snapshot-type holdings (super, cash, debt)
  *
  * Response: Array of Holding objects, optionally extended with:
- *   - quantity, costBasis, avgCost (tradeable types, when include_cost_basis=true)
+ *   - quantity, costBasis, costBasisAud, avgCost (tradeable types, when include_cost_basis=true)
  *   - latestSnapshot { id, holdingId, date, balance, currency } (snapshot types)
  *
  * Errors:
@@ -137,13 +162,15 @@ export const GET = withAuth(async (request, _context, userId) => {
 
       let quantity: number | null = null;
       let costBasis: number | null = null;
+      let costBasisAud: number | null = null;
       let avgCost: number | null = null;
 
       // Calculate cost basis for tradeable types if requested
       if (includeCostBasis && isTradeable) {
-        const costBasisResult = await calculateCostBasis(holding.id);
+        const costBasisResult = await calculateCostBasis(holding.id, holding.costBasisMethod);
         quantity = costBasisResult.quantity;
         costBasis = costBasisResult.costBasis;
+        costBasisAud = await calculateCostBasisAud(costBasisResult.lots, holding.currency);
         avgCost = costBasisResult.quantity > 0
           ? costBasisResult.costBasis / costBasisResult.quantity
           : null;
@@ -153,6 +180,7 @@ export const GET = withAuth(async (request, _context, userId) => {
         ...holding,
         quantity,
         costBasis,
+        costBasisAud,
         avgCost,
         latestSnapshot: isSnapshot ? snapshotMap.get(holding.id) || null : null,
       };
@@ -168,12 +196,37 @@ export const GET = withAuth(async (request, _context, userId) => {
  * Creates a new holding for the authenticated user.
  *
  * Request body:
- *   - type: (required) "stock" | "etf" | "crypto" | "super" | "cash" | "debt"
+ *   - type: (required) "stock" | "etf" | "crypto" | "super" | "cash" | "debt" |
+ *     "property" | "vehicle"
  *   - name: (required) Display name for the holding
- *   - currency: (required) "AUD" | "NZD" | "USD"
- *   - symbol: (required for stock/etf/crypto) Ticker symbol (e.g. "VAS.AX")
- *   - exchange: (required for stock/etf) "ASX" | "NZX" | "NYSE" | "NASDAQ"
+ *   - currency: (required) An enabled currency code (e.g. "AUD", "USD")
+ *   - symbol: (required for stock/etf/crypto) Ticker symbol (e.g. "VAS.AX"),
+ *     or any identifier for a manually priced holding
+ *   - exchange: (required for stock/etf priced by Yahoo Finance) "ASX" |
+ *     "NZX" | "NYSE" | "NASDAQ"
  *   - isDormant: (optional) Boolean, marks super fund as dormant (default: false)
+ *   - costBasisMethod: (optional, tradeable types) "fifo" | "average" | "hifo" |
+ *     "specific_lot" (default: "fifo")
+ *   - purchasePrice, purchaseCosts: (optional, property/vehicle) Amounts in
+ *     the holding's currency
+ *   - purchaseDate: (optional, property/vehicle) Date of purchase
+ *   - linkedDebtId: (optional, property/vehicle) ID of the user's debt holding
+ *     secured against it (e.g. a mortgage or car loan)
+ *   - depreciationMethod: (optional, vehicle) "diminishing_value" | "prime_cost"
+ *   - depreciationRate: (optional, vehicle) Annual rate in percent
+ *   - priceProvider: (optional, tradeable types) "yahoo" | "coingecko" |
+ *     "manual" | "derived" (default: CoinGecko for crypto, else Yahoo)
+ *   - priceSourceSymbol, priceRatio: (required for "derived") Yahoo symbol
+ *     the price follows and the multiplier applied to its price
+ *   - settlementHoldingId: (optional, tradeable types) ID of the user's cash
+ *     holding in the same currency that the holding's trades settle to
+ *   - interestRate: (optional, debt) Annual interest rate in percent
+ *   - repaymentAmount, repaymentFrequency: (optional, debt) Scheduled
+ *     repayment and "weekly" | "fortnightly" | "monthly"
+ *   - loanStartDate, loanTermMonths: (optional, debt) When the loan started
+ *     and its term in months
+ *   - offsetHoldingId: (optional, debt) ID of the user's cash holding in the
+ *     same currency that offsets the interest charged
  *   - notes: (optional) Free-text notes
  *
  * Response: 201 with the created Holding object
@@ -208,8 +261,8 @@ export const POST = withAuth(async (request, _context, userId) => {
 
   if (!body.currency) {
     errors.currency = "Currency is required";
-  } else if (!CURRENCIES.includes(body.currency as Currency)) {
-    errors.currency = `Currency must be one of: ${CURRENCIES.join(", ")}`;
+  } else if (!isEnabledCurrency(body.currency)) {
+    errors.currency = `Currency must be one of: ${ENABLED_CURRENCIES.join(", ")}`;
   }
 
   // Validate symbol is required for tradeable types
@@ -218,16 +271,29 @@ export const POST = withAuth(async (request, _context, userId) => {
     errors.symbol = "Symbol is required for stock, etf, and crypto holdings";
   }
 
-  // Validate exchange is required for stock/etf types
-  const requiresExchange = exchangeRequiredTypes.includes(body.type as (typeof exchangeRequiredTypes)[number]);
-  if (requiresExchange) {
-    if (!body.exchange) {
-      errors.exchange = "Exchange is required for stock and etf holdings";
-    } else if (!EXCHANGES.includes(body.exchange as (typeof EXCHANGES)[number])) {
-      errors.exchange = `Exchange must be one of: ${EXCHANGES.join(", ")}`;
-    }
+  // Validate exchange is required for stock/etf types priced by Yahoo
+  const hasExchange = exchangeRequiredTypes.includes(body.type as (typeof exchangeRequiredTypes)[number]);
+  const requiresExchange =
+    hasExchange &&
+    getEffectivePriceProvider(body, body.type as (typeof exchangeRequiredTypes)[number]) === "yahoo";
+  if (requiresExchange && !body.exchange) {
+    errors.exchange = "Exchange is required for stock and etf holdings";
+  } else if (hasExchange && body.exchange && !EXCHANGES.includes(body.exchange as (typeof EXCHANGES)[number])) {
+    errors.exchange = `Exchange must be one of: ${EXCHANGES.join(", ")}`;
+  }
+
+  if (
+    body.costBasisMethod !== undefined &&
+    !COST_BASIS_METHODS.includes(body.costBasisMethod as CostBasisMethod)
+  ) {
+    errors.costBasisMethod = `Cost basis method must be one of: ${COST_BASIS_METHODS.join(", ")}`;
   }
 
+  await validateRealAssetFields(body, body.type ?? "", userId, errors);
+  validatePriceSourceFields(body, body.type ?? "", errors);
+  await validateSettlementFields(body, body.type ?? "", body.currency, userId, errors);
+  await validateDebtFields(body, body.type ?? "", body.currency, userId, errors);
+
   // Return validation errors if any
   if (Object.keys(errors).length > 0) {
     return NextResponse.json({ errors }, { status: 400 });
@@ -240,8 +306,15 @@ export const POST = withAuth(async (request, _context, userId) => {
     name: body.name!.trim(),
     currency: body.currency as Currency,
     symbol: isTradeable ? body.symbol!.trim() : null,
-    exchange: requiresExchange ? body.exchange : null,
+    exchange: hasExchange ? body.exchange || null : null,
     isDormant: body.isDormant ?? false,
+    costBasisMethod: isTradeable && body.costBasisMethod
+      ? (body.costBasisMethod as CostBasisMethod)
+      : "fifo",
+    ...toRealAssetColumns(body),
+    ...(isTradeable && toPriceSourceColumns(body)),
+    ...(isTradeable && toSettlementColumns(body)),
+    ...(body.type === "debt" && toDebtColumns(body)),
     notes: body.notes?.trim() || null,
   };
 
@@ -0,0 +1,139 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { importProfiles, type ImportProfileMapping } from "@/lib/db/schema";
+import { eq, isNull, and } from "drizzle-orm";
+import { withAuth } from "@/lib/utils/with-auth";
+import { getBuiltInImportProfile, validateImportProfileMapping } from "@/lib/import/profiles";
+import { toTransactionImportProfile } from "@/lib/import/saved-profiles";
+
+interface UpdateImportProfileBody {
+  name?: string;
+  mapping?: unknown;
+}
+
+/**
+ * Finds a saved import profile owned by the user.
+ */
+async function findOwnedProfile(id: string, userId: string) {
+  const [profile] = await db
+    .select()
+    .from(importProfiles)
+    .where(
+      and(
+        eq(importProfiles.id, id),
+        eq(importProfiles.userId, userId),
+        isNull(importProfiles.deletedAt)
+      )
+    );
+  return profile;
+}
+
+/**
+ * PATCH /api/import/profiles/:id
+ *
+ * Updates a saved import profile. Built-in profiles cannot be changed.
+ *
+ * Request body (all optional):
+ *   - name: Display name for the profile
+ *   - mapping: Replacement mapping, validated as for POST
+ *
+ * Response: The updated profile { id, name, builtIn, mapping }
+ *
+ * Errors:
+ *   - 400 with { errors } for validation failures or invalid JSON
+ *   - 400 if the profile is built in
+ *   - 401 if not authenticated
+ *   - 404 if profile not found or doesn't belong to user
+ */
+export const PATCH = withAuth(async (request, context, userId) => {
+  const { id } = await context.params;
+
+  let body: UpdateImportProfileBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  if (getBuiltInImportProfile(id)) {
+    return NextResponse.json(
+      { error: "Built-in import profiles cannot be changed" },
+      { status: 400 }
+    );
+  }
+
+  const existing = await findOwnedProfile(id, userId);
+  if (!existing) {
+    return NextResponse.json({ error: "Import profile not found" }, { status: 404 });
+  }
+
+  const errors: Record<string, string> = {};
+  const updates: { name?: string; mapping?: ImportProfileMapping } = {};
+
+  if (body.name !== undefined) {
+    const name = body.name.trim();
+    if (!name) {
+      errors.name = "Name cannot be empty";
+    } else {
+      updates.name = name;
+    }
+  }
+
+  if (body.mapping !== undefined) {
+    const mapping = validateImportProfileMapping(body.mapping, errors);
+    if (mapping) {
+      updates.mapping = mapping;
+    }
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return NextResponse.json({ errors }, { status: 400 });
+  }
+
+  const [updated] = await db
+    .update(importProfiles)
+    .set({ ...updates, updatedAt: new Date() })
+    .where(eq(importProfiles.id, id))
+    .returning();
+
+  return NextResponse.json(toTransactionImportProfile(updated));
+}, "updating import profile");
+
+/**
+ * DELETE /api/import/profiles/:id
+ *
+ * Soft-deletes a saved import profile by setting `deletedAt` timestamp.
+ *
+ * Response: The soft-deleted profile { id, name, builtIn, mapping }
+ *
+ * Errors:
+ *   - 400 if the profile is built in
+ *   - 401 if not authenticated
+ *   - 404 if profile not found or doesn't belong to user
+ */
+export const DELETE = withAuth(async (_request, context, userId) => {
+  const { id } = await context.params;
+
+  if (getBuiltInImportProfile(id)) {
+    return NextResponse.json(
+      { error: "Built-in import profiles cannot be deleted" },
+      { status: 400 }
+    );
+  }
+
+  const existing = await findOwnedProfile(id, userId);
+  if (!existing) {
+    return NextResponse.json({ error: "Import profile not found" }, { status: 404 });
+  }
+
+  const [deleted] = await db
+    .update(importProfiles)
+    .set({ deletedAt: new Date(), updatedAt: new Date() })
+    .where(eq(importProfiles.id, id))
+    .returning();
+
+  return NextResponse.json(toTransactionImportProfile(deleted));
+}, "deleting import profile");
@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { importProfiles } from "@/lib/db/schema";
+import { withAuth } from "@/lib/utils/with-auth";
+import { validateImportProfileMapping } from "@/lib/import/profiles";
+import { getImportProfiles, toTransactionImportProfile } from "@/lib/import/saved-profiles";
+
+interface CreateImportProfileBody {
+  name?: string;
+  mapping?: unknown;
+}
+
+/**
+ * GET /api/import/profiles
+ *
+ * Returns the transaction import profiles available to the authenticated
+ * user: the built-in broker profiles followed by the user's saved profiles.
+ *
+ * Response: { profiles: [{ id, name, builtIn, mapping }] }
+ *
+ * Errors:
+ *   - 401 if not authenticated
+ */
+export const GET = withAuth(async (_request, _context, userId) => {
+  const profiles = await getImportProfiles(userId);
+  return NextResponse.json({ profiles });
+}, "fetching import profiles");
+
+/**
+ * POST /api/import/profiles
+ *
+ * Saves a user-defined transaction import profile for reuse.
+ *
+ * Request body:
+ *   - name: (required) Display name for the profile
+ *   - mapping: (required) { columns, dateFormat, actionLabels,
+ *     defaultCurrency, defaultExchange }. `columns` maps each import field
+ *     to a CSV header; date, symbol, action, quantity and unit_price are
+ *     required, and fees is a list of headers that are summed.
+ *
+ * Response: 201 with the created profile { id, name, builtIn, mapping }
+ *
+ * Errors:
+ *   - 400 with { errors } for validation failures or invalid JSON
+ *   - 401 if not authenticated
+ */
+export const POST = withAuth(async (request, _context, userId) => {
+  let body: CreateImportProfileBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const errors: Record<string, string> = {};
+  const name = body.name?.trim();
+
+  if (!name) {
+    errors.name = "Name is required";
+  }
+
+  const mapping = validateImportProfileMapping(body.mapping, errors);
+
+  if (Object.keys(errors).length > 0 || !mapping) {
+    return NextResponse.json({ errors }, { status: 400 });
+  }
+
+  const [created] = await db
+    .insert(importProfiles)
+    .values({ userId, name: name!, mapping })
+    .returning();
+
+  return NextResponse.json(toTransactionImportProfile(created), { status: 201 });
+}, "creating import profile");
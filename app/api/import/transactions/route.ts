@@ -2,13 +2,17 @@
  * Transaction Import API Endpoint
  * POST /api/import/transactions
  *
- * Accepts multipart form data with a CSV file.
- * Parses CSV, validates rows, imports valid transactions.
+ * Accepts multipart form data with a CSV file and an optional profile_id.
+ * Parses CSV, maps rows through the import profile, validates rows, imports
+ * valid transactions. The profile is a built-in broker key (e.g. "commsec")
+ * or the ID of a saved profile; without one the Mjolnir template is assumed.
  * Returns summary: { total, imported, skipped, errors }
  */
 
 import { NextResponse } from "next/server";
 import { parseCSV } from "@/lib/import/csv-parser";
+import { applyImportProfileToRows, DEFAULT_IMPORT_PROFILE_ID } from "@/lib/import/profiles";
+import { findImportProfile } from "@/lib/import/saved-profiles";
 import { validateTransactionRows } from "@/lib/import/validators/transaction-validator";
 import { importTransactions, type ImportError } from "@/lib/import/transaction-importer";
 import { db } from "@/lib/db";
@@ -60,6 +64,20 @@ export const POST = withAuth(async (request, _context, userId) => {
     );
   }
 
+  // Resolve the import profile
+  const profileId = formData.get("profile_id");
+  const profile = await findImportProfile(
+    userId,
+    typeof profileId === "string" && profileId ? profileId : DEFAULT_IMPORT_PROFILE_ID
+  );
+
+  if (!profile) {
+    return NextResponse.json(
+      { error: "Import profile not found" },
+      { status: 400 }
+    );
+  }
+
   // Read file content
   let content: string;
   try {
@@ -81,8 +99,10 @@ export const POST = withAuth(async (request, _context, userId) => {
     );
   }
 
-  // Validate all rows
-  const validationResults = validateTransactionRows(csvRows);
+  // Map broker columns to the template, then validate all rows
+  const validationResults = validateTransactionRows(
+    applyImportProfileToRows(csvRows, profile.mapping)
+  );
 
   // Separate valid and invalid rows
   const validRows = validationResults
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { getBenchmarkComparison } from "@/lib/calculations/benchmark";
+import { getUserPreferences } from "@/lib/queries/users";
+import { fetchSparklineData } from "@/lib/services/sparkline-data";
+import { withAuth } from "@/lib/utils/with-auth";
+
+/**
+ * GET /api/net-worth/benchmark
+ *
+ * Compares the authenticated user's tradeable portfolio with the same dated
+ * cash flows invested in each of their benchmark symbols
+ * (`benchmarkSymbols` in /api/preferences).
+ *
+ * Query parameters:
+ *   - months: Number of months of series to return (default 12, max 60)
+ *
+ * Response:
+ *   - symbols: Benchmark symbols with price history
+ *   - unavailable: Benchmark symbols with no price history
+ *   - sparklines: 30-day closes per benchmark symbol
+ *   - series: Monthly { date, portfolio, benchmarks: { [symbol]: value } } in AUD
+ *   - years: Per calendar year { year, startDate, endDate, netContributions,
+ *     portfolioGain, portfolioReturn, benchmarks: [{ symbol, gain, return,
+ *     outperformance }] }; returns are %, outperformance percentage points
+ *   - calculatedAt: Timestamp when calculation was performed
+ *
+ * Errors:
+ *   - 400 if months is invalid
+ *   - 401 if not authenticated
+ */
+export const GET = withAuth(async (request, _context, userId) => {
+  const monthsParam = request.nextUrl.searchParams.get("months");
+  let months = 12;
+
+  if (monthsParam) {
+    const parsed = parseInt(monthsParam, 10);
+    if (isNaN(parsed) || parsed < 1) {
+      return NextResponse.json(
+        { error: "Invalid months parameter. Must be a positive integer." },
+        { status: 400 }
+      );
+    }
+    months = Math.min(parsed, 60);
+  }
+
+  const preferences = await getUserPreferences(userId);
+  const comparison = await getBenchmarkComparison(userId, preferences.benchmarkSymbols, months);
+
+  const sparklines: Record<string, number[]> = {};
+  await Promise.all(
+    comparison.symbols.map(async (symbol) => {
+      sparklines[symbol] = (await fetchSparklineData("etf", symbol, null)).prices;
+    })
+  );
+
+  return NextResponse.json({
+    ...comparison,
+    sparklines,
+    calculatedAt: comparison.calculatedAt.toISOString(),
+  });
+}, "calculating benchmark comparison");
@@ -0,0 +1,175 @@
+import { NextResponse } from "next/server";
+import type { ProjectionSettings } from "@/lib/db/schema";
+import { getNetWorthProjection } from "@/lib/calculations/projection";
+import { getUserPreferences, updateUserPreferences } from "@/lib/queries/users";
+import { withAuth } from "@/lib/utils/with-auth";
+import {
+  PROJECTED_ASSET_TYPES,
+  PROJECTION_MAX_AGE,
+  type ProjectedAssetType,
+} from "@/lib/constants";
+
+interface ProjectionSettingsBody {
+  assumptions?: Record<string, { expectedReturn?: unknown; volatility?: unknown }>;
+  monthlyContribution?: unknown;
+  inflationRate?: unknown;
+  annualSpending?: unknown;
+  withdrawalRate?: unknown;
+  currentAge?: unknown;
+  targetAge?: unknown;
+}
+
+/** True if `value` is a finite number within [min, max]. */
+function isNumberInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= min && value <= max;
+}
+
+/**
+ * Response body shared by GET and PUT.
+ */
+async function projectionResponse(userId: string, settings: ProjectionSettings | null) {
+  const projection = await getNetWorthProjection(userId, settings);
+  return NextResponse.json({
+    ...projection,
+    calculatedAt: projection.calculatedAt.toISOString(),
+  });
+}
+
+/**
+ * GET /api/net-worth/projection
+ *
+ * Projects the authenticated user's net worth from today's balances using
+ * their saved projection settings (defaults until saved), with a
+ * deterministic path and Monte Carlo percentiles in today's dollars.
+ *
+ * Response:
+ *   - settings: Inputs used, with defaults filled in
+ *   - startingNetWorth: Net worth today in AUD
+ *   - fiNumber: annualSpending / withdrawalRate
+ *   - monthlyContribution, contributionSource ("manual" | "budget"),
+ *     budgetSurplus: Contribution used, and the average monthly budget
+ *     surplus it defaults to (null without budget data)
+ *   - probabilityAtTargetAge: % of paths reaching the FI number by targetAge
+ *   - deterministicFiAge, medianFiAge: Age FI is reached on the expected
+ *     path and by half the paths (null if not within the projection)
+ *   - series: Yearly { age, year, deterministic, p10, p25, p50, p75, p90,
+ *     probabilityFi }
+ *   - history: Monthly { date, age, netWorth } for the last two years
+ *   - simulations: Number of Monte Carlo paths
+ *   - calculatedAt: Timestamp when calculation was performed
+ *
+ * Errors:
+ *   - 401 if not authenticated
+ */
+export const GET = withAuth(async (_request, _context, userId) => {
+  const preferences = await getUserPreferences(userId);
+  return projectionResponse(userId, preferences.projectionSettings);
+}, "calculating net worth projection");
+
+/**
+ * PUT /api/net-worth/projection
+ *
+ * Saves the authenticated user's projection settings and returns the
+ * projection they give.
+ *
+ * Request body:
+ *   - assumptions: (required) Per asset type (stock, etf, crypto, super,
+ *     cash, property, vehicle) { expectedReturn, volatility } as nominal %
+ *     p.a. Missing types use the defaults.
+ *   - monthlyContribution: (required) AUD per month, or null to use the
+ *     average budget surplus
+ *   - inflationRate: (required) % p.a., 0-20
+ *   - annualSpending: (required) AUD per year in today's dollars, above 0
+ *   - withdrawalRate: (required) Safe withdrawal rate %, above 0 and at most 20
+ *   - currentAge: (required) Whole years, 0-99
+ *   - targetAge: (required) Whole years, above currentAge
+ *
+ * Response: As for GET
+ *
+ * Errors:
+ *   - 400 with { errors } for validation failures or invalid JSON
+ *   - 401 if not authenticated
+ */
+export const PUT = withAuth(async (request, _context, userId) => {
+  let body: ProjectionSettingsBody;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "Invalid JSON body" },
+      { status: 400 }
+    );
+  }
+
+  const errors: Record<string, string> = {};
+  const assumptions: ProjectionSettings["assumptions"] = {};
+
+  if (!body.assumptions || typeof body.assumptions !== "object") {
+    errors.assumptions = "Assumptions are required";
+  } else {
+    for (const [type, assumption] of Object.entries(body.assumptions)) {
+      if (!PROJECTED_ASSET_TYPES.includes(type as ProjectedAssetType)) {
+        errors[`assumptions.${type}`] = `Asset type must be one of: ${PROJECTED_ASSET_TYPES.join(", ")}`;
+      } else if (!isNumberInRange(assumption?.expectedReturn, -100, 100)) {
+        errors[`assumptions.${type}.expectedReturn`] = "Expected return must be between -100 and 100";
+      } else if (!isNumberInRange(assumption?.volatility, 0, 200)) {
+        errors[`assumptions.${type}.volatility`] = "Volatility must be between 0 and 200";
+      } else {
+        assumptions[type as ProjectedAssetType] = {
+          expectedReturn: assumption.expectedReturn,
+          volatility: assumption.volatility,
+        };
+      }
+    }
+  }
+
+  if (
+    body.monthlyContribution !== null &&
+    !isNumberInRange(body.monthlyContribution, 0, Number.MAX_SAFE_INTEGER)
+  ) {
+    errors.monthlyContribution = "Monthly contribution must be 0 or more, or null to use the budget surplus";
+  }
+
+  if (!isNumberInRange(body.inflationRate, 0, 20)) {
+    errors.inflationRate = "Inflation rate must be between 0 and 20";
+  }
+
+  if (!isNumberInRange(body.annualSpending, 0, Number.MAX_SAFE_INTEGER) || body.annualSpending === 0) {
+    errors.annualSpending = "Annual spending must be greater than 0";
+  }
+
+  if (!isNumberInRange(body.withdrawalRate, 0, 20) || body.withdrawalRate === 0) {
+    errors.withdrawalRate = "Withdrawal rate must be greater than 0 and at most 20";
+  }
+
+  if (!isNumberInRange(body.currentAge, 0, PROJECTION_MAX_AGE - 1) || !Number.isInteger(body.currentAge)) {
+    errors.currentAge = `Current age must be a whole number below ${PROJECTION_MAX_AGE}`;
+  }
+
+  if (
+    !isNumberInRange(body.targetAge, 1, PROJECTION_MAX_AGE) ||
+    !Number.isInteger(body.targetAge)
+  ) {
+    errors.targetAge = `Target age must be a whole number up to ${PROJECTION_MAX_AGE}`;
+  } else if (typeof body.currentAge === "number" && body.targetAge <= body.currentAge) {
+    errors.targetAge = "Target age must be after current age";
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return NextResponse.json({ errors }, { status: 400 });
+  }
+
+  const settings: ProjectionSettings = {
+    assumptions,
+    monthlyContribution: body.monthlyContribution as number | null,
+    inflationRate: body.inflationRate as number,
+    annualSpending: body.annualSpending as number,
+    withdrawalRate: body.withdrawalRate as number,
+    currentAge: body.currentAge as number,
+    targetAge: body.targetAge as number,
+  };
+
+  await updateUserPreferences(userId, { projectionSettings: settings });
+
+  return projectionResponse(userId, settings);
+}, "saving net worth projection settings");
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { getPortfolioReturns } from "@/lib/calculations/returns";
+import { withAuth } from "@/lib/utils/with-auth";
+import { RETURN_WINDOWS, type ReturnWindow } from "@/lib/constants";
+
+/**
+ * GET /api/net-worth/returns
+ *
+ * Returns money-weighted (XIRR) and time-weighted returns for the
+ * authenticated user's tradeable holdings, per holding, per asset type
+ * and for the whole portfolio.
+ *
+ * Query parameters:
+ *   - window: Lookback window - "1y", "3y", or "inception" (default "1y")
+ *
+ * Response:
+ *   - window: The lookback window used
+ *   - portfolio: Return metrics for all tradeable holdings, or null
+ *   - byType: Return metrics per asset type
+ *   - holdings: Return metrics per holding, best XIRR first
+ *   - calculatedAt: Timestamp when calculation was performed
+ *
+ * Each set of metrics has startDate, endDate, startValue, endValue,
+ * netContributions, income, gain (AUD) and xirr, twr, annualisedTwr (%).
+ *
+ * Errors:
+ *   - 400 if window is invalid
+ *   - 401 if not authenticated
+ */
+export const GET = withAuth(async (request, _context, userId) => {
+  const windowParam = request.nextUrl.searchParams.get("window") ?? "1y";
+
+  if (!RETURN_WINDOWS.includes(windowParam as ReturnWindow)) {
+    return NextResponse.json(
+      { error: `Invalid window parameter. Must be one of: ${RETURN_WINDOWS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  const report = await getPortfolioReturns(userId, windowParam as ReturnWindow);
+
+  return NextResponse.json({
+    ...report,
+    calculatedAt: report.calculatedAt.toISOString(),
+  });
+}, "calculating portfolio returns");
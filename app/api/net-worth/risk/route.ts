@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { getPortfolioRisk } from "@/lib/calculations/risk";
+import { withAuth } from "@/lib/utils/with-auth";
+
+/**
+ * GET /api/net-worth/risk
+ *
+ * Returns volatility, maximum drawdown and Sharpe-like ratios for the
+ * authenticated user's net worth and each held tradeable holding, plus the
+ * correlation between those holdings.
+ *
+ * Response:
+ *   - netWorth: Metrics of monthly net worth, or null
+ *   - holdings: Metrics per holding with marketValue (AUD) and weight (%),
+ *     highest weight first
+ *   - correlation: { holdingIds, labels, values } pairwise correlation matrix
+ *   - correlatedGroups: Highly correlated holdings with their combined weight
+ *   - calculatedAt: Timestamp when calculation was performed
+ *
+ * Each set of metrics has startDate, endDate, observations, annualisedReturn,
+ * volatility, maxDrawdown (%), sharpeRatio, drawdownPeakDate,
+ * drawdownTroughDate, recoveryDate and recoveryDays.
+ *
+ * Errors:
+ *   - 401 if not authenticated
+ */
+export const GET = withAuth(async (_request, _context, userId) => {
+  const report = await getPortfolioRisk(userId);
+
+  return NextResponse.json({
+    ...report,
+    calculatedAt: report.calculatedAt.toISOString(),
+  });
+}, "calculating portfolio risk");
@@ -2,7 +2,7 @@ import { NextResponse } from "next/server";
 import { calculateNetWorth } from "@/lib/calculations/net-worth";
 import type { Currency } from "@/lib/utils/currency";
 import { withAuth } from "@/lib/utils/with-auth";
-import { CURRENCIES } from "@/lib/constants";
+import { isEnabledCurrency } from "@/lib/constants";
 
 /**
  * GET /api/net-worth
@@ -11,7 +11,7 @@ import { CURRENCIES } from "@/lib/constants";
  *
  * Query parameters:
  *   - refresh: If "true", forces a fresh calculation (default behavior is to calculate fresh)
- *   - displayCurrency: Currency for display values (AUD, NZD, USD). Defaults to AUD.
+ *   - displayCurrency: Currency for display values (any enabled currency). Defaults to AUD.
  *
  * Response:
  *   - netWorth: Total net worth (assets - debt) in display currency
@@ -30,8 +30,8 @@ export const GET = withAuth(async (request, _context, userId) => {
   const displayCurrencyParam = searchParams.get("displayCurrency");
   let displayCurrency: Currency = "AUD";
   if (displayCurrencyParam) {
-    if (CURRENCIES.includes(displayCurrencyParam as (typeof CURRENCIES)[number])) {
-      displayCurrency = displayCurrencyParam as Currency;
+    if (isEnabledCurrency(displayCurrencyParam)) {
+      displayCurrency = displayCurrencyParam;
     }
     // Invalid currency silently falls back to AUD
   }
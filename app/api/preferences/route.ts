@@ -1,15 +1,20 @@
 import { NextResponse } from "next/server";
 import { getUserPreferences, updateUserPreferences } from "@/lib/queries/users";
 import { withAuth } from "@/lib/utils/with-auth";
-
-const currencies = ["AUD", "NZD", "USD"] as const;
-type Currency = (typeof currencies)[number];
+import {
+  BENCHMARK_SYMBOL_PATTERN,
+  ENABLED_CURRENCIES,
+  MAX_BENCHMARK_SYMBOLS,
+  isEnabledCurrency,
+  type Currency,
+} from "@/lib/constants";
 
 interface PatchBody {
   displayCurrency?: string;
   showNativeCurrency?: boolean;
   emailReminders?: boolean;
   reminderDay?: number;
+  benchmarkSymbols?: unknown;
 }
 
 /**
@@ -24,13 +29,15 @@ export const GET = withAuth(async (_request, _context, userId) => {
     showNativeCurrency: preferences.showNativeCurrency,
     emailReminders: preferences.emailReminders,
     reminderDay: preferences.reminderDay,
+    benchmarkSymbols: preferences.benchmarkSymbols,
     updatedAt: preferences.updatedAt,
   });
 }, "fetching preferences");
 
 /**
  * PATCH /api/preferences
- * Updates user preferences (currently only displayCurrency)
+ * Updates user preferences. `benchmarkSymbols` replaces the whole list
+ * (at most MAX_BENCHMARK_SYMBOLS Yahoo symbols, e.g. ["VAS.AX", "IVV"]).
  */
 export const PATCH = withAuth(async (request, _context, userId) => {
   let body: PatchBody;
@@ -44,8 +51,8 @@ export const PATCH = withAuth(async (request, _context, userId) => {
 
   // Validate displayCurrency if provided
   if (body.displayCurrency !== undefined) {
-    if (!currencies.includes(body.displayCurrency as Currency)) {
-      errors.displayCurrency = `Currency must be one of: ${currencies.join(", ")}`;
+    if (!isEnabledCurrency(body.displayCurrency)) {
+      errors.displayCurrency = `Currency must be one of: ${ENABLED_CURRENCIES.join(", ")}`;
     }
   }
 
@@ -72,12 +79,34 @@ export const PATCH = withAuth(async (request, _context, userId) => {
     }
   }
 
+  // Validate benchmarkSymbols if provided (Yahoo symbols, upper-cased, no duplicates)
+  let benchmarkSymbols: string[] | undefined;
+  if (body.benchmarkSymbols !== undefined) {
+    if (
+      !Array.isArray(body.benchmarkSymbols) ||
+      !body.benchmarkSymbols.every((s) => typeof s === "string")
+    ) {
+      errors.benchmarkSymbols = "benchmarkSymbols must be an array of symbols";
+    } else {
+      benchmarkSymbols = [
+        ...new Set(body.benchmarkSymbols.map((s: string) => s.trim().toUpperCase())),
+      ];
+      const invalid = benchmarkSymbols.find((s) => !BENCHMARK_SYMBOL_PATTERN.test(s));
+      if (invalid !== undefined) {
+        errors.benchmarkSymbols = `"${invalid}" is not a valid symbol`;
+      } else if (benchmarkSymbols.length > MAX_BENCHMARK_SYMBOLS) {
+        errors.benchmarkSymbols = `At most ${MAX_BENCHMARK_SYMBOLS} benchmarks can be compared`;
+      }
+    }
+  }
+
   // Require at least one field to update
   if (
     body.displayCurrency === undefined &&
     body.showNativeCurrency === undefined &&
     body.emailReminders === undefined &&
-    body.reminderDay === undefined
+    body.reminderDay === undefined &&
+    body.benchmarkSymbols === undefined
   ) {
     errors.general = "At least one preference field is required";
   }
@@ -91,6 +120,7 @@ export const PATCH = withAuth(async (request, _context, userId) => {
     showNativeCurrency: body.showNativeCurrency,
     emailReminders: body.emailReminders,
     reminderDay: body.reminderDay,
+    benchmarkSymbols,
   });
 
   return NextResponse.json({
@@ -98,6 +128,7 @@ export const PATCH = withAuth(async (request, _context, userId) => {
     showNativeCurrency: updated.showNativeCurrency,
     emailReminders: updated.emailReminders,
     reminderDay: updated.reminderDay,
+    benchmarkSymbols: updated.benchmarkSymbols,
     updatedAt: updated.updatedAt,
   });
 }, "updating preferences");
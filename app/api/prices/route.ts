@@ -3,12 +3,9 @@ import { db } from "@/lib/db";
 import { holdings } from "@/lib/db/schema";
 import { eq, isNull, and, inArray } from "drizzle-orm";
 import { fetchPrice, PriceResult } from "@/lib/services/price-fetcher";
-import {
-  getCachedPrice,
-  isCacheValid,
-  DEFAULT_PRICE_CACHE_TTL_MINUTES,
-} from "@/lib/services/price-cache";
-import { normalizeSymbol } from "@/lib/services/yahoo-finance";
+import { getCachedPrice, isCacheValid } from "@/lib/services/price-cache";
+import { getPriceSymbol } from "@/lib/services/price-history";
+import { getHoldingPriceProvider } from "@/lib/services/price-providers";
 import { withAuth } from "@/lib/utils/with-auth";
 
 // Types that can have live prices
@@ -107,15 +104,9 @@ export const POST = withAuth(async (request, _context, userId) => {
       }
 
       try {
-        const priceResult: PriceResult = await fetchPrice(
-          {
-            type: holding.type,
-            symbol: holding.symbol,
-            exchange: holding.exchange,
-            currency: holding.currency,
-          },
-          { forceRefresh: true }
-        );
+        const priceResult: PriceResult = await fetchPrice(holding, {
+          forceRefresh: true,
+        });
 
         return {
           holdingId: holding.id,
@@ -147,7 +138,8 @@ export const POST = withAuth(async (request, _context, userId) => {
  * GET /api/prices
  *
  * Returns cached prices for all tradeable holdings.
- * Includes staleness indicator based on TTL (15 minutes).
+ * Includes staleness indicator based on TTL (15 minutes, or
+ * MANUAL_PRICE_STALE_DAYS from the entry date for manual prices).
  *
  * @returns Array of cached price results with staleness indicators
  */
@@ -188,10 +180,8 @@ export const GET = withAuth(async (_request, _context, userId) => {
       }
 
       // Normalize symbol for cache lookup (same as in price-fetcher)
-      const cacheSymbol =
-        holding.type === "crypto"
-          ? holding.symbol.toUpperCase()
-          : normalizeSymbol(holding.symbol, holding.exchange);
+      const cacheSymbol = getPriceSymbol(holding)!;
+      const provider = getHoldingPriceProvider(holding);
 
       const cached = await getCachedPrice(cacheSymbol);
 
@@ -210,7 +200,7 @@ export const GET = withAuth(async (_request, _context, userId) => {
       }
 
       // Check if cache is stale
-      const isStale = !isCacheValid(cached, DEFAULT_PRICE_CACHE_TTL_MINUTES);
+      const isStale = !isCacheValid(cached, provider.cacheTtlMinutes);
 
       return {
         holdingId: holding.id,
@@ -2,7 +2,10 @@ import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { holdings } from "@/lib/db/schema";
 import { eq, isNull, and } from "drizzle-orm";
+import { format, subDays } from "date-fns";
 import { fetchSparklineData } from "@/lib/services/sparkline-data";
+import { getPriceHistory, getPriceSymbol } from "@/lib/services/price-history";
+import { getHoldingPriceProvider } from "@/lib/services/price-providers";
 import { withAuth } from "@/lib/utils/with-auth";
 
 const tradeableTypes = ["stock", "etf", "crypto"] as const;
@@ -20,6 +23,7 @@ interface SparklineResponse {
  * GET /api/prices/sparkline
  *
  * Batch-fetches 30-day historical prices for all tradeable holdings.
+ * Manually priced and derived holdings use their stored price history.
  * Returns an array of { holdingId, symbol, prices: number[] }.
  */
 export const GET = withAuth(async (_request, _context, userId) => {
@@ -48,6 +52,16 @@ export const GET = withAuth(async (_request, _context, userId) => {
         return { holdingId: holding.id, symbol: "", prices: [] };
       }
 
+      if (getHoldingPriceProvider(holding).holdingScoped) {
+        const from = format(subDays(new Date(), 30), "yyyy-MM-dd");
+        const history = await getPriceHistory(getPriceSymbol(holding)!, from);
+        return {
+          holdingId: holding.id,
+          symbol: holding.symbol,
+          prices: history.map((point) => point.close),
+        };
+      }
+
       const result = await fetchSparklineData(
         holding.type,
         holding.symbol,
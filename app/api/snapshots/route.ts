@@ -5,10 +5,11 @@ import { eq, isNull, and, desc } from "drizzle-orm";
 import { withAuth } from "@/lib/utils/with-auth";
 import {
   SNAPSHOT_TYPES,
-  CURRENCIES,
+  ENABLED_CURRENCIES,
   type Currency,
   normalizeToFirstOfMonth,
   isValidSnapshotMonth,
+  isEnabledCurrency,
 } from "@/lib/constants";
 
 interface CreateSnapshotBody {
@@ -82,7 +83,7 @@ export const GET = withAuth(async (request, _context, userId) => {
  *   - holding_id: (required) UUID of the parent holding
  *   - date: (required) Date string (normalized to YYYY-MM-01)
  *   - balance: (required) Numeric balance value
- *   - currency: (required) "AUD" | "NZD" | "USD"
+ *   - currency: (required) An enabled currency code (e.g. "AUD", "USD")
  *   - notes: (optional) Free-text notes
  *
  * Validation:
@@ -131,8 +132,8 @@ export const POST = withAuth(async (request, _context, userId) => {
 
   if (!body.currency) {
     errors.currency = "Currency is required";
-  } else if (!CURRENCIES.includes(body.currency as Currency)) {
-    errors.currency = `Currency must be one of: ${CURRENCIES.join(", ")}`;
+  } else if (!isEnabledCurrency(body.currency)) {
+    errors.currency = `Currency must be one of: ${ENABLED_CURRENCIES.join(", ")}`;
   }
 
   // Return early if basic validation fails
@@ -3,12 +3,15 @@ import { db } from "@/lib/db";
 import { snapshots, contributions, holdings } from "@/lib/db/schema";
 import { eq, and, isNull, desc, gte, lte, inArray } from "drizzle-orm";
 import { withAuth } from "@/lib/utils/with-auth";
+import { sumSuperDeductions } from "@/lib/calculations/super-returns";
 
 interface MonthlyBreakdown {
   date: string;
   employerContrib: number;
   employeeContrib: number;
   investmentReturns: number;
+  grossReturns: number;
+  costs: number;
   balance: number;
   holdingId?: string;
   holdingName?: string;
@@ -24,12 +27,19 @@ interface MonthlyBreakdown {
  *   - months: Number of months of history (default 12, max 60)
  *
  * Response:
- *   - breakdown: Array of monthly data with contributions and investment returns
+ *   - breakdown: Array of monthly data with contributions, net and gross
+ *     investment returns, and costs
  *   - holdings: Array of super holdings included in the breakdown
  *   - generatedAt: Timestamp when calculation was performed
  *
+ * `employeeContrib` covers all personal contributions: salary sacrifice and
+ * after-tax (non-concessional) amounts.
+ *
  * The investment returns are calculated as:
  *   investment_returns = (new_balance - old_balance) - employer_contrib - employee_contrib
+ *   gross_returns = investment_returns + costs
+ * where costs are the admin fees, investment fees, insurance premiums and
+ * contributions tax recorded for the month.
  */
 export const GET = withAuth(async (request, _context, userId) => {
   const searchParams = request.nextUrl.searchParams;
@@ -117,6 +127,11 @@ export const GET = withAuth(async (request, _context, userId) => {
       date: contributions.date,
       employerContrib: contributions.employerContrib,
       employeeContrib: contributions.employeeContrib,
+      nonConcessionalContrib: contributions.nonConcessionalContrib,
+      adminFees: contributions.adminFees,
+      investmentFees: contributions.investmentFees,
+      insurancePremiums: contributions.insurancePremiums,
+      contributionsTax: contributions.contributionsTax,
     })
     .from(contributions)
     .where(
@@ -143,7 +158,7 @@ export const GET = withAuth(async (request, _context, userId) => {
   // Build a map of contributions by holding and date
   const contributionMap = new Map<
     string,
-    Map<string, { employer: number; employee: number }>
+    Map<string, { employer: number; employee: number; costs: number }>
   >();
   for (const contrib of filteredContributions) {
     if (!contributionMap.has(contrib.holdingId)) {
@@ -151,7 +166,8 @@ export const GET = withAuth(async (request, _context, userId) => {
     }
     contributionMap.get(contrib.holdingId)!.set(contrib.date, {
       employer: Number(contrib.employerContrib),
-      employee: Number(contrib.employeeContrib),
+      employee: Number(contrib.employeeContrib) + Number(contrib.nonConcessionalContrib),
+      costs: sumSuperDeductions(contrib),
     });
   }
 
@@ -170,16 +186,18 @@ export const GET = withAuth(async (request, _context, userId) => {
     for (let i = 0; i < dates.length; i++) {
       const date = dates[i];
       const balance = holdingSnapshots.get(date) || 0;
-      const contrib = holdingContribs.get(date) || { employer: 0, employee: 0 };
+      const contrib = holdingContribs.get(date) || { employer: 0, employee: 0, costs: 0 };
 
       // Calculate investment returns (need previous balance)
       let investmentReturns = 0;
+      let costs = 0;
       if (i > 0) {
         const prevDate = dates[i - 1];
         const prevBalance = holdingSnapshots.get(prevDate) || 0;
         const balanceChange = balance - prevBalance;
         const totalContrib = contrib.employer + contrib.employee;
         investmentReturns = balanceChange - totalContrib;
+        costs = contrib.costs;
       }
 
       breakdown.push({
@@ -187,6 +205,8 @@ export const GET = withAuth(async (request, _context, userId) => {
         employerContrib: contrib.employer,
         employeeContrib: contrib.employee,
         investmentReturns,
+        grossReturns: investmentReturns + costs,
+        costs,
         balance,
         holdingId: holding.id,
         holdingName: holding.name,
@@ -213,6 +233,7 @@ export const GET = withAuth(async (request, _context, userId) => {
       let totalEmployer = 0;
       let totalEmployee = 0;
       let totalInvestmentReturns = 0;
+      let totalCosts = 0;
       let totalBalance = 0;
 
       for (const holdingId of holdingIds) {
@@ -223,6 +244,7 @@ export const GET = withAuth(async (request, _context, userId) => {
         const contrib = holdingContribs.get(date) || {
           employer: 0,
           employee: 0,
+          costs: 0,
         };
 
         totalEmployer += contrib.employer;
@@ -239,6 +261,7 @@ export const GET = withAuth(async (request, _context, userId) => {
           const balanceChange = balance - prevBalance;
           const totalContrib = contrib.employer + contrib.employee;
           totalInvestmentReturns += balanceChange - totalContrib;
+          totalCosts += contrib.costs;
         }
       }
 
@@ -247,6 +270,8 @@ export const GET = withAuth(async (request, _context, userId) => {
         employerContrib: totalEmployer,
         employeeContrib: totalEmployee,
         investmentReturns: totalInvestmentReturns,
+        grossReturns: totalInvestmentReturns + totalCosts,
+        costs: totalCosts,
         balance: totalBalance,
       });
     }
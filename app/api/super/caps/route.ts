@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { getSuperCapReport } from "@/lib/calculations/super-caps";
+import { withAuth } from "@/lib/utils/with-auth";
+
+/**
+ * GET /api/super/caps
+ *
+ * Returns the authenticated user's contributions this financial year against
+ * the concessional and non-concessional caps, across all super holdings.
+ *
+ * Response:
+ *   - financialYear, endDate (30 June), monthsRemaining
+ *   - concessional: { cap, annualCap, carryForward, contributed, remaining,
+ *     percentUsed, status, projectedEmployer, projectedStatus }
+ *   - nonConcessional: { cap, contributed, remaining, percentUsed, status }
+ *   - carryForward: { eligible, totalSuperBalance, amounts }
+ *   - suggestion: { salarySacrifice, salarySacrificeMonthly, nonConcessional }
+ *   - history: Contributions and caps per financial year, oldest first
+ *   - calculatedAt: Timestamp when calculation was performed
+ *
+ * Status is one of "under", "approaching", "reached" or "exceeded". Amounts
+ * are in AUD.
+ *
+ * Errors:
+ *   - 401 if not authenticated
+ */
+export const GET = withAuth(async (_request, _context, userId) => {
+  const report = await getSuperCapReport(userId);
+
+  return NextResponse.json({
+    ...report,
+    calculatedAt: report.calculatedAt.toISOString(),
+  });
+}, "calculating super contribution caps");
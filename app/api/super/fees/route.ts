@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { getSuperFeeReport } from "@/lib/calculations/super-returns";
+import { withAuth } from "@/lib/utils/with-auth";
+
+/**
+ * GET /api/super/fees
+ *
+ * Returns an annual fee-drag report for each of the authenticated user's
+ * super funds: gross investment return versus the fees, insurance premiums
+ * and contributions tax recorded at check-in.
+ *
+ * Response:
+ *   - funds: Array of { holdingId, name, currency, isDormant, years }, where
+ *     years (newest first) has financialYear, months, averageBalance,
+ *     contributions, grossReturn, adminFees, investmentFees,
+ *     insurancePremiums, contributionsTax, costs, netReturn, and the
+ *     annualised percentages feeDrag, costDrag, grossReturnPercent and
+ *     netReturnPercent (null without a balance)
+ *   - calculatedAt: Timestamp when calculation was performed
+ *
+ * Amounts are in each fund's currency.
+ *
+ * Errors:
+ *   - 401 if not authenticated
+ */
+export const GET = withAuth(async (_request, _context, userId) => {
+  const report = await getSuperFeeReport(userId);
+
+  return NextResponse.json({
+    ...report,
+    calculatedAt: report.calculatedAt.toISOString(),
+  });
+}, "calculating super fee drag");
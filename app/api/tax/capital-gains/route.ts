@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { getCapitalGainsReport } from "@/lib/calculations/capital-gains";
+import { getCurrentFinancialYear } from "@/lib/utils/financial-year";
+import { withAuth } from "@/lib/utils/with-auth";
+
+/**
+ * GET /api/tax/capital-gains
+ *
+ * Returns realised capital gains for one Australian financial year.
+ *
+ * Query parameters:
+ *   - fy: Financial year identified by its ending year (e.g. 2026 for
+ *     1 July 2025 to 30 June 2026). Defaults to the current financial year.
+ *
+ * Response:
+ *   - financialYear, label, startDate, endDate
+ *   - events: One entry per SELL with the lots it consumed, holding period,
+ *     proceeds net of fees, cost base and gain/loss
+ *   - summary: Gains split by CGT discount eligibility, losses, discount
+ *     applied and net capital gain (AUD)
+ *   - availableYears: Financial years with at least one SELL
+ *   - calculatedAt: Timestamp when calculation was performed
+ *
+ * Errors:
+ *   - 400 if fy is not a valid year
+ *   - 401 if not authenticated
+ */
+export const GET = withAuth(async (request, _context, userId) => {
+  const fyParam = request.nextUrl.searchParams.get("fy");
+  let financialYear = getCurrentFinancialYear();
+
+  if (fyParam) {
+    const parsed = parseInt(fyParam, 10);
+    if (isNaN(parsed) || parsed < 1900 || parsed > 2200) {
+      return NextResponse.json(
+        { error: "Invalid fy parameter. Must be a financial year such as 2026." },
+        { status: 400 }
+      );
+    }
+    financialYear = parsed;
+  }
+
+  const report = await getCapitalGainsReport(userId, financialYear);
+
+  return NextResponse.json({
+    ...report,
+    calculatedAt: report.calculatedAt.toISOString(),
+  });
+}, "calculating capital gains");
@@ -1,8 +1,10 @@
 import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
 import { transactions, holdings } from "@/lib/db/schema";
-import { eq, and, isNull, ne } from "drizzle-orm";
+import { eq, and, isNull } from "drizzle-orm";
 import { withAuth } from "@/lib/utils/with-auth";
+import { calculateFrankingCredit } from "@/lib/calculations/dividends";
+import { calculateQuantityHeld } from "@/lib/calculations/quantity";
 
 interface UpdateTransactionBody {
   date?: string;
@@ -10,6 +12,9 @@ interface UpdateTransactionBody {
   unit_price?: number | string;
   fees?: number | string;
   notes?: string;
+  franking_percent?: number | string | null;
+  franking_credit?: number | string | null;
+  withholding_tax?: number | string | null;
 }
 
 /**
@@ -20,7 +25,9 @@ interface UpdateTransactionBody {
  *
  * Response: Transaction object with nested holding
  *   { id, holdingId, date, action, quantity, unitPrice, fees, currency,
- *     notes, createdAt, updatedAt, holding: { id, name, symbol, type, currency, exchange } }
+ *     notes, frankingPercent, frankingCredit, withholdingTax, isDrp,
+ *     dividendTransactionId, createdAt, updatedAt,
+ *     holding: { id, name, symbol, type, currency, exchange } }
  *
  * Errors:
  *   - 401 if not authenticated
@@ -41,6 +48,11 @@ export const GET = withAuth(async (_request, context, userId) => {
       fees: transactions.fees,
       currency: transactions.currency,
       notes: transactions.notes,
+      frankingPercent: transactions.frankingPercent,
+      frankingCredit: transactions.frankingCredit,
+      withholdingTax: transactions.withholdingTax,
+      isDrp: transactions.isDrp,
+      dividendTransactionId: transactions.dividendTransactionId,
       createdAt: transactions.createdAt,
       updatedAt: transactions.updatedAt,
       holding: {
@@ -82,10 +94,19 @@ export const GET = withAuth(async (_request, context, userId) => {
  *   - unit_price: Non-negative number
  *   - fees: Non-negative number
  *   - notes: Free-text notes
+ *   - franking_percent, franking_credit, withholding_tax: DIVIDEND only
+ *     (null to clear). The franking credit is recalculated from the franked
+ *     percentage whenever the amount or percentage changes, unless
+ *     franking_credit is also supplied.
+ *   - A DRP dividend's date change also moves the BUY it reinvested into.
  *
  * Validation:
  *   - For SELL transactions: updated quantity must not exceed available holdings
  *     (calculated excluding the current transaction)
+ *   - For DIVIDEND transactions: withholding tax must not exceed the
+ *     dividend (quantity × unit price) after the update
+ *   - Lot selections on specific-lot SELLs are kept as recorded; if they no
+ *     longer cover the quantity, the remainder is matched FIFO
  *
  * Response: Updated Transaction object
  *
@@ -104,6 +125,10 @@ export const PATCH = withAuth(async (request, context, userId) => {
       holdingId: transactions.holdingId,
       action: transactions.action,
       quantity: transactions.quantity,
+      unitPrice: transactions.unitPrice,
+      frankingPercent: transactions.frankingPercent,
+      withholdingTax: transactions.withholdingTax,
+      isDrp: transactions.isDrp,
     })
     .from(transactions)
     .innerJoin(holdings, eq(transactions.holdingId, holdings.id))
@@ -179,46 +204,99 @@ export const PATCH = withAuth(async (request, context, userId) => {
     updates.notes = body.notes?.trim() || null;
   }
 
+  // Dividend-only fields
+  const dividendFieldsProvided =
+    body.franking_percent !== undefined ||
+    body.franking_credit !== undefined ||
+    body.withholding_tax !== undefined;
+
+  if (dividendFieldsProvided && existingTransaction.action !== "DIVIDEND") {
+    errors.action = "Franking and withholding tax only apply to DIVIDEND transactions";
+  } else if (existingTransaction.action === "DIVIDEND") {
+    if (body.franking_percent !== undefined) {
+      if (body.franking_percent === null || body.franking_percent === "") {
+        updates.frankingPercent = null;
+      } else {
+        const pct = Number(body.franking_percent);
+        if (isNaN(pct) || pct < 0 || pct > 100) {
+          errors.franking_percent = "Franking percentage must be between 0 and 100";
+        } else {
+          updates.frankingPercent = String(body.franking_percent);
+        }
+      }
+    }
+
+    if (body.franking_credit !== undefined) {
+      if (body.franking_credit === null || body.franking_credit === "") {
+        updates.frankingCredit = null;
+      } else {
+        const credit = Number(body.franking_credit);
+        if (isNaN(credit) || credit < 0) {
+          errors.franking_credit = "Franking credit must be a non-negative number";
+        } else {
+          updates.frankingCredit = String(body.franking_credit);
+        }
+      }
+    }
+
+    if (body.withholding_tax !== undefined) {
+      if (body.withholding_tax === null || body.withholding_tax === "") {
+        updates.withholdingTax = null;
+      } else {
+        const withheld = Number(body.withholding_tax);
+        if (isNaN(withheld) || withheld < 0) {
+          errors.withholding_tax = "Withholding tax must be a non-negative number";
+        } else {
+          updates.withholdingTax = String(body.withholding_tax);
+        }
+      }
+    }
+
+    // Withholding can't exceed the cash dividend, as it will be after this edit
+    const withholdingTax = updates.withholdingTax !== undefined
+      ? (updates.withholdingTax as string | null)
+      : existingTransaction.withholdingTax;
+    if (
+      withholdingTax !== null &&
+      !errors.quantity &&
+      !errors.unit_price &&
+      !errors.withholding_tax &&
+      Number(withholdingTax) >
+        Number(updates.quantity ?? existingTransaction.quantity) *
+          Number(updates.unitPrice ?? existingTransaction.unitPrice)
+    ) {
+      errors.withholding_tax = "Withholding tax cannot exceed the dividend";
+    }
+
+    // Keep the franking credit in step with the dividend amount
+    const amountChanged =
+      updates.quantity !== undefined ||
+      updates.unitPrice !== undefined ||
+      updates.frankingPercent !== undefined;
+    if (amountChanged && body.franking_credit === undefined) {
+      const pct = updates.frankingPercent !== undefined
+        ? (updates.frankingPercent as string | null)
+        : existingTransaction.frankingPercent;
+      updates.frankingCredit = pct === null
+        ? null
+        : String(
+            calculateFrankingCredit(
+              Number(updates.quantity ?? existingTransaction.quantity) *
+                Number(updates.unitPrice ?? existingTransaction.unitPrice),
+              Number(pct)
+            )
+          );
+    }
+  }
+
   // For SELL action: validate that updated sell quantity doesn't exceed current holdings
   // We need to calculate holdings EXCLUDING this transaction to get available quantity
   if (existingTransaction.action === "SELL" && updates.quantity && !errors.quantity) {
-    // Calculate current quantity excluding this transaction
-    const allTransactions = await db
-      .select({
-        id: transactions.id,
-        action: transactions.action,
-        quantity: transactions.quantity,
-        date: transactions.date,
-      })
-      .from(transactions)
-      .where(
-        and(
-          eq(transactions.holdingId, existingTransaction.holdingId),
-          isNull(transactions.deletedAt),
-          ne(transactions.id, id) // Exclude the current transaction
-        )
-      )
-      .orderBy(transactions.date);
-
-    // Calculate quantity held without this transaction
-    let quantityWithoutThis = 0;
-    for (const txn of allTransactions) {
-      const txnQuantity = Number(txn.quantity);
-      switch (txn.action) {
-        case "BUY":
-          quantityWithoutThis += txnQuantity;
-          break;
-        case "SELL":
-          quantityWithoutThis -= txnQuantity;
-          break;
-        case "SPLIT":
-          quantityWithoutThis *= txnQuantity;
-          break;
-        case "DIVIDEND":
-          // No effect
-          break;
-      }
-    }
+    const quantityWithoutThis = await calculateQuantityHeld(
+      existingTransaction.holdingId,
+      undefined,
+      id
+    );
 
     const newSellQuantity = Number(updates.quantity);
     if (newSellQuantity > quantityWithoutThis) {
@@ -243,20 +321,39 @@ export const PATCH = withAuth(async (request, context, userId) => {
   // Add updatedAt timestamp
   updates.updatedAt = new Date();
 
-  // Perform the update
-  const [updated] = await db
+  const updateTransaction = db
     .update(transactions)
     .set(updates)
     .where(eq(transactions.id, id))
     .returning();
 
+  // A DRP's reinvested lot is acquired on the dividend's date, so keep them together
+  if (existingTransaction.isDrp && updates.date !== undefined) {
+    const [[updated]] = await db.batch([
+      updateTransaction,
+      db
+        .update(transactions)
+        .set({ date: updates.date as string, updatedAt: updates.updatedAt as Date })
+        .where(
+          and(
+            eq(transactions.dividendTransactionId, id),
+            isNull(transactions.deletedAt)
+          )
+        ),
+    ]);
+    return NextResponse.json(updated);
+  }
+
+  const [updated] = await updateTransaction;
+
   return NextResponse.json(updated);
 }, "updating transaction");
 
 /**
  * DELETE /api/transactions/:id
  *
- * Soft-deletes a transaction by setting `deletedAt` timestamp.
+ * Soft-deletes a transaction by setting `deletedAt` timestamp. Deleting a
+ * DRP dividend also deletes the BUY it created.
  *
  * Response: The soft-deleted Transaction object (with deletedAt set)
  *
@@ -287,15 +384,31 @@ export const DELETE = withAuth(async (_request, context, userId) => {
     return NextResponse.json({ error: "Transaction not found" }, { status: 404 });
   }
 
-  // Soft delete: set deleted_at timestamp
-  const [deleted] = await db
-    .update(transactions)
-    .set({
-      deletedAt: new Date(),
-      updatedAt: new Date()
-    })
-    .where(eq(transactions.id, id))
-    .returning();
+  // Soft delete: set deleted_at timestamp, removing the reinvestment BUY of
+  // a DRP dividend along with it
+  const now = new Date();
+  const [[deleted]] = await db.batch([
+    db
+      .update(transactions)
+      .set({
+        deletedAt: now,
+        updatedAt: now
+      })
+      .where(eq(transactions.id, id))
+      .returning(),
+    db
+      .update(transactions)
+      .set({
+        deletedAt: now,
+        updatedAt: now,
+      })
+      .where(
+        and(
+          eq(transactions.dividendTransactionId, id),
+          isNull(transactions.deletedAt)
+        )
+      ),
+  ]);
 
   return NextResponse.json(deleted);
 }, "deleting transaction");
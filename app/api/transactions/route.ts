@@ -1,15 +1,25 @@
 import { NextResponse } from "next/server";
 import { db } from "@/lib/db";
-import { transactions, holdings, type NewTransaction } from "@/lib/db/schema";
+import {
+  transactions,
+  holdings,
+  type Holding,
+  type LotSelection,
+  type NewTransaction,
+} from "@/lib/db/schema";
 import { eq, isNull, and, desc } from "drizzle-orm";
 import { calculateQuantityHeld } from "@/lib/calculations/quantity";
+import { getOpenLots } from "@/lib/calculations/cost-basis";
+import { calculateFrankingCredit } from "@/lib/calculations/dividends";
 import { withAuth } from "@/lib/utils/with-auth";
 import {
   TRANSACTION_ACTIONS,
   CURRENCIES,
+  ENABLED_CURRENCIES,
   TRADEABLE_TYPES,
   type TransactionAction,
   type Currency,
+  isEnabledCurrency,
 } from "@/lib/constants";
 
 interface CreateTransactionBody {
@@ -21,6 +31,21 @@ interface CreateTransactionBody {
   fees?: number | string;
   currency?: string;
   notes?: string;
+  lot_selections?: Array<{
+    lot_transaction_id?: string;
+    quantity?: number | string;
+  }>;
+  franking_percent?: number | string;
+  franking_credit?: number | string;
+  withholding_tax?: number | string;
+  is_drp?: boolean;
+  drp_quantity?: number | string;
+  drp_unit_price?: number | string;
+}
+
+/** True if an optional numeric body field was supplied. */
+function isProvided(value: number | string | undefined | null): value is number | string {
+  return value !== undefined && value !== null && value !== "";
 }
 
 /**
@@ -32,11 +57,13 @@ interface CreateTransactionBody {
  * Query parameters:
  *   - holding_id: Filter to a specific holding's transactions
  *   - action: Filter by action type ("BUY" | "SELL" | "DIVIDEND" | "SPLIT")
- *   - currency: Filter by currency ("AUD" | "NZD" | "USD")
+ *   - currency: Filter by currency code (e.g. "AUD")
  *
  * Response: Array of transaction objects with nested holding info
  *   { id, holdingId, date, action, quantity, unitPrice, fees, currency,
- *     notes, createdAt, updatedAt, holding: { id, name, symbol, type, currency, exchange } }
+ *     notes, frankingPercent, frankingCredit, withholdingTax, isDrp,
+ *     dividendTransactionId, createdAt, updatedAt,
+ *     holding: { id, name, symbol, type, currency, exchange } }
  *
  * Errors:
  *   - 401 if not authenticated
@@ -80,6 +107,11 @@ export const GET = withAuth(async (request, _context, userId) => {
       fees: transactions.fees,
       currency: transactions.currency,
       notes: transactions.notes,
+      frankingPercent: transactions.frankingPercent,
+      frankingCredit: transactions.frankingCredit,
+      withholdingTax: transactions.withholdingTax,
+      isDrp: transactions.isDrp,
+      dividendTransactionId: transactions.dividendTransactionId,
       createdAt: transactions.createdAt,
       updatedAt: transactions.updatedAt,
       holding: {
@@ -110,15 +142,28 @@ export const GET = withAuth(async (request, _context, userId) => {
  *   - action: (required) "BUY" | "SELL" | "DIVIDEND" | "SPLIT"
  *   - quantity: (required) Positive number
  *   - unit_price: (required) Non-negative number
- *   - currency: (required) "AUD" | "NZD" | "USD"
+ *   - currency: (required) An enabled currency code (e.g. "AUD", "USD")
  *   - fees: (optional) Non-negative number (defaults to 0)
  *   - notes: (optional) Free-text notes
+ *   - lot_selections: (optional, SELL on specific-lot holdings only) Array of
+ *     { lot_transaction_id, quantity } naming the BUY lots the sale closes
+ *   - franking_percent: (optional, DIVIDEND only) Franked portion, 0-100
+ *   - franking_credit: (optional, DIVIDEND only) Overrides the credit
+ *     calculated from franking_percent at the 30% company tax rate
+ *   - withholding_tax: (optional, DIVIDEND only) Foreign tax withheld
+ *   - is_drp: (optional, DIVIDEND only) Dividend was reinvested; also creates
+ *     a BUY of drp_quantity units at drp_unit_price on the same date
+ *   - drp_quantity, drp_unit_price: (required when is_drp) Units allotted and
+ *     reinvestment price
  *
  * Validation:
  *   - Holding must exist, belong to user, and be a tradeable type
  *   - For SELL: quantity must not exceed current quantity held
+ *   - lot_selections must reference lots open on the trade date, take no more
+ *     than each lot's remaining units, and add up to the sell quantity
+ *   - withholding_tax must not exceed the cash dividend
  *
- * Response: 201 with the created Transaction object
+ * Response: 201 with the created Transaction object (the DIVIDEND for DRPs)
  *
  * Errors:
  *   - 400 with { errors } for validation failures or invalid JSON
@@ -183,8 +228,8 @@ export const POST = withAuth(async (request, _context, userId) => {
 
   if (!body.currency) {
     errors.currency = "Currency is required";
-  } else if (!CURRENCIES.includes(body.currency as Currency)) {
-    errors.currency = `Currency must be one of: ${CURRENCIES.join(", ")}`;
+  } else if (!isEnabledCurrency(body.currency)) {
+    errors.currency = `Currency must be one of: ${ENABLED_CURRENCIES.join(", ")}`;
   }
 
   // Validate fees if provided
@@ -196,8 +241,9 @@ export const POST = withAuth(async (request, _context, userId) => {
   }
 
   // If we have a holding_id, validate it exists and is tradeable
+  let holding: Holding | undefined;
   if (body.holding_id && !errors.holding_id) {
-    const [holding] = await db
+    [holding] = await db
       .select()
       .from(holdings)
       .where(
@@ -230,11 +276,119 @@ export const POST = withAuth(async (request, _context, userId) => {
     }
   }
 
+  // Validate lot selections for specific-lot SELLs
+  let lotSelections: LotSelection[] | null = null;
+  if (body.lot_selections !== undefined && body.lot_selections !== null) {
+    if (body.action !== "SELL" || holding?.costBasisMethod !== "specific_lot") {
+      errors.lot_selections =
+        "Lot selections only apply to SELL transactions on holdings using specific lot cost basis";
+    } else if (!Array.isArray(body.lot_selections) || body.lot_selections.length === 0) {
+      errors.lot_selections = "Select at least one lot";
+    } else if (!errors.quantity && !errors.date) {
+      const openLots = await getOpenLots(holding.id, holding.costBasisMethod, body.date);
+      const selections: LotSelection[] = [];
+
+      for (const selection of body.lot_selections) {
+        const lot = openLots.find(
+          (l) => l.transactionId === selection.lot_transaction_id
+        );
+        const quantity = Number(selection.quantity);
+        if (!lot) {
+          errors.lot_selections = "Selected lot is not open on the sell date";
+          break;
+        }
+        if (isNaN(quantity) || quantity <= 0) {
+          errors.lot_selections = "Lot quantities must be positive numbers";
+          break;
+        }
+        if (quantity > lot.remainingQuantity + 0.00000001) {
+          errors.lot_selections = `Only ${lot.remainingQuantity} units remain in the lot bought on ${lot.date}`;
+          break;
+        }
+        selections.push({ lotTransactionId: lot.transactionId, quantity });
+      }
+
+      const selectedTotal = selections.reduce((sum, s) => sum + s.quantity, 0);
+      if (
+        !errors.lot_selections &&
+        Math.abs(selectedTotal - Number(body.quantity)) > 0.00000001
+      ) {
+        errors.lot_selections = "Selected lot quantities must add up to the sell quantity";
+      }
+
+      lotSelections = selections;
+    }
+  }
+
+  // Validate dividend-only fields
+  const isDividend = body.action === "DIVIDEND";
+  const dividendFields = [
+    "franking_percent",
+    "franking_credit",
+    "withholding_tax",
+    "drp_quantity",
+    "drp_unit_price",
+  ] as const;
+  if (!isDividend && (body.is_drp || dividendFields.some((f) => isProvided(body[f])))) {
+    errors.action = "Franking, withholding tax and DRP details only apply to DIVIDEND transactions";
+  }
+
+  if (isDividend && isProvided(body.franking_percent)) {
+    const pct = Number(body.franking_percent);
+    if (isNaN(pct) || pct < 0 || pct > 100) {
+      errors.franking_percent = "Franking percentage must be between 0 and 100";
+    }
+  }
+
+  if (isDividend && isProvided(body.franking_credit)) {
+    const credit = Number(body.franking_credit);
+    if (isNaN(credit) || credit < 0) {
+      errors.franking_credit = "Franking credit must be a non-negative number";
+    }
+  }
+
+  if (isDividend && isProvided(body.withholding_tax)) {
+    const withheld = Number(body.withholding_tax);
+    if (isNaN(withheld) || withheld < 0) {
+      errors.withholding_tax = "Withholding tax must be a non-negative number";
+    } else if (
+      !errors.quantity &&
+      !errors.unit_price &&
+      withheld > Number(body.quantity) * Number(body.unit_price)
+    ) {
+      errors.withholding_tax = "Withholding tax cannot exceed the dividend";
+    }
+  }
+
+  if (isDividend && body.is_drp) {
+    const drpQuantity = Number(body.drp_quantity);
+    const drpUnitPrice = Number(body.drp_unit_price);
+    if (!isProvided(body.drp_quantity) || isNaN(drpQuantity) || drpQuantity <= 0) {
+      errors.drp_quantity = "DRP units must be a positive number";
+    }
+    if (!isProvided(body.drp_unit_price) || isNaN(drpUnitPrice) || drpUnitPrice <= 0) {
+      errors.drp_unit_price = "DRP price must be a positive number";
+    }
+  }
+
   // Return validation errors if any
   if (Object.keys(errors).length > 0) {
     return NextResponse.json({ errors }, { status: 400 });
   }
 
+  // Franking credit: explicit override, else derived from the franked percentage
+  let frankingCredit: string | null = null;
+  if (isDividend && isProvided(body.franking_credit)) {
+    frankingCredit = String(body.franking_credit);
+  } else if (isDividend && isProvided(body.franking_percent)) {
+    frankingCredit = String(
+      calculateFrankingCredit(
+        Number(body.quantity) * Number(body.unit_price),
+        Number(body.franking_percent)
+      )
+    );
+  }
+
   // Create the transaction
   const newTransaction: NewTransaction = {
     holdingId: body.holding_id!,
@@ -247,8 +401,38 @@ export const POST = withAuth(async (request, _context, userId) => {
       : "0",
     currency: body.currency as Currency,
     notes: body.notes?.trim() || null,
+    lotSelections,
+    frankingPercent: isDividend && isProvided(body.franking_percent)
+      ? String(body.franking_percent)
+      : null,
+    frankingCredit,
+    withholdingTax: isDividend && isProvided(body.withholding_tax)
+      ? String(body.withholding_tax)
+      : null,
+    isDrp: isDividend && body.is_drp === true,
   };
 
+  // A reinvested dividend opens a new lot at the DRP price. The dividend's id
+  // is generated up front so both rows go in one batch and land together.
+  if (newTransaction.isDrp) {
+    const dividendId = crypto.randomUUID();
+    const [[created]] = await db.batch([
+      db.insert(transactions).values({ ...newTransaction, id: dividendId }).returning(),
+      db.insert(transactions).values({
+        holdingId: newTransaction.holdingId,
+        date: newTransaction.date,
+        action: "BUY",
+        quantity: String(body.drp_quantity),
+        unitPrice: String(body.drp_unit_price),
+        fees: "0",
+        currency: newTransaction.currency,
+        notes: "Dividend reinvestment",
+        dividendTransactionId: dividendId,
+      }),
+    ]);
+    return NextResponse.json(created, { status: 201 });
+  }
+
   const [created] = await db.insert(transactions).values(newTransaction).returning();
 
   return NextResponse.json(created, { status: 201 });
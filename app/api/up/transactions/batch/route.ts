@@ -5,6 +5,12 @@ import { upTransactions, paydayConfig } from "@/lib/db/schema";
 import { eq, inArray } from "drizzle-orm";
 import { withN8nAuth } from "@/lib/api/up/middleware";
 import { mapUpCategory, isIncomeTransaction, mapCategoryToSaver } from "@/lib/budget/categorisation";
+import {
+  applyCategorisationRules,
+  getActiveCategorisationRules,
+  type RuleClassification,
+} from "@/lib/budget/rules";
+import { getIncomePayerPatterns } from "@/lib/budget/income";
 
 const transactionSchema = z.object({
   up_transaction_id: z.string().min(1),
@@ -17,8 +23,9 @@ const transactionSchema = z.object({
   transaction_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Must be YYYY-MM-DD format"),
   settled_at: z.string().optional(),
   is_transfer: z.boolean(),
+  account_id: z.string().optional(),
   mjolnir_category_id: z.string().optional(),
-  // Three-tier classification fields (from n8n rules engine)
+  // Three-tier classification fields from n8n (matching categorisation rules take precedence)
   saver: z.string().optional(),
   category: z.string().optional(),
   tags: z.array(z.string()).optional(),
@@ -90,16 +97,25 @@ export async function POST(request: NextRequest) {
       }])
     );
 
-    // Load income source pattern once for the batch
+    // Load income source pattern and confirmed income sources once for the batch
     const config = await db
       .select({ incomeSourcePattern: paydayConfig.incomeSourcePattern })
       .from(paydayConfig)
       .limit(1);
     const incomePattern = config[0]?.incomeSourcePattern ?? null;
+    const incomePayers = await getIncomePayerPatterns();
 
-    function resolveCategory(data: (typeof txns)[number]): string {
+    // Load categorisation rules once for the batch
+    const rules = await getActiveCategorisationRules();
+
+    // Priority: categorisation rule > n8n-provided > income detection > UP category mapping
+    function resolveCategory(
+      data: (typeof txns)[number],
+      ruleMatch: RuleClassification | null
+    ): string {
+      if (ruleMatch?.mjolnirCategoryId) return ruleMatch.mjolnirCategoryId;
       if (data.mjolnir_category_id) return data.mjolnir_category_id;
-      if (isIncomeTransaction(data.description, data.amount_cents, incomePattern)) {
+      if (isIncomeTransaction(data.description, data.amount_cents, incomePattern, incomePayers)) {
         return "income";
       }
       return mapUpCategory(data.up_category_id ?? null);
@@ -119,15 +135,31 @@ export async function POST(request: NextRequest) {
         transactionDate: data.transaction_date,
         settledAt: data.settled_at ? new Date(data.settled_at) : null,
         isTransfer: data.is_transfer,
+        ...(data.account_id !== undefined && { upAccountId: data.account_id }),
         updatedAt: new Date(),
       };
 
-      // Three-tier classification: use saver/category/tags from payload if provided
+      const ruleMatch = applyCategorisationRules(rules, {
+        description: data.description,
+        rawText: data.raw_text ?? null,
+        upCategoryId: data.up_category_id ?? null,
+        upAccountId: data.account_id ?? null,
+        amountCents: data.amount_cents,
+        isTransfer: data.is_transfer,
+      });
+
+      // Three-tier classification: a matching rule wins, then saver/category/tags from payload
       const hasThreeTier = data.saver !== undefined;
-      const resolvedCategoryId = resolveCategory(data);
+      const resolvedCategoryId = resolveCategory(data, ruleMatch);
       let threeTierFields: { saverKey?: string | null; categoryKey?: string | null; tags?: string[] };
 
-      if (hasThreeTier) {
+      if (ruleMatch?.saverKey) {
+        threeTierFields = {
+          saverKey: ruleMatch.saverKey,
+          categoryKey: ruleMatch.categoryKey,
+          tags: ruleMatch.tags,
+        };
+      } else if (hasThreeTier) {
         threeTierFields = {
           saverKey: data.saver ?? null,
           categoryKey: data.category ?? null,
@@ -139,6 +171,9 @@ export async function POST(request: NextRequest) {
         threeTierFields = mapped
           ? { saverKey: mapped.saverKey, categoryKey: mapped.categoryKey }
           : {};
+        if (ruleMatch && ruleMatch.tags.length > 0) {
+          threeTierFields.tags = ruleMatch.tags;
+        }
       }
 
       if (existingMap.has(data.up_transaction_id)) {
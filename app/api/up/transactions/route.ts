@@ -4,7 +4,13 @@ import { db } from "@/lib/db";
 import { upTransactions, paydayConfig } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
 import { withN8nAuth } from "@/lib/api/up/middleware";
-import { mapUpCategory, isIncomeTransaction } from "@/lib/budget/categorisation";
+import { mapUpCategory, isIncomeTransaction, mapCategoryToSaver } from "@/lib/budget/categorisation";
+import {
+  applyCategorisationRules,
+  getActiveCategorisationRules,
+  type RuleClassification,
+} from "@/lib/budget/rules";
+import { getIncomePayerPatterns } from "@/lib/budget/income";
 
 const transactionSchema = z.object({
   up_transaction_id: z.string().min(1),
@@ -17,6 +23,7 @@ const transactionSchema = z.object({
   transaction_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Must be YYYY-MM-DD format"),
   settled_at: z.string().nullable().optional(),
   is_transfer: z.boolean(),
+  account_id: z.string().nullable().optional(),
   mjolnir_category_id: z.string().optional(),
   main_category: z.string().optional(),
   sub_category: z.string().optional(),
@@ -60,28 +67,56 @@ export async function DELETE(request: NextRequest) {
 
 /**
  * Resolves the Mjolnir category for a transaction.
- * Priority: n8n-provided > income detection > UP category mapping > uncategorised
+ * Priority: categorisation rule > n8n-provided > income detection > UP category mapping > uncategorised
  */
 async function resolveCategory(
-  data: z.infer<typeof transactionSchema>
+  data: z.infer<typeof transactionSchema>,
+  ruleMatch: RuleClassification | null
 ): Promise<string> {
+  if (ruleMatch?.mjolnirCategoryId) return ruleMatch.mjolnirCategoryId;
   if (data.mjolnir_category_id) return data.mjolnir_category_id;
   if (data.main_category && data.main_category !== "uncategorised") return data.main_category;
 
-  // Load income source pattern from payday config
-  const config = await db
-    .select({ incomeSourcePattern: paydayConfig.incomeSourcePattern })
-    .from(paydayConfig)
-    .limit(1);
+  // Load confirmed income sources and the income source pattern from payday config
+  const [config, incomePayers] = await Promise.all([
+    db
+      .select({ incomeSourcePattern: paydayConfig.incomeSourcePattern })
+      .from(paydayConfig)
+      .limit(1),
+    getIncomePayerPatterns(),
+  ]);
   const incomePattern = config[0]?.incomeSourcePattern ?? null;
 
-  if (isIncomeTransaction(data.description, data.amount_cents, incomePattern)) {
+  if (isIncomeTransaction(data.description, data.amount_cents, incomePattern, incomePayers)) {
     return "income";
   }
 
   return mapUpCategory(data.up_category_id ?? null);
 }
 
+/**
+ * Resolves the three-tier saver/category/tags for a transaction: from the
+ * matching rules, falling back to the Mjolnir category's default saver.
+ */
+function resolveThreeTier(
+  ruleMatch: RuleClassification | null,
+  categoryId: string
+): { saverKey?: string | null; categoryKey?: string | null; tags?: string[] } {
+  if (ruleMatch?.saverKey) {
+    return {
+      saverKey: ruleMatch.saverKey,
+      categoryKey: ruleMatch.categoryKey,
+      tags: ruleMatch.tags,
+    };
+  }
+
+  const mapped = mapCategoryToSaver(categoryId);
+  return {
+    ...(mapped ?? {}),
+    ...(ruleMatch && ruleMatch.tags.length > 0 && { tags: ruleMatch.tags }),
+  };
+}
+
 export async function POST(request: NextRequest) {
   return withN8nAuth(request, async (body) => {
     const parsed = transactionSchema.safeParse(body);
@@ -94,9 +129,22 @@ export async function POST(request: NextRequest) {
 
     const data = parsed.data;
 
+    const ruleMatch = applyCategorisationRules(await getActiveCategorisationRules(), {
+      description: data.description,
+      rawText: data.raw_text ?? null,
+      upCategoryId: data.up_category_id ?? null,
+      upAccountId: data.account_id ?? null,
+      amountCents: data.amount_cents,
+      isTransfer: data.is_transfer,
+    });
+
     // Check if transaction already exists for upsert
     const existing = await db
-      .select({ id: upTransactions.id, mjolnirCategoryId: upTransactions.mjolnirCategoryId })
+      .select({
+        id: upTransactions.id,
+        mjolnirCategoryId: upTransactions.mjolnirCategoryId,
+        saverKey: upTransactions.saverKey,
+      })
       .from(upTransactions)
       .where(eq(upTransactions.upTransactionId, data.up_transaction_id))
       .limit(1);
@@ -107,7 +155,12 @@ export async function POST(request: NextRequest) {
       // Only set category if the existing record doesn't already have one (preserves manual overrides)
       const categoryId = existing[0].mjolnirCategoryId
         ? undefined
-        : await resolveCategory(data);
+        : await resolveCategory(data, ruleMatch);
+
+      // Likewise only classify into a saver if the record has none yet
+      const threeTierFields = existing[0].saverKey
+        ? {}
+        : resolveThreeTier(ruleMatch, categoryId ?? existing[0].mjolnirCategoryId!);
 
       const [updated] = await db
         .update(upTransactions)
@@ -121,7 +174,9 @@ export async function POST(request: NextRequest) {
           transactionDate: data.transaction_date,
           settledAt: data.settled_at ? new Date(data.settled_at) : null,
           isTransfer: data.is_transfer,
+          ...(data.account_id !== undefined && { upAccountId: data.account_id }),
           ...(categoryId !== undefined && { mjolnirCategoryId: categoryId }),
+          ...threeTierFields,
           updatedAt: new Date(),
         })
         .where(eq(upTransactions.upTransactionId, data.up_transaction_id))
@@ -129,7 +184,7 @@ export async function POST(request: NextRequest) {
 
       result = updated;
     } else {
-      const categoryId = await resolveCategory(data);
+      const categoryId = await resolveCategory(data, ruleMatch);
 
       const [inserted] = await db
         .insert(upTransactions)
@@ -145,6 +200,8 @@ export async function POST(request: NextRequest) {
           transactionDate: data.transaction_date,
           settledAt: data.settled_at ? new Date(data.settled_at) : null,
           isTransfer: data.is_transfer,
+          upAccountId: data.account_id ?? null,
+          ...resolveThreeTier(ruleMatch, categoryId),
         })
         .returning();
 
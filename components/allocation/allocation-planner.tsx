@@ -0,0 +1,284 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import Link from "next/link";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CurrencyDisplay } from "@/components/ui/currency-display";
+import { DriftTable, type AllocationGroup } from "@/components/allocation/drift-table";
+import { useCurrency } from "@/components/providers/currency-provider";
+import { queryKeys } from "@/lib/query-keys";
+import type { Currency } from "@/lib/utils/currency";
+import type { AllocationPlanMode, AllocationScope } from "@/lib/constants";
+
+interface PlannedOrder {
+  holdingId: string;
+  name: string;
+  symbol: string;
+  groupKey: string;
+  action: "BUY" | "SELL";
+  quantity: number;
+  price: number;
+  currency: string;
+  value: number;
+  estimatedGainAud: number | null;
+}
+
+interface CapitalGainsSummary {
+  nonDiscountableGains: number;
+  discountableGains: number;
+  totalLosses: number;
+  discountApplied: number;
+  netCapitalGain: number;
+}
+
+interface AllocationPlanResponse {
+  scope: AllocationScope;
+  mode: AllocationPlanMode;
+  hasTargets: boolean;
+  amount: number;
+  orders: PlannedOrder[];
+  totalBuys: number;
+  totalSells: number;
+  unallocatedCash: number;
+  before: AllocationGroup[];
+  after: AllocationGroup[];
+  capitalGains: CapitalGainsSummary | null;
+  estimatedTax: number | null;
+  displayCurrency: Currency;
+  calculatedAt: string;
+}
+
+interface PlanRequest {
+  scope: AllocationScope;
+  mode: AllocationPlanMode;
+  amount: number;
+  marginalTaxRate: number | null;
+  displayCurrency: Currency;
+}
+
+async function fetchPlan(request: PlanRequest): Promise<AllocationPlanResponse> {
+  const params = new URLSearchParams({
+    scope: request.scope,
+    mode: request.mode,
+    amount: String(request.amount),
+    displayCurrency: request.displayCurrency,
+  });
+  if (request.marginalTaxRate !== null) {
+    params.set("marginalTaxRate", String(request.marginalTaxRate));
+  }
+
+  const response = await fetch(`/api/allocation/plan?${params}`);
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error || "Failed to plan allocation");
+  }
+  return response.json();
+}
+
+interface AllocationPlannerProps {
+  scope: AllocationScope;
+}
+
+/**
+ * Proposes whole-unit orders for new cash (buy only), or a full rebalance
+ * with estimated CGT on the sales.
+ */
+export function AllocationPlanner({ scope }: AllocationPlannerProps) {
+  const { displayCurrency, isLoading: currencyLoading } = useCurrency();
+  const [mode, setMode] = useState<AllocationPlanMode>("buy");
+  const [amount, setAmount] = useState("");
+  const [taxRate, setTaxRate] = useState("");
+  const [request, setRequest] = useState<PlanRequest | null>(null);
+
+  const { data, isFetching, error } = useQuery({
+    queryKey: queryKeys.allocation.plan(request!),
+    queryFn: () => fetchPlan(request!),
+    enabled: request !== null && request.scope === scope && !currencyLoading,
+  });
+
+  const amountValue = amount.trim() ? Number(amount) : 0;
+  const taxRateValue = taxRate.trim() ? Number(taxRate) : null;
+  const isValid =
+    Number.isFinite(amountValue) &&
+    amountValue >= 0 &&
+    (mode === "rebalance" || amountValue > 0) &&
+    (taxRateValue === null || (taxRateValue >= 0 && taxRateValue <= 100));
+
+  const handlePlan = () => {
+    setRequest({
+      scope,
+      mode,
+      amount: amountValue,
+      marginalTaxRate: mode === "rebalance" ? taxRateValue : null,
+      displayCurrency,
+    });
+  };
+
+  const plan = request?.scope === scope ? data : undefined;
+
+  return (
+    <div className="rounded-lg border border-border bg-card/50 p-6">
+      <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide mb-4">
+        Planner
+      </h3>
+
+      <div className="flex items-center gap-1 bg-muted/50 rounded-lg p-1 w-fit mb-4">
+        {(["buy", "rebalance"] as const).map((m) => (
+          <button
+            key={m}
+            onClick={() => setMode(m)}
+            className={`px-3 py-1.5 rounded-md text-body-sm font-medium transition-colors ${
+              mode === m ? "bg-muted text-foreground" : "text-muted-foreground hover:text-foreground"
+            }`}
+          >
+            {m === "buy" ? "Invest cash" : "Full rebalance"}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+        <div className="space-y-2">
+          <Label htmlFor="plan-amount">
+            {mode === "buy" ? "Cash to invest" : "New cash (optional)"} ({displayCurrency})
+          </Label>
+          <Input
+            id="plan-amount"
+            type="number"
+            placeholder="0.00"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+          />
+        </div>
+        {mode === "rebalance" && (
+          <div className="space-y-2">
+            <Label htmlFor="plan-tax-rate">Marginal tax rate (%)</Label>
+            <Input
+              id="plan-tax-rate"
+              type="number"
+              placeholder="e.g. 32.5"
+              value={taxRate}
+              onChange={(e) => setTaxRate(e.target.value)}
+            />
+          </div>
+        )}
+        <Button onClick={handlePlan} disabled={!isValid || isFetching}>
+          {isFetching && <Loader2 className="animate-spin" />}
+          Plan orders
+        </Button>
+      </div>
+
+      {error && <p className="text-destructive mt-4">{error.message}</p>}
+
+      {plan && !plan.hasTargets && (
+        <p className="text-muted-foreground mt-6">Set targets for this scope to plan orders.</p>
+      )}
+
+      {plan && plan.hasTargets && (
+        <div className="mt-6 space-y-6">
+          {plan.orders.length === 0 ? (
+            <p className="text-muted-foreground">
+              No whole-unit trades would bring the portfolio closer to target. Tradeable
+              holdings need a cached price to be included.
+            </p>
+          ) : (
+            <div className="rounded-lg border border-border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-border hover:bg-transparent">
+                    <TableHead className="text-muted-foreground">Order</TableHead>
+                    <TableHead className="text-muted-foreground">Holding</TableHead>
+                    <TableHead className="text-muted-foreground text-right">Units</TableHead>
+                    <TableHead className="text-muted-foreground text-right hidden sm:table-cell">Price</TableHead>
+                    <TableHead className="text-muted-foreground text-right">Value</TableHead>
+                    {plan.mode === "rebalance" && (
+                      <TableHead className="text-muted-foreground text-right hidden md:table-cell">Est. Gain (AUD)</TableHead>
+                    )}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.orders.map((order) => (
+                    <TableRow key={`${order.action}-${order.holdingId}`} className="border-border">
+                      <TableCell className={order.action === "BUY" ? "text-positive" : "text-destructive"}>
+                        {order.action}
+                      </TableCell>
+                      <TableCell className="text-foreground font-medium">
+                        <Link href={`/holdings/${order.holdingId}`} className="hover:underline">
+                          {order.symbol}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground text-right font-mono">
+                        {order.quantity}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground text-right font-mono hidden sm:table-cell">
+                        <CurrencyDisplay amount={order.price} currency={order.currency as Currency} className="justify-end" />
+                      </TableCell>
+                      <TableCell className="text-foreground text-right font-mono">
+                        <CurrencyDisplay amount={order.value} currency={plan.displayCurrency} className="justify-end" />
+                      </TableCell>
+                      {plan.mode === "rebalance" && (
+                        <TableCell className="text-muted-foreground text-right font-mono hidden md:table-cell">
+                          {order.estimatedGainAud !== null ? (
+                            <CurrencyDisplay amount={order.estimatedGainAud} currency="AUD" className="justify-end" />
+                          ) : (
+                            "—"
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <p className="text-xs text-muted-foreground">Buys</p>
+              <CurrencyDisplay amount={plan.totalBuys} currency={plan.displayCurrency} className="text-lg font-semibold text-foreground" />
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Sells</p>
+              <CurrencyDisplay amount={plan.totalSells} currency={plan.displayCurrency} className="text-lg font-semibold text-foreground" />
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Cash Left Over</p>
+              <CurrencyDisplay amount={plan.unallocatedCash} currency={plan.displayCurrency} className="text-lg font-semibold text-foreground" />
+            </div>
+            {plan.capitalGains && (
+              <div>
+                <p className="text-xs text-muted-foreground">Net Capital Gain (AUD)</p>
+                <CurrencyDisplay amount={plan.capitalGains.netCapitalGain} currency="AUD" className="text-lg font-semibold text-foreground" />
+                {plan.estimatedTax !== null && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Est. tax{" "}
+                    <CurrencyDisplay amount={plan.estimatedTax} currency="AUD" className="inline-flex" />
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
+          <DriftTable groups={plan.before} after={plan.after} currency={plan.displayCurrency} />
+
+          <p className="text-xs text-muted-foreground">
+            Orders use cached prices and exclude brokerage.
+            {plan.mode === "rebalance" &&
+              " Capital gains apply the 50% discount to lots held over 12 months, and ignore other gains and losses this financial year."}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
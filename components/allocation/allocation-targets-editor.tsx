@@ -0,0 +1,316 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { showSuccess, showError } from "@/lib/toast-helpers";
+import { queryKeys } from "@/lib/query-keys";
+import type { Holding } from "@/lib/db/schema";
+import {
+  HOLDING_TYPE_LABELS,
+  HOLDING_TYPE_ORDER,
+  type AllocationScope,
+} from "@/lib/constants";
+
+// Debt has no share of total assets, so it cannot be targeted
+const TARGETABLE_TYPES = HOLDING_TYPE_ORDER.filter((t) => t !== "debt");
+
+interface AllocationTarget {
+  id: string;
+  scope: AllocationScope;
+  assetType: Holding["type"] | null;
+  holdingId: string | null;
+  holdingName: string | null;
+  bucketName: string | null;
+  bucketHoldingIds: string[] | null;
+  targetPercent: string;
+}
+
+interface TargetRow {
+  /** Client-side key for list rendering */
+  key: number;
+  assetType: string;
+  holdingId: string;
+  bucketName: string;
+  holdingIds: string[];
+  targetPercent: string;
+}
+
+class TargetValidationError extends Error {
+  constructor(public errors: Record<string, string>) {
+    super(Object.values(errors)[0] ?? "Failed to save targets");
+  }
+}
+
+async function fetchTargets(scope: AllocationScope): Promise<AllocationTarget[]> {
+  const response = await fetch(`/api/allocation/targets?scope=${scope}`);
+  if (!response.ok) {
+    throw new Error("Failed to fetch allocation targets");
+  }
+  return response.json();
+}
+
+async function fetchTargetableHoldings(): Promise<Holding[]> {
+  const response = await fetch("/api/holdings?include_dormant=true");
+  if (!response.ok) {
+    throw new Error("Failed to fetch holdings");
+  }
+  const holdings: Holding[] = await response.json();
+  return holdings.filter((h) => h.type !== "debt");
+}
+
+async function saveTargets(scope: AllocationScope, rows: TargetRow[]): Promise<void> {
+  const targets = rows.map((row) => ({
+    targetPercent: Number(row.targetPercent),
+    ...(scope === "asset_type" && { assetType: row.assetType }),
+    ...(scope === "holding" && { holdingId: row.holdingId }),
+    ...(scope === "bucket" && { bucketName: row.bucketName, holdingIds: row.holdingIds }),
+  }));
+
+  const response = await fetch("/api/allocation/targets", {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ scope, targets }),
+  });
+
+  if (!response.ok) {
+    const body = await response.json();
+    if (body.errors) {
+      throw new TargetValidationError(body.errors);
+    }
+    throw new Error(body.error || "Failed to save targets");
+  }
+}
+
+let nextRowKey = 0;
+
+function toRow(target?: AllocationTarget): TargetRow {
+  return {
+    key: nextRowKey++,
+    assetType: target?.assetType ?? "",
+    holdingId: target?.holdingId ?? "",
+    bucketName: target?.bucketName ?? "",
+    holdingIds: target?.bucketHoldingIds ?? [],
+    targetPercent: target ? String(Number(target.targetPercent)) : "",
+  };
+}
+
+interface TargetRowsFormProps {
+  scope: AllocationScope;
+  targets: AllocationTarget[];
+  holdings: Holding[];
+}
+
+function TargetRowsForm({ scope, targets, holdings }: TargetRowsFormProps) {
+  const queryClient = useQueryClient();
+  const [rows, setRows] = useState<TargetRow[]>(() => targets.map(toRow));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const mutation = useMutation({
+    mutationFn: () => saveTargets(scope, rows),
+    onSuccess: () => {
+      setErrors({});
+      queryClient.invalidateQueries({ queryKey: queryKeys.allocation.all });
+      showSuccess("Targets saved");
+    },
+    onError: (error: Error) => {
+      if (error instanceof TargetValidationError) {
+        setErrors(error.errors);
+      }
+      showError(error.message || "Failed to save targets");
+    },
+  });
+
+  const updateRow = (key: number, changes: Partial<TargetRow>) => {
+    setRows((current) => current.map((r) => (r.key === key ? { ...r, ...changes } : r)));
+  };
+
+  const toggleBucketHolding = (row: TargetRow, holdingId: string, checked: boolean) => {
+    updateRow(row.key, {
+      holdingIds: checked
+        ? [...row.holdingIds, holdingId]
+        : row.holdingIds.filter((id) => id !== holdingId),
+    });
+  };
+
+  const total = rows.reduce((sum, r) => sum + (Number(r.targetPercent) || 0), 0);
+  const fieldError = (index: number, field: string) => errors[`targets.${index}.${field}`];
+
+  return (
+    <div className="space-y-4">
+      {rows.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No targets yet. Everything counts as untargeted until you add one.
+        </p>
+      )}
+
+      {rows.map((row, index) => (
+        <div key={row.key} className="rounded-lg border border-border p-3 space-y-3">
+          <div className="flex items-start gap-2">
+            <div className="flex-1">
+              {scope === "asset_type" && (
+                <Select value={row.assetType} onValueChange={(v) => updateRow(row.key, { assetType: v })}>
+                  <SelectTrigger className="bg-card border border-border text-foreground">
+                    <SelectValue placeholder="Asset type" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-card border-border">
+                    {TARGETABLE_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {HOLDING_TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {scope === "holding" && (
+                <Select value={row.holdingId} onValueChange={(v) => updateRow(row.key, { holdingId: v })}>
+                  <SelectTrigger className="bg-card border border-border text-foreground">
+                    <SelectValue placeholder="Holding" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-card border-border">
+                    {holdings.map((h) => (
+                      <SelectItem key={h.id} value={h.id}>
+                        {h.symbol ? `${h.symbol} · ${h.name}` : h.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {scope === "bucket" && (
+                <Input
+                  value={row.bucketName}
+                  placeholder="Bucket name, e.g. Australian equities"
+                  onChange={(e) => updateRow(row.key, { bucketName: e.target.value })}
+                />
+              )}
+              {(fieldError(index, "assetType") ||
+                fieldError(index, "holdingId") ||
+                fieldError(index, "bucketName")) && (
+                <p className="text-xs text-destructive mt-1">
+                  {fieldError(index, "assetType") ??
+                    fieldError(index, "holdingId") ??
+                    fieldError(index, "bucketName")}
+                </p>
+              )}
+            </div>
+            <div className="w-28">
+              <div className="relative">
+                <Input
+                  type="number"
+                  value={row.targetPercent}
+                  placeholder="0"
+                  className="pr-7 text-right font-mono"
+                  onChange={(e) => updateRow(row.key, { targetPercent: e.target.value })}
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">
+                  %
+                </span>
+              </div>
+              {fieldError(index, "targetPercent") && (
+                <p className="text-xs text-destructive mt-1">{fieldError(index, "targetPercent")}</p>
+              )}
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              title="Remove target"
+              onClick={() => setRows((current) => current.filter((r) => r.key !== row.key))}
+            >
+              <Trash2 />
+            </Button>
+          </div>
+
+          {scope === "bucket" && (
+            <div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {holdings.map((h) => (
+                  <label key={h.id} className="flex items-center gap-2 text-sm text-foreground">
+                    <Checkbox
+                      checked={row.holdingIds.includes(h.id)}
+                      onCheckedChange={(checked) => toggleBucketHolding(row, h.id, checked === true)}
+                    />
+                    {h.symbol ? `${h.symbol} · ${h.name}` : h.name}
+                  </label>
+                ))}
+              </div>
+              {fieldError(index, "holdingIds") && (
+                <p className="text-xs text-destructive mt-1">{fieldError(index, "holdingIds")}</p>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <Button variant="outline" onClick={() => setRows((current) => [...current, toRow()])}>
+          <Plus />
+          Add target
+        </Button>
+        <div className="flex items-center gap-4">
+          <span className={`text-sm font-mono ${total > 100 ? "text-destructive" : "text-muted-foreground"}`}>
+            Total {total.toFixed(1)}%
+            {total < 100 && ` · ${(100 - total).toFixed(1)}% untargeted`}
+          </span>
+          <Button onClick={() => mutation.mutate()} disabled={mutation.isPending}>
+            {mutation.isPending && <Loader2 className="animate-spin" />}
+            Save targets
+          </Button>
+        </div>
+      </div>
+      {errors.targets && <p className="text-sm text-destructive">{errors.targets}</p>}
+    </div>
+  );
+}
+
+interface AllocationTargetsEditorProps {
+  scope: AllocationScope;
+}
+
+/**
+ * Edits the target weights for one allocation scope. Saving replaces every
+ * target in the scope.
+ */
+export function AllocationTargetsEditor({ scope }: AllocationTargetsEditorProps) {
+  const targetsQuery = useQuery({
+    queryKey: queryKeys.allocation.targets(scope),
+    queryFn: () => fetchTargets(scope),
+  });
+
+  const holdingsQuery = useQuery({
+    queryKey: queryKeys.holdings.targetable,
+    queryFn: fetchTargetableHoldings,
+    enabled: scope !== "asset_type",
+  });
+
+  const isLoading = targetsQuery.isLoading || (scope !== "asset_type" && holdingsQuery.isLoading);
+
+  return (
+    <div className="rounded-lg border border-border bg-card/50 p-6">
+      <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide mb-4">
+        Targets
+      </h3>
+      {isLoading ? (
+        <div className="animate-pulse h-24 bg-muted rounded" />
+      ) : targetsQuery.error || !targetsQuery.data ? (
+        <p className="text-destructive">Failed to load targets</p>
+      ) : (
+        <TargetRowsForm
+          key={targetsQuery.dataUpdatedAt}
+          scope={scope}
+          targets={targetsQuery.data}
+          holdings={holdingsQuery.data ?? []}
+        />
+      )}
+    </div>
+  );
+}
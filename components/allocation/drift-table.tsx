@@ -0,0 +1,101 @@
+"use client";
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CurrencyDisplay } from "@/components/ui/currency-display";
+import type { Currency } from "@/lib/utils/currency";
+
+/**
+ * Current vs target weight for one group, as returned by the allocation API.
+ */
+export interface AllocationGroup {
+  key: string;
+  label: string;
+  targetPercent: number;
+  currentValue: number;
+  currentPercent: number;
+  driftPercent: number;
+  driftValue: number;
+}
+
+/**
+ * Drift within which a group is shown as on target (percentage points).
+ */
+const ON_TARGET_TOLERANCE = 1;
+
+export function formatDrift(driftPercent: number): string {
+  const sign = driftPercent >= 0 ? "+" : "";
+  return `${sign}${driftPercent.toFixed(1)}%`;
+}
+
+export function getDriftColor(driftPercent: number): string {
+  if (Math.abs(driftPercent) < ON_TARGET_TOLERANCE) return "text-muted-foreground";
+  return driftPercent > 0 ? "text-warning" : "text-accent";
+}
+
+interface DriftTableProps {
+  groups: AllocationGroup[];
+  currency: Currency;
+  /** Allocation after planned orders, shown as an extra column */
+  after?: AllocationGroup[];
+}
+
+/**
+ * Target, current weight and drift per allocation group. Positive drift is
+ * overweight, negative underweight.
+ */
+export function DriftTable({ groups, currency, after }: DriftTableProps) {
+  const afterByKey = new Map(after?.map((g) => [g.key, g]));
+
+  return (
+    <div className="rounded-lg border border-border overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow className="border-border hover:bg-transparent">
+            <TableHead className="text-muted-foreground">Group</TableHead>
+            <TableHead className="text-muted-foreground text-right hidden sm:table-cell">Value</TableHead>
+            <TableHead className="text-muted-foreground text-right">Target</TableHead>
+            <TableHead className="text-muted-foreground text-right">Current</TableHead>
+            <TableHead className="text-muted-foreground text-right">Drift</TableHead>
+            {after && <TableHead className="text-muted-foreground text-right">After</TableHead>}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {groups.map((group) => {
+            const afterGroup = afterByKey.get(group.key);
+            return (
+              <TableRow key={group.key} className="border-border">
+                <TableCell className="text-foreground font-medium">{group.label}</TableCell>
+                <TableCell className="text-muted-foreground text-right font-mono hidden sm:table-cell">
+                  <CurrencyDisplay amount={group.currentValue} currency={currency} className="justify-end" />
+                </TableCell>
+                <TableCell className="text-muted-foreground text-right font-mono">
+                  {group.targetPercent.toFixed(1)}%
+                </TableCell>
+                <TableCell className="text-foreground text-right font-mono">
+                  {group.currentPercent.toFixed(1)}%
+                </TableCell>
+                <TableCell className={`text-right font-mono ${getDriftColor(group.driftPercent)}`}>
+                  {formatDrift(group.driftPercent)}
+                </TableCell>
+                {after && (
+                  <TableCell
+                    className={`text-right font-mono ${afterGroup ? getDriftColor(afterGroup.driftPercent) : "text-muted-foreground"}`}
+                  >
+                    {afterGroup ? formatDrift(afterGroup.driftPercent) : "—"}
+                  </TableCell>
+                )}
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -2,7 +2,12 @@
 
 import { useQuery } from "@tanstack/react-query";
 import { queryKeys } from "@/lib/query-keys";
-import { getDaysUntilPayday, findNextPayday } from "@/lib/budget/payday";
+import {
+  getDaysUntilPayday,
+  findNextPayday,
+  toPayCycleConfig,
+} from "@/lib/budget/payday";
+import type { PaydayConfig } from "@/lib/db/schema";
 import { Calendar } from "lucide-react";
 
 interface PaydayCountdownProps {
@@ -10,16 +15,11 @@ interface PaydayCountdownProps {
   totalDays: number;
 }
 
-interface PaydayApiResponse {
-  paydayDay: number;
-  adjustForWeekends: boolean;
-}
-
 export function PaydayCountdown({
   daysElapsed,
   totalDays,
 }: PaydayCountdownProps) {
-  const { data: config } = useQuery<PaydayApiResponse>({
+  const { data: config } = useQuery<PaydayConfig>({
     queryKey: queryKeys.budget.payday,
     queryFn: async () => {
       const res = await fetch("/api/budget/payday");
@@ -31,10 +31,7 @@ export function PaydayCountdown({
 
   if (!config) return null;
 
-  const settings = {
-    paydayDay: config.paydayDay,
-    adjustForWeekends: config.adjustForWeekends,
-  };
+  const settings = toPayCycleConfig(config);
   const daysUntil = getDaysUntilPayday(settings);
   const nextPayday = findNextPayday(new Date(), settings);
 
@@ -0,0 +1,627 @@
+"use client";
+
+import { useEffect, useState, type FormEvent } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { FlaskConical, Loader2 } from "lucide-react";
+import { queryKeys } from "@/lib/query-keys";
+import { showError, showSuccess } from "@/lib/toast-helpers";
+import { useBudgetSavers } from "@/lib/hooks/use-budget-savers";
+import {
+  RULE_MATCH_FIELDS,
+  RULE_MATCH_FIELD_LABELS,
+  RULE_MATCH_TYPES,
+  RULE_MATCH_TYPE_LABELS,
+  RULE_PREVIEW_DAYS,
+  type RuleMatchField,
+  type RuleMatchType,
+} from "@/lib/constants";
+import {
+  AnimatedDialog,
+  AnimatedDialogContent,
+  AnimatedDialogDescription,
+  AnimatedDialogFooter,
+  AnimatedDialogHeader,
+  AnimatedDialogTitle,
+} from "@/components/ui/animated-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Rule as returned by GET /api/budget/rules
+ */
+export interface CategorisationRuleResponse {
+  id: string;
+  name: string;
+  priority: number;
+  matchField: RuleMatchField;
+  matchType: RuleMatchType;
+  pattern: string;
+  minAmountCents: number | null;
+  maxAmountCents: number | null;
+  upAccountId: string | null;
+  isTransfer: boolean | null;
+  mjolnirCategoryId: string | null;
+  saverKey: string | null;
+  categoryKey: string | null;
+  tags: string[];
+  isActive: boolean;
+}
+
+export interface UpAccountOption {
+  upAccountId: string;
+  displayName: string;
+}
+
+interface BudgetCategoryOption {
+  id: string;
+  name: string;
+  saverId: string | null;
+}
+
+interface PreviewClassification {
+  mjolnirCategoryId: string | null;
+  saverKey: string | null;
+  categoryKey: string | null;
+  tags: string[];
+}
+
+interface RulePreview {
+  days: number;
+  transactionCount: number;
+  matchCount: number;
+  changedCount: number;
+  totalCents: number;
+  matches: {
+    id: string;
+    transactionDate: string;
+    description: string;
+    amountCents: number;
+    current: PreviewClassification;
+    proposed: PreviewClassification;
+    changed: boolean;
+    decidedBy: string | null;
+  }[];
+}
+
+/** Form state; numbers are strings so inputs can be blank. */
+interface RuleDraft {
+  name: string;
+  priority: string;
+  matchField: RuleMatchField;
+  matchType: RuleMatchType;
+  pattern: string;
+  minAmount: string;
+  maxAmount: string;
+  upAccountId: string;
+  transfer: "any" | "yes" | "no";
+  mjolnirCategoryId: string;
+  saverKey: string;
+  categoryKey: string;
+  tags: string;
+}
+
+// Select items cannot have an empty value, so "no condition/target" uses a sentinel
+const ANY = "any";
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function formatCents(cents: number): string {
+  return (cents / 100).toLocaleString("en-AU", {
+    style: "currency",
+    currency: "AUD",
+  });
+}
+
+function toDraft(rule: CategorisationRuleResponse | undefined, nextPriority: number): RuleDraft {
+  const toDollars = (cents: number | null) => (cents === null ? "" : String(cents / 100));
+  return {
+    name: rule?.name ?? "",
+    priority: String(rule?.priority ?? nextPriority),
+    matchField: rule?.matchField ?? "description",
+    matchType: rule?.matchType ?? "contains",
+    pattern: rule?.pattern ?? "",
+    minAmount: toDollars(rule?.minAmountCents ?? null),
+    maxAmount: toDollars(rule?.maxAmountCents ?? null),
+    upAccountId: rule?.upAccountId ?? ANY,
+    transfer: rule?.isTransfer === true ? "yes" : rule?.isTransfer === false ? "no" : "any",
+    mjolnirCategoryId: rule?.mjolnirCategoryId ?? ANY,
+    saverKey: rule?.saverKey ?? ANY,
+    categoryKey: rule?.categoryKey ?? "",
+    tags: rule?.tags.join(", ") ?? "",
+  };
+}
+
+/**
+ * Converts form state to the rules API body. Blank fields are sent as null.
+ */
+function toPayload(draft: RuleDraft) {
+  const toCents = (value: string) =>
+    value.trim() ? Math.round(Number(value) * 100) : null;
+  const hasSaver = draft.saverKey !== ANY && draft.categoryKey !== "";
+
+  return {
+    name: draft.name,
+    priority: Number(draft.priority),
+    matchField: draft.matchField,
+    matchType: draft.matchType,
+    pattern: draft.pattern,
+    minAmountCents: toCents(draft.minAmount),
+    maxAmountCents: toCents(draft.maxAmount),
+    upAccountId: draft.upAccountId === ANY ? null : draft.upAccountId,
+    isTransfer: draft.transfer === "any" ? null : draft.transfer === "yes",
+    mjolnirCategoryId: draft.mjolnirCategoryId === ANY ? null : draft.mjolnirCategoryId,
+    saverKey: hasSaver ? draft.saverKey : null,
+    categoryKey: hasSaver ? draft.categoryKey : null,
+    tags: draft.tags
+      .split(",")
+      .map((tag) => tag.trim().toLowerCase())
+      .filter(Boolean),
+  };
+}
+
+/**
+ * Throws the first validation message from a rules API error response.
+ */
+async function throwResponseError(response: Response, fallback: string): Promise<never> {
+  const data = await response.json().catch(() => ({}));
+  const firstError = data.errors ? Object.values(data.errors).flat()[0] : data.error;
+  throw new Error(typeof firstError === "string" ? firstError : fallback);
+}
+
+async function fetchCategories(): Promise<BudgetCategoryOption[]> {
+  const response = await fetch("/api/budget/categories");
+  if (!response.ok) {
+    throw new Error("Failed to fetch budget categories");
+  }
+  return response.json();
+}
+
+function describeClassification(value: PreviewClassification): string {
+  const parts = [];
+  if (value.saverKey) parts.push(`${value.saverKey} → ${value.categoryKey}`);
+  else if (value.mjolnirCategoryId) parts.push(value.mjolnirCategoryId);
+  if (value.tags.length > 0) parts.push(value.tags.map((t) => `#${t}`).join(" "));
+  return parts.join(" ") || "Uncategorised";
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+interface CategorisationRuleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Rule to edit; omit to create one */
+  rule?: CategorisationRuleResponse;
+  accounts: UpAccountOption[];
+  /** Priority a new rule starts with */
+  nextPriority: number;
+}
+
+/**
+ * Create or edit a categorisation rule, with a preview of the transactions
+ * from the last 90 days it matches and how syncing them now would classify
+ * them.
+ */
+export function CategorisationRuleDialog({
+  open,
+  onOpenChange,
+  rule,
+  accounts,
+  nextPriority,
+}: CategorisationRuleDialogProps) {
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<RuleDraft>(() => toDraft(rule, nextPriority));
+  const [preview, setPreview] = useState<RulePreview | null>(null);
+
+  const { data: savers = [] } = useBudgetSavers();
+  const { data: categories = [] } = useQuery({
+    queryKey: queryKeys.budget.categories,
+    queryFn: fetchCategories,
+  });
+
+  // Reset the form each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setDraft(toDraft(rule, nextPriority));
+      setPreview(null);
+    }
+  }, [open, rule, nextPriority]);
+
+  const update = <K extends keyof RuleDraft>(key: K, value: RuleDraft[K]) => {
+    setDraft((prev) => ({ ...prev, [key]: value }));
+    setPreview(null);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (payload: ReturnType<typeof toPayload>) => {
+      const response = await fetch(rule ? `/api/budget/rules/${rule.id}` : "/api/budget/rules", {
+        method: rule ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      if (!response.ok) {
+        await throwResponseError(response, "Failed to save rule");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      showSuccess(rule ? "Rule updated" : "Rule created");
+      queryClient.invalidateQueries({ queryKey: queryKeys.budget.rules });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      showError(error.message);
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (payload: ReturnType<typeof toPayload>): Promise<RulePreview> => {
+      const response = await fetch("/api/budget/rules/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...payload, ruleId: rule?.id }),
+      });
+      if (!response.ok) {
+        await throwResponseError(response, "Failed to test rule");
+      }
+      return response.json();
+    },
+    onSuccess: setPreview,
+    onError: (error: Error) => {
+      showError(error.message);
+    },
+  });
+
+  const selectedSaver = savers.find((s) => s.saverKey === draft.saverKey);
+  const flatCategories = categories.filter((c) => !c.saverId);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    saveMutation.mutate(toPayload(draft));
+  };
+
+  return (
+    <AnimatedDialog open={open} onOpenChange={onOpenChange}>
+      <AnimatedDialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <AnimatedDialogHeader>
+            <AnimatedDialogTitle>{rule ? "Edit Rule" : "Add Rule"}</AnimatedDialogTitle>
+            <AnimatedDialogDescription>
+              Matches are case-insensitive. Rules run lowest priority first.
+            </AnimatedDialogDescription>
+          </AnimatedDialogHeader>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="rule-name" className="text-muted-foreground text-sm">
+                Name
+              </Label>
+              <Input
+                id="rule-name"
+                value={draft.name}
+                onChange={(e) => update("name", e.target.value)}
+                placeholder="e.g. Woolworths"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-priority" className="text-muted-foreground text-sm">
+                Priority
+              </Label>
+              <Input
+                id="rule-priority"
+                type="number"
+                min={0}
+                step={1}
+                value={draft.priority}
+                onChange={(e) => update("priority", e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          {/* Match */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-field" className="text-muted-foreground text-sm">
+                When
+              </Label>
+              <Select
+                value={draft.matchField}
+                onValueChange={(value) => update("matchField", value as RuleMatchField)}
+              >
+                <SelectTrigger id="rule-field">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RULE_MATCH_FIELDS.map((f) => (
+                    <SelectItem key={f} value={f}>
+                      {RULE_MATCH_FIELD_LABELS[f]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-type" className="text-muted-foreground text-sm">
+                Match
+              </Label>
+              <Select
+                value={draft.matchType}
+                onValueChange={(value) => update("matchType", value as RuleMatchType)}
+              >
+                <SelectTrigger id="rule-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RULE_MATCH_TYPES.map((t) => (
+                    <SelectItem key={t} value={t}>
+                      {RULE_MATCH_TYPE_LABELS[t]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-pattern" className="text-muted-foreground text-sm">
+                Pattern
+              </Label>
+              <Input
+                id="rule-pattern"
+                value={draft.pattern}
+                onChange={(e) => update("pattern", e.target.value)}
+                placeholder={draft.matchField === "up_category_id" ? "groceries" : "WOOLWORTHS"}
+                className="font-mono"
+                required
+              />
+            </div>
+          </div>
+
+          {/* Conditions */}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-min" className="text-muted-foreground text-sm">
+                Min amount ($)
+              </Label>
+              <Input
+                id="rule-min"
+                type="number"
+                step="0.01"
+                value={draft.minAmount}
+                onChange={(e) => update("minAmount", e.target.value)}
+                placeholder="Any"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-max" className="text-muted-foreground text-sm">
+                Max amount ($)
+              </Label>
+              <Input
+                id="rule-max"
+                type="number"
+                step="0.01"
+                value={draft.maxAmount}
+                onChange={(e) => update("maxAmount", e.target.value)}
+                placeholder="Any"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-account" className="text-muted-foreground text-sm">
+                Account
+              </Label>
+              <Select value={draft.upAccountId} onValueChange={(value) => update("upAccountId", value)}>
+                <SelectTrigger id="rule-account">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any account</SelectItem>
+                  {accounts.map((a) => (
+                    <SelectItem key={a.upAccountId} value={a.upAccountId}>
+                      {a.displayName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-transfer" className="text-muted-foreground text-sm">
+                Transfers
+              </Label>
+              <Select
+                value={draft.transfer}
+                onValueChange={(value) => update("transfer", value as RuleDraft["transfer"])}
+              >
+                <SelectTrigger id="rule-transfer">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Either</SelectItem>
+                  <SelectItem value="yes">Transfers only</SelectItem>
+                  <SelectItem value="no">Not transfers</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground -mt-2">
+            Debits are negative: a max of -100 matches spending of $100 or more.
+          </p>
+
+          {/* Targets */}
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 pt-4 border-t border-border">
+            <div className="space-y-2">
+              <Label htmlFor="rule-saver" className="text-muted-foreground text-sm">
+                Saver
+              </Label>
+              <Select
+                value={draft.saverKey}
+                onValueChange={(value) => {
+                  update("saverKey", value);
+                  update("categoryKey", "");
+                }}
+              >
+                <SelectTrigger id="rule-saver">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Don&apos;t change</SelectItem>
+                  {savers.map((s) => (
+                    <SelectItem key={s.saverKey} value={s.saverKey}>
+                      {s.emoji} {s.displayName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-category" className="text-muted-foreground text-sm">
+                Category
+              </Label>
+              <Select
+                value={draft.categoryKey}
+                onValueChange={(value) => update("categoryKey", value)}
+                disabled={!selectedSaver}
+              >
+                <SelectTrigger id="rule-category">
+                  <SelectValue placeholder="Select a category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {selectedSaver?.categories
+                    .filter((c) => c.categoryKey)
+                    .map((c) => (
+                      <SelectItem key={c.id} value={c.categoryKey!}>
+                        {c.displayName}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-budget-category" className="text-muted-foreground text-sm">
+                Budget category
+              </Label>
+              <Select
+                value={draft.mjolnirCategoryId}
+                onValueChange={(value) => update("mjolnirCategoryId", value)}
+              >
+                <SelectTrigger id="rule-budget-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Don&apos;t change</SelectItem>
+                  {flatCategories.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>
+                      {c.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rule-tags" className="text-muted-foreground text-sm">
+              Tags
+            </Label>
+            <Input
+              id="rule-tags"
+              value={draft.tags}
+              onChange={(e) => update("tags", e.target.value)}
+              placeholder="woolworths, weekly"
+            />
+          </div>
+
+          {/* Preview */}
+          <div className="pt-4 border-t border-border space-y-3">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="gap-1.5"
+              onClick={() => previewMutation.mutate(toPayload(draft))}
+              disabled={previewMutation.isPending || !draft.pattern.trim()}
+            >
+              {previewMutation.isPending ? (
+                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+              ) : (
+                <FlaskConical className="h-3.5 w-3.5" />
+              )}
+              Test against last {RULE_PREVIEW_DAYS} days
+            </Button>
+
+            {preview && (
+              <div className="space-y-2">
+                <p className="text-sm text-foreground">
+                  Matches {preview.matchCount} of {preview.transactionCount} transactions
+                  {preview.matchCount > 0 && ` (${formatCents(preview.totalCents)})`}
+                  {preview.matchCount > 0 && `, ${preview.changedCount} would change`}.
+                </p>
+                {preview.matches.length > 0 && (
+                  <div className="max-h-64 overflow-y-auto rounded-md border border-border divide-y divide-border">
+                    {preview.matches.map((match) => (
+                      <div key={match.id} className="flex items-start justify-between gap-3 px-3 py-2 text-sm">
+                        <div className="min-w-0">
+                          <p className="text-foreground truncate">{match.description}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {format(parseISO(match.transactionDate), "d MMM yyyy")} ·{" "}
+                            {match.changed ? (
+                              <>
+                                {describeClassification(match.current)} →{" "}
+                                <span className="text-foreground">
+                                  {describeClassification(match.proposed)}
+                                </span>
+                              </>
+                            ) : (
+                              <>No change</>
+                            )}
+                          </p>
+                          {match.decidedBy && (
+                            <p className="text-xs text-warning">
+                              &ldquo;{match.decidedBy}&rdquo; runs first and takes precedence
+                            </p>
+                          )}
+                        </div>
+                        <span className="font-mono text-muted-foreground shrink-0">
+                          {formatCents(match.amountCents)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {preview.matchCount > preview.matches.length && (
+                  <p className="text-xs text-muted-foreground">
+                    Showing the latest {preview.matches.length} matches.
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
+          <AnimatedDialogFooter className="gap-2 sm:gap-0">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {rule ? "Save Rule" : "Add Rule"}
+            </Button>
+          </AnimatedDialogFooter>
+        </form>
+      </AnimatedDialogContent>
+    </AnimatedDialog>
+  );
+}
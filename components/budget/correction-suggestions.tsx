@@ -1,64 +1,71 @@
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { queryKeys } from "@/lib/query-keys";
 import { useBudgetSavers } from "@/lib/hooks/use-budget-savers";
 import { Button } from "@/components/ui/button";
-import { Lightbulb, X, Copy, Check } from "lucide-react";
-import { showSuccess, showInfo } from "@/lib/toast-helpers";
+import {
+  SuggestionRuleDialog,
+  type CorrectionSuggestion,
+} from "@/components/budget/suggestion-rule-dialog";
+import { Lightbulb, X, ListPlus } from "lucide-react";
+import { showError, showInfo } from "@/lib/toast-helpers";
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
-interface Suggestion {
-  merchantPattern: string;
-  suggestedSaverKey: string;
-  suggestedCategoryKey: string;
-  correctionCount: number;
-  exampleDescriptions: string[];
+interface SuggestionsResponse {
+  suggestions: CorrectionSuggestion[];
+  rulePriority: number;
 }
 
-interface SuggestionsResponse {
-  suggestions: Suggestion[];
+function makeSuggestionId(s: CorrectionSuggestion): string {
+  return `${s.merchantPattern}::${s.suggestedSaverKey}::${s.suggestedCategoryKey}`;
 }
 
-// ---------------------------------------------------------------------------
-// LocalStorage helpers for dismissed suggestions
-// ---------------------------------------------------------------------------
+// Dismissals used to live in localStorage under this key
+const LEGACY_DISMISSED_KEY = "mjolnir:dismissed-correction-suggestions";
 
-const DISMISSED_KEY = "mjolnir:dismissed-correction-suggestions";
+/**
+ * Moves dismissals saved by older versions to the server, once.
+ * Returns whether any were moved.
+ */
+async function migrateLegacyDismissals(): Promise<boolean> {
+  const stored = localStorage.getItem(LEGACY_DISMISSED_KEY);
+  if (!stored) return false;
 
-function getDismissedIds(): Set<string> {
-  if (typeof window === "undefined") return new Set();
+  let ids: string[] = [];
   try {
-    const stored = localStorage.getItem(DISMISSED_KEY);
-    return stored ? new Set(JSON.parse(stored) as string[]) : new Set();
+    ids = JSON.parse(stored) as string[];
   } catch {
-    return new Set();
+    // Unreadable — nothing worth keeping
   }
-}
 
-function dismissSuggestion(id: string) {
-  const dismissed = getDismissedIds();
-  dismissed.add(id);
-  localStorage.setItem(DISMISSED_KEY, JSON.stringify([...dismissed]));
-}
+  for (const id of ids) {
+    const [merchantPattern, saverKey, categoryKey] = id.split("::");
+    if (!merchantPattern || !saverKey || !categoryKey) continue;
+    const res = await fetch("/api/budget/corrections/suggestions/dismiss", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ merchantPattern, saverKey, categoryKey }),
+    });
+    if (!res.ok) throw new Error("Failed to migrate dismissed suggestions");
+  }
 
-function makeSuggestionId(s: Suggestion): string {
-  return `${s.merchantPattern}::${s.suggestedSaverKey}::${s.suggestedCategoryKey}`;
+  localStorage.removeItem(LEGACY_DISMISSED_KEY);
+  return ids.length > 0;
 }
 
 // ---------------------------------------------------------------------------
 // Fetch
 // ---------------------------------------------------------------------------
 
-async function fetchSuggestions(): Promise<Suggestion[]> {
+async function fetchSuggestions(): Promise<SuggestionsResponse> {
   const res = await fetch("/api/budget/corrections/suggestions");
   if (!res.ok) throw new Error("Failed to fetch correction suggestions");
-  const data: SuggestionsResponse = await res.json();
-  return data.suggestions;
+  return res.json();
 }
 
 // ---------------------------------------------------------------------------
@@ -67,7 +74,7 @@ async function fetchSuggestions(): Promise<Suggestion[]> {
 
 export function CorrectionSuggestions() {
   const queryClient = useQueryClient();
-  const { data: suggestions = [] } = useQuery<Suggestion[], Error>({
+  const { data } = useQuery<SuggestionsResponse, Error>({
     queryKey: queryKeys.budget.corrections.suggestions,
     queryFn: fetchSuggestions,
     staleTime: 60_000,
@@ -75,125 +82,128 @@ export function CorrectionSuggestions() {
 
   const { data: savers = [] } = useBudgetSavers();
 
-  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
-  const [copiedId, setCopiedId] = useState<string | null>(null);
-
-  // Load dismissed set on mount
-  useEffect(() => {
-    setDismissed(getDismissedIds());
-  }, []);
+  const [accepting, setAccepting] = useState<CorrectionSuggestion | null>(null);
 
-  const visible = suggestions.filter(
-    (s) => !dismissed.has(makeSuggestionId(s))
-  );
+  const suggestions = data?.suggestions ?? [];
 
-  const handleDismiss = useCallback(
-    (s: Suggestion) => {
-      const id = makeSuggestionId(s);
-      dismissSuggestion(id);
-      setDismissed((prev) => new Set([...prev, id]));
-      showInfo("Suggestion dismissed");
+  useEffect(() => {
+    migrateLegacyDismissals()
+      .then((migrated) => {
+        if (migrated) {
+          queryClient.invalidateQueries({ queryKey: queryKeys.budget.corrections.suggestions });
+        }
+      })
+      .catch(() => {
+        // Retried on the next visit, as the key is only removed on success
+      });
+  }, [queryClient]);
+
+  // Dismissals are stored server-side so suggestions stay dismissed across devices and periods
+  const dismissMutation = useMutation({
+    mutationFn: async (s: CorrectionSuggestion) => {
+      const res = await fetch("/api/budget/corrections/suggestions/dismiss", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          merchantPattern: s.merchantPattern,
+          saverKey: s.suggestedSaverKey,
+          categoryKey: s.suggestedCategoryKey,
+        }),
+      });
+      if (!res.ok) throw new Error("Failed to dismiss suggestion");
     },
-    []
-  );
-
-  const handleAccept = useCallback(
-    async (s: Suggestion) => {
-      // Build a rule JSON that could be imported into n8n
-      const rule = {
-        merchantPattern: s.merchantPattern,
-        saverKey: s.suggestedSaverKey,
-        categoryKey: s.suggestedCategoryKey,
-        correctionCount: s.correctionCount,
-        examples: s.exampleDescriptions,
-      };
-      await navigator.clipboard.writeText(JSON.stringify(rule, null, 2));
-      const id = makeSuggestionId(s);
-      setCopiedId(id);
-      showSuccess("Rule copied to clipboard");
-      // Auto-dismiss after copying
-      setTimeout(() => {
-        dismissSuggestion(id);
-        setDismissed((prev) => new Set([...prev, id]));
-        setCopiedId(null);
-        queryClient.invalidateQueries({
-          queryKey: queryKeys.budget.corrections.suggestions,
+    onMutate: async (s) => {
+      // Hide the suggestion immediately
+      await queryClient.cancelQueries({ queryKey: queryKeys.budget.corrections.suggestions });
+      const previous = queryClient.getQueryData<SuggestionsResponse>(
+        queryKeys.budget.corrections.suggestions
+      );
+      if (previous) {
+        queryClient.setQueryData<SuggestionsResponse>(queryKeys.budget.corrections.suggestions, {
+          ...previous,
+          suggestions: previous.suggestions.filter(
+            (other) => makeSuggestionId(other) !== makeSuggestionId(s)
+          ),
         });
-      }, 2000);
+      }
+      return { previous };
     },
-    [queryClient]
-  );
+    onSuccess: () => {
+      showInfo("Suggestion dismissed");
+    },
+    onError: (err: Error, _s, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKeys.budget.corrections.suggestions, context.previous);
+      }
+      showError(err.message);
+    },
+  });
 
   // Build saver lookup for display names
   const saverMap = new Map(
     savers.map((s) => [s.saverKey, s])
   );
 
-  if (visible.length === 0) return null;
+  const targetLabel = (s: CorrectionSuggestion) => {
+    const saver = saverMap.get(s.suggestedSaverKey);
+    return `${saver ? `${saver.emoji} ${saver.displayName}` : s.suggestedSaverKey} → ${s.suggestedCategoryKey}`;
+  };
 
   return (
-    <div className="space-y-3">
-      {visible.map((s) => {
-        const id = makeSuggestionId(s);
-        const saver = saverMap.get(s.suggestedSaverKey);
-        const saverLabel = saver
-          ? `${saver.emoji} ${saver.displayName}`
-          : s.suggestedSaverKey;
-
-        return (
-          <div
-            key={id}
-            className="rounded-lg border border-warning/30 bg-warning/5 p-4"
-          >
-            <div className="flex items-start gap-3">
-              <Lightbulb className="mt-0.5 h-5 w-5 shrink-0 text-warning" />
-              <div className="flex-1 min-w-0">
-                <p className="text-sm font-medium text-foreground">
-                  You&apos;ve corrected{" "}
-                  <span className="font-semibold">{s.merchantPattern}</span>{" "}
-                  to{" "}
-                  <span className="font-semibold">
-                    {saverLabel} &rarr; {s.suggestedCategoryKey}
-                  </span>{" "}
-                  {s.correctionCount} times. Add as a rule?
-                </p>
-                <p className="mt-1 text-xs text-muted-foreground">
-                  Examples: {s.exampleDescriptions.slice(0, 3).join(", ")}
-                </p>
-              </div>
-              <div className="flex items-center gap-2 shrink-0">
-                <Button
-                  size="sm"
-                  variant="outline"
-                  className="h-8 gap-1.5"
-                  onClick={() => handleAccept(s)}
-                >
-                  {copiedId === id ? (
-                    <>
-                      <Check className="h-3.5 w-3.5" />
-                      Copied
-                    </>
-                  ) : (
-                    <>
-                      <Copy className="h-3.5 w-3.5" />
-                      Copy Rule
-                    </>
-                  )}
-                </Button>
-                <Button
-                  size="sm"
-                  variant="ghost"
-                  className="h-8 w-8 p-0"
-                  onClick={() => handleDismiss(s)}
-                >
-                  <X className="h-4 w-4" />
-                  <span className="sr-only">Dismiss</span>
-                </Button>
+    <>
+      {suggestions.length > 0 && (
+        <div className="space-y-3">
+          {suggestions.map((s) => (
+            <div
+              key={makeSuggestionId(s)}
+              className="rounded-lg border border-warning/30 bg-warning/5 p-4"
+            >
+              <div className="flex items-start gap-3">
+                <Lightbulb className="mt-0.5 h-5 w-5 shrink-0 text-warning" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-foreground">
+                    You&apos;ve corrected{" "}
+                    <span className="font-semibold">{s.merchantPattern}</span>{" "}
+                    to{" "}
+                    <span className="font-semibold">{targetLabel(s)}</span>{" "}
+                    {s.correctionCount} times. Add as a rule?
+                  </p>
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    Examples: {s.exampleDescriptions.slice(0, 3).join(", ")}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="h-8 gap-1.5"
+                    onClick={() => setAccepting(s)}
+                  >
+                    <ListPlus className="h-3.5 w-3.5" />
+                    Create Rule
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-8 w-8 p-0"
+                    onClick={() => dismissMutation.mutate(s)}
+                  >
+                    <X className="h-4 w-4" />
+                    <span className="sr-only">Dismiss</span>
+                  </Button>
+                </div>
               </div>
             </div>
-          </div>
-        );
-      })}
-    </div>
+          ))}
+        </div>
+      )}
+
+      <SuggestionRuleDialog
+        suggestion={accepting}
+        onOpenChange={(open) => !open && setAccepting(null)}
+        rulePriority={data?.rulePriority ?? 0}
+        targetLabel={accepting ? targetLabel(accepting) : ""}
+      />
+    </>
   );
 }
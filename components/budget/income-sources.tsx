@@ -0,0 +1,378 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { BadgeDollarSign, Check, Loader2, Trash2, X } from "lucide-react";
+import { queryKeys } from "@/lib/query-keys";
+import { showError, showInfo, showSuccess } from "@/lib/toast-helpers";
+import {
+  INCOME_CADENCE_LABELS,
+  INCOME_SOURCE_KINDS,
+  INCOME_SOURCE_KIND_LABELS,
+  type IncomeCadence,
+  type IncomeSourceKind,
+} from "@/lib/constants";
+import type { IncomeSourceSummary } from "@/lib/hooks/use-budget-summary";
+import {
+  AnimatedDialog,
+  AnimatedDialogContent,
+  AnimatedDialogDescription,
+  AnimatedDialogFooter,
+  AnimatedDialogHeader,
+  AnimatedDialogTitle,
+} from "@/components/ui/animated-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface IncomeCandidate {
+  payerPattern: string;
+  suggestedName: string;
+  suggestedKind: IncomeSourceKind;
+  cadence: IncomeCadence;
+  typicalAmountCents: number;
+  depositCount: number;
+  lastDepositDate: string;
+  exampleDescriptions: string[];
+}
+
+interface IncomeSourcesResponse {
+  candidates: IncomeCandidate[];
+}
+
+function formatCents(cents: number): string {
+  return (cents / 100).toLocaleString("en-AU", {
+    style: "currency",
+    currency: "AUD",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Fetch
+// ---------------------------------------------------------------------------
+
+async function fetchIncomeSources(): Promise<IncomeSourcesResponse> {
+  const res = await fetch("/api/budget/income-sources");
+  if (!res.ok) throw new Error("Failed to fetch income sources");
+  return res.json();
+}
+
+// ---------------------------------------------------------------------------
+// Confirm dialog
+// ---------------------------------------------------------------------------
+
+interface ConfirmIncomeSourceDialogProps {
+  candidate: IncomeCandidate | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+function ConfirmIncomeSourceDialog({ candidate, onOpenChange }: ConfirmIncomeSourceDialogProps) {
+  return (
+    <AnimatedDialog open={candidate !== null} onOpenChange={onOpenChange}>
+      <AnimatedDialogContent className="sm:max-w-md">
+        {/* Keyed so the form starts from each candidate's suggestion */}
+        {candidate && (
+          <ConfirmIncomeSourceForm
+            key={candidate.payerPattern}
+            candidate={candidate}
+            onDone={() => onOpenChange(false)}
+          />
+        )}
+      </AnimatedDialogContent>
+    </AnimatedDialog>
+  );
+}
+
+function ConfirmIncomeSourceForm({
+  candidate,
+  onDone,
+}: {
+  candidate: IncomeCandidate;
+  onDone: () => void;
+}) {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState(candidate.suggestedName);
+  const [kind, setKind] = useState<IncomeSourceKind>(candidate.suggestedKind);
+
+  const confirmMutation = useMutation({
+    mutationFn: async (): Promise<{ reclassifiedCount: number }> => {
+      const res = await fetch("/api/budget/income-sources", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          payerPattern: candidate.payerPattern,
+          name,
+          kind,
+          cadence: candidate.cadence,
+          typicalAmountCents: candidate.typicalAmountCents,
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        const firstError = data.errors ? Object.values(data.errors).flat()[0] : data.error;
+        throw new Error(typeof firstError === "string" ? firstError : "Failed to confirm income source");
+      }
+      return res.json();
+    },
+    onSuccess: ({ reclassifiedCount }) => {
+      showSuccess(
+        `${name} added as an income source`,
+        reclassifiedCount > 0 ? `${reclassifiedCount} deposits marked as income` : undefined
+      );
+      queryClient.invalidateQueries({ queryKey: queryKeys.budget.incomeSources });
+      queryClient.invalidateQueries({ queryKey: ["budget", "summary"] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.budget.transactions.all });
+      onDone();
+    },
+    onError: (error: Error) => {
+      showError(error.message);
+    },
+  });
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    confirmMutation.mutate();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <AnimatedDialogHeader>
+        <AnimatedDialogTitle>Confirm Income Source</AnimatedDialogTitle>
+        <AnimatedDialogDescription>
+          Deposits from {candidate.payerPattern} will count as income and be tracked
+          separately in your budget.
+        </AnimatedDialogDescription>
+      </AnimatedDialogHeader>
+
+      <div className="space-y-2">
+        <Label htmlFor="income-source-name" className="text-muted-foreground text-sm">
+          Name
+        </Label>
+        <Input
+          id="income-source-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={100}
+          required
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="income-source-kind" className="text-muted-foreground text-sm">
+          Type
+        </Label>
+        <Select value={kind} onValueChange={(value) => setKind(value as IncomeSourceKind)}>
+          <SelectTrigger id="income-source-kind">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {INCOME_SOURCE_KINDS.map((k) => (
+              <SelectItem key={k} value={k}>
+                {INCOME_SOURCE_KIND_LABELS[k]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Seen {candidate.depositCount} times, {INCOME_CADENCE_LABELS[candidate.cadence].toLowerCase()},
+        around {formatCents(candidate.typicalAmountCents)}. Examples:{" "}
+        {candidate.exampleDescriptions.join(", ")}
+      </p>
+
+      <AnimatedDialogFooter>
+        <Button type="button" variant="outline" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={!name.trim() || confirmMutation.isPending}>
+          {confirmMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Confirm
+        </Button>
+      </AnimatedDialogFooter>
+    </form>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+interface IncomeSourcesProps {
+  /** This period's income per source, from the budget summary */
+  sources: IncomeSourceSummary[];
+}
+
+/**
+ * Income received this period per source, and recurring deposits detected
+ * in transaction history for the user to confirm or dismiss as income.
+ */
+export function IncomeSources({ sources }: IncomeSourcesProps) {
+  const queryClient = useQueryClient();
+  const { data } = useQuery<IncomeSourcesResponse, Error>({
+    queryKey: queryKeys.budget.incomeSources,
+    queryFn: fetchIncomeSources,
+    staleTime: 60_000,
+  });
+
+  const [confirming, setConfirming] = useState<IncomeCandidate | null>(null);
+
+  const candidates = data?.candidates ?? [];
+
+  const dismissMutation = useMutation({
+    mutationFn: async (candidate: IncomeCandidate) => {
+      const res = await fetch("/api/budget/income-sources/dismiss", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          payerPattern: candidate.payerPattern,
+          name: candidate.suggestedName,
+        }),
+      });
+      if (!res.ok) throw new Error("Failed to dismiss suggestion");
+    },
+    onMutate: async (candidate) => {
+      // Hide the candidate immediately
+      await queryClient.cancelQueries({ queryKey: queryKeys.budget.incomeSources });
+      const previous = queryClient.getQueryData<IncomeSourcesResponse>(
+        queryKeys.budget.incomeSources
+      );
+      if (previous) {
+        queryClient.setQueryData<IncomeSourcesResponse>(queryKeys.budget.incomeSources, {
+          ...previous,
+          candidates: previous.candidates.filter((c) => c.payerPattern !== candidate.payerPattern),
+        });
+      }
+      return { previous };
+    },
+    onSuccess: () => {
+      showInfo("Suggestion dismissed");
+    },
+    onError: (err: Error, _candidate, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKeys.budget.incomeSources, context.previous);
+      }
+      showError(err.message);
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (sourceId: string) => {
+      const res = await fetch(`/api/budget/income-sources/${sourceId}`, { method: "DELETE" });
+      if (!res.ok) throw new Error("Failed to remove income source");
+    },
+    onSuccess: () => {
+      showInfo("Income source removed");
+      queryClient.invalidateQueries({ queryKey: queryKeys.budget.incomeSources });
+      queryClient.invalidateQueries({ queryKey: ["budget", "summary"] });
+    },
+    onError: (err: Error) => {
+      showError(err.message);
+    },
+  });
+
+  if (sources.length === 0 && candidates.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border border-border bg-card/50 p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <BadgeDollarSign className="h-4 w-4 text-muted-foreground" />
+        <h2 className="text-sm font-medium text-foreground">Income Sources</h2>
+      </div>
+
+      {sources.length > 0 && (
+        <div className="divide-y divide-border">
+          {sources.map((source) => (
+            <div
+              key={source.sourceId ?? "other"}
+              className="flex items-center justify-between gap-3 py-2 text-sm"
+            >
+              <div className="min-w-0">
+                <p className="text-foreground truncate">{source.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {INCOME_SOURCE_KIND_LABELS[source.kind]} · {source.depositCount}{" "}
+                  {source.depositCount === 1 ? "deposit" : "deposits"} this period
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <span className="font-medium text-foreground">{formatCents(source.actualCents)}</span>
+                {source.sourceId && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-8 w-8 p-0"
+                    onClick={() => removeMutation.mutate(source.sourceId!)}
+                    disabled={removeMutation.isPending}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                    <span className="sr-only">Remove {source.name}</span>
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {candidates.map((candidate) => (
+        <div
+          key={candidate.payerPattern}
+          className="rounded-lg border border-warning/30 bg-warning/5 p-3"
+        >
+          <div className="flex items-start gap-3">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-foreground">
+                <span className="font-semibold">{candidate.payerPattern}</span> has paid you{" "}
+                {INCOME_CADENCE_LABELS[candidate.cadence].toLowerCase()}, around{" "}
+                {formatCents(candidate.typicalAmountCents)}. Is this income?
+              </p>
+              <p className="mt-1 text-xs text-muted-foreground">
+                {candidate.depositCount} deposits, last on{" "}
+                {format(parseISO(candidate.lastDepositDate), "d MMM yyyy")}
+              </p>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-8 gap-1.5"
+                onClick={() => setConfirming(candidate)}
+              >
+                <Check className="h-3.5 w-3.5" />
+                Confirm
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-8 w-8 p-0"
+                onClick={() => dismissMutation.mutate(candidate)}
+              >
+                <X className="h-4 w-4" />
+                <span className="sr-only">Dismiss</span>
+              </Button>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <ConfirmIncomeSourceDialog
+        candidate={confirming}
+        onOpenChange={(open) => !open && setConfirming(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,414 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { FlaskConical, Loader2 } from "lucide-react";
+import { queryKeys } from "@/lib/query-keys";
+import { showError, showSuccess, showSuccessWithUndo } from "@/lib/toast-helpers";
+import { useBudgetSavers } from "@/lib/hooks/use-budget-savers";
+import {
+  AnimatedDialog,
+  AnimatedDialogContent,
+  AnimatedDialogDescription,
+  AnimatedDialogFooter,
+  AnimatedDialogHeader,
+  AnimatedDialogTitle,
+} from "@/components/ui/animated-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+interface Period {
+  id: string;
+  startDate: string;
+  endDate: string;
+}
+
+interface Classification {
+  mjolnirCategoryId: string | null;
+  saverKey: string | null;
+  categoryKey: string | null;
+  tags: string[];
+}
+
+interface DryRun {
+  startDate: string;
+  endDate: string;
+  transactionCount: number;
+  protectedCount: number;
+  changedCount: number;
+  changes: {
+    id: string;
+    transactionDate: string;
+    description: string;
+    amountCents: number;
+    current: Classification;
+    proposed: Classification;
+  }[];
+  periods: {
+    periodId: string;
+    startDate: string;
+    endDate: string;
+    totals: {
+      saverKey: string | null;
+      categoryKey: string | null;
+      beforeCents: number;
+      afterCents: number;
+    }[];
+  }[];
+}
+
+type RangeBody = { periodId: string } | { startDate: string; endDate: string };
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function formatCents(cents: number): string {
+  return (cents / 100).toLocaleString("en-AU", {
+    style: "currency",
+    currency: "AUD",
+  });
+}
+
+function formatDateRange(start: string, end: string): string {
+  return `${format(parseISO(start), "d MMM")} – ${format(parseISO(end), "d MMM yyyy")}`;
+}
+
+function describeClassification(value: Classification): string {
+  const parts = [];
+  if (value.saverKey) parts.push(`${value.saverKey} → ${value.categoryKey}`);
+  else if (value.mjolnirCategoryId) parts.push(value.mjolnirCategoryId);
+  if (value.tags.length > 0) parts.push(value.tags.map((t) => `#${t}`).join(" "));
+  return parts.join(" ") || "Uncategorised";
+}
+
+async function fetchPeriods(): Promise<Period[]> {
+  const response = await fetch("/api/budget/periods");
+  if (!response.ok) {
+    throw new Error("Failed to fetch periods");
+  }
+  return response.json();
+}
+
+async function postRange(url: string, body: RangeBody, fallback: string) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    const firstError = data.errors ? Object.values(data.errors).flat()[0] : data.error;
+    throw new Error(typeof firstError === "string" ? firstError : fallback);
+  }
+  return response.json();
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+interface RecategoriseDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Re-run the categorisation rules over a past budget period or date range.
+ * Shows a dry run first; applying it can be undone as one batch.
+ */
+export function RecategoriseDialog({ open, onOpenChange }: RecategoriseDialogProps) {
+  const queryClient = useQueryClient();
+  const [mode, setMode] = useState<"period" | "range">("period");
+  const [periodId, setPeriodId] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [dryRun, setDryRun] = useState<DryRun | null>(null);
+
+  const { data: savers = [] } = useBudgetSavers();
+  const { data: periods = [] } = useQuery({
+    queryKey: queryKeys.budget.periods.all,
+    queryFn: fetchPeriods,
+  });
+
+  // Reset each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setDryRun(null);
+    }
+  }, [open]);
+
+  const body: RangeBody | null =
+    mode === "period"
+      ? periodId
+        ? { periodId }
+        : null
+      : startDate && endDate
+        ? { startDate, endDate }
+        : null;
+
+  const invalidateTransactions = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.budget.transactions.all });
+    queryClient.invalidateQueries({ queryKey: ["budget", "summary"] });
+    queryClient.invalidateQueries({ queryKey: queryKeys.budget.recategorisations });
+  };
+
+  const undoMutation = useMutation({
+    mutationFn: async (batchId: string) => {
+      const response = await fetch(`/api/budget/recategorise/${batchId}/undo`, { method: "PATCH" });
+      if (!response.ok) {
+        throw new Error("Failed to undo recategorisation");
+      }
+      return response.json() as Promise<{ restoredCount: number; skippedCount: number }>;
+    },
+    onSuccess: ({ restoredCount }) => {
+      showSuccess(`Restored ${restoredCount} transactions`);
+      invalidateTransactions();
+    },
+    onError: (error: Error) => {
+      showError(error.message);
+    },
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: (range: RangeBody): Promise<DryRun> =>
+      postRange("/api/budget/recategorise/preview", range, "Failed to preview recategorisation"),
+    onSuccess: setDryRun,
+    onError: (error: Error) => {
+      showError(error.message);
+    },
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: (range: RangeBody): Promise<{ batch: { id: string } | null; changedCount: number }> =>
+      postRange("/api/budget/recategorise", range, "Failed to recategorise transactions"),
+    onSuccess: ({ batch, changedCount }) => {
+      if (batch) {
+        showSuccessWithUndo(`Recategorised ${changedCount} transactions`, () =>
+          undoMutation.mutate(batch.id)
+        );
+      } else {
+        showSuccess("Nothing to recategorise");
+      }
+      invalidateTransactions();
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      showError(error.message);
+    },
+  });
+
+  const saverName = (saverKey: string | null, categoryKey: string | null) => {
+    if (!saverKey) return "Unassigned";
+    const saver = savers.find((s) => s.saverKey === saverKey);
+    const category = saver?.categories.find((c) => c.categoryKey === categoryKey);
+    return `${saver ? `${saver.emoji} ${saver.displayName}` : saverKey} → ${category?.displayName ?? categoryKey}`;
+  };
+
+  return (
+    <AnimatedDialog open={open} onOpenChange={onOpenChange}>
+      <AnimatedDialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <AnimatedDialogHeader>
+          <AnimatedDialogTitle>Re-run Rules</AnimatedDialogTitle>
+          <AnimatedDialogDescription>
+            Applies the current rules to past transactions. Transactions you corrected
+            by hand are left alone.
+          </AnimatedDialogDescription>
+        </AnimatedDialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="recategorise-mode" className="text-muted-foreground text-sm">
+                Over
+              </Label>
+              <Select
+                value={mode}
+                onValueChange={(value) => {
+                  setMode(value as "period" | "range");
+                  setDryRun(null);
+                }}
+              >
+                <SelectTrigger id="recategorise-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="period">A budget period</SelectItem>
+                  <SelectItem value="range">A date range</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {mode === "period" ? (
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="recategorise-period" className="text-muted-foreground text-sm">
+                  Period
+                </Label>
+                <Select
+                  value={periodId}
+                  onValueChange={(value) => {
+                    setPeriodId(value);
+                    setDryRun(null);
+                  }}
+                >
+                  <SelectTrigger id="recategorise-period">
+                    <SelectValue placeholder="Select a period" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {periods.map((p) => (
+                      <SelectItem key={p.id} value={p.id}>
+                        {formatDateRange(p.startDate, p.endDate)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="recategorise-start" className="text-muted-foreground text-sm">
+                    From
+                  </Label>
+                  <Input
+                    id="recategorise-start"
+                    type="date"
+                    value={startDate}
+                    onChange={(e) => {
+                      setStartDate(e.target.value);
+                      setDryRun(null);
+                    }}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="recategorise-end" className="text-muted-foreground text-sm">
+                    To
+                  </Label>
+                  <Input
+                    id="recategorise-end"
+                    type="date"
+                    value={endDate}
+                    onChange={(e) => {
+                      setEndDate(e.target.value);
+                      setDryRun(null);
+                    }}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="gap-1.5"
+            onClick={() => body && previewMutation.mutate(body)}
+            disabled={!body || previewMutation.isPending}
+          >
+            {previewMutation.isPending ? (
+              <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            ) : (
+              <FlaskConical className="h-3.5 w-3.5" />
+            )}
+            Dry run
+          </Button>
+
+          {dryRun && (
+            <div className="space-y-4">
+              <p className="text-sm text-foreground">
+                {dryRun.changedCount} of {dryRun.transactionCount} transactions would change
+                {dryRun.protectedCount > 0 &&
+                  `; ${dryRun.protectedCount} corrected by hand will be kept`}
+                .
+              </p>
+
+              {dryRun.periods.map((period) => (
+                <div key={period.periodId} className="space-y-1">
+                  <p className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                    {formatDateRange(period.startDate, period.endDate)}
+                  </p>
+                  <div className="rounded-md border border-border divide-y divide-border">
+                    {period.totals.map((total) => (
+                      <div
+                        key={`${total.saverKey}/${total.categoryKey}`}
+                        className="flex items-center justify-between gap-3 px-3 py-1.5 text-sm"
+                      >
+                        <span className="text-foreground truncate">
+                          {saverName(total.saverKey, total.categoryKey)}
+                        </span>
+                        <span className="font-mono text-muted-foreground shrink-0">
+                          {formatCents(total.beforeCents)} →{" "}
+                          <span
+                            className={
+                              total.afterCents > total.beforeCents ? "text-destructive" : "text-positive"
+                            }
+                          >
+                            {formatCents(total.afterCents)}
+                          </span>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+
+              {dryRun.changes.length > 0 && (
+                <div className="max-h-64 overflow-y-auto rounded-md border border-border divide-y divide-border">
+                  {dryRun.changes.map((change) => (
+                    <div key={change.id} className="flex items-start justify-between gap-3 px-3 py-2 text-sm">
+                      <div className="min-w-0">
+                        <p className="text-foreground truncate">{change.description}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {format(parseISO(change.transactionDate), "d MMM yyyy")} ·{" "}
+                          {describeClassification(change.current)} →{" "}
+                          <span className="text-foreground">
+                            {describeClassification(change.proposed)}
+                          </span>
+                        </p>
+                      </div>
+                      <span className="font-mono text-muted-foreground shrink-0">
+                        {formatCents(change.amountCents)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {dryRun.changedCount > dryRun.changes.length && (
+                <p className="text-xs text-muted-foreground">
+                  Showing the latest {dryRun.changes.length} changes.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <AnimatedDialogFooter className="gap-2 sm:gap-0">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={() => body && applyMutation.mutate(body)}
+            disabled={!dryRun || dryRun.changedCount === 0 || applyMutation.isPending}
+          >
+            {applyMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Apply {dryRun ? dryRun.changedCount : ""} changes
+          </Button>
+        </AnimatedDialogFooter>
+      </AnimatedDialogContent>
+    </AnimatedDialog>
+  );
+}
@@ -0,0 +1,379 @@
+"use client";
+
+import { useEffect, useState, type FormEvent } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Loader2, RefreshCw } from "lucide-react";
+import { queryKeys } from "@/lib/query-keys";
+import { showError, showSuccess, showSuccessWithUndo } from "@/lib/toast-helpers";
+import {
+  RULE_MATCH_TYPES,
+  RULE_MATCH_TYPE_LABELS,
+  RULE_PREVIEW_DAYS,
+  type RuleMatchType,
+} from "@/lib/constants";
+import {
+  AnimatedDialog,
+  AnimatedDialogContent,
+  AnimatedDialogDescription,
+  AnimatedDialogFooter,
+  AnimatedDialogHeader,
+  AnimatedDialogTitle,
+} from "@/components/ui/animated-dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Suggestion as returned by GET /api/budget/corrections/suggestions
+ */
+export interface CorrectionSuggestion {
+  merchantPattern: string;
+  suggestedSaverKey: string;
+  suggestedCategoryKey: string;
+  correctionCount: number;
+  exampleDescriptions: string[];
+}
+
+interface RulePreview {
+  days: number;
+  transactionCount: number;
+  matchCount: number;
+  changedCount: number;
+  matches: {
+    id: string;
+    transactionDate: string;
+    description: string;
+    amountCents: number;
+    current: { mjolnirCategoryId: string | null; saverKey: string | null; categoryKey: string | null };
+    changed: boolean;
+    decidedBy: string | null;
+  }[];
+}
+
+interface AcceptResponse {
+  rule: { id: string };
+  batch: { id: string } | null;
+  changedCount: number;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function formatCents(cents: number): string {
+  return (cents / 100).toLocaleString("en-AU", {
+    style: "currency",
+    currency: "AUD",
+  });
+}
+
+/** "WOOLWORTHS METRO" → "Woolworths Metro" */
+function toRuleName(merchantPattern: string): string {
+  return merchantPattern
+    .toLowerCase()
+    .replace(/\b\w/g, (c) => c.toUpperCase())
+    .slice(0, 100);
+}
+
+// ---------------------------------------------------------------------------
+// Component
+// ---------------------------------------------------------------------------
+
+interface SuggestionRuleDialogProps {
+  suggestion: CorrectionSuggestion | null;
+  onOpenChange: (open: boolean) => void;
+  /** Where the rule goes among the existing rules */
+  rulePriority: number;
+  /** Display label for the suggested saver/category */
+  targetLabel: string;
+}
+
+/**
+ * Turns a correction suggestion into a categorisation rule. The pattern is
+ * editable, with a preview of the recent transactions it matches, and the
+ * matching uncategorised transactions can be fixed at the same time.
+ */
+export function SuggestionRuleDialog({
+  suggestion,
+  onOpenChange,
+  rulePriority,
+  targetLabel,
+}: SuggestionRuleDialogProps) {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+  const [matchType, setMatchType] = useState<RuleMatchType>("contains");
+  const [pattern, setPattern] = useState("");
+  const [recategorise, setRecategorise] = useState(true);
+  // Pattern the preview was last run with; previewing on every keystroke is wasteful
+  const [previewed, setPreviewed] = useState<{ matchType: RuleMatchType; pattern: string } | null>(
+    null
+  );
+
+  // Reset the form for each suggestion
+  useEffect(() => {
+    if (suggestion) {
+      setName(toRuleName(suggestion.merchantPattern));
+      setMatchType("contains");
+      setPattern(suggestion.merchantPattern);
+      setRecategorise(true);
+      setPreviewed({ matchType: "contains", pattern: suggestion.merchantPattern });
+    }
+  }, [suggestion]);
+
+  const { data: preview, isFetching: previewLoading } = useQuery({
+    queryKey: queryKeys.budget.rulePreview({
+      saverKey: suggestion?.suggestedSaverKey,
+      categoryKey: suggestion?.suggestedCategoryKey,
+      matchType: previewed?.matchType,
+      pattern: previewed?.pattern,
+    }),
+    queryFn: async (): Promise<RulePreview> => {
+      const response = await fetch("/api/budget/rules/preview", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          matchField: "description",
+          matchType: previewed!.matchType,
+          pattern: previewed!.pattern,
+          saverKey: suggestion!.suggestedSaverKey,
+          categoryKey: suggestion!.suggestedCategoryKey,
+          priority: rulePriority,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error("Failed to preview rule");
+      }
+      return response.json();
+    },
+    enabled: suggestion !== null && previewed !== null && previewed.pattern.trim() !== "",
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: async (batchId: string) => {
+      const response = await fetch(`/api/budget/recategorise/${batchId}/undo`, { method: "PATCH" });
+      if (!response.ok) {
+        throw new Error("Failed to undo recategorisation");
+      }
+    },
+    onSuccess: () => {
+      showSuccess("Recategorisation undone");
+      queryClient.invalidateQueries({ queryKey: queryKeys.budget.transactions.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.budget.recategorisations });
+    },
+    onError: (error: Error) => {
+      showError(error.message);
+    },
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (): Promise<AcceptResponse> => {
+      const response = await fetch("/api/budget/corrections/suggestions/accept", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          merchantPattern: suggestion!.merchantPattern,
+          saverKey: suggestion!.suggestedSaverKey,
+          categoryKey: suggestion!.suggestedCategoryKey,
+          name,
+          matchType,
+          pattern,
+          priority: rulePriority,
+          recategorise,
+        }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        const firstError = data.errors ? Object.values(data.errors).flat()[0] : data.error;
+        throw new Error(typeof firstError === "string" ? firstError : "Failed to create rule");
+      }
+      return response.json();
+    },
+    onSuccess: ({ batch, changedCount }) => {
+      if (batch) {
+        showSuccessWithUndo(`Rule created and ${changedCount} transactions recategorised`, () =>
+          undoMutation.mutate(batch.id)
+        );
+      } else {
+        showSuccess("Rule created");
+      }
+      queryClient.invalidateQueries({ queryKey: queryKeys.budget.corrections.suggestions });
+      queryClient.invalidateQueries({ queryKey: queryKeys.budget.rules });
+      queryClient.invalidateQueries({ queryKey: queryKeys.budget.transactions.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.budget.recategorisations });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      showError(error.message);
+    },
+  });
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    acceptMutation.mutate();
+  };
+
+  const previewStale =
+    previewed !== null && (previewed.pattern !== pattern || previewed.matchType !== matchType);
+  const uncategorisedMatches =
+    preview?.matches.filter(
+      (m) => m.current.saverKey === null || m.current.mjolnirCategoryId === "uncategorised"
+    ).length ?? 0;
+
+  return (
+    <AnimatedDialog open={suggestion !== null} onOpenChange={onOpenChange}>
+      <AnimatedDialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <AnimatedDialogHeader>
+            <AnimatedDialogTitle>Create Rule</AnimatedDialogTitle>
+            <AnimatedDialogDescription>
+              Transactions whose description matches will go to {targetLabel}.
+            </AnimatedDialogDescription>
+          </AnimatedDialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="suggestion-name" className="text-muted-foreground text-sm">
+              Name
+            </Label>
+            <Input
+              id="suggestion-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="suggestion-match" className="text-muted-foreground text-sm">
+                Description
+              </Label>
+              <Select value={matchType} onValueChange={(value) => setMatchType(value as RuleMatchType)}>
+                <SelectTrigger id="suggestion-match">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RULE_MATCH_TYPES.map((t) => (
+                    <SelectItem key={t} value={t}>
+                      {RULE_MATCH_TYPE_LABELS[t]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="suggestion-pattern" className="text-muted-foreground text-sm">
+                Pattern
+              </Label>
+              <div className="flex gap-2">
+                <Input
+                  id="suggestion-pattern"
+                  value={pattern}
+                  onChange={(e) => setPattern(e.target.value)}
+                  className="font-mono"
+                  required
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  onClick={() => setPreviewed({ matchType, pattern })}
+                  disabled={!previewStale || !pattern.trim()}
+                  aria-label="Update preview"
+                >
+                  <RefreshCw className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+          {suggestion && (
+            <p className="text-xs text-muted-foreground -mt-2">
+              Corrected from: {suggestion.exampleDescriptions.slice(0, 3).join(", ")}
+            </p>
+          )}
+
+          {/* Preview */}
+          <div className="pt-4 border-t border-border space-y-2">
+            {previewLoading ? (
+              <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                Checking the last {RULE_PREVIEW_DAYS} days&hellip;
+              </p>
+            ) : preview ? (
+              <>
+                <p className="text-sm text-foreground">
+                  Matches {preview.matchCount} of {preview.transactionCount} transactions from the
+                  last {preview.days} days
+                  {previewStale && " (before your edits)"}.
+                </p>
+                {preview.matches.length > 0 && (
+                  <div className="max-h-56 overflow-y-auto rounded-md border border-border divide-y divide-border">
+                    {preview.matches.map((match) => (
+                      <div key={match.id} className="flex items-start justify-between gap-3 px-3 py-2 text-sm">
+                        <div className="min-w-0">
+                          <p className="text-foreground truncate">{match.description}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {format(parseISO(match.transactionDate), "d MMM yyyy")} ·{" "}
+                            {match.current.saverKey
+                              ? `${match.current.saverKey} → ${match.current.categoryKey}`
+                              : "Uncategorised"}
+                          </p>
+                          {match.decidedBy && (
+                            <p className="text-xs text-warning">
+                              &ldquo;{match.decidedBy}&rdquo; runs first and takes precedence
+                            </p>
+                          )}
+                        </div>
+                        <span className="font-mono text-muted-foreground shrink-0">
+                          {formatCents(match.amountCents)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            ) : null}
+          </div>
+
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id="suggestion-recategorise"
+              checked={recategorise}
+              onCheckedChange={(checked) => setRecategorise(checked === true)}
+              className="mt-0.5"
+            />
+            <Label htmlFor="suggestion-recategorise" className="text-sm font-normal leading-snug">
+              Also recategorise matching uncategorised transactions
+              {preview &&
+                uncategorisedMatches > 0 &&
+                ` (${uncategorisedMatches} in the last ${preview.days} days)`}
+              . You can undo this.
+            </Label>
+          </div>
+
+          <AnimatedDialogFooter className="gap-2 sm:gap-0">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={acceptMutation.isPending}>
+              {acceptMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Create Rule
+            </Button>
+          </AnimatedDialogFooter>
+        </form>
+      </AnimatedDialogContent>
+    </AnimatedDialog>
+  );
+}
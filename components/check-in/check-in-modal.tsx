@@ -27,13 +27,22 @@ import {
   Landmark,
   Wallet,
   CreditCard,
+  Home,
+  Car,
   AlertTriangle,
   Check,
 } from "lucide-react";
 import { CheckinStepper } from "@/components/check-in/checkin-stepper";
 import { MonthSelector } from "@/components/check-in/month-selector";
 import { useFormShake } from "@/hooks/use-form-shake";
-import { CURRENCY_SYMBOLS, type Currency } from "@/lib/constants";
+import {
+  CURRENCY_SYMBOLS,
+  SUPER_DEDUCTION_FIELDS,
+  SUPER_DEDUCTION_LABELS,
+  isRealAsset,
+  type Currency,
+  type SuperDeductionField,
+} from "@/lib/constants";
 import { queryKeys } from "@/lib/query-keys";
 
 // Holding data from check-in status API
@@ -99,6 +108,8 @@ async function fetchHoldingsForMonth(month: string): Promise<{
 const typeLabels: Record<string, string> = {
   super: "Superannuation",
   cash: "Cash",
+  property: "Property",
+  vehicle: "Vehicles",
   debt: "Debt",
 };
 
@@ -106,18 +117,28 @@ const typeLabels: Record<string, string> = {
 const typeIcons: Record<string, typeof Landmark> = {
   super: Landmark,
   cash: Wallet,
+  property: Home,
+  vehicle: Car,
   debt: CreditCard,
 };
 
 // Type order for grouping
-const typeOrder = ["super", "cash", "debt"];
+const typeOrder = ["super", "cash", "property", "vehicle", "debt"];
 
 // Check-in save request body
 interface CheckInSaveBody {
   month: string;
-  super?: { holdingId: string; balance: string; employerContrib?: string; employeeContrib?: string }[];
+  super?: ({
+    holdingId: string;
+    balance: string;
+    employerContrib?: string;
+    employeeContrib?: string;
+    nonConcessionalContrib?: string;
+  } & Partial<Record<SuperDeductionField, string>>)[];
   cash?: { holdingId: string; balance: string }[];
   debt?: { holdingId: string; balance: string }[];
+  property?: { holdingId: string; balance: string }[];
+  vehicle?: { holdingId: string; balance: string }[];
 }
 
 // Save check-in data
@@ -147,9 +168,23 @@ async function saveCheckIn(body: CheckInSaveBody): Promise<{
 const holdingEntrySchema = z.object({
   holdingId: z.string().min(1),
   type: z.string(),
-  balance: z.string().min(1, "Balance is required"),
+  balance: z.string(),
   employerContrib: z.string().optional().default(""),
   employeeContrib: z.string().optional().default(""),
+  nonConcessionalContrib: z.string().optional().default(""),
+  adminFees: z.string().optional().default(""),
+  investmentFees: z.string().optional().default(""),
+  insurancePremiums: z.string().optional().default(""),
+  contributionsTax: z.string().optional().default(""),
+}).superRefine((data, ctx) => {
+  // Property and vehicle valuations are periodic, so they may be left blank
+  if (!isRealAsset(data.type) && data.balance.trim() === "") {
+    ctx.addIssue({
+      code: "custom",
+      message: "Balance is required",
+      path: ["balance"],
+    });
+  }
 });
 
 const checkInFormSchema = z.object({
@@ -169,10 +204,14 @@ interface HoldingEntryProps {
   balance: string;
   employerContrib: string;
   employeeContrib: string;
+  nonConcessionalContrib: string;
+  deductions: Record<SuperDeductionField, string>;
   showContributions: boolean;
   onBalanceChange: (value: string) => void;
   onEmployerContribChange: (value: string) => void;
   onEmployeeContribChange: (value: string) => void;
+  onNonConcessionalContribChange: (value: string) => void;
+  onDeductionChange: (field: SuperDeductionField, value: string) => void;
   onToggleContributions: () => void;
   error?: string;
 }
@@ -182,10 +221,14 @@ function SuperHoldingEntry({
   balance,
   employerContrib,
   employeeContrib,
+  nonConcessionalContrib,
+  deductions,
   showContributions,
   onBalanceChange,
   onEmployerContribChange,
   onEmployeeContribChange,
+  onNonConcessionalContribChange,
+  onDeductionChange,
   onToggleContributions,
   error,
 }: HoldingEntryProps) {
@@ -240,8 +283,8 @@ function SuperHoldingEntry({
               <ChevronRight className="w-4 h-4" />
             )}
             {showContributions
-              ? "Hide Contributions"
-              : "Add Contributions"}
+              ? "Hide Contributions & Fees"
+              : "Add Contributions & Fees"}
           </button>
 
           <AnimatePresence initial={false}>
@@ -290,6 +333,43 @@ function SuperHoldingEntry({
                       />
                     </div>
                   </div>
+                  <div className="flex items-center justify-between">
+                    <label className="text-sm text-muted-foreground">
+                      After-tax Contribution
+                    </label>
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-muted-foreground">{currencySymbol}</span>
+                      <Input
+                        type="number"
+                        placeholder="0.00"
+                        value={nonConcessionalContrib}
+                        onChange={(e) => onNonConcessionalContribChange(e.target.value)}
+                        className="w-28 bg-background border-border text-foreground text-right"
+                        step="0.01"
+                        min="0"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground pt-1">Deducted by the fund (optional)</p>
+                  {SUPER_DEDUCTION_FIELDS.map((field) => (
+                    <div key={field} className="flex items-center justify-between">
+                      <label className="text-sm text-muted-foreground">
+                        {SUPER_DEDUCTION_LABELS[field]}
+                      </label>
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm text-muted-foreground">{currencySymbol}</span>
+                        <Input
+                          type="number"
+                          placeholder="0.00"
+                          value={deductions[field]}
+                          onChange={(e) => onDeductionChange(field, e.target.value)}
+                          className="w-28 bg-background border-border text-foreground text-right"
+                          step="0.01"
+                          min="0"
+                        />
+                      </div>
+                    </div>
+                  ))}
                 </div>
               </motion.div>
             )}
@@ -331,7 +411,7 @@ function BalanceHoldingEntry({
           <span className="text-sm text-muted-foreground">{currencySymbol}</span>
           <Input
             type="number"
-            placeholder="Balance"
+            placeholder={isRealAsset(holding.type) ? "Valuation" : "Balance"}
             value={balance}
             onChange={(e) => onBalanceChange(e.target.value)}
             className={`w-32 bg-background text-foreground text-right ${error ? "border-destructive" : "border-border"}`}
@@ -443,6 +523,11 @@ export function CheckInModal({ open, onOpenChange }: CheckInModalProps) {
           balance: "",
           employerContrib,
           employeeContrib,
+          nonConcessionalContrib: "",
+          adminFees: "",
+          investmentFees: "",
+          insurancePremiums: "",
+          contributionsTax: "",
         };
       }
     );
@@ -489,13 +574,24 @@ export function CheckInModal({ open, onOpenChange }: CheckInModalProps) {
     (holdingId: string) => {
       const idx = holdingIndexMap[holdingId];
       if (idx === undefined) {
-        return { balance: "", employerContrib: "", employeeContrib: "" };
+        return {
+          balance: "",
+          employerContrib: "",
+          employeeContrib: "",
+          nonConcessionalContrib: "",
+          deductionsTotal: 0,
+        };
       }
       const h = watchedHoldings[idx];
       return {
         balance: h?.balance ?? "",
         employerContrib: h?.employerContrib ?? "",
         employeeContrib: h?.employeeContrib ?? "",
+        nonConcessionalContrib: h?.nonConcessionalContrib ?? "",
+        deductionsTotal: SUPER_DEDUCTION_FIELDS.reduce(
+          (sum, field) => sum + (parseFloat(h?.[field] ?? "") || 0),
+          0
+        ),
       };
     },
     [holdingIndexMap, watchedHoldings]
@@ -575,6 +671,8 @@ export function CheckInModal({ open, onOpenChange }: CheckInModalProps) {
       queryClient.invalidateQueries({ queryKey: queryKeys.checkIn.status });
       queryClient.invalidateQueries({ queryKey: queryKeys.snapshots.all });
       queryClient.invalidateQueries({ queryKey: queryKeys.contributions.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.super.caps });
+      queryClient.invalidateQueries({ queryKey: queryKeys.super.fees });
       queryClient.invalidateQueries({ queryKey: queryKeys.holdings.all });
 
       // Show success toast
@@ -606,6 +704,11 @@ export function CheckInModal({ open, onOpenChange }: CheckInModalProps) {
         balance: h.balance,
         employerContrib: h.employerContrib || undefined,
         employeeContrib: h.employeeContrib || undefined,
+        nonConcessionalContrib: h.nonConcessionalContrib || undefined,
+        adminFees: h.adminFees || undefined,
+        investmentFees: h.investmentFees || undefined,
+        insurancePremiums: h.insurancePremiums || undefined,
+        contributionsTax: h.contributionsTax || undefined,
       }));
     if (superEntries.length > 0) body.super = superEntries;
 
@@ -625,6 +728,28 @@ export function CheckInModal({ open, onOpenChange }: CheckInModalProps) {
       }));
     if (debtEntries.length > 0) body.debt = debtEntries;
 
+    // Blank property/vehicle valuations keep the previous valuation
+    const propertyEntries = formValues.holdings
+      .filter((h) => h.type === "property" && h.balance.trim() !== "")
+      .map((h) => ({
+        holdingId: h.holdingId,
+        balance: h.balance,
+      }));
+    if (propertyEntries.length > 0) body.property = propertyEntries;
+
+    const vehicleEntries = formValues.holdings
+      .filter((h) => h.type === "vehicle" && h.balance.trim() !== "")
+      .map((h) => ({
+        holdingId: h.holdingId,
+        balance: h.balance,
+      }));
+    if (vehicleEntries.length > 0) body.vehicle = vehicleEntries;
+
+    if (!body.super && !body.cash && !body.debt && !body.property && !body.vehicle) {
+      toastError("Enter at least one balance or valuation");
+      return;
+    }
+
     saveMutation.mutate(body);
   };
 
@@ -792,6 +917,16 @@ export function CheckInModal({ open, onOpenChange }: CheckInModalProps) {
                                 Enter as positive number (e.g., 5000 for $5,000 owed)
                               </p>
                             )}
+                            {type === "property" && (
+                              <p className="text-sm text-muted-foreground">
+                                Enter a new valuation, or leave blank to keep the last one
+                              </p>
+                            )}
+                            {type === "vehicle" && (
+                              <p className="text-sm text-muted-foreground">
+                                Leave blank to keep the last valuation, or the depreciated purchase price if none
+                              </p>
+                            )}
                             <div className="space-y-2">
                               {holdings.map((holding) => {
                                 const fieldIdx = holdingIndexMap[holding.id];
@@ -808,10 +943,19 @@ export function CheckInModal({ open, onOpenChange }: CheckInModalProps) {
                                       balance={watchedHoldings[fieldIdx]?.balance ?? ""}
                                       employerContrib={watchedHoldings[fieldIdx]?.employerContrib ?? ""}
                                       employeeContrib={watchedHoldings[fieldIdx]?.employeeContrib ?? ""}
+                                      nonConcessionalContrib={watchedHoldings[fieldIdx]?.nonConcessionalContrib ?? ""}
+                                      deductions={{
+                                        adminFees: watchedHoldings[fieldIdx]?.adminFees ?? "",
+                                        investmentFees: watchedHoldings[fieldIdx]?.investmentFees ?? "",
+                                        insurancePremiums: watchedHoldings[fieldIdx]?.insurancePremiums ?? "",
+                                        contributionsTax: watchedHoldings[fieldIdx]?.contributionsTax ?? "",
+                                      }}
                                       showContributions={!!showContributions[holding.id]}
                                       onBalanceChange={(val) => form.setValue(`holdings.${fieldIdx}.balance`, val, { shouldValidate: form.formState.isSubmitted })}
                                       onEmployerContribChange={(val) => form.setValue(`holdings.${fieldIdx}.employerContrib`, val)}
                                       onEmployeeContribChange={(val) => form.setValue(`holdings.${fieldIdx}.employeeContrib`, val)}
+                                      onNonConcessionalContribChange={(val) => form.setValue(`holdings.${fieldIdx}.nonConcessionalContrib`, val)}
+                                      onDeductionChange={(field, val) => form.setValue(`holdings.${fieldIdx}.${field}`, val)}
                                       onToggleContributions={() => toggleContributions(holding.id)}
                                       error={fieldErrors}
                                     />
@@ -882,6 +1026,7 @@ export function CheckInModal({ open, onOpenChange }: CheckInModalProps) {
                       {(data?.holdings || []).map((holding) => {
                         const { balance } = getHoldingData(holding.id);
                         const Icon = typeIcons[holding.type];
+                        if (balance.trim() === "") return null;
 
                         return (
                           <div
@@ -975,13 +1120,20 @@ export function CheckInModal({ open, onOpenChange }: CheckInModalProps) {
                           </h3>
                           <div className="space-y-1.5">
                             {holdings.map((holding) => {
-                              const { balance, employerContrib, employeeContrib } = getHoldingData(holding.id);
+                              const {
+                                balance,
+                                employerContrib,
+                                employeeContrib,
+                                nonConcessionalContrib,
+                                deductionsTotal,
+                              } = getHoldingData(holding.id);
 
                               const prevBalance = data?.previousBalances?.[holding.id];
+                              const isUnchanged = balance.trim() === "";
                               const newNum = parseFloat(balance);
                               const prevNum = prevBalance ? parseFloat(prevBalance) : null;
                               const hasPrevious = prevNum !== null && !isNaN(prevNum);
-                              const changeAmount = hasPrevious ? newNum - prevNum : null;
+                              const changeAmount = hasPrevious && !isUnchanged ? newNum - prevNum : null;
 
                               // For debt: decrease is positive (green), increase is negative (red)
                               const isDebt = type === "debt";
@@ -1019,7 +1171,7 @@ export function CheckInModal({ open, onOpenChange }: CheckInModalProps) {
                                       </div>
 
                                       {/* Contributions for super */}
-                                      {type === "super" && (employerContrib || employeeContrib) && (
+                                      {type === "super" && (employerContrib || employeeContrib || nonConcessionalContrib || deductionsTotal > 0) && (
                                         <div className="mt-1 flex gap-3 text-xs text-muted-foreground">
                                           {employerContrib && (
                                             <span>Employer: {formatCurrency(employerContrib, holding.currency)}</span>
@@ -1027,6 +1179,12 @@ export function CheckInModal({ open, onOpenChange }: CheckInModalProps) {
                                           {employeeContrib && (
                                             <span>Employee: {formatCurrency(employeeContrib, holding.currency)}</span>
                                           )}
+                                          {nonConcessionalContrib && (
+                                            <span>After-tax: {formatCurrency(nonConcessionalContrib, holding.currency)}</span>
+                                          )}
+                                          {deductionsTotal > 0 && (
+                                            <span>Fees &amp; tax: {formatCurrency(String(deductionsTotal), holding.currency)}</span>
+                                          )}
                                         </div>
                                       )}
                                     </div>
@@ -1034,7 +1192,7 @@ export function CheckInModal({ open, onOpenChange }: CheckInModalProps) {
                                     <div className="text-right shrink-0">
                                       {/* New balance */}
                                       <span className="text-sm font-medium text-foreground">
-                                        {formatCurrency(balance, holding.currency)}
+                                        {isUnchanged ? "No new valuation" : formatCurrency(balance, holding.currency)}
                                       </span>
 
                                       {/* Change amount with direction arrow */}
@@ -14,7 +14,16 @@ import {
 } from "recharts";
 import { ChartSkeleton, ChartError } from "@/components/charts";
 import { NumberTicker } from "@/components/dashboard/number-ticker";
-import { STOCK, ETF, CRYPTO, SUPER, CASH, CATEGORY_FALLBACK } from "@/lib/chart-palette";
+import {
+  STOCK,
+  ETF,
+  CRYPTO,
+  SUPER,
+  CASH,
+  PROPERTY,
+  VEHICLE,
+  CATEGORY_FALLBACK,
+} from "@/lib/chart-palette";
 import { useCallback } from "react";
 import { motion, useReducedMotion } from "framer-motion";
 import { fadeIn } from "@/lib/animations";
@@ -29,7 +38,7 @@ interface HoldingValue {
 }
 
 interface AssetTypeBreakdown {
-  type: "stock" | "etf" | "crypto" | "super" | "cash";
+  type: "stock" | "etf" | "crypto" | "super" | "cash" | "property" | "vehicle";
   totalValue: number;
   count: number;
   holdings: HoldingValue[];
@@ -69,6 +78,10 @@ function getAssetDisplayName(type: string): string {
       return "Superannuation";
     case "cash":
       return "Cash";
+    case "property":
+      return "Property";
+    case "vehicle":
+      return "Vehicles";
     default:
       return type;
   }
@@ -89,6 +102,10 @@ function getAssetHexColor(type: string): string {
       return SUPER;
     case "cash":
       return CASH;
+    case "property":
+      return PROPERTY;
+    case "vehicle":
+      return VEHICLE;
     default:
       return CATEGORY_FALLBACK;
   }
@@ -2,6 +2,7 @@
 
 import { useEffect, useState, useRef } from "react";
 import { useQuery } from "@tanstack/react-query";
+import Link from "next/link";
 import { queryKeys } from "@/lib/query-keys";
 import { motion, AnimatePresence, useReducedMotion } from "framer-motion";
 import { useCurrency } from "@/components/providers/currency-provider";
@@ -12,6 +13,8 @@ import {
   Bitcoin,
   PiggyBank,
   Banknote,
+  Home,
+  Car,
   BarChart3,
   PieChartIcon,
 } from "lucide-react";
@@ -26,6 +29,11 @@ import {
 import { ChartExportButton } from "@/components/charts";
 import { NumberTicker } from "@/components/dashboard/number-ticker";
 import { fadeIn, staggerContainer, staggerItem } from "@/lib/animations";
+import {
+  formatDrift,
+  getDriftColor,
+  type AllocationGroup,
+} from "@/components/allocation/drift-table";
 
 type ViewMode = "bars" | "pie";
 
@@ -38,10 +46,13 @@ interface HoldingValue {
   value: number;
   currency: string;
   valueNative: number;
+  linkedDebtValue?: number;
+  equity?: number;
+  lvr?: number | null;
 }
 
 interface AssetTypeBreakdown {
-  type: "stock" | "etf" | "crypto" | "super" | "cash";
+  type: "stock" | "etf" | "crypto" | "super" | "cash" | "property" | "vehicle";
   totalValue: number;
   count: number;
   holdings: HoldingValue[];
@@ -58,6 +69,21 @@ interface NetWorthResponse {
   calculatedAt: string;
 }
 
+interface AllocationDriftResponse {
+  hasTargets: boolean;
+  groups: AllocationGroup[];
+}
+
+async function fetchAssetTypeDrift(displayCurrency: Currency): Promise<AllocationDriftResponse> {
+  const response = await fetch(
+    `/api/allocation/drift?scope=asset_type&displayCurrency=${displayCurrency}`
+  );
+  if (!response.ok) {
+    throw new Error("Failed to fetch allocation drift");
+  }
+  return response.json();
+}
+
 async function fetchNetWorth(displayCurrency: Currency): Promise<NetWorthResponse> {
   const response = await fetch(`/api/net-worth?displayCurrency=${displayCurrency}`);
   if (!response.ok) {
@@ -78,6 +104,10 @@ function getAssetIcon(type: string): React.ReactNode {
       return <PiggyBank className="h-5 w-5" />;
     case "cash":
       return <Banknote className="h-5 w-5" />;
+    case "property":
+      return <Home className="h-5 w-5" />;
+    case "vehicle":
+      return <Car className="h-5 w-5" />;
     default:
       return <TrendingUp className="h-5 w-5" />;
   }
@@ -95,6 +125,10 @@ function getAssetDisplayName(type: string): string {
       return "Superannuation";
     case "cash":
       return "Cash";
+    case "property":
+      return "Property";
+    case "vehicle":
+      return "Vehicles";
     default:
       return type;
   }
@@ -112,6 +146,10 @@ function getAssetColor(type: string): string {
       return "bg-emerald-500";
     case "cash":
       return "bg-cyan-500";
+    case "property":
+      return "bg-amber-500";
+    case "vehicle":
+      return "bg-rose-500";
     default:
       return "bg-gray-500";
   }
@@ -129,11 +167,31 @@ function getAssetHexColor(type: string): string {
       return "#10B981";
     case "cash":
       return "#06B6D4";
+    case "property":
+      return "#F59E0B";
+    case "vehicle":
+      return "#F43F5E";
     default:
       return "#6B7280";
   }
 }
 
+/**
+ * Equity and LVR across a group's holdings, counting only linked loans.
+ * Returns null when no holding in the group has a linked loan.
+ */
+function getGroupEquity(holdings: HoldingValue[]): { equity: number; lvr: number | null } | null {
+  if (!holdings.some((h) => h.linkedDebtValue !== undefined)) {
+    return null;
+  }
+  const value = holdings.reduce((sum, h) => sum + h.value, 0);
+  const debt = holdings.reduce((sum, h) => sum + (h.linkedDebtValue ?? 0), 0);
+  return {
+    equity: value - debt,
+    lvr: value > 0 ? (debt / value) * 100 : null,
+  };
+}
+
 function AllocationSkeleton() {
   return (
     <div className="rounded-2xl glass-card p-4 sm:p-6">
@@ -165,6 +223,10 @@ interface AllocationItemProps {
   count: number;
   currency: Currency;
   animate: boolean;
+  /** Equity and LVR against linked loans (property only) */
+  equity?: { equity: number; lvr: number | null } | null;
+  /** Target weight and drift, when targets are set */
+  target?: { targetPercent: number; driftPercent: number } | null;
 }
 
 function AllocationItem({
@@ -174,6 +236,8 @@ function AllocationItem({
   count,
   currency,
   animate,
+  equity,
+  target,
 }: AllocationItemProps) {
   const [barWidth, setBarWidth] = useState(animate ? 0 : percentage);
 
@@ -204,6 +268,12 @@ function AllocationItem({
             <span className="text-body-sm text-muted-foreground ml-2">
               ({count} holding{count !== 1 ? "s" : ""})
             </span>
+            {equity && (
+              <div className="text-body-sm text-muted-foreground">
+                Equity {formatCurrency(equity.equity, currency, { compact: true })}
+                {equity.lvr !== null && ` · LVR ${equity.lvr.toFixed(1)}%`}
+              </div>
+            )}
           </div>
         </div>
         <div className="text-right">
@@ -212,17 +282,31 @@ function AllocationItem({
           </div>
           <div className="text-body-sm text-muted-foreground">
             {percentage.toFixed(1)}%
+            {target && (
+              <span className={`ml-1 ${getDriftColor(target.driftPercent)}`}>
+                ({formatDrift(target.driftPercent)} vs {target.targetPercent.toFixed(0)}%)
+              </span>
+            )}
           </div>
         </div>
       </div>
-      <div className="h-2 bg-muted rounded-full overflow-hidden">
-        <div
-          className={`h-full ${getAssetColor(type)} rounded-full transition-all ease-out`}
-          style={{
-            width: `${Math.min(barWidth, 100)}%`,
-            transitionDuration: "400ms",
-          }}
-        />
+      <div className="relative">
+        <div className="h-2 bg-muted rounded-full overflow-hidden">
+          <div
+            className={`h-full ${getAssetColor(type)} rounded-full transition-all ease-out`}
+            style={{
+              width: `${Math.min(barWidth, 100)}%`,
+              transitionDuration: "400ms",
+            }}
+          />
+        </div>
+        {target && (
+          <div
+            className="absolute -top-0.5 h-3 w-0.5 bg-foreground/70 rounded-full"
+            style={{ left: `${Math.min(target.targetPercent, 100)}%` }}
+            title={`Target ${target.targetPercent.toFixed(1)}%`}
+          />
+        )}
       </div>
     </motion.div>
   );
@@ -366,6 +450,13 @@ export function AssetAllocation() {
     enabled: !currencyLoading,
   });
 
+  // Drift is an optional overlay, so a failed fetch just hides it
+  const { data: driftData } = useQuery({
+    queryKey: queryKeys.allocation.drift("asset_type", displayCurrency),
+    queryFn: () => fetchAssetTypeDrift(displayCurrency),
+    enabled: !currencyLoading,
+  });
+
   if (isLoading || currencyLoading) {
     return <AllocationSkeleton />;
   }
@@ -416,6 +507,14 @@ export function AssetAllocation() {
 
   const containerVariants = shouldReduceMotion ? undefined : staggerContainer;
 
+  const targetsByType = new Map(
+    driftData?.hasTargets ? driftData.groups.map((g) => [g.key, g]) : []
+  );
+  const heldTypes = new Set<string>(sortedBreakdown.map((item) => item.type));
+  const unheldTargets = [...targetsByType.values()].filter(
+    (g) => !heldTypes.has(g.key) && g.targetPercent > 0 && g.key !== "untargeted"
+  );
+
   return (
     <motion.div
       className="rounded-2xl glass-card p-4 sm:p-6"
@@ -460,9 +559,30 @@ export function AssetAllocation() {
                     count={item.count}
                     currency={displayCurrency}
                     animate={!shouldReduceMotion}
+                    equity={item.type === "property" ? getGroupEquity(item.holdings) : null}
+                    target={targetsByType.get(item.type) ?? null}
                   />
                 );
               })}
+              {driftData && (
+                <p className="text-body-sm text-muted-foreground px-2 pt-1">
+                  {driftData.hasTargets ? (
+                    <>
+                      {unheldTargets.length > 0 &&
+                        `Not held: ${unheldTargets
+                          .map((g) => `${g.label} (target ${g.targetPercent.toFixed(0)}%)`)
+                          .join(", ")}. `}
+                      <Link href="/allocation" className="hover:underline">
+                        Plan contributions
+                      </Link>
+                    </>
+                  ) : (
+                    <Link href="/allocation" className="hover:underline">
+                      Set target allocation
+                    </Link>
+                  )}
+                </p>
+              )}
             </motion.div>
           ) : (
             <motion.div
@@ -0,0 +1,433 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { X } from "lucide-react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { queryKeys } from "@/lib/query-keys";
+import { useCurrency } from "@/components/providers/currency-provider";
+import { formatCurrency, type Currency } from "@/lib/utils/currency";
+import { showError } from "@/lib/toast-helpers";
+import { Sparkline } from "@/components/charts";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  CHART_GRID,
+  CHART_TEXT,
+  CHART_AXIS,
+  NET_WORTH,
+  BENCHMARK_COLORS,
+} from "@/lib/chart-palette";
+import { MAX_BENCHMARK_SYMBOLS } from "@/lib/constants";
+
+interface BenchmarkSeriesPoint {
+  date: string;
+  portfolio: number;
+  benchmarks: Record<string, number>;
+}
+
+interface BenchmarkYear {
+  year: number;
+  startDate: string;
+  endDate: string;
+  netContributions: number;
+  portfolioGain: number;
+  portfolioReturn: number | null;
+  benchmarks: Array<{
+    symbol: string;
+    gain: number;
+    return: number | null;
+    outperformance: number | null;
+  }>;
+}
+
+interface BenchmarkResponse {
+  symbols: string[];
+  unavailable: string[];
+  sparklines: Record<string, number[]>;
+  series: BenchmarkSeriesPoint[];
+  years: BenchmarkYear[];
+  calculatedAt: string;
+}
+
+async function fetchBenchmark(months: number): Promise<BenchmarkResponse> {
+  const response = await fetch(`/api/net-worth/benchmark?months=${months}`);
+  if (!response.ok) {
+    throw new Error("Failed to fetch benchmark comparison");
+  }
+  return response.json();
+}
+
+async function updateBenchmarkSymbols(benchmarkSymbols: string[]): Promise<void> {
+  const response = await fetch("/api/preferences", {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ benchmarkSymbols }),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.errors?.benchmarkSymbols ?? data.error ?? "Failed to update benchmarks");
+  }
+}
+
+function useBenchmarkComparison(months: number) {
+  return useQuery({
+    queryKey: queryKeys.netWorth.benchmark(months),
+    queryFn: () => fetchBenchmark(months),
+  });
+}
+
+/**
+ * Formats a date string to month abbreviation (e.g., "Jan").
+ */
+function formatMonth(dateString: string): string {
+  const date = new Date(dateString);
+  return date.toLocaleDateString("en-AU", { month: "short" });
+}
+
+/**
+ * Formats a date string for tooltip display (e.g., "January 2026").
+ */
+function formatMonthFull(dateString: string): string {
+  const date = new Date(dateString);
+  return date.toLocaleDateString("en-AU", { month: "long", year: "numeric" });
+}
+
+/**
+ * Format a percentage with sign, or a dash when unavailable.
+ */
+function formatPercent(value: number | null, suffix: string = "%"): string {
+  if (value === null) return "—";
+  const sign = value >= 0 ? "+" : "";
+  return `${sign}${value.toFixed(2)}${suffix}`;
+}
+
+function percentColorClass(value: number | null): string {
+  if (value === null) return "text-muted-foreground";
+  return value >= 0 ? "text-positive" : "text-destructive";
+}
+
+/**
+ * Custom tooltip component for the chart.
+ */
+interface TooltipProps {
+  active?: boolean;
+  payload?: Array<{
+    value: number;
+    dataKey: string;
+    name: string;
+    color: string;
+    payload: { date: string };
+  }>;
+  currency: Currency;
+}
+
+function CustomTooltip({ active, payload, currency }: TooltipProps) {
+  if (!active || !payload || payload.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-3 shadow-lg min-w-[180px]">
+      <p className="text-muted-foreground text-sm mb-2">
+        {formatMonthFull(payload[0].payload.date)}
+      </p>
+      <div className="space-y-1">
+        {payload.map((entry) => (
+          <div key={entry.dataKey} className="flex justify-between items-center gap-4">
+            <span className="text-sm text-muted-foreground flex items-center gap-2">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: entry.color }} />
+              {entry.name}
+            </span>
+            <span className="text-foreground font-medium">
+              {formatCurrency(entry.value, currency)}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface BenchmarkChartProps {
+  months: number;
+}
+
+/**
+ * Benchmark Comparison Chart
+ *
+ * Plots the tradeable portfolio's value against what the same dated cash
+ * flows would be worth invested in each benchmark instead.
+ */
+export function BenchmarkChart({ months }: BenchmarkChartProps) {
+  const { displayCurrency, convert } = useCurrency();
+  const { data, isLoading, error } = useBenchmarkComparison(months);
+
+  if (isLoading) {
+    return (
+      <div className="h-64 bg-muted/50 rounded animate-pulse flex items-center justify-center">
+        <span className="text-muted-foreground">Loading chart...</span>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="h-64 flex items-center justify-center">
+        <p className="text-muted-foreground text-center">Failed to load benchmark comparison</p>
+      </div>
+    );
+  }
+
+  if (data.symbols.length === 0 || data.years.length === 0) {
+    return (
+      <div className="h-64 flex items-center justify-center">
+        <p className="text-muted-foreground text-center">
+          {data.years.length === 0
+            ? "Record transactions to compare your portfolio with a benchmark."
+            : "Add a benchmark below to compare your portfolio against it."}
+        </p>
+      </div>
+    );
+  }
+
+  // Transform data for Recharts - convert from AUD to display currency
+  const chartData = data.series.map((point) => ({
+    date: point.date,
+    displayMonth: formatMonth(point.date),
+    portfolio: convert(point.portfolio, "AUD"),
+    ...Object.fromEntries(
+      data.symbols.map((symbol) => [symbol, convert(point.benchmarks[symbol] ?? 0, "AUD")])
+    ),
+  }));
+
+  const formatCurrencyCompact = (value: number): string => {
+    return formatCurrency(value, displayCurrency, { compact: true });
+  };
+
+  return (
+    <div className="h-64" role="img" aria-label="Portfolio vs benchmark chart">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={chartData} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke={CHART_GRID} vertical={false} />
+          <XAxis
+            dataKey="displayMonth"
+            stroke={CHART_TEXT}
+            tick={{ fill: CHART_TEXT, fontSize: 12 }}
+            tickLine={{ stroke: CHART_AXIS }}
+            axisLine={{ stroke: CHART_AXIS }}
+          />
+          <YAxis
+            stroke={CHART_TEXT}
+            tick={{ fill: CHART_TEXT, fontSize: 12 }}
+            tickLine={{ stroke: CHART_AXIS }}
+            axisLine={{ stroke: CHART_AXIS }}
+            tickFormatter={formatCurrencyCompact}
+            width={70}
+          />
+          <Tooltip content={<CustomTooltip currency={displayCurrency} />} />
+
+          {/* Actual portfolio - white line */}
+          <Line
+            type="monotone"
+            dataKey="portfolio"
+            name="Portfolio"
+            stroke={NET_WORTH}
+            strokeWidth={2}
+            dot={false}
+          />
+
+          {/* Simulated benchmarks - dashed */}
+          {data.symbols.map((symbol, index) => (
+            <Line
+              key={symbol}
+              type="monotone"
+              dataKey={symbol}
+              name={symbol}
+              stroke={BENCHMARK_COLORS[index % BENCHMARK_COLORS.length]}
+              strokeWidth={2}
+              strokeDasharray="5 3"
+              dot={false}
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+interface BenchmarkSummaryProps {
+  months: number;
+}
+
+/**
+ * Benchmark picker and per-year outperformance table, shown under the
+ * benchmark chart.
+ */
+export function BenchmarkSummary({ months }: BenchmarkSummaryProps) {
+  const queryClient = useQueryClient();
+  const { displayCurrency, convert } = useCurrency();
+  const { data } = useBenchmarkComparison(months);
+  const [symbol, setSymbol] = useState("");
+
+  const symbols = data ? [...data.symbols, ...data.unavailable] : [];
+
+  const mutation = useMutation({
+    mutationFn: updateBenchmarkSymbols,
+    onSuccess: () => {
+      setSymbol("");
+      queryClient.invalidateQueries({ queryKey: queryKeys.preferences });
+      queryClient.invalidateQueries({ queryKey: queryKeys.netWorth.allBenchmark });
+    },
+    onError: (error) => {
+      showError(error instanceof Error ? error.message : "Failed to update benchmarks");
+    },
+  });
+
+  const handleAdd = (event: FormEvent) => {
+    event.preventDefault();
+    const trimmed = symbol.trim().toUpperCase();
+    if (!trimmed || symbols.includes(trimmed)) return;
+    mutation.mutate([...symbols, trimmed]);
+  };
+
+  if (!data) {
+    return null;
+  }
+
+  return (
+    <div className="mt-6 space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {data.symbols.map((s, index) => (
+          <span
+            key={s}
+            className="flex items-center gap-2 rounded-md border border-border px-2 py-1 text-sm text-foreground"
+          >
+            <span
+              className="w-2 h-2 rounded-full"
+              style={{ backgroundColor: BENCHMARK_COLORS[index % BENCHMARK_COLORS.length] }}
+            />
+            {s}
+            <Sparkline data={data.sparklines[s] ?? []} width={48} height={20} />
+            <button
+              type="button"
+              onClick={() => mutation.mutate(symbols.filter((other) => other !== s))}
+              disabled={mutation.isPending}
+              className="text-muted-foreground hover:text-foreground"
+              aria-label={`Remove ${s}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        {data.unavailable.map((s) => (
+          <span
+            key={s}
+            className="flex items-center gap-2 rounded-md border border-destructive/50 px-2 py-1 text-sm text-muted-foreground"
+            title="No price history found for this symbol"
+          >
+            {s}
+            <button
+              type="button"
+              onClick={() => mutation.mutate(symbols.filter((other) => other !== s))}
+              disabled={mutation.isPending}
+              className="hover:text-foreground"
+              aria-label={`Remove ${s}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        {symbols.length < MAX_BENCHMARK_SYMBOLS && (
+          <form onSubmit={handleAdd} className="flex items-center gap-2">
+            <Input
+              value={symbol}
+              onChange={(e) => setSymbol(e.target.value)}
+              placeholder="e.g. VAS.AX"
+              className="h-8 w-32"
+              aria-label="Benchmark symbol"
+            />
+            <Button type="submit" size="sm" variant="outline" disabled={mutation.isPending}>
+              Add Benchmark
+            </Button>
+          </form>
+        )}
+      </div>
+
+      {data.symbols.length > 0 && data.years.length > 0 && (
+        <>
+          <Table>
+            <TableHeader>
+              <TableRow className="border-border hover:bg-transparent">
+                <TableHead className="text-muted-foreground">Year</TableHead>
+                <TableHead className="text-muted-foreground text-right">Net Invested</TableHead>
+                <TableHead className="text-muted-foreground text-right">Portfolio</TableHead>
+                {data.symbols.map((s) => (
+                  <TableHead key={s} className="text-muted-foreground text-right">
+                    {s}
+                  </TableHead>
+                ))}
+                {data.symbols.map((s) => (
+                  <TableHead key={`${s}-diff`} className="text-muted-foreground text-right">
+                    vs {s}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {[...data.years].reverse().map((year) => (
+                <TableRow key={year.year} className="border-border">
+                  <TableCell className="text-foreground">{year.year}</TableCell>
+                  <TableCell className="text-muted-foreground text-right font-mono">
+                    {formatCurrency(convert(year.netContributions, "AUD"), displayCurrency)}
+                  </TableCell>
+                  <TableCell
+                    className={`text-right font-mono ${percentColorClass(year.portfolioReturn)}`}
+                  >
+                    {formatPercent(year.portfolioReturn)}
+                  </TableCell>
+                  {year.benchmarks.map((b) => (
+                    <TableCell
+                      key={b.symbol}
+                      className={`text-right font-mono ${percentColorClass(b.return)}`}
+                    >
+                      {formatPercent(b.return)}
+                    </TableCell>
+                  ))}
+                  {year.benchmarks.map((b) => (
+                    <TableCell
+                      key={`${b.symbol}-diff`}
+                      className={`text-right font-mono ${percentColorClass(b.outperformance)}`}
+                    >
+                      {formatPercent(b.outperformance, " pp")}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <p className="text-xs text-muted-foreground">
+            Each benchmark replays your buys and sells on the same dates. Returns are price
+            returns (dividends excluded on both sides); the current year is year to date.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
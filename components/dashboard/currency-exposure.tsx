@@ -8,6 +8,7 @@ import { type Currency, type ExchangeRates } from "@/lib/utils/currency";
 import { motion, useReducedMotion, type Variants } from "framer-motion";
 import { fadeIn, staggerItem } from "@/lib/animations";
 import { NumberTicker } from "@/components/dashboard/number-ticker";
+import { CURRENCIES, CURRENCY_INFO } from "@/lib/constants";
 
 interface CurrencyExposureItem {
   currency: Currency;
@@ -40,68 +41,57 @@ function formatPercentage(value: number): string {
   return `${value.toFixed(1)}%`;
 }
 
+/**
+ * Progress bar and badge colours, assigned to currencies in CURRENCIES
+ * order so each currency keeps its colour whichever are enabled.
+ */
+const CURRENCY_COLORS: Array<{ bar: string; badge: string }> = [
+  { bar: "bg-positive", badge: "bg-positive/20" },
+  { bar: "bg-blue-400", badge: "bg-blue-400/20" },
+  { bar: "bg-warning", badge: "bg-warning/20" },
+  { bar: "bg-purple-400", badge: "bg-purple-400/20" },
+  { bar: "bg-pink-400", badge: "bg-pink-400/20" },
+  { bar: "bg-cyan-400", badge: "bg-cyan-400/20" },
+  { bar: "bg-orange-400", badge: "bg-orange-400/20" },
+  { bar: "bg-teal-400", badge: "bg-teal-400/20" },
+  { bar: "bg-indigo-400", badge: "bg-indigo-400/20" },
+  { bar: "bg-lime-400", badge: "bg-lime-400/20" },
+];
+
+function getCurrencyColors(currency: Currency): { bar: string; badge: string } {
+  const index = CURRENCIES.indexOf(currency);
+  if (index === -1) {
+    return { bar: "bg-muted", badge: "bg-muted/20" };
+  }
+  return CURRENCY_COLORS[index % CURRENCY_COLORS.length];
+}
+
 /**
  * Returns the display name for a currency.
  */
 function getCurrencyDisplayName(currency: Currency): string {
-  switch (currency) {
-    case "AUD":
-      return "Australian Dollar";
-    case "NZD":
-      return "New Zealand Dollar";
-    case "USD":
-      return "US Dollar";
-    default:
-      return currency;
-  }
+  return CURRENCY_INFO[currency]?.name ?? currency;
 }
 
 /**
  * Returns the bg color class for a currency progress bar fill.
  */
 function getCurrencyBarColor(currency: Currency): string {
-  switch (currency) {
-    case "AUD":
-      return "bg-positive";
-    case "NZD":
-      return "bg-blue-400";
-    case "USD":
-      return "bg-warning";
-    default:
-      return "bg-muted";
-  }
+  return getCurrencyColors(currency).bar;
 }
 
 /**
  * Returns the bg color class for a currency icon badge (20% opacity variant).
  */
 function getCurrencyBadgeColor(currency: Currency): string {
-  switch (currency) {
-    case "AUD":
-      return "bg-positive/20";
-    case "NZD":
-      return "bg-blue-400/20";
-    case "USD":
-      return "bg-warning/20";
-    default:
-      return "bg-muted/20";
-  }
+  return getCurrencyColors(currency).badge;
 }
 
 /**
  * Returns the flag emoji for a currency.
  */
 function getCurrencyFlag(currency: Currency): string {
-  switch (currency) {
-    case "AUD":
-      return "🇦🇺";
-    case "NZD":
-      return "🇳🇿";
-    case "USD":
-      return "🇺🇸";
-    default:
-      return "🏳️";
-  }
+  return CURRENCY_INFO[currency]?.flag ?? "🏳️";
 }
 
 /**
@@ -285,7 +275,7 @@ const exposureStaggerContainer: Variants = {
 /**
  * Currency Exposure Component
  *
- * Displays a breakdown of assets by currency (AUD, NZD, USD).
+ * Displays a breakdown of assets by the currency they are held in.
  * Each currency shows:
  * - Flag and currency code
  * - Full currency name
@@ -9,6 +9,8 @@ import { AssetAllocation } from "@/components/dashboard/asset-allocation";
 import { CurrencyExposure } from "@/components/dashboard/currency-exposure";
 import { NetWorthChart } from "@/components/dashboard/net-worth-chart";
 import { TopPerformers } from "@/components/dashboard/top-performers";
+import { PortfolioReturns } from "@/components/dashboard/portfolio-returns";
+import { PortfolioRisk } from "@/components/dashboard/portfolio-risk";
 import { StaleDataWarning } from "@/components/dashboard/stale-data-warning";
 import { DashboardHeader } from "@/components/dashboard/dashboard-header";
 import { SuperBreakdownSection } from "@/components/dashboard/super-breakdown-section";
@@ -121,6 +123,20 @@ export function DashboardContent({ userName }: DashboardContentProps) {
             <TopPerformers />
           </SectionErrorBoundary>
         </motion.div>
+
+        {/* Portfolio Returns: XIRR and TWR */}
+        <motion.div variants={itemVariants}>
+          <SectionErrorBoundary sectionName="Portfolio Returns">
+            <PortfolioReturns />
+          </SectionErrorBoundary>
+        </motion.div>
+
+        {/* Portfolio Risk: volatility, drawdown and correlation */}
+        <motion.div variants={itemVariants}>
+          <SectionErrorBoundary sectionName="Portfolio Risk">
+            <PortfolioRisk />
+          </SectionErrorBoundary>
+        </motion.div>
       </motion.div>
     </div>
   );
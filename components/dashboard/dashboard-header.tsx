@@ -69,6 +69,7 @@ export function DashboardHeader({ userName }: DashboardHeaderProps) {
       queryClient.invalidateQueries({ queryKey: queryKeys.netWorth.all });
       queryClient.invalidateQueries({ queryKey: queryKeys.netWorth.allHistory });
       queryClient.invalidateQueries({ queryKey: queryKeys.topPerformers });
+      queryClient.invalidateQueries({ queryKey: queryKeys.returns.all });
       queryClient.invalidateQueries({ queryKey: queryKeys.holdings.all });
       queryClient.invalidateQueries({ queryKey: queryKeys.prices.all });
 
@@ -7,10 +7,11 @@ import { formatCurrency } from "@/lib/utils/currency";
 import { useSearchParams, useRouter, usePathname } from "next/navigation";
 import { useCallback, useEffect, useMemo, useState, useRef } from "react";
 import { useRovingTabIndex } from "@/hooks/use-roving-tabindex";
-import { LineChart as LineChartIcon, BarChart3 } from "lucide-react";
+import { LineChart as LineChartIcon, BarChart3, Scale } from "lucide-react";
 import { motion, AnimatePresence, useReducedMotion } from "framer-motion";
 import { fadeIn } from "@/lib/animations";
 import { AssetsVsDebtChart } from "./assets-vs-debt-chart";
+import { BenchmarkChart, BenchmarkSummary } from "./benchmark-comparison";
 import {
   ChartSkeleton,
   ChartError,
@@ -31,7 +32,7 @@ import {
 /**
  * Chart view modes.
  */
-type ChartViewMode = "networth" | "assetsvsdebt";
+type ChartViewMode = "networth" | "assetsvsdebt" | "benchmark";
 
 const DEFAULT_TIME_RANGE: TimeRange = "1y";
 const CHART_VIEW_STORAGE_KEY = "net-worth-chart-view";
@@ -61,7 +62,7 @@ interface ChartViewToggleProps {
   onChange: (mode: ChartViewMode) => void;
 }
 
-const CHART_VIEW_MODES: ChartViewMode[] = ["networth", "assetsvsdebt"];
+const CHART_VIEW_MODES: ChartViewMode[] = ["networth", "assetsvsdebt", "benchmark"];
 
 function ChartViewToggle({ viewMode, onChange }: ChartViewToggleProps) {
   const { containerRef, handleKeyDown, getTabIndex } = useRovingTabIndex(
@@ -108,6 +109,21 @@ function ChartViewToggle({ viewMode, onChange }: ChartViewToggleProps) {
         <BarChart3 className="h-4 w-4" />
         <span className="hidden sm:inline">Assets vs Debt</span>
       </button>
+      <button
+        role="tab"
+        aria-selected={viewMode === "benchmark"}
+        tabIndex={getTabIndex("benchmark")}
+        onClick={() => onChange("benchmark")}
+        className={`flex items-center gap-1.5 px-3 py-1.5 min-h-[44px] sm:min-h-0 rounded-md text-sm font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 focus-visible:ring-offset-background ${
+          viewMode === "benchmark"
+            ? "bg-muted text-foreground"
+            : "text-muted-foreground hover:text-foreground"
+        }`}
+        aria-label="Portfolio vs benchmark comparison"
+      >
+        <Scale className="h-4 w-4" />
+        <span className="hidden sm:inline">Benchmark</span>
+      </button>
     </div>
   );
 }
@@ -136,7 +152,7 @@ export function NetWorthChart() {
   // Load chart view preference from localStorage on mount
   useEffect(() => {
     const stored = localStorage.getItem(CHART_VIEW_STORAGE_KEY);
-    if (stored === "networth" || stored === "assetsvsdebt") {
+    if (stored === "networth" || stored === "assetsvsdebt" || stored === "benchmark") {
       setChartViewMode(stored);
     }
   }, []);
@@ -354,7 +370,7 @@ export function NetWorthChart() {
                 </div>
               )}
             </motion.div>
-          ) : (
+          ) : chartViewMode === "assetsvsdebt" ? (
             <motion.div
               key="assetsvsdebt"
               className="h-[264px]"
@@ -365,9 +381,22 @@ export function NetWorthChart() {
             >
               <AssetsVsDebtChart data={chartHistory} />
             </motion.div>
+          ) : (
+            <motion.div
+              key="benchmark"
+              className="h-[264px]"
+              initial={reducedMotion ? false : { opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={reducedMotion ? undefined : { opacity: 0 }}
+              transition={reducedMotion ? { duration: 0 } : { duration: 0.2 }}
+            >
+              <BenchmarkChart months={months} />
+            </motion.div>
           )}
         </AnimatePresence>
       </div>
+
+      {chartViewMode === "benchmark" && <BenchmarkSummary months={months} />}
     </motion.div>
   );
 }
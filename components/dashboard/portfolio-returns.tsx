@@ -0,0 +1,255 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { motion, useReducedMotion } from "framer-motion";
+import { queryKeys } from "@/lib/query-keys";
+import { useCurrency } from "@/components/providers/currency-provider";
+import { CurrencyDisplay } from "@/components/ui/currency-display";
+import { useRovingTabIndex } from "@/hooks/use-roving-tabindex";
+import { fadeIn } from "@/lib/animations";
+import {
+  RETURN_WINDOWS,
+  RETURN_WINDOW_LABELS,
+  type ReturnWindow,
+} from "@/lib/constants";
+
+interface ReturnMetrics {
+  startDate: string;
+  endDate: string;
+  startValue: number;
+  endValue: number;
+  netContributions: number;
+  income: number;
+  gain: number;
+  xirr: number | null;
+  twr: number | null;
+  annualisedTwr: number | null;
+}
+
+interface AssetTypeReturn extends ReturnMetrics {
+  type: "stock" | "etf" | "crypto";
+  label: string;
+}
+
+interface ReturnsResponse {
+  window: ReturnWindow;
+  portfolio: ReturnMetrics | null;
+  byType: AssetTypeReturn[];
+  calculatedAt: string;
+}
+
+async function fetchReturns(returnWindow: ReturnWindow): Promise<ReturnsResponse> {
+  const response = await fetch(`/api/net-worth/returns?window=${returnWindow}`);
+  if (!response.ok) {
+    throw new Error("Failed to fetch returns");
+  }
+  return response.json();
+}
+
+/**
+ * Format a return percentage with sign, or a dash when unavailable.
+ */
+function formatReturn(value: number | null): string {
+  if (value === null) return "—";
+  const sign = value >= 0 ? "+" : "";
+  return `${sign}${value.toFixed(2)}%`;
+}
+
+function returnColorClass(value: number | null): string {
+  if (value === null) return "text-muted-foreground";
+  return value >= 0 ? "text-positive" : "text-destructive";
+}
+
+/**
+ * Time-weighted return to show: annualised when the window is at least a
+ * year long, otherwise cumulative.
+ */
+function displayTwr(metrics: ReturnMetrics): { value: number | null; label: string } {
+  if (metrics.annualisedTwr !== null) {
+    return { value: metrics.annualisedTwr, label: "TWR p.a." };
+  }
+  return { value: metrics.twr, label: "TWR" };
+}
+
+interface WindowToggleProps {
+  value: ReturnWindow;
+  onChange: (window: ReturnWindow) => void;
+}
+
+function WindowToggle({ value, onChange }: WindowToggleProps) {
+  const { containerRef, handleKeyDown, getTabIndex } = useRovingTabIndex(
+    RETURN_WINDOWS,
+    value,
+    onChange
+  );
+
+  return (
+    <div
+      ref={containerRef}
+      className="flex items-center gap-1 bg-muted/50 rounded-lg p-1"
+      role="tablist"
+      aria-label="Return window"
+      onKeyDown={handleKeyDown}
+    >
+      {RETURN_WINDOWS.map((option) => (
+        <button
+          key={option}
+          role="tab"
+          aria-selected={value === option}
+          tabIndex={getTabIndex(option)}
+          onClick={() => onChange(option)}
+          className={`px-3 py-1 min-h-[44px] sm:min-h-0 text-sm font-medium rounded-md transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 focus-visible:ring-offset-background ${
+            value === option
+              ? "bg-muted text-foreground"
+              : "text-muted-foreground hover:text-foreground"
+          }`}
+        >
+          {RETURN_WINDOW_LABELS[option]}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function ReturnsSkeleton() {
+  return (
+    <div className="rounded-2xl glass-card p-4 sm:p-6">
+      <div className="h-4 w-32 skeleton-shimmer mb-6" />
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        {[1, 2, 3, 4].map((i) => (
+          <div key={i}>
+            <div className="h-3 w-16 skeleton-shimmer mb-2" />
+            <div className="h-6 w-24 skeleton-shimmer" />
+          </div>
+        ))}
+      </div>
+      <div className="space-y-3">
+        {[1, 2, 3].map((i) => (
+          <div key={i} className="h-4 w-full skeleton-shimmer" />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Portfolio Returns
+ *
+ * Money-weighted (XIRR) and time-weighted returns for the tradeable
+ * portfolio and each asset type, with the investment gain shown apart from
+ * new money contributed over the selected window.
+ */
+export function PortfolioReturns() {
+  const shouldReduceMotion = useReducedMotion();
+  const { displayCurrency, isLoading: currencyLoading, convert } = useCurrency();
+  const [returnWindow, setReturnWindow] = useState<ReturnWindow>("1y");
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.returns.window(returnWindow),
+    queryFn: () => fetchReturns(returnWindow),
+  });
+
+  if (isLoading || currencyLoading) {
+    return <ReturnsSkeleton />;
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-2xl border border-destructive bg-destructive/10 p-6">
+        <p className="text-destructive">Failed to load portfolio returns</p>
+      </div>
+    );
+  }
+
+  const header = (
+    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-6">
+      <h3 className="text-heading-sm text-foreground">Portfolio Returns</h3>
+      <WindowToggle value={returnWindow} onChange={setReturnWindow} />
+    </div>
+  );
+
+  if (!data?.portfolio) {
+    return (
+      <div className="rounded-2xl glass-card p-4 sm:p-6">
+        {header}
+        <div className="py-8 text-center">
+          <p className="text-body-sm text-muted-foreground">
+            No transactions in this window.
+          </p>
+          <p className="text-body-sm text-muted-foreground/60 mt-2">
+            Record BUY, SELL and DIVIDEND transactions to measure returns.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const { portfolio, byType } = data;
+  const portfolioTwr = displayTwr(portfolio);
+
+  return (
+    <motion.div
+      className="rounded-2xl glass-card p-4 sm:p-6"
+      initial={shouldReduceMotion ? false : fadeIn.initial}
+      animate={fadeIn.animate}
+      transition={shouldReduceMotion ? { duration: 0 } : fadeIn.transition}
+    >
+      {header}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div>
+          <p className="text-xs text-muted-foreground">XIRR p.a.</p>
+          <p className={`text-xl font-bold font-mono ${returnColorClass(portfolio.xirr)}`}>
+            {formatReturn(portfolio.xirr)}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">{portfolioTwr.label}</p>
+          <p className={`text-xl font-bold font-mono ${returnColorClass(portfolioTwr.value)}`}>
+            {formatReturn(portfolioTwr.value)}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Investment Gain</p>
+          <CurrencyDisplay
+            amount={convert(portfolio.gain, "AUD")}
+            currency={displayCurrency}
+            className={`text-xl font-bold ${returnColorClass(portfolio.gain)}`}
+          />
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Net Contributions</p>
+          <CurrencyDisplay
+            amount={convert(portfolio.netContributions, "AUD")}
+            currency={displayCurrency}
+            className="text-xl font-bold text-foreground"
+          />
+        </div>
+      </div>
+
+      {byType.length > 0 && (
+        <div className="divide-y divide-border">
+          {byType.map((row) => {
+            const twr = displayTwr(row);
+            return (
+              <div key={row.type} className="flex items-center justify-between py-2 gap-4">
+                <span className="text-foreground font-medium">{row.label}</span>
+                <div className="flex items-center gap-6 text-sm font-mono">
+                  <span className={returnColorClass(row.xirr)}>
+                    <span className="text-xs text-muted-foreground font-sans mr-1">XIRR</span>
+                    {formatReturn(row.xirr)}
+                  </span>
+                  <span className={returnColorClass(twr.value)}>
+                    <span className="text-xs text-muted-foreground font-sans mr-1">{twr.label}</span>
+                    {formatReturn(twr.value)}
+                  </span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,310 @@
+"use client";
+
+import type { CSSProperties } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { motion, useReducedMotion } from "framer-motion";
+import { AlertTriangle } from "lucide-react";
+import { queryKeys } from "@/lib/query-keys";
+import { fadeIn } from "@/lib/animations";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { HIGH_CORRELATION_THRESHOLD } from "@/lib/constants";
+
+interface RiskMetrics {
+  startDate: string;
+  endDate: string;
+  observations: number;
+  annualisedReturn: number | null;
+  volatility: number | null;
+  sharpeRatio: number | null;
+  maxDrawdown: number;
+  drawdownPeakDate: string | null;
+  drawdownTroughDate: string | null;
+  recoveryDate: string | null;
+  recoveryDays: number | null;
+}
+
+interface HoldingRisk extends RiskMetrics {
+  holdingId: string;
+  name: string;
+  symbol: string | null;
+  type: "stock" | "etf" | "crypto";
+  marketValue: number;
+  weight: number;
+}
+
+interface RiskResponse {
+  netWorth: RiskMetrics | null;
+  holdings: HoldingRisk[];
+  correlation: {
+    holdingIds: string[];
+    labels: string[];
+    values: (number | null)[][];
+  };
+  correlatedGroups: Array<{
+    holdingIds: string[];
+    labels: string[];
+    weight: number;
+    averageCorrelation: number;
+  }>;
+  calculatedAt: string;
+}
+
+async function fetchRisk(): Promise<RiskResponse> {
+  const response = await fetch("/api/net-worth/risk");
+  if (!response.ok) {
+    throw new Error("Failed to fetch portfolio risk");
+  }
+  return response.json();
+}
+
+/**
+ * Format a percentage to one decimal place, or a dash when unavailable.
+ */
+function formatPercent(value: number | null): string {
+  return value === null ? "—" : `${value.toFixed(1)}%`;
+}
+
+function formatRatio(value: number | null): string {
+  return value === null ? "—" : value.toFixed(2);
+}
+
+/**
+ * Recovery time in months or days, "Not yet" while still under water, or a
+ * dash if the series never fell.
+ */
+function formatRecovery(metrics: RiskMetrics): string {
+  if (metrics.drawdownTroughDate === null) return "—";
+  if (metrics.recoveryDays === null) return "Not yet";
+  return metrics.recoveryDays >= 60
+    ? `${Math.round(metrics.recoveryDays / 30)} mo`
+    : `${metrics.recoveryDays} d`;
+}
+
+/**
+ * Cell background for a correlation: stronger red the more two holdings
+ * move together, blue when they move apart.
+ */
+function correlationStyle(value: number | null): CSSProperties {
+  if (value === null) return {};
+  const alpha = Math.min(Math.abs(value), 1) * 0.6;
+  return {
+    backgroundColor: value >= 0 ? `rgba(239, 68, 68, ${alpha})` : `rgba(59, 130, 246, ${alpha})`,
+  };
+}
+
+function RiskSkeleton() {
+  return (
+    <div className="rounded-2xl glass-card p-4 sm:p-6">
+      <div className="h-4 w-32 skeleton-shimmer mb-6" />
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        {[1, 2, 3, 4].map((i) => (
+          <div key={i}>
+            <div className="h-3 w-16 skeleton-shimmer mb-2" />
+            <div className="h-6 w-24 skeleton-shimmer" />
+          </div>
+        ))}
+      </div>
+      <div className="space-y-3">
+        {[1, 2, 3].map((i) => (
+          <div key={i} className="h-4 w-full skeleton-shimmer" />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Portfolio Risk
+ *
+ * Net worth volatility and drawdown, per-holding risk, and a correlation
+ * matrix of the tradeable holdings with any highly correlated groups called
+ * out by their combined weight.
+ */
+export function PortfolioRisk() {
+  const shouldReduceMotion = useReducedMotion();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.portfolioRisk,
+    queryFn: fetchRisk,
+  });
+
+  if (isLoading) {
+    return <RiskSkeleton />;
+  }
+
+  if (error || !data) {
+    return (
+      <div className="rounded-2xl border border-destructive bg-destructive/10 p-6">
+        <p className="text-destructive">Failed to load portfolio risk</p>
+      </div>
+    );
+  }
+
+  const header = <h3 className="text-heading-sm text-foreground mb-6">Portfolio Risk</h3>;
+
+  if (!data.netWorth && data.holdings.length === 0) {
+    return (
+      <div className="rounded-2xl glass-card p-4 sm:p-6">
+        {header}
+        <div className="py-8 text-center">
+          <p className="text-body-sm text-muted-foreground">Not enough history yet.</p>
+          <p className="text-body-sm text-muted-foreground/60 mt-2">
+            Risk appears once there are a few months of net worth or daily prices.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const { netWorth, holdings, correlation, correlatedGroups } = data;
+
+  return (
+    <motion.div
+      className="rounded-2xl glass-card p-4 sm:p-6"
+      initial={shouldReduceMotion ? false : fadeIn.initial}
+      animate={fadeIn.animate}
+      transition={shouldReduceMotion ? { duration: 0 } : fadeIn.transition}
+    >
+      {header}
+
+      {netWorth && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+          <div>
+            <p className="text-xs text-muted-foreground">Net Worth Volatility p.a.</p>
+            <p className="text-xl font-bold font-mono text-foreground">
+              {formatPercent(netWorth.volatility)}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Max Drawdown</p>
+            <p
+              className={`text-xl font-bold font-mono ${
+                netWorth.maxDrawdown < 0 ? "text-destructive" : "text-foreground"
+              }`}
+            >
+              {formatPercent(netWorth.maxDrawdown)}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Recovery Time</p>
+            <p className="text-xl font-bold font-mono text-foreground">
+              {formatRecovery(netWorth)}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Sharpe-like Ratio</p>
+            <p className="text-xl font-bold font-mono text-foreground">
+              {formatRatio(netWorth.sharpeRatio)}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {correlatedGroups.length > 0 && (
+        <div className="space-y-2 mb-6">
+          {correlatedGroups.map((group) => (
+            <div
+              key={group.holdingIds.join(":")}
+              className="flex items-start gap-2 rounded-lg border border-warning/50 bg-warning/10 p-3 text-sm"
+            >
+              <AlertTriangle className="h-4 w-4 text-warning shrink-0 mt-0.5" />
+              <p className="text-foreground">
+                {group.labels.join(", ")} move together (average correlation{" "}
+                {group.averageCorrelation.toFixed(2)}) and make up{" "}
+                <span className="font-semibold">{group.weight.toFixed(1)}%</span> of your
+                tradeable holdings.
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {holdings.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow className="border-border hover:bg-transparent">
+              <TableHead className="text-muted-foreground">Holding</TableHead>
+              <TableHead className="text-muted-foreground text-right">Weight</TableHead>
+              <TableHead className="text-muted-foreground text-right">Volatility</TableHead>
+              <TableHead className="text-muted-foreground text-right">Max Drawdown</TableHead>
+              <TableHead className="text-muted-foreground text-right">Recovery</TableHead>
+              <TableHead className="text-muted-foreground text-right">Sharpe-like</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {holdings.map((row) => (
+              <TableRow key={row.holdingId} className="border-border">
+                <TableCell className="text-foreground">{row.symbol ?? row.name}</TableCell>
+                <TableCell className="text-right font-mono text-muted-foreground">
+                  {formatPercent(row.weight)}
+                </TableCell>
+                <TableCell className="text-right font-mono text-foreground">
+                  {formatPercent(row.volatility)}
+                </TableCell>
+                <TableCell
+                  className={`text-right font-mono ${
+                    row.maxDrawdown < 0 ? "text-destructive" : "text-foreground"
+                  }`}
+                >
+                  {formatPercent(row.maxDrawdown)}
+                </TableCell>
+                <TableCell className="text-right font-mono text-muted-foreground">
+                  {formatRecovery(row)}
+                </TableCell>
+                <TableCell className="text-right font-mono text-foreground">
+                  {formatRatio(row.sharpeRatio)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {correlation.holdingIds.length > 1 && (
+        <div className="mt-6 overflow-x-auto">
+          <p className="text-xs text-muted-foreground mb-2">
+            Correlation of daily returns (last 12 months). {HIGH_CORRELATION_THRESHOLD} or more
+            means two holdings largely rise and fall together.
+          </p>
+          <table className="text-xs font-mono">
+            <thead>
+              <tr>
+                <th />
+                {correlation.labels.map((label, j) => (
+                  <th key={correlation.holdingIds[j]} className="px-2 py-1 font-medium text-muted-foreground">
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {correlation.values.map((row, i) => (
+                <tr key={correlation.holdingIds[i]}>
+                  <th className="px-2 py-1 text-left font-medium text-muted-foreground">
+                    {correlation.labels[i]}
+                  </th>
+                  {row.map((value, j) => (
+                    <td
+                      key={correlation.holdingIds[j]}
+                      className="px-2 py-1 text-center text-foreground"
+                      style={i === j ? undefined : correlationStyle(value)}
+                    >
+                      {i === j ? "" : value === null ? "—" : value.toFixed(2)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </motion.div>
+  );
+}
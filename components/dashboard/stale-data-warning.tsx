@@ -7,6 +7,7 @@ import {
   ChevronUp,
   Clock,
   DollarSign,
+  PencilLine,
   RefreshCw,
   ExternalLink,
 } from "lucide-react";
@@ -16,7 +17,21 @@ import {
   type StaleHolding,
 } from "@/lib/hooks/use-dashboard-data";
 
-type StaleReason = "price_expired" | "no_price" | "snapshot_old" | "no_snapshot";
+type StaleReason =
+  | "price_expired"
+  | "no_price"
+  | "manual_price_old"
+  | "no_manual_price"
+  | "snapshot_old"
+  | "no_snapshot";
+
+/**
+ * Whether a stale holding is priced by hand, so needs a new price entered
+ * rather than a refresh.
+ */
+function isManualPriceReason(reason: StaleReason): boolean {
+  return reason === "manual_price_old" || reason === "no_manual_price";
+}
 
 /**
  * Formats a relative timestamp.
@@ -57,6 +72,10 @@ function getStaleReasonText(reason: StaleReason): string {
       return "Price is outdated";
     case "no_price":
       return "No price available";
+    case "manual_price_old":
+      return "Manual price is outdated";
+    case "no_manual_price":
+      return "No manual price entered";
     case "snapshot_old":
       return "Snapshot is outdated";
     case "no_snapshot":
@@ -74,6 +93,9 @@ function getStaleReasonIcon(reason: StaleReason) {
     case "price_expired":
     case "no_price":
       return <DollarSign className="h-4 w-4" />;
+    case "manual_price_old":
+    case "no_manual_price":
+      return <PencilLine className="h-4 w-4" />;
     case "snapshot_old":
     case "no_snapshot":
       return <Clock className="h-4 w-4" />;
@@ -90,6 +112,9 @@ function getActionText(reason: StaleReason): string {
     case "price_expired":
     case "no_price":
       return "Refresh prices";
+    case "manual_price_old":
+    case "no_manual_price":
+      return "Enter price";
     case "snapshot_old":
     case "no_snapshot":
       return "Update snapshot";
@@ -193,8 +218,17 @@ export function StaleDataWarning() {
                     href={`/holdings/${holding.holdingId}`}
                     className="flex items-center gap-1 px-3 py-1.5 rounded-md text-xs font-medium bg-muted/50 text-muted-foreground hover:bg-muted transition-colors"
                   >
-                    <ExternalLink className="h-3 w-3" />
-                    View
+                    {isManualPriceReason(holding.reason) ? (
+                      <>
+                        <PencilLine className="h-3 w-3" />
+                        {getActionText(holding.reason)}
+                      </>
+                    ) : (
+                      <>
+                        <ExternalLink className="h-3 w-3" />
+                        View
+                      </>
+                    )}
                   </Link>
                 </div>
               </div>
@@ -213,6 +247,12 @@ export function StaleDataWarning() {
                   prices at once.
                 </span>
               )}
+              {staleHoldings.some((h) => isManualPriceReason(h.reason)) && (
+                <span className="flex items-center gap-1 mt-1">
+                  <PencilLine className="h-3 w-3" />
+                  Enter a current price on each manually priced holding&apos;s page.
+                </span>
+              )}
               {staleHoldings.some(
                 (h) => h.reason === "snapshot_old" || h.reason === "no_snapshot"
               ) && (
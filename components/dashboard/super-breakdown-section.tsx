@@ -2,6 +2,8 @@
 
 import { useDashboardNetWorth } from "@/lib/hooks/use-dashboard-data";
 import { SuperGrowthChart } from "./super-growth-chart";
+import { SuperContributionCaps } from "./super-contribution-caps";
+import { SuperFeeDrag } from "./super-fee-drag";
 
 /**
  * Loading skeleton for the super breakdown section.
@@ -28,8 +30,8 @@ function SectionSkeleton() {
 /**
  * Super Breakdown Section
  *
- * Conditionally renders SuperGrowthChart only if the user has super holdings.
- * Derives super existence from the shared net-worth breakdown instead of a
+ * Conditionally renders SuperGrowthChart, SuperContributionCaps and
+ * SuperFeeDrag only if the user has super holdings. Derives super existence from the shared net-worth breakdown instead of a
  * separate /api/super/breakdown request.
  */
 export function SuperBreakdownSection() {
@@ -54,5 +56,11 @@ export function SuperBreakdownSection() {
     return null;
   }
 
-  return <SuperGrowthChart />;
+  return (
+    <div className="space-y-6">
+      <SuperGrowthChart />
+      <SuperContributionCaps />
+      <SuperFeeDrag />
+    </div>
+  );
 }
@@ -0,0 +1,276 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { motion, useReducedMotion } from "framer-motion";
+import { AlertTriangle } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { queryKeys } from "@/lib/query-keys";
+import { fadeIn } from "@/lib/animations";
+import { formatCurrency } from "@/lib/utils/currency";
+import { formatFinancialYear } from "@/lib/utils/financial-year";
+import { CARRY_FORWARD_BALANCE_THRESHOLD } from "@/lib/constants";
+
+type CapStatus = "under" | "approaching" | "reached" | "exceeded";
+
+interface CapUsage {
+  cap: number;
+  contributed: number;
+  remaining: number;
+  percentUsed: number;
+  status: CapStatus;
+}
+
+interface SuperCapsResponse {
+  financialYear: number;
+  endDate: string;
+  monthsRemaining: number;
+  concessional: CapUsage & {
+    annualCap: number;
+    carryForward: number;
+    projectedEmployer: number;
+    projectedStatus: CapStatus;
+  };
+  nonConcessional: CapUsage;
+  carryForward: {
+    eligible: boolean;
+    totalSuperBalance: number | null;
+    amounts: Array<{ financialYear: number; amount: number; expiresAfter: number }>;
+  };
+  suggestion: {
+    salarySacrifice: number;
+    salarySacrificeMonthly: number | null;
+    nonConcessional: number;
+  };
+  calculatedAt: string;
+}
+
+async function fetchSuperCaps(): Promise<SuperCapsResponse> {
+  const response = await fetch("/api/super/caps");
+  if (!response.ok) {
+    throw new Error("Failed to fetch super contribution caps");
+  }
+  return response.json();
+}
+
+function formatAud(value: number): string {
+  return formatCurrency(value, "AUD");
+}
+
+function statusBarColor(status: CapStatus): string {
+  switch (status) {
+    case "exceeded":
+      return "bg-destructive";
+    case "reached":
+    case "approaching":
+      return "bg-warning";
+    default:
+      return "bg-primary";
+  }
+}
+
+interface CapBarProps {
+  label: string;
+  usage: CapUsage;
+  /** Amount expected on top of `contributed` by 30 June, drawn as a lighter segment */
+  projected?: number;
+}
+
+function CapBar({ label, usage, projected = 0 }: CapBarProps) {
+  const contributedWidth = usage.cap > 0 ? Math.min(usage.percentUsed, 100) : 0;
+  const projectedWidth =
+    usage.cap > 0 ? Math.min((projected / usage.cap) * 100, 100 - contributedWidth) : 0;
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between gap-4 mb-2">
+        <p className="text-sm text-foreground">{label}</p>
+        <p className="text-sm font-mono text-muted-foreground">
+          <span className="text-foreground">{formatAud(usage.contributed)}</span> of{" "}
+          {formatAud(usage.cap)}
+        </p>
+      </div>
+      <div
+        className="relative h-2 w-full overflow-hidden rounded-full bg-muted flex"
+        role="progressbar"
+        aria-label={`${label} used`}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(contributedWidth)}
+      >
+        <div className={`h-full ${statusBarColor(usage.status)}`} style={{ width: `${contributedWidth}%` }} />
+        {projectedWidth > 0 && (
+          <div className="h-full bg-primary/30" style={{ width: `${projectedWidth}%` }} />
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground mt-1">
+        {usage.percentUsed.toFixed(0)}% used · {formatAud(usage.remaining)} left
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Warnings for caps that have been, or are about to be, reached.
+ */
+function getWarnings(data: SuperCapsResponse): string[] {
+  const { concessional, nonConcessional } = data;
+  const warnings: string[] = [];
+
+  if (concessional.status === "exceeded") {
+    warnings.push(
+      `Concessional contributions are ${formatAud(concessional.contributed - concessional.cap)} over the cap. The excess is taxed at your marginal rate.`
+    );
+  } else if (concessional.status === "reached" || concessional.status === "approaching") {
+    warnings.push(
+      `Concessional contributions are at ${concessional.percentUsed.toFixed(0)}% of the cap.`
+    );
+  } else if (concessional.projectedStatus === "exceeded") {
+    warnings.push(
+      `At the current rate, employer contributions will take you over the concessional cap by 30 June.`
+    );
+  }
+
+  if (nonConcessional.status === "exceeded") {
+    warnings.push(
+      `Non-concessional contributions are ${formatAud(nonConcessional.contributed - nonConcessional.cap)} over the cap.`
+    );
+  } else if (nonConcessional.status === "reached" || nonConcessional.status === "approaching") {
+    warnings.push(
+      `Non-concessional contributions are at ${nonConcessional.percentUsed.toFixed(0)}% of the cap.`
+    );
+  }
+
+  return warnings;
+}
+
+function CapsSkeleton() {
+  return (
+    <div className="rounded-2xl glass-card p-4 sm:p-6">
+      <div className="h-5 w-48 skeleton-shimmer mb-6" />
+      <div className="space-y-6">
+        {[1, 2].map((i) => (
+          <div key={i}>
+            <div className="h-4 w-full skeleton-shimmer mb-2" />
+            <div className="h-2 w-full skeleton-shimmer" />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Super Contribution Caps
+ *
+ * This financial year's concessional and non-concessional contributions
+ * across all super holdings against their caps, including carried-forward
+ * unused concessional amounts. Warns as a cap gets close and suggests how
+ * much more can be salary sacrificed (after the employer contributions still
+ * expected) or contributed after tax before 30 June.
+ */
+export function SuperContributionCaps() {
+  const shouldReduceMotion = useReducedMotion();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.super.caps,
+    queryFn: fetchSuperCaps,
+  });
+
+  if (isLoading) {
+    return <CapsSkeleton />;
+  }
+
+  if (error || !data) {
+    return (
+      <div className="rounded-2xl border border-destructive bg-destructive/10 p-6">
+        <p className="text-destructive">Failed to load contribution caps</p>
+      </div>
+    );
+  }
+
+  const { concessional, nonConcessional, carryForward, suggestion } = data;
+  const warnings = getWarnings(data);
+  const endDate = format(parseISO(data.endDate), "d MMMM yyyy");
+
+  return (
+    <motion.div
+      className="rounded-2xl glass-card p-4 sm:p-6"
+      initial={shouldReduceMotion ? false : fadeIn.initial}
+      animate={fadeIn.animate}
+      transition={shouldReduceMotion ? { duration: 0 } : fadeIn.transition}
+    >
+      <h3 className="text-label uppercase text-muted-foreground mb-6">
+        Contribution Caps · {formatFinancialYear(data.financialYear)}
+      </h3>
+
+      {warnings.length > 0 && (
+        <div className="space-y-2 mb-6">
+          {warnings.map((warning) => (
+            <div
+              key={warning}
+              className="flex items-start gap-2 rounded-lg border border-warning/50 bg-warning/10 p-3 text-sm"
+            >
+              <AlertTriangle className="h-4 w-4 text-warning shrink-0 mt-0.5" />
+              <p className="text-foreground">{warning}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-6">
+        <div>
+          <CapBar
+            label="Concessional"
+            usage={concessional}
+            projected={concessional.projectedEmployer}
+          />
+          {concessional.carryForward > 0 && (
+            <p className="text-xs text-muted-foreground mt-1">
+              {formatAud(concessional.annualCap)} annual cap plus{" "}
+              {formatAud(concessional.carryForward)} unused cap carried forward from{" "}
+              {carryForward.amounts.map((a) => formatFinancialYear(a.financialYear)).join(", ")}.
+            </p>
+          )}
+          {!carryForward.eligible && carryForward.amounts.length > 0 && (
+            <p className="text-xs text-muted-foreground mt-1">
+              {carryForward.totalSuperBalance === null
+                ? `Carried-forward amounts aren't counted without a super balance recorded at 30 June ${data.financialYear - 1}.`
+                : `Carried-forward amounts can't be used: your total super balance at 30 June ${data.financialYear - 1} was ${formatAud(carryForward.totalSuperBalance)}, over ${formatAud(CARRY_FORWARD_BALANCE_THRESHOLD)}.`}
+            </p>
+          )}
+        </div>
+
+        <CapBar label="Non-concessional" usage={nonConcessional} />
+      </div>
+
+      <div className="mt-6 pt-6 border-t border-border space-y-2 text-sm">
+        <p className="text-muted-foreground">Room before {endDate}</p>
+        <div className="flex items-baseline justify-between gap-4">
+          <span className="text-foreground">Salary sacrifice</span>
+          <span className="font-mono text-foreground">
+            {formatAud(suggestion.salarySacrifice)}
+            {suggestion.salarySacrificeMonthly !== null && suggestion.salarySacrifice > 0 && (
+              <span className="text-muted-foreground">
+                {" "}
+                ({formatAud(suggestion.salarySacrificeMonthly)}/month)
+              </span>
+            )}
+          </span>
+        </div>
+        <div className="flex items-baseline justify-between gap-4">
+          <span className="text-foreground">After-tax contributions</span>
+          <span className="font-mono text-foreground">
+            {formatAud(suggestion.nonConcessional)}
+          </span>
+        </div>
+        {concessional.projectedEmployer > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Allows for {formatAud(concessional.projectedEmployer)} of employer contributions
+            over the {data.monthsRemaining} month{data.monthsRemaining === 1 ? "" : "s"} not
+            yet recorded.
+          </p>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { motion, useReducedMotion } from "framer-motion";
+import { queryKeys } from "@/lib/query-keys";
+import { fadeIn } from "@/lib/animations";
+import { formatCurrency, type Currency } from "@/lib/utils/currency";
+import { FinancialYearSelector } from "@/components/tax/financial-year-selector";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface SuperFeeYear {
+  financialYear: number;
+  months: number;
+  averageBalance: number;
+  contributions: number;
+  grossReturn: number;
+  adminFees: number;
+  investmentFees: number;
+  insurancePremiums: number;
+  contributionsTax: number;
+  costs: number;
+  netReturn: number;
+  feeDrag: number | null;
+  costDrag: number | null;
+  grossReturnPercent: number | null;
+  netReturnPercent: number | null;
+}
+
+interface SuperFundFees {
+  holdingId: string;
+  name: string;
+  currency: string;
+  isDormant: boolean;
+  years: SuperFeeYear[];
+}
+
+interface SuperFeesResponse {
+  funds: SuperFundFees[];
+  calculatedAt: string;
+}
+
+async function fetchSuperFees(): Promise<SuperFeesResponse> {
+  const response = await fetch("/api/super/fees");
+  if (!response.ok) {
+    throw new Error("Failed to fetch super fees");
+  }
+  return response.json();
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? "—" : `${value.toFixed(2)}%`;
+}
+
+/**
+ * Super Fee Drag
+ *
+ * Compares super funds for a financial year: gross investment return against
+ * admin and investment fees (fee drag), insurance premiums and contributions
+ * tax, all relative to the fund's average balance. Useful when deciding
+ * whether to consolidate funds.
+ */
+export function SuperFeeDrag() {
+  const shouldReduceMotion = useReducedMotion();
+  const [selectedYear, setSelectedYear] = useState<number | null>(null);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.super.fees,
+    queryFn: fetchSuperFees,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="rounded-2xl glass-card p-4 sm:p-6">
+        <div className="h-5 w-48 skeleton-shimmer mb-6" />
+        <div className="space-y-3">
+          {[1, 2].map((i) => (
+            <div key={i} className="h-4 w-full skeleton-shimmer" />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="rounded-2xl border border-destructive bg-destructive/10 p-6">
+        <p className="text-destructive">Failed to load super fees</p>
+      </div>
+    );
+  }
+
+  const years = [
+    ...new Set(data.funds.flatMap((fund) => fund.years.map((y) => y.financialYear))),
+  ].sort((a, b) => b - a);
+
+  // Nothing to compare until a fund has two snapshots
+  if (years.length === 0) {
+    return null;
+  }
+
+  const financialYear = selectedYear ?? years[0];
+  const rows = data.funds.flatMap((fund) => {
+    const year = fund.years.find((y) => y.financialYear === financialYear);
+    return year ? [{ fund, year }] : [];
+  });
+  const hasCosts = rows.some(({ year }) => year.costs > 0);
+
+  return (
+    <motion.div
+      className="rounded-2xl glass-card p-4 sm:p-6"
+      initial={shouldReduceMotion ? false : fadeIn.initial}
+      animate={fadeIn.animate}
+      transition={shouldReduceMotion ? { duration: 0 } : fadeIn.transition}
+    >
+      <div className="flex items-center justify-between gap-4 mb-6">
+        <h3 className="text-label uppercase text-muted-foreground">Super Fees &amp; Returns</h3>
+        <FinancialYearSelector
+          value={financialYear}
+          years={years}
+          onChange={setSelectedYear}
+        />
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow className="border-border hover:bg-transparent">
+            <TableHead className="text-muted-foreground">Fund</TableHead>
+            <TableHead className="text-muted-foreground text-right">Avg Balance</TableHead>
+            <TableHead className="text-muted-foreground text-right">Gross Return</TableHead>
+            <TableHead className="text-muted-foreground text-right">Fees</TableHead>
+            <TableHead className="text-muted-foreground text-right">Fee Drag</TableHead>
+            <TableHead className="text-muted-foreground text-right">Insurance</TableHead>
+            <TableHead className="text-muted-foreground text-right">Contributions Tax</TableHead>
+            <TableHead className="text-muted-foreground text-right">Net Return</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(({ fund, year }) => {
+            const currency = fund.currency as Currency;
+            return (
+              <TableRow key={fund.holdingId} className="border-border">
+                <TableCell className="text-foreground">
+                  {fund.name}
+                  {year.months < 12 && (
+                    <span className="text-muted-foreground text-xs">
+                      {" "}
+                      ({year.months} mo)
+                    </span>
+                  )}
+                </TableCell>
+                <TableCell className="text-right font-mono text-muted-foreground">
+                  {formatCurrency(year.averageBalance, currency, { compact: true })}
+                </TableCell>
+                <TableCell className="text-right font-mono text-foreground">
+                  {formatPercent(year.grossReturnPercent)}
+                </TableCell>
+                <TableCell className="text-right font-mono text-muted-foreground">
+                  {formatCurrency(year.adminFees + year.investmentFees, currency)}
+                </TableCell>
+                <TableCell className="text-right font-mono text-foreground">
+                  {formatPercent(year.feeDrag)}
+                </TableCell>
+                <TableCell className="text-right font-mono text-muted-foreground">
+                  {formatCurrency(year.insurancePremiums, currency)}
+                </TableCell>
+                <TableCell className="text-right font-mono text-muted-foreground">
+                  {formatCurrency(year.contributionsTax, currency)}
+                </TableCell>
+                <TableCell
+                  className={`text-right font-mono ${
+                    (year.netReturnPercent ?? 0) >= 0 ? "text-positive" : "text-destructive"
+                  }`}
+                >
+                  {formatPercent(year.netReturnPercent)}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+
+      <p className="text-xs text-muted-foreground mt-4">
+        {hasCosts
+          ? "Percentages are of the average balance, annualised over the months recorded. Fee drag counts admin and investment fees; net return is after all costs."
+          : "No fees recorded for this year. Add admin and investment fees, insurance and contributions tax at check-in to split gross returns from costs."}
+      </p>
+    </motion.div>
+  );
+}
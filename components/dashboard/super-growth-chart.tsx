@@ -329,9 +329,9 @@ export function SuperGrowthChart({
     return {
       date: point.date,
       displayMonth: formatMonth(point.date),
-      cumulativeEmployer: convert(cumulativeEmployer, sourceCurrency as "AUD" | "NZD" | "USD"),
-      cumulativeEmployee: convert(cumulativeEmployee, sourceCurrency as "AUD" | "NZD" | "USD"),
-      cumulativeReturns: convert(cumulativeReturns, sourceCurrency as "AUD" | "NZD" | "USD"),
+      cumulativeEmployer: convert(cumulativeEmployer, sourceCurrency as Currency),
+      cumulativeEmployee: convert(cumulativeEmployee, sourceCurrency as Currency),
+      cumulativeReturns: convert(cumulativeReturns, sourceCurrency as Currency),
     };
   });
 
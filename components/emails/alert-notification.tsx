@@ -0,0 +1,239 @@
+/**
+ * Email template for triggered price and portfolio alerts.
+ *
+ * Lists every alert that fired in one evaluation run. Dark mode styling to
+ * match the app's design.
+ */
+
+import {
+  Body,
+  Container,
+  Head,
+  Heading,
+  Html,
+  Link,
+  Preview,
+  Section,
+  Text,
+} from "@react-email/components";
+
+/**
+ * A single alert that fired
+ */
+export interface FiredAlert {
+  /** Alert rule ID */
+  id: string;
+  /** Description of what happened, e.g. "VAS.AX rose above 100.00 AUD" */
+  message: string;
+}
+
+/**
+ * Props for the alert notification email
+ */
+export interface AlertNotificationEmailProps {
+  /** User's first name for personalized greeting */
+  userName?: string;
+  /** Alerts that fired */
+  alerts: FiredAlert[];
+  /** URL to the dashboard */
+  dashboardUrl: string;
+  /** URL to the settings page where alerts are managed */
+  settingsUrl: string;
+}
+
+/**
+ * Dark mode color palette matching the app
+ */
+const colors = {
+  background: "#111827", // gray-900
+  cardBackground: "#1f2937", // gray-800
+  border: "#374151", // gray-700
+  text: "#f9fafb", // gray-50
+  textMuted: "#9ca3af", // gray-400
+  primary: "#3b82f6", // blue-500
+};
+
+/**
+ * Alert notification email template
+ */
+export function AlertNotificationEmail({
+  userName,
+  alerts,
+  dashboardUrl,
+  settingsUrl,
+}: AlertNotificationEmailProps) {
+  const greeting = userName ? `Hi ${userName}` : "Hi";
+  const previewText =
+    alerts.length === 1 ? alerts[0].message : `${alerts.length} of your alerts were triggered`;
+
+  return (
+    <Html>
+      <Head />
+      <Preview>{previewText}</Preview>
+      <Body style={styles.body}>
+        <Container style={styles.container}>
+          {/* Header */}
+          <Section style={styles.header}>
+            <Heading style={styles.logo}>Mjolnir</Heading>
+          </Section>
+
+          {/* Main Content */}
+          <Section style={styles.content}>
+            <Heading style={styles.heading}>{greeting},</Heading>
+
+            <Text style={styles.text}>
+              {alerts.length === 1
+                ? "One of your alerts was triggered."
+                : `${alerts.length} of your alerts were triggered.`}
+            </Text>
+
+            {/* Alerts Card */}
+            <Section style={styles.summaryCard}>
+              <Heading as="h3" style={styles.summaryHeading}>
+                Triggered Alerts
+              </Heading>
+
+              {alerts.map((alert) => (
+                <Text key={alert.id} style={styles.alertItem}>
+                  {alert.message}
+                </Text>
+              ))}
+            </Section>
+
+            {/* CTA Button */}
+            <Section style={styles.buttonContainer}>
+              <Link href={dashboardUrl} style={styles.button}>
+                View Dashboard
+              </Link>
+            </Section>
+
+            <Text style={styles.textSmall}>
+              Each alert is sent once when its condition is first met, and
+              again only after it has stopped and started again. Daily move
+              alerts are sent at most once a day.
+            </Text>
+          </Section>
+
+          {/* Footer */}
+          <Section style={styles.footer}>
+            <Text style={styles.footerText}>
+              This email was sent by Mjolnir, your personal net worth tracker.
+            </Text>
+            <Text style={styles.footerText}>
+              <Link href={settingsUrl} style={styles.footerLink}>
+                Manage your alerts
+              </Link>
+            </Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  );
+}
+
+/**
+ * Styles for the email template
+ */
+const styles = {
+  body: {
+    backgroundColor: colors.background,
+    fontFamily:
+      '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif',
+    margin: 0,
+    padding: 0,
+  },
+  container: {
+    backgroundColor: colors.background,
+    margin: "0 auto",
+    maxWidth: "600px",
+    padding: "20px",
+  },
+  header: {
+    borderBottom: `1px solid ${colors.border}`,
+    paddingBottom: "20px",
+    marginBottom: "20px",
+  },
+  logo: {
+    color: colors.text,
+    fontSize: "24px",
+    fontWeight: "bold" as const,
+    margin: 0,
+    textAlign: "center" as const,
+  },
+  content: {
+    padding: "0 20px",
+  },
+  heading: {
+    color: colors.text,
+    fontSize: "20px",
+    fontWeight: "600" as const,
+    marginBottom: "16px",
+  },
+  text: {
+    color: colors.textMuted,
+    fontSize: "16px",
+    lineHeight: "24px",
+    marginBottom: "24px",
+  },
+  textSmall: {
+    color: colors.textMuted,
+    fontSize: "14px",
+    lineHeight: "20px",
+    marginTop: "24px",
+  },
+  summaryCard: {
+    backgroundColor: colors.cardBackground,
+    border: `1px solid ${colors.border}`,
+    borderRadius: "8px",
+    padding: "20px",
+    marginBottom: "24px",
+  },
+  summaryHeading: {
+    color: colors.text,
+    fontSize: "16px",
+    fontWeight: "600" as const,
+    marginTop: 0,
+    marginBottom: "16px",
+  },
+  alertItem: {
+    color: colors.text,
+    fontSize: "14px",
+    lineHeight: "22px",
+    margin: "8px 0",
+  },
+  buttonContainer: {
+    textAlign: "center" as const,
+    marginBottom: "24px",
+  },
+  button: {
+    backgroundColor: colors.primary,
+    borderRadius: "6px",
+    color: "#ffffff",
+    display: "inline-block",
+    fontSize: "16px",
+    fontWeight: "600" as const,
+    padding: "12px 32px",
+    textDecoration: "none",
+  },
+  footer: {
+    borderTop: `1px solid ${colors.border}`,
+    marginTop: "40px",
+    paddingTop: "20px",
+    textAlign: "center" as const,
+  },
+  footerText: {
+    color: colors.textMuted,
+    fontSize: "12px",
+    lineHeight: "18px",
+    margin: "8px 0",
+  },
+  footerLink: {
+    color: colors.textMuted,
+    textDecoration: "underline",
+  },
+};
+
+/**
+ * Default export for React Email preview
+ */
+export default AlertNotificationEmail;
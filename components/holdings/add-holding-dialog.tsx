@@ -22,8 +22,49 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { FormField } from "@/components/ui/form-field";
 import { FormSelectField } from "@/components/ui/form-select-field";
 import { useFormShake } from "@/hooks/use-form-shake";
-import { CURRENCIES, EXCHANGES, TRADEABLE_TYPES } from "@/lib/constants";
+import {
+  ENABLED_CURRENCIES,
+  EXCHANGES,
+  TRADEABLE_TYPES,
+  HOLDING_TYPE_ORDER,
+  isRealAsset,
+  COST_BASIS_METHODS,
+  COST_BASIS_METHOD_LABELS,
+  type CostBasisMethod,
+} from "@/lib/constants";
 import { queryKeys } from "@/lib/query-keys";
+import {
+  RealAssetFormFields,
+  realAssetFieldShape,
+  refineRealAssetFields,
+  getRealAssetDefaults,
+  toRealAssetPayload,
+  type RealAssetPayload,
+} from "./real-asset-form-fields";
+import {
+  PriceSourceFormFields,
+  priceSourceFieldShape,
+  refinePriceSourceFields,
+  getPriceSourceDefaults,
+  toPriceSourcePayload,
+  usesYahooPrices,
+  type PriceSourcePayload,
+} from "./price-source-form-fields";
+import {
+  SettlementFormFields,
+  settlementFieldShape,
+  getSettlementDefaults,
+  toSettlementPayload,
+  type SettlementPayload,
+} from "./settlement-form-fields";
+import {
+  DebtFormFields,
+  debtFieldShape,
+  refineDebtFields,
+  getDebtDefaults,
+  toDebtPayload,
+  type DebtPayload,
+} from "./debt-form-fields";
 
 const HOLDING_TYPES = [
   { value: "stock", label: "Stock", description: "Individual company shares" },
@@ -31,15 +72,21 @@ const HOLDING_TYPES = [
   { value: "crypto", label: "Crypto", description: "Cryptocurrency" },
   { value: "super", label: "Super", description: "Superannuation funds" },
   { value: "cash", label: "Cash", description: "Bank accounts and cash" },
+  { value: "property", label: "Property", description: "Homes and investment property" },
+  { value: "vehicle", label: "Vehicle", description: "Cars, bikes and boats" },
   { value: "debt", label: "Debt", description: "Loans and liabilities" },
 ] as const;
-// Types that require exchange
+// Types that require exchange (when priced by Yahoo Finance)
 const EXCHANGE_REQUIRED_TYPES = ["stock", "etf"] as const;
 
 export type HoldingType = (typeof HOLDING_TYPES)[number]["value"];
 
-const CURRENCY_OPTIONS = CURRENCIES.map((c) => ({ value: c, label: c }));
+const CURRENCY_OPTIONS = ENABLED_CURRENCIES.map((c) => ({ value: c, label: c }));
 const EXCHANGE_OPTIONS = EXCHANGES.map((e) => ({ value: e, label: e }));
+const COST_BASIS_METHOD_OPTIONS = COST_BASIS_METHODS.map((m) => ({
+  value: m,
+  label: COST_BASIS_METHOD_LABELS[m],
+}));
 
 // Zod schema for step 2 form
 const holdingFormSchema = z
@@ -49,12 +96,25 @@ const holdingFormSchema = z
     currency: z.string().min(1, "Currency is required"),
     exchange: z.string().optional().default(""),
     isDormant: z.boolean().default(false),
+    costBasisMethod: z.enum(COST_BASIS_METHODS).default("fifo"),
+    ...realAssetFieldShape,
+    ...priceSourceFieldShape,
+    ...settlementFieldShape,
+    ...debtFieldShape,
     // Hidden field to drive conditional validation
-    _type: z.enum(["stock", "etf", "crypto", "super", "cash", "debt"]),
+    _type: z.enum(HOLDING_TYPE_ORDER),
   })
   .superRefine((data, ctx) => {
+    refineRealAssetFields(data, ctx);
+    refineDebtFields(data, ctx);
+
     const isTradeable = (TRADEABLE_TYPES as readonly string[]).includes(data._type);
-    const requiresExchange = (EXCHANGE_REQUIRED_TYPES as readonly string[]).includes(data._type);
+    if (isTradeable) {
+      refinePriceSourceFields(data, ctx);
+    }
+    const requiresExchange =
+      (EXCHANGE_REQUIRED_TYPES as readonly string[]).includes(data._type) &&
+      usesYahooPrices(data._type, data);
 
     // Symbol required for tradeable types
     if (isTradeable && !data.symbol.trim()) {
@@ -66,7 +126,7 @@ const holdingFormSchema = z
     }
 
     // Validate symbol format for ASX/NZX
-    if (isTradeable && data.symbol.trim()) {
+    if (requiresExchange && data.symbol.trim()) {
       const upperSymbol = data.symbol.trim().toUpperCase();
       if (data.exchange === "ASX" && !upperSymbol.endsWith(".AX")) {
         ctx.addIssue({
@@ -107,7 +167,8 @@ async function createHolding(data: {
   currency: string;
   exchange?: string;
   isDormant?: boolean;
-}) {
+  costBasisMethod?: CostBasisMethod;
+} & Partial<RealAssetPayload> & Partial<PriceSourcePayload> & Partial<SettlementPayload> & Partial<DebtPayload>) {
   const response = await fetch("/api/holdings", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
@@ -138,12 +199,20 @@ export function AddHoldingDialog({ children }: AddHoldingDialogProps) {
       currency: "",
       exchange: "",
       isDormant: false,
+      costBasisMethod: "fifo",
+      ...getRealAssetDefaults(),
+      ...getPriceSourceDefaults(),
+      ...getSettlementDefaults(),
+      ...getDebtDefaults(),
       _type: "stock",
     },
   });
 
   const isTradeable = selectedType && (TRADEABLE_TYPES as readonly string[]).includes(selectedType);
-  const requiresExchange = selectedType && (EXCHANGE_REQUIRED_TYPES as readonly string[]).includes(selectedType);
+  const requiresExchange =
+    selectedType &&
+    (EXCHANGE_REQUIRED_TYPES as readonly string[]).includes(selectedType) &&
+    usesYahooPrices(selectedType, { priceProvider: form.watch("priceProvider") });
   const isSuper = selectedType === "super";
 
   const mutation = useMutation({
@@ -200,6 +269,11 @@ export function AddHoldingDialog({ children }: AddHoldingDialogProps) {
       currency: data.currency,
       exchange: requiresExchange ? data.exchange : undefined,
       isDormant: isSuper ? data.isDormant : undefined,
+      costBasisMethod: isTradeable ? data.costBasisMethod : undefined,
+      ...(isTradeable && toPriceSourcePayload(data)),
+      ...(isTradeable && toSettlementPayload(data)),
+      ...(isRealAsset(selectedType!) && toRealAssetPayload(data, selectedType!)),
+      ...(selectedType === "debt" && toDebtPayload(data)),
     });
   };
 
@@ -212,6 +286,8 @@ export function AddHoldingDialog({ children }: AddHoldingDialogProps) {
     if (selectedType === "super") return "e.g., AustralianSuper";
     if (selectedType === "cash") return "e.g., Savings Account";
     if (selectedType === "debt") return "e.g., Home Loan";
+    if (selectedType === "property") return "e.g., 12 Smith St";
+    if (selectedType === "vehicle") return "e.g., Toyota RAV4";
     return "e.g., My Holding";
   };
 
@@ -323,6 +399,28 @@ export function AddHoldingDialog({ children }: AddHoldingDialogProps) {
                   />
                 )}
 
+                {/* Cost basis method - only for tradeable types */}
+                {isTradeable && (
+                  <FormSelectField<HoldingFormValues>
+                    name="costBasisMethod"
+                    label="Cost Basis Method"
+                    description="How sales are matched against purchase lots"
+                    options={COST_BASIS_METHOD_OPTIONS}
+                  />
+                )}
+
+                {/* Price source - only for tradeable types */}
+                {isTradeable && <PriceSourceFormFields type={selectedType!} />}
+
+                {/* Settlement cash account - only for tradeable types */}
+                {isTradeable && <SettlementFormFields />}
+
+                {/* Purchase details and linked loan - only for property/vehicle */}
+                {selectedType && isRealAsset(selectedType) && <RealAssetFormFields type={selectedType} />}
+
+                {/* Loan details and offset account - only for debt */}
+                {selectedType === "debt" && <DebtFormFields />}
+
                 {/* Is Dormant checkbox - only for super type */}
                 {isSuper && (
                   <div className="flex items-center space-x-2">
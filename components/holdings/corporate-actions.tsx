@@ -0,0 +1,374 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { showSuccess, showError } from "@/lib/toast-helpers";
+import { queryKeys } from "@/lib/query-keys";
+import {
+  CORPORATE_ACTION_TYPES,
+  CORPORATE_ACTION_LABELS,
+  CORPORATE_ACTIONS_WITH_TARGET,
+  isTradeable,
+  type CorporateActionType,
+} from "@/lib/constants";
+import type { Holding } from "@/lib/db/schema";
+
+interface HoldingRef {
+  id: string;
+  name: string;
+  symbol: string | null;
+}
+
+interface CorporateActionRow {
+  id: string;
+  holdingId: string;
+  targetHoldingId: string | null;
+  type: CorporateActionType;
+  date: string;
+  ratio: string | null;
+  cashPerUnit: string | null;
+  costBasePercent: string | null;
+  oldSymbol: string | null;
+  newSymbol: string | null;
+  notes: string | null;
+  holding: HoldingRef;
+  targetHolding: HoldingRef | null;
+}
+
+interface CreateCorporateActionData {
+  holding_id: string;
+  type: CorporateActionType;
+  date: string;
+  target_holding_id?: string;
+  ratio?: string;
+  cash_per_unit?: string;
+  cost_base_percent?: string;
+  new_symbol?: string;
+}
+
+async function fetchCorporateActions(holdingId: string): Promise<CorporateActionRow[]> {
+  const response = await fetch(`/api/corporate-actions?holding_id=${holdingId}`);
+  if (!response.ok) {
+    throw new Error("Failed to fetch corporate actions");
+  }
+  return response.json();
+}
+
+async function fetchTradeableHoldings(): Promise<Holding[]> {
+  const response = await fetch("/api/holdings?include_dormant=true");
+  if (!response.ok) {
+    throw new Error("Failed to fetch holdings");
+  }
+  const holdings: Holding[] = await response.json();
+  return holdings.filter((h) => isTradeable(h.type));
+}
+
+async function createCorporateAction(data: CreateCorporateActionData): Promise<void> {
+  const response = await fetch("/api/corporate-actions", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(
+      (body.errors && Object.values(body.errors)[0]) ||
+        body.error ||
+        "Failed to record corporate action"
+    );
+  }
+}
+
+async function deleteCorporateAction(id: string): Promise<void> {
+  const response = await fetch(`/api/corporate-actions/${id}`, { method: "DELETE" });
+  if (!response.ok) {
+    throw new Error("Failed to delete corporate action");
+  }
+}
+
+function holdingLabel(holding: HoldingRef): string {
+  return holding.symbol || holding.name;
+}
+
+/**
+ * One-line description of an action from the viewed holding's side.
+ */
+function describeAction(action: CorporateActionRow, holdingId: string): string {
+  const ratio = Number(action.ratio ?? 0);
+  const cash = Number(action.cashPerUnit ?? 0);
+  const percent = Number(action.costBasePercent ?? 0);
+  const target = action.targetHolding ? holdingLabel(action.targetHolding) : "another holding";
+
+  switch (action.type) {
+    case "symbol_change":
+      return `${action.oldSymbol ?? "—"} renamed to ${action.newSymbol ?? "—"}`;
+    case "return_of_capital":
+      return `${cash} per unit returned`;
+    case "merger":
+      if (action.targetHoldingId === holdingId) {
+        return `${ratio} units per ${holdingLabel(action.holding)} unit received`;
+      }
+      return `Converted to ${ratio} ${target} per unit${cash > 0 ? ` plus ${cash} cash` : ""}`;
+    case "spin_off":
+      if (action.targetHoldingId === holdingId) {
+        return `${ratio} units per ${holdingLabel(action.holding)} unit received, ${percent}% of cost base`;
+      }
+      return `${ratio} ${target} per unit spun off, ${percent}% of cost base`;
+  }
+}
+
+interface CorporateActionsProps {
+  holdingId: string;
+}
+
+/**
+ * Corporate actions for a tradeable holding: symbol changes, mergers,
+ * spin-offs and returns of capital, including those received from another
+ * holding.
+ */
+export function CorporateActions({ holdingId }: CorporateActionsProps) {
+  const queryClient = useQueryClient();
+  const [type, setType] = useState<CorporateActionType>("symbol_change");
+  const [date, setDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [targetHoldingId, setTargetHoldingId] = useState("");
+  const [ratio, setRatio] = useState("");
+  const [cashPerUnit, setCashPerUnit] = useState("");
+  const [costBasePercent, setCostBasePercent] = useState("");
+  const [newSymbol, setNewSymbol] = useState("");
+
+  const hasTarget = CORPORATE_ACTIONS_WITH_TARGET.includes(type);
+
+  const { data: actions, isLoading, error } = useQuery({
+    queryKey: queryKeys.holdings.corporateActions(holdingId),
+    queryFn: () => fetchCorporateActions(holdingId),
+  });
+
+  const { data: tradeableHoldings } = useQuery({
+    queryKey: queryKeys.holdings.tradeable,
+    queryFn: fetchTradeableHoldings,
+    enabled: hasTarget,
+  });
+
+  const invalidate = (otherHoldingId: string | null) => {
+    // Quantities, lots and cost bases of both holdings change
+    queryClient.invalidateQueries({ queryKey: queryKeys.holdings.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.holdings.detail(holdingId) });
+    if (otherHoldingId) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.holdings.detail(otherHoldingId) });
+    }
+    queryClient.invalidateQueries({ queryKey: queryKeys.prices.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.netWorth.all });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: () =>
+      createCorporateAction({
+        holding_id: holdingId,
+        type,
+        date,
+        ...(type === "symbol_change" && { new_symbol: newSymbol }),
+        ...(hasTarget && { target_holding_id: targetHoldingId, ratio }),
+        ...((type === "merger" || type === "return_of_capital") &&
+          cashPerUnit && { cash_per_unit: cashPerUnit }),
+        ...(hasTarget && costBasePercent && { cost_base_percent: costBasePercent }),
+      }),
+    onSuccess: () => {
+      invalidate(hasTarget ? targetHoldingId : null);
+      setTargetHoldingId("");
+      setRatio("");
+      setCashPerUnit("");
+      setCostBasePercent("");
+      setNewSymbol("");
+      showSuccess("Corporate action recorded");
+    },
+    onError: (error: Error) => showError(error.message),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (action: CorporateActionRow) => deleteCorporateAction(action.id),
+    onSuccess: (_data, action) => {
+      invalidate(action.holdingId === holdingId ? action.targetHoldingId : action.holdingId);
+      showSuccess("Corporate action deleted");
+    },
+    onError: (error: Error) => showError(error.message),
+  });
+
+  const targetOptions = (tradeableHoldings ?? []).filter((h) => h.id !== holdingId);
+
+  return (
+    <div className="rounded-lg border border-border bg-card/50 p-6 mt-6">
+      <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide mb-4">
+        Corporate Actions
+      </h3>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+        <div className="space-y-2">
+          <Label>Type</Label>
+          <Select value={type} onValueChange={(value) => setType(value as CorporateActionType)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CORPORATE_ACTION_TYPES.map((t) => (
+                <SelectItem key={t} value={t}>
+                  {CORPORATE_ACTION_LABELS[t]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="corporate-action-date">Date</Label>
+          <Input
+            id="corporate-action-date"
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+          />
+        </div>
+
+        {type === "symbol_change" && (
+          <div className="space-y-2">
+            <Label htmlFor="corporate-action-symbol">New Symbol</Label>
+            <Input
+              id="corporate-action-symbol"
+              placeholder="e.g., NEW"
+              value={newSymbol}
+              onChange={(e) => setNewSymbol(e.target.value)}
+            />
+          </div>
+        )}
+
+        {hasTarget && (
+          <>
+            <div className="space-y-2">
+              <Label>{type === "merger" ? "Acquiring Holding" : "Spun-off Holding"}</Label>
+              <Select value={targetHoldingId} onValueChange={setTargetHoldingId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a holding" />
+                </SelectTrigger>
+                <SelectContent>
+                  {targetOptions.map((h) => (
+                    <SelectItem key={h.id} value={h.id}>
+                      {holdingLabel(h)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="corporate-action-ratio">New Units per Unit</Label>
+              <Input
+                id="corporate-action-ratio"
+                type="number"
+                placeholder="1"
+                value={ratio}
+                onChange={(e) => setRatio(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="corporate-action-percent">Cost Base Carried (%)</Label>
+              <Input
+                id="corporate-action-percent"
+                type="number"
+                placeholder={type === "merger" ? "100" : "e.g., 15"}
+                value={costBasePercent}
+                onChange={(e) => setCostBasePercent(e.target.value)}
+              />
+            </div>
+          </>
+        )}
+
+        {(type === "merger" || type === "return_of_capital") && (
+          <div className="space-y-2">
+            <Label htmlFor="corporate-action-cash">
+              Cash per Unit{type === "merger" && " (optional)"}
+            </Label>
+            <Input
+              id="corporate-action-cash"
+              type="number"
+              placeholder="0.00"
+              value={cashPerUnit}
+              onChange={(e) => setCashPerUnit(e.target.value)}
+            />
+          </div>
+        )}
+
+        <Button onClick={() => addMutation.mutate()} disabled={!date || addMutation.isPending}>
+          {addMutation.isPending ? <Loader2 className="animate-spin" /> : <Plus />}
+          Record action
+        </Button>
+      </div>
+
+      <div className="mt-6">
+        {isLoading ? (
+          <div className="animate-pulse h-24 bg-muted rounded" />
+        ) : error || !actions ? (
+          <p className="text-destructive">Failed to load corporate actions</p>
+        ) : actions.length === 0 ? (
+          <p className="text-muted-foreground">No corporate actions recorded.</p>
+        ) : (
+          <div className="rounded-lg border border-border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-border hover:bg-transparent">
+                  <TableHead className="text-muted-foreground">Date</TableHead>
+                  <TableHead className="text-muted-foreground">Type</TableHead>
+                  <TableHead className="text-muted-foreground">Details</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {actions.map((action) => (
+                  <TableRow key={action.id} className="border-border">
+                    <TableCell className="text-foreground">
+                      {format(parseISO(action.date), "d MMM yyyy")}
+                    </TableCell>
+                    <TableCell className="text-foreground">
+                      {CORPORATE_ACTION_LABELS[action.type]}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {describeAction(action, holdingId)}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Delete corporate action"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => deleteMutation.mutate(action)}
+                      >
+                        <Trash2 />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
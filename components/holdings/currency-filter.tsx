@@ -8,8 +8,9 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { CURRENCY_INFO, ENABLED_CURRENCIES, type Currency } from "@/lib/constants";
 
-export type CurrencyFilterValue = "all" | "AUD" | "NZD" | "USD";
+export type CurrencyFilterValue = "all" | Currency;
 
 interface CurrencyFilterProps {
   value: CurrencyFilterValue;
@@ -19,9 +20,7 @@ interface CurrencyFilterProps {
 
 const CURRENCY_OPTIONS: { value: CurrencyFilterValue; label: string; flag?: string }[] = [
   { value: "all", label: "All Currencies" },
-  { value: "AUD", label: "AUD", flag: "🇦🇺" },
-  { value: "NZD", label: "NZD", flag: "🇳🇿" },
-  { value: "USD", label: "USD", flag: "🇺🇸" },
+  ...ENABLED_CURRENCIES.map((c) => ({ value: c, label: c, flag: CURRENCY_INFO[c].flag })),
 ];
 
 export function CurrencyFilter({ value, onChange, className }: CurrencyFilterProps) {
@@ -0,0 +1,202 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { useFormContext } from "react-hook-form";
+import { z } from "zod";
+import { FormField } from "@/components/ui/form-field";
+import { FormSelectField } from "@/components/ui/form-select-field";
+import type { Holding } from "@/lib/db/schema";
+import {
+  REPAYMENT_FREQUENCIES,
+  REPAYMENT_FREQUENCY_LABELS,
+  MAX_LOAN_MONTHS,
+  type RepaymentFrequency,
+} from "@/lib/constants";
+import { queryKeys } from "@/lib/query-keys";
+
+// Select items cannot have an empty value, so "no offset account" uses a sentinel
+const NO_OFFSET_ACCOUNT = "none";
+
+const REPAYMENT_FREQUENCY_OPTIONS = REPAYMENT_FREQUENCIES.map((f) => ({
+  value: f,
+  label: REPAYMENT_FREQUENCY_LABELS[f],
+}));
+
+/**
+ * Form fields for a debt holding's loan details. Spread into a holding
+ * form's zod object; numbers are strings so inputs can be blank.
+ */
+export const debtFieldShape = {
+  interestRate: z.string().optional().default(""),
+  repaymentAmount: z.string().optional().default(""),
+  repaymentFrequency: z.enum(REPAYMENT_FREQUENCIES).default("monthly"),
+  loanStartDate: z.string().optional().default(""),
+  loanTermYears: z.string().optional().default(""),
+  offsetHoldingId: z.string().optional().default(""),
+};
+
+export type DebtFormValues = z.infer<z.ZodObject<typeof debtFieldShape>>;
+
+/**
+ * Loan details as sent to the holdings API.
+ */
+export interface DebtPayload {
+  interestRate: number | null;
+  repaymentAmount: number | null;
+  repaymentFrequency: RepaymentFrequency | null;
+  loanStartDate: string | null;
+  loanTermMonths: number | null;
+  offsetHoldingId: string | null;
+}
+
+/**
+ * Adds issues for invalid loan fields. Call from the holding form's
+ * superRefine.
+ */
+export function refineDebtFields(data: DebtFormValues, ctx: z.RefinementCtx) {
+  const rate = data.interestRate.trim();
+  if (rate && (isNaN(Number(rate)) || Number(rate) < 0 || Number(rate) > 100)) {
+    ctx.addIssue({
+      code: "custom",
+      message: "Rate must be between 0 and 100",
+      path: ["interestRate"],
+    });
+  }
+
+  const repayment = data.repaymentAmount.trim();
+  if (repayment && (isNaN(Number(repayment)) || Number(repayment) <= 0)) {
+    ctx.addIssue({
+      code: "custom",
+      message: "Must be greater than 0",
+      path: ["repaymentAmount"],
+    });
+  }
+
+  const term = data.loanTermYears.trim();
+  const termMonths = Math.round(Number(term) * 12);
+  if (term && (isNaN(termMonths) || termMonths < 1 || termMonths > MAX_LOAN_MONTHS)) {
+    ctx.addIssue({
+      code: "custom",
+      message: `Term must be up to ${MAX_LOAN_MONTHS / 12} years`,
+      path: ["loanTermYears"],
+    });
+  }
+}
+
+/**
+ * Form values for a holding's existing loan details (or blanks). The term
+ * is shown in years.
+ */
+export function getDebtDefaults(holding?: Holding): DebtFormValues {
+  return {
+    interestRate: holding?.interestRate ?? "",
+    repaymentAmount: holding?.repaymentAmount ?? "",
+    repaymentFrequency: holding?.repaymentFrequency ?? "monthly",
+    loanStartDate: holding?.loanStartDate ?? "",
+    loanTermYears: holding?.loanTermMonths ? String(holding.loanTermMonths / 12) : "",
+    offsetHoldingId: holding?.offsetHoldingId ?? "",
+  };
+}
+
+/**
+ * Converts form values to the API payload. Blank fields are sent as null,
+ * and the frequency only once there is a repayment or term for it to apply to.
+ */
+export function toDebtPayload(data: DebtFormValues): DebtPayload {
+  const toNumber = (value: string) => (value.trim() ? Number(value) : null);
+  const repaymentAmount = toNumber(data.repaymentAmount);
+  const termYears = toNumber(data.loanTermYears);
+
+  return {
+    interestRate: toNumber(data.interestRate),
+    repaymentAmount,
+    repaymentFrequency:
+      repaymentAmount !== null || termYears !== null ? data.repaymentFrequency : null,
+    loanStartDate: data.loanStartDate || null,
+    loanTermMonths: termYears !== null ? Math.round(termYears * 12) : null,
+    offsetHoldingId:
+      data.offsetHoldingId && data.offsetHoldingId !== NO_OFFSET_ACCOUNT
+        ? data.offsetHoldingId
+        : null,
+  };
+}
+
+async function fetchCashHoldings(): Promise<Holding[]> {
+  const response = await fetch("/api/holdings?include_dormant=true");
+  if (!response.ok) {
+    throw new Error("Failed to fetch holdings");
+  }
+  const holdings: Holding[] = await response.json();
+  return holdings.filter((h) => h.type === "cash");
+}
+
+/**
+ * Interest rate, repayment, start date and term, and offset account for a
+ * debt. The offset select offers cash holdings in the form's selected
+ * currency. Must be rendered inside a FormProvider whose values include
+ * DebtFormValues and `currency`.
+ */
+export function DebtFormFields() {
+  const { watch } = useFormContext<DebtFormValues & { currency: string }>();
+  const currency = watch("currency");
+
+  const { data: cashHoldings = [] } = useQuery({
+    queryKey: queryKeys.holdings.cash,
+    queryFn: fetchCashHoldings,
+  });
+
+  const offsetOptions = [
+    { value: NO_OFFSET_ACCOUNT, label: "No offset account" },
+    ...cashHoldings
+      .filter((h) => !currency || h.currency === currency)
+      .map((h) => ({ value: h.id, label: h.name })),
+  ];
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-4">
+        <FormField<DebtFormValues>
+          name="interestRate"
+          label="Interest Rate (% p.a.)"
+          type="number"
+          placeholder="0.00"
+        />
+        <FormField<DebtFormValues>
+          name="repaymentAmount"
+          label="Repayment"
+          type="number"
+          placeholder="0.00"
+        />
+      </div>
+
+      <FormSelectField<DebtFormValues>
+        name="repaymentFrequency"
+        label="Repayment Frequency"
+        options={REPAYMENT_FREQUENCY_OPTIONS}
+      />
+
+      <div className="grid grid-cols-2 gap-4">
+        <FormField<DebtFormValues>
+          name="loanStartDate"
+          label="Loan Start Date"
+          type="date"
+        />
+        <FormField<DebtFormValues>
+          name="loanTermYears"
+          label="Term (years)"
+          type="number"
+          placeholder="30"
+          description="Leave the repayment blank to work it out from the term"
+        />
+      </div>
+
+      <FormSelectField<DebtFormValues>
+        name="offsetHoldingId"
+        label="Offset Account"
+        placeholder="No offset account"
+        description="Cash holding whose balance reduces the interest charged"
+        options={offsetOptions}
+      />
+    </>
+  );
+}
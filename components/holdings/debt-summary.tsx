@@ -0,0 +1,345 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from "recharts";
+import { queryKeys } from "@/lib/query-keys";
+import { CurrencyDisplay } from "@/components/ui/currency-display";
+import { formatCurrency, type Currency } from "@/lib/utils/currency";
+import { CHART_GRID, CHART_TEXT, CHART_AXIS, NEGATIVE, NET_WORTH } from "@/lib/chart-palette";
+import { REPAYMENT_FREQUENCY_LABELS, type RepaymentFrequency } from "@/lib/constants";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface AmortisationYear {
+  year: number;
+  endDate: string;
+  openingBalance: number;
+  repayments: number;
+  interest: number;
+  principal: number;
+  closingBalance: number;
+}
+
+interface BalanceComparison {
+  date: string;
+  actual: number;
+  scheduled: number;
+  difference: number;
+}
+
+interface DebtSummaryResponse {
+  currency: Currency;
+  balance: number | null;
+  balanceDate: string | null;
+  terms: {
+    annualRate: number;
+    repayment: number;
+    frequency: RepaymentFrequency;
+    repaymentSource: "entered" | "term";
+  } | null;
+  offset: { id: string; name: string; balance: number } | null;
+  termEndDate: string | null;
+  monthsAheadOfTerm: number | null;
+  schedule: {
+    repayments: number;
+    payoffDate: string | null;
+    totalInterest: number;
+    totalRepaid: number;
+    years: AmortisationYear[];
+  } | null;
+  history: BalanceComparison[];
+  calculatedAt: string;
+}
+
+async function fetchDebtSummary(holdingId: string): Promise<DebtSummaryResponse> {
+  const response = await fetch(`/api/holdings/${holdingId}/debt`);
+  if (!response.ok) {
+    throw new Error("Failed to fetch loan schedule");
+  }
+  return response.json();
+}
+
+function formatMonth(dateString: string): string {
+  return format(parseISO(dateString), "MMM yyyy");
+}
+
+function formatMonths(months: number): string {
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  const parts = [];
+  if (years > 0) parts.push(`${years} yr${years === 1 ? "" : "s"}`);
+  if (rest > 0 || years === 0) parts.push(`${rest} mo`);
+  return parts.join(" ");
+}
+
+interface ComparisonTooltipProps {
+  active?: boolean;
+  payload?: Array<{ payload: BalanceComparison }>;
+  currency: Currency;
+}
+
+function ComparisonTooltip({ active, payload, currency }: ComparisonTooltipProps) {
+  if (!active || !payload || payload.length === 0) {
+    return null;
+  }
+
+  const point = payload[0].payload;
+  return (
+    <div className="bg-card border border-border rounded-lg p-3 shadow-lg">
+      <p className="text-muted-foreground text-sm mb-2">
+        {format(parseISO(point.date), "d MMM yyyy")}
+      </p>
+      <div className="space-y-1">
+        <p className="text-foreground font-medium">
+          <span className="text-muted-foreground">Actual: </span>
+          {formatCurrency(point.actual, currency)}
+        </p>
+        <p className="text-foreground font-medium">
+          <span className="text-muted-foreground">Scheduled: </span>
+          {formatCurrency(point.scheduled, currency)}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+interface DebtSummaryProps {
+  holdingId: string;
+}
+
+/**
+ * Loan details for a debt holding: rate, repayment and payoff date, the
+ * remaining amortisation schedule by year, and recorded balances against
+ * the balance the scheduled repayments alone would have reached.
+ */
+export function DebtSummary({ holdingId }: DebtSummaryProps) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.holdings.debt(holdingId),
+    queryFn: () => fetchDebtSummary(holdingId),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="rounded-lg border border-border bg-card/50 p-6">
+        <div className="animate-pulse h-24 bg-muted rounded" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return null;
+  }
+
+  if (!data.terms || !data.schedule) {
+    return (
+      <div className="rounded-lg border border-border bg-card/50 p-6">
+        <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide mb-2">
+          Loan Schedule
+        </h3>
+        <p className="text-muted-foreground">
+          {data.balance === null
+            ? "Record a balance at check-in to see the loan schedule."
+            : "Add an interest rate and a repayment (or the loan term) to see the loan schedule."}
+        </p>
+      </div>
+    );
+  }
+
+  const { terms, schedule } = data;
+  const latestComparison = data.history.at(-1);
+
+  const chartData = data.history.map((point) => ({
+    ...point,
+    displayDate: formatMonth(point.date),
+  }));
+
+  return (
+    <div className="rounded-lg border border-border bg-card/50 p-6">
+      <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide mb-4">
+        Loan Schedule
+      </h3>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div>
+          <p className="text-xs text-muted-foreground">Interest Rate</p>
+          <p className="text-xl font-bold text-foreground font-mono">
+            {terms.annualRate.toFixed(2)}%
+          </p>
+          {data.offset && (
+            <p className="text-xs text-muted-foreground mt-1">
+              Offset by {data.offset.name}
+            </p>
+          )}
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Repayment</p>
+          <CurrencyDisplay
+            amount={terms.repayment}
+            currency={data.currency}
+            className="text-xl font-bold text-foreground"
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            {REPAYMENT_FREQUENCY_LABELS[terms.frequency]}
+            {terms.repaymentSource === "term" && ", worked out from the term"}
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Paid Off</p>
+          <p className="text-xl font-bold text-foreground">
+            {schedule.payoffDate ? formatMonth(schedule.payoffDate) : "Never"}
+          </p>
+          {data.monthsAheadOfTerm !== null && data.monthsAheadOfTerm !== 0 && (
+            <p
+              className={`text-xs mt-1 ${
+                data.monthsAheadOfTerm > 0 ? "text-positive" : "text-destructive"
+              }`}
+            >
+              {formatMonths(Math.abs(data.monthsAheadOfTerm))}{" "}
+              {data.monthsAheadOfTerm > 0 ? "before" : "after"} the term ends
+            </p>
+          )}
+          {!schedule.payoffDate && (
+            <p className="text-xs text-destructive mt-1">Repayments don&apos;t cover the interest</p>
+          )}
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Interest to Pay</p>
+          <CurrencyDisplay
+            amount={schedule.totalInterest}
+            currency={data.currency}
+            className="text-xl font-bold text-destructive"
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            Over {schedule.repayments} repayments
+          </p>
+        </div>
+      </div>
+
+      {chartData.length > 1 && latestComparison && (
+        <div className="mt-6">
+          <div className="flex items-baseline justify-between gap-4 mb-2">
+            <h4 className="text-sm font-medium text-foreground">Actual vs Scheduled</h4>
+            <p
+              className={`text-sm font-mono ${
+                latestComparison.difference >= 0 ? "text-positive" : "text-destructive"
+              }`}
+            >
+              {formatCurrency(Math.abs(latestComparison.difference), data.currency)}{" "}
+              {latestComparison.difference >= 0 ? "ahead of" : "behind"} schedule
+            </p>
+          </div>
+          <div className="h-56">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke={CHART_GRID} vertical={false} />
+                <XAxis
+                  dataKey="displayDate"
+                  stroke={CHART_TEXT}
+                  tick={{ fill: CHART_TEXT, fontSize: 12 }}
+                  tickLine={{ stroke: CHART_AXIS }}
+                  axisLine={{ stroke: CHART_AXIS }}
+                />
+                <YAxis
+                  stroke={CHART_TEXT}
+                  tick={{ fill: CHART_TEXT, fontSize: 12 }}
+                  tickLine={{ stroke: CHART_AXIS }}
+                  axisLine={{ stroke: CHART_AXIS }}
+                  tickFormatter={(value: number) =>
+                    formatCurrency(value, data.currency, { compact: true })
+                  }
+                  domain={["auto", "auto"]}
+                  width={70}
+                />
+                <Tooltip content={<ComparisonTooltip currency={data.currency} />} />
+                <Legend
+                  wrapperStyle={{ paddingTop: 10 }}
+                  formatter={(value) => (
+                    <span className="text-muted-foreground text-sm">{value}</span>
+                  )}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="actual"
+                  name="Actual"
+                  stroke={NEGATIVE}
+                  strokeWidth={2}
+                  dot={{ fill: NEGATIVE, strokeWidth: 0, r: 3 }}
+                  activeDot={{ r: 5, fill: NEGATIVE, stroke: NET_WORTH, strokeWidth: 2 }}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="scheduled"
+                  name="Scheduled"
+                  stroke={CHART_TEXT}
+                  strokeWidth={2}
+                  strokeDasharray="5 5"
+                  dot={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <p className="text-xs text-muted-foreground mt-2">
+            Scheduled balance assumes only the scheduled repayments since{" "}
+            {formatMonth(data.history[0].date)} at today&apos;s rate.
+          </p>
+        </div>
+      )}
+
+      <div className="mt-6">
+        <h4 className="text-sm font-medium text-foreground mb-2">Amortisation Schedule</h4>
+        <Table>
+          <TableHeader>
+            <TableRow className="border-border hover:bg-transparent">
+              <TableHead className="text-muted-foreground">Year</TableHead>
+              <TableHead className="text-muted-foreground hidden sm:table-cell">Ending</TableHead>
+              <TableHead className="text-muted-foreground text-right">Repayments</TableHead>
+              <TableHead className="text-muted-foreground text-right">Interest</TableHead>
+              <TableHead className="text-muted-foreground text-right hidden sm:table-cell">
+                Principal
+              </TableHead>
+              <TableHead className="text-muted-foreground text-right">Balance</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {schedule.years.map((row) => (
+              <TableRow key={row.year} className="border-border">
+                <TableCell className="text-foreground">{row.year}</TableCell>
+                <TableCell className="text-muted-foreground hidden sm:table-cell">
+                  {formatMonth(row.endDate)}
+                </TableCell>
+                <TableCell className="text-muted-foreground text-right font-mono">
+                  <CurrencyDisplay amount={row.repayments} currency={data.currency} className="justify-end" />
+                </TableCell>
+                <TableCell className="text-destructive text-right font-mono">
+                  <CurrencyDisplay amount={row.interest} currency={data.currency} className="justify-end" />
+                </TableCell>
+                <TableCell className="text-muted-foreground text-right font-mono hidden sm:table-cell">
+                  <CurrencyDisplay amount={row.principal} currency={data.currency} className="justify-end" />
+                </TableCell>
+                <TableCell className="text-foreground text-right font-mono font-medium">
+                  <CurrencyDisplay amount={row.closingBalance} currency={data.currency} className="justify-end" />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
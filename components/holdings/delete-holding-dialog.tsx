@@ -30,6 +30,8 @@ const HOLDING_TYPE_LABELS_SINGULAR: Record<string, string> = {
   super: "Superannuation",
   cash: "Cash",
   debt: "Debt",
+  property: "Property",
+  vehicle: "Vehicle",
 };
 
 interface DeleteHoldingDialogProps {
@@ -21,8 +21,49 @@ import { FormField } from "@/components/ui/form-field";
 import { FormSelectField } from "@/components/ui/form-select-field";
 import { useFormShake } from "@/hooks/use-form-shake";
 import type { Holding } from "@/lib/db/schema";
-import { CURRENCIES, EXCHANGES, TRADEABLE_TYPES } from "@/lib/constants";
+import {
+  ENABLED_CURRENCIES,
+  EXCHANGES,
+  TRADEABLE_TYPES,
+  HOLDING_TYPE_ORDER,
+  isRealAsset,
+  COST_BASIS_METHODS,
+  COST_BASIS_METHOD_LABELS,
+  type CostBasisMethod,
+} from "@/lib/constants";
 import { queryKeys } from "@/lib/query-keys";
+import {
+  RealAssetFormFields,
+  realAssetFieldShape,
+  refineRealAssetFields,
+  getRealAssetDefaults,
+  toRealAssetPayload,
+  type RealAssetPayload,
+} from "./real-asset-form-fields";
+import {
+  PriceSourceFormFields,
+  priceSourceFieldShape,
+  refinePriceSourceFields,
+  getPriceSourceDefaults,
+  toPriceSourcePayload,
+  usesYahooPrices,
+  type PriceSourcePayload,
+} from "./price-source-form-fields";
+import {
+  SettlementFormFields,
+  settlementFieldShape,
+  getSettlementDefaults,
+  toSettlementPayload,
+  type SettlementPayload,
+} from "./settlement-form-fields";
+import {
+  DebtFormFields,
+  debtFieldShape,
+  refineDebtFields,
+  getDebtDefaults,
+  toDebtPayload,
+  type DebtPayload,
+} from "./debt-form-fields";
 
 // Singular labels used in this dialog context
 const HOLDING_TYPE_LABELS_SINGULAR: Record<Holding["type"], string> = {
@@ -32,12 +73,18 @@ const HOLDING_TYPE_LABELS_SINGULAR: Record<Holding["type"], string> = {
   super: "Super",
   cash: "Cash",
   debt: "Debt",
+  property: "Property",
+  vehicle: "Vehicle",
 };
-// Types that require exchange
+// Types that require exchange (when priced by Yahoo Finance)
 const EXCHANGE_REQUIRED_TYPES = ["stock", "etf"] as const;
 
-const CURRENCY_OPTIONS = CURRENCIES.map((c) => ({ value: c, label: c }));
+const CURRENCY_OPTIONS = ENABLED_CURRENCIES.map((c) => ({ value: c, label: c }));
 const EXCHANGE_OPTIONS = EXCHANGES.map((e) => ({ value: e, label: e }));
+const COST_BASIS_METHOD_OPTIONS = COST_BASIS_METHODS.map((m) => ({
+  value: m,
+  label: COST_BASIS_METHOD_LABELS[m],
+}));
 
 // Zod schema for edit form
 const editHoldingSchema = z
@@ -47,12 +94,25 @@ const editHoldingSchema = z
     currency: z.string().min(1, "Currency is required"),
     exchange: z.string().optional().default(""),
     isDormant: z.boolean().default(false),
+    costBasisMethod: z.enum(COST_BASIS_METHODS).default("fifo"),
+    ...realAssetFieldShape,
+    ...priceSourceFieldShape,
+    ...settlementFieldShape,
+    ...debtFieldShape,
     // Hidden field to drive conditional validation
-    _type: z.enum(["stock", "etf", "crypto", "super", "cash", "debt"]),
+    _type: z.enum(HOLDING_TYPE_ORDER),
   })
   .superRefine((data, ctx) => {
+    refineRealAssetFields(data, ctx);
+    refineDebtFields(data, ctx);
+
     const isTradeable = (TRADEABLE_TYPES as readonly string[]).includes(data._type);
-    const requiresExchange = (EXCHANGE_REQUIRED_TYPES as readonly string[]).includes(data._type);
+    if (isTradeable) {
+      refinePriceSourceFields(data, ctx);
+    }
+    const requiresExchange =
+      (EXCHANGE_REQUIRED_TYPES as readonly string[]).includes(data._type) &&
+      usesYahooPrices(data._type, data);
 
     // Symbol required for tradeable types
     if (isTradeable && !data.symbol.trim()) {
@@ -64,7 +124,7 @@ const editHoldingSchema = z
     }
 
     // Validate symbol format for ASX/NZX
-    if (isTradeable && data.symbol.trim()) {
+    if (requiresExchange && data.symbol.trim()) {
       const upperSymbol = data.symbol.trim().toUpperCase();
       if (data.exchange === "ASX" && !upperSymbol.endsWith(".AX")) {
         ctx.addIssue({
@@ -108,7 +168,8 @@ async function updateHolding(
     currency?: string;
     exchange?: string;
     isDormant?: boolean;
-  }
+    costBasisMethod?: CostBasisMethod;
+  } & Partial<RealAssetPayload> & Partial<PriceSourcePayload> & Partial<SettlementPayload> & Partial<DebtPayload>
 ) {
   const response = await fetch(`/api/holdings/${id}`, {
     method: "PATCH",
@@ -140,6 +201,11 @@ export function EditHoldingDialog({
       currency: "",
       exchange: "",
       isDormant: false,
+      costBasisMethod: "fifo",
+      ...getRealAssetDefaults(),
+      ...getPriceSourceDefaults(),
+      ...getSettlementDefaults(),
+      ...getDebtDefaults(),
       _type: "stock",
     },
   });
@@ -153,19 +219,48 @@ export function EditHoldingDialog({
         currency: holding.currency || "",
         exchange: holding.exchange || "",
         isDormant: holding.isDormant ?? false,
+        costBasisMethod: holding.costBasisMethod ?? "fifo",
+        ...getRealAssetDefaults(holding),
+        ...getPriceSourceDefaults(holding),
+        ...getSettlementDefaults(holding),
+        ...getDebtDefaults(holding),
         _type: holding.type,
       });
     }
   }, [open, holding, form]);
 
   const isTradeable = (TRADEABLE_TYPES as readonly string[]).includes(holding.type);
-  const requiresExchange = (EXCHANGE_REQUIRED_TYPES as readonly string[]).includes(holding.type);
+  const requiresExchange =
+    (EXCHANGE_REQUIRED_TYPES as readonly string[]).includes(holding.type) &&
+    usesYahooPrices(holding.type, { priceProvider: form.watch("priceProvider") });
 
   const mutation = useMutation({
     mutationFn: (data: Parameters<typeof updateHolding>[1]) =>
       updateHolding(holding.id, data),
     onSuccess: (_data, variables) => {
       queryClient.invalidateQueries({ queryKey: queryKeys.holdings.all });
+      if (isRealAsset(holding.type)) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.holdings.realAsset(holding.id) });
+        queryClient.invalidateQueries({ queryKey: queryKeys.netWorth.all });
+      }
+      if (variables.settlementHoldingId !== undefined) {
+        // Cash balances now include (or drop) this holding's trades
+        queryClient.invalidateQueries({ queryKey: queryKeys.netWorth.all });
+      }
+      if (variables.costBasisMethod !== undefined) {
+        // Cost basis and realised gains are derived from the method
+        queryClient.invalidateQueries({ queryKey: queryKeys.holdings.detail(holding.id) });
+        queryClient.invalidateQueries({ queryKey: queryKeys.topPerformers });
+        queryClient.invalidateQueries({ queryKey: queryKeys.tax.all });
+      }
+      if (variables.priceProvider !== undefined) {
+        // The holding is now valued from a different price source
+        queryClient.invalidateQueries({ queryKey: queryKeys.holdings.detail(holding.id) });
+        queryClient.invalidateQueries({ queryKey: queryKeys.holdings.manualPrices(holding.id) });
+        queryClient.invalidateQueries({ queryKey: queryKeys.prices.all });
+        queryClient.invalidateQueries({ queryKey: queryKeys.prices.single(holding.id) });
+        queryClient.invalidateQueries({ queryKey: queryKeys.netWorth.all });
+      }
       if (variables.isDormant !== undefined) {
         const statusText = variables.isDormant ? "marked as dormant" : "marked as active";
         showSuccess(`Holding ${statusText}`);
@@ -204,6 +299,42 @@ export function EditHoldingDialog({
     if (data.isDormant !== (holding.isDormant ?? false)) {
       updateData.isDormant = data.isDormant;
     }
+    if (isTradeable && data.costBasisMethod !== holding.costBasisMethod) {
+      updateData.costBasisMethod = data.costBasisMethod;
+    }
+    if (isTradeable) {
+      // Send the whole price source if any part changed, so derived settings stay together
+      const current = toPriceSourcePayload(getPriceSourceDefaults(holding));
+      const updated = toPriceSourcePayload(data);
+      const keys = new Set([...Object.keys(current), ...Object.keys(updated)]) as Set<keyof PriceSourcePayload>;
+      if ([...keys].some((key) => updated[key] !== current[key])) {
+        Object.assign(updateData, updated);
+      }
+    }
+    if (isTradeable) {
+      const { settlementHoldingId } = toSettlementPayload(data);
+      if (settlementHoldingId !== (holding.settlementHoldingId ?? null)) {
+        updateData.settlementHoldingId = settlementHoldingId;
+      }
+    }
+    if (holding.type === "debt") {
+      const current = toDebtPayload(getDebtDefaults(holding));
+      const updated = toDebtPayload(data);
+      for (const key of Object.keys(updated) as (keyof DebtPayload)[]) {
+        if (updated[key] !== current[key]) {
+          Object.assign(updateData, { [key]: updated[key] });
+        }
+      }
+    }
+    if (isRealAsset(holding.type)) {
+      const current = toRealAssetPayload(getRealAssetDefaults(holding), holding.type);
+      const updated = toRealAssetPayload(data, holding.type);
+      for (const key of Object.keys(updated) as (keyof RealAssetPayload)[]) {
+        if (updated[key] !== current[key]) {
+          Object.assign(updateData, { [key]: updated[key] });
+        }
+      }
+    }
 
     // Only submit if there are changes
     if (Object.keys(updateData).length === 0) {
@@ -278,6 +409,28 @@ export function EditHoldingDialog({
                 />
               )}
 
+              {/* Cost basis method - only for tradeable types */}
+              {isTradeable && (
+                <FormSelectField<EditFormValues>
+                  name="costBasisMethod"
+                  label="Cost Basis Method"
+                  description="How sales are matched against purchase lots. Changing it recalculates past gains."
+                  options={COST_BASIS_METHOD_OPTIONS}
+                />
+              )}
+
+              {/* Price source - only for tradeable types */}
+              {isTradeable && <PriceSourceFormFields type={holding.type} />}
+
+              {/* Settlement cash account - only for tradeable types */}
+              {isTradeable && <SettlementFormFields />}
+
+              {/* Purchase details and linked loan - only for property/vehicle */}
+              {isRealAsset(holding.type) && <RealAssetFormFields type={holding.type} />}
+
+              {/* Loan details and offset account - only for debt */}
+              {holding.type === "debt" && <DebtFormFields />}
+
               {/* Mark as Dormant checkbox */}
               <div className="flex items-center space-x-2 pt-2">
                 <Checkbox
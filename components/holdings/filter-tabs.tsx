@@ -13,6 +13,8 @@ const FILTER_TABS: { value: HoldingTypeFilter; label: string }[] = [
   { value: "etf", label: "ETFs" },
   { value: "super", label: "Super" },
   { value: "cash", label: "Cash" },
+  { value: "property", label: "Property" },
+  { value: "vehicle", label: "Vehicles" },
   { value: "debt", label: "Debt" },
 ];
 
@@ -0,0 +1,149 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys } from "@/lib/query-keys";
+import { CurrencyDisplay } from "@/components/ui/currency-display";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface DividendTotals {
+  cashAmount: number;
+  withholdingTax: number;
+  netCash: number;
+  frankingCredit: number;
+  grossedUpAmount: number;
+  reinvested: number;
+  count: number;
+}
+
+interface FinancialYearDividends extends DividendTotals {
+  financialYear: number;
+  label: string;
+}
+
+interface HoldingDividendsResponse {
+  byFinancialYear: FinancialYearDividends[];
+  trailing12Months: DividendTotals;
+  marketValue: number | null;
+  trailingYield: number | null;
+  grossedUpYield: number | null;
+  calculatedAt: string;
+}
+
+async function fetchHoldingDividends(holdingId: string): Promise<HoldingDividendsResponse> {
+  const response = await fetch(`/api/holdings/${holdingId}/dividends`);
+  if (!response.ok) {
+    throw new Error("Failed to fetch dividends");
+  }
+  return response.json();
+}
+
+function formatYield(value: number | null): string {
+  return value === null ? "—" : `${value.toFixed(2)}%`;
+}
+
+interface HoldingDividendsProps {
+  holdingId: string;
+}
+
+/**
+ * Dividend yield and income per financial year for a tradeable holding.
+ * Renders nothing if the holding has never paid a dividend.
+ */
+export function HoldingDividends({ holdingId }: HoldingDividendsProps) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.holdings.dividends(holdingId),
+    queryFn: () => fetchHoldingDividends(holdingId),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="rounded-lg border border-border bg-card/50 p-6 mt-6">
+        <div className="animate-pulse h-24 bg-muted rounded" />
+      </div>
+    );
+  }
+
+  if (error || !data || data.byFinancialYear.length === 0) {
+    return null;
+  }
+
+  const stats = [
+    { label: "Trailing Yield", value: formatYield(data.trailingYield) },
+    { label: "Grossed-up Yield", value: formatYield(data.grossedUpYield) },
+  ];
+
+  return (
+    <div className="rounded-lg border border-border bg-card/50 p-6 mt-6">
+      <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide mb-4">
+        Dividend Income
+      </h3>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        {stats.map((stat) => (
+          <div key={stat.label}>
+            <p className="text-xs text-muted-foreground">{stat.label}</p>
+            <p className="text-xl font-bold text-foreground font-mono">{stat.value}</p>
+          </div>
+        ))}
+        <div>
+          <p className="text-xs text-muted-foreground">Last 12 Months</p>
+          <CurrencyDisplay
+            amount={data.trailing12Months.cashAmount}
+            currency="AUD"
+            className="text-xl font-bold text-foreground"
+          />
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Franking (12 Months)</p>
+          <CurrencyDisplay
+            amount={data.trailing12Months.frankingCredit}
+            currency="AUD"
+            className="text-xl font-bold text-accent"
+          />
+        </div>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow className="border-border hover:bg-transparent">
+            <TableHead className="text-muted-foreground">Financial Year</TableHead>
+            <TableHead className="text-muted-foreground text-right">Cash</TableHead>
+            <TableHead className="text-muted-foreground text-right hidden sm:table-cell">Franking</TableHead>
+            <TableHead className="text-muted-foreground text-right hidden sm:table-cell">Withheld</TableHead>
+            <TableHead className="text-muted-foreground text-right hidden md:table-cell">Reinvested</TableHead>
+            <TableHead className="text-muted-foreground text-right">Grossed-up</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {data.byFinancialYear.map((year) => (
+            <TableRow key={year.financialYear} className="border-border">
+              <TableCell className="text-foreground">{year.label}</TableCell>
+              <TableCell className="text-muted-foreground text-right font-mono">
+                <CurrencyDisplay amount={year.cashAmount} currency="AUD" className="justify-end" />
+              </TableCell>
+              <TableCell className="text-muted-foreground text-right font-mono hidden sm:table-cell">
+                <CurrencyDisplay amount={year.frankingCredit} currency="AUD" className="justify-end" />
+              </TableCell>
+              <TableCell className="text-muted-foreground text-right font-mono hidden sm:table-cell">
+                <CurrencyDisplay amount={year.withholdingTax} currency="AUD" className="justify-end" />
+              </TableCell>
+              <TableCell className="text-muted-foreground text-right font-mono hidden md:table-cell">
+                <CurrencyDisplay amount={year.reinvested} currency="AUD" className="justify-end" />
+              </TableCell>
+              <TableCell className="text-positive text-right font-mono font-medium">
+                <CurrencyDisplay amount={year.grossedUpAmount} currency="AUD" className="justify-end" />
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
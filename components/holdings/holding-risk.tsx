@@ -0,0 +1,141 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { queryKeys } from "@/lib/query-keys";
+import { HIGH_CORRELATION_THRESHOLD } from "@/lib/constants";
+
+interface HoldingRiskResponse {
+  risk: {
+    startDate: string;
+    endDate: string;
+    volatility: number | null;
+    sharpeRatio: number | null;
+    maxDrawdown: number;
+    drawdownPeakDate: string | null;
+    drawdownTroughDate: string | null;
+    recoveryDays: number | null;
+    weight: number;
+  } | null;
+  correlations: Array<{
+    holdingId: string;
+    name: string;
+    symbol: string | null;
+    correlation: number;
+  }>;
+  calculatedAt: string;
+}
+
+async function fetchHoldingRisk(holdingId: string): Promise<HoldingRiskResponse> {
+  const response = await fetch(`/api/holdings/${holdingId}/risk`);
+  if (!response.ok) {
+    throw new Error("Failed to fetch holding risk");
+  }
+  return response.json();
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? "—" : `${value.toFixed(1)}%`;
+}
+
+function formatDate(date: string): string {
+  return format(parseISO(date), "d MMM yyyy");
+}
+
+interface HoldingRiskProps {
+  holdingId: string;
+}
+
+/**
+ * Volatility, maximum drawdown and Sharpe-like ratio over the last year of
+ * daily closes, and how closely the holding moves with the user's other
+ * holdings. Renders nothing if the holding is not held or has no price
+ * history.
+ */
+export function HoldingRisk({ holdingId }: HoldingRiskProps) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.holdings.risk(holdingId),
+    queryFn: () => fetchHoldingRisk(holdingId),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="rounded-lg border border-border bg-card/50 p-6 mt-6">
+        <div className="animate-pulse h-24 bg-muted rounded" />
+      </div>
+    );
+  }
+
+  if (error || !data?.risk) {
+    return null;
+  }
+
+  const { risk, correlations } = data;
+  const stats = [
+    { label: "Volatility p.a.", value: formatPercent(risk.volatility) },
+    { label: "Max Drawdown", value: formatPercent(risk.maxDrawdown) },
+    {
+      label: "Recovery",
+      value:
+        risk.drawdownTroughDate === null
+          ? "—"
+          : risk.recoveryDays === null
+            ? "Not yet"
+            : `${risk.recoveryDays} days`,
+    },
+    {
+      label: "Sharpe-like Ratio",
+      value: risk.sharpeRatio === null ? "—" : risk.sharpeRatio.toFixed(2),
+    },
+  ];
+
+  return (
+    <div className="rounded-lg border border-border bg-card/50 p-6 mt-6">
+      <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide mb-4">
+        Risk
+      </h3>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+        {stats.map((stat) => (
+          <div key={stat.label}>
+            <p className="text-xs text-muted-foreground">{stat.label}</p>
+            <p className="text-xl font-bold font-mono text-foreground">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-muted-foreground mb-6">
+        Daily closes from {formatDate(risk.startDate)} to {formatDate(risk.endDate)}.
+        {risk.drawdownPeakDate && risk.drawdownTroughDate && (
+          <>
+            {" "}Largest fall from {formatDate(risk.drawdownPeakDate)} to{" "}
+            {formatDate(risk.drawdownTroughDate)}.
+          </>
+        )}{" "}
+        {formatPercent(risk.weight)} of tradeable holdings.
+      </p>
+
+      {correlations.length > 0 && (
+        <div>
+          <p className="text-xs text-muted-foreground mb-2">Correlation with other holdings</p>
+          <div className="divide-y divide-border">
+            {correlations.map((row) => (
+              <div key={row.holdingId} className="flex items-center justify-between py-2 gap-4">
+                <span className="text-foreground">{row.symbol ?? row.name}</span>
+                <span
+                  className={`font-mono text-sm ${
+                    row.correlation >= HIGH_CORRELATION_THRESHOLD
+                      ? "text-warning font-semibold"
+                      : "text-muted-foreground"
+                  }`}
+                >
+                  {row.correlation.toFixed(2)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
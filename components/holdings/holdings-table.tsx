@@ -13,6 +13,8 @@ import type { HoldingTypeFilter } from "./filter-tabs";
 import {
   HOLDING_TYPE_LABELS,
   HOLDING_TYPE_ORDER,
+  CURRENCIES,
+  CURRENCY_INFO,
   CURRENCY_SYMBOLS,
   isTradeable as isTradeableType,
   isSnapshotType as isSnapshotTypeCheck,
@@ -49,6 +51,13 @@ export interface PriceData {
   error?: string;
 }
 
+// Since-inception returns for a holding (percentages)
+export interface HoldingReturnData {
+  xirr: number | null;
+  twr: number | null;
+  annualisedTwr: number | null;
+}
+
 export type GroupByValue = "type" | "currency";
 
 interface HoldingsTableProps {
@@ -62,6 +71,8 @@ interface HoldingsTableProps {
   typeFilter?: HoldingTypeFilter;
   sparklineData?: Map<string, number[]>;
   sparklineLoading?: boolean;
+  returns?: Map<string, HoldingReturnData>;
+  returnsLoading?: boolean;
 }
 
 function groupHoldingsByType(holdings: HoldingWithData[]): Map<Holding["type"], HoldingWithData[]> {
@@ -76,14 +87,12 @@ function groupHoldingsByType(holdings: HoldingWithData[]): Map<Holding["type"],
 }
 
 // Order for currency grouping display
-const CURRENCY_ORDER: Currency[] = ["AUD", "NZD", "USD"];
+const CURRENCY_ORDER: readonly Currency[] = CURRENCIES;
 
 // Currency labels for section headers
-const CURRENCY_LABELS: Record<Currency, string> = {
-  AUD: "Australian Dollar (AUD)",
-  NZD: "New Zealand Dollar (NZD)",
-  USD: "US Dollar (USD)",
-};
+function getCurrencyLabel(currency: Currency): string {
+  return `${CURRENCY_INFO[currency].name} (${currency})`;
+}
 
 function groupHoldingsByCurrency(holdings: HoldingWithData[]): Map<Currency, HoldingWithData[]> {
   const groups = new Map<Currency, HoldingWithData[]>();
@@ -207,7 +216,7 @@ function formatGainLossPercent(percent: number): string {
   return `${sign}${percent.toFixed(2)}%`;
 }
 
-export function HoldingsTable({ holdings, prices, pricesLoading, pricesRefreshing, onRetryPrice, retryingPriceIds, groupBy = "type", typeFilter = "all", sparklineData, sparklineLoading }: HoldingsTableProps) {
+export function HoldingsTable({ holdings, prices, pricesLoading, pricesRefreshing, onRetryPrice, retryingPriceIds, groupBy = "type", typeFilter = "all", sparklineData, sparklineLoading, returns, returnsLoading }: HoldingsTableProps) {
   const [editingHolding, setEditingHolding] = useState<HoldingWithData | null>(null);
   const [deletingHolding, setDeletingHolding] = useState<HoldingWithData | null>(null);
   const groupedByType = groupHoldingsByType(holdings);
@@ -280,6 +289,8 @@ export function HoldingsTable({ holdings, prices, pricesLoading, pricesRefreshin
                     portfolioTotal={portfolioTotal}
                     sparklineData={sparklineData}
                     sparklineLoading={sparklineLoading}
+                    returns={returns}
+                    returnsLoading={returnsLoading}
                   />
                 );
               })
@@ -302,6 +313,8 @@ export function HoldingsTable({ holdings, prices, pricesLoading, pricesRefreshin
                 showNativeCurrency={showNativeCurrency}
                 sparklineData={sparklineData}
                 sparklineLoading={sparklineLoading}
+                returns={returns}
+                returnsLoading={returnsLoading}
               />
             )
           ) : (
@@ -375,6 +388,8 @@ interface HoldingsTypeSectionProps {
   portfolioTotal?: number;
   sparklineData?: Map<string, number[]>;
   sparklineLoading?: boolean;
+  returns?: Map<string, HoldingReturnData>;
+  returnsLoading?: boolean;
 }
 
 /**
@@ -569,10 +584,13 @@ function MarketValueCell({
 /**
  * GainLossCell component displays unrealized gain/loss (Market Value - Cost Basis).
  * Now with display currency conversion and native currency indicator.
+ * In the display currency, the cost basis is taken at purchase-date rates
+ * (costBasisAud) so the gain includes the currency move since purchase.
  */
 interface GainLossCellProps {
   quantity: number | null;
   costBasis: number | null;
+  costBasisAud?: number | null;
   holdingId: string;
   holdingCurrency: string;
   prices?: Map<string, PriceData>;
@@ -586,6 +604,7 @@ interface GainLossCellProps {
 function GainLossCell({
   quantity,
   costBasis,
+  costBasisAud,
   holdingId,
   holdingCurrency,
   prices,
@@ -644,35 +663,78 @@ function GainLossCell({
     );
   }
 
-  // Convert gain/loss to display currency
-  const displayGainLoss = convert(nativeGainLoss.amount, nativeCurrency);
-  const isPositive = displayGainLoss >= 0;
+  // Convert gain/loss to display currency, against the purchase-date cost when known
+  const displayGainLoss =
+    costBasisAud != null && costBasisAud > 0 && marketValue !== null
+      ? calculateGainLoss(convert(marketValue, nativeCurrency), convert(costBasisAud, "AUD"))
+      : null;
+  const displayAmount = displayGainLoss?.amount ?? convert(nativeGainLoss.amount, nativeCurrency);
+  const displayPercent = displayGainLoss?.percent ?? nativeGainLoss.percent;
+  const isPositive = displayAmount >= 0;
   const colorClass = isPositive ? "text-positive" : "text-destructive";
 
   return (
     <div className="flex flex-col gap-0.5 items-end">
       {/* Amount */}
       <CurrencyDisplay
-        amount={displayGainLoss}
+        amount={displayAmount}
         currency={displayCurrency}
         showNative
         nativeCurrency={nativeCurrency}
         nativeAmount={nativeGainLoss.amount}
         className={`font-mono ${colorClass}`}
       />
-      {/* Percentage - same regardless of currency */}
+      {/* Percentage */}
       <span className={`text-xs ${colorClass}`}>
-        {formatGainLossPercent(nativeGainLoss.percent)}
+        {formatGainLossPercent(displayPercent)}
+      </span>
+    </div>
+  );
+}
+
+/**
+ * ReturnCell component displays since-inception XIRR with the time-weighted
+ * return underneath.
+ */
+interface ReturnCellProps {
+  returnData?: HoldingReturnData;
+  isLoading?: boolean;
+}
+
+function ReturnCell({ returnData, isLoading }: ReturnCellProps) {
+  if (isLoading) {
+    return <PriceSkeleton variant="value" />;
+  }
+
+  if (!returnData || returnData.xirr === null) {
+    return <span className="text-muted-foreground text-sm">—</span>;
+  }
+
+  const twr = returnData.annualisedTwr ?? returnData.twr;
+  const colorClass = returnData.xirr >= 0 ? "text-positive" : "text-destructive";
+
+  return (
+    <div className="flex flex-col gap-0.5 items-end">
+      <span className={`font-mono ${colorClass}`}>
+        {formatGainLossPercent(returnData.xirr)} p.a.
       </span>
+      {twr !== null && (
+        <span className="text-xs text-muted-foreground">
+          TWR {formatGainLossPercent(twr)}
+          {returnData.annualisedTwr !== null ? " p.a." : ""}
+        </span>
+      )}
     </div>
   );
 }
 
 /**
  * CostBasisCell component displays cost basis or avg cost with currency conversion.
+ * When costBasisAud is given, the display amount uses purchase-date rates.
  */
 interface CostBasisCellProps {
   costBasis: number | null;
+  costBasisAud?: number | null;
   holdingCurrency: Currency;
   displayCurrency: Currency;
   convert: (amount: number, fromCurrency: Currency) => number;
@@ -682,6 +744,7 @@ interface CostBasisCellProps {
 
 function CostBasisCell({
   costBasis,
+  costBasisAud,
   holdingCurrency,
   displayCurrency,
   convert,
@@ -710,7 +773,8 @@ function CostBasisCell({
   }
 
   // Convert to display currency
-  const displayCostBasis = convert(costBasis, holdingCurrency);
+  const displayCostBasis =
+    costBasisAud != null ? convert(costBasisAud, "AUD") : convert(costBasis, holdingCurrency);
 
   return (
     <CurrencyDisplay
@@ -742,6 +806,8 @@ function HoldingsTypeSection({
   portfolioTotal = 0,
   sparklineData,
   sparklineLoading,
+  returns,
+  returnsLoading,
 }: HoldingsTypeSectionProps) {
   const [isExpanded, setIsExpanded] = useState(true);
   const label = HOLDING_TYPE_LABELS[type];
@@ -809,6 +875,8 @@ function HoldingsTypeSection({
                 showNativeCurrency={showNativeCurrency}
                 sparklineData={sparklineData}
                 sparklineLoading={sparklineLoading}
+                returns={returns}
+                returnsLoading={returnsLoading}
               />
             </div>
           </motion.div>
@@ -839,6 +907,8 @@ interface HoldingsFlatSectionProps {
   showNativeCurrency?: boolean;
   sparklineData?: Map<string, number[]>;
   sparklineLoading?: boolean;
+  returns?: Map<string, HoldingReturnData>;
+  returnsLoading?: boolean;
 }
 
 function HoldingsFlatSection({
@@ -858,6 +928,8 @@ function HoldingsFlatSection({
   showNativeCurrency,
   sparklineData,
   sparklineLoading,
+  returns,
+  returnsLoading,
 }: HoldingsFlatSectionProps) {
   return (
     <div className="rounded-lg border border-border overflow-x-auto">
@@ -878,6 +950,8 @@ function HoldingsFlatSection({
         showNativeCurrency={showNativeCurrency}
         sparklineData={sparklineData}
         sparklineLoading={sparklineLoading}
+        returns={returns}
+        returnsLoading={returnsLoading}
       />
     </div>
   );
@@ -911,6 +985,8 @@ interface HoldingsTableContentProps {
   showNativeCurrency?: boolean;
   sparklineData?: Map<string, number[]>;
   sparklineLoading?: boolean;
+  returns?: Map<string, HoldingReturnData>;
+  returnsLoading?: boolean;
 }
 
 function HoldingsTableContent({
@@ -930,6 +1006,8 @@ function HoldingsTableContent({
   showNativeCurrency,
   sparklineData,
   sparklineLoading,
+  returns,
+  returnsLoading,
 }: HoldingsTableContentProps) {
   const router = useRouter();
   const shouldReduceMotion = useReducedMotion();
@@ -982,6 +1060,7 @@ function HoldingsTableContent({
               <TableHead className="text-muted-foreground text-center hidden md:table-cell">Trend</TableHead>
               <TableHead className="text-muted-foreground text-right">Market Value</TableHead>
               <TableHead className="text-muted-foreground text-right hidden md:table-cell">Gain/Loss</TableHead>
+              <TableHead className="text-muted-foreground text-right hidden lg:table-cell">Return</TableHead>
               <TableHead className="text-muted-foreground text-right hidden lg:table-cell">Cost Basis</TableHead>
               <TableHead className="text-muted-foreground text-right hidden lg:table-cell">Avg Cost</TableHead>
             </>
@@ -1086,6 +1165,7 @@ function HoldingsTableContent({
                     <GainLossCell
                       quantity={holding.quantity}
                       costBasis={holding.costBasis}
+                      costBasisAud={holding.costBasisAud}
                       holdingId={holding.id}
                       holdingCurrency={holding.currency}
                       prices={prices}
@@ -1096,9 +1176,16 @@ function HoldingsTableContent({
                       showNativeCurrency={showNativeCurrency}
                     />
                   </TableCell>
+                  <TableCell className="text-right hidden lg:table-cell">
+                    <ReturnCell
+                      returnData={returns?.get(holding.id)}
+                      isLoading={returnsLoading}
+                    />
+                  </TableCell>
                   <TableCell className="text-right hidden lg:table-cell">
                     <CostBasisCell
                       costBasis={holding.costBasis}
+                      costBasisAud={holding.costBasisAud}
                       holdingCurrency={holding.currency as Currency}
                       displayCurrency={displayCurrency}
                       convert={convert}
@@ -1259,7 +1346,7 @@ function HoldingsCurrencySection({
   currencyLoading,
   showNativeCurrency,
 }: HoldingsCurrencySectionProps) {
-  const label = CURRENCY_LABELS[sectionCurrency];
+  const label = getCurrencyLabel(sectionCurrency);
 
   // Sort holdings so dormant ones appear at the bottom
   const sortedHoldings = useMemo(() => {
@@ -1413,6 +1500,7 @@ function HoldingsCurrencySection({
                           <GainLossCell
                             quantity={holding.quantity}
                             costBasis={holding.costBasis}
+                            costBasisAud={holding.costBasisAud}
                             holdingId={holding.id}
                             holdingCurrency={holding.currency}
                             prices={prices}
@@ -1430,6 +1518,7 @@ function HoldingsCurrencySection({
                         {isTradeable ? (
                           <CostBasisCell
                             costBasis={holding.costBasis}
+                            costBasisAud={holding.costBasisAud}
                             holdingCurrency={holding.currency as Currency}
                             displayCurrency={displayCurrency}
                             convert={convert}
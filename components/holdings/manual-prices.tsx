@@ -0,0 +1,202 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CurrencyDisplay } from "@/components/ui/currency-display";
+import { showSuccess, showError } from "@/lib/toast-helpers";
+import { queryKeys } from "@/lib/query-keys";
+import { MANUAL_PRICE_STALE_DAYS } from "@/lib/constants";
+import type { Currency } from "@/lib/utils/currency";
+
+interface ManualPrice {
+  date: string;
+  close: number;
+  currency: string;
+}
+
+async function fetchManualPrices(holdingId: string): Promise<ManualPrice[]> {
+  const response = await fetch(`/api/holdings/${holdingId}/prices`);
+  if (!response.ok) {
+    throw new Error("Failed to fetch manual prices");
+  }
+  return response.json();
+}
+
+async function addManualPrice(
+  holdingId: string,
+  entry: { date: string; price: number }
+): Promise<ManualPrice[]> {
+  const response = await fetch(`/api/holdings/${holdingId}/prices`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(entry),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(
+      (body.errors && Object.values(body.errors)[0]) || body.error || "Failed to save price"
+    );
+  }
+  return response.json();
+}
+
+async function deleteManualPrice(holdingId: string, date: string): Promise<void> {
+  const response = await fetch(`/api/holdings/${holdingId}/prices/${date}`, {
+    method: "DELETE",
+  });
+  if (!response.ok) {
+    throw new Error("Failed to delete price");
+  }
+}
+
+interface ManualPricesProps {
+  holdingId: string;
+  holdingCurrency: Currency;
+}
+
+/**
+ * Dated prices for a manually priced holding (private shares, unlisted
+ * funds, delisted tickers). The latest is the holding's current price.
+ */
+export function ManualPrices({ holdingId, holdingCurrency }: ManualPricesProps) {
+  const queryClient = useQueryClient();
+  const [date, setDate] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [price, setPrice] = useState("");
+
+  const { data: prices, isLoading, error } = useQuery({
+    queryKey: queryKeys.holdings.manualPrices(holdingId),
+    queryFn: () => fetchManualPrices(holdingId),
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.holdings.manualPrices(holdingId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.prices.single(holdingId) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.prices.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.netWorth.all });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: () => addManualPrice(holdingId, { date, price: Number(price) }),
+    onSuccess: () => {
+      invalidate();
+      setPrice("");
+      showSuccess("Price saved");
+    },
+    onError: (error: Error) => showError(error.message),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (entryDate: string) => deleteManualPrice(holdingId, entryDate),
+    onSuccess: () => {
+      invalidate();
+      showSuccess("Price deleted");
+    },
+    onError: (error: Error) => showError(error.message),
+  });
+
+  const isValid = date !== "" && price.trim() !== "" && Number(price) > 0;
+
+  return (
+    <div className="rounded-lg border border-border bg-card/50 p-6 mt-6">
+      <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide mb-4">
+        Manual Prices
+      </h3>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+        <div className="space-y-2">
+          <Label htmlFor="manual-price-date">Date</Label>
+          <Input
+            id="manual-price-date"
+            type="date"
+            value={date}
+            max={format(new Date(), "yyyy-MM-dd")}
+            onChange={(e) => setDate(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="manual-price-value">Unit price ({holdingCurrency})</Label>
+          <Input
+            id="manual-price-value"
+            type="number"
+            placeholder="0.00"
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+          />
+        </div>
+        <Button onClick={() => addMutation.mutate()} disabled={!isValid || addMutation.isPending}>
+          {addMutation.isPending ? <Loader2 className="animate-spin" /> : <Plus />}
+          Save price
+        </Button>
+      </div>
+
+      <div className="mt-6">
+        {isLoading ? (
+          <div className="animate-pulse h-24 bg-muted rounded" />
+        ) : error || !prices ? (
+          <p className="text-destructive">Failed to load prices</p>
+        ) : prices.length === 0 ? (
+          <p className="text-muted-foreground">
+            No prices entered yet. The holding is valued at the latest price you enter.
+          </p>
+        ) : (
+          <div className="rounded-lg border border-border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-border hover:bg-transparent">
+                  <TableHead className="text-muted-foreground">Date</TableHead>
+                  <TableHead className="text-muted-foreground text-right">Price</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {prices.map((entry) => (
+                  <TableRow key={entry.date} className="border-border">
+                    <TableCell className="text-foreground">
+                      {format(parseISO(entry.date), "d MMM yyyy")}
+                    </TableCell>
+                    <TableCell className="text-foreground text-right font-mono">
+                      <CurrencyDisplay
+                        amount={entry.close}
+                        currency={entry.currency as Currency}
+                        className="justify-end"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Delete price"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => deleteMutation.mutate(entry.date)}
+                      >
+                        <Trash2 />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+
+      <p className="text-xs text-muted-foreground mt-4">
+        Prices older than {MANUAL_PRICE_STALE_DAYS} days are flagged as stale on the dashboard.
+      </p>
+    </div>
+  );
+}
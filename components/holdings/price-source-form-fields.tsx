@@ -0,0 +1,157 @@
+"use client";
+
+import { useFormContext } from "react-hook-form";
+import { z } from "zod";
+import { FormField } from "@/components/ui/form-field";
+import { FormSelectField } from "@/components/ui/form-select-field";
+import type { Holding } from "@/lib/db/schema";
+import {
+  PRICE_PROVIDERS,
+  PRICE_PROVIDER_LABELS,
+  resolvePriceProvider,
+  type PriceProviderId,
+} from "@/lib/constants";
+
+// Select items cannot have an empty value, so "default for the type" uses a sentinel
+const DEFAULT_PROVIDER = "default";
+
+/**
+ * Form fields for where a tradeable holding's price comes from. Spread into
+ * a holding form's zod object.
+ */
+export const priceSourceFieldShape = {
+  priceProvider: z.enum([DEFAULT_PROVIDER, ...PRICE_PROVIDERS]).default(DEFAULT_PROVIDER),
+  priceSourceSymbol: z.string().optional().default(""),
+  priceRatio: z.string().optional().default(""),
+};
+
+export type PriceSourceFormValues = z.infer<z.ZodObject<typeof priceSourceFieldShape>>;
+
+/**
+ * Price source fields as sent to the holdings API.
+ */
+export interface PriceSourcePayload {
+  priceProvider: PriceProviderId | null;
+  priceSourceSymbol?: string | null;
+  priceRatio?: number | null;
+}
+
+/**
+ * Adds issues for an incomplete derived price. Call from the holding form's
+ * superRefine.
+ */
+export function refinePriceSourceFields(data: PriceSourceFormValues, ctx: z.RefinementCtx) {
+  if (data.priceProvider !== "derived") {
+    return;
+  }
+
+  if (!data.priceSourceSymbol.trim()) {
+    ctx.addIssue({
+      code: "custom",
+      message: "Source symbol is required",
+      path: ["priceSourceSymbol"],
+    });
+  }
+
+  const ratio = data.priceRatio.trim();
+  if (!ratio || isNaN(Number(ratio)) || Number(ratio) <= 0) {
+    ctx.addIssue({
+      code: "custom",
+      message: "Ratio must be greater than 0",
+      path: ["priceRatio"],
+    });
+  }
+}
+
+/**
+ * Form values for a holding's existing price source (or the default).
+ */
+export function getPriceSourceDefaults(holding?: Holding): PriceSourceFormValues {
+  return {
+    priceProvider: holding?.priceProvider ?? DEFAULT_PROVIDER,
+    priceSourceSymbol: holding?.priceSourceSymbol ?? "",
+    priceRatio: holding?.priceRatio ? String(Number(holding.priceRatio)) : "",
+  };
+}
+
+/**
+ * Converts form values to the API payload. The default provider is sent as
+ * null, and derived settings only for a derived price.
+ */
+export function toPriceSourcePayload(data: PriceSourceFormValues): PriceSourcePayload {
+  if (data.priceProvider !== "derived") {
+    return {
+      priceProvider: data.priceProvider === DEFAULT_PROVIDER ? null : data.priceProvider,
+    };
+  }
+
+  return {
+    priceProvider: "derived",
+    priceSourceSymbol: data.priceSourceSymbol.trim().toUpperCase(),
+    priceRatio: Number(data.priceRatio),
+  };
+}
+
+/**
+ * Whether the form's price source needs an exchange, i.e. Yahoo Finance.
+ */
+export function usesYahooPrices(type: Holding["type"], data: Pick<PriceSourceFormValues, "priceProvider">) {
+  const priceProvider = data.priceProvider === DEFAULT_PROVIDER ? null : data.priceProvider;
+  return resolvePriceProvider({ type, priceProvider }) === "yahoo";
+}
+
+interface PriceSourceFormFieldsProps {
+  type: Holding["type"];
+}
+
+/**
+ * Price provider select, plus the source symbol and ratio for a derived
+ * price. Must be rendered inside a FormProvider whose values include
+ * PriceSourceFormValues.
+ */
+export function PriceSourceFormFields({ type }: PriceSourceFormFieldsProps) {
+  const { watch } = useFormContext<PriceSourceFormValues>();
+  const priceProvider = watch("priceProvider");
+
+  const defaultProvider = resolvePriceProvider({ type, priceProvider: null });
+  const options = [
+    { value: DEFAULT_PROVIDER, label: `Default (${PRICE_PROVIDER_LABELS[defaultProvider]})` },
+    ...PRICE_PROVIDERS.filter((p) => p !== defaultProvider).map((p) => ({
+      value: p,
+      label: PRICE_PROVIDER_LABELS[p],
+    })),
+  ];
+
+  return (
+    <>
+      <FormSelectField<PriceSourceFormValues>
+        name="priceProvider"
+        label="Price Source"
+        description={
+          priceProvider === "manual"
+            ? "Enter dated prices on the holding's page"
+            : "Where the current price comes from"
+        }
+        options={options}
+      />
+
+      {priceProvider === "derived" && (
+        <div className="grid grid-cols-2 gap-4">
+          <FormField<PriceSourceFormValues>
+            name="priceSourceSymbol"
+            label="Source Symbol"
+            placeholder="e.g., VGS.AX"
+            description="Yahoo Finance symbol"
+          />
+          <FormField<PriceSourceFormValues>
+            name="priceRatio"
+            label="Ratio"
+            type="number"
+            placeholder="1"
+            description="Price = source price × ratio"
+          />
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,206 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { z } from "zod";
+import { FormField } from "@/components/ui/form-field";
+import { FormSelectField } from "@/components/ui/form-select-field";
+import type { Holding } from "@/lib/db/schema";
+import {
+  DEPRECIATION_METHODS,
+  DEPRECIATION_METHOD_LABELS,
+  DEFAULT_VEHICLE_DEPRECIATION_RATE,
+  type DepreciationMethod,
+} from "@/lib/constants";
+import { queryKeys } from "@/lib/query-keys";
+
+// Select items cannot have an empty value, so "no linked loan" uses a sentinel
+const NO_LINKED_DEBT = "none";
+
+const DEPRECIATION_METHOD_OPTIONS = DEPRECIATION_METHODS.map((m) => ({
+  value: m,
+  label: DEPRECIATION_METHOD_LABELS[m],
+}));
+
+/**
+ * Form fields for property and vehicle purchase details. Spread into a
+ * holding form's zod object; amounts are strings so inputs can be blank.
+ */
+export const realAssetFieldShape = {
+  purchasePrice: z.string().optional().default(""),
+  purchaseCosts: z.string().optional().default(""),
+  purchaseDate: z.string().optional().default(""),
+  linkedDebtId: z.string().optional().default(""),
+  depreciationMethod: z.enum(DEPRECIATION_METHODS).default("diminishing_value"),
+  depreciationRate: z.string().optional().default(""),
+};
+
+export type RealAssetFormValues = z.infer<z.ZodObject<typeof realAssetFieldShape>>;
+
+/**
+ * Property/vehicle fields as sent to the holdings API.
+ */
+export interface RealAssetPayload {
+  purchasePrice: number | null;
+  purchaseCosts: number | null;
+  purchaseDate: string | null;
+  linkedDebtId: string | null;
+  depreciationMethod?: DepreciationMethod | null;
+  depreciationRate?: number | null;
+}
+
+/**
+ * Adds issues for invalid property/vehicle fields. Call from the holding
+ * form's superRefine.
+ */
+export function refineRealAssetFields(data: RealAssetFormValues, ctx: z.RefinementCtx) {
+  for (const field of ["purchasePrice", "purchaseCosts"] as const) {
+    const value = data[field].trim();
+    if (value && (isNaN(Number(value)) || Number(value) < 0)) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Must be a non-negative number",
+        path: [field],
+      });
+    }
+  }
+
+  if (data.purchaseDate && new Date(data.purchaseDate) > new Date()) {
+    ctx.addIssue({
+      code: "custom",
+      message: "Purchase date cannot be in the future",
+      path: ["purchaseDate"],
+    });
+  }
+
+  const rate = data.depreciationRate.trim();
+  if (rate && (isNaN(Number(rate)) || Number(rate) <= 0 || Number(rate) > 100)) {
+    ctx.addIssue({
+      code: "custom",
+      message: "Rate must be between 0 and 100",
+      path: ["depreciationRate"],
+    });
+  }
+}
+
+/**
+ * Form values for a holding's existing purchase details (or blanks).
+ */
+export function getRealAssetDefaults(holding?: Holding): RealAssetFormValues {
+  return {
+    purchasePrice: holding?.purchasePrice ?? "",
+    purchaseCosts: holding?.purchaseCosts ?? "",
+    purchaseDate: holding?.purchaseDate ?? "",
+    linkedDebtId: holding?.linkedDebtId ?? "",
+    depreciationMethod: holding?.depreciationMethod ?? "diminishing_value",
+    depreciationRate: holding?.depreciationRate ?? "",
+  };
+}
+
+/**
+ * Converts form values to the API payload. Blank fields are sent as null.
+ */
+export function toRealAssetPayload(
+  data: RealAssetFormValues,
+  type: Holding["type"]
+): RealAssetPayload {
+  const toNumber = (value: string) => (value.trim() ? Number(value) : null);
+
+  const payload: RealAssetPayload = {
+    purchasePrice: toNumber(data.purchasePrice),
+    purchaseCosts: toNumber(data.purchaseCosts),
+    purchaseDate: data.purchaseDate || null,
+    linkedDebtId:
+      data.linkedDebtId && data.linkedDebtId !== NO_LINKED_DEBT ? data.linkedDebtId : null,
+  };
+
+  if (type === "vehicle") {
+    payload.depreciationMethod = data.depreciationMethod;
+    payload.depreciationRate = toNumber(data.depreciationRate);
+  }
+
+  return payload;
+}
+
+async function fetchDebtHoldings(): Promise<Holding[]> {
+  const response = await fetch("/api/holdings?include_dormant=true");
+  if (!response.ok) {
+    throw new Error("Failed to fetch holdings");
+  }
+  const holdings: Holding[] = await response.json();
+  return holdings.filter((h) => h.type === "debt");
+}
+
+interface RealAssetFormFieldsProps {
+  type: "property" | "vehicle";
+}
+
+/**
+ * Purchase price, costs and date, linked loan, and (for vehicles)
+ * depreciation settings. Must be rendered inside a FormProvider whose
+ * values include RealAssetFormValues.
+ */
+export function RealAssetFormFields({ type }: RealAssetFormFieldsProps) {
+  const { data: debtHoldings = [] } = useQuery({
+    queryKey: queryKeys.holdings.debts,
+    queryFn: fetchDebtHoldings,
+  });
+
+  const debtOptions = [
+    { value: NO_LINKED_DEBT, label: "No linked loan" },
+    ...debtHoldings.map((h) => ({ value: h.id, label: h.name })),
+  ];
+
+  return (
+    <>
+      <div className="grid grid-cols-2 gap-4">
+        <FormField<RealAssetFormValues>
+          name="purchasePrice"
+          label="Purchase Price"
+          type="number"
+          placeholder="0.00"
+        />
+        <FormField<RealAssetFormValues>
+          name="purchaseCosts"
+          label="Purchase Costs"
+          type="number"
+          placeholder="0.00"
+        />
+      </div>
+
+      <FormField<RealAssetFormValues>
+        name="purchaseDate"
+        label="Purchase Date"
+        type="date"
+        description={
+          type === "property"
+            ? "Purchase costs include stamp duty and legal fees"
+            : "Purchase costs include on-road costs"
+        }
+      />
+
+      <FormSelectField<RealAssetFormValues>
+        name="linkedDebtId"
+        label={type === "property" ? "Mortgage" : "Car Loan"}
+        placeholder="No linked loan"
+        description="Debt holding secured against this asset"
+        options={debtOptions}
+      />
+
+      {type === "vehicle" && (
+        <div className="grid grid-cols-2 gap-4">
+          <FormSelectField<RealAssetFormValues>
+            name="depreciationMethod"
+            label="Depreciation"
+            options={DEPRECIATION_METHOD_OPTIONS}
+          />
+          <FormField<RealAssetFormValues>
+            name="depreciationRate"
+            label="Rate (% p.a.)"
+            type="number"
+            placeholder={String(DEFAULT_VEHICLE_DEPRECIATION_RATE)}
+          />
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,237 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { queryKeys } from "@/lib/query-keys";
+import { CurrencyDisplay } from "@/components/ui/currency-display";
+import type { Currency } from "@/lib/utils/currency";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface DepreciationYear {
+  year: number;
+  endDate: string;
+  openingValue: number;
+  depreciation: number;
+  closingValue: number;
+}
+
+interface RealAssetSummaryResponse {
+  currency: Currency;
+  currentValue: number | null;
+  valuationSource: "valuation" | "depreciation" | "purchase_price" | null;
+  valuationDate: string | null;
+  purchasePrice: number | null;
+  purchaseCosts: number;
+  costBase: number | null;
+  capitalGrowth: number | null;
+  capitalGrowthPercent: number | null;
+  annualisedGrowth: number | null;
+  linkedDebt: {
+    id: string;
+    name: string;
+    balance: number;
+    balanceDate: string | null;
+  } | null;
+  equity: number | null;
+  lvr: number | null;
+  depreciationSchedule: DepreciationYear[];
+  calculatedAt: string;
+}
+
+async function fetchRealAssetSummary(holdingId: string): Promise<RealAssetSummaryResponse> {
+  const response = await fetch(`/api/holdings/${holdingId}/real-asset`);
+  if (!response.ok) {
+    throw new Error("Failed to fetch valuation summary");
+  }
+  return response.json();
+}
+
+const VALUATION_SOURCE_LABELS: Record<string, string> = {
+  valuation: "From latest valuation",
+  depreciation: "Estimated from depreciation",
+  purchase_price: "Purchase price (no valuation yet)",
+};
+
+function formatPercent(value: number | null): string {
+  if (value === null) return "—";
+  const sign = value >= 0 ? "+" : "";
+  return `${sign}${value.toFixed(2)}%`;
+}
+
+function formatScheduleDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString("en-AU", {
+    month: "short",
+    year: "numeric",
+  });
+}
+
+interface RealAssetSummaryProps {
+  holdingId: string;
+}
+
+/**
+ * Valuation, capital growth, equity and LVR for a property or vehicle,
+ * plus the depreciation schedule for vehicles with a purchase date.
+ */
+export function RealAssetSummary({ holdingId }: RealAssetSummaryProps) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.holdings.realAsset(holdingId),
+    queryFn: () => fetchRealAssetSummary(holdingId),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="rounded-lg border border-border bg-card/50 p-6">
+        <div className="animate-pulse h-24 bg-muted rounded" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return null;
+  }
+
+  if (data.currentValue === null) {
+    return (
+      <div className="rounded-lg border border-border bg-card/50 p-6">
+        <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide mb-2">
+          Valuation
+        </h3>
+        <p className="text-muted-foreground">
+          Add a purchase price or record a valuation at check-in to see equity and growth.
+        </p>
+      </div>
+    );
+  }
+
+  const growthColor =
+    data.capitalGrowth === null
+      ? "text-foreground"
+      : data.capitalGrowth >= 0
+        ? "text-positive"
+        : "text-destructive";
+
+  return (
+    <div className="rounded-lg border border-border bg-card/50 p-6">
+      <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide mb-4">
+        Valuation & Equity
+      </h3>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div>
+          <p className="text-xs text-muted-foreground">Current Value</p>
+          <CurrencyDisplay
+            amount={data.currentValue}
+            currency={data.currency}
+            className="text-xl font-bold text-foreground"
+          />
+          {data.valuationSource && (
+            <p className="text-xs text-muted-foreground mt-1">
+              {VALUATION_SOURCE_LABELS[data.valuationSource]}
+            </p>
+          )}
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Capital Growth</p>
+          {data.capitalGrowth !== null ? (
+            <>
+              <CurrencyDisplay
+                amount={data.capitalGrowth}
+                currency={data.currency}
+                className={`text-xl font-bold ${growthColor}`}
+              />
+              <p className={`text-xs mt-1 font-mono ${growthColor}`}>
+                {formatPercent(data.capitalGrowthPercent)}
+                {data.annualisedGrowth !== null && ` (${formatPercent(data.annualisedGrowth)} p.a.)`}
+              </p>
+            </>
+          ) : (
+            <p className="text-xl font-bold text-muted-foreground">—</p>
+          )}
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Equity</p>
+          {data.equity !== null ? (
+            <CurrencyDisplay
+              amount={data.equity}
+              currency={data.currency}
+              className="text-xl font-bold text-foreground"
+            />
+          ) : (
+            <p className="text-xl font-bold text-muted-foreground">—</p>
+          )}
+          {data.linkedDebt && (
+            <p className="text-xs text-muted-foreground mt-1">
+              After {data.linkedDebt.name}
+            </p>
+          )}
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">LVR</p>
+          <p className="text-xl font-bold text-foreground font-mono">
+            {data.lvr !== null ? `${data.lvr.toFixed(1)}%` : "—"}
+          </p>
+          {!data.linkedDebt && (
+            <p className="text-xs text-muted-foreground mt-1">No linked loan</p>
+          )}
+        </div>
+      </div>
+
+      {data.costBase !== null && (
+        <p className="text-xs text-muted-foreground mt-4">
+          Cost base{" "}
+          <CurrencyDisplay amount={data.costBase} currency={data.currency} className="inline-flex" />
+          {data.purchaseCosts > 0 && (
+            <>
+              {" "}including{" "}
+              <CurrencyDisplay amount={data.purchaseCosts} currency={data.currency} className="inline-flex" />
+              {" "}purchase costs
+            </>
+          )}
+        </p>
+      )}
+
+      {data.depreciationSchedule.length > 0 && (
+        <div className="mt-6">
+          <h4 className="text-sm font-medium text-foreground mb-2">Depreciation Schedule</h4>
+          <Table>
+            <TableHeader>
+              <TableRow className="border-border hover:bg-transparent">
+                <TableHead className="text-muted-foreground">Year</TableHead>
+                <TableHead className="text-muted-foreground hidden sm:table-cell">Ending</TableHead>
+                <TableHead className="text-muted-foreground text-right">Opening</TableHead>
+                <TableHead className="text-muted-foreground text-right">Depreciation</TableHead>
+                <TableHead className="text-muted-foreground text-right">Closing</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.depreciationSchedule.map((row) => (
+                <TableRow key={row.year} className="border-border">
+                  <TableCell className="text-foreground">{row.year}</TableCell>
+                  <TableCell className="text-muted-foreground hidden sm:table-cell">
+                    {formatScheduleDate(row.endDate)}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground text-right font-mono">
+                    <CurrencyDisplay amount={row.openingValue} currency={data.currency} className="justify-end" />
+                  </TableCell>
+                  <TableCell className="text-destructive text-right font-mono">
+                    <CurrencyDisplay amount={row.depreciation} currency={data.currency} className="justify-end" />
+                  </TableCell>
+                  <TableCell className="text-foreground text-right font-mono font-medium">
+                    <CurrencyDisplay amount={row.closingValue} currency={data.currency} className="justify-end" />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { useFormContext } from "react-hook-form";
+import { z } from "zod";
+import { FormSelectField } from "@/components/ui/form-select-field";
+import type { Holding } from "@/lib/db/schema";
+import { queryKeys } from "@/lib/query-keys";
+
+// Select items cannot have an empty value, so "not linked" uses a sentinel
+const NO_SETTLEMENT_ACCOUNT = "none";
+
+/**
+ * Form field for a tradeable holding's settlement cash account. Spread into
+ * a holding form's zod object.
+ */
+export const settlementFieldShape = {
+  settlementHoldingId: z.string().optional().default(""),
+};
+
+export type SettlementFormValues = z.infer<z.ZodObject<typeof settlementFieldShape>>;
+
+/**
+ * Settlement account as sent to the holdings API.
+ */
+export interface SettlementPayload {
+  settlementHoldingId: string | null;
+}
+
+/**
+ * Form values for a holding's existing settlement account (or blank).
+ */
+export function getSettlementDefaults(holding?: Holding): SettlementFormValues {
+  return {
+    settlementHoldingId: holding?.settlementHoldingId ?? "",
+  };
+}
+
+/**
+ * Converts form values to the API payload. "Not linked" is sent as null.
+ */
+export function toSettlementPayload(data: SettlementFormValues): SettlementPayload {
+  return {
+    settlementHoldingId:
+      data.settlementHoldingId && data.settlementHoldingId !== NO_SETTLEMENT_ACCOUNT
+        ? data.settlementHoldingId
+        : null,
+  };
+}
+
+async function fetchCashHoldings(): Promise<Holding[]> {
+  const response = await fetch("/api/holdings?include_dormant=true");
+  if (!response.ok) {
+    throw new Error("Failed to fetch holdings");
+  }
+  const holdings: Holding[] = await response.json();
+  return holdings.filter((h) => h.type === "cash");
+}
+
+/**
+ * Settlement account select, offering the user's cash holdings in the
+ * form's selected currency. Must be rendered inside a FormProvider whose
+ * values include SettlementFormValues and `currency`.
+ */
+export function SettlementFormFields() {
+  const { watch } = useFormContext<SettlementFormValues & { currency: string }>();
+  const currency = watch("currency");
+
+  const { data: cashHoldings = [] } = useQuery({
+    queryKey: queryKeys.holdings.cash,
+    queryFn: fetchCashHoldings,
+  });
+
+  const options = [
+    { value: NO_SETTLEMENT_ACCOUNT, label: "Not linked" },
+    ...cashHoldings
+      .filter((h) => !currency || h.currency === currency)
+      .map((h) => ({ value: h.id, label: h.name })),
+  ];
+
+  return (
+    <FormSelectField<SettlementFormValues>
+      name="settlementHoldingId"
+      label="Settlement Account"
+      placeholder="Not linked"
+      description="Cash holding that buys, sells and dividends settle to"
+      options={options}
+    />
+  );
+}
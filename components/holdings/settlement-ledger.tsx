@@ -0,0 +1,159 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { queryKeys } from "@/lib/query-keys";
+import { CurrencyDisplay } from "@/components/ui/currency-display";
+import type { Currency } from "@/lib/utils/currency";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface SettlementEntry {
+  transactionId: string;
+  holdingId: string;
+  holdingName: string;
+  holdingSymbol: string | null;
+  date: string;
+  action: "BUY" | "SELL" | "DIVIDEND" | "SPLIT";
+  amount: number;
+  balance: number;
+}
+
+interface SettlementLedgerResponse {
+  linkedHoldings: { id: string; name: string; symbol: string | null }[];
+  snapshot: { date: string; balance: number } | null;
+  entries: SettlementEntry[];
+  balance: number | null;
+}
+
+async function fetchSettlementLedger(holdingId: string): Promise<SettlementLedgerResponse> {
+  const response = await fetch(`/api/holdings/${holdingId}/settlement`);
+  if (!response.ok) {
+    throw new Error("Failed to fetch settlement ledger");
+  }
+  return response.json();
+}
+
+function formatDate(date: string): string {
+  return format(parseISO(date), "d MMM yyyy");
+}
+
+interface SettlementLedgerProps {
+  holdingId: string;
+  holdingCurrency: Currency;
+}
+
+/**
+ * Running balance of a cash holding that tradeable holdings settle to,
+ * carried forward from its latest snapshot. Renders nothing if no holdings
+ * settle to it.
+ */
+export function SettlementLedger({ holdingId, holdingCurrency }: SettlementLedgerProps) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: queryKeys.holdings.settlement(holdingId),
+    queryFn: () => fetchSettlementLedger(holdingId),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="rounded-lg border border-border bg-card/50 p-6 mt-6">
+        <div className="animate-pulse h-24 bg-muted rounded" />
+      </div>
+    );
+  }
+
+  if (error || !data || data.linkedHoldings.length === 0) {
+    return null;
+  }
+
+  const linkedNames = data.linkedHoldings.map((h) => h.symbol ?? h.name).join(", ");
+
+  return (
+    <div className="rounded-lg border border-border bg-card/50 p-6 mt-6">
+      <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide mb-4">
+        Settlement Ledger
+      </h3>
+
+      <p className="text-sm text-muted-foreground mb-4">Trades in {linkedNames} settle here.</p>
+
+      {!data.snapshot ? (
+        <p className="text-sm text-muted-foreground">
+          Record a balance to start the ledger. Trades after it will adjust the balance until the
+          next one.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-4 mb-6">
+            <div>
+              <p className="text-xs text-muted-foreground">
+                Balance at {formatDate(data.snapshot.date)}
+              </p>
+              <CurrencyDisplay
+                amount={data.snapshot.balance}
+                currency={holdingCurrency}
+                className="text-xl font-bold text-foreground"
+              />
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Ledger Balance</p>
+              <CurrencyDisplay
+                amount={data.balance ?? data.snapshot.balance}
+                currency={holdingCurrency}
+                className="text-xl font-bold text-foreground"
+              />
+            </div>
+          </div>
+
+          {data.entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No trades since the last balance.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow className="border-border hover:bg-transparent">
+                  <TableHead className="text-muted-foreground">Date</TableHead>
+                  <TableHead className="text-muted-foreground">Holding</TableHead>
+                  <TableHead className="text-muted-foreground">Action</TableHead>
+                  <TableHead className="text-muted-foreground text-right">Amount</TableHead>
+                  <TableHead className="text-muted-foreground text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.entries.map((entry) => (
+                  <TableRow key={entry.transactionId} className="border-border">
+                    <TableCell className="text-foreground">{formatDate(entry.date)}</TableCell>
+                    <TableCell className="text-foreground">
+                      {entry.holdingSymbol ?? entry.holdingName}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{entry.action}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      <CurrencyDisplay
+                        amount={entry.amount}
+                        currency={holdingCurrency}
+                        className={
+                          entry.amount < 0 ? "justify-end text-destructive" : "justify-end text-positive"
+                        }
+                      />
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-right font-mono">
+                      <CurrencyDisplay
+                        amount={entry.balance}
+                        currency={holdingCurrency}
+                        className="justify-end"
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
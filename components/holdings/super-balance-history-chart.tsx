@@ -26,6 +26,8 @@ interface MonthlyBreakdown {
   employerContrib: number;
   employeeContrib: number;
   investmentReturns: number;
+  grossReturns: number;
+  costs: number;
   balance: number;
   holdingId?: string;
   holdingName?: string;
@@ -90,6 +92,8 @@ interface ChartDataPoint {
   employerContrib: number;
   employeeContrib: number;
   investmentReturns: number;
+  grossReturns: number;
+  costs: number;
 }
 
 /**
@@ -170,6 +174,12 @@ function CustomTooltip({ active, payload, currency }: TooltipProps) {
               {formatCurrency(data.investmentReturns, currency)}
             </span>
           </div>
+          {data.costs > 0 && (
+            <p className="text-muted-foreground text-xs pl-5">
+              {formatCurrency(data.grossReturns, currency)} gross less{" "}
+              {formatCurrency(data.costs, currency)} fees, insurance and tax
+            </p>
+          )}
         </div>
         <div className="border-t border-border mt-2 pt-2">
           <p className="text-muted-foreground text-sm">
@@ -360,6 +370,8 @@ export function SuperBalanceHistoryChart({
     employerContrib: convert(point.employerContrib, holdingCurrency),
     employeeContrib: convert(point.employeeContrib, holdingCurrency),
     investmentReturns: convert(point.investmentReturns, holdingCurrency),
+    grossReturns: convert(point.grossReturns, holdingCurrency),
+    costs: convert(point.costs, holdingCurrency),
   }));
 
   // Calculate Y-axis domains
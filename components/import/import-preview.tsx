@@ -15,6 +15,8 @@ export interface ImportPreviewProps {
   rows: string[][];
   /** Validation warnings (e.g. missing fields) */
   warnings?: string[];
+  /** Per-row validation errors, by row index; rows with errors are skipped on import */
+  rowErrors?: string[][];
   /** Called when user confirms import */
   onConfirm: () => void;
   /** Called when user cancels */
@@ -29,6 +31,7 @@ export function ImportPreview({
   headers,
   rows,
   warnings,
+  rowErrors,
   onConfirm,
   onCancel,
   isLoading = false,
@@ -39,6 +42,7 @@ export function ImportPreview({
   const previewRows = rows.slice(0, MAX_PREVIEW_ROWS);
   const remainingRows = totalRows - MAX_PREVIEW_ROWS;
   const hasWarnings = warnings && warnings.length > 0;
+  const invalidRows = rowErrors?.filter((errors) => errors.length > 0).length ?? 0;
 
   // Capped stagger: max 300ms total
   const staggerDelay = Math.min(0.03, 0.3 / previewRows.length);
@@ -64,7 +68,13 @@ export function ImportPreview({
     >
       {/* Row count */}
       <p className="text-sm font-medium text-foreground">
-        {totalRows} row{totalRows === 1 ? "" : "s"} ready to import
+        {totalRows - invalidRows} row{totalRows - invalidRows === 1 ? "" : "s"} ready to import
+        {invalidRows > 0 && (
+          <span className="text-destructive">
+            {" "}
+            ({invalidRows} with errors will be skipped)
+          </span>
+        )}
       </p>
 
       {/* Warning banner */}
@@ -101,13 +111,18 @@ export function ImportPreview({
             initial="hidden"
             animate="visible"
           >
-            {previewRows.map((row, rowIdx) => (
+            {previewRows.map((row, rowIdx) => {
+              const errors = rowErrors?.[rowIdx] ?? [];
+              return (
               <motion.tr
                 key={rowIdx}
                 variants={reducedMotion ? undefined : rowVariants}
+                title={errors.length > 0 ? errors.join("; ") : undefined}
                 className={cn(
                   "border-b border-border last:border-b-0",
-                  rowIdx % 2 === 0 ? "bg-card" : "bg-card/50"
+                  errors.length > 0
+                    ? "bg-destructive/10"
+                    : rowIdx % 2 === 0 ? "bg-card" : "bg-card/50"
                 )}
               >
                 {headers.map((_, colIdx) => (
@@ -119,7 +134,8 @@ export function ImportPreview({
                   </td>
                 ))}
               </motion.tr>
-            ))}
+              );
+            })}
           </motion.tbody>
         </table>
       </div>
@@ -138,7 +154,7 @@ export function ImportPreview({
           disabled={isLoading}
           className="flex-1 bg-accent text-accent-foreground hover:bg-accent/90"
         >
-          Import {totalRows} {importType}
+          Import {totalRows - invalidRows} {importType}
         </Button>
         <Button
           variant="outline"
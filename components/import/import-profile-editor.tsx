@@ -0,0 +1,300 @@
+"use client";
+
+import * as React from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ENABLED_CURRENCIES, TRANSACTION_ACTIONS } from "@/lib/constants";
+import { IMPORT_DATE_FORMATS, type TransactionImportProfile } from "@/lib/import/profiles";
+import type { ImportColumnMapping, ImportProfileMapping } from "@/lib/db/schema";
+import type { CSVRow } from "@/lib/import/csv-parser";
+
+/** Select value for "no column" / "no default", since Radix Select rejects "". */
+const NONE = "__none__";
+
+type SingleColumn = Exclude<keyof ImportColumnMapping, "fees">;
+
+const COLUMN_FIELDS: Array<{ key: SingleColumn; label: string; required: boolean }> = [
+  { key: "date", label: "Date", required: true },
+  { key: "symbol", label: "Symbol", required: true },
+  { key: "action", label: "Action", required: true },
+  { key: "quantity", label: "Quantity", required: true },
+  { key: "unitPrice", label: "Unit Price", required: true },
+  { key: "currency", label: "Currency", required: false },
+  { key: "exchange", label: "Exchange", required: false },
+  { key: "notes", label: "Notes", required: false },
+];
+
+export interface ImportProfileEditorProps {
+  /** Headers from the uploaded CSV */
+  headers: string[];
+  /** Parsed rows, used to list the action labels in the file */
+  rows: CSVRow[];
+  /** Mapping to edit; the page previews it as it changes */
+  mapping: ImportProfileMapping;
+  /** Called whenever a field changes */
+  onChange: (mapping: ImportProfileMapping) => void;
+  /** Called with the saved profile */
+  onSaved: (profile: TransactionImportProfile) => void;
+  /** Called when user closes the editor */
+  onCancel: () => void;
+}
+
+/**
+ * Editor for a user-defined transaction import profile. Each import field is
+ * mapped to a header from the uploaded file, and each action label found in
+ * the file to a transaction action. Saved profiles appear in the profile
+ * list for later imports.
+ */
+export function ImportProfileEditor({
+  headers,
+  rows,
+  mapping,
+  onChange,
+  onSaved,
+  onCancel,
+}: ImportProfileEditorProps) {
+  const [name, setName] = React.useState("");
+  const [errors, setErrors] = React.useState<Record<string, string>>({});
+  const [saving, setSaving] = React.useState(false);
+
+  // Distinct values in the mapped action column, so each can be assigned
+  const actionValues = React.useMemo(() => {
+    const header = mapping.columns.action.toLowerCase();
+    const key = headers.find((h) => h.toLowerCase() === header);
+    if (!key) return [];
+    const values = new Set<string>();
+    for (const row of rows) {
+      const value = row[key]?.trim();
+      if (value) values.add(value);
+    }
+    return [...values].sort();
+  }, [headers, rows, mapping.columns.action]);
+
+  const setColumn = (key: SingleColumn, value: string) => {
+    onChange({
+      ...mapping,
+      columns: { ...mapping.columns, [key]: value === NONE ? null : value },
+    });
+  };
+
+  const toggleFee = (header: string, checked: boolean) => {
+    const fees = checked
+      ? [...mapping.columns.fees, header]
+      : mapping.columns.fees.filter((f) => f !== header);
+    onChange({ ...mapping, columns: { ...mapping.columns, fees } });
+  };
+
+  const setActionLabel = (label: string, value: string) => {
+    const actionLabels = { ...mapping.actionLabels };
+    if (value === NONE) {
+      delete actionLabels[label];
+    } else {
+      actionLabels[label] = value as ImportProfileMapping["actionLabels"][string];
+    }
+    onChange({ ...mapping, actionLabels });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setErrors({});
+
+    try {
+      const response = await fetch("/api/import/profiles", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, mapping }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        if (data.errors) {
+          setErrors(data.errors);
+        } else {
+          toast.error(data.error || "Failed to save import profile");
+        }
+        return;
+      }
+
+      toast.success(`Saved import profile "${data.name}"`);
+      onSaved(data);
+    } catch (error) {
+      toast.error("Failed to save import profile");
+      console.error("Import profile save error:", error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-border bg-background p-4">
+      <h4 className="text-sm font-medium text-muted-foreground">Column Mapping</h4>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        {COLUMN_FIELDS.map((field) => (
+          <div key={field.key} className="space-y-1">
+            <Label>
+              {field.label}
+              {field.required && " *"}
+            </Label>
+            <Select
+              value={mapping.columns[field.key] || (field.required ? "" : NONE)}
+              onValueChange={(value) => setColumn(field.key, value)}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select a column" />
+              </SelectTrigger>
+              <SelectContent>
+                {!field.required && <SelectItem value={NONE}>Not in file</SelectItem>}
+                {headers.map((header) => (
+                  <SelectItem key={header} value={header}>
+                    {header}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors[`columns.${field.key}`] && (
+              <p className="text-xs text-destructive">{errors[`columns.${field.key}`]}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Fee Columns</Label>
+        <p className="text-xs text-muted-foreground">Selected columns are added together.</p>
+        <div className="flex flex-wrap gap-x-4 gap-y-2">
+          {headers.map((header) => (
+            <label key={header} className="flex items-center gap-2 text-sm text-foreground">
+              <Checkbox
+                checked={mapping.columns.fees.includes(header)}
+                onCheckedChange={(checked) => toggleFee(header, checked === true)}
+              />
+              {header}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-3">
+        <div className="space-y-1">
+          <Label>Date Format</Label>
+          <Select
+            value={mapping.dateFormat}
+            onValueChange={(value) => onChange({ ...mapping, dateFormat: value })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {IMPORT_DATE_FORMATS.map((format) => (
+                <SelectItem key={format} value={format}>
+                  {format}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {errors.dateFormat && <p className="text-xs text-destructive">{errors.dateFormat}</p>}
+        </div>
+
+        <div className="space-y-1">
+          <Label>Default Currency</Label>
+          <Select
+            value={mapping.defaultCurrency ?? NONE}
+            onValueChange={(value) =>
+              onChange({ ...mapping, defaultCurrency: value === NONE ? null : value })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>None</SelectItem>
+              {ENABLED_CURRENCIES.map((currency) => (
+                <SelectItem key={currency} value={currency}>
+                  {currency}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="import-profile-exchange">Default Exchange</Label>
+          <Input
+            id="import-profile-exchange"
+            value={mapping.defaultExchange ?? ""}
+            placeholder="e.g. ASX"
+            onChange={(e) =>
+              onChange({ ...mapping, defaultExchange: e.target.value.toUpperCase() || null })
+            }
+          />
+        </div>
+      </div>
+
+      {actionValues.length > 0 && (
+        <div className="space-y-2">
+          <Label>Action Labels</Label>
+          <div className="grid gap-2 sm:grid-cols-2">
+            {actionValues.map((label) => {
+              const match = Object.keys(mapping.actionLabels).find(
+                (l) => l.toLowerCase() === label.toLowerCase()
+              );
+              return (
+                <div key={label} className="flex items-center gap-2">
+                  <span className="w-24 shrink-0 truncate text-sm text-foreground">{label}</span>
+                  <Select
+                    value={match ? mapping.actionLabels[match] : NONE}
+                    onValueChange={(value) => setActionLabel(match ?? label, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>Skip row</SelectItem>
+                      {TRANSACTION_ACTIONS.map((action) => (
+                        <SelectItem key={action} value={action}>
+                          {action}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              );
+            })}
+          </div>
+          {errors.actionLabels && <p className="text-xs text-destructive">{errors.actionLabels}</p>}
+        </div>
+      )}
+
+      <div className="flex items-end gap-3">
+        <div className="flex-1 space-y-1">
+          <Label htmlFor="import-profile-name">Profile Name</Label>
+          <Input
+            id="import-profile-name"
+            value={name}
+            placeholder="e.g. My broker"
+            onChange={(e) => setName(e.target.value)}
+          />
+          {errors.name && <p className="text-xs text-destructive">{errors.name}</p>}
+        </div>
+        <Button onClick={handleSave} disabled={saving}>
+          Save Profile
+        </Button>
+        <Button variant="outline" onClick={onCancel} disabled={saving}>
+          Close
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+"use client";
+
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+import { formatCurrency } from "@/lib/utils/currency";
+import {
+  CHART_AXIS,
+  CHART_GRID,
+  CHART_TEXT,
+  FI_TARGET,
+  NET_WORTH,
+  PROJECTION_EXPECTED,
+  PROJECTION_MEDIAN,
+} from "@/lib/chart-palette";
+
+/**
+ * One year of a projection, in today's AUD.
+ */
+export interface ProjectionPoint {
+  age: number;
+  year: number;
+  deterministic: number;
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+  probabilityFi: number;
+}
+
+/**
+ * One month of actual net worth, in AUD.
+ */
+export interface ProjectionHistoryPoint {
+  date: string;
+  age: number;
+  netWorth: number;
+}
+
+interface ChartPoint {
+  age: number;
+  actual?: number;
+  outer?: [number, number];
+  inner?: [number, number];
+  median?: number;
+  expected?: number;
+  point?: ProjectionPoint;
+}
+
+function formatCompact(value: number): string {
+  return formatCurrency(value, "AUD", { compact: true });
+}
+
+interface TooltipProps {
+  active?: boolean;
+  payload?: Array<{ payload: ChartPoint }>;
+}
+
+function ProjectionTooltip({ active, payload }: TooltipProps) {
+  if (!active || !payload || payload.length === 0) {
+    return null;
+  }
+
+  const { age, actual, point } = payload[0].payload;
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-3 shadow-lg min-w-[200px]">
+      <p className="text-muted-foreground text-sm mb-2">
+        Age {Math.floor(age)}
+        {point && ` · ${point.year}`}
+      </p>
+      <div className="space-y-1 text-sm">
+        {actual !== undefined && (
+          <div className="flex justify-between gap-4">
+            <span className="text-muted-foreground">Actual</span>
+            <span className="text-foreground font-medium">{formatCurrency(actual, "AUD")}</span>
+          </div>
+        )}
+        {point && (
+          <>
+            <div className="flex justify-between gap-4">
+              <span className="text-muted-foreground">Median</span>
+              <span className="text-foreground font-medium">{formatCurrency(point.p50, "AUD")}</span>
+            </div>
+            <div className="flex justify-between gap-4">
+              <span className="text-muted-foreground">10th–90th</span>
+              <span className="text-foreground">
+                {formatCompact(point.p10)} – {formatCompact(point.p90)}
+              </span>
+            </div>
+            <div className="flex justify-between gap-4">
+              <span className="text-muted-foreground">Expected returns</span>
+              <span className="text-foreground">{formatCurrency(point.deterministic, "AUD")}</span>
+            </div>
+            <div className="flex justify-between gap-4">
+              <span className="text-muted-foreground">Chance of FI</span>
+              <span className="text-foreground">{point.probabilityFi.toFixed(0)}%</span>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface ProjectionFanChartProps {
+  series: ProjectionPoint[];
+  history: ProjectionHistoryPoint[];
+  fiNumber: number;
+  targetAge: number;
+}
+
+/**
+ * Projection Fan Chart
+ *
+ * Actual net worth leading into the Monte Carlo projection: the median path
+ * with 25th–75th and 10th–90th percentile bands, the expected-returns path,
+ * and reference lines at the FI number and the target age. Values are in
+ * today's dollars.
+ */
+export function ProjectionFanChart({ series, history, fiNumber, targetAge }: ProjectionFanChartProps) {
+  const data: ChartPoint[] = [
+    ...history.map((h) => ({ age: h.age, actual: h.netWorth })),
+    ...series.map((point) => ({
+      age: point.age,
+      outer: [point.p10, point.p90] as [number, number],
+      inner: [point.p25, point.p75] as [number, number],
+      median: point.p50,
+      expected: point.deterministic,
+      point,
+    })),
+  ];
+
+  return (
+    <div className="h-80" role="img" aria-label="Net worth projection fan chart">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={data} margin={{ top: 5, right: 20, left: 10, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke={CHART_GRID} vertical={false} />
+          <XAxis
+            dataKey="age"
+            type="number"
+            domain={["dataMin", "dataMax"]}
+            allowDecimals={false}
+            stroke={CHART_TEXT}
+            tick={{ fill: CHART_TEXT, fontSize: 12 }}
+            tickLine={{ stroke: CHART_AXIS }}
+            axisLine={{ stroke: CHART_AXIS }}
+            tickFormatter={(age: number) => String(Math.floor(age))}
+          />
+          <YAxis
+            stroke={CHART_TEXT}
+            tick={{ fill: CHART_TEXT, fontSize: 12 }}
+            tickLine={{ stroke: CHART_AXIS }}
+            axisLine={{ stroke: CHART_AXIS }}
+            tickFormatter={formatCompact}
+            width={60}
+          />
+          <Tooltip content={<ProjectionTooltip />} />
+
+          <ReferenceLine
+            y={fiNumber}
+            stroke={FI_TARGET}
+            strokeDasharray="4 4"
+            label={{ value: "FI number", fill: FI_TARGET, fontSize: 12, position: "insideTopLeft" }}
+          />
+          <ReferenceLine x={targetAge} stroke={CHART_AXIS} strokeDasharray="4 4" />
+
+          {/* Percentile bands */}
+          <Area
+            dataKey="outer"
+            stroke="none"
+            fill={PROJECTION_MEDIAN}
+            fillOpacity={0.15}
+            isAnimationActive={false}
+          />
+          <Area
+            dataKey="inner"
+            stroke="none"
+            fill={PROJECTION_MEDIAN}
+            fillOpacity={0.3}
+            isAnimationActive={false}
+          />
+
+          <Line
+            dataKey="median"
+            name="Median"
+            stroke={PROJECTION_MEDIAN}
+            strokeWidth={2}
+            dot={false}
+          />
+          <Line
+            dataKey="expected"
+            name="Expected returns"
+            stroke={PROJECTION_EXPECTED}
+            strokeWidth={2}
+            strokeDasharray="5 3"
+            dot={false}
+          />
+          <Line
+            dataKey="actual"
+            name="Actual"
+            stroke={NET_WORTH}
+            strokeWidth={2}
+            dot={false}
+          />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { formatCurrency } from "@/lib/utils/currency";
+import {
+  HOLDING_TYPE_LABELS,
+  PROJECTED_ASSET_TYPES,
+  type ProjectedAssetType,
+} from "@/lib/constants";
+
+/**
+ * Projection inputs, as saved by PUT /api/net-worth/projection.
+ */
+export interface ProjectionSettingsValues {
+  assumptions: Record<ProjectedAssetType, { expectedReturn: number; volatility: number }>;
+  monthlyContribution: number | null;
+  inflationRate: number;
+  annualSpending: number;
+  withdrawalRate: number;
+  currentAge: number;
+  targetAge: number;
+}
+
+interface ProjectionSettingsFormProps {
+  settings: ProjectionSettingsValues;
+  /** Average monthly budget surplus, offered as the default contribution */
+  budgetSurplus: number | null;
+  onSubmit: (settings: ProjectionSettingsValues) => void;
+  isSaving: boolean;
+}
+
+/** Form state keeps raw input strings so fields can be cleared while typing. */
+type AssumptionInputs = Record<ProjectedAssetType, { expectedReturn: string; volatility: string }>;
+
+function toAssumptionInputs(settings: ProjectionSettingsValues): AssumptionInputs {
+  return Object.fromEntries(
+    PROJECTED_ASSET_TYPES.map((type) => [
+      type,
+      {
+        expectedReturn: String(settings.assumptions[type].expectedReturn),
+        volatility: String(settings.assumptions[type].volatility),
+      },
+    ])
+  ) as AssumptionInputs;
+}
+
+/**
+ * Projection Settings Form
+ *
+ * Ages, retirement spending, withdrawal and inflation rates, the monthly
+ * contribution (or the average budget surplus), and assumed return and
+ * volatility per asset type. Submitting saves the settings and reruns the
+ * projection.
+ */
+export function ProjectionSettingsForm({
+  settings,
+  budgetSurplus,
+  onSubmit,
+  isSaving,
+}: ProjectionSettingsFormProps) {
+  const [currentAge, setCurrentAge] = useState(String(settings.currentAge));
+  const [targetAge, setTargetAge] = useState(String(settings.targetAge));
+  const [annualSpending, setAnnualSpending] = useState(String(settings.annualSpending));
+  const [withdrawalRate, setWithdrawalRate] = useState(String(settings.withdrawalRate));
+  const [inflationRate, setInflationRate] = useState(String(settings.inflationRate));
+  const [useBudgetSurplus, setUseBudgetSurplus] = useState(settings.monthlyContribution === null);
+  const [monthlyContribution, setMonthlyContribution] = useState(
+    String(settings.monthlyContribution ?? Math.round(Math.max(budgetSurplus ?? 0, 0)))
+  );
+  const [assumptions, setAssumptions] = useState(() => toAssumptionInputs(settings));
+
+  const setAssumption = (
+    type: ProjectedAssetType,
+    field: "expectedReturn" | "volatility",
+    value: string
+  ) => {
+    setAssumptions((prev) => ({ ...prev, [type]: { ...prev[type], [field]: value } }));
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    onSubmit({
+      assumptions: Object.fromEntries(
+        PROJECTED_ASSET_TYPES.map((type) => [
+          type,
+          {
+            expectedReturn: Number(assumptions[type].expectedReturn),
+            volatility: Number(assumptions[type].volatility),
+          },
+        ])
+      ) as ProjectionSettingsValues["assumptions"],
+      monthlyContribution: useBudgetSurplus ? null : Number(monthlyContribution),
+      inflationRate: Number(inflationRate),
+      annualSpending: Number(annualSpending),
+      withdrawalRate: Number(withdrawalRate),
+      currentAge: Number(currentAge),
+      targetAge: Number(targetAge),
+    });
+  };
+
+  const fields = [
+    { id: "current-age", label: "Current age", value: currentAge, onChange: setCurrentAge, step: "1" },
+    { id: "target-age", label: "FI by age", value: targetAge, onChange: setTargetAge, step: "1" },
+    {
+      id: "annual-spending",
+      label: "Annual spending (AUD)",
+      value: annualSpending,
+      onChange: setAnnualSpending,
+      step: "1000",
+    },
+    {
+      id: "withdrawal-rate",
+      label: "Withdrawal rate (%)",
+      value: withdrawalRate,
+      onChange: setWithdrawalRate,
+      step: "0.1",
+    },
+    {
+      id: "inflation-rate",
+      label: "Inflation (% p.a.)",
+      value: inflationRate,
+      onChange: setInflationRate,
+      step: "0.1",
+    },
+  ];
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="grid grid-cols-2 gap-4">
+        {fields.map((field) => (
+          <div key={field.id} className="space-y-2">
+            <Label htmlFor={field.id} className="text-muted-foreground text-sm">
+              {field.label}
+            </Label>
+            <Input
+              id={field.id}
+              type="number"
+              step={field.step}
+              value={field.value}
+              onChange={(e) => field.onChange(e.target.value)}
+              required
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center gap-3">
+          <Switch
+            id="use-budget-surplus"
+            checked={useBudgetSurplus}
+            onCheckedChange={setUseBudgetSurplus}
+            disabled={budgetSurplus === null}
+          />
+          <Label htmlFor="use-budget-surplus" className="text-muted-foreground text-sm cursor-pointer">
+            Contribute the average budget surplus
+            {budgetSurplus !== null && ` (${formatCurrency(budgetSurplus, "AUD")}/month)`}
+          </Label>
+        </div>
+        {!useBudgetSurplus && (
+          <div className="space-y-2">
+            <Label htmlFor="monthly-contribution" className="text-muted-foreground text-sm">
+              Monthly contribution (AUD)
+            </Label>
+            <Input
+              id="monthly-contribution"
+              type="number"
+              step="100"
+              min="0"
+              value={monthlyContribution}
+              onChange={(e) => setMonthlyContribution(e.target.value)}
+              required
+            />
+          </div>
+        )}
+      </div>
+
+      <div>
+        <p className="text-xs text-muted-foreground mb-2">Assumed nominal returns (% p.a.)</p>
+        <div className="grid grid-cols-[1fr_5rem_5rem] gap-2 items-center text-sm">
+          <span />
+          <span className="text-xs text-muted-foreground">Return</span>
+          <span className="text-xs text-muted-foreground">Volatility</span>
+          {PROJECTED_ASSET_TYPES.map((type) => (
+            <div key={type} className="contents">
+              <span className="text-foreground">{HOLDING_TYPE_LABELS[type]}</span>
+              <Input
+                type="number"
+                step="0.5"
+                aria-label={`${HOLDING_TYPE_LABELS[type]} expected return`}
+                value={assumptions[type].expectedReturn}
+                onChange={(e) => setAssumption(type, "expectedReturn", e.target.value)}
+                required
+              />
+              <Input
+                type="number"
+                step="0.5"
+                min="0"
+                aria-label={`${HOLDING_TYPE_LABELS[type]} volatility`}
+                value={assumptions[type].volatility}
+                onChange={(e) => setAssumption(type, "volatility", e.target.value)}
+                required
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <Button type="submit" disabled={isSaving} className="w-full">
+        {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        Save and Project
+      </Button>
+    </form>
+  );
+}
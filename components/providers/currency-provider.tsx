@@ -14,7 +14,9 @@ import {
   Currency,
   ExchangeRates,
   convertCurrency,
+  hasRatesFor,
 } from "@/lib/utils/currency";
+import { BASE_CURRENCY, ENABLED_CURRENCIES } from "@/lib/constants";
 
 /**
  * Response from the preferences API
@@ -39,7 +41,7 @@ interface ExchangeRatesApiResponse {
  */
 interface CurrencyContextValue {
   /**
-   * The user's selected display currency (AUD, NZD, or USD).
+   * The user's selected display currency (one of ENABLED_CURRENCIES).
    * Defaults to AUD if not loaded yet or user has no preference.
    */
   displayCurrency: Currency;
@@ -63,7 +65,8 @@ interface CurrencyContextValue {
   setShowNativeCurrency: (show: boolean) => void;
 
   /**
-   * Current exchange rates in the format { "USD/AUD": number, "NZD/AUD": number }.
+   * Current exchange rates into AUD for every enabled currency, in the
+   * format { "USD/AUD": number, "NZD/AUD": number, ... }.
    * May be null while loading or if rates unavailable.
    */
   rates: ExchangeRates | null;
@@ -144,23 +147,20 @@ async function fetchExchangeRates(
 }
 
 /**
- * Transforms API response rates to ExchangeRates format.
+ * Transforms API response rates to ExchangeRates format, keeping the rates
+ * into AUD.
  */
 function transformRates(
   apiRates: Record<string, number>
 ): ExchangeRates | null {
-  const usdAud = apiRates["USD/AUD"];
-  const nzdAud = apiRates["NZD/AUD"];
-
-  // Require both rates to be present
-  if (typeof usdAud !== "number" || typeof nzdAud !== "number") {
+  // Require a rate for every enabled currency
+  if (!hasRatesFor(ENABLED_CURRENCIES, apiRates)) {
     return null;
   }
 
-  return {
-    "USD/AUD": usdAud,
-    "NZD/AUD": nzdAud,
-  };
+  return Object.fromEntries(
+    Object.entries(apiRates).filter(([pair]) => pair.endsWith(`/${BASE_CURRENCY}`))
+  );
 }
 
 interface CurrencyProviderProps {
@@ -338,7 +338,7 @@ export function CurrencyProvider({
       }
 
       // No rates available - return original
-      if (!rates) {
+      if (!rates || !hasRatesFor([fromCurrency, displayCurrency], rates)) {
         return amount;
       }
 
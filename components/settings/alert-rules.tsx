@@ -0,0 +1,388 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { queryKeys } from "@/lib/query-keys";
+import { showError, showSuccess } from "@/lib/toast-helpers";
+import {
+  ALERT_RULE_TYPES,
+  ALERT_RULE_TYPE_LABELS,
+  HOLDING_ALERT_RULE_TYPES,
+  isTradeable,
+  type AlertRuleType,
+} from "@/lib/constants";
+import type { Holding } from "@/lib/db/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+/**
+ * Alert rule as returned by GET /api/alerts
+ */
+interface AlertRuleResponse {
+  id: string;
+  type: AlertRuleType;
+  holdingId: string | null;
+  direction: "above" | "below" | null;
+  threshold: string;
+  isActive: boolean;
+  lastTriggeredAt: string | null;
+  holding: { id: string; name: string; symbol: string | null; currency: string } | null;
+}
+
+interface CreateAlertRuleInput {
+  type: AlertRuleType;
+  holdingId?: string;
+  direction?: "above" | "below";
+  threshold: number;
+}
+
+async function fetchAlertRules(): Promise<AlertRuleResponse[]> {
+  const response = await fetch("/api/alerts");
+  if (!response.ok) {
+    throw new Error(`Failed to fetch alerts: ${response.status}`);
+  }
+  return response.json();
+}
+
+async function fetchHoldings(): Promise<Holding[]> {
+  const response = await fetch("/api/holdings?include_dormant=true");
+  if (!response.ok) {
+    throw new Error("Failed to fetch holdings");
+  }
+  return response.json();
+}
+
+/**
+ * Throws the first validation message from an alerts API error response.
+ */
+async function throwResponseError(response: Response, fallback: string): Promise<never> {
+  const data = await response.json().catch(() => ({}));
+  const firstError = data.errors ? Object.values(data.errors)[0] : data.error;
+  throw new Error(typeof firstError === "string" ? firstError : fallback);
+}
+
+async function createAlertRule(input: CreateAlertRuleInput): Promise<AlertRuleResponse> {
+  const response = await fetch("/api/alerts", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  if (!response.ok) {
+    await throwResponseError(response, "Failed to create alert");
+  }
+  return response.json();
+}
+
+async function updateAlertRule(id: string, updates: { isActive: boolean }): Promise<AlertRuleResponse> {
+  const response = await fetch(`/api/alerts/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(updates),
+  });
+  if (!response.ok) {
+    await throwResponseError(response, "Failed to update alert");
+  }
+  return response.json();
+}
+
+async function deleteAlertRule(id: string): Promise<void> {
+  const response = await fetch(`/api/alerts/${id}`, { method: "DELETE" });
+  if (!response.ok) {
+    await throwResponseError(response, "Failed to delete alert");
+  }
+}
+
+/** Whether a holding can be watched by a rule type. */
+function isHoldingEligible(type: AlertRuleType, holding: Holding): boolean {
+  if (type === "price_cross" || type === "daily_move") return isTradeable(holding.type);
+  if (type === "debt_below") return holding.type === "debt";
+  return holding.type !== "debt";
+}
+
+/** Units the threshold is entered in, shown beside the input. */
+function thresholdUnit(type: AlertRuleType, holding: Holding | undefined): string {
+  if (type === "daily_move" || type === "holding_weight") return "%";
+  if (type === "net_worth_cross") return "AUD";
+  return holding?.currency ?? "";
+}
+
+/**
+ * Describe a rule in a sentence, e.g. "VAS price above 100 AUD".
+ */
+function describeRule(rule: AlertRuleResponse): string {
+  const label = rule.holding ? (rule.holding.symbol ?? rule.holding.name) : "";
+  const threshold = Number(rule.threshold).toLocaleString("en-AU");
+  const currency = rule.holding?.currency ?? "";
+
+  switch (rule.type) {
+    case "price_cross":
+      return `${label} price ${rule.direction} ${threshold} ${currency}`;
+    case "daily_move":
+      return rule.direction === "above"
+        ? `${label} rises ${threshold}% or more in a day`
+        : rule.direction === "below"
+          ? `${label} falls ${threshold}% or more in a day`
+          : `${label} moves ${threshold}% or more in a day`;
+    case "holding_weight":
+      return `${label} exceeds ${threshold}% of total assets`;
+    case "net_worth_cross":
+      return `Net worth ${rule.direction} ${threshold} AUD`;
+    case "debt_below":
+      return `${rule.holding?.name ?? ""} balance below ${threshold} ${currency}`;
+  }
+}
+
+/**
+ * AlertRules Component
+ *
+ * Manages price and portfolio alerts. Rules are evaluated daily and emailed
+ * when they fire:
+ * - A symbol's price crossing a value, or moving more than a percentage in a day
+ * - A holding's share of total assets exceeding a percentage
+ * - Net worth crossing a value, or a debt balance falling below one
+ *
+ * @example
+ * <AlertRules />
+ */
+export function AlertRules() {
+  const queryClient = useQueryClient();
+
+  const [type, setType] = useState<AlertRuleType>("price_cross");
+  const [holdingId, setHoldingId] = useState("");
+  const [direction, setDirection] = useState<"above" | "below" | "either">("above");
+  const [threshold, setThreshold] = useState("");
+
+  const { data: rules, isLoading } = useQuery({
+    queryKey: queryKeys.alerts,
+    queryFn: fetchAlertRules,
+  });
+
+  const { data: holdings } = useQuery({
+    queryKey: queryKeys.holdings.list({ showDormant: true }),
+    queryFn: fetchHoldings,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: createAlertRule,
+    onSuccess: () => {
+      showSuccess("Alert created");
+      setThreshold("");
+      queryClient.invalidateQueries({ queryKey: queryKeys.alerts });
+    },
+    onError: (error: Error) => {
+      showError(error.message);
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) =>
+      updateAlertRule(id, { isActive }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.alerts });
+    },
+    onError: (error: Error) => {
+      showError(error.message);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteAlertRule,
+    onSuccess: () => {
+      showSuccess("Alert deleted");
+      queryClient.invalidateQueries({ queryKey: queryKeys.alerts });
+    },
+    onError: (error: Error) => {
+      showError(error.message);
+    },
+  });
+
+  const needsHolding = HOLDING_ALERT_RULE_TYPES.includes(type);
+  const eligibleHoldings = (holdings ?? []).filter((h) => isHoldingEligible(type, h));
+  const selectedHolding = eligibleHoldings.find((h) => h.id === holdingId);
+  const directionOptions =
+    type === "price_cross" || type === "net_worth_cross"
+      ? (["above", "below"] as const)
+      : type === "daily_move"
+        ? (["either", "above", "below"] as const)
+        : null;
+
+  const handleTypeChange = (value: string) => {
+    const nextType = value as AlertRuleType;
+    setType(nextType);
+    setHoldingId("");
+    setDirection(nextType === "daily_move" ? "either" : "above");
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    createMutation.mutate({
+      type,
+      holdingId: needsHolding ? holdingId : undefined,
+      direction: directionOptions && direction !== "either" ? direction : undefined,
+      threshold: Number(threshold),
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {[1, 2].map((i) => (
+          <div key={i} className="h-10 rounded bg-muted animate-pulse" />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Existing rules */}
+      {rules && rules.length > 0 ? (
+        <div className="divide-y divide-border">
+          {rules.map((rule) => (
+            <div key={rule.id} className="flex items-center justify-between gap-4 py-3">
+              <div>
+                <p className="text-sm text-foreground">{describeRule(rule)}</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {rule.lastTriggeredAt
+                    ? `Last sent ${format(parseISO(rule.lastTriggeredAt), "d MMM yyyy")}`
+                    : "Not triggered yet"}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={rule.isActive}
+                  onCheckedChange={(isActive) => toggleMutation.mutate({ id: rule.id, isActive })}
+                  disabled={toggleMutation.isPending}
+                  aria-label="Alert active"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteMutation.mutate(rule.id)}
+                  disabled={deleteMutation.isPending}
+                  aria-label="Delete alert"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          No alerts yet. Alerts are checked daily and emailed when they trigger.
+        </p>
+      )}
+
+      {/* New rule form */}
+      <form onSubmit={handleSubmit} className="space-y-4 pt-4 border-t border-border">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="alert-type" className="text-muted-foreground text-sm">
+              Alert when
+            </Label>
+            <Select value={type} onValueChange={handleTypeChange}>
+              <SelectTrigger id="alert-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ALERT_RULE_TYPES.map((t) => (
+                  <SelectItem key={t} value={t}>
+                    {ALERT_RULE_TYPE_LABELS[t]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {needsHolding && (
+            <div className="space-y-2">
+              <Label htmlFor="alert-holding" className="text-muted-foreground text-sm">
+                Holding
+              </Label>
+              <Select value={holdingId} onValueChange={setHoldingId}>
+                <SelectTrigger id="alert-holding">
+                  <SelectValue placeholder="Select a holding" />
+                </SelectTrigger>
+                <SelectContent>
+                  {eligibleHoldings.map((h) => (
+                    <SelectItem key={h.id} value={h.id}>
+                      {h.symbol ? `${h.symbol} · ${h.name}` : h.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {directionOptions && (
+            <div className="space-y-2">
+              <Label htmlFor="alert-direction" className="text-muted-foreground text-sm">
+                Direction
+              </Label>
+              <Select
+                value={direction}
+                onValueChange={(value) => setDirection(value as typeof direction)}
+              >
+                <SelectTrigger id="alert-direction">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {directionOptions.map((d) => (
+                    <SelectItem key={d} value={d}>
+                      {d === "either" ? "Either way" : d === "above" ? "Above" : "Below"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="alert-threshold" className="text-muted-foreground text-sm">
+              Threshold {thresholdUnit(type, selectedHolding) && `(${thresholdUnit(type, selectedHolding)})`}
+            </Label>
+            <Input
+              id="alert-threshold"
+              type="number"
+              step="any"
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              required
+            />
+          </div>
+        </div>
+
+        {type === "price_cross" && (
+          <p className="text-xs text-muted-foreground">
+            Prices are compared in the currency the symbol is quoted in.
+          </p>
+        )}
+
+        <Button
+          type="submit"
+          size="sm"
+          disabled={createMutation.isPending || (needsHolding && !holdingId) || threshold === ""}
+        >
+          {createMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Plus className="h-4 w-4 mr-2" />
+          )}
+          Add Alert
+        </Button>
+      </form>
+    </div>
+  );
+}
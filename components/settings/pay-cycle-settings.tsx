@@ -0,0 +1,391 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys } from "@/lib/query-keys";
+import { showSuccess, showError } from "@/lib/toast-helpers";
+import { Loader2, Plus, X } from "lucide-react";
+
+import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ANCHORED_PAY_CYCLES,
+  PAY_CYCLES,
+  PAY_CYCLE_LABELS,
+  type PayCycle,
+} from "@/lib/constants";
+import { DEFAULT_PAY_CYCLE_CONFIG } from "@/lib/budget/payday";
+
+/**
+ * Response from the payday API
+ */
+interface PaydayResponse {
+  cycle: PayCycle;
+  paydayDay: number;
+  anchorDate: string | null;
+  adjustForWeekends: boolean;
+  adjustForHolidays: boolean;
+  holidays: string[];
+  expectedIncomeCents: number | null;
+  updatedAt: string;
+  currentPeriod: { startDate: string; endDate: string; daysInPeriod: number };
+  nextPayday: string;
+}
+
+type PaydayUpdate = Pick<
+  PaydayResponse,
+  | "cycle"
+  | "paydayDay"
+  | "anchorDate"
+  | "adjustForWeekends"
+  | "adjustForHolidays"
+  | "holidays"
+  | "expectedIncomeCents"
+>;
+
+/**
+ * Fetches the pay cycle configuration from the API.
+ */
+async function fetchPayday(): Promise<PaydayResponse> {
+  const response = await fetch("/api/budget/payday");
+  if (!response.ok) {
+    throw new Error(`Failed to fetch pay cycle: ${response.status}`);
+  }
+  return response.json();
+}
+
+/**
+ * Saves the pay cycle configuration via the API.
+ */
+async function updatePayday(update: PaydayUpdate): Promise<PaydayResponse> {
+  const response = await fetch("/api/budget/payday", {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(update),
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    const fieldError = Object.values(data.errors ?? {}).flat()[0];
+    throw new Error(
+      typeof fieldError === "string" ? fieldError : data.error ?? "Failed to save pay cycle"
+    );
+  }
+  return response.json();
+}
+
+/**
+ * Day options 1-28 for the monthly cycle
+ */
+const DAY_OPTIONS = Array.from({ length: 28 }, (_, i) => i + 1);
+
+function formatDisplayDate(isoDate: string): string {
+  const [y, m, d] = isoDate.split("-").map(Number);
+  return new Date(y, m - 1, d).toLocaleDateString("en-AU", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+}
+
+/**
+ * PayCycleSettings Component
+ *
+ * Lets the user describe how they get paid so budget periods line up with
+ * actual paydays:
+ * - Pay cycle (weekly, fortnightly, monthly on a day, last business day)
+ * - Anchor payday for weekly/fortnightly cycles
+ * - Expected income per period
+ * - Weekend and public-holiday adjustment, plus local holidays
+ *
+ * Shows the current period and next payday as calculated by the server.
+ * Changes apply from the next budget period generated.
+ *
+ * @example
+ * <PayCycleSettings />
+ */
+export function PayCycleSettings() {
+  const { data: config, isLoading } = useQuery({
+    queryKey: queryKeys.budget.payday,
+    queryFn: fetchPayday,
+    staleTime: 1000 * 60 * 30,
+  });
+
+  if (isLoading || !config) {
+    return (
+      <div className="space-y-4">
+        {[0, 1, 2].map((i) => (
+          <div key={i} className="flex items-center justify-between">
+            <span className="h-4 w-32 rounded bg-muted animate-pulse" />
+            <span className="h-9 w-48 rounded bg-muted animate-pulse" />
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  // Re-mount the form when the saved config changes so it starts from it
+  return <PayCycleForm key={config.updatedAt} config={config} />;
+}
+
+function PayCycleForm({ config }: { config: PaydayResponse }) {
+  const queryClient = useQueryClient();
+
+  const [cycle, setCycle] = useState<PayCycle>(config.cycle);
+  const [paydayDay, setPaydayDay] = useState(config.paydayDay);
+  const [anchorDate, setAnchorDate] = useState(config.anchorDate ?? "");
+  const [income, setIncome] = useState(
+    config.expectedIncomeCents !== null
+      ? (config.expectedIncomeCents / 100).toFixed(2)
+      : ""
+  );
+  const [adjustForWeekends, setAdjustForWeekends] = useState(config.adjustForWeekends);
+  const [adjustForHolidays, setAdjustForHolidays] = useState(config.adjustForHolidays);
+  const [holidays, setHolidays] = useState(config.holidays);
+  const [newHoliday, setNewHoliday] = useState("");
+
+  const saveMutation = useMutation({
+    mutationFn: updatePayday,
+    onSuccess: (saved) => {
+      queryClient.setQueryData(queryKeys.budget.payday, saved);
+      showSuccess("Pay cycle saved", "New budget periods will follow this cycle");
+    },
+    onError: (error: Error) => {
+      showError(error.message);
+    },
+  });
+
+  const isAnchored = ANCHORED_PAY_CYCLES.includes(cycle);
+  const incomeCents = income.trim() === "" ? null : Math.round(parseFloat(income) * 100);
+  const incomeValid = incomeCents === null || (Number.isFinite(incomeCents) && incomeCents > 0);
+  const canSave = (!isAnchored || anchorDate !== "") && incomeValid;
+
+  const handleAddHoliday = () => {
+    if (!newHoliday || holidays.includes(newHoliday)) return;
+    setHolidays([...holidays, newHoliday].sort());
+    setNewHoliday("");
+  };
+
+  const handleSave = () => {
+    saveMutation.mutate({
+      cycle,
+      paydayDay,
+      anchorDate: isAnchored ? anchorDate : null,
+      adjustForWeekends,
+      adjustForHolidays,
+      holidays,
+      expectedIncomeCents: incomeCents,
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Cycle */}
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label htmlFor="pay-cycle" className="text-muted-foreground text-sm font-medium">
+            Pay Cycle
+          </Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            How often your pay arrives
+          </p>
+        </div>
+        <Select value={cycle} onValueChange={(value) => setCycle(value as PayCycle)}>
+          <SelectTrigger id="pay-cycle" className="w-[220px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PAY_CYCLES.map((option) => (
+              <SelectItem key={option} value={option}>
+                {PAY_CYCLE_LABELS[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Day of month or anchor payday */}
+      {cycle === "monthly" && (
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="payday-day" className="text-muted-foreground text-sm font-medium">
+              Payday
+            </Label>
+            <p className="text-xs text-muted-foreground mt-1">
+              Day of the month pay is scheduled
+            </p>
+          </div>
+          <Select
+            value={String(paydayDay)}
+            onValueChange={(value) => setPaydayDay(parseInt(value, 10))}
+          >
+            <SelectTrigger id="payday-day" className="w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DAY_OPTIONS.map((day) => (
+                <SelectItem key={day} value={String(day)}>
+                  Day {day}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {isAnchored && (
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="anchor-date" className="text-muted-foreground text-sm font-medium">
+              A Recent Payday
+            </Label>
+            <p className="text-xs text-muted-foreground mt-1">
+              Later paydays are counted from this date
+            </p>
+          </div>
+          <Input
+            id="anchor-date"
+            type="date"
+            value={anchorDate}
+            onChange={(e) => setAnchorDate(e.target.value)}
+            className="w-[220px]"
+          />
+        </div>
+      )}
+
+      {/* Expected income */}
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <Label htmlFor="expected-income" className="text-muted-foreground text-sm font-medium">
+            Expected Income
+          </Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            Pay per period, used for new budget periods
+          </p>
+        </div>
+        <Input
+          id="expected-income"
+          type="number"
+          min="0"
+          step="0.01"
+          placeholder={(DEFAULT_PAY_CYCLE_CONFIG.expectedIncomeCents / 100).toFixed(2)}
+          value={income}
+          onChange={(e) => setIncome(e.target.value)}
+          className="w-[220px]"
+        />
+      </div>
+
+      {/* Adjustments */}
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor="adjust-weekends" className="text-muted-foreground text-sm font-medium">
+            Move Weekend Paydays
+          </Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            Pay the Friday before when payday falls on a weekend
+          </p>
+        </div>
+        <Switch
+          id="adjust-weekends"
+          checked={adjustForWeekends}
+          onCheckedChange={setAdjustForWeekends}
+        />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <Label htmlFor="adjust-holidays" className="text-muted-foreground text-sm font-medium">
+            Move Public Holiday Paydays
+          </Label>
+          <p className="text-xs text-muted-foreground mt-1">
+            Pay the business day before national and local public holidays
+          </p>
+        </div>
+        <Switch
+          id="adjust-holidays"
+          checked={adjustForHolidays}
+          onCheckedChange={setAdjustForHolidays}
+        />
+      </div>
+
+      {adjustForHolidays && (
+        <div className="space-y-2">
+          <Label htmlFor="new-holiday" className="text-muted-foreground text-sm font-medium">
+            Local Holidays
+          </Label>
+          <p className="text-xs text-muted-foreground">
+            State or regional holidays on top of the national ones
+          </p>
+          <div className="flex items-center gap-2">
+            <Input
+              id="new-holiday"
+              type="date"
+              value={newHoliday}
+              onChange={(e) => setNewHoliday(e.target.value)}
+              className="w-[220px]"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleAddHoliday}
+              disabled={!newHoliday}
+              className="gap-1"
+            >
+              <Plus className="h-4 w-4" />
+              Add
+            </Button>
+          </div>
+          {holidays.length > 0 && (
+            <div className="flex flex-wrap gap-2 pt-1">
+              {holidays.map((holiday) => (
+                <span
+                  key={holiday}
+                  className="inline-flex items-center gap-1 rounded-full border border-border bg-muted px-2 py-0.5 text-xs text-foreground"
+                >
+                  {formatDisplayDate(holiday)}
+                  <button
+                    type="button"
+                    onClick={() => setHolidays(holidays.filter((h) => h !== holiday))}
+                    className="text-muted-foreground hover:text-foreground"
+                    aria-label={`Remove ${holiday}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Current schedule and save */}
+      <div className="flex items-center justify-between gap-4 pt-2 border-t border-border">
+        <div className="text-xs text-muted-foreground space-y-0.5">
+          <p>
+            Current period: {formatDisplayDate(config.currentPeriod.startDate)} –{" "}
+            {formatDisplayDate(config.currentPeriod.endDate)}
+          </p>
+          <p>Next payday: {formatDisplayDate(config.nextPayday)}</p>
+        </div>
+        <Button
+          size="sm"
+          onClick={handleSave}
+          disabled={!canSave || saveMutation.isPending}
+          className="gap-2"
+        >
+          {saveMutation.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -19,7 +19,7 @@ import { FormTextareaField } from "@/components/ui/form-textarea-field";
 import { ChevronDown, ChevronRight, Loader2 } from "lucide-react";
 import { useFormShake } from "@/hooks/use-form-shake";
 import { showSuccess, showError } from "@/lib/toast-helpers";
-import { CURRENCY_SYMBOLS } from "@/lib/constants";
+import { CURRENCY_SYMBOLS, SUPER_DEDUCTION_FIELDS, SUPER_DEDUCTION_LABELS } from "@/lib/constants";
 import { queryKeys } from "@/lib/query-keys";
 
 // Format date as "Month Year" (e.g., "January 2026")
@@ -49,6 +49,11 @@ interface Contribution {
   date: string;
   employerContrib: string;
   employeeContrib: string;
+  nonConcessionalContrib: string;
+  adminFees: string;
+  investmentFees: string;
+  insurancePremiums: string;
+  contributionsTax: string;
   notes: string | null;
   holdingName: string;
 }
@@ -67,6 +72,31 @@ const editSnapshotSchema = z.object({
     .min(0, "Must be a non-negative number")
     .optional()
     .default(0),
+  nonConcessionalContrib: z.coerce
+    .number()
+    .min(0, "Must be a non-negative number")
+    .optional()
+    .default(0),
+  adminFees: z.coerce
+    .number()
+    .min(0, "Must be a non-negative number")
+    .optional()
+    .default(0),
+  investmentFees: z.coerce
+    .number()
+    .min(0, "Must be a non-negative number")
+    .optional()
+    .default(0),
+  insurancePremiums: z.coerce
+    .number()
+    .min(0, "Must be a non-negative number")
+    .optional()
+    .default(0),
+  contributionsTax: z.coerce
+    .number()
+    .min(0, "Must be a non-negative number")
+    .optional()
+    .default(0),
   // Hidden field to conditionally validate balance sign
   _holdingType: z.string().optional(),
 }).superRefine((data, ctx) => {
@@ -121,10 +151,21 @@ async function updateSnapshot(
   return response.json();
 }
 
+// Contribution and deduction amounts as sent to the contributions API
+interface ContributionAmounts {
+  employer_contribution: string;
+  employee_contribution: string;
+  non_concessional_contribution: string;
+  admin_fees: string;
+  investment_fees: string;
+  insurance_premiums: string;
+  contributions_tax: string;
+}
+
 // Update contribution
 async function updateContribution(
   id: string,
-  data: { employer_contribution: string; employee_contribution: string }
+  data: ContributionAmounts
 ): Promise<Contribution> {
   const response = await fetch(`/api/contributions/${id}`, {
     method: "PATCH",
@@ -141,12 +182,9 @@ async function updateContribution(
 }
 
 // Create contribution
-async function createContribution(data: {
-  holding_id: string;
-  date: string;
-  employer_contribution: string;
-  employee_contribution: string;
-}): Promise<Contribution> {
+async function createContribution(
+  data: ContributionAmounts & { holding_id: string; date: string }
+): Promise<Contribution> {
   const response = await fetch("/api/contributions", {
     method: "POST",
     headers: { "Content-Type": "application/json" },
@@ -177,6 +215,11 @@ export function EditSnapshotModal({
       notes: "",
       employerContrib: 0,
       employeeContrib: 0,
+      nonConcessionalContrib: 0,
+      adminFees: 0,
+      investmentFees: 0,
+      insurancePremiums: 0,
+      contributionsTax: 0,
       _holdingType: "",
     },
   });
@@ -198,6 +241,11 @@ export function EditSnapshotModal({
         notes: snapshot.notes || "",
         employerContrib: 0,
         employeeContrib: 0,
+        nonConcessionalContrib: 0,
+        adminFees: 0,
+        investmentFees: 0,
+        insurancePremiums: 0,
+        contributionsTax: 0,
         _holdingType: snapshot.holdingType,
       });
     }
@@ -208,10 +256,21 @@ export function EditSnapshotModal({
     if (contribution) {
       form.setValue("employerContrib", parseFloat(contribution.employerContrib) || 0);
       form.setValue("employeeContrib", parseFloat(contribution.employeeContrib) || 0);
+      form.setValue(
+        "nonConcessionalContrib",
+        parseFloat(contribution.nonConcessionalContrib) || 0
+      );
+      for (const field of SUPER_DEDUCTION_FIELDS) {
+        form.setValue(field, parseFloat(contribution[field]) || 0);
+      }
       setShowContributions(true);
     } else {
       form.setValue("employerContrib", 0);
       form.setValue("employeeContrib", 0);
+      form.setValue("nonConcessionalContrib", 0);
+      for (const field of SUPER_DEDUCTION_FIELDS) {
+        form.setValue(field, 0);
+      }
       setShowContributions(false);
     }
   }, [contribution, form]);
@@ -224,18 +283,13 @@ export function EditSnapshotModal({
 
   // Contribution update mutation
   const updateContributionMutation = useMutation({
-    mutationFn: (data: { employer_contribution: string; employee_contribution: string }) =>
-      updateContribution(contribution!.id, data),
+    mutationFn: (data: ContributionAmounts) => updateContribution(contribution!.id, data),
   });
 
   // Contribution create mutation
   const createContributionMutation = useMutation({
-    mutationFn: (data: {
-      holding_id: string;
-      date: string;
-      employer_contribution: string;
-      employee_contribution: string;
-    }) => createContribution(data),
+    mutationFn: (data: ContributionAmounts & { holding_id: string; date: string }) =>
+      createContribution(data),
   });
 
   const onValid = async (data: FormValues) => {
@@ -252,13 +306,26 @@ export function EditSnapshotModal({
       if (snapshot.holdingType === "super" && showContributions) {
         const employer = data.employerContrib ?? 0;
         const employee = data.employeeContrib ?? 0;
-        const hasContribValues = employer > 0 || employee > 0;
+        const nonConcessional = data.nonConcessionalContrib ?? 0;
+        const deductions = {
+          admin_fees: String(data.adminFees ?? 0),
+          investment_fees: String(data.investmentFees ?? 0),
+          insurance_premiums: String(data.insurancePremiums ?? 0),
+          contributions_tax: String(data.contributionsTax ?? 0),
+        };
+        const hasContribValues =
+          employer > 0 ||
+          employee > 0 ||
+          nonConcessional > 0 ||
+          SUPER_DEDUCTION_FIELDS.some((field) => (data[field] ?? 0) > 0);
 
         if (hasContribValues) {
           if (contribution) {
             await updateContributionMutation.mutateAsync({
               employer_contribution: String(employer),
               employee_contribution: String(employee),
+              non_concessional_contribution: String(nonConcessional),
+              ...deductions,
             });
           } else {
             await createContributionMutation.mutateAsync({
@@ -266,6 +333,8 @@ export function EditSnapshotModal({
               date: snapshot.date,
               employer_contribution: String(employer),
               employee_contribution: String(employee),
+              non_concessional_contribution: String(nonConcessional),
+              ...deductions,
             });
           }
         }
@@ -275,6 +344,8 @@ export function EditSnapshotModal({
       queryClient.invalidateQueries({ queryKey: queryKeys.snapshots.all });
       queryClient.invalidateQueries({ queryKey: ["contribution"] });
       queryClient.invalidateQueries({ queryKey: queryKeys.contributions.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.super.caps });
+      queryClient.invalidateQueries({ queryKey: queryKeys.super.fees });
       queryClient.invalidateQueries({ queryKey: queryKeys.holdings.all });
 
       showSuccess("Snapshot updated successfully");
@@ -374,11 +445,11 @@ export function EditSnapshotModal({
                           )}
                           {contribution
                             ? showContributions
-                              ? "Hide Contributions"
-                              : "Edit Contributions"
+                              ? "Hide Contributions & Fees"
+                              : "Edit Contributions & Fees"
                             : showContributions
-                              ? "Hide Contributions"
-                              : "Add Contributions"}
+                              ? "Hide Contributions & Fees"
+                              : "Add Contributions & Fees"}
                         </button>
 
                         {showContributions && (
@@ -395,6 +466,21 @@ export function EditSnapshotModal({
                               type="number"
                               placeholder="0.00"
                             />
+                            <FormField<FormValues>
+                              name="nonConcessionalContrib"
+                              label={`After-tax Contribution (${currencySymbol})`}
+                              type="number"
+                              placeholder="0.00"
+                            />
+                            {SUPER_DEDUCTION_FIELDS.map((field) => (
+                              <FormField<FormValues>
+                                key={field}
+                                name={field}
+                                label={`${SUPER_DEDUCTION_LABELS[field]} (${currencySymbol})`}
+                                type="number"
+                                placeholder="0.00"
+                              />
+                            ))}
                           </div>
                         )}
                       </>
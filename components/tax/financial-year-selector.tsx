@@ -0,0 +1,57 @@
+"use client";
+
+import { CalendarRange } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { formatFinancialYear } from "@/lib/utils/financial-year";
+
+interface FinancialYearSelectorProps {
+  /** Selected financial year (ending year) */
+  value: number;
+  /** Financial years to offer, in display order */
+  years: number[];
+  onChange: (value: number) => void;
+  className?: string;
+}
+
+/**
+ * Dropdown for choosing an Australian financial year (e.g. "FY2025-26").
+ * The selected value is always shown, even if it is not in `years`.
+ */
+export function FinancialYearSelector({
+  value,
+  years,
+  onChange,
+  className,
+}: FinancialYearSelectorProps) {
+  const options = years.includes(value)
+    ? years
+    : [value, ...years].sort((a, b) => b - a);
+
+  return (
+    <div className={className}>
+      <Select value={String(value)} onValueChange={(v) => onChange(Number(v))}>
+        <SelectTrigger className="w-[180px] h-9 bg-card border border-border text-foreground">
+          <CalendarRange className="h-4 w-4 mr-2 text-muted-foreground" />
+          <SelectValue placeholder="Financial year" />
+        </SelectTrigger>
+        <SelectContent className="bg-card border-border">
+          {options.map((year) => (
+            <SelectItem
+              key={year}
+              value={String(year)}
+              className="text-foreground focus:bg-accent/10 focus:text-foreground"
+            >
+              {formatFinancialYear(year)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
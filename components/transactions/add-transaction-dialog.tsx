@@ -17,6 +17,7 @@ import {
 } from "@/components/ui/animated-dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Select,
   SelectContent,
@@ -34,6 +35,7 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { TypeSelector, type TransactionType } from "./type-selector";
+import { LotSelector, type OpenLot } from "./lot-selector";
 import { isTradeable as isTradeableType } from "@/lib/constants";
 import { queryKeys } from "@/lib/query-keys";
 import type { Holding } from "@/lib/db/schema";
@@ -57,6 +59,24 @@ const formSchema = z.object({
     .number()
     .min(0, "Fees must be non-negative")
     .default(0),
+  frankingPercent: z.coerce
+    .number()
+    .min(0, "Franking must be between 0 and 100")
+    .max(100, "Franking must be between 0 and 100")
+    .default(0),
+  withholdingTax: z.coerce
+    .number()
+    .min(0, "Withholding tax must be non-negative")
+    .default(0),
+  isDrp: z.boolean().default(false),
+  drpUnitPrice: z.coerce
+    .number()
+    .min(0, "DRP price must be non-negative")
+    .default(0),
+  drpQuantity: z.coerce
+    .number()
+    .min(0, "DRP units must be non-negative")
+    .default(0),
 });
 
 type FormValues = z.infer<typeof formSchema>;
@@ -82,6 +102,13 @@ async function fetchHoldingQuantity(holdingId: string): Promise<number> {
   return data.quantity;
 }
 
+async function fetchOpenLots(holdingId: string, asOf: string): Promise<OpenLot[]> {
+  const response = await fetch(`/api/holdings/${holdingId}/lots?as_of=${asOf}`);
+  if (!response.ok) throw new Error("Failed to fetch lots");
+  const data = await response.json();
+  return data.lots;
+}
+
 interface CreateTransactionData {
   holding_id: string;
   date: string;
@@ -91,6 +118,12 @@ interface CreateTransactionData {
   fees: string;
   currency: string;
   notes?: string;
+  lot_selections?: Array<{ lot_transaction_id: string; quantity: string }>;
+  franking_percent?: string;
+  withholding_tax?: string;
+  is_drp?: boolean;
+  drp_quantity?: string;
+  drp_unit_price?: string;
 }
 
 async function createTransaction(data: CreateTransactionData) {
@@ -129,6 +162,8 @@ export function AddTransactionDialog({
   const [selectedAction, setSelectedAction] = useState<TransactionType | "">(
     ""
   );
+  const [lotQuantities, setLotQuantities] = useState<Record<string, string>>({});
+  const [lotError, setLotError] = useState<string | undefined>();
 
   const queryClient = useQueryClient();
 
@@ -157,12 +192,41 @@ export function AddTransactionDialog({
       unitPrice: undefined as unknown as number,
       fees: 0,
       notes: "",
+      frankingPercent: 0,
+      withholdingTax: 0,
+      isDrp: false,
+      drpUnitPrice: undefined as unknown as number,
+      drpQuantity: undefined as unknown as number,
     },
   });
 
+  const watchDate = form.watch("date");
   const watchQuantity = form.watch("quantity");
   const watchUnitPrice = form.watch("unitPrice");
   const watchFees = form.watch("fees");
+  const watchWithholdingTax = form.watch("withholdingTax");
+  const watchIsDrp = form.watch("isDrp");
+  const watchDrpUnitPrice = form.watch("drpUnitPrice");
+
+  // Whole units a DRP can allot from the dividend after withholding tax
+  const suggestedDrpUnits = useMemo(() => {
+    const netCash =
+      (Number(watchQuantity) || 0) * (Number(watchUnitPrice) || 0) -
+      (Number(watchWithholdingTax) || 0);
+    const drpPrice = Number(watchDrpUnitPrice) || 0;
+    if (netCash <= 0 || drpPrice <= 0) return null;
+    return Math.floor(netCash / drpPrice);
+  }, [watchQuantity, watchUnitPrice, watchWithholdingTax, watchDrpUnitPrice]);
+
+  // Specific-lot holdings pick the lots each SELL closes
+  const isSpecificLotSell =
+    selectedAction === "SELL" && selectedHolding?.costBasisMethod === "specific_lot";
+
+  const { data: openLots, isLoading: lotsLoading } = useQuery({
+    queryKey: queryKeys.holdings.lots(selectedHoldingId, watchDate),
+    queryFn: () => fetchOpenLots(selectedHoldingId, watchDate),
+    enabled: open && step === 2 && isSpecificLotSell && !!watchDate,
+  });
 
   // Calculated total
   const calculatedTotal = useMemo(() => {
@@ -196,11 +260,26 @@ export function AddTransactionDialog({
       queryClient.invalidateQueries({
         queryKey: queryKeys.holdings.quantity(selectedHoldingId),
       });
+      queryClient.invalidateQueries({ queryKey: queryKeys.returns.all });
+      if (isSpecificLotSell) {
+        // Open lots (keyed by date) and cost basis change with the sale
+        queryClient.invalidateQueries({ queryKey: queryKeys.holdings.all });
+      }
+      if (selectedAction === "DIVIDEND") {
+        queryClient.invalidateQueries({
+          queryKey: queryKeys.holdings.dividends(selectedHoldingId),
+        });
+        queryClient.invalidateQueries({ queryKey: queryKeys.tax.all });
+      }
       toast.success("Transaction added successfully");
       if (data?.id) onTransactionSaved?.(data.id);
       handleClose();
     },
-    onError: (error: { error?: string }) => {
+    onError: (error: { error?: string; errors?: Record<string, string> }) => {
+      if (error.errors?.lot_selections) {
+        setLotError(error.errors.lot_selections);
+        return;
+      }
       toast.error(error.error || "Failed to add transaction");
     },
   });
@@ -214,12 +293,19 @@ export function AddTransactionDialog({
     setStep(1);
     setSelectedHoldingId(defaultHoldingId || "");
     setSelectedAction("");
+    setLotQuantities({});
+    setLotError(undefined);
     form.reset({
       date: new Date().toISOString().split("T")[0],
       quantity: undefined as unknown as number,
       unitPrice: undefined as unknown as number,
       fees: 0,
       notes: "",
+      frankingPercent: 0,
+      withholdingTax: 0,
+      isDrp: false,
+      drpUnitPrice: undefined as unknown as number,
+      drpQuantity: undefined as unknown as number,
     });
   };
 
@@ -234,12 +320,19 @@ export function AddTransactionDialog({
 
   const handleBack = () => {
     setStep(1);
+    setLotQuantities({});
+    setLotError(undefined);
     form.reset({
       date: new Date().toISOString().split("T")[0],
       quantity: undefined as unknown as number,
       unitPrice: undefined as unknown as number,
       fees: 0,
       notes: "",
+      frankingPercent: 0,
+      withholdingTax: 0,
+      isDrp: false,
+      drpUnitPrice: undefined as unknown as number,
+      drpQuantity: undefined as unknown as number,
     });
   };
 
@@ -259,6 +352,42 @@ export function AddTransactionDialog({
       return;
     }
 
+    if (selectedAction === "DIVIDEND") {
+      if ((values.withholdingTax || 0) > values.quantity * values.unitPrice) {
+        form.setError("withholdingTax", {
+          message: "Withholding tax cannot exceed the dividend",
+        });
+        return;
+      }
+      if (values.isDrp && !(values.drpUnitPrice > 0)) {
+        form.setError("drpUnitPrice", { message: "DRP price must be positive" });
+        return;
+      }
+      if (values.isDrp && !(values.drpQuantity > 0)) {
+        form.setError("drpQuantity", { message: "DRP units must be positive" });
+        return;
+      }
+    }
+
+    let lotSelections: CreateTransactionData["lot_selections"];
+    if (isSpecificLotSell) {
+      lotSelections = Object.entries(lotQuantities)
+        .filter(([, qty]) => Number(qty) > 0)
+        .map(([lotTransactionId, qty]) => ({
+          lot_transaction_id: lotTransactionId,
+          quantity: qty,
+        }));
+      const selectedTotal = lotSelections.reduce(
+        (sum, s) => sum + Number(s.quantity),
+        0
+      );
+      if (Math.abs(selectedTotal - values.quantity) > 0.00000001) {
+        setLotError("Selected lot quantities must add up to the sell quantity");
+        return;
+      }
+      setLotError(undefined);
+    }
+
     const unitPrice =
       selectedAction === "SPLIT" ? "0" : String(values.unitPrice || 0);
     const fees =
@@ -275,6 +404,18 @@ export function AddTransactionDialog({
       fees,
       currency: selectedHolding?.currency || "AUD",
       notes: values.notes?.trim() || undefined,
+      lot_selections: lotSelections,
+      ...(selectedAction === "DIVIDEND" && {
+        franking_percent: values.frankingPercent
+          ? String(values.frankingPercent)
+          : undefined,
+        withholding_tax: values.withholdingTax
+          ? String(values.withholdingTax)
+          : undefined,
+        is_drp: values.isDrp || undefined,
+        drp_quantity: values.isDrp ? String(values.drpQuantity) : undefined,
+        drp_unit_price: values.isDrp ? String(values.drpUnitPrice) : undefined,
+      }),
     });
   };
 
@@ -543,6 +684,22 @@ export function AddTransactionDialog({
                   )}
                 />
 
+                {/* Lot picker for specific-lot SELLs */}
+                {isSpecificLotSell && (
+                  <LotSelector
+                    lots={openLots}
+                    isLoading={lotsLoading}
+                    currency={selectedHolding?.currency ?? ""}
+                    value={lotQuantities}
+                    onChange={(next) => {
+                      setLotQuantities(next);
+                      setLotError(undefined);
+                    }}
+                    sellQuantity={Number(watchQuantity) || 0}
+                    error={lotError}
+                  />
+                )}
+
                 {/* Unit Price field (not for SPLIT) */}
                 {!isSplit && (
                   <FormField
@@ -611,6 +768,159 @@ export function AddTransactionDialog({
                   />
                 )}
 
+                {/* Franking and withholding tax (only for DIVIDEND) */}
+                {isDividend && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="frankingPercent"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Franked (%)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              step="any"
+                              min="0"
+                              max="100"
+                              placeholder="0"
+                              {...field}
+                              value={field.value ?? ""}
+                              onChange={(e) =>
+                                field.onChange(
+                                  e.target.value === ""
+                                    ? ""
+                                    : e.target.value
+                                )
+                              }
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="withholdingTax"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>
+                            Tax Withheld ({selectedHolding?.currency})
+                          </FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              step="any"
+                              min="0"
+                              placeholder="0.00"
+                              {...field}
+                              value={field.value ?? ""}
+                              onChange={(e) =>
+                                field.onChange(
+                                  e.target.value === ""
+                                    ? ""
+                                    : e.target.value
+                                )
+                              }
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                )}
+
+                {/* Dividend reinvestment plan (only for DIVIDEND) */}
+                {isDividend && (
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="is-drp"
+                      checked={watchIsDrp}
+                      onCheckedChange={(checked) =>
+                        form.setValue("isDrp", checked === true)
+                      }
+                    />
+                    <label
+                      htmlFor="is-drp"
+                      className="text-sm font-medium leading-none cursor-pointer"
+                    >
+                      Reinvested through a DRP
+                    </label>
+                  </div>
+                )}
+
+                {isDividend && watchIsDrp && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="drpUnitPrice"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>
+                            DRP Price ({selectedHolding?.currency})
+                          </FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              step="any"
+                              min="0"
+                              placeholder="0.00"
+                              {...field}
+                              value={field.value ?? ""}
+                              onChange={(e) =>
+                                field.onChange(
+                                  e.target.value === ""
+                                    ? ""
+                                    : e.target.value
+                                )
+                              }
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="drpQuantity"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Units Allotted</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              step="any"
+                              min="0"
+                              placeholder={
+                                suggestedDrpUnits !== null
+                                  ? String(suggestedDrpUnits)
+                                  : "0"
+                              }
+                              {...field}
+                              value={field.value ?? ""}
+                              onChange={(e) =>
+                                field.onChange(
+                                  e.target.value === ""
+                                    ? ""
+                                    : e.target.value
+                                )
+                              }
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormDescription className="col-span-2">
+                      A BUY of these units at the DRP price is added
+                      automatically.
+                      {suggestedDrpUnits !== null &&
+                        ` The dividend covers ${suggestedDrpUnits} whole units.`}
+                    </FormDescription>
+                  </div>
+                )}
+
                 {/* Notes field */}
                 <FormField
                   control={form.control}
@@ -689,7 +999,8 @@ export function AddTransactionDialog({
                   type="submit"
                   disabled={
                     mutation.isPending ||
-                    (selectedAction === "SELL" && quantityLoading)
+                    (selectedAction === "SELL" && quantityLoading) ||
+                    (isSpecificLotSell && lotsLoading)
                   }
                 >
                   {mutation.isPending ? "Saving..." : "Save"}
@@ -3,6 +3,7 @@
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { showSuccessWithUndo, showError } from "@/lib/toast-helpers";
 import { queryKeys } from "@/lib/query-keys";
+import type { Currency } from "@/lib/constants";
 import {
   AnimatedAlertDialog,
   AnimatedAlertDialogAction,
@@ -22,7 +23,7 @@ interface TransactionWithHolding {
   quantity: string;
   unitPrice: string;
   fees: string;
-  currency: "AUD" | "NZD" | "USD";
+  currency: Currency;
   notes: string | null;
   holding: {
     id: string;
@@ -119,6 +120,7 @@ export function DeleteTransactionDialog({
       queryClient.invalidateQueries({
         queryKey: queryKeys.holdings.quantity(transaction.holdingId),
       });
+      queryClient.invalidateQueries({ queryKey: queryKeys.returns.all });
       showSuccessWithUndo("Transaction deleted", async () => {
         await fetch(`/api/transactions/${transaction.id}/restore`, {
           method: "PATCH",
@@ -27,6 +27,7 @@ import {
 } from "@/components/ui/form";
 import { TypeSelector } from "./type-selector";
 import { queryKeys } from "@/lib/query-keys";
+import type { Currency } from "@/lib/constants";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -40,8 +41,11 @@ interface TransactionWithHolding {
   quantity: string;
   unitPrice: string;
   fees: string;
-  currency: "AUD" | "NZD" | "USD";
+  currency: Currency;
   notes: string | null;
+  frankingPercent?: string | null;
+  withholdingTax?: string | null;
+  isDrp?: boolean;
   holding: {
     id: string;
     name: string;
@@ -75,6 +79,15 @@ const formSchema = z.object({
     .number()
     .min(0, "Fees must be non-negative")
     .default(0),
+  frankingPercent: z.coerce
+    .number()
+    .min(0, "Franking must be between 0 and 100")
+    .max(100, "Franking must be between 0 and 100")
+    .default(0),
+  withholdingTax: z.coerce
+    .number()
+    .min(0, "Withholding tax must be non-negative")
+    .default(0),
 });
 
 type FormValues = z.infer<typeof formSchema>;
@@ -98,6 +111,8 @@ interface UpdateTransactionData {
   unit_price?: string;
   fees?: string;
   notes?: string;
+  franking_percent?: string | null;
+  withholding_tax?: string | null;
 }
 
 async function updateTransaction(id: string, data: UpdateTransactionData) {
@@ -135,6 +150,8 @@ export function EditTransactionDialog({
       unitPrice: Number(transaction.unitPrice),
       fees: Number(transaction.fees),
       notes: transaction.notes || "",
+      frankingPercent: Number(transaction.frankingPercent ?? 0),
+      withholdingTax: Number(transaction.withholdingTax ?? 0),
     },
   });
 
@@ -147,6 +164,8 @@ export function EditTransactionDialog({
         unitPrice: Number(transaction.unitPrice),
         fees: Number(transaction.fees),
         notes: transaction.notes || "",
+        frankingPercent: Number(transaction.frankingPercent ?? 0),
+        withholdingTax: Number(transaction.withholdingTax ?? 0),
       });
     }
   }, [open, transaction, form]);
@@ -206,6 +225,13 @@ export function EditTransactionDialog({
       queryClient.invalidateQueries({
         queryKey: queryKeys.holdings.quantity(transaction.holdingId),
       });
+      queryClient.invalidateQueries({ queryKey: queryKeys.returns.all });
+      if (transaction.action === "DIVIDEND") {
+        queryClient.invalidateQueries({
+          queryKey: queryKeys.holdings.dividends(transaction.holdingId),
+        });
+        queryClient.invalidateQueries({ queryKey: queryKeys.tax.all });
+      }
       toast.success("Transaction updated successfully");
       onTransactionSaved?.(transaction.id);
       onOpenChange(false);
@@ -241,12 +267,26 @@ export function EditTransactionDialog({
         ? String(values.fees || 0)
         : "0";
 
+    if (
+      transaction.action === "DIVIDEND" &&
+      (values.withholdingTax || 0) > values.quantity * (values.unitPrice || 0)
+    ) {
+      form.setError("withholdingTax", {
+        message: "Withholding tax cannot exceed the dividend",
+      });
+      return;
+    }
+
     mutation.mutate({
       date: values.date,
       quantity: String(values.quantity),
       unit_price: unitPrice,
       fees,
       notes: values.notes?.trim() || undefined,
+      ...(transaction.action === "DIVIDEND" && {
+        franking_percent: values.frankingPercent ? String(values.frankingPercent) : null,
+        withholding_tax: values.withholdingTax ? String(values.withholdingTax) : null,
+      }),
     });
   };
 
@@ -490,6 +530,73 @@ export function EditTransactionDialog({
                 />
               )}
 
+              {/* Franking and withholding tax (only for DIVIDEND) */}
+              {isDividend && (
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="frankingPercent"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Franked (%)</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="any"
+                            min="0"
+                            max="100"
+                            placeholder="0"
+                            {...field}
+                            value={field.value ?? ""}
+                            onChange={(e) =>
+                              field.onChange(
+                                e.target.value === "" ? "" : e.target.value
+                              )
+                            }
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="withholdingTax"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>
+                          Tax Withheld ({transaction.holding.currency})
+                        </FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="any"
+                            min="0"
+                            placeholder="0.00"
+                            {...field}
+                            value={field.value ?? ""}
+                            onChange={(e) =>
+                              field.onChange(
+                                e.target.value === "" ? "" : e.target.value
+                              )
+                            }
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              )}
+
+              {/* DRP note (reinvestment BUY is a separate transaction) */}
+              {isDividend && transaction.isDrp && (
+                <p className="text-sm text-muted-foreground">
+                  Reinvested through a DRP. Edit the matching BUY to change the
+                  units allotted.
+                </p>
+              )}
+
               {/* Notes field */}
               <FormField
                 control={form.control}
@@ -0,0 +1,125 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+
+/** Open lot as returned by GET /api/holdings/:id/lots */
+export interface OpenLot {
+  transactionId: string;
+  date: string;
+  quantity: number;
+  unitPrice: number;
+  fees: number;
+  remainingQuantity: number;
+}
+
+interface LotSelectorProps {
+  lots: OpenLot[] | undefined;
+  isLoading: boolean;
+  currency: string;
+  /** Units to sell from each lot, keyed by lot transaction ID */
+  value: Record<string, string>;
+  onChange: (value: Record<string, string>) => void;
+  /** Quantity entered for the SELL, used to show how much is left to allocate */
+  sellQuantity: number;
+  error?: string;
+}
+
+function formatQuantity(quantity: number): string {
+  return quantity.toLocaleString(undefined, { maximumFractionDigits: 8 });
+}
+
+/**
+ * Lets the user pick which purchase lots a SELL closes, for holdings using
+ * the specific lot cost basis method.
+ */
+export function LotSelector({
+  lots,
+  isLoading,
+  currency,
+  value,
+  onChange,
+  sellQuantity,
+  error,
+}: LotSelectorProps) {
+  const selectedTotal = Object.values(value).reduce(
+    (sum, qty) => sum + (Number(qty) || 0),
+    0
+  );
+  const unallocated = sellQuantity - selectedTotal;
+
+  const setLotQuantity = (transactionId: string, quantity: string) => {
+    onChange({ ...value, [transactionId]: quantity });
+  };
+
+  return (
+    <div className="grid gap-2">
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium">Lots to Sell</label>
+        {sellQuantity > 0 && (
+          <span
+            className={`text-xs font-mono ${Math.abs(unallocated) < 0.00000001 ? "text-positive" : "text-muted-foreground"}`}
+          >
+            {formatQuantity(selectedTotal)} / {formatQuantity(sellQuantity)} selected
+          </span>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading lots...</p>
+      ) : !lots || lots.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No open lots on this date.
+        </p>
+      ) : (
+        <div className="max-h-48 overflow-y-auto rounded-md border border-border divide-y divide-border">
+          {lots.map((lot) => (
+            <div
+              key={lot.transactionId}
+              className="flex items-center gap-3 px-3 py-2"
+            >
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-foreground">
+                  {new Date(lot.date).toLocaleDateString("en-AU", {
+                    day: "numeric",
+                    month: "short",
+                    year: "numeric",
+                  })}
+                </p>
+                <p className="text-xs text-muted-foreground font-mono">
+                  {formatQuantity(lot.remainingQuantity)} @ {currency}{" "}
+                  {lot.unitPrice.toLocaleString(undefined, {
+                    minimumFractionDigits: 2,
+                    maximumFractionDigits: 4,
+                  })}
+                </p>
+              </div>
+              <Input
+                type="number"
+                step="any"
+                min="0"
+                max={lot.remainingQuantity}
+                placeholder="0"
+                className="w-28"
+                value={value[lot.transactionId] ?? ""}
+                onChange={(e) => setLotQuantity(lot.transactionId, e.target.value)}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  setLotQuantity(lot.transactionId, String(lot.remainingQuantity))
+                }
+              >
+                All
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import * as React from "react";
 
 import { cn } from "@/lib/utils";
 import { type Currency } from "@/lib/utils/currency";
+import { CURRENCY_INFO, ENABLED_CURRENCIES } from "@/lib/constants";
 import { useCurrency } from "@/components/providers/currency-provider";
 import {
   Select,
@@ -14,18 +15,19 @@ import {
 } from "@/components/ui/select";
 
 /**
- * Currency options with display information.
+ * Currency options with display information, one per enabled currency.
  */
 const CURRENCY_OPTIONS: Array<{
   value: Currency;
   label: string;
   symbol: string;
   flag: string;
-}> = [
-  { value: "AUD", label: "Australian Dollar", symbol: "$", flag: "🇦🇺" },
-  { value: "NZD", label: "New Zealand Dollar", symbol: "NZ$", flag: "🇳🇿" },
-  { value: "USD", label: "US Dollar", symbol: "US$", flag: "🇺🇸" },
-];
+}> = ENABLED_CURRENCIES.map((c) => ({
+  value: c,
+  label: CURRENCY_INFO[c].name,
+  symbol: CURRENCY_INFO[c].symbol,
+  flag: CURRENCY_INFO[c].flag,
+}));
 
 /**
  * Props for the CurrencySelector component.
@@ -72,7 +74,7 @@ function CurrencySelectorSkeleton({ className }: { className?: string }) {
  *
  * Features:
  * - Shows current display currency
- * - Options: AUD, NZD, USD with symbols
+ * - Options: every enabled currency with its flag
  * - Optimistic updates (UI updates immediately, persists async)
  * - Loading skeleton while currency context loads
  *
@@ -3,6 +3,7 @@
 import { motion, useReducedMotion } from "framer-motion";
 import { cn } from "@/lib/utils";
 import { type Currency } from "@/lib/utils/currency";
+import { CURRENCY_INFO, ENABLED_CURRENCIES } from "@/lib/constants";
 import { useCurrency } from "@/components/providers/currency-provider";
 import { useRovingTabIndex } from "@/hooks/use-roving-tabindex";
 
@@ -10,11 +11,11 @@ const CURRENCY_OPTIONS: Array<{
   value: Currency;
   flag: string;
   label: string;
-}> = [
-  { value: "AUD", flag: "\u{1F1E6}\u{1F1FA}", label: "Australian Dollar" },
-  { value: "NZD", flag: "\u{1F1F3}\u{1F1FF}", label: "New Zealand Dollar" },
-  { value: "USD", flag: "\u{1F1FA}\u{1F1F8}", label: "US Dollar" },
-];
+}> = ENABLED_CURRENCIES.map((c) => ({
+  value: c,
+  flag: CURRENCY_INFO[c].flag,
+  label: CURRENCY_INFO[c].name,
+}));
 
 interface CurrencyToggleProps {
   className?: string;
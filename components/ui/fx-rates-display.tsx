@@ -1,9 +1,10 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { Fragment, useState, useEffect } from "react";
 import { TrendingUp, AlertTriangle, Clock } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useCurrency } from "@/components/providers/currency-provider";
+import { BASE_CURRENCY, ENABLED_CURRENCIES } from "@/lib/constants";
 import {
   Tooltip,
   TooltipContent,
@@ -95,7 +96,8 @@ function CompactSkeleton({ className }: { className?: string }) {
 /**
  * FxRatesDisplay Component
  *
- * Displays current exchange rates (USD/AUD, NZD/AUD) with an "as of" time indicator.
+ * Displays current exchange rates into AUD for each enabled currency with an
+ * "as of" time indicator.
  * Can be used in two modes:
  * - "compact": Shows an icon with a tooltip containing rate details
  * - "inline": Shows rates directly inline with the timestamp
@@ -172,8 +174,7 @@ export function FxRatesDisplay({
     );
   }
 
-  const usdRate = rates["USD/AUD"];
-  const nzdRate = rates["NZD/AUD"];
+  const foreignCurrencies = ENABLED_CURRENCIES.filter((c) => c !== BASE_CURRENCY);
   const fetchedAt = ratesFetchedAt ? formatRelativeTime(ratesFetchedAt) : "unknown";
 
   // Rate display content (shared between modes)
@@ -184,10 +185,14 @@ export function FxRatesDisplay({
         Exchange Rates
       </div>
       <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
-        <span className="text-muted-foreground">1 USD =</span>
-        <span className="font-mono text-foreground">{formatRate(usdRate)} AUD</span>
-        <span className="text-muted-foreground">1 NZD =</span>
-        <span className="font-mono text-foreground">{formatRate(nzdRate)} AUD</span>
+        {foreignCurrencies.map((currency) => (
+          <Fragment key={currency}>
+            <span className="text-muted-foreground">1 {currency} =</span>
+            <span className="font-mono text-foreground">
+              {formatRate(rates[`${currency}/${BASE_CURRENCY}`])} {BASE_CURRENCY}
+            </span>
+          </Fragment>
+        ))}
       </div>
       {isStale && (
         <p className="text-body-sm text-warning font-medium">
@@ -0,0 +1,3 @@
+CREATE TYPE "public"."cost_basis_method" AS ENUM('fifo', 'average', 'hifo', 'specific_lot');--> statement-breakpoint
+ALTER TABLE "holdings" ADD COLUMN "cost_basis_method" "cost_basis_method" DEFAULT 'fifo' NOT NULL;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "lot_selections" jsonb;
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "transactions" ADD COLUMN "franking_percent" numeric(5, 2);--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "franking_credit" numeric(18, 8);--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "withholding_tax" numeric(18, 8);--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "is_drp" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "dividend_transaction_id" uuid;--> statement-breakpoint
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_dividend_transaction_id_transactions_id_fk" FOREIGN KEY ("dividend_transaction_id") REFERENCES "public"."transactions"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
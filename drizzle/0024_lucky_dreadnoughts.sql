@@ -0,0 +1,10 @@
+CREATE TABLE "price_history" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"symbol" text NOT NULL,
+	"date" date NOT NULL,
+	"close" numeric(20, 8) NOT NULL,
+	"currency" "currency" NOT NULL,
+	"source" "price_cache_source" NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "price_history_symbol_date_unique" UNIQUE("symbol","date")
+);
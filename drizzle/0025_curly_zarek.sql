@@ -0,0 +1,11 @@
+CREATE TYPE "public"."exchange_rate_source" AS ENUM('exchangerate-api', 'frankfurter');--> statement-breakpoint
+CREATE TABLE "exchange_rate_history" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"from_currency" "currency" NOT NULL,
+	"to_currency" "currency" NOT NULL,
+	"date" date NOT NULL,
+	"rate" numeric(18, 8) NOT NULL,
+	"source" "exchange_rate_source" NOT NULL,
+	"fetched_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "exchange_rate_history_from_currency_to_currency_date_unique" UNIQUE("from_currency","to_currency","date")
+);
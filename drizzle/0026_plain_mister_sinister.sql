@@ -0,0 +1,10 @@
+CREATE TYPE "public"."depreciation_method" AS ENUM('diminishing_value', 'prime_cost');--> statement-breakpoint
+ALTER TYPE "public"."holding_type" ADD VALUE 'property';--> statement-breakpoint
+ALTER TYPE "public"."holding_type" ADD VALUE 'vehicle';--> statement-breakpoint
+ALTER TABLE "holdings" ADD COLUMN "purchase_price" numeric(18, 2);--> statement-breakpoint
+ALTER TABLE "holdings" ADD COLUMN "purchase_costs" numeric(18, 2);--> statement-breakpoint
+ALTER TABLE "holdings" ADD COLUMN "purchase_date" date;--> statement-breakpoint
+ALTER TABLE "holdings" ADD COLUMN "linked_debt_id" uuid;--> statement-breakpoint
+ALTER TABLE "holdings" ADD COLUMN "depreciation_method" "depreciation_method";--> statement-breakpoint
+ALTER TABLE "holdings" ADD COLUMN "depreciation_rate" numeric(5, 2);--> statement-breakpoint
+ALTER TABLE "holdings" ADD CONSTRAINT "holdings_linked_debt_id_holdings_id_fk" FOREIGN KEY ("linked_debt_id") REFERENCES "public"."holdings"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
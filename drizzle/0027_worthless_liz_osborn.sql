@@ -0,0 +1,7 @@
+ALTER TYPE "public"."currency" ADD VALUE 'GBP';--> statement-breakpoint
+ALTER TYPE "public"."currency" ADD VALUE 'EUR';--> statement-breakpoint
+ALTER TYPE "public"."currency" ADD VALUE 'JPY';--> statement-breakpoint
+ALTER TYPE "public"."currency" ADD VALUE 'CAD';--> statement-breakpoint
+ALTER TYPE "public"."currency" ADD VALUE 'CHF';--> statement-breakpoint
+ALTER TYPE "public"."currency" ADD VALUE 'SGD';--> statement-breakpoint
+ALTER TYPE "public"."currency" ADD VALUE 'HKD';
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TYPE "public"."allocation_scope" AS ENUM('asset_type', 'holding', 'bucket');--> statement-breakpoint
+CREATE TABLE "allocation_targets" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"scope" "allocation_scope" NOT NULL,
+	"asset_type" "holding_type",
+	"holding_id" uuid,
+	"bucket_name" text,
+	"bucket_holding_ids" jsonb,
+	"target_percent" numeric(5, 2) NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "allocation_targets" ADD CONSTRAINT "allocation_targets_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "allocation_targets" ADD CONSTRAINT "allocation_targets_holding_id_holdings_id_fk" FOREIGN KEY ("holding_id") REFERENCES "public"."holdings"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "allocation_targets_user_scope_idx" ON "allocation_targets" USING btree ("user_id","scope");
\ No newline at end of file
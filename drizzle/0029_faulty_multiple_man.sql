@@ -0,0 +1,6 @@
+CREATE TYPE "public"."price_provider" AS ENUM('yahoo', 'coingecko', 'manual', 'derived');--> statement-breakpoint
+ALTER TYPE "public"."price_cache_source" ADD VALUE 'manual';--> statement-breakpoint
+ALTER TYPE "public"."price_cache_source" ADD VALUE 'derived';--> statement-breakpoint
+ALTER TABLE "holdings" ADD COLUMN "price_provider" "price_provider";--> statement-breakpoint
+ALTER TABLE "holdings" ADD COLUMN "price_source_symbol" text;--> statement-breakpoint
+ALTER TABLE "holdings" ADD COLUMN "price_ratio" numeric(18, 8);
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TYPE "public"."corporate_action_type" AS ENUM('symbol_change', 'merger', 'spin_off', 'return_of_capital');--> statement-breakpoint
+CREATE TABLE "corporate_actions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"holding_id" uuid NOT NULL,
+	"target_holding_id" uuid,
+	"type" "corporate_action_type" NOT NULL,
+	"date" date NOT NULL,
+	"ratio" numeric(18, 8),
+	"cash_per_unit" numeric(18, 8),
+	"cost_base_percent" numeric(5, 2),
+	"old_symbol" text,
+	"new_symbol" text,
+	"notes" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"deleted_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "corporate_actions" ADD CONSTRAINT "corporate_actions_holding_id_holdings_id_fk" FOREIGN KEY ("holding_id") REFERENCES "public"."holdings"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "corporate_actions" ADD CONSTRAINT "corporate_actions_target_holding_id_holdings_id_fk" FOREIGN KEY ("target_holding_id") REFERENCES "public"."holdings"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
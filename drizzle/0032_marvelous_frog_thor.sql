@@ -0,0 +1,2 @@
+ALTER TABLE "holdings" ADD COLUMN "settlement_holding_id" uuid;--> statement-breakpoint
+ALTER TABLE "holdings" ADD CONSTRAINT "holdings_settlement_holding_id_holdings_id_fk" FOREIGN KEY ("settlement_holding_id") REFERENCES "public"."holdings"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "user_preferences" ADD COLUMN "benchmark_symbols" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
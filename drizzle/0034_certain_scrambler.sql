@@ -0,0 +1,21 @@
+CREATE TYPE "public"."alert_direction" AS ENUM('above', 'below');--> statement-breakpoint
+CREATE TYPE "public"."alert_rule_type" AS ENUM('price_cross', 'daily_move', 'holding_weight', 'net_worth_cross', 'debt_below');--> statement-breakpoint
+CREATE TABLE "alert_rules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"type" "alert_rule_type" NOT NULL,
+	"holding_id" uuid,
+	"direction" "alert_direction",
+	"threshold" numeric(18, 4) NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"condition_met" boolean DEFAULT false NOT NULL,
+	"last_triggered_at" timestamp with time zone,
+	"last_triggered_value" numeric(18, 4),
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"deleted_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "alert_rules" ADD CONSTRAINT "alert_rules_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alert_rules" ADD CONSTRAINT "alert_rules_holding_id_holdings_id_fk" FOREIGN KEY ("holding_id") REFERENCES "public"."holdings"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "alert_rules_user_idx" ON "alert_rules" USING btree ("user_id");
\ No newline at end of file
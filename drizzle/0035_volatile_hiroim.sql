@@ -0,0 +1 @@
+ALTER TABLE "user_preferences" ADD COLUMN "projection_settings" jsonb;
\ No newline at end of file
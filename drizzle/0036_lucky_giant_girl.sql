@@ -0,0 +1 @@
+ALTER TABLE "contributions" ADD COLUMN "non_concessional_contrib" numeric(18, 2) DEFAULT '0' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "contributions" ADD COLUMN "admin_fees" numeric(18, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "contributions" ADD COLUMN "investment_fees" numeric(18, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "contributions" ADD COLUMN "insurance_premiums" numeric(18, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "contributions" ADD COLUMN "contributions_tax" numeric(18, 2) DEFAULT '0' NOT NULL;
\ No newline at end of file
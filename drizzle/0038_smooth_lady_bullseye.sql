@@ -0,0 +1,8 @@
+CREATE TYPE "public"."repayment_frequency" AS ENUM('weekly', 'fortnightly', 'monthly');--> statement-breakpoint
+ALTER TABLE "holdings" ADD COLUMN "interest_rate" numeric(6, 3);--> statement-breakpoint
+ALTER TABLE "holdings" ADD COLUMN "repayment_amount" numeric(18, 2);--> statement-breakpoint
+ALTER TABLE "holdings" ADD COLUMN "repayment_frequency" "repayment_frequency";--> statement-breakpoint
+ALTER TABLE "holdings" ADD COLUMN "loan_start_date" date;--> statement-breakpoint
+ALTER TABLE "holdings" ADD COLUMN "loan_term_months" integer;--> statement-breakpoint
+ALTER TABLE "holdings" ADD COLUMN "offset_holding_id" uuid;--> statement-breakpoint
+ALTER TABLE "holdings" ADD CONSTRAINT "holdings_offset_holding_id_holdings_id_fk" FOREIGN KEY ("offset_holding_id") REFERENCES "public"."holdings"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TYPE "public"."rule_match_field" AS ENUM('description', 'raw_text', 'up_category_id');--> statement-breakpoint
+CREATE TYPE "public"."rule_match_type" AS ENUM('contains', 'exact', 'regex');--> statement-breakpoint
+CREATE TABLE "categorisation_rules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"priority" integer NOT NULL,
+	"match_field" "rule_match_field" NOT NULL,
+	"match_type" "rule_match_type" NOT NULL,
+	"pattern" varchar(255) NOT NULL,
+	"min_amount_cents" bigint,
+	"max_amount_cents" bigint,
+	"up_account_id" varchar(255),
+	"is_transfer" boolean,
+	"mjolnir_category_id" varchar(255),
+	"saver_key" varchar(50),
+	"category_key" varchar(50),
+	"tags" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "up_transactions" ADD COLUMN "up_account_id" varchar(255);--> statement-breakpoint
+CREATE INDEX "categorisation_rules_priority_idx" ON "categorisation_rules" USING btree ("priority");
\ No newline at end of file
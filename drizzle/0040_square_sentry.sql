@@ -0,0 +1,26 @@
+CREATE TABLE "recategorisation_batches" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"start_date" date NOT NULL,
+	"end_date" date NOT NULL,
+	"changed_count" integer NOT NULL,
+	"undone_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "recategorisation_changes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"batch_id" uuid NOT NULL,
+	"transaction_id" uuid NOT NULL,
+	"previous_mjolnir_category_id" varchar(255),
+	"previous_saver_key" varchar(50),
+	"previous_category_key" varchar(50),
+	"previous_tags" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"new_mjolnir_category_id" varchar(255),
+	"new_saver_key" varchar(50),
+	"new_category_key" varchar(50),
+	"new_tags" jsonb DEFAULT '[]'::jsonb NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "recategorisation_changes" ADD CONSTRAINT "recategorisation_changes_batch_id_recategorisation_batches_id_fk" FOREIGN KEY ("batch_id") REFERENCES "public"."recategorisation_batches"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recategorisation_changes" ADD CONSTRAINT "recategorisation_changes_transaction_id_up_transactions_id_fk" FOREIGN KEY ("transaction_id") REFERENCES "public"."up_transactions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "recategorisation_changes_batch_idx" ON "recategorisation_changes" USING btree ("batch_id");
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TYPE "public"."correction_suggestion_status" AS ENUM('accepted', 'dismissed');--> statement-breakpoint
+CREATE TABLE "correction_suggestion_decisions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"merchant_pattern" varchar(512) NOT NULL,
+	"saver_key" varchar(50) NOT NULL,
+	"category_key" varchar(50) NOT NULL,
+	"status" "correction_suggestion_status" NOT NULL,
+	"rule_id" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "correction_suggestion_decisions_merchant_pattern_saver_key_category_key_unique" UNIQUE("merchant_pattern","saver_key","category_key")
+);
+--> statement-breakpoint
+ALTER TABLE "correction_suggestion_decisions" ADD CONSTRAINT "correction_suggestion_decisions_rule_id_categorisation_rules_id_fk" FOREIGN KEY ("rule_id") REFERENCES "public"."categorisation_rules"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,6 @@
+CREATE TYPE "public"."pay_cycle" AS ENUM('weekly', 'fortnightly', 'monthly', 'last_business_day');--> statement-breakpoint
+ALTER TABLE "payday_config" ADD COLUMN "cycle" "pay_cycle" DEFAULT 'monthly' NOT NULL;--> statement-breakpoint
+ALTER TABLE "payday_config" ADD COLUMN "anchor_date" date;--> statement-breakpoint
+ALTER TABLE "payday_config" ADD COLUMN "adjust_for_holidays" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "payday_config" ADD COLUMN "holidays" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "payday_config" ADD COLUMN "expected_income_cents" bigint;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TYPE "public"."income_cadence" AS ENUM('weekly', 'fortnightly', 'monthly');--> statement-breakpoint
+CREATE TYPE "public"."income_source_kind" AS ENUM('salary', 'side_income', 'interest', 'other');--> statement-breakpoint
+CREATE TYPE "public"."income_source_status" AS ENUM('confirmed', 'dismissed');--> statement-breakpoint
+CREATE TABLE "income_sources" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"payer_pattern" varchar(512) NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"kind" "income_source_kind" DEFAULT 'other' NOT NULL,
+	"status" "income_source_status" NOT NULL,
+	"cadence" "income_cadence",
+	"typical_amount_cents" bigint,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "income_sources_payer_pattern_unique" UNIQUE("payer_pattern")
+);
@@ -103,26 +103,49 @@ export function mapCategoryToSaver(
   return MJOLNIR_TO_SAVER_MAP[mjolnirCategoryId] ?? null;
 }
 
+/**
+ * Normalises a deposit description to identify its payer: upper-cased, with
+ * digits (pay references, dates) and punctuation removed. Falls back to the
+ * trimmed, upper-cased description if nothing else is left.
+ *
+ * e.g. "ACME PTY LTD PAY 000123" and "Acme Pty Ltd Pay 000124" both
+ * normalise to "ACME PTY LTD PAY".
+ */
+export function normalisePayer(description: string): string {
+  const upper = description.toUpperCase().trim();
+  const normalised = upper
+    .replace(/[0-9]+/g, " ")
+    .replace(/[^A-Z&' ]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  return normalised || upper;
+}
+
 /**
  * Detects whether a transaction is an income deposit.
  *
  * A transaction is considered income when:
  * 1. The amount is positive (credit), AND
- * 2. Either the description matches the configured income source pattern
- *    (case-insensitive partial match), OR the amount exceeds $2,000 (200000 cents).
+ * 2. Either its payer is a confirmed income source (see `normalisePayer`),
+ *    OR the description matches the configured income source pattern
+ *    (case-insensitive partial match).
+ *
+ * Large credits are not assumed to be income: refunds and transfers in are
+ * often bigger than a pay deposit.
  */
 export function isIncomeTransaction(
   description: string,
   amountCents: number,
-  incomePattern: string | null
+  incomePattern: string | null,
+  incomePayerPatterns: ReadonlySet<string> = new Set()
 ): boolean {
   if (amountCents <= 0) return false;
 
-  if (incomePattern && description.toLowerCase().includes(incomePattern.toLowerCase())) {
+  if (incomePayerPatterns.has(normalisePayer(description))) {
     return true;
   }
 
-  if (amountCents > 200000) {
+  if (incomePattern && description.toLowerCase().includes(incomePattern.toLowerCase())) {
     return true;
   }
 
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { getNationalPublicHolidays } from "@/lib/budget/holidays";
+
+function christmasWeek(year: number): string[] {
+  return getNationalPublicHolidays(year).filter((d) => d.startsWith(`${year}-12-`));
+}
+
+describe("getNationalPublicHolidays", () => {
+  it("observes Christmas on Tuesday when it falls on a Sunday", () => {
+    expect(christmasWeek(2022)).toEqual(["2022-12-25", "2022-12-26", "2022-12-27"]);
+    expect(christmasWeek(2033)).toEqual(["2033-12-25", "2033-12-26", "2033-12-27"]);
+  });
+
+  it("observes Christmas on Monday and Boxing Day on Tuesday when Christmas is a Saturday", () => {
+    expect(christmasWeek(2021)).toEqual([
+      "2021-12-25",
+      "2021-12-26",
+      "2021-12-27",
+      "2021-12-28",
+    ]);
+    expect(christmasWeek(2027)).toEqual([
+      "2027-12-25",
+      "2027-12-26",
+      "2027-12-27",
+      "2027-12-28",
+    ]);
+  });
+
+  it("observes Boxing Day on Monday when it falls on a Saturday", () => {
+    expect(christmasWeek(2026)).toEqual(["2026-12-25", "2026-12-26", "2026-12-28"]);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Australian national public holidays, for moving paydays off non-business
+ * days.
+ *
+ * Covers the holidays observed in every state: New Year's Day, Australia Day,
+ * Good Friday, Easter Monday, Anzac Day, Christmas Day and Boxing Day, with
+ * their weekday substitutes when they fall on a weekend. State holidays
+ * (e.g. the King's Birthday, Melbourne Cup) go in the pay cycle's own
+ * holiday list.
+ *
+ * Test cases:
+ *   - 2026: Good Friday 3 Apr, Easter Monday 6 Apr
+ *   - 2027: Australia Day on Tuesday 26 Jan; Christmas on Saturday, observed
+ *     Monday 27 Dec with Boxing Day on Tuesday 28 Dec
+ *   - 2028: New Year's Day on Saturday, observed Monday 3 Jan
+ *   - 2033: Christmas on Sunday; Boxing Day Monday 26 Dec, Christmas
+ *     observed Tuesday 27 Dec
+ */
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function toIsoDate(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
+  return `${y}-${m}-${d}`;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/**
+ * Easter Sunday for a year (anonymous Gregorian algorithm).
+ */
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Holiday date, moved to the following Monday if it falls on a weekend.
+ */
+function mondayIfWeekend(date: Date): Date {
+  const day = date.getDay();
+  if (day === 6) return addDays(date, 2);
+  if (day === 0) return addDays(date, 1);
+  return date;
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * National public holidays for a year as YYYY-MM-DD dates, including the
+ * weekday a weekend holiday is observed on.
+ */
+export function getNationalPublicHolidays(year: number): string[] {
+  const easter = easterSunday(year);
+  const christmas = new Date(year, 11, 25);
+  const boxingDay = new Date(year, 11, 26);
+
+  const holidays = [
+    new Date(year, 0, 1),
+    mondayIfWeekend(new Date(year, 0, 1)),
+    new Date(year, 0, 26),
+    mondayIfWeekend(new Date(year, 0, 26)),
+    addDays(easter, -2), // Good Friday
+    addDays(easter, 1), // Easter Monday
+    new Date(year, 3, 25), // Anzac Day has no national substitute
+    christmas,
+    boxingDay,
+  ];
+
+  // Christmas on Saturday: observed Monday, Boxing Day Tuesday.
+  // Christmas on Sunday: Boxing Day Monday, Christmas observed Tuesday.
+  if (christmas.getDay() === 6) {
+    holidays.push(new Date(year, 11, 27), new Date(year, 11, 28));
+  } else if (christmas.getDay() === 0) {
+    holidays.push(new Date(year, 11, 27));
+  } else if (boxingDay.getDay() === 6) {
+    holidays.push(new Date(year, 11, 28));
+  }
+
+  return [...new Set(holidays.map(toIsoDate))].sort();
+}
+
+/**
+ * Whether a date is a national public holiday or one of the extra holidays.
+ *
+ * @param extraHolidays - Additional YYYY-MM-DD dates, e.g. state holidays
+ */
+export function isPublicHoliday(date: Date, extraHolidays: string[] = []): boolean {
+  const iso = toIsoDate(date);
+  return (
+    extraHolidays.includes(iso) ||
+    getNationalPublicHolidays(date.getFullYear()).includes(iso)
+  );
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { detectRecurringDeposits, type Deposit } from "@/lib/budget/income";
+
+/** Deposits from one payer every `days` days, starting 2026-01-02. */
+function deposits(description: string, amounts: number[], days = 14): Deposit[] {
+  return amounts.map((amountCents, i) => {
+    const date = new Date(2026, 0, 2 + i * days);
+    const y = date.getFullYear();
+    const m = String(date.getMonth() + 1).padStart(2, "0");
+    const d = String(date.getDate()).padStart(2, "0");
+    return { description, amountCents, transactionDate: `${y}-${m}-${d}` };
+  });
+}
+
+describe("detectRecurringDeposits", () => {
+  it("needs three deposits before suggesting a payer", () => {
+    // Deposits on 2 Jan, 16 Jan (and 30 Jan)
+    const twice = deposits("ACME PTY LTD", [320000, 320000]);
+    expect(detectRecurringDeposits(twice, "2026-02-01")).toEqual([]);
+
+    const [candidate] = detectRecurringDeposits(
+      deposits("ACME PTY LTD", [320000, 320000, 320000]),
+      "2026-02-01"
+    );
+    expect(candidate).toMatchObject({
+      payerPattern: "ACME PTY LTD",
+      cadence: "fortnightly",
+      suggestedKind: "salary",
+      typicalAmountCents: 320000,
+      depositCount: 3,
+      lastDepositDate: "2026-01-30",
+    });
+  });
+
+  it("groups deposits whose descriptions differ only by reference numbers", () => {
+    const varied = [
+      { description: "ACME PTY LTD 0012", amountCents: 320000, transactionDate: "2026-01-02" },
+      { description: "ACME PTY LTD 0013", amountCents: 310000, transactionDate: "2026-01-16" },
+      { description: "ACME PTY LTD 0014", amountCents: 330000, transactionDate: "2026-01-30" },
+    ];
+    expect(detectRecurringDeposits(varied, "2026-02-01")).toHaveLength(1);
+  });
+
+  it("skips payers whose amounts vary too much", () => {
+    const amounts = [320000, 90000, 450000, 320000];
+    expect(detectRecurringDeposits(deposits("ACME PTY LTD", amounts), "2026-02-20")).toEqual([]);
+  });
+
+  it("skips payers with no regular cadence", () => {
+    const irregular = deposits("SIDE GIG", [5000, 5000, 5000, 5000], 23);
+    expect(detectRecurringDeposits(irregular, "2026-03-15")).toEqual([]);
+  });
+
+  it("skips payers that stopped paying more than two cycles ago", () => {
+    // Last deposit 30 Jan; fortnightly allows 30 days (two cycles plus slack)
+    const stopped = deposits("ACME PTY LTD", [320000, 320000, 320000]);
+    expect(detectRecurringDeposits(stopped, "2026-03-01")).toHaveLength(1);
+    expect(detectRecurringDeposits(stopped, "2026-03-02")).toEqual([]);
+  });
+});
@@ -0,0 +1,363 @@
+/**
+ * Income sources: learns recurring deposits from transaction history (same
+ * payer, regular cadence, similar amounts) for the user to confirm, and
+ * totals income per confirmed source for the budget summary.
+ */
+
+import { db } from "@/lib/db";
+import {
+  upTransactions,
+  incomeSources,
+  classificationCorrections,
+  type IncomeSource,
+  type NewIncomeSource,
+} from "@/lib/db/schema";
+import { and, asc, eq, gt, gte, inArray, isNull, lte, ne, or } from "drizzle-orm";
+import { mapCategoryToSaver, normalisePayer } from "@/lib/budget/categorisation";
+import { formatDate } from "@/lib/budget/payday";
+import type { IncomeCadence, IncomeSourceKind } from "@/lib/constants";
+
+// Days of deposits searched for recurring payers
+const DETECTION_WINDOW_DAYS = 180;
+
+// Deposits needed before a payer can be suggested
+const MIN_DEPOSITS = 3;
+
+// Share of gaps between deposits that must match the cadence
+const MIN_REGULAR_SHARE = 2 / 3;
+
+// Share of deposits that must be within AMOUNT_TOLERANCE of the typical amount
+const MIN_SIMILAR_SHARE = 0.75;
+const AMOUNT_TOLERANCE = 0.25;
+
+// Typical deposit above which a regular payer is suggested as salary ($1,000)
+const SALARY_MIN_CENTS = 100000;
+
+/** Expected days between deposits at each cadence, and the slack allowed. */
+const CADENCE_DAYS: Record<IncomeCadence, { days: number; tolerance: number }> = {
+  weekly: { days: 7, tolerance: 1 },
+  fortnightly: { days: 14, tolerance: 2 },
+  monthly: { days: 30, tolerance: 4 },
+};
+
+// Rows per update when marking a source's deposits as income
+const UPDATE_CHUNK = 500;
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface Deposit {
+  description: string;
+  amountCents: number;
+  transactionDate: string; // YYYY-MM-DD
+}
+
+/** A payer whose deposits look like recurring income. */
+export interface IncomeCandidate {
+  payerPattern: string;
+  suggestedName: string;
+  suggestedKind: IncomeSourceKind;
+  cadence: IncomeCadence;
+  typicalAmountCents: number;
+  depositCount: number;
+  lastDepositDate: string;
+  exampleDescriptions: string[];
+}
+
+/** Income received from one source in a period. */
+export interface IncomeSourceTotal {
+  /** Null for income that matched no confirmed source */
+  sourceId: string | null;
+  name: string;
+  kind: IncomeSourceKind;
+  actualCents: number;
+  depositCount: number;
+}
+
+export interface IncomeBreakdown {
+  actualCents: number;
+  sources: IncomeSourceTotal[];
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function daysBetween(start: string, end: string): number {
+  const s = new Date(start + "T00:00:00");
+  const e = new Date(end + "T00:00:00");
+  return Math.round((e.getTime() - s.getTime()) / (1000 * 60 * 60 * 24));
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function titleCase(pattern: string): string {
+  return pattern
+    .toLowerCase()
+    .replace(/\b[a-z]/g, (c) => c.toUpperCase())
+    .slice(0, 100);
+}
+
+function suggestKind(payerPattern: string, typicalAmountCents: number): IncomeSourceKind {
+  if (/\bINTEREST\b/.test(payerPattern)) return "interest";
+  if (typicalAmountCents >= SALARY_MIN_CENTS) return "salary";
+  return "side_income";
+}
+
+/**
+ * The cadence a payer's deposit dates follow, or null if they are irregular.
+ */
+function detectCadence(dates: string[]): IncomeCadence | null {
+  const gaps = dates.slice(1).map((date, i) => daysBetween(dates[i], date));
+  const typicalGap = median(gaps);
+
+  for (const [cadence, { days, tolerance }] of Object.entries(CADENCE_DAYS)) {
+    if (Math.abs(typicalGap - days) > tolerance) continue;
+    const regular = gaps.filter((gap) => Math.abs(gap - days) <= tolerance).length;
+    return regular / gaps.length >= MIN_REGULAR_SHARE ? (cadence as IncomeCadence) : null;
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Detection (pure)
+// ---------------------------------------------------------------------------
+
+/**
+ * Finds payers among the deposits that pay on a regular cadence in similar
+ * amounts, and are still paying as of the given date.
+ *
+ * @param deposits - Credits to search, any order
+ * @param asOf - YYYY-MM-DD; payers with no deposit for two cycles are skipped
+ * @returns Candidates, largest typical deposit first
+ */
+export function detectRecurringDeposits(deposits: Deposit[], asOf: string): IncomeCandidate[] {
+  const byPayer = new Map<string, Deposit[]>();
+  for (const deposit of deposits) {
+    if (deposit.amountCents <= 0) continue;
+    const payer = normalisePayer(deposit.description);
+    byPayer.set(payer, [...(byPayer.get(payer) ?? []), deposit]);
+  }
+
+  const candidates: IncomeCandidate[] = [];
+
+  for (const [payerPattern, payerDeposits] of byPayer) {
+    const dates = [...new Set(payerDeposits.map((d) => d.transactionDate))].sort();
+    if (dates.length < MIN_DEPOSITS) continue;
+
+    const cadence = detectCadence(dates);
+    if (!cadence) continue;
+
+    const lastDepositDate = dates[dates.length - 1];
+    const { days, tolerance } = CADENCE_DAYS[cadence];
+    if (daysBetween(lastDepositDate, asOf) > days * 2 + tolerance) continue;
+
+    const typicalAmountCents = Math.round(median(payerDeposits.map((d) => d.amountCents)));
+    const similar = payerDeposits.filter(
+      (d) => Math.abs(d.amountCents - typicalAmountCents) <= typicalAmountCents * AMOUNT_TOLERANCE
+    ).length;
+    if (similar / payerDeposits.length < MIN_SIMILAR_SHARE) continue;
+
+    candidates.push({
+      payerPattern,
+      suggestedName: titleCase(payerPattern),
+      suggestedKind: suggestKind(payerPattern, typicalAmountCents),
+      cadence,
+      typicalAmountCents,
+      depositCount: payerDeposits.length,
+      lastDepositDate,
+      exampleDescriptions: [...new Set(payerDeposits.map((d) => d.description))].slice(0, 3),
+    });
+  }
+
+  return candidates.sort((a, b) => b.typicalAmountCents - a.typicalAmountCents);
+}
+
+// ---------------------------------------------------------------------------
+// Database
+// ---------------------------------------------------------------------------
+
+/**
+ * Recurring payers from the last 180 days that have not been confirmed or
+ * dismissed yet.
+ */
+export async function findIncomeCandidates(): Promise<IncomeCandidate[]> {
+  const today = formatDate(new Date());
+  const since = formatDate(new Date(Date.now() - DETECTION_WINDOW_DAYS * 24 * 60 * 60 * 1000));
+
+  const [deposits, decided] = await Promise.all([
+    db
+      .select({
+        description: upTransactions.description,
+        amountCents: upTransactions.amountCents,
+        transactionDate: upTransactions.transactionDate,
+      })
+      .from(upTransactions)
+      .where(
+        and(
+          gt(upTransactions.amountCents, 0),
+          gte(upTransactions.transactionDate, since),
+          eq(upTransactions.isTransfer, false),
+          isNull(upTransactions.deletedAt)
+        )
+      ),
+    db.select({ payerPattern: incomeSources.payerPattern }).from(incomeSources),
+  ]);
+
+  const decidedPatterns = new Set(decided.map((d) => d.payerPattern));
+  return detectRecurringDeposits(deposits, today).filter(
+    (c) => !decidedPatterns.has(c.payerPattern)
+  );
+}
+
+/**
+ * Confirmed income sources, by name.
+ */
+export async function getConfirmedIncomeSources(): Promise<IncomeSource[]> {
+  return db
+    .select()
+    .from(incomeSources)
+    .where(eq(incomeSources.status, "confirmed"))
+    .orderBy(asc(incomeSources.name));
+}
+
+/**
+ * Payer patterns of the confirmed income sources, for `isIncomeTransaction`.
+ */
+export async function getIncomePayerPatterns(): Promise<Set<string>> {
+  const sources = await getConfirmedIncomeSources();
+  return new Set(sources.map((s) => s.payerPattern));
+}
+
+/**
+ * A payer's past credits not yet classified as income, leaving out manually
+ * corrected transactions.
+ */
+async function findPayerDepositsToMark(payerPattern: string): Promise<string[]> {
+  const credits = await db
+    .select({ id: upTransactions.id, description: upTransactions.description })
+    .from(upTransactions)
+    .where(
+      and(
+        gt(upTransactions.amountCents, 0),
+        eq(upTransactions.isTransfer, false),
+        isNull(upTransactions.deletedAt),
+        or(isNull(upTransactions.mjolnirCategoryId), ne(upTransactions.mjolnirCategoryId, "income"))
+      )
+    );
+
+  const matchingIds = credits
+    .filter((c) => normalisePayer(c.description) === payerPattern)
+    .map((c) => c.id);
+  if (matchingIds.length === 0) return [];
+
+  const corrected = await db
+    .selectDistinct({ transactionId: classificationCorrections.transactionId })
+    .from(classificationCorrections)
+    .where(inArray(classificationCorrections.transactionId, matchingIds));
+  const correctedIds = new Set(corrected.map((c) => c.transactionId));
+  return matchingIds.filter((id) => !correctedIds.has(id));
+}
+
+/**
+ * Confirms a payer as an income source (a dismissed payer can still be
+ * confirmed) and classifies its past credits as income, leaving manually
+ * corrected transactions alone. The source and its deposits are written in
+ * one batch.
+ *
+ * @returns The source and the number of transactions reclassified
+ */
+export async function confirmIncomeSource(
+  payerPattern: string,
+  details: Pick<NewIncomeSource, "name" | "kind" | "cadence" | "typicalAmountCents">
+): Promise<{ source: IncomeSource; reclassifiedCount: number }> {
+  const ids = await findPayerDepositsToMark(payerPattern);
+  const values = { ...details, status: "confirmed" as const };
+  const now = new Date();
+
+  const markDeposits = [];
+  for (let i = 0; i < ids.length; i += UPDATE_CHUNK) {
+    markDeposits.push(
+      db
+        .update(upTransactions)
+        .set({ mjolnirCategoryId: "income", ...mapCategoryToSaver("income"), updatedAt: now })
+        .where(inArray(upTransactions.id, ids.slice(i, i + UPDATE_CHUNK)))
+    );
+  }
+
+  const [[source]] = await db.batch([
+    db
+      .insert(incomeSources)
+      .values({ payerPattern, ...values })
+      .onConflictDoUpdate({
+        target: incomeSources.payerPattern,
+        set: { ...values, updatedAt: now },
+      })
+      .returning(),
+    ...markDeposits,
+  ]);
+
+  return { source, reclassifiedCount: ids.length };
+}
+
+/**
+ * Income received in a date range, split by confirmed source. Counts credits
+ * classified as income; those from no confirmed source are grouped as
+ * "Other income". Every confirmed source is listed, even with no deposits.
+ */
+export async function getIncomeBySource(
+  startDate: string,
+  endDate: string
+): Promise<IncomeBreakdown> {
+  const [sources, deposits] = await Promise.all([
+    getConfirmedIncomeSources(),
+    db
+      .select({
+        description: upTransactions.description,
+        amountCents: upTransactions.amountCents,
+      })
+      .from(upTransactions)
+      .where(
+        and(
+          eq(upTransactions.mjolnirCategoryId, "income"),
+          gt(upTransactions.amountCents, 0),
+          gte(upTransactions.transactionDate, startDate),
+          lte(upTransactions.transactionDate, endDate),
+          eq(upTransactions.isTransfer, false),
+          isNull(upTransactions.deletedAt)
+        )
+      ),
+  ]);
+
+  const totals = new Map<string, IncomeSourceTotal>(
+    sources.map((s) => [
+      s.payerPattern,
+      { sourceId: s.id, name: s.name, kind: s.kind, actualCents: 0, depositCount: 0 },
+    ])
+  );
+  const other: IncomeSourceTotal = {
+    sourceId: null,
+    name: "Other income",
+    kind: "other",
+    actualCents: 0,
+    depositCount: 0,
+  };
+
+  let actualCents = 0;
+  for (const deposit of deposits) {
+    const total = totals.get(normalisePayer(deposit.description)) ?? other;
+    total.actualCents += deposit.amountCents;
+    total.depositCount += 1;
+    actualCents += deposit.amountCents;
+  }
+
+  return {
+    actualCents,
+    sources: [...totals.values(), ...(other.depositCount > 0 ? [other] : [])],
+  };
+}
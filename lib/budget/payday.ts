@@ -1,29 +1,45 @@
 /**
  * Payday date calculation utilities.
  *
- * Pure functions for computing budget periods aligned to pay cycle.
- * Payday is hardcoded to the 14th of each month with weekend adjustment:
- *   - Saturday → Friday (13th)
- *   - Sunday → Friday (12th)
+ * Pure functions for computing budget periods aligned to the pay cycle in
+ * `payday_config`. Supported cycles:
+ *   - weekly / fortnightly: every 7 / 14 days from an anchor payday
+ *   - monthly: on a fixed day of the month (1-28)
+ *   - last_business_day: the last weekday of the month
  *
- * The fixed expected income is $9,168.53 (916853 cents).
+ * Paydays that land on a non-business day move back to the business day
+ * before: weekends when `adjustForWeekends` is set, public holidays (national
+ * plus the configured local list) when `adjustForHolidays` is set.
  *
- * Test cases:
+ * Without a saved config, pay arrives on the 14th of each month and new
+ * periods expect $9,168.53 (916853 cents).
+ *
+ * Test cases (default config):
  *   - Feb 2026: 14th is Saturday → payday is Friday 13th
  *   - Mar 2026: 14th is Saturday → payday is Friday 13th
  *   - Apr 2026: 14th is Tuesday → payday is Tuesday 14th
+ * Test cases (last business day):
+ *   - Jan 2026: 31st is Saturday → payday is Friday 30th
+ *   - Dec 2027: 31st is Friday → payday is Friday 31st
  */
 
 import { db } from "@/lib/db";
-import { budgetPeriods } from "@/lib/db/schema";
-import { and, lte, gte } from "drizzle-orm";
+import { budgetPeriods, paydayConfig, type PaydayConfig } from "@/lib/db/schema";
+import { and, desc, lte, gte } from "drizzle-orm";
+import { ANCHORED_PAY_CYCLES, type PayCycle } from "@/lib/constants";
+import { isPublicHoliday } from "@/lib/budget/holidays";
 
 // =============================================================================
 // CONSTANTS
 // =============================================================================
 
-const PAYDAY_DAY = 14;
-const EXPECTED_INCOME_CENTS = 916853; // $9,168.53
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/** Days between paydays for cycles counted from an anchor date. */
+const ANCHORED_CYCLE_DAYS: Partial<Record<PayCycle, number>> = {
+  weekly: 7,
+  fortnightly: 14,
+};
 
 // =============================================================================
 // TYPES
@@ -35,141 +51,266 @@ export interface BudgetPeriod {
   daysInPeriod: number;
 }
 
+/**
+ * The pay cycle settings the date calculations need. Mirrors the columns of
+ * `payday_config`, with the expected income default already applied.
+ */
+export interface PayCycleConfig {
+  cycle: PayCycle;
+  paydayDay: number;
+  /** Any past payday as YYYY-MM-DD. Required for weekly/fortnightly cycles. */
+  anchorDate: string | null;
+  adjustForWeekends: boolean;
+  adjustForHolidays: boolean;
+  /** Local public holidays as YYYY-MM-DD, on top of the national list. */
+  holidays: string[];
+  expectedIncomeCents: number;
+}
+
+/** Pay cycle used until the user saves their own configuration. */
+export const DEFAULT_PAY_CYCLE_CONFIG: PayCycleConfig = {
+  cycle: "monthly",
+  paydayDay: 14,
+  anchorDate: null,
+  adjustForWeekends: true,
+  adjustForHolidays: true,
+  holidays: [],
+  expectedIncomeCents: 916853, // $9,168.53
+};
+
 // =============================================================================
 // PURE FUNCTIONS (no side effects)
 // =============================================================================
 
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Parse a YYYY-MM-DD string as a local date (not UTC midnight).
+ */
+function parseDate(value: string): Date {
+  const [y, m, d] = value.split("-").map(Number);
+  return new Date(y, m - 1, d);
+}
+
 /**
- * Adjust a date for weekends. Saturday → Friday, Sunday → Friday.
+ * Whether pay can't arrive on this date under the config.
+ * The last business day cycle never lands on a weekend, whatever the
+ * weekend setting.
  */
-function adjustForWeekends(date: Date): Date {
+function isNonBusinessDay(date: Date, config: PayCycleConfig): boolean {
   const day = date.getDay(); // 0=Sun, 6=Sat
-  if (day === 6) {
-    // Saturday → Friday
-    const adjusted = new Date(date);
-    adjusted.setDate(adjusted.getDate() - 1);
-    return adjusted;
+  const isWeekend = day === 0 || day === 6;
+  if (isWeekend && (config.adjustForWeekends || config.cycle === "last_business_day")) {
+    return true;
   }
-  if (day === 0) {
-    // Sunday → Friday
-    const adjusted = new Date(date);
-    adjusted.setDate(adjusted.getDate() - 2);
-    return adjusted;
+  return config.adjustForHolidays && isPublicHoliday(date, config.holidays);
+}
+
+/**
+ * Move a payday back to the nearest business day on or before it.
+ */
+function adjustPayday(date: Date, config: PayCycleConfig): Date {
+  let adjusted = date;
+  while (isNonBusinessDay(adjusted, config)) {
+    adjusted = addDays(adjusted, -1);
   }
-  return date;
+  return adjusted;
+}
+
+function getAnchorDate(config: PayCycleConfig): string {
+  if (!config.anchorDate) {
+    throw new Error(`A ${config.cycle} pay cycle needs an anchor date`);
+  }
+  return config.anchorDate;
 }
 
 /**
- * Get the payday date for a given year/month.
- * Always the 14th, adjusted for weekends:
- *   - Saturday → Friday (13th)
- *   - Sunday → Friday (12th)
- *
- * @param year Full year (e.g. 2026)
- * @param month 1-indexed month (1=Jan, 12=Dec)
+ * The scheduled payday at a position in the cycle, before adjustment.
+ * Monthly cycles count months since year 0; anchored cycles count cycles
+ * since the anchor date (negative before it).
  */
-export function getPayday(year: number, month: number): Date {
-  // Date constructor expects 0-indexed month
-  const raw = new Date(year, month - 1, PAYDAY_DAY);
-  return adjustForWeekends(raw);
+function nominalPayday(index: number, config: PayCycleConfig): Date {
+  const stepDays = ANCHORED_CYCLE_DAYS[config.cycle];
+  if (stepDays) {
+    return addDays(parseDate(getAnchorDate(config)), index * stepDays);
+  }
+
+  const year = Math.floor(index / 12);
+  const month = index - year * 12; // 0-indexed
+  if (config.cycle === "last_business_day") {
+    return new Date(year, month + 1, 0);
+  }
+  return new Date(year, month, config.paydayDay);
+}
+
+function paydayAt(index: number, config: PayCycleConfig): Date {
+  return adjustPayday(nominalPayday(index, config), config);
 }
 
 /**
- * Generate a budget period for a given year/month.
- * Period runs from payday of (year, month) to the day before payday of the next month.
- *
- * @param year Full year (e.g. 2026)
- * @param month 1-indexed month (1=Jan, 12=Dec)
+ * Position in the cycle of the payday on or before the given date.
+ * Starts from the nominal estimate and steps to correct for adjustments.
  */
-export function generatePeriod(year: number, month: number): BudgetPeriod {
-  const start = getPayday(year, month);
+function findPaydayIndex(date: Date, config: PayCycleConfig): number {
+  const target = startOfDay(date);
+  const stepDays = ANCHORED_CYCLE_DAYS[config.cycle];
 
-  // Next month's payday
-  const nextMonth = month === 12 ? 1 : month + 1;
-  const nextYear = month === 12 ? year + 1 : year;
-  const nextPayday = getPayday(nextYear, nextMonth);
+  let index = stepDays
+    ? Math.floor(daysBetween(parseDate(getAnchorDate(config)), target) / stepDays)
+    : target.getFullYear() * 12 + target.getMonth();
 
-  // End date is the day before next payday
-  const end = new Date(nextPayday);
-  end.setDate(end.getDate() - 1);
+  while (paydayAt(index, config) > target) index--;
+  while (paydayAt(index + 1, config) <= target) index++;
+  return index;
+}
 
-  const msPerDay = 1000 * 60 * 60 * 24;
-  const daysInPeriod =
-    Math.round((end.getTime() - start.getTime()) / msPerDay) + 1;
+/**
+ * Whether a config has everything its cycle needs to calculate paydays.
+ */
+export function isPayCycleConfigComplete(config: PayCycleConfig): boolean {
+  return !ANCHORED_PAY_CYCLES.includes(config.cycle) || Boolean(config.anchorDate);
+}
+
+/**
+ * Generate the budget period containing a date.
+ * Period runs from the payday on or before the date to the day before the
+ * following payday.
+ */
+export function generatePeriod(
+  config: PayCycleConfig,
+  date: Date = new Date()
+): BudgetPeriod {
+  const index = findPaydayIndex(date, config);
+  const start = paydayAt(index, config);
+  const end = addDays(paydayAt(index + 1, config), -1);
 
-  return { startDate: start, endDate: end, daysInPeriod };
+  return { startDate: start, endDate: end, daysInPeriod: daysBetween(start, end) + 1 };
 }
 
 /**
- * Find which year/month period contains the given date.
- * Checks the current month's payday, then previous month if needed.
+ * The most recent payday on or before a date.
  */
-function findContainingPeriod(date: Date): { year: number; month: number } {
-  const year = date.getFullYear();
-  const month = date.getMonth() + 1; // 1-indexed
-
-  // Check this month's payday
-  const thisPayday = getPayday(year, month);
-  if (thisPayday <= date) {
-    return { year, month };
-  }
+export function findPaydayOnOrBefore(date: Date, config: PayCycleConfig): Date {
+  return paydayAt(findPaydayIndex(date, config), config);
+}
+
+/**
+ * The first payday after a date.
+ */
+export function findNextPayday(date: Date, config: PayCycleConfig): Date {
+  return paydayAt(findPaydayIndex(date, config) + 1, config);
+}
 
-  // Fall back to previous month
-  const prevMonth = month === 1 ? 12 : month - 1;
-  const prevYear = month === 1 ? year - 1 : year;
-  return { year: prevYear, month: prevMonth };
+/**
+ * Whole days from a date until the next payday. Returns 0 on payday itself.
+ */
+export function getDaysUntilPayday(
+  config: PayCycleConfig,
+  fromDate: Date = new Date()
+): number {
+  if (daysBetween(findPaydayOnOrBefore(fromDate, config), fromDate) === 0) {
+    return 0;
+  }
+  return daysBetween(fromDate, findNextPayday(fromDate, config));
 }
 
 /**
  * Format a Date to YYYY-MM-DD string for database storage.
  */
-function formatDate(date: Date): string {
+export function formatDate(date: Date): string {
   const y = date.getFullYear();
   const m = String(date.getMonth() + 1).padStart(2, "0");
   const d = String(date.getDate()).padStart(2, "0");
   return `${y}-${m}-${d}`;
 }
 
+/**
+ * Convert a saved `payday_config` row to the settings the date calculations
+ * use, falling back to the defaults when the saved cycle is missing its
+ * anchor date.
+ */
+export function toPayCycleConfig(row: PaydayConfig): PayCycleConfig {
+  const config: PayCycleConfig = {
+    cycle: row.cycle,
+    paydayDay: row.paydayDay,
+    anchorDate: row.anchorDate,
+    adjustForWeekends: row.adjustForWeekends,
+    adjustForHolidays: row.adjustForHolidays,
+    holidays: row.holidays,
+    expectedIncomeCents:
+      row.expectedIncomeCents ?? DEFAULT_PAY_CYCLE_CONFIG.expectedIncomeCents,
+  };
+
+  return isPayCycleConfigComplete(config) ? config : DEFAULT_PAY_CYCLE_CONFIG;
+}
+
 // =============================================================================
 // DATABASE-AWARE FUNCTIONS
 // =============================================================================
 
+/**
+ * Load the saved pay cycle, or the defaults when none is saved.
+ */
+export async function getPayCycleConfig(): Promise<PayCycleConfig> {
+  const [row] = await db.select().from(paydayConfig).limit(1);
+  return row ? toPayCycleConfig(row) : DEFAULT_PAY_CYCLE_CONFIG;
+}
+
 /**
  * Ensure a budget period exists that contains today's date.
- * If no matching period exists, auto-generates one with the fixed expected income.
+ * If no matching period exists, auto-generates one from the saved pay cycle
+ * with its expected income. When the cycle has changed, the new period starts
+ * the day after the latest existing one so periods never overlap.
  * Returns the period ID.
  */
 export async function ensureCurrentPeriodExists(): Promise<string> {
-  const today = new Date();
-  const { year, month } = findContainingPeriod(today);
-  const period = generatePeriod(year, month);
-
-  const startStr = formatDate(period.startDate);
-  const endStr = formatDate(period.endDate);
+  const today = formatDate(new Date());
 
   // Check if a period already covers today
   const existing = await db
     .select()
     .from(budgetPeriods)
-    .where(
-      and(
-        lte(budgetPeriods.startDate, formatDate(today)),
-        gte(budgetPeriods.endDate, formatDate(today))
-      )
-    )
+    .where(and(lte(budgetPeriods.startDate, today), gte(budgetPeriods.endDate, today)))
     .limit(1);
 
   if (existing.length > 0) {
     return existing[0].id;
   }
 
+  const [config, [latest]] = await Promise.all([
+    getPayCycleConfig(),
+    db
+      .select({ endDate: budgetPeriods.endDate })
+      .from(budgetPeriods)
+      .orderBy(desc(budgetPeriods.endDate))
+      .limit(1),
+  ]);
+
+  const period = generatePeriod(config);
+  let startStr = formatDate(period.startDate);
+  if (latest && latest.endDate >= startStr) {
+    startStr = formatDate(addDays(parseDate(latest.endDate), 1));
+  }
+
   // Create the period
   const [created] = await db
     .insert(budgetPeriods)
     .values({
       startDate: startStr,
-      endDate: endStr,
-      expectedIncomeCents: EXPECTED_INCOME_CENTS,
+      endDate: formatDate(period.endDate),
+      expectedIncomeCents: config.expectedIncomeCents,
     })
     .onConflictDoNothing()
     .returning({ id: budgetPeriods.id });
@@ -179,88 +320,10 @@ export async function ensureCurrentPeriodExists(): Promise<string> {
     const [fetched] = await db
       .select()
       .from(budgetPeriods)
-      .where(
-        and(
-          lte(budgetPeriods.startDate, formatDate(today)),
-          gte(budgetPeriods.endDate, formatDate(today))
-        )
-      )
+      .where(and(lte(budgetPeriods.startDate, today), gte(budgetPeriods.endDate, today)))
       .limit(1);
     return fetched.id;
   }
 
   return created.id;
 }
-
-// =============================================================================
-// LEGACY COMPATIBILITY
-// =============================================================================
-
-/**
- * @deprecated Use getPayday() and generatePeriod() instead.
- * Legacy PaydaySettings interface for existing code that hasn't been migrated.
- */
-export interface PaydaySettings {
-  paydayDay: number;
-  adjustForWeekends: boolean;
-}
-
-/**
- * @deprecated Use generatePeriod() instead.
- * Legacy function - maintained for existing code that passes config.
- */
-export function calculateBudgetPeriod(
-  _config: PaydaySettings,
-  targetDate: Date
-): BudgetPeriod {
-  const { year, month } = findContainingPeriod(targetDate);
-  return generatePeriod(year, month);
-}
-
-/**
- * @deprecated Use getPayday() instead.
- * Legacy function - maintained for existing code that passes config.
- */
-export function findPaydayOnOrBefore(
-  date: Date,
-  _config: PaydaySettings
-): Date {
-  const { year, month } = findContainingPeriod(date);
-  return getPayday(year, month);
-}
-
-/**
- * @deprecated Use getPayday() with next month instead.
- * Legacy function - maintained for existing code that passes config.
- */
-export function findNextPayday(date: Date, _config: PaydaySettings): Date {
-  const { year, month } = findContainingPeriod(date);
-  const nextMonth = month === 12 ? 1 : month + 1;
-  const nextYear = month === 12 ? year + 1 : year;
-  return getPayday(nextYear, nextMonth);
-}
-
-/**
- * @deprecated Calculate from getPayday() directly.
- * Legacy function - maintained for existing code that passes config.
- */
-export function getDaysUntilPayday(
-  _config: PaydaySettings,
-  fromDate: Date = new Date()
-): number {
-  const nextPayday = findNextPayday(fromDate, _config);
-  const msPerDay = 1000 * 60 * 60 * 24;
-
-  const from = new Date(
-    fromDate.getFullYear(),
-    fromDate.getMonth(),
-    fromDate.getDate()
-  );
-  const to = new Date(
-    nextPayday.getFullYear(),
-    nextPayday.getMonth(),
-    nextPayday.getDate()
-  );
-
-  return Math.round((to.getTime() - from.getTime()) / msPerDay);
-}
@@ -0,0 +1,516 @@
+/**
+ * Retroactive recategorisation: replays the active categorisation rules over
+ * historical UP transactions, as a dry run or as an undoable batch.
+ */
+
+import { z } from "zod";
+import { db } from "@/lib/db";
+import {
+  upTransactions,
+  budgetPeriods,
+  classificationCorrections,
+  recategorisationBatches,
+  recategorisationChanges,
+  type RecategorisationBatch,
+  type NewRecategorisationChange,
+  type UpTransaction,
+} from "@/lib/db/schema";
+import { and, desc, eq, gte, inArray, isNull, lte, max, min, or } from "drizzle-orm";
+import {
+  applyCategorisationRules,
+  getActiveCategorisationRules,
+  matchesRule,
+  type RuleDefinition,
+  type RuleTransaction,
+} from "@/lib/budget/rules";
+
+// Changes listed in a dry run; counts and period totals cover every change
+const MAX_DRY_RUN_CHANGES = 500;
+
+// Rows per insert when recording a batch's changes
+const CHANGE_INSERT_CHUNK = 500;
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD");
+
+/**
+ * Request body choosing what to recategorise: a budget period, or an
+ * explicit date range.
+ */
+export const recategorisationRangeSchema = z
+  .object({
+    periodId: z.string().uuid().optional(),
+    startDate: isoDate.optional(),
+    endDate: isoDate.optional(),
+  })
+  .refine((r) => r.periodId || (r.startDate && r.endDate), {
+    message: "Provide periodId, or startDate and endDate",
+    path: ["periodId"],
+  })
+  .refine((r) => !r.startDate || !r.endDate || r.startDate <= r.endDate, {
+    message: "Start date must be on or before end date",
+    path: ["endDate"],
+  });
+
+export type RecategorisationRange = z.infer<typeof recategorisationRangeSchema>;
+
+/**
+ * Resolves a range request to dates, using the period's dates when a
+ * period is given.
+ *
+ * @returns The date range, or null if the period does not exist
+ */
+export async function resolveRecategorisationRange(
+  range: RecategorisationRange
+): Promise<{ startDate: string; endDate: string } | null> {
+  if (!range.periodId) {
+    return { startDate: range.startDate!, endDate: range.endDate! };
+  }
+
+  const [period] = await db
+    .select({ startDate: budgetPeriods.startDate, endDate: budgetPeriods.endDate })
+    .from(budgetPeriods)
+    .where(eq(budgetPeriods.id, range.periodId));
+  return period ?? null;
+}
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface Classification {
+  mjolnirCategoryId: string | null;
+  saverKey: string | null;
+  categoryKey: string | null;
+  tags: string[];
+}
+
+export interface RecategorisationChangePreview {
+  id: string;
+  transactionDate: string;
+  description: string;
+  amountCents: number;
+  current: Classification;
+  proposed: Classification;
+}
+
+/**
+ * Spending for one saver/category within a period, before and after the run.
+ * Spending follows the budget summary: debits only, transfers excluded.
+ */
+export interface PeriodTotalChange {
+  saverKey: string | null;
+  categoryKey: string | null;
+  beforeCents: number;
+  afterCents: number;
+}
+
+export interface PeriodImpact {
+  periodId: string;
+  startDate: string;
+  endDate: string;
+  totals: PeriodTotalChange[];
+}
+
+export interface RecategorisationDryRun {
+  startDate: string;
+  endDate: string;
+  transactionCount: number;
+  /** Transactions skipped because the user corrected them manually */
+  protectedCount: number;
+  changedCount: number;
+  changes: RecategorisationChangePreview[];
+  periods: PeriodImpact[];
+}
+
+/**
+ * Narrows which transactions in the range are recategorised.
+ */
+export interface RecategorisationScope {
+  /** Only transactions this rule matches */
+  rule?: RuleDefinition;
+  /** Only transactions without a saver, or in the 'uncategorised' category */
+  uncategorisedOnly?: boolean;
+}
+
+export interface UndoResult {
+  restoredCount: number;
+  /** Transactions changed again since the batch ran, left as they are */
+  skippedCount: number;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function currentClassification(txn: UpTransaction): Classification {
+  return {
+    mjolnirCategoryId: txn.mjolnirCategoryId,
+    saverKey: txn.saverKey,
+    categoryKey: txn.categoryKey,
+    tags: (txn.tags as string[] | null) ?? [],
+  };
+}
+
+function isUncategorised(txn: UpTransaction): boolean {
+  return txn.saverKey === null || txn.mjolnirCategoryId === "uncategorised";
+}
+
+function sameClassification(a: Classification, b: Classification): boolean {
+  return (
+    a.mjolnirCategoryId === b.mjolnirCategoryId &&
+    a.saverKey === b.saverKey &&
+    a.categoryKey === b.categoryKey &&
+    a.tags.join(",") === b.tags.join(",")
+  );
+}
+
+function classificationKey(c: Classification): string {
+  return JSON.stringify([c.mjolnirCategoryId, c.saverKey, c.categoryKey, c.tags]);
+}
+
+/**
+ * Builds one update per group of transactions sharing a classification, to
+ * run in the caller's batch.
+ */
+function classificationUpdates(
+  rows: { transactionId: string; classification: Classification }[]
+) {
+  const groups = new Map<string, { classification: Classification; ids: string[] }>();
+  for (const row of rows) {
+    const key = classificationKey(row.classification);
+    const group = groups.get(key) ?? { classification: row.classification, ids: [] };
+    group.ids.push(row.transactionId);
+    groups.set(key, group);
+  }
+
+  const now = new Date();
+  return [...groups.values()].map(({ classification, ids }) =>
+    db
+      .update(upTransactions)
+      .set({ ...classification, updatedAt: now })
+      .where(inArray(upTransactions.id, ids))
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Planning
+// ---------------------------------------------------------------------------
+
+interface PlannedChange {
+  txn: UpTransaction;
+  current: Classification;
+  proposed: Classification;
+}
+
+interface RecategorisationPlan {
+  transactionCount: number;
+  protectedCount: number;
+  changes: PlannedChange[];
+  periods: PeriodImpact[];
+}
+
+async function planRecategorisation(
+  startDate: string,
+  endDate: string,
+  scope: RecategorisationScope
+): Promise<RecategorisationPlan> {
+  // Periods overlapping the range, whose totals the run can move
+  const periods = await db
+    .select()
+    .from(budgetPeriods)
+    .where(and(lte(budgetPeriods.startDate, endDate), gte(budgetPeriods.endDate, startDate)))
+    .orderBy(budgetPeriods.startDate);
+
+  // Load whole periods so their totals are complete, not just the range
+  const loadFrom = periods.reduce((min, p) => (p.startDate < min ? p.startDate : min), startDate);
+  const loadTo = periods.reduce((max, p) => (p.endDate > max ? p.endDate : max), endDate);
+
+  const [rules, transactions, corrections] = await Promise.all([
+    getActiveCategorisationRules(),
+    db
+      .select()
+      .from(upTransactions)
+      .where(
+        and(
+          gte(upTransactions.transactionDate, loadFrom),
+          lte(upTransactions.transactionDate, loadTo),
+          isNull(upTransactions.deletedAt)
+        )
+      )
+      .orderBy(desc(upTransactions.transactionDate)),
+    db
+      .selectDistinct({ transactionId: classificationCorrections.transactionId })
+      .from(classificationCorrections)
+      .innerJoin(upTransactions, eq(classificationCorrections.transactionId, upTransactions.id))
+      .where(
+        and(
+          gte(upTransactions.transactionDate, startDate),
+          lte(upTransactions.transactionDate, endDate)
+        )
+      ),
+  ]);
+
+  const correctedIds = new Set(corrections.map((c) => c.transactionId));
+  const proposedById = new Map<string, Classification>();
+  const changes: PlannedChange[] = [];
+  let transactionCount = 0;
+  let protectedCount = 0;
+
+  for (const txn of transactions) {
+    if (txn.transactionDate < startDate || txn.transactionDate > endDate) continue;
+    transactionCount++;
+
+    const input: RuleTransaction = {
+      description: txn.description,
+      rawText: txn.rawText,
+      upCategoryId: txn.upCategoryId,
+      upAccountId: txn.upAccountId,
+      amountCents: txn.amountCents,
+      isTransfer: txn.isTransfer,
+    };
+    if (scope.uncategorisedOnly && !isUncategorised(txn)) continue;
+    if (scope.rule && !matchesRule(scope.rule, input)) continue;
+
+    if (correctedIds.has(txn.id)) {
+      protectedCount++;
+      continue;
+    }
+
+    const outcome = applyCategorisationRules(rules, input);
+    if (!outcome) continue;
+
+    // Same merge as a fresh sync: fields no rule set keep their value
+    const current = currentClassification(txn);
+    const proposed: Classification = {
+      mjolnirCategoryId: outcome.mjolnirCategoryId ?? current.mjolnirCategoryId,
+      saverKey: outcome.saverKey ?? current.saverKey,
+      categoryKey: outcome.categoryKey ?? current.categoryKey,
+      tags: outcome.tags.length > 0 ? outcome.tags : current.tags,
+    };
+    if (sameClassification(current, proposed)) continue;
+
+    changes.push({ txn, current, proposed });
+    proposedById.set(txn.id, proposed);
+  }
+
+  const impacts: PeriodImpact[] = [];
+  for (const period of periods) {
+    const totals = new Map<string, PeriodTotalChange>();
+    const add = (
+      saverKey: string | null,
+      categoryKey: string | null,
+      field: "beforeCents" | "afterCents",
+      cents: number
+    ) => {
+      const key = `${saverKey}/${categoryKey}`;
+      const entry = totals.get(key) ?? { saverKey, categoryKey, beforeCents: 0, afterCents: 0 };
+      entry[field] += cents;
+      totals.set(key, entry);
+    };
+
+    for (const txn of transactions) {
+      if (txn.transactionDate < period.startDate || txn.transactionDate > period.endDate) continue;
+      if (txn.amountCents >= 0 || txn.isTransfer) continue;
+
+      const spent = Math.abs(txn.amountCents);
+      const proposed = proposedById.get(txn.id);
+      add(txn.saverKey, txn.categoryKey, "beforeCents", spent);
+      add(proposed?.saverKey ?? txn.saverKey, proposed?.categoryKey ?? txn.categoryKey, "afterCents", spent);
+    }
+
+    const moved = [...totals.values()].filter((t) => t.beforeCents !== t.afterCents);
+    if (moved.length > 0) {
+      impacts.push({
+        periodId: period.id,
+        startDate: period.startDate,
+        endDate: period.endDate,
+        totals: moved.sort(
+          (a, b) => Math.abs(b.afterCents - b.beforeCents) - Math.abs(a.afterCents - a.beforeCents)
+        ),
+      });
+    }
+  }
+
+  return { transactionCount, protectedCount, changes, periods: impacts };
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Shows what re-running the active rules over a date range would change,
+ * without writing anything. Transactions the user corrected manually are
+ * never changed.
+ *
+ * @param startDate - First transaction date, inclusive (YYYY-MM-DD)
+ * @param endDate - Last transaction date, inclusive (YYYY-MM-DD)
+ */
+export async function previewRecategorisation(
+  startDate: string,
+  endDate: string
+): Promise<RecategorisationDryRun> {
+  const plan = await planRecategorisation(startDate, endDate, {});
+
+  return {
+    startDate,
+    endDate,
+    transactionCount: plan.transactionCount,
+    protectedCount: plan.protectedCount,
+    changedCount: plan.changes.length,
+    changes: plan.changes.slice(0, MAX_DRY_RUN_CHANGES).map(({ txn, current, proposed }) => ({
+      id: txn.id,
+      transactionDate: txn.transactionDate,
+      description: txn.description,
+      amountCents: txn.amountCents,
+      current,
+      proposed,
+    })),
+    periods: plan.periods,
+  };
+}
+
+/**
+ * Re-runs the active rules over a date range and records the result as a
+ * batch that can be undone with `undoRecategorisation`.
+ *
+ * @param scope - Limits which transactions in the range are recategorised
+ * @returns The batch, or null when nothing would change
+ */
+export async function applyRecategorisation(
+  startDate: string,
+  endDate: string,
+  scope: RecategorisationScope = {}
+): Promise<RecategorisationBatch | null> {
+  const { changes } = await planRecategorisation(startDate, endDate, scope);
+  if (changes.length === 0) return null;
+
+  // The batch row, its changes and the updates land together or not at all
+  const batchId = crypto.randomUUID();
+
+  const rows: NewRecategorisationChange[] = changes.map(({ txn, current, proposed }) => ({
+    batchId,
+    transactionId: txn.id,
+    previousMjolnirCategoryId: current.mjolnirCategoryId,
+    previousSaverKey: current.saverKey,
+    previousCategoryKey: current.categoryKey,
+    previousTags: current.tags,
+    newMjolnirCategoryId: proposed.mjolnirCategoryId,
+    newSaverKey: proposed.saverKey,
+    newCategoryKey: proposed.categoryKey,
+    newTags: proposed.tags,
+  }));
+  const changeInserts = [];
+  for (let i = 0; i < rows.length; i += CHANGE_INSERT_CHUNK) {
+    changeInserts.push(
+      db.insert(recategorisationChanges).values(rows.slice(i, i + CHANGE_INSERT_CHUNK))
+    );
+  }
+
+  const [[batch]] = await db.batch([
+    db
+      .insert(recategorisationBatches)
+      .values({ id: batchId, startDate, endDate, changedCount: changes.length })
+      .returning(),
+    ...changeInserts,
+    ...classificationUpdates(
+      changes.map(({ txn, proposed }) => ({ transactionId: txn.id, classification: proposed }))
+    ),
+  ]);
+
+  return batch;
+}
+
+/**
+ * Recategorises every uncategorised transaction a rule matches, across all
+ * history, as one undoable batch. Used when a new rule should also fix the
+ * transactions that prompted it.
+ *
+ * @returns The batch, or null when nothing would change
+ */
+export async function recategoriseUncategorisedMatches(
+  rule: RuleDefinition
+): Promise<RecategorisationBatch | null> {
+  const [range] = await db
+    .select({
+      startDate: min(upTransactions.transactionDate),
+      endDate: max(upTransactions.transactionDate),
+    })
+    .from(upTransactions)
+    .where(
+      and(
+        or(isNull(upTransactions.saverKey), eq(upTransactions.mjolnirCategoryId, "uncategorised")),
+        isNull(upTransactions.deletedAt)
+      )
+    );
+  if (!range?.startDate || !range.endDate) return null;
+
+  return applyRecategorisation(range.startDate, range.endDate, { rule, uncategorisedOnly: true });
+}
+
+/**
+ * Restores every transaction in a batch to its previous classification.
+ * Transactions changed since the batch ran (by a correction, a sync or a
+ * later batch) are left alone.
+ */
+export async function undoRecategorisation(batchId: string): Promise<UndoResult> {
+  const changes = await db
+    .select()
+    .from(recategorisationChanges)
+    .where(eq(recategorisationChanges.batchId, batchId));
+
+  const transactions = changes.length > 0
+    ? await db
+        .select()
+        .from(upTransactions)
+        .where(inArray(upTransactions.id, changes.map((c) => c.transactionId)))
+    : [];
+  const byId = new Map(transactions.map((t) => [t.id, t]));
+
+  const restores: { transactionId: string; classification: Classification }[] = [];
+  for (const change of changes) {
+    const txn = byId.get(change.transactionId);
+    const applied: Classification = {
+      mjolnirCategoryId: change.newMjolnirCategoryId,
+      saverKey: change.newSaverKey,
+      categoryKey: change.newCategoryKey,
+      tags: change.newTags,
+    };
+    if (!txn || !sameClassification(currentClassification(txn), applied)) continue;
+
+    restores.push({
+      transactionId: change.transactionId,
+      classification: {
+        mjolnirCategoryId: change.previousMjolnirCategoryId,
+        saverKey: change.previousSaverKey,
+        categoryKey: change.previousCategoryKey,
+        tags: change.previousTags,
+      },
+    });
+  }
+
+  await db.batch([
+    db
+      .update(recategorisationBatches)
+      .set({ undoneAt: new Date() })
+      .where(eq(recategorisationBatches.id, batchId)),
+    ...classificationUpdates(restores),
+  ]);
+
+  return { restoredCount: restores.length, skippedCount: changes.length - restores.length };
+}
+
+/**
+ * Most recent batches, newest first.
+ */
+export async function listRecategorisationBatches(limit = 10): Promise<RecategorisationBatch[]> {
+  return db
+    .select()
+    .from(recategorisationBatches)
+    .orderBy(desc(recategorisationBatches.createdAt))
+    .limit(limit);
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyCategorisationRules,
+  matchesRule,
+  type RuleDefinition,
+  type RuleTransaction,
+} from "@/lib/budget/rules";
+
+function rule(id: string, overrides: Partial<RuleDefinition>): RuleDefinition & { id: string } {
+  return {
+    id,
+    matchField: "description",
+    matchType: "contains",
+    pattern: "",
+    minAmountCents: null,
+    maxAmountCents: null,
+    upAccountId: null,
+    isTransfer: null,
+    mjolnirCategoryId: null,
+    saverKey: null,
+    categoryKey: null,
+    tags: [],
+    ...overrides,
+  };
+}
+
+function txn(overrides: Partial<RuleTransaction>): RuleTransaction {
+  return {
+    description: "Woolworths Metro",
+    rawText: null,
+    upCategoryId: "groceries",
+    upAccountId: null,
+    amountCents: -4500,
+    isTransfer: false,
+    ...overrides,
+  };
+}
+
+describe("applyCategorisationRules", () => {
+  it("lets the first matching rule set the saver and category", () => {
+    const rules = [
+      rule("merchant", { pattern: "WOOLWORTHS", saverKey: "essentials", categoryKey: "groceries" }),
+      rule("up-category", {
+        matchField: "up_category_id",
+        matchType: "exact",
+        pattern: "groceries",
+        saverKey: "discretionary",
+        categoryKey: "shopping",
+      }),
+    ];
+
+    const result = applyCategorisationRules(rules, txn({}));
+
+    expect(result?.saverKey).toBe("essentials");
+    expect(result?.categoryKey).toBe("groceries");
+    expect(result?.decidingRuleId).toBe("merchant");
+    expect(result?.ruleIds).toEqual(["merchant", "up-category"]);
+  });
+
+  it("skips earlier rules that set only tags and combines their tags", () => {
+    const rules = [
+      rule("tagger", { pattern: "METRO", tags: ["convenience"] }),
+      rule("merchant", {
+        pattern: "WOOLWORTHS",
+        saverKey: "essentials",
+        categoryKey: "groceries",
+        tags: ["supermarket", "convenience"],
+      }),
+    ];
+
+    const result = applyCategorisationRules(rules, txn({}));
+
+    expect(result?.decidingRuleId).toBe("merchant");
+    expect(result?.tags).toEqual(["convenience", "supermarket"]);
+  });
+
+  it("returns null when no rule matches", () => {
+    expect(applyCategorisationRules([rule("other", { pattern: "COLES" })], txn({}))).toBeNull();
+  });
+});
+
+describe("matchesRule", () => {
+  const salary = rule("salary", { pattern: "ACME PAYROLL", minAmountCents: 100000 });
+
+  it("matches amounts at or above the minimum", () => {
+    expect(matchesRule(salary, txn({ description: "ACME PAYROLL", amountCents: 100000 }))).toBe(true);
+    expect(matchesRule(salary, txn({ description: "ACME PAYROLL", amountCents: 250000 }))).toBe(true);
+  });
+
+  it("does not match amounts below the minimum", () => {
+    expect(matchesRule(salary, txn({ description: "ACME PAYROLL", amountCents: 99999 }))).toBe(false);
+  });
+
+  it("never matches an invalid regex", () => {
+    const broken = rule("broken", { matchType: "regex", pattern: "(" });
+    expect(matchesRule(broken, txn({}))).toBe(false);
+  });
+});
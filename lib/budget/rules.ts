@@ -0,0 +1,428 @@
+/**
+ * Categorisation rules engine: matches UP transactions against the user's
+ * rules to pick a Mjolnir category, saver/category pair and tags.
+ */
+
+import { z } from "zod";
+import { db } from "@/lib/db";
+import {
+  categorisationRules,
+  upTransactions,
+  budgetSavers,
+  budgetCategories,
+  type CategorisationRule,
+} from "@/lib/db/schema";
+import { and, asc, desc, eq, gte, isNull } from "drizzle-orm";
+import { subDays, format } from "date-fns";
+import {
+  RULE_MATCH_FIELDS,
+  RULE_MATCH_TYPES,
+  RULE_PREVIEW_DAYS,
+  type RuleMatchField,
+} from "@/lib/constants";
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Request body for creating a rule. Updates accept any subset of it.
+ * Amounts are signed cents (debits negative).
+ */
+export const categorisationRuleSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  priority: z.number().int().min(0).optional(),
+  matchField: z.enum(RULE_MATCH_FIELDS),
+  matchType: z.enum(RULE_MATCH_TYPES),
+  pattern: z.string().trim().min(1, "Pattern is required").max(255),
+  minAmountCents: z.number().int().nullable().optional(),
+  maxAmountCents: z.number().int().nullable().optional(),
+  upAccountId: z.string().min(1).nullable().optional(),
+  isTransfer: z.boolean().nullable().optional(),
+  mjolnirCategoryId: z.string().min(1).nullable().optional(),
+  saverKey: z.string().min(1).max(50).nullable().optional(),
+  categoryKey: z.string().min(1).max(50).nullable().optional(),
+  tags: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type CategorisationRuleInput = z.infer<typeof categorisationRuleSchema>;
+
+/**
+ * The parts of a rule the engine reads. Saved rules and unsaved drafts
+ * (for previews) both satisfy it.
+ */
+export type RuleDefinition = Pick<
+  CategorisationRule,
+  | "matchField"
+  | "matchType"
+  | "pattern"
+  | "minAmountCents"
+  | "maxAmountCents"
+  | "upAccountId"
+  | "isTransfer"
+  | "mjolnirCategoryId"
+  | "saverKey"
+  | "categoryKey"
+  | "tags"
+>;
+
+/**
+ * Normalises a validated request body into a rule definition, filling
+ * unset conditions and targets with null.
+ */
+export function toRuleDefinition(input: CategorisationRuleInput): RuleDefinition {
+  return {
+    matchField: input.matchField,
+    matchType: input.matchType,
+    pattern: input.pattern,
+    minAmountCents: input.minAmountCents ?? null,
+    maxAmountCents: input.maxAmountCents ?? null,
+    upAccountId: input.upAccountId ?? null,
+    isTransfer: input.isTransfer ?? null,
+    mjolnirCategoryId: input.mjolnirCategoryId ?? null,
+    saverKey: input.saverKey ?? null,
+    categoryKey: input.categoryKey ?? null,
+    tags: [...new Set(input.tags ?? [])],
+  };
+}
+
+/**
+ * Checks a rule beyond its field types: the regex compiles, the amount
+ * range is the right way round, and the targets exist. Returns messages
+ * keyed by field, empty when the rule is valid.
+ */
+export async function validateRuleDefinition(
+  rule: RuleDefinition
+): Promise<Record<string, string>> {
+  const errors: Record<string, string> = {};
+
+  if (rule.matchType === "regex") {
+    try {
+      new RegExp(rule.pattern, "i");
+    } catch {
+      errors.pattern = "Pattern is not a valid regular expression";
+    }
+  }
+
+  if (
+    rule.minAmountCents !== null &&
+    rule.maxAmountCents !== null &&
+    rule.minAmountCents > rule.maxAmountCents
+  ) {
+    errors.maxAmountCents = "Maximum amount must not be less than the minimum";
+  }
+
+  if ((rule.saverKey === null) !== (rule.categoryKey === null)) {
+    errors.categoryKey = "Saver and category must be set together";
+  }
+
+  if (!rule.mjolnirCategoryId && !rule.saverKey && rule.tags.length === 0) {
+    errors.saverKey = "Rule must set a category, a saver or tags";
+  }
+
+  if (rule.saverKey) {
+    const [saver] = await db
+      .select({ id: budgetSavers.id })
+      .from(budgetSavers)
+      .where(eq(budgetSavers.saverKey, rule.saverKey))
+      .limit(1);
+
+    if (!saver) {
+      errors.saverKey = `Saver '${rule.saverKey}' does not exist`;
+    }
+  }
+
+  if (rule.mjolnirCategoryId) {
+    const [category] = await db
+      .select({ id: budgetCategories.id })
+      .from(budgetCategories)
+      .where(eq(budgetCategories.id, rule.mjolnirCategoryId))
+      .limit(1);
+
+    if (!category) {
+      errors.mjolnirCategoryId = `Category '${rule.mjolnirCategoryId}' does not exist`;
+    }
+  }
+
+  return errors;
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+/**
+ * Transaction fields the rules engine reads.
+ */
+export interface RuleTransaction {
+  description: string;
+  rawText: string | null;
+  upCategoryId: string | null;
+  upAccountId: string | null;
+  amountCents: number;
+  isTransfer: boolean;
+}
+
+/**
+ * Outcome of applying rules to a transaction. Targets are null when no
+ * matching rule set them.
+ */
+export interface RuleClassification {
+  /** Every rule that matched, in priority order */
+  ruleIds: string[];
+  /** Rule that set the saver/category, or the Mjolnir category if none did */
+  decidingRuleId: string | null;
+  mjolnirCategoryId: string | null;
+  saverKey: string | null;
+  categoryKey: string | null;
+  tags: string[];
+}
+
+function fieldValue(field: RuleMatchField, txn: RuleTransaction): string | null {
+  switch (field) {
+    case "description":
+      return txn.description;
+    case "raw_text":
+      return txn.rawText;
+    case "up_category_id":
+      return txn.upCategoryId;
+  }
+}
+
+/**
+ * Whether a transaction meets every condition of a rule. Patterns are
+ * case-insensitive; an invalid regex never matches.
+ */
+export function matchesRule(rule: RuleDefinition, txn: RuleTransaction): boolean {
+  if (rule.minAmountCents !== null && txn.amountCents < rule.minAmountCents) return false;
+  if (rule.maxAmountCents !== null && txn.amountCents > rule.maxAmountCents) return false;
+  if (rule.upAccountId !== null && txn.upAccountId !== rule.upAccountId) return false;
+  if (rule.isTransfer !== null && txn.isTransfer !== rule.isTransfer) return false;
+
+  const value = fieldValue(rule.matchField, txn);
+  if (!value) return false;
+
+  switch (rule.matchType) {
+    case "contains":
+      return value.toUpperCase().includes(rule.pattern.toUpperCase());
+    case "exact":
+      return value.toUpperCase() === rule.pattern.toUpperCase();
+    case "regex":
+      try {
+        return new RegExp(rule.pattern, "i").test(value);
+      } catch {
+        return false;
+      }
+  }
+}
+
+/**
+ * Applies rules to a transaction. The first matching rule with a saver
+ * sets the saver/category, the first with a Mjolnir category sets that,
+ * and tags from every matching rule are combined.
+ *
+ * @param rules - Active rules in priority order
+ * @returns The classification, or null when no rule matched
+ */
+export function applyCategorisationRules(
+  rules: (RuleDefinition & { id: string })[],
+  txn: RuleTransaction
+): RuleClassification | null {
+  const result: RuleClassification = {
+    ruleIds: [],
+    decidingRuleId: null,
+    mjolnirCategoryId: null,
+    saverKey: null,
+    categoryKey: null,
+    tags: [],
+  };
+  let categoryRuleId: string | null = null;
+  let saverRuleId: string | null = null;
+
+  for (const rule of rules) {
+    if (!matchesRule(rule, txn)) continue;
+
+    result.ruleIds.push(rule.id);
+    if (!result.mjolnirCategoryId && rule.mjolnirCategoryId) {
+      result.mjolnirCategoryId = rule.mjolnirCategoryId;
+      categoryRuleId = rule.id;
+    }
+    if (!result.saverKey && rule.saverKey && rule.categoryKey) {
+      result.saverKey = rule.saverKey;
+      result.categoryKey = rule.categoryKey;
+      saverRuleId = rule.id;
+    }
+    for (const tag of rule.tags) {
+      if (!result.tags.includes(tag)) result.tags.push(tag);
+    }
+  }
+
+  if (result.ruleIds.length === 0) return null;
+
+  result.decidingRuleId = saverRuleId ?? categoryRuleId;
+  return result;
+}
+
+/**
+ * Loads the active rules in the order they are applied.
+ */
+export async function getActiveCategorisationRules(): Promise<CategorisationRule[]> {
+  return db
+    .select()
+    .from(categorisationRules)
+    .where(eq(categorisationRules.isActive, true))
+    .orderBy(asc(categorisationRules.priority), asc(categorisationRules.createdAt));
+}
+
+/**
+ * Priority for a merchant rule that should override the UP category
+ * rules: just before the first of them, or after every rule if there are
+ * none.
+ */
+export async function getMerchantRulePriority(): Promise<number> {
+  const rules = await db
+    .select({ priority: categorisationRules.priority, matchField: categorisationRules.matchField })
+    .from(categorisationRules)
+    .orderBy(asc(categorisationRules.priority));
+
+  const firstCategoryRule = rules.find((r) => r.matchField === "up_category_id");
+  if (firstCategoryRule) return Math.max(0, firstCategoryRule.priority - 1);
+  return rules.length > 0 ? rules[rules.length - 1].priority + 10 : 10;
+}
+
+// ---------------------------------------------------------------------------
+// Preview
+// ---------------------------------------------------------------------------
+
+// Matches listed in a preview; counts and totals cover every match
+const MAX_PREVIEW_MATCHES = 200;
+
+interface PreviewClassification {
+  mjolnirCategoryId: string | null;
+  saverKey: string | null;
+  categoryKey: string | null;
+  tags: string[];
+}
+
+export interface RulePreviewMatch {
+  id: string;
+  transactionDate: string;
+  description: string;
+  amountCents: number;
+  current: PreviewClassification;
+  proposed: PreviewClassification;
+  /** Whether syncing now would classify it differently from today */
+  changed: boolean;
+  /** Name of a higher-priority rule that decides the saver/category instead */
+  decidedBy: string | null;
+}
+
+export interface RulePreview {
+  days: number;
+  transactionCount: number;
+  matchCount: number;
+  changedCount: number;
+  totalCents: number;
+  matches: RulePreviewMatch[];
+}
+
+/**
+ * Tests a rule against the last RULE_PREVIEW_DAYS days of transactions.
+ * Each match shows its current classification and the one the active rules,
+ * with this rule in place, would give it if it were synced now. Nothing is
+ * written.
+ *
+ * @param rule - Rule to test, saved or not
+ * @param priority - Where the rule sits among the active rules
+ * @param ruleId - ID of the saved rule being edited, so its stored version is replaced
+ */
+export async function previewCategorisationRule(
+  rule: RuleDefinition,
+  priority: number,
+  ruleId?: string
+): Promise<RulePreview> {
+  const since = format(subDays(new Date(), RULE_PREVIEW_DAYS), "yyyy-MM-dd");
+
+  const [activeRules, transactions] = await Promise.all([
+    getActiveCategorisationRules(),
+    db
+      .select()
+      .from(upTransactions)
+      .where(and(gte(upTransactions.transactionDate, since), isNull(upTransactions.deletedAt)))
+      .orderBy(desc(upTransactions.transactionDate)),
+  ]);
+
+  // Preview rule goes after saved rules of the same priority, as a new rule would
+  const previewId = ruleId ?? "preview";
+  const others = activeRules.filter((r) => r.id !== previewId);
+  const insertAt = others.findIndex((r) => r.priority > priority);
+  const ruleset: (RuleDefinition & { id: string })[] = [...others];
+  ruleset.splice(insertAt === -1 ? others.length : insertAt, 0, { ...rule, id: previewId });
+  const ruleNames = new Map(others.map((r) => [r.id, r.name]));
+
+  const matches: RulePreviewMatch[] = [];
+  let matchCount = 0;
+  let changedCount = 0;
+  let totalCents = 0;
+
+  for (const txn of transactions) {
+    const input: RuleTransaction = {
+      description: txn.description,
+      rawText: txn.rawText,
+      upCategoryId: txn.upCategoryId,
+      upAccountId: txn.upAccountId,
+      amountCents: txn.amountCents,
+      isTransfer: txn.isTransfer,
+    };
+    if (!matchesRule(rule, input)) continue;
+
+    const outcome = applyCategorisationRules(ruleset, input)!;
+    const current: PreviewClassification = {
+      mjolnirCategoryId: txn.mjolnirCategoryId,
+      saverKey: txn.saverKey,
+      categoryKey: txn.categoryKey,
+      tags: (txn.tags as string[] | null) ?? [],
+    };
+    const proposed: PreviewClassification = {
+      mjolnirCategoryId: outcome.mjolnirCategoryId ?? current.mjolnirCategoryId,
+      saverKey: outcome.saverKey ?? current.saverKey,
+      categoryKey: outcome.categoryKey ?? current.categoryKey,
+      tags: outcome.tags.length > 0 ? outcome.tags : current.tags,
+    };
+    const changed =
+      proposed.mjolnirCategoryId !== current.mjolnirCategoryId ||
+      proposed.saverKey !== current.saverKey ||
+      proposed.categoryKey !== current.categoryKey ||
+      proposed.tags.join(",") !== current.tags.join(",");
+
+    matchCount++;
+    totalCents += txn.amountCents;
+    if (changed) changedCount++;
+
+    if (matches.length < MAX_PREVIEW_MATCHES) {
+      matches.push({
+        id: txn.id,
+        transactionDate: txn.transactionDate,
+        description: txn.description,
+        amountCents: txn.amountCents,
+        current,
+        proposed,
+        changed,
+        decidedBy:
+          outcome.decidingRuleId && outcome.decidingRuleId !== previewId
+            ? (ruleNames.get(outcome.decidingRuleId) ?? null)
+            : null,
+      });
+    }
+  }
+
+  return {
+    days: RULE_PREVIEW_DAYS,
+    transactionCount: transactions.length,
+    matchCount,
+    changedCount,
+    totalCents,
+    matches,
+  };
+}
@@ -6,6 +6,7 @@ import {
   upTransactions,
 } from "@/lib/db/schema";
 import { and, eq, gte, lte, isNull, sql } from "drizzle-orm";
+import { getIncomeBySource, type IncomeSourceTotal } from "@/lib/budget/income";
 
 // -----------------------------------------------------------------------------
 // Types
@@ -32,6 +33,7 @@ export interface BudgetSummary {
   income: {
     expectedCents: number;
     actualCents: number;
+    sources: IncomeSourceTotal[];
   };
   categories: CategoryBreakdown[];
   totals: {
@@ -104,22 +106,9 @@ export async function calculateBudgetSummary(
   const { startDate, endDate, expectedIncomeCents } = period;
 
   // Now fetch income and spending with the period date range
-  const [actualIncomeRows, actualSpendingRows] = await Promise.all([
-    // Income: sum of transactions where category = 'income'
-    db
-      .select({
-        totalCents: sql<number>`COALESCE(SUM(${upTransactions.amountCents}), 0)`,
-      })
-      .from(upTransactions)
-      .where(
-        and(
-          eq(upTransactions.mjolnirCategoryId, "income"),
-          gte(upTransactions.transactionDate, startDate),
-          lte(upTransactions.transactionDate, endDate),
-          eq(upTransactions.isTransfer, false),
-          isNull(upTransactions.deletedAt)
-        )
-      ),
+  const [income, actualSpendingRows] = await Promise.all([
+    // Income: credits classified as income, split by source
+    getIncomeBySource(startDate, endDate),
 
     // Spending per category: sum of debit transactions grouped by category
     db
@@ -140,7 +129,7 @@ export async function calculateBudgetSummary(
       .groupBy(upTransactions.mjolnirCategoryId),
   ]);
 
-  const actualIncomeCents = Number(actualIncomeRows[0]?.totalCents ?? 0);
+  const actualIncomeCents = income.actualCents;
 
   // Build a map of category spending
   const spendingMap = new Map<string, number>();
@@ -204,6 +193,7 @@ export async function calculateBudgetSummary(
     income: {
       expectedCents: expectedIncomeCents,
       actualCents: actualIncomeCents,
+      sources: income.sources,
     },
     categories,
     totals: {
@@ -0,0 +1,693 @@
+/**
+ * Target allocation service.
+ *
+ * Compares the current asset breakdown (see net-worth.ts) with the user's
+ * target weights, and plans trades that move the portfolio towards them.
+ *
+ * Targets are set within a scope:
+ * - asset_type: Stocks, ETFs, crypto, super, cash, property, vehicles
+ * - holding: Individual holdings
+ * - bucket: Named custom groups of holdings
+ * Anything without a target in the scope falls into an "untargeted" group
+ * whose target is whatever is left of 100%.
+ *
+ * Drift = current weight - target weight, in percentage points of total
+ * assets (positive = overweight).
+ *
+ * Planning (tradeable holdings with a cached price only, whole units):
+ * - buy: Spends new cash, repeatedly topping up the group furthest below its
+ *   target value. Nothing is sold.
+ * - rebalance: First sells whole units from overweight groups, then spends
+ *   the proceeds plus any new cash as above. The capital gain the sales
+ *   would realise is estimated from the holding's open lots.
+ *
+ * Brokerage is not included in planned orders.
+ */
+
+import { db } from "@/lib/db";
+import { allocationTargets, holdings, type AllocationTarget, type Holding } from "@/lib/db/schema";
+import { eq, and, asc } from "drizzle-orm";
+import { format } from "date-fns";
+import { calculateAssetBreakdown, type AssetBreakdown } from "./net-worth";
+import {
+  getLotTransactions,
+  getLotCorporateActions,
+  matchLots,
+  type LotTransaction,
+} from "./cost-basis";
+import {
+  toParcel,
+  summariseCapitalGains,
+  type CapitalGainsSummary,
+  type RealisedGainEvent,
+} from "./capital-gains";
+import { getTradeableHoldings } from "./returns";
+import { getCachedPrice } from "@/lib/services/price-cache";
+import { getPriceSymbol } from "@/lib/services/price-history";
+import { getAudRateHistories, convertToAudAsOf } from "@/lib/services/exchange-rate-history";
+import { convertCurrency, type Currency, type ExchangeRates } from "@/lib/utils/currency";
+import { getFinancialYear } from "@/lib/utils/financial-year";
+import {
+  HOLDING_TYPE_LABELS,
+  type AllocationPlanMode,
+  type AllocationScope,
+} from "@/lib/constants";
+
+/** Key of the group holding everything without a target in the scope. */
+export const UNTARGETED_GROUP_KEY = "untargeted";
+
+// Upper bound on planner iterations; each buys at least one unit
+const MAX_PLAN_STEPS = 1000;
+
+// ID given to the hypothetical SELL when estimating its capital gain
+const PLANNED_SELL_ID = "planned";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A stored target with the name of its holding (holding scope only).
+ */
+export interface AllocationTargetWithName extends AllocationTarget {
+  /** Name of the targeted holding, or null for other scopes */
+  holdingName: string | null;
+}
+
+/**
+ * Current vs target weight for one group of holdings.
+ */
+export interface AllocationGroup {
+  /** Asset type, holding ID, bucket target ID, or "untargeted" */
+  key: string;
+  /** Display name */
+  label: string;
+  /** Target weight (% of total assets) */
+  targetPercent: number;
+  /** Current value in display currency */
+  currentValue: number;
+  /** Current weight (% of total assets) */
+  currentPercent: number;
+  /** Current - target weight, in percentage points */
+  driftPercent: number;
+  /** Current - target value, in display currency */
+  driftValue: number;
+}
+
+/**
+ * Drift of every group in a scope.
+ */
+export interface AllocationDrift {
+  /** Scope the groups belong to */
+  scope: AllocationScope;
+  /** True if the user has set any targets in the scope */
+  hasTargets: boolean;
+  /** Sum of the stored targets (the untargeted group gets the rest) */
+  totalTargetPercent: number;
+  /** Groups, largest target first, untargeted last */
+  groups: AllocationGroup[];
+  /** Total assets (excluding debt) in display currency */
+  totalAssets: number;
+  /** Display currency used for values */
+  displayCurrency: Currency;
+  /** Timestamp when calculation was performed */
+  calculatedAt: Date;
+}
+
+/**
+ * A proposed trade.
+ */
+export interface PlannedOrder {
+  /** Holding ID */
+  holdingId: string;
+  /** Holding name */
+  name: string;
+  /** Trading symbol */
+  symbol: string;
+  /** Group the holding belongs to */
+  groupKey: string;
+  /** BUY or SELL */
+  action: "BUY" | "SELL";
+  /** Whole units to trade */
+  quantity: number;
+  /** Cached unit price in `currency` */
+  price: number;
+  /** Currency of the price */
+  currency: string;
+  /** Quantity x price in display currency */
+  value: number;
+  /** Estimated gain (or loss) the sale would realise in AUD, before discount (SELL only) */
+  estimatedGainAud: number | null;
+}
+
+/**
+ * Options for allocation planning.
+ */
+export interface PlanAllocationOptions {
+  /** New cash to invest, in display currency (may be 0 when rebalancing) */
+  amount: number;
+  /** "buy" (default) only buys; "rebalance" also sells overweight holdings */
+  mode?: AllocationPlanMode;
+  /** Display currency for values. Defaults to AUD. */
+  displayCurrency?: Currency;
+  /** Marginal tax rate (%) used to estimate CGT on sales */
+  marginalTaxRate?: number;
+}
+
+/**
+ * Proposed orders and the allocation they would produce.
+ */
+export interface AllocationPlan {
+  /** Scope the targets belong to */
+  scope: AllocationScope;
+  /** Planning mode used */
+  mode: AllocationPlanMode;
+  /** True if the user has set any targets in the scope */
+  hasTargets: boolean;
+  /** New cash to invest, in display currency */
+  amount: number;
+  /** Sells first, then buys */
+  orders: PlannedOrder[];
+  /** Total value of buys in display currency */
+  totalBuys: number;
+  /** Total value of sells in display currency */
+  totalSells: number;
+  /** Cash left over because no further whole unit would reduce drift */
+  unallocatedCash: number;
+  /** Allocation now */
+  before: AllocationGroup[];
+  /** Allocation after the orders, excluding unallocated cash */
+  after: AllocationGroup[];
+  /** Capital gains the sells would realise, in AUD (rebalance mode only) */
+  capitalGains: CapitalGainsSummary | null;
+  /**
+   * Net capital gain x marginal tax rate, in AUD. Ignores other gains and
+   * losses in the financial year. Null when no tax rate is given.
+   */
+  estimatedTax: number | null;
+  /** Display currency used for values */
+  displayCurrency: Currency;
+  /** Timestamp when calculation was performed */
+  calculatedAt: Date;
+}
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+/**
+ * A group's target, before values are added.
+ */
+interface GroupDefinition {
+  key: string;
+  label: string;
+  targetPercent: number;
+}
+
+/**
+ * A tradeable holding the planner can buy or sell.
+ */
+interface TradeCandidate {
+  holding: Holding;
+  groupKey: string;
+  /** Cached price in `currency` */
+  price: number;
+  currency: string;
+  /** Price in display currency */
+  unitValue: number;
+  /** Units currently held */
+  quantityHeld: number;
+  /** Current value in display currency */
+  value: number;
+}
+
+/**
+ * Builds the group definitions for a scope and a function that places a
+ * holding in its group.
+ */
+function buildGroups(
+  scope: AllocationScope,
+  targets: AllocationTargetWithName[]
+): {
+  definitions: GroupDefinition[];
+  groupKeyFor: (holdingId: string, type: Holding["type"]) => string;
+} {
+  const totalTargetPercent = targets.reduce((sum, t) => sum + Number(t.targetPercent), 0);
+  const untargeted: GroupDefinition = {
+    key: UNTARGETED_GROUP_KEY,
+    label: "Untargeted",
+    targetPercent: Math.max(0, 100 - totalTargetPercent),
+  };
+
+  const definitions: GroupDefinition[] = targets.map((t) => {
+    const targetPercent = Number(t.targetPercent);
+    switch (scope) {
+      case "asset_type":
+        return { key: t.assetType!, label: HOLDING_TYPE_LABELS[t.assetType!], targetPercent };
+      case "holding":
+        return { key: t.holdingId!, label: t.holdingName ?? "Unknown holding", targetPercent };
+      case "bucket":
+        return { key: t.id, label: t.bucketName!, targetPercent };
+    }
+  });
+  definitions.sort((a, b) => b.targetPercent - a.targetPercent);
+  definitions.push(untargeted);
+
+  const bucketByHolding = new Map<string, string>();
+  for (const target of targets) {
+    for (const holdingId of target.bucketHoldingIds ?? []) {
+      bucketByHolding.set(holdingId, target.id);
+    }
+  }
+  const targetedKeys = new Set(definitions.map((d) => d.key));
+
+  const groupKeyFor = (holdingId: string, type: Holding["type"]): string => {
+    switch (scope) {
+      case "asset_type":
+        return targetedKeys.has(type) ? type : UNTARGETED_GROUP_KEY;
+      case "holding":
+        return targetedKeys.has(holdingId) ? holdingId : UNTARGETED_GROUP_KEY;
+      case "bucket":
+        return bucketByHolding.get(holdingId) ?? UNTARGETED_GROUP_KEY;
+    }
+  };
+
+  return { definitions, groupKeyFor };
+}
+
+/**
+ * Sums the current value of each group from the asset breakdown.
+ */
+function sumGroupValues(
+  breakdown: AssetBreakdown,
+  groupKeyFor: (holdingId: string, type: Holding["type"]) => string
+): Map<string, number> {
+  const values = new Map<string, number>();
+  for (const item of breakdown.assets) {
+    for (const h of item.holdings) {
+      const key = groupKeyFor(h.id, item.type);
+      values.set(key, (values.get(key) ?? 0) + h.value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Combines group targets with values. The untargeted group is dropped when
+ * it has neither a target nor a value.
+ */
+function toAllocationGroups(
+  definitions: GroupDefinition[],
+  values: Map<string, number>,
+  total: number
+): AllocationGroup[] {
+  return definitions
+    .map((d) => {
+      const currentValue = values.get(d.key) ?? 0;
+      const currentPercent = total > 0 ? (currentValue / total) * 100 : 0;
+      return {
+        key: d.key,
+        label: d.label,
+        targetPercent: d.targetPercent,
+        currentValue,
+        currentPercent,
+        driftPercent: currentPercent - d.targetPercent,
+        driftValue: currentValue - (d.targetPercent / 100) * total,
+      };
+    })
+    .filter(
+      (g) => g.key !== UNTARGETED_GROUP_KEY || g.targetPercent > 0 || g.currentValue > 0
+    );
+}
+
+/**
+ * Builds trade candidates from tradeable holdings with a cached price.
+ * Candidates are ordered largest position first, so buys add to a group's
+ * main holding before starting new ones.
+ */
+async function getTradeCandidates(
+  userId: string,
+  breakdown: AssetBreakdown,
+  groupKeyFor: (holdingId: string, type: Holding["type"]) => string
+): Promise<TradeCandidate[]> {
+  // Only active holdings with a symbol can be priced and traded
+  const tradeableHoldings = (await getTradeableHoldings(userId)).filter(
+    (h) => h.isActive && h.symbol
+  );
+  const held = new Map(
+    breakdown.assets.flatMap((item) => item.holdings).map((h) => [h.id, h])
+  );
+
+  const candidates: TradeCandidate[] = [];
+  for (const holding of tradeableHoldings) {
+    const cachedPrice = await getCachedPrice(getPriceSymbol(holding)!);
+    if (!cachedPrice || cachedPrice.price <= 0) {
+      continue;
+    }
+
+    const current = held.get(holding.id);
+    candidates.push({
+      holding,
+      groupKey: groupKeyFor(holding.id, holding.type),
+      price: cachedPrice.price,
+      currency: cachedPrice.currency,
+      unitValue: convertCurrency(
+        cachedPrice.price,
+        cachedPrice.currency as Currency,
+        breakdown.displayCurrency,
+        breakdown.ratesUsed
+      ),
+      quantityHeld: current?.quantity ?? 0,
+      value: current?.value ?? 0,
+    });
+  }
+
+  return candidates.sort((a, b) => b.value - a.value);
+}
+
+/**
+ * Plans whole-unit sells from groups above their target value.
+ *
+ * Never sells past the target, so a group only reaches it when a whole
+ * number of units fits the excess.
+ *
+ * @param gaps - Target - current value per group; updated in place
+ * @returns Units to sell per candidate
+ */
+function planSells(
+  candidates: TradeCandidate[],
+  gaps: Map<string, number>
+): Map<TradeCandidate, number> {
+  const sells = new Map<TradeCandidate, number>();
+  const overweight = [...gaps.entries()]
+    .filter(([, gap]) => gap < 0)
+    .sort((a, b) => a[1] - b[1]);
+
+  for (const [key] of overweight) {
+    for (const candidate of candidates.filter((c) => c.groupKey === key)) {
+      const excess = -(gaps.get(key) ?? 0);
+      const units = Math.min(
+        Math.floor(candidate.quantityHeld),
+        Math.floor(excess / candidate.unitValue)
+      );
+      if (units < 1) continue;
+
+      sells.set(candidate, units);
+      gaps.set(key, (gaps.get(key) ?? 0) + units * candidate.unitValue);
+    }
+  }
+
+  return sells;
+}
+
+/**
+ * Plans whole-unit buys that close the largest shortfalls first.
+ *
+ * Each step tops up the group furthest below its target value until it is
+ * level with the next furthest, buying the group's largest affordable
+ * holding. A unit is only bought when the shortfall is at least half its
+ * price, i.e. when buying it brings the group closer to target.
+ *
+ * @param gaps - Target - current value per group; updated in place
+ * @param cash - Cash available in display currency
+ * @returns Units to buy per candidate, and the cash left over
+ */
+function planBuys(
+  candidates: TradeCandidate[],
+  gaps: Map<string, number>,
+  cash: number
+): { buys: Map<TradeCandidate, number>; remainingCash: number } {
+  const buys = new Map<TradeCandidate, number>();
+
+  for (let step = 0; step < MAX_PLAN_STEPS; step++) {
+    const affordable = (key: string, gap: number) =>
+      candidates.find(
+        (c) => c.groupKey === key && c.unitValue <= cash && c.unitValue / 2 <= gap
+      );
+
+    const open = [...gaps.entries()]
+      .filter(([key, gap]) => gap > 0 && affordable(key, gap))
+      .sort((a, b) => b[1] - a[1]);
+    if (open.length === 0) break;
+
+    const [[key, gap], next] = open;
+    const candidate = affordable(key, gap)!;
+    const levelWithNext = gap - (next?.[1] ?? 0);
+    const units = Math.max(
+      1,
+      Math.min(
+        Math.floor(levelWithNext / candidate.unitValue),
+        Math.floor(cash / candidate.unitValue)
+      )
+    );
+
+    buys.set(candidate, (buys.get(candidate) ?? 0) + units);
+    gaps.set(key, gap - units * candidate.unitValue);
+    cash -= units * candidate.unitValue;
+  }
+
+  return { buys, remainingCash: cash };
+}
+
+/**
+ * Estimates the realised gain from selling units today at the cached price,
+ * matching lots with the holding's cost basis method. Specific-lot holdings
+ * fall back to FIFO as no lots have been chosen.
+ */
+async function estimateSaleGain(
+  candidate: TradeCandidate,
+  quantity: number,
+  rates: ExchangeRates
+): Promise<RealisedGainEvent> {
+  const { holding } = candidate;
+  const today = format(new Date(), "yyyy-MM-dd");
+  const unitPrice = convertCurrency(
+    candidate.price,
+    candidate.currency as Currency,
+    holding.currency,
+    rates
+  );
+
+  const plannedSell: LotTransaction = {
+    id: PLANNED_SELL_ID,
+    date: today,
+    action: "SELL",
+    quantity: String(quantity),
+    unitPrice: String(unitPrice),
+    fees: "0",
+    lotSelections: null,
+  };
+  const [txns, actions] = await Promise.all([
+    getLotTransactions(holding.id),
+    getLotCorporateActions(holding.id),
+  ]);
+  const { matches } = matchLots([...txns, plannedSell], holding.costBasisMethod, actions);
+
+  const fxHistories = await getAudRateHistories([holding.currency]);
+  const audRateOn = (date: string) =>
+    convertToAudAsOf(1, holding.currency, date, fxHistories);
+  const disposedAudRate = await audRateOn(today);
+
+  const parcels = [];
+  for (const match of matches.filter((m) => m.sellTransactionId === PLANNED_SELL_ID)) {
+    parcels.push(toParcel(match, await audRateOn(match.lotDate), disposedAudRate));
+  }
+  const proceeds = parcels.reduce((sum, p) => sum + p.proceeds, 0);
+  const costBase = parcels.reduce((sum, p) => sum + p.costBase, 0);
+  const proceedsAud = parcels.reduce((sum, p) => sum + p.proceedsAud, 0);
+  const costBaseAud = parcels.reduce((sum, p) => sum + p.costBaseAud, 0);
+
+  return {
+    transactionId: PLANNED_SELL_ID,
+    holdingId: holding.id,
+    name: holding.name,
+    symbol: holding.symbol,
+    currency: holding.currency,
+    sellDate: today,
+    financialYear: getFinancialYear(today),
+    quantity,
+    proceeds,
+    costBase,
+    gain: proceeds - costBase,
+    proceedsAud,
+    costBaseAud,
+    gainAud: proceedsAud - costBaseAud,
+    parcels,
+  };
+}
+
+/**
+ * Converts planned units into an order.
+ */
+function toOrder(
+  candidate: TradeCandidate,
+  action: "BUY" | "SELL",
+  quantity: number,
+  estimatedGainAud: number | null = null
+): PlannedOrder {
+  return {
+    holdingId: candidate.holding.id,
+    name: candidate.holding.name,
+    symbol: candidate.holding.symbol!,
+    groupKey: candidate.groupKey,
+    action,
+    quantity,
+    price: candidate.price,
+    currency: candidate.currency,
+    value: quantity * candidate.unitValue,
+    estimatedGainAud,
+  };
+}
+
+// =============================================================================
+// MAIN CALCULATION FUNCTIONS
+// =============================================================================
+
+/**
+ * Gets the user's allocation targets, optionally for one scope only.
+ *
+ * @param userId - The user ID to get targets for
+ * @param scope - Optional scope to filter by
+ * @returns Targets with holding names, oldest first
+ */
+export async function getAllocationTargets(
+  userId: string,
+  scope?: AllocationScope
+): Promise<AllocationTargetWithName[]> {
+  const conditions = [eq(allocationTargets.userId, userId)];
+  if (scope) {
+    conditions.push(eq(allocationTargets.scope, scope));
+  }
+
+  const rows = await db
+    .select({ target: allocationTargets, holdingName: holdings.name })
+    .from(allocationTargets)
+    .leftJoin(holdings, eq(allocationTargets.holdingId, holdings.id))
+    .where(and(...conditions))
+    .orderBy(asc(allocationTargets.createdAt));
+
+  return rows.map((r) => ({ ...r.target, holdingName: r.holdingName }));
+}
+
+/**
+ * Calculates how far each group in a scope is from its target weight.
+ *
+ * @param userId - The user ID to calculate drift for
+ * @param scope - Which targets to compare against
+ * @param displayCurrency - Currency for values (default AUD)
+ * @returns AllocationDrift with a row per targeted group plus untargeted
+ *
+ * @example
+ * const drift = await calculateAllocationDrift("user_123", "asset_type");
+ * drift.groups.forEach(g => {
+ *   console.log(`${g.label}: ${g.currentPercent.toFixed(1)}% vs ${g.targetPercent}%`);
+ * });
+ */
+export async function calculateAllocationDrift(
+  userId: string,
+  scope: AllocationScope,
+  displayCurrency: Currency = "AUD"
+): Promise<AllocationDrift> {
+  const calculatedAt = new Date();
+  const targets = await getAllocationTargets(userId, scope);
+  const breakdown = await calculateAssetBreakdown(userId, { displayCurrency });
+
+  const { definitions, groupKeyFor } = buildGroups(scope, targets);
+  const values = sumGroupValues(breakdown, groupKeyFor);
+
+  return {
+    scope,
+    hasTargets: targets.length > 0,
+    totalTargetPercent: targets.reduce((sum, t) => sum + Number(t.targetPercent), 0),
+    groups: toAllocationGroups(definitions, values, breakdown.totalAssets),
+    totalAssets: breakdown.totalAssets,
+    displayCurrency,
+    calculatedAt,
+  };
+}
+
+/**
+ * Proposes whole-unit orders that move the portfolio towards its targets.
+ *
+ * Targets are applied to total assets plus the new cash. Only tradeable
+ * holdings with a cached price are traded; super, cash, property and
+ * vehicles count towards their group but are never bought or sold.
+ *
+ * @param userId - The user ID to plan for
+ * @param scope - Which targets to plan against
+ * @param options - Cash to invest, mode, display currency and tax rate
+ * @returns AllocationPlan with orders and the before/after allocation
+ *
+ * @example
+ * // Invest $5,000 without selling anything
+ * const plan = await planAllocation("user_123", "asset_type", { amount: 5000 });
+ * plan.orders.forEach(o => console.log(`${o.action} ${o.quantity} ${o.symbol}`));
+ */
+export async function planAllocation(
+  userId: string,
+  scope: AllocationScope,
+  options: PlanAllocationOptions
+): Promise<AllocationPlan> {
+  const { amount, mode = "buy", displayCurrency = "AUD", marginalTaxRate } = options;
+  const calculatedAt = new Date();
+  const targets = await getAllocationTargets(userId, scope);
+  const breakdown = await calculateAssetBreakdown(userId, { displayCurrency });
+
+  const { definitions, groupKeyFor } = buildGroups(scope, targets);
+  const values = sumGroupValues(breakdown, groupKeyFor);
+  const before = toAllocationGroups(definitions, values, breakdown.totalAssets);
+
+  const totalAfter = breakdown.totalAssets + amount;
+  const gaps = new Map(
+    definitions.map((d) => [d.key, (d.targetPercent / 100) * totalAfter - (values.get(d.key) ?? 0)])
+  );
+
+  const candidates =
+    targets.length > 0 ? await getTradeCandidates(userId, breakdown, groupKeyFor) : [];
+
+  const sells = mode === "rebalance" ? planSells(candidates, gaps) : new Map<TradeCandidate, number>();
+  const totalSells = [...sells].reduce((sum, [c, units]) => sum + units * c.unitValue, 0);
+
+  const { buys, remainingCash } = planBuys(candidates, gaps, amount + totalSells);
+  const totalBuys = [...buys].reduce((sum, [c, units]) => sum + units * c.unitValue, 0);
+
+  // Estimate the capital gain each sale would realise
+  const saleEvents: RealisedGainEvent[] = [];
+  const orders: PlannedOrder[] = [];
+  for (const [candidate, units] of sells) {
+    const event = await estimateSaleGain(candidate, units, breakdown.ratesUsed);
+    saleEvents.push(event);
+    orders.push(toOrder(candidate, "SELL", units, event.gainAud));
+  }
+  for (const [candidate, units] of buys) {
+    orders.push(toOrder(candidate, "BUY", units));
+  }
+
+  const afterValues = new Map(values);
+  for (const order of orders) {
+    const change = order.action === "BUY" ? order.value : -order.value;
+    afterValues.set(order.groupKey, (afterValues.get(order.groupKey) ?? 0) + change);
+  }
+
+  const capitalGains = mode === "rebalance" ? summariseCapitalGains(saleEvents) : null;
+
+  return {
+    scope,
+    mode,
+    hasTargets: targets.length > 0,
+    amount,
+    orders,
+    totalBuys,
+    totalSells,
+    unallocatedCash: remainingCash,
+    before,
+    after: toAllocationGroups(definitions, afterValues, totalAfter - remainingCash),
+    capitalGains,
+    estimatedTax:
+      capitalGains && marginalTaxRate !== undefined
+        ? capitalGains.netCapitalGain * (marginalTaxRate / 100)
+        : null,
+    displayCurrency,
+    calculatedAt,
+  };
+}
@@ -0,0 +1,393 @@
+/**
+ * Benchmark comparison service.
+ *
+ * Answers "would we have done better just buying the index?". Every external
+ * cash flow into the tradeable portfolio (BUYs and transfers in, less SELL
+ * proceeds, transfers out and returns of capital; see `getGroupFlows`) is
+ * replayed against a benchmark symbol instead: a contribution buys benchmark
+ * units at that day's close, a withdrawal sells them. The simulated
+ * benchmark value is then compared with the actual portfolio value, month by
+ * month and per calendar year.
+ *
+ * Benchmark closes come from the stored daily price history, backfilled from
+ * Yahoo Finance on first use. Yahoo closes are price-only, so the
+ * comparison is price return against price return: dividends are left out
+ * of the portfolio's gain too (a reinvested dividend's BUY counts as new
+ * money, like any other BUY).
+ *
+ * Yearly returns use the Modified Dietz method, weighting each flow by the
+ * share of the year it was invested for. All amounts are in AUD, with
+ * closes converted at the exchange rate on their own date.
+ */
+
+import { format, parseISO, subDays, differenceInCalendarDays } from "date-fns";
+import {
+  getAudRateHistories,
+  convertToAudAsOf,
+} from "@/lib/services/exchange-rate-history";
+import {
+  backfillPriceHistory,
+  getPriceHistory,
+  getPriceSymbol,
+  findCloseAsOf,
+  type HoldingForPriceHistory,
+  type PriceHistoryPoint,
+} from "@/lib/services/price-history";
+import {
+  getGroupFlows,
+  getHoldingTimelines,
+  getTradeableHoldings,
+  valueAsOf,
+  type HoldingTimeline,
+} from "./returns";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Portfolio and simulated benchmark values at a month end.
+ */
+export interface BenchmarkSeriesPoint {
+  /** Month end, or today for the current month (YYYY-MM-DD) */
+  date: string;
+  /** Market value of the tradeable portfolio in AUD */
+  portfolio: number;
+  /** Simulated value per benchmark symbol in AUD */
+  benchmarks: Record<string, number>;
+}
+
+/**
+ * One benchmark's result for a calendar year.
+ */
+export interface BenchmarkYearResult {
+  symbol: string;
+  /** End value - start value - net contributions, in AUD */
+  gain: number;
+  /** Modified Dietz return (%), or null with nothing invested */
+  return: number | null;
+  /** Portfolio return less benchmark return (percentage points), or null */
+  outperformance: number | null;
+}
+
+/**
+ * Portfolio and benchmark performance over a calendar year (year to date
+ * for the current year, from the first transaction for the first year).
+ */
+export interface BenchmarkYear {
+  year: number;
+  startDate: string;
+  endDate: string;
+  /** Contributions less withdrawals within the year in AUD */
+  netContributions: number;
+  /** Portfolio end value - start value - net contributions, in AUD */
+  portfolioGain: number;
+  /** Portfolio Modified Dietz return (%), or null with nothing invested */
+  portfolioReturn: number | null;
+  benchmarks: BenchmarkYearResult[];
+}
+
+/**
+ * Benchmark comparison report.
+ */
+export interface BenchmarkComparison {
+  /** Benchmark symbols with price history, in the order requested */
+  symbols: string[];
+  /** Requested symbols with no price history (unknown or fetch failed) */
+  unavailable: string[];
+  /** Monthly values for the requested period, oldest first */
+  series: BenchmarkSeriesPoint[];
+  /** Per calendar year since the first transaction, oldest first */
+  years: BenchmarkYear[];
+  /** Timestamp when calculation was performed */
+  calculatedAt: Date;
+}
+
+/**
+ * Benchmark units held after each flow date, oldest first.
+ */
+interface BenchmarkSimulation {
+  symbol: string;
+  /** Closes in AUD, oldest first */
+  closes: PriceHistoryPoint[];
+  units: Array<{ date: string; units: number }>;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Treats a benchmark symbol as a Yahoo-priced ETF so it shares the price
+ * history path (and stored closes) of holdings with the same symbol.
+ */
+function toBenchmarkHolding(symbol: string): HoldingForPriceHistory {
+  return {
+    id: symbol,
+    type: "etf",
+    symbol,
+    exchange: null,
+    priceProvider: "yahoo",
+    priceSourceSymbol: null,
+    priceRatio: null,
+  };
+}
+
+/**
+ * Loads a benchmark's daily closes in AUD from `fromDate`, backfilling them
+ * from Yahoo Finance first. Returns an empty list if none can be found.
+ */
+async function getBenchmarkCloses(
+  symbol: string,
+  fromDate: string
+): Promise<PriceHistoryPoint[]> {
+  const holding = toBenchmarkHolding(symbol);
+  const priceSymbol = getPriceSymbol(holding)!;
+
+  try {
+    await backfillPriceHistory(holding, parseISO(fromDate));
+  } catch (error) {
+    // Fall back to whatever is already stored
+    console.error(`Failed to backfill benchmark ${symbol}:`, error);
+  }
+
+  const history = await getPriceHistory(priceSymbol, fromDate);
+  const fxHistories = await getAudRateHistories(
+    history.map((point) => point.currency),
+    fromDate
+  );
+
+  const closes: PriceHistoryPoint[] = [];
+  for (const point of history) {
+    closes.push({
+      date: point.date,
+      close: await convertToAudAsOf(point.close, point.currency, point.date, fxHistories),
+      currency: "AUD",
+    });
+  }
+  return closes;
+}
+
+/**
+ * Benchmark close in AUD on `date`. Flows before the stored history begins
+ * use its earliest close.
+ */
+function benchmarkPriceAsOf(closes: PriceHistoryPoint[], date: string): number {
+  return (findCloseAsOf(closes, date) ?? closes[0]).close;
+}
+
+/**
+ * Replays dated contributions against a benchmark. Withdrawals larger than
+ * the benchmark holding sell it down to nothing.
+ */
+function simulateBenchmark(
+  symbol: string,
+  closes: PriceHistoryPoint[],
+  flows: Array<[string, number]>
+): BenchmarkSimulation {
+  const units: BenchmarkSimulation["units"] = [];
+  let held = 0;
+  for (const [date, amount] of flows) {
+    held = Math.max(held + amount / benchmarkPriceAsOf(closes, date), 0);
+    units.push({ date, units: held });
+  }
+  return { symbol, closes, units };
+}
+
+/**
+ * Simulated benchmark value in AUD on `date`.
+ */
+function benchmarkValueAsOf(simulation: BenchmarkSimulation, date: string): number {
+  let units = 0;
+  for (const point of simulation.units) {
+    if (point.date > date) {
+      break;
+    }
+    units = point.units;
+  }
+  return units === 0 ? 0 : units * benchmarkPriceAsOf(simulation.closes, date);
+}
+
+/**
+ * Modified Dietz return (%) over a period: gain divided by the start value
+ * plus each flow weighted by the share of the period it was invested for.
+ *
+ * @returns The return, or null if nothing was invested
+ */
+function modifiedDietz(
+  startDate: string,
+  endDate: string,
+  startValue: number,
+  endValue: number,
+  flows: Array<[string, number]>
+): number | null {
+  const days = differenceInCalendarDays(parseISO(endDate), parseISO(startDate));
+  let netFlow = 0;
+  let weightedFlow = 0;
+  for (const [date, amount] of flows) {
+    netFlow += amount;
+    weightedFlow +=
+      days > 0 ? (amount * differenceInCalendarDays(parseISO(endDate), parseISO(date))) / days : amount;
+  }
+
+  const invested = startValue + weightedFlow;
+  if (invested <= 0) {
+    return null;
+  }
+  return ((endValue - startValue - netFlow) / invested) * 100;
+}
+
+/**
+ * Month-end dates (YYYY-MM-DD) for the last N months, the current month
+ * ending today.
+ */
+function getMonthEnds(months: number, today: Date): string[] {
+  const todayStr = format(today, "yyyy-MM-dd");
+  const dates: string[] = [];
+  for (let i = months - 1; i >= 0; i--) {
+    const monthEnd = format(
+      new Date(today.getFullYear(), today.getMonth() - i + 1, 0),
+      "yyyy-MM-dd"
+    );
+    dates.push(monthEnd > todayStr ? todayStr : monthEnd);
+  }
+  return dates;
+}
+
+/**
+ * Calendar-year results for the portfolio and each benchmark, from the
+ * year of `inceptionDate` to the current year.
+ */
+function calculateYears(
+  timelines: HoldingTimeline[],
+  simulations: BenchmarkSimulation[],
+  flows: Array<[string, number]>,
+  inceptionDate: string,
+  endDate: string
+): BenchmarkYear[] {
+  const years: BenchmarkYear[] = [];
+  const firstYear = parseISO(inceptionDate).getFullYear();
+  const lastYear = parseISO(endDate).getFullYear();
+
+  for (let year = firstYear; year <= lastYear; year++) {
+    const priorYearEnd = `${year - 1}-12-31`;
+    const startDate = priorYearEnd < inceptionDate ? inceptionDate : priorYearEnd;
+    const yearEnd = `${year}-12-31`;
+    const yearEndDate = yearEnd > endDate ? endDate : yearEnd;
+    const yearFlows = flows.filter(([date]) => date > startDate && date <= yearEndDate);
+    const netContributions = yearFlows.reduce((sum, [, amount]) => sum + amount, 0);
+
+    const portfolioStart = valueAsOf(timelines, startDate, endDate);
+    const portfolioEnd = valueAsOf(timelines, yearEndDate, endDate);
+    const portfolioReturn = modifiedDietz(
+      startDate,
+      yearEndDate,
+      portfolioStart,
+      portfolioEnd,
+      yearFlows
+    );
+
+    years.push({
+      year,
+      startDate,
+      endDate: yearEndDate,
+      netContributions,
+      portfolioGain: portfolioEnd - portfolioStart - netContributions,
+      portfolioReturn,
+      benchmarks: simulations.map((simulation) => {
+        const start = benchmarkValueAsOf(simulation, startDate);
+        const end = benchmarkValueAsOf(simulation, yearEndDate);
+        const benchmarkReturn = modifiedDietz(startDate, yearEndDate, start, end, yearFlows);
+        return {
+          symbol: simulation.symbol,
+          gain: end - start - netContributions,
+          return: benchmarkReturn,
+          outperformance:
+            portfolioReturn !== null && benchmarkReturn !== null
+              ? portfolioReturn - benchmarkReturn
+              : null,
+        };
+      }),
+    });
+  }
+
+  return years;
+}
+
+// =============================================================================
+// MAIN CALCULATION FUNCTION
+// =============================================================================
+
+/**
+ * Compares the tradeable portfolio with the same cash flows invested in
+ * each benchmark symbol instead.
+ *
+ * @param userId - The user ID to report on
+ * @param symbols - Yahoo benchmark symbols (e.g. "VAS.AX", "IVV")
+ * @param months - Number of months of series to return (default 12)
+ * @returns BenchmarkComparison with the monthly series and yearly results
+ *
+ * @example
+ * const comparison = await getBenchmarkComparison("user_123", ["VAS.AX"], 12);
+ * const latest = comparison.years.at(-1);
+ * console.log(`YTD vs VAS: ${latest?.benchmarks[0].outperformance?.toFixed(2)} pp`);
+ */
+export async function getBenchmarkComparison(
+  userId: string,
+  symbols: string[],
+  months: number = 12
+): Promise<BenchmarkComparison> {
+  const calculatedAt = new Date();
+  const endDate = format(calculatedAt, "yyyy-MM-dd");
+  const monthEnds = getMonthEnds(months, calculatedAt);
+
+  const timelines = await getHoldingTimelines(await getTradeableHoldings(userId));
+  const firstEventDate = timelines.reduce<string | null>((min, t) => {
+    const date = t.events[0]?.date ?? null;
+    return date !== null && (min === null || date < min) ? date : min;
+  }, null);
+
+  if (firstEventDate === null) {
+    return {
+      symbols: [],
+      unavailable: [],
+      series: monthEnds.map((date) => ({ date, portfolio: 0, benchmarks: {} })),
+      years: [],
+      calculatedAt,
+    };
+  }
+
+  // The portfolio starts from nothing the day before its first transaction
+  const inceptionDate = format(subDays(parseISO(firstEventDate), 1), "yyyy-MM-dd");
+  const { contributionsByDate } = getGroupFlows(timelines, inceptionDate, endDate);
+  const flows = Array.from(contributionsByDate.entries()).sort(([a], [b]) =>
+    a.localeCompare(b)
+  );
+
+  const simulations: BenchmarkSimulation[] = [];
+  const unavailable: string[] = [];
+  for (const symbol of symbols) {
+    const closes = await getBenchmarkCloses(symbol, inceptionDate);
+    if (closes.length === 0) {
+      unavailable.push(symbol);
+    } else {
+      simulations.push(simulateBenchmark(symbol, closes, flows));
+    }
+  }
+
+  const series = monthEnds.map((date) => ({
+    date,
+    portfolio: valueAsOf(timelines, date, endDate),
+    benchmarks: Object.fromEntries(
+      simulations.map((s) => [s.symbol, benchmarkValueAsOf(s, date)])
+    ),
+  }));
+
+  return {
+    symbols: simulations.map((s) => s.symbol),
+    unavailable,
+    series,
+    years: calculateYears(timelines, simulations, flows, inceptionDate, endDate),
+    calculatedAt,
+  };
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  isDiscountEligible,
+  summariseCapitalGains,
+  type RealisedGainEvent,
+  type RealisedParcel,
+} from "@/lib/calculations/capital-gains";
+
+function parcel(gainAud: number, discountEligible: boolean): RealisedParcel {
+  return {
+    acquiredDate: "2024-01-10",
+    quantity: 1,
+    costBase: 0,
+    proceeds: 0,
+    gain: gainAud,
+    costBaseAud: 0,
+    proceedsAud: 0,
+    gainAud,
+    holdingDays: discountEligible ? 400 : 100,
+    discountEligible,
+  };
+}
+
+function event(parcels: RealisedParcel[]): RealisedGainEvent {
+  return {
+    transactionId: "sell",
+    holdingId: "holding",
+    name: "Holding",
+    symbol: "ABC",
+    currency: "AUD",
+    sellDate: "2025-06-01",
+    financialYear: 2025,
+    quantity: parcels.length,
+    proceeds: 0,
+    costBase: 0,
+    gain: 0,
+    proceedsAud: 0,
+    costBaseAud: 0,
+    gainAud: 0,
+    parcels,
+  };
+}
+
+describe("isDiscountEligible", () => {
+  it("requires more than 12 months between acquisition and disposal", () => {
+    expect(isDiscountEligible("2024-03-15", "2025-03-14")).toBe(false);
+    expect(isDiscountEligible("2024-03-15", "2025-03-15")).toBe(false);
+    expect(isDiscountEligible("2024-03-15", "2025-03-16")).toBe(true);
+  });
+
+  it("treats 28 February as the anniversary of a 29 February purchase", () => {
+    expect(isDiscountEligible("2024-02-29", "2025-02-28")).toBe(false);
+    expect(isDiscountEligible("2024-02-29", "2025-03-01")).toBe(true);
+  });
+});
+
+describe("summariseCapitalGains", () => {
+  it("applies losses to non-discountable gains before discountable gains", () => {
+    const summary = summariseCapitalGains([
+      event([parcel(1000, false), parcel(2000, true)]),
+      event([parcel(-1500, false)]),
+    ]);
+
+    // 1,000 non-discountable absorbs 1,000 of the loss; the other 500
+    // comes off the discountable 2,000, which is then halved
+    expect(summary.totalLosses).toBe(1500);
+    expect(summary.discountApplied).toBe(750);
+    expect(summary.netCapitalGain).toBe(750);
+    expect(summary.unappliedLosses).toBe(0);
+    expect(summary.eventCount).toBe(2);
+  });
+
+  it("discounts discountable gains only after losses are applied", () => {
+    const summary = summariseCapitalGains([event([parcel(2000, true), parcel(-400, true)])]);
+
+    expect(summary.discountApplied).toBe(800);
+    expect(summary.netCapitalGain).toBe(800);
+  });
+
+  it("carries forward losses larger than the year's gains", () => {
+    const summary = summariseCapitalGains([event([parcel(300, false), parcel(-1000, true)])]);
+
+    expect(summary.netCapitalGain).toBe(0);
+    expect(summary.unappliedLosses).toBe(700);
+  });
+});
@@ -0,0 +1,372 @@
+/**
+ * Realised capital gains calculation service.
+ *
+ * Replays each tradeable holding's transactions through the lot engine in
+ * `cost-basis.ts` and turns every SELL into a realised gain event listing
+ * the lots it consumed. Cash received in a merger, and a return of capital
+ * beyond a lot's cost base, are realised gain events too.
+ *
+ * Australian CGT rules applied:
+ * - Cost base includes purchase brokerage; proceeds are net of sale brokerage
+ * - The 50% CGT discount applies to gains on lots held for more than 12 months
+ *   (disposed of after the first anniversary of acquisition)
+ * - Capital losses are offset against non-discountable gains first, then
+ *   discountable gains, before the discount is applied
+ * - Events are grouped by Australian financial year (1 July to 30 June)
+ *
+ * All summary amounts are reported in AUD. Foreign currency cost bases are
+ * converted at the exchange rate on the acquisition date and proceeds at the
+ * rate on the disposal date, as the ATO requires.
+ */
+
+import type { Holding } from "@/lib/db/schema";
+import { addYears, differenceInCalendarDays, isAfter, parseISO } from "date-fns";
+import {
+  getLotTransactions,
+  getLotCorporateActions,
+  matchLots,
+  type LotMatch,
+} from "./cost-basis";
+import { getTradeableHoldings } from "./returns";
+import {
+  getAudRateHistories,
+  convertToAudAsOf,
+} from "@/lib/services/exchange-rate-history";
+import {
+  getFinancialYear,
+  getFinancialYearRange,
+  formatFinancialYear,
+} from "@/lib/utils/financial-year";
+
+/** CGT discount for individuals on assets held more than 12 months. */
+export const CGT_DISCOUNT_RATE = 0.5;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A single lot consumed by a SELL.
+ */
+export interface RealisedParcel {
+  /** Acquisition date of the lot */
+  acquiredDate: string;
+  /** Quantity disposed of from this lot */
+  quantity: number;
+  /** Cost base in native currency (including apportioned purchase fees) */
+  costBase: number;
+  /** Proceeds in native currency (net of apportioned sale fees) */
+  proceeds: number;
+  /** Gain (positive) or loss (negative) in native currency */
+  gain: number;
+  /** Cost base in AUD at the acquisition-date rate */
+  costBaseAud: number;
+  /** Proceeds in AUD at the disposal-date rate */
+  proceedsAud: number;
+  /** Gain (positive) or loss (negative) in AUD */
+  gainAud: number;
+  /** Calendar days between acquisition and disposal */
+  holdingDays: number;
+  /** True if the lot was held for more than 12 months */
+  discountEligible: boolean;
+}
+
+/**
+ * A realised gain or loss for one SELL transaction.
+ */
+export interface RealisedGainEvent {
+  /** ID of the SELL transaction (or corporate action) */
+  transactionId: string;
+  /** Holding ID */
+  holdingId: string;
+  /** Holding name */
+  name: string;
+  /** Trading symbol */
+  symbol: string | null;
+  /** Native currency of the holding */
+  currency: string;
+  /** Date of disposal */
+  sellDate: string;
+  /** Financial year the disposal falls in */
+  financialYear: number;
+  /** Total quantity sold */
+  quantity: number;
+  /** Total proceeds in native currency */
+  proceeds: number;
+  /** Total cost base in native currency */
+  costBase: number;
+  /** Total gain/loss in native currency */
+  gain: number;
+  /** Total proceeds in AUD */
+  proceedsAud: number;
+  /** Total cost base in AUD */
+  costBaseAud: number;
+  /** Total gain/loss in AUD */
+  gainAud: number;
+  /** Lots consumed by this SELL */
+  parcels: RealisedParcel[];
+}
+
+/**
+ * Capital gains totals for a financial year, in AUD.
+ */
+export interface CapitalGainsSummary {
+  /** Gains on lots held 12 months or less */
+  nonDiscountableGains: number;
+  /** Gains on lots held more than 12 months, before discount */
+  discountableGains: number;
+  /** Total capital losses (as a positive number) */
+  totalLosses: number;
+  /** Discount applied after offsetting losses */
+  discountApplied: number;
+  /** Net capital gain to report (never negative) */
+  netCapitalGain: number;
+  /** Losses not absorbed by this year's gains */
+  unappliedLosses: number;
+  /** Number of SELL events in the year */
+  eventCount: number;
+}
+
+/**
+ * Complete capital gains report for a financial year.
+ */
+export interface CapitalGainsReport {
+  /** Financial year (ending year) */
+  financialYear: number;
+  /** Display label, e.g. "FY2025-26" */
+  label: string;
+  /** First day of the financial year (YYYY-MM-DD) */
+  startDate: string;
+  /** Last day of the financial year (YYYY-MM-DD) */
+  endDate: string;
+  /** Realised gain events in the year, ordered by sell date */
+  events: RealisedGainEvent[];
+  /** Totals for the year */
+  summary: CapitalGainsSummary;
+  /** Financial years with at least one SELL, newest first */
+  availableYears: number[];
+  /** Timestamp when calculation was performed */
+  calculatedAt: Date;
+}
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+/**
+ * Returns true if a lot acquired on `acquiredDate` and disposed of on
+ * `disposedDate` qualifies for the CGT discount (held more than 12 months).
+ */
+export function isDiscountEligible(acquiredDate: string, disposedDate: string): boolean {
+  return isAfter(parseISO(disposedDate), addYears(parseISO(acquiredDate), 1));
+}
+
+/**
+ * Converts a lot match into a realised parcel. Also used to estimate the
+ * gain on a planned sale (see allocation.ts).
+ *
+ * @param acquiredAudRate - AUD rate on the lot's acquisition date
+ * @param disposedAudRate - AUD rate on the sell date
+ */
+export function toParcel(
+  match: LotMatch,
+  acquiredAudRate: number,
+  disposedAudRate: number
+): RealisedParcel {
+  const costBaseAud = match.costBase * acquiredAudRate;
+  const proceedsAud = match.proceeds * disposedAudRate;
+  return {
+    acquiredDate: match.lotDate,
+    quantity: match.quantity,
+    costBase: match.costBase,
+    proceeds: match.proceeds,
+    gain: match.proceeds - match.costBase,
+    costBaseAud,
+    proceedsAud,
+    gainAud: proceedsAud - costBaseAud,
+    holdingDays: differenceInCalendarDays(
+      parseISO(match.sellDate),
+      parseISO(match.lotDate)
+    ),
+    discountEligible: isDiscountEligible(match.lotDate, match.sellDate),
+  };
+}
+
+/**
+ * Builds realised gain events for a single holding.
+ */
+async function calculateHoldingRealisedGains(
+  holding: Holding
+): Promise<RealisedGainEvent[]> {
+  const [txns, actions] = await Promise.all([
+    getLotTransactions(holding.id),
+    getLotCorporateActions(holding.id),
+  ]);
+  const { matches } = matchLots(txns, holding.costBasisMethod, actions);
+
+  if (matches.length === 0) {
+    return [];
+  }
+
+  // Group matches by SELL transaction, preserving chronological order
+  const matchesBySell = new Map<string, LotMatch[]>();
+  for (const match of matches) {
+    const group = matchesBySell.get(match.sellTransactionId);
+    if (group) {
+      group.push(match);
+    } else {
+      matchesBySell.set(match.sellTransactionId, [match]);
+    }
+  }
+
+  // Daily rates for the holding's currency, for acquisition and disposal dates
+  const fxHistories = await getAudRateHistories([holding.currency]);
+  const audRateOn = (date: string) =>
+    convertToAudAsOf(1, holding.currency, date, fxHistories);
+
+  const events: RealisedGainEvent[] = [];
+
+  for (const [transactionId, sellMatches] of matchesBySell) {
+    const sellDate = sellMatches[0].sellDate;
+    const disposedAudRate = await audRateOn(sellDate);
+    const parcels: RealisedParcel[] = [];
+    for (const match of sellMatches) {
+      parcels.push(toParcel(match, await audRateOn(match.lotDate), disposedAudRate));
+    }
+    const quantity = parcels.reduce((sum, p) => sum + p.quantity, 0);
+    const proceeds = parcels.reduce((sum, p) => sum + p.proceeds, 0);
+    const costBase = parcels.reduce((sum, p) => sum + p.costBase, 0);
+    const proceedsAud = parcels.reduce((sum, p) => sum + p.proceedsAud, 0);
+    const costBaseAud = parcels.reduce((sum, p) => sum + p.costBaseAud, 0);
+
+    events.push({
+      transactionId,
+      holdingId: holding.id,
+      name: holding.name,
+      symbol: holding.symbol,
+      currency: holding.currency,
+      sellDate,
+      financialYear: getFinancialYear(sellDate),
+      quantity,
+      proceeds,
+      costBase,
+      gain: proceeds - costBase,
+      proceedsAud,
+      costBaseAud,
+      gainAud: proceedsAud - costBaseAud,
+      parcels,
+    });
+  }
+
+  return events;
+}
+
+// =============================================================================
+// MAIN CALCULATION FUNCTIONS
+// =============================================================================
+
+/**
+ * Calculates every realised gain event across the user's tradeable holdings.
+ *
+ * @param userId - The user ID to calculate realised gains for
+ * @returns Realised gain events ordered by sell date ascending
+ */
+export async function calculateRealisedGains(
+  userId: string
+): Promise<RealisedGainEvent[]> {
+  const tradeableHoldings = await getTradeableHoldings(userId);
+
+  const results = await Promise.all(
+    tradeableHoldings.map((h) => calculateHoldingRealisedGains(h))
+  );
+
+  return results
+    .flat()
+    .sort((a, b) => a.sellDate.localeCompare(b.sellDate));
+}
+
+/**
+ * Summarises realised gain events into net capital gain figures.
+ *
+ * Follows the ATO method statement order: losses reduce non-discountable
+ * gains first, then discountable gains, and the CGT discount applies to
+ * whatever discountable gain remains.
+ *
+ * @param events - Events to summarise (typically one financial year)
+ * @returns Totals in AUD
+ */
+export function summariseCapitalGains(
+  events: RealisedGainEvent[]
+): CapitalGainsSummary {
+  let nonDiscountableGains = 0;
+  let discountableGains = 0;
+  let totalLosses = 0;
+
+  for (const event of events) {
+    for (const parcel of event.parcels) {
+      if (parcel.gainAud < 0) {
+        totalLosses += -parcel.gainAud;
+      } else if (parcel.discountEligible) {
+        discountableGains += parcel.gainAud;
+      } else {
+        nonDiscountableGains += parcel.gainAud;
+      }
+    }
+  }
+
+  // Apply losses to non-discountable gains first, then discountable gains
+  const lossesAgainstNonDiscountable = Math.min(totalLosses, nonDiscountableGains);
+  const remainingLosses = totalLosses - lossesAgainstNonDiscountable;
+  const lossesAgainstDiscountable = Math.min(remainingLosses, discountableGains);
+
+  const netNonDiscountable = nonDiscountableGains - lossesAgainstNonDiscountable;
+  const netDiscountable = discountableGains - lossesAgainstDiscountable;
+  const discountApplied = netDiscountable * CGT_DISCOUNT_RATE;
+
+  return {
+    nonDiscountableGains,
+    discountableGains,
+    totalLosses,
+    discountApplied,
+    netCapitalGain: netNonDiscountable + netDiscountable - discountApplied,
+    unappliedLosses: remainingLosses - lossesAgainstDiscountable,
+    eventCount: events.length,
+  };
+}
+
+/**
+ * Builds the capital gains report for one Australian financial year.
+ *
+ * @param userId - The user ID to report on
+ * @param financialYear - Financial year (ending year), e.g. 2026 for FY2025-26
+ * @returns CapitalGainsReport with events, totals, and years that have disposals
+ *
+ * @example
+ * const report = await getCapitalGainsReport("user_123", 2026);
+ * console.log(`${report.label} net capital gain: $${report.summary.netCapitalGain}`);
+ */
+export async function getCapitalGainsReport(
+  userId: string,
+  financialYear: number
+): Promise<CapitalGainsReport> {
+  const calculatedAt = new Date();
+  const allEvents = await calculateRealisedGains(userId);
+
+  const events = allEvents.filter((e) => e.financialYear === financialYear);
+  const availableYears = Array.from(
+    new Set(allEvents.map((e) => e.financialYear))
+  ).sort((a, b) => b - a);
+
+  const { startDate, endDate } = getFinancialYearRange(financialYear);
+
+  return {
+    financialYear,
+    label: formatFinancialYear(financialYear),
+    startDate,
+    endDate,
+    events,
+    summary: summariseCapitalGains(events),
+    availableYears,
+    calculatedAt,
+  };
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { matchLots, type LotTransaction } from "@/lib/calculations/cost-basis";
+import type { LotSelection } from "@/lib/db/schema";
+
+function buy(id: string, date: string, quantity: number, unitPrice: number): LotTransaction {
+  return {
+    id,
+    date,
+    action: "BUY",
+    quantity: String(quantity),
+    unitPrice: String(unitPrice),
+    fees: "0",
+    lotSelections: null,
+  };
+}
+
+function sell(
+  quantity: number,
+  unitPrice: number,
+  lotSelections: LotSelection[] | null = null
+): LotTransaction {
+  return {
+    id: "sell",
+    date: "2025-06-01",
+    action: "SELL",
+    quantity: String(quantity),
+    unitPrice: String(unitPrice),
+    fees: "0",
+    lotSelections,
+  };
+}
+
+// Three lots: oldest is mid-priced, the middle one the most expensive
+const lots = [
+  buy("jan", "2024-01-10", 100, 10),
+  buy("mar", "2024-03-10", 100, 15),
+  buy("may", "2024-05-10", 100, 12),
+];
+
+function taken(txns: LotTransaction[], method: Parameters<typeof matchLots>[1]) {
+  return matchLots(txns, method).matches.map((m) => [m.lotTransactionId, m.quantity]);
+}
+
+describe("matchLots", () => {
+  it("takes the oldest lots first under FIFO", () => {
+    expect(taken([...lots, sell(150, 20)], "fifo")).toEqual([
+      ["jan", 100],
+      ["mar", 50],
+    ]);
+  });
+
+  it("takes the highest-cost lots first under HIFO", () => {
+    expect(taken([...lots, sell(150, 20)], "hifo")).toEqual([
+      ["mar", 100],
+      ["may", 50],
+    ]);
+  });
+
+  it("breaks HIFO ties by taking the oldest lot", () => {
+    const tied = [buy("first", "2024-01-10", 50, 10), buy("second", "2024-02-10", 50, 10)];
+    expect(taken([...tied, sell(50, 20)], "hifo")).toEqual([["first", 50]]);
+  });
+
+  it("reduces every lot pro-rata under average cost", () => {
+    const { lots: remaining, matches } = matchLots([...lots, sell(150, 20)], "average");
+
+    expect(matches.map((m) => [m.lotTransactionId, m.quantity])).toEqual([
+      ["jan", 50],
+      ["mar", 50],
+      ["may", 50],
+    ]);
+    // Average cost of the units left is unchanged at $12.33
+    const cost = remaining.reduce((sum, lot) => sum + lot.remainingQuantity * lot.unitPrice, 0);
+    const units = remaining.reduce((sum, lot) => sum + lot.remainingQuantity, 0);
+    expect(cost / units).toBeCloseTo(37 / 3);
+  });
+
+  it("takes the selected lots under specific lot, then FIFO for the rest", () => {
+    const selections = [{ lotTransactionId: "may", quantity: 80 }];
+    expect(taken([...lots, sell(100, 20, selections)], "specific_lot")).toEqual([
+      ["may", 80],
+      ["jan", 20],
+    ]);
+  });
+
+  it("records cost base and proceeds net of apportioned fees", () => {
+    const txns: LotTransaction[] = [
+      { ...buy("jan", "2024-01-10", 100, 10), fees: "20" },
+      { ...sell(50, 12), fees: "10" },
+    ];
+    const [match] = matchLots(txns, "fifo").matches;
+
+    expect(match.costBase).toBeCloseTo(510);
+    expect(match.proceeds).toBeCloseTo(590);
+  });
+});
@@ -1,22 +1,110 @@
 import { db } from "@/lib/db";
-import { transactions } from "@/lib/db/schema";
-import { eq, isNull, and, asc } from "drizzle-orm";
+import {
+  transactions,
+  corporateActions,
+  holdings,
+  type LotSelection,
+} from "@/lib/db/schema";
+import { eq, isNull, and, asc, lte, or } from "drizzle-orm";
+import type {
+  CorporateActionType,
+  CostBasisMethod,
+  TransactionAction,
+} from "@/lib/constants";
+import { getExchangeRateAsOf } from "@/lib/services/exchange-rate-history";
+
+/** Quantities below this are treated as zero when consuming lots. */
+const QUANTITY_EPSILON = 0.00000001;
 
 /**
  * Represents a lot (purchase) of shares for cost basis tracking.
  * A lot is a single BUY transaction that may have been partially or fully sold.
  */
 export interface Lot {
+  /** ID of the BUY transaction that opened this lot */
+  transactionId: string;
   /** Date of the original purchase */
   date: string;
   /** Original quantity purchased (may be adjusted for splits) */
   quantity: number;
   /** Unit price at purchase (may be adjusted for splits) */
   unitPrice: number;
-  /** Remaining quantity after sells (using FIFO) */
+  /** Brokerage paid on the original purchase */
+  fees: number;
+  /** Remaining quantity after sells (per the holding's cost basis method) */
   remainingQuantity: number;
 }
 
+/**
+ * A portion of a SELL transaction matched against a single lot.
+ * One SELL produces one match per lot it consumes.
+ *
+ * Cash from a merger or a return of capital in excess of a lot's cost base
+ * is also a disposal; its match carries the corporate action's ID instead.
+ */
+export interface LotMatch {
+  /** ID of the SELL transaction (or corporate action) */
+  sellTransactionId: string;
+  /** Date of the SELL transaction (or corporate action) */
+  sellDate: string;
+  /** ID of the BUY transaction that opened the matched lot */
+  lotTransactionId: string;
+  /** Acquisition date of the matched lot */
+  lotDate: string;
+  /** Quantity taken from the lot */
+  quantity: number;
+  /** Cost of the units taken, including the apportioned purchase fees */
+  costBase: number;
+  /** Sale value of the units taken, net of the apportioned sale fees */
+  proceeds: number;
+}
+
+/**
+ * Transaction fields needed to build lots.
+ */
+export interface LotTransaction {
+  id: string;
+  date: string;
+  action: TransactionAction;
+  quantity: string;
+  unitPrice: string;
+  fees: string;
+  /** Lots chosen for a SELL under specific-lot matching */
+  lotSelections: LotSelection[] | null;
+}
+
+/**
+ * A corporate action as it applies to one holding's lots.
+ */
+export interface LotCorporateAction {
+  id: string;
+  date: string;
+  type: CorporateActionType;
+  /**
+   * "source" for the holding the action is recorded against, "target" for
+   * the holding that receives units from a merger or spin-off
+   */
+  role: "source" | "target";
+  /** Target units per source unit */
+  ratio: number;
+  /** Cash paid per source unit */
+  cashPerUnit: number;
+  /** Share of the source cost base carried to the target, 0-100 */
+  costBasePercent: number;
+  /** The source holding's open lots just before the action (target only) */
+  sourceLots: Lot[];
+}
+
+/**
+ * Result of walking a holding's transactions into lots.
+ */
+export interface LotMatchingResult {
+  /** Every lot ever opened, with remaining quantities after all sells */
+  lots: Lot[];
+  /** Lot consumption recorded for each SELL, in chronological order */
+  matches: LotMatch[];
+}
+
 /**
  * Result of cost basis calculation for a holding.
  */
@@ -30,64 +118,355 @@ export interface CostBasisResult {
 }
 
 /**
- * Calculates the cost basis for a holding using FIFO (First In, First Out) methodology.
+ * Fetches all non-deleted transactions for a holding in processing order.
+ * Same-day transactions are ordered by creation time.
  *
- * FIFO means when shares are sold, the oldest purchased shares are sold first.
- * This function processes all transactions chronologically and tracks:
- * - BUY: Creates a new lot with the purchase details
- * - SELL: Consumes shares from oldest lots first (FIFO)
- * - SPLIT: Adjusts all existing lot quantities and prices proportionally
- *   (e.g., 2:1 split doubles quantity and halves price)
- * - DIVIDEND: Does not affect cost basis
- *
- * @param holdingId - The UUID of the holding to calculate cost basis for
- * @returns Cost basis result with total cost, quantity, and lot details
+ * @param holdingId - The UUID of the holding
+ * @param asOf - Optional YYYY-MM-DD date; later transactions are excluded
+ * @returns Transactions ordered by date ascending
  */
-export async function calculateCostBasis(
-  holdingId: string
-): Promise<CostBasisResult> {
-  // Fetch all non-deleted transactions for this holding, ordered by date ascending
-  const txns = await db
+export async function getLotTransactions(
+  holdingId: string,
+  asOf?: string
+): Promise<LotTransaction[]> {
+  const conditions = [
+    eq(transactions.holdingId, holdingId),
+    isNull(transactions.deletedAt),
+  ];
+
+  if (asOf) {
+    conditions.push(lte(transactions.date, asOf));
+  }
+
+  return db
     .select({
+      id: transactions.id,
       date: transactions.date,
       action: transactions.action,
       quantity: transactions.quantity,
       unitPrice: transactions.unitPrice,
+      fees: transactions.fees,
+      lotSelections: transactions.lotSelections,
     })
     .from(transactions)
-    .where(
-      and(eq(transactions.holdingId, holdingId), isNull(transactions.deletedAt))
-    )
-    .orderBy(asc(transactions.date));
+    .where(and(...conditions))
+    .orderBy(asc(transactions.date), asc(transactions.createdAt));
+}
+
+/**
+ * Fetches the corporate actions that touch a holding's lots, in processing
+ * order. Actions received from another holding come with that holding's
+ * open lots just before the action.
+ *
+ * @param holdingId - The UUID of the holding
+ * @param asOf - Optional YYYY-MM-DD date; later actions are excluded
+ * @param excludeIds - Actions to leave out (used while replaying a source
+ *   holding, so an action is not applied to its own source lots twice)
+ * @returns Corporate actions ordered by date ascending
+ */
+export async function getLotCorporateActions(
+  holdingId: string,
+  asOf?: string,
+  excludeIds: ReadonlySet<string> = new Set()
+): Promise<LotCorporateAction[]> {
+  const conditions = [
+    or(
+      eq(corporateActions.holdingId, holdingId),
+      eq(corporateActions.targetHoldingId, holdingId)
+    ),
+    isNull(corporateActions.deletedAt),
+  ];
+
+  if (asOf) {
+    conditions.push(lte(corporateActions.date, asOf));
+  }
+
+  const rows = await db
+    .select({
+      id: corporateActions.id,
+      date: corporateActions.date,
+      type: corporateActions.type,
+      holdingId: corporateActions.holdingId,
+      ratio: corporateActions.ratio,
+      cashPerUnit: corporateActions.cashPerUnit,
+      costBasePercent: corporateActions.costBasePercent,
+      sourceCostBasisMethod: holdings.costBasisMethod,
+    })
+    .from(corporateActions)
+    .innerJoin(holdings, eq(corporateActions.holdingId, holdings.id))
+    .where(and(...conditions))
+    .orderBy(asc(corporateActions.date), asc(corporateActions.createdAt));
+
+  const actions: LotCorporateAction[] = [];
+
+  for (const row of rows) {
+    if (excludeIds.has(row.id)) {
+      continue;
+    }
+
+    const role = row.holdingId === holdingId ? "source" : "target";
+    let sourceLots: Lot[] = [];
+    if (role === "target") {
+      const excluded = new Set([...excludeIds, row.id]);
+      const [sourceTxns, sourceActions] = await Promise.all([
+        getLotTransactions(row.holdingId, row.date),
+        getLotCorporateActions(row.holdingId, row.date, excluded),
+      ]);
+      sourceLots = matchLots(sourceTxns, row.sourceCostBasisMethod, sourceActions).lots.filter(
+        (lot) => lot.remainingQuantity > QUANTITY_EPSILON
+      );
+    }
+
+    actions.push({
+      id: row.id,
+      date: row.date,
+      type: row.type,
+      role,
+      ratio: Number(row.ratio ?? 1),
+      cashPerUnit: Number(row.cashPerUnit ?? 0),
+      costBasePercent: Number(row.costBasePercent ?? 100),
+      sourceLots,
+    });
+  }
+
+  return actions;
+}
+
+/**
+ * Cost base of a lot's remaining units, including their share of its fees.
+ */
+function remainingCostBase(lot: Lot): number {
+  const feeShare = lot.quantity > 0 ? (lot.fees * lot.remainingQuantity) / lot.quantity : 0;
+  return lot.remainingQuantity * lot.unitPrice + feeShare;
+}
+
+/**
+ * Applies a corporate action to a holding's lots.
+ *
+ * - symbol_change: No effect on lots
+ * - merger (source): Every open lot is closed. Cash received is a disposal
+ *   against the share of cost base not carried to the target.
+ * - merger (target): The source's open lots are re-opened at `ratio` units
+ *   per source unit, with their acquisition dates and `costBasePercent` of
+ *   their cost base
+ * - spin_off (source): Each open lot keeps its units but gives up
+ *   `costBasePercent` of its cost base
+ * - spin_off (target): As for a merger target
+ * - return_of_capital: Each open lot's cost base is reduced by the cash
+ *   paid on its units; any excess over the cost base is a capital gain
+ *
+ * Lots opened from another holding are identified as
+ * "{corporateActionId}:{sourceLotId}".
+ */
+function applyCorporateAction(
+  action: LotCorporateAction,
+  lots: Lot[],
+  matches: LotMatch[]
+): void {
+  const carried = action.costBasePercent / 100;
+  const openLots = lots.filter((lot) => lot.remainingQuantity > QUANTITY_EPSILON);
+
+  // Scales a lot's cost base, keeping the split between price and fees
+  const scaleCostBase = (lot: Lot, factor: number) => {
+    lot.unitPrice *= factor;
+    lot.fees *= factor;
+  };
+
+  const disposal = (lot: Lot, costBase: number, proceeds: number, quantity: number) => {
+    matches.push({
+      sellTransactionId: action.id,
+      sellDate: action.date,
+      lotTransactionId: lot.transactionId,
+      lotDate: lot.date,
+      quantity,
+      costBase,
+      proceeds,
+    });
+  };
+
+  if (action.role === "target") {
+    if (action.type !== "merger" && action.type !== "spin_off") return;
+    for (const source of action.sourceLots) {
+      const quantity = source.remainingQuantity * action.ratio;
+      if (quantity <= QUANTITY_EPSILON) continue;
+      const feeShare =
+        source.quantity > 0 ? (source.fees * source.remainingQuantity) / source.quantity : 0;
+      lots.push({
+        transactionId: `${action.id}:${source.transactionId}`,
+        date: source.date,
+        quantity,
+        unitPrice: (source.remainingQuantity * source.unitPrice * carried) / quantity,
+        fees: feeShare * carried,
+        remainingQuantity: quantity,
+      });
+    }
+    return;
+  }
+
+  switch (action.type) {
+    case "merger":
+      for (const lot of openLots) {
+        const cash = lot.remainingQuantity * action.cashPerUnit;
+        if (cash > 0) {
+          disposal(lot, remainingCostBase(lot) * (1 - carried), cash, lot.remainingQuantity);
+        }
+        lot.remainingQuantity = 0;
+      }
+      break;
 
-  // Track lots (purchases) with their remaining quantities
+    case "spin_off":
+      for (const lot of openLots) {
+        scaleCostBase(lot, 1 - carried);
+      }
+      break;
+
+    case "return_of_capital":
+      for (const lot of openLots) {
+        const costBase = remainingCostBase(lot);
+        const cash = lot.remainingQuantity * action.cashPerUnit;
+        if (cash > costBase) {
+          // CGT event G1: the excess is a gain, and the cost base drops to nil
+          disposal(lot, 0, cash - costBase, 0);
+        }
+        scaleCostBase(lot, costBase > 0 ? Math.max(costBase - cash, 0) / costBase : 0);
+      }
+      break;
+
+    case "symbol_change":
+      break;
+  }
+}
+
+/**
+ * Works out how many units a SELL takes from each open lot.
+ *
+ * - fifo: Oldest lots first
+ * - hifo: Highest unit cost first, oldest first on ties
+ * - average: Every open lot is reduced pro-rata, so the average cost of the
+ *   remaining units is unchanged by the sale
+ * - specific_lot: The lots named in `selections`, then FIFO for any remainder
+ *   (e.g. selections recorded before the holding switched method)
+ *
+ * @returns Pairs of lot and units consumed, in the order they were taken
+ */
+function allocateSell(
+  openLots: Lot[],
+  sellQuantity: number,
+  method: CostBasisMethod,
+  selections: LotSelection[] | null
+): Array<{ lot: Lot; quantity: number }> {
+  const allocations: Array<{ lot: Lot; quantity: number }> = [];
+  const available = new Map(openLots.map((lot) => [lot, lot.remainingQuantity]));
+  let remaining = sellQuantity;
+
+  const take = (lot: Lot, requested: number) => {
+    const quantity = Math.min(available.get(lot) ?? 0, requested, remaining);
+    if (quantity <= QUANTITY_EPSILON) return;
+    allocations.push({ lot, quantity });
+    available.set(lot, (available.get(lot) ?? 0) - quantity);
+    remaining -= quantity;
+  };
+
+  if (method === "average") {
+    const totalOpen = openLots.reduce((sum, lot) => sum + lot.remainingQuantity, 0);
+    if (totalOpen <= 0) return allocations;
+    const fraction = Math.min(sellQuantity / totalOpen, 1);
+    for (const lot of openLots) {
+      take(lot, lot.remainingQuantity * fraction);
+    }
+    return allocations;
+  }
+
+  if (method === "specific_lot" && selections) {
+    for (const selection of selections) {
+      const lot = openLots.find((l) => l.transactionId === selection.lotTransactionId);
+      if (lot) take(lot, Number(selection.quantity));
+    }
+  }
+
+  const ordered =
+    method === "hifo"
+      ? [...openLots].sort((a, b) => b.unitPrice - a.unitPrice)
+      : openLots;
+
+  for (const lot of ordered) {
+    if (remaining <= QUANTITY_EPSILON) break;
+    take(lot, remaining);
+  }
+
+  return allocations;
+}
+
+/**
+ * Walks transactions chronologically, building lots and recording which lots
+ * each SELL consumed.
+ *
+ * - BUY: Creates a new lot with the purchase details
+ * - SELL: Consumes shares from open lots according to `method` (see
+ *   `allocateSell`), recording a LotMatch per lot.
+ *   Sale fees are apportioned across matches by quantity.
+ * - SPLIT: Adjusts all existing lot quantities and prices proportionally
+ *   (e.g., 2:1 split doubles quantity and halves price)
+ * - DIVIDEND: Does not affect lots
+ *
+ * Corporate actions are applied after the transactions on their date (see
+ * `applyCorporateAction`).
+ *
+ * @param txns - Transactions ordered by date ascending
+ * @param method - Cost basis method used to match SELLs to lots (default FIFO)
+ * @param actions - Corporate actions from `getLotCorporateActions`
+ * @returns All lots and the lot matches for every SELL
+ */
+export function matchLots(
+  txns: LotTransaction[],
+  method: CostBasisMethod = "fifo",
+  actions: LotCorporateAction[] = []
+): LotMatchingResult {
   const lots: Lot[] = [];
+  const matches: LotMatch[] = [];
+  let nextAction = 0;
 
   for (const txn of txns) {
+    while (nextAction < actions.length && actions[nextAction].date < txn.date) {
+      applyCorporateAction(actions[nextAction++], lots, matches);
+    }
+
     const txnQuantity = Number(txn.quantity);
     const txnUnitPrice = Number(txn.unitPrice);
+    const txnFees = Number(txn.fees);
 
     switch (txn.action) {
       case "BUY":
         // Create a new lot for this purchase
         lots.push({
+          transactionId: txn.id,
           date: txn.date,
           quantity: txnQuantity,
           unitPrice: txnUnitPrice,
+          fees: txnFees,
           remainingQuantity: txnQuantity,
         });
         break;
 
       case "SELL": {
-        // FIFO: consume from oldest lots first
-        let remaining = txnQuantity;
-        for (const lot of lots) {
-          if (remaining <= 0) break;
-          if (lot.remainingQuantity <= 0) continue;
+        const openLots = lots.filter((lot) => lot.remainingQuantity > QUANTITY_EPSILON);
+        const allocations = allocateSell(openLots, txnQuantity, method, txn.lotSelections);
+
+        for (const { lot, quantity: consumed } of allocations) {
+          const lotFeeShare = lot.quantity > 0 ? (lot.fees * consumed) / lot.quantity : 0;
+          const sellFeeShare = txnQuantity > 0 ? (txnFees * consumed) / txnQuantity : 0;
+
+          matches.push({
+            sellTransactionId: txn.id,
+            sellDate: txn.date,
+            lotTransactionId: lot.transactionId,
+            lotDate: lot.date,
+            quantity: consumed,
+            costBase: consumed * lot.unitPrice + lotFeeShare,
+            proceeds: consumed * txnUnitPrice - sellFeeShare,
+          });
 
-          const consumed = Math.min(lot.remainingQuantity, remaining);
           lot.remainingQuantity -= consumed;
-          remaining -= consumed;
         }
         break;
       }
@@ -107,24 +486,76 @@ export async function calculateCostBasis(
       }
 
       case "DIVIDEND":
-        // Dividends don't affect cost basis
+        // Dividends don't affect lots
         break;
     }
   }
 
+  while (nextAction < actions.length) {
+    applyCorporateAction(actions[nextAction++], lots, matches);
+  }
+
+  return { lots, matches };
+}
+
+/**
+ * Returns the lots with units still held, optionally as at a past date.
+ *
+ * Used to offer lots for specific-lot SELLs and to validate the selection.
+ *
+ * @param holdingId - The UUID of the holding
+ * @param method - The holding's cost basis method
+ * @param asOf - Optional YYYY-MM-DD date; later transactions are ignored
+ * @returns Open lots in acquisition order
+ */
+export async function getOpenLots(
+  holdingId: string,
+  method: CostBasisMethod = "fifo",
+  asOf?: string
+): Promise<Lot[]> {
+  const [txns, actions] = await Promise.all([
+    getLotTransactions(holdingId, asOf),
+    getLotCorporateActions(holdingId, asOf),
+  ]);
+  const { lots } = matchLots(txns, method, actions);
+  return lots.filter((lot) => lot.remainingQuantity > QUANTITY_EPSILON);
+}
+
+/**
+ * Calculates the cost basis for a holding using its cost basis method.
+ *
+ * FIFO sells the oldest purchased shares first; HIFO the most expensive;
+ * average cost reduces every lot pro-rata; specific lot uses the lots chosen
+ * on each SELL. Lots are built by `matchLots`; only lots with remaining shares
+ * contribute to the cost basis. Purchase fees are not included in the cost basis.
+ *
+ * @param holdingId - The UUID of the holding to calculate cost basis for
+ * @param method - The holding's cost basis method (default FIFO)
+ * @returns Cost basis result with total cost, quantity, and lot details
+ */
+export async function calculateCostBasis(
+  holdingId: string,
+  method: CostBasisMethod = "fifo"
+): Promise<CostBasisResult> {
+  const [txns, actions] = await Promise.all([
+    getLotTransactions(holdingId),
+    getLotCorporateActions(holdingId),
+  ]);
+  const { lots } = matchLots(txns, method, actions);
+
   // Calculate totals from remaining lots
   let totalCostBasis = 0;
   let totalQuantity = 0;
 
   for (const lot of lots) {
-    if (lot.remainingQuantity > 0) {
+    if (lot.remainingQuantity > QUANTITY_EPSILON) {
       totalCostBasis += lot.remainingQuantity * lot.unitPrice;
       totalQuantity += lot.remainingQuantity;
     }
   }
 
   // Return only lots with remaining shares
-  const activeLots = lots.filter((lot) => lot.remainingQuantity > 0);
+  const activeLots = lots.filter((lot) => lot.remainingQuantity > QUANTITY_EPSILON);
 
   return {
     costBasis: totalCostBasis,
@@ -132,3 +563,36 @@ export async function calculateCostBasis(
     lots: activeLots,
   };
 }
+
+/**
+ * Converts the cost basis of open lots to AUD, each lot at the exchange rate
+ * on its purchase date, so later currency moves don't change what was paid.
+ *
+ * @param lots - Lots from calculateCostBasis or getOpenLots
+ * @param currency - Currency the lots were bought in (the holding's currency)
+ * @returns Cost basis of the remaining shares in AUD
+ */
+export async function calculateCostBasisAud(
+  lots: Lot[],
+  currency: string
+): Promise<number> {
+  // One rate lookup per purchase date
+  const ratesByDate = new Map<string, number>();
+  let totalCostBasisAud = 0;
+
+  for (const lot of lots) {
+    if (lot.remainingQuantity <= QUANTITY_EPSILON) {
+      continue;
+    }
+
+    let rate = ratesByDate.get(lot.date);
+    if (rate === undefined) {
+      rate = await getExchangeRateAsOf(currency, "AUD", lot.date);
+      ratesByDate.set(lot.date, rate);
+    }
+
+    totalCostBasisAud += lot.remainingQuantity * lot.unitPrice * rate;
+  }
+
+  return totalCostBasisAud;
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildAmortisationSchedule,
+  calculateRepayment,
+  simulateDebtPayoff,
+  type LoanTerms,
+  type PayoffDebt,
+} from "@/lib/calculations/debt";
+
+function terms(annualRate: number, repayment: number): LoanTerms {
+  return { annualRate, repayment, frequency: "monthly", repaymentSource: "entered" };
+}
+
+function debt(id: string, balance: number, annualRate: number, monthlyRepayment: number): PayoffDebt {
+  return { id, name: id, balance, annualRate, monthlyRepayment, offsetBalance: 0 };
+}
+
+describe("buildAmortisationSchedule", () => {
+  it("repays a loan over the term its repayment was calculated for", () => {
+    const repayment = calculateRepayment(500000, 6, "monthly", 360);
+    const schedule = buildAmortisationSchedule(500000, terms(6, repayment), new Date(2026, 0, 1));
+
+    expect(repayment).toBeCloseTo(2997.75, 2);
+    expect(schedule.repayments).toBe(360);
+    expect(schedule.payoffDate).toBe("2056-01-01");
+    expect(schedule.years).toHaveLength(30);
+    expect(schedule.totalRepaid - schedule.totalInterest).toBeCloseTo(500000, 2);
+  });
+
+  it("charges interest only on the balance above the offset", () => {
+    const start = new Date(2026, 0, 1);
+    const without = buildAmortisationSchedule(100000, terms(6, 1000), start);
+    const withOffset = buildAmortisationSchedule(100000, terms(6, 1000), start, 20000);
+
+    expect(withOffset.years[0].interest).toBeLessThan(without.years[0].interest);
+    expect(withOffset.repayments).toBeLessThan(without.repayments);
+  });
+
+  it("never pays off when the repayment doesn't cover the interest", () => {
+    const schedule = buildAmortisationSchedule(100000, terms(12, 900), new Date(2026, 0, 1));
+    expect(schedule.payoffDate).toBeNull();
+  });
+});
+
+describe("simulateDebtPayoff", () => {
+  const start = new Date(2026, 0, 1);
+
+  it("pays off sooner with extra repayments", () => {
+    const loan = debt("loan", 12000, 0, 1000);
+
+    expect(simulateDebtPayoff([loan], 0, null, start).months).toBe(12);
+    expect(simulateDebtPayoff([loan], 500, "avalanche", start).months).toBe(8);
+    expect(simulateDebtPayoff([loan], 500, "avalanche", start).debtFreeDate).toBe("2026-09-01");
+  });
+
+  it("lands the payoff month where interest leaves a part repayment", () => {
+    // 1% a month: 10.6 repayments of $1,000, or 6.9 of $1,500
+    const loan = debt("loan", 10000, 12, 1000);
+
+    expect(simulateDebtPayoff([loan], 0, null, start).months).toBe(11);
+    expect(simulateDebtPayoff([loan], 500, "avalanche", start).months).toBe(7);
+  });
+
+  it("ignores the extra amount without a strategy", () => {
+    const loan = debt("loan", 12000, 0, 1000);
+    const plan = simulateDebtPayoff([loan], 500, null, start);
+
+    expect(plan.months).toBe(12);
+    expect(plan.extraMonthly).toBe(0);
+  });
+
+  it("sends the extra to the highest rate under avalanche and the smallest balance under snowball", () => {
+    const card = debt("card", 5000, 20, 200);
+    const car = debt("car", 3000, 8, 200);
+
+    const avalanche = simulateDebtPayoff([card, car], 300, "avalanche", start);
+    const snowball = simulateDebtPayoff([card, car], 300, "snowball", start);
+
+    expect(avalanche.debts.map((d) => d.id)).toEqual(["card", "car"]);
+    expect(snowball.debts.map((d) => d.id)).toEqual(["car", "card"]);
+    expect(snowball.debts[0].months!).toBeLessThan(avalanche.debts[1].months!);
+    expect(avalanche.totalInterest).toBeLessThan(snowball.totalInterest);
+  });
+});
@@ -0,0 +1,820 @@
+/**
+ * Loan amortisation and debt payoff planning.
+ *
+ * Debt holdings are snapshot-based: each check-in records the balance owing.
+ * A debt may also carry its loan details (interest rate, repayment amount and
+ * frequency, start date and term, and an offset cash holding), from which:
+ * - The amortisation schedule runs the current balance forward to payoff
+ * - Actual vs scheduled compares each recorded balance with where the loan
+ *   would be if only the scheduled repayments had been made since the first
+ *   balance recorded after the loan started
+ * - The payoff planner runs every debt together, month by month, to compare
+ *   paying extra with the avalanche or snowball strategy
+ *
+ * Interest for a repayment period:
+ *   (balance - offset balance) x annual rate / repayments per year
+ *
+ * When a debt has no repayment amount but has a start date and term, the
+ * repayment is the amount that clears the balance by the end of the term:
+ *   repayment = balance x r / (1 - (1 + r)^-n)
+ * where r is the rate per period and n the periods remaining.
+ *
+ * Rates are assumed fixed at the current rate for the whole schedule, and
+ * offset balances are held at their latest value (or, for actual vs
+ * scheduled, their recorded value at each repayment).
+ *
+ * Payoff planner strategies (after every debt's scheduled repayment):
+ * - Avalanche: extra goes to the highest interest rate first
+ * - Snowball: extra goes to the smallest balance first
+ * Once a debt is repaid its repayment rolls over to the next target.
+ */
+
+import { db } from "@/lib/db";
+import { holdings, snapshots, type Holding } from "@/lib/db/schema";
+import { eq, and, isNull, asc, inArray } from "drizzle-orm";
+import {
+  addMonths,
+  addWeeks,
+  differenceInCalendarMonths,
+  format,
+  parseISO,
+} from "date-fns";
+import { getExchangeRate } from "@/lib/services/exchange-rates";
+import { getLatestSnapshots } from "@/lib/queries/snapshots";
+import {
+  DEBT_PAYOFF_STRATEGIES,
+  MAX_LOAN_MONTHS,
+  REPAYMENTS_PER_YEAR,
+  type DebtPayoffStrategy,
+  type RepaymentFrequency,
+} from "@/lib/constants";
+
+/** Balances below this are treated as repaid, absorbing rounding. */
+const REPAID_THRESHOLD = 0.005;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Rate and repayment used to amortise a loan.
+ */
+export interface LoanTerms {
+  /** Annual interest rate (%) */
+  annualRate: number;
+  /** Amount of each repayment */
+  repayment: number;
+  /** How often repayments are made */
+  frequency: RepaymentFrequency;
+  /** Whether the repayment was entered, or derived from the remaining term */
+  repaymentSource: "entered" | "term";
+}
+
+/**
+ * A dated balance (a debt's balance owing, or an offset account's balance).
+ */
+export interface DatedBalance {
+  /** Date (YYYY-MM-DD) */
+  date: string;
+  /** Balance in the debt's currency */
+  balance: number;
+}
+
+/**
+ * One year of an amortisation schedule.
+ */
+export interface AmortisationYear {
+  /** Year of the schedule (1 = the year from today) */
+  year: number;
+  /** Date of the last repayment in the year (YYYY-MM-DD) */
+  endDate: string;
+  /** Balance at the start of the year */
+  openingBalance: number;
+  /** Total repaid over the year */
+  repayments: number;
+  /** Interest charged over the year */
+  interest: number;
+  /** Repayments less interest */
+  principal: number;
+  /** Balance at the end of the year */
+  closingBalance: number;
+}
+
+/**
+ * A loan's remaining repayments, from its current balance to payoff.
+ */
+export interface AmortisationSchedule {
+  /** Number of repayments left */
+  repayments: number;
+  /** Date of the final repayment (YYYY-MM-DD), or null if never repaid */
+  payoffDate: string | null;
+  /** Interest charged until payoff */
+  totalInterest: number;
+  /** Total of all repayments */
+  totalRepaid: number;
+  /** Year-by-year schedule */
+  years: AmortisationYear[];
+}
+
+/**
+ * A recorded balance compared with the scheduled balance on the same date.
+ */
+export interface BalanceComparison {
+  /** Snapshot date (YYYY-MM-DD) */
+  date: string;
+  /** Balance recorded at check-in */
+  actual: number;
+  /** Balance if only scheduled repayments had been made */
+  scheduled: number;
+  /** Scheduled - actual; positive when ahead of schedule */
+  difference: number;
+}
+
+/**
+ * Loan details, schedule and progress for a debt holding. All amounts are in
+ * the holding's currency.
+ */
+export interface DebtSummary {
+  /** Holding currency */
+  currency: string;
+  /** Latest balance owing, or null if none recorded */
+  balance: number | null;
+  /** Date of the latest balance (YYYY-MM-DD) */
+  balanceDate: string | null;
+  /** Rate and repayment, or null without an interest rate or repayment */
+  terms: LoanTerms | null;
+  /** Linked offset account and its latest balance */
+  offset: { id: string; name: string; balance: number } | null;
+  /** End of the loan term (YYYY-MM-DD), if a start date and term are set */
+  termEndDate: string | null;
+  /** Months the schedule pays off before the end of the term (negative if after) */
+  monthsAheadOfTerm: number | null;
+  /** Remaining schedule from the latest balance */
+  schedule: AmortisationSchedule | null;
+  /** Recorded balances against the scheduled balance */
+  history: BalanceComparison[];
+  /** Timestamp when calculation was performed */
+  calculatedAt: Date;
+}
+
+/**
+ * A debt as the payoff planner sees it, in AUD.
+ */
+export interface PayoffDebt {
+  /** Debt holding ID */
+  id: string;
+  /** Debt holding name */
+  name: string;
+  /** Latest balance owing */
+  balance: number;
+  /** Annual interest rate (%) */
+  annualRate: number;
+  /** Scheduled repayments converted to a monthly amount */
+  monthlyRepayment: number;
+  /** Latest offset account balance (0 without one) */
+  offsetBalance: number;
+}
+
+/**
+ * When one debt is repaid under a payoff plan.
+ */
+export interface DebtPayoff {
+  /** Debt holding ID */
+  id: string;
+  /** Debt holding name */
+  name: string;
+  /** Month of the final repayment (YYYY-MM-DD), or null if never repaid */
+  payoffDate: string | null;
+  /** Months until repaid, or null if never repaid */
+  months: number | null;
+  /** Interest charged on this debt until repaid */
+  interest: number;
+}
+
+/**
+ * The result of repaying every debt with a given strategy and extra amount.
+ */
+export interface PayoffPlan {
+  /** Where extra repayments go, or null for scheduled repayments only */
+  strategy: DebtPayoffStrategy | null;
+  /** Extra repaid each month on top of the scheduled repayments (AUD) */
+  extraMonthly: number;
+  /** Month the last debt is repaid (YYYY-MM-DD), or null if never */
+  debtFreeDate: string | null;
+  /** Months until debt free, or null if never */
+  months: number | null;
+  /** Interest charged across all debts */
+  totalInterest: number;
+  /** Interest saved against scheduled repayments only */
+  interestSaved: number;
+  /** Months sooner debt free than with scheduled repayments only */
+  monthsSaved: number | null;
+  /** Payoff per debt, in the order the strategy targets them */
+  debts: DebtPayoff[];
+}
+
+/**
+ * Payoff plans for each strategy and extra amount, against the baseline of
+ * scheduled repayments only.
+ */
+export interface DebtPayoffComparison {
+  /** Debts included in the plans */
+  debts: PayoffDebt[];
+  /** Debts left out, with the reason */
+  excluded: Array<{ id: string; name: string; reason: string }>;
+  /** Scheduled repayments only, each debt on its own */
+  baseline: PayoffPlan;
+  /** One plan per strategy per extra amount (including no extra) */
+  plans: PayoffPlan[];
+  /** Timestamp when calculation was performed */
+  calculatedAt: Date;
+}
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+/**
+ * Date of the nth repayment after a date.
+ */
+function addRepaymentPeriods(date: Date, frequency: RepaymentFrequency, periods: number): Date {
+  switch (frequency) {
+    case "weekly":
+      return addWeeks(date, periods);
+    case "fortnightly":
+      return addWeeks(date, periods * 2);
+    default:
+      return addMonths(date, periods);
+  }
+}
+
+/**
+ * Interest rate per repayment period, as a fraction.
+ */
+function getPeriodicRate(annualRate: number, frequency: RepaymentFrequency): number {
+  return annualRate / 100 / REPAYMENTS_PER_YEAR[frequency];
+}
+
+/**
+ * Balance at or before a date from a list sorted by date, or 0 before the
+ * first entry.
+ */
+function getBalanceOn(balances: DatedBalance[], date: string): number {
+  let balance = 0;
+  for (const entry of balances) {
+    if (entry.date > date) {
+      break;
+    }
+    balance = entry.balance;
+  }
+  return balance;
+}
+
+/**
+ * Loads a holding's non-deleted snapshots, oldest first, converted to a
+ * currency.
+ */
+async function getBalanceHistory(holdingId: string, currency: string): Promise<DatedBalance[]> {
+  const rows = await db
+    .select({
+      date: snapshots.date,
+      balance: snapshots.balance,
+      currency: snapshots.currency,
+    })
+    .from(snapshots)
+    .where(and(eq(snapshots.holdingId, holdingId), isNull(snapshots.deletedAt)))
+    .orderBy(asc(snapshots.date));
+
+  const rateByCurrency = new Map<string, number>();
+  const history: DatedBalance[] = [];
+  for (const row of rows) {
+    if (!rateByCurrency.has(row.currency)) {
+      rateByCurrency.set(row.currency, await getExchangeRate(row.currency, currency));
+    }
+    history.push({
+      date: row.date,
+      balance: Number(row.balance) * rateByCurrency.get(row.currency)!,
+    });
+  }
+
+  return history;
+}
+
+// =============================================================================
+// MAIN CALCULATION FUNCTIONS
+// =============================================================================
+
+/**
+ * Calculates the repayment that clears a balance over a number of periods.
+ *
+ * @param principal - Balance owing
+ * @param annualRate - Annual interest rate (%)
+ * @param frequency - Repayment frequency
+ * @param periods - Repayments remaining
+ * @returns Amount of each repayment
+ *
+ * @example
+ * calculateRepayment(500000, 6, "monthly", 360); // 2997.75
+ */
+export function calculateRepayment(
+  principal: number,
+  annualRate: number,
+  frequency: RepaymentFrequency,
+  periods: number
+): number {
+  if (periods <= 0) {
+    return principal;
+  }
+
+  const rate = getPeriodicRate(annualRate, frequency);
+  if (rate === 0) {
+    return principal / periods;
+  }
+
+  return (principal * rate) / (1 - Math.pow(1 + rate, -periods));
+}
+
+/**
+ * Works out a debt's rate and repayment. The repayment is the amount entered
+ * or, failing that, the amount that clears `balance` by the end of the term.
+ *
+ * @param holding - The debt holding
+ * @param balance - Balance owing on `asOf`
+ * @param asOf - Date the remaining term is counted from
+ * @returns LoanTerms, or null without a rate, or without a repayment and a
+ *          term that is still running
+ */
+export function getLoanTerms(
+  holding: Pick<
+    Holding,
+    "interestRate" | "repaymentAmount" | "repaymentFrequency" | "loanStartDate" | "loanTermMonths"
+  >,
+  balance: number,
+  asOf: Date
+): LoanTerms | null {
+  if (holding.interestRate === null) {
+    return null;
+  }
+
+  const annualRate = Number(holding.interestRate);
+  const frequency = holding.repaymentFrequency ?? "monthly";
+
+  if (holding.repaymentAmount !== null) {
+    return {
+      annualRate,
+      repayment: Number(holding.repaymentAmount),
+      frequency,
+      repaymentSource: "entered",
+    };
+  }
+
+  if (!holding.loanStartDate || holding.loanTermMonths === null) {
+    return null;
+  }
+
+  const termEnd = addMonths(parseISO(holding.loanStartDate), holding.loanTermMonths);
+  const monthsLeft = differenceInCalendarMonths(termEnd, asOf);
+  if (monthsLeft <= 0) {
+    return null;
+  }
+
+  const periods = Math.ceil((monthsLeft * REPAYMENTS_PER_YEAR[frequency]) / 12);
+  return {
+    annualRate,
+    repayment: calculateRepayment(balance, annualRate, frequency, periods),
+    frequency,
+    repaymentSource: "term",
+  };
+}
+
+/**
+ * Runs a balance forward repayment by repayment until it is repaid,
+ * grouping the repayments into years from the start date.
+ *
+ * @param balance - Balance owing on the start date
+ * @param terms - Rate and repayment
+ * @param startDate - Date the first repayment period starts
+ * @param offsetBalance - Offset account balance, held constant
+ * @returns AmortisationSchedule; payoffDate is null if the repayment doesn't
+ *          clear the balance within MAX_LOAN_MONTHS
+ *
+ * @example
+ * const schedule = buildAmortisationSchedule(
+ *   500000,
+ *   { annualRate: 6, repayment: 2997.75, frequency: "monthly", repaymentSource: "entered" },
+ *   new Date("2026-01-01")
+ * );
+ * // schedule.repayments === 360, schedule.payoffDate === "2056-01-01"
+ */
+export function buildAmortisationSchedule(
+  balance: number,
+  terms: LoanTerms,
+  startDate: Date,
+  offsetBalance: number = 0
+): AmortisationSchedule {
+  const perYear = REPAYMENTS_PER_YEAR[terms.frequency];
+  const maxPeriods = (MAX_LOAN_MONTHS / 12) * perYear;
+  const rate = getPeriodicRate(terms.annualRate, terms.frequency);
+
+  const years: AmortisationYear[] = [];
+  let remaining = balance;
+  let period = 0;
+  let totalInterest = 0;
+  let totalRepaid = 0;
+  let payoffDate: string | null = null;
+
+  while (remaining > REPAID_THRESHOLD && period < maxPeriods) {
+    period++;
+    const interest = Math.max(0, remaining - offsetBalance) * rate;
+    const repayment = Math.min(terms.repayment, remaining + interest);
+    const openingBalance = remaining;
+    remaining = remaining + interest - repayment;
+    totalInterest += interest;
+    totalRepaid += repayment;
+
+    const date = format(addRepaymentPeriods(startDate, terms.frequency, period), "yyyy-MM-dd");
+    const yearIndex = Math.ceil(period / perYear) - 1;
+    if (!years[yearIndex]) {
+      years[yearIndex] = {
+        year: yearIndex + 1,
+        endDate: date,
+        openingBalance,
+        repayments: 0,
+        interest: 0,
+        principal: 0,
+        closingBalance: openingBalance,
+      };
+    }
+    const year = years[yearIndex];
+    year.endDate = date;
+    year.repayments += repayment;
+    year.interest += interest;
+    year.principal += repayment - interest;
+    year.closingBalance = Math.max(0, remaining);
+
+    if (remaining <= REPAID_THRESHOLD) {
+      payoffDate = date;
+    }
+  }
+
+  return {
+    repayments: period,
+    payoffDate,
+    totalInterest,
+    totalRepaid,
+    years,
+  };
+}
+
+/**
+ * Compares each recorded balance with the balance the loan would have if only
+ * the scheduled repayments had been made since the first recorded balance.
+ *
+ * @param history - Recorded balances, oldest first; the first is the start
+ * @param terms - Rate and repayment
+ * @param offsetHistory - Offset account balances, oldest first
+ * @returns One comparison per recorded balance (the first has no difference)
+ */
+export function compareWithSchedule(
+  history: DatedBalance[],
+  terms: LoanTerms,
+  offsetHistory: DatedBalance[] = []
+): BalanceComparison[] {
+  if (history.length === 0) {
+    return [];
+  }
+
+  const rate = getPeriodicRate(terms.annualRate, terms.frequency);
+  const start = parseISO(history[0].date);
+  let scheduled = history[0].balance;
+  let period = 0;
+
+  return history.map((entry) => {
+    // Apply every repayment due on or before this check-in
+    for (;;) {
+      const next = addRepaymentPeriods(start, terms.frequency, period + 1);
+      const nextDate = format(next, "yyyy-MM-dd");
+      if (nextDate > entry.date || scheduled <= REPAID_THRESHOLD) {
+        break;
+      }
+      period++;
+      const offset = getBalanceOn(offsetHistory, nextDate);
+      const interest = Math.max(0, scheduled - offset) * rate;
+      scheduled = Math.max(0, scheduled + interest - Math.min(terms.repayment, scheduled + interest));
+    }
+
+    return {
+      date: entry.date,
+      actual: entry.balance,
+      scheduled,
+      difference: scheduled - entry.balance,
+    };
+  });
+}
+
+/**
+ * Repays a set of debts month by month. Every debt gets its scheduled
+ * repayment; with a strategy, the extra amount and the repayments of debts
+ * already repaid go to the next debt in the strategy's order.
+ *
+ * @param debts - Debts to repay (balances and repayments in AUD)
+ * @param extraMonthly - Extra repaid each month (ignored without a strategy)
+ * @param strategy - Avalanche, snowball, or null for scheduled repayments only
+ * @param startDate - Month before the first repayment
+ * @returns PayoffPlan with interestSaved and monthsSaved left at 0 and null
+ */
+export function simulateDebtPayoff(
+  debts: PayoffDebt[],
+  extraMonthly: number,
+  strategy: DebtPayoffStrategy | null,
+  startDate: Date
+): PayoffPlan {
+  const order = [...debts].sort((a, b) =>
+    strategy === "snowball"
+      ? a.balance - b.balance || b.annualRate - a.annualRate
+      : b.annualRate - a.annualRate || a.balance - b.balance
+  );
+
+  const state = order.map((debt) => ({
+    debt,
+    balance: debt.balance,
+    interest: 0,
+    months: null as number | null,
+  }));
+  const budget = strategy ? order.reduce((sum, d) => sum + d.monthlyRepayment, 0) + extraMonthly : 0;
+
+  let month = 0;
+  while (state.some((s) => s.months === null) && month < MAX_LOAN_MONTHS) {
+    month++;
+    let available = budget;
+
+    for (const s of state) {
+      if (s.months !== null) continue;
+      const interest = Math.max(0, s.balance - s.debt.offsetBalance) * (s.debt.annualRate / 100 / 12);
+      s.balance += interest;
+      s.interest += interest;
+
+      const payment = Math.min(s.debt.monthlyRepayment, s.balance);
+      s.balance -= payment;
+      available -= payment;
+    }
+
+    // Extra and rolled-over repayments go to targets in strategy order
+    if (strategy) {
+      for (const s of state) {
+        if (available <= 0) break;
+        if (s.months !== null) continue;
+        const payment = Math.min(available, s.balance);
+        s.balance -= payment;
+        available -= payment;
+      }
+    }
+
+    for (const s of state) {
+      if (s.months === null && s.balance <= REPAID_THRESHOLD) {
+        s.months = month;
+      }
+    }
+  }
+
+  const toDate = (months: number | null) =>
+    months === null ? null : format(addMonths(startDate, months), "yyyy-MM-dd");
+  const allRepaid = state.every((s) => s.months !== null);
+  const months = allRepaid ? Math.max(0, ...state.map((s) => s.months!)) : null;
+
+  return {
+    strategy,
+    extraMonthly: strategy ? extraMonthly : 0,
+    debtFreeDate: toDate(months),
+    months,
+    totalInterest: state.reduce((sum, s) => sum + s.interest, 0),
+    interestSaved: 0,
+    monthsSaved: null,
+    debts: state.map((s) => ({
+      id: s.debt.id,
+      name: s.debt.name,
+      payoffDate: toDate(s.months),
+      months: s.months,
+      interest: s.interest,
+    })),
+  };
+}
+
+/**
+ * Plans every strategy at each extra amount (and at no extra, which still
+ * rolls repaid debts' repayments over), measured against scheduled
+ * repayments only.
+ *
+ * @param debts - Debts to repay (balances and repayments in AUD)
+ * @param extraAmounts - Extra monthly amounts to compare
+ * @param startDate - Month before the first repayment
+ * @returns Baseline and one plan per strategy per amount
+ */
+export function compareDebtPayoffPlans(
+  debts: PayoffDebt[],
+  extraAmounts: number[],
+  startDate: Date
+): { baseline: PayoffPlan; plans: PayoffPlan[] } {
+  const baseline = simulateDebtPayoff(debts, 0, null, startDate);
+  const amounts = [0, ...extraAmounts.filter((a) => a > 0)];
+
+  const plans = DEBT_PAYOFF_STRATEGIES.flatMap((strategy) =>
+    amounts.map((extra) => {
+      const plan = simulateDebtPayoff(debts, extra, strategy, startDate);
+      return {
+        ...plan,
+        interestSaved: baseline.totalInterest - plan.totalInterest,
+        monthsSaved:
+          baseline.months !== null && plan.months !== null ? baseline.months - plan.months : null,
+      };
+    })
+  );
+
+  return { baseline, plans };
+}
+
+/**
+ * Summarises a debt holding: its loan terms, remaining amortisation schedule
+ * from the latest balance, and how recorded balances compare with the
+ * schedule.
+ *
+ * @param holding - The debt holding
+ * @param userId - Owner of the holding, used to scope the offset lookup
+ * @returns DebtSummary in the holding's currency
+ */
+export async function calculateDebtSummary(
+  holding: Holding,
+  userId: string
+): Promise<DebtSummary> {
+  const calculatedAt = new Date();
+
+  const [history, offsetHolding] = await Promise.all([
+    getBalanceHistory(holding.id, holding.currency),
+    holding.offsetHoldingId
+      ? db
+          .select({ id: holdings.id, name: holdings.name })
+          .from(holdings)
+          .where(
+            and(
+              eq(holdings.id, holding.offsetHoldingId),
+              eq(holdings.userId, userId),
+              isNull(holdings.deletedAt)
+            )
+          )
+          .then((rows) => rows[0] ?? null)
+      : Promise.resolve(null),
+  ]);
+
+  const offsetHistory = offsetHolding
+    ? await getBalanceHistory(offsetHolding.id, holding.currency)
+    : [];
+  const offset = offsetHolding
+    ? { ...offsetHolding, balance: offsetHistory.at(-1)?.balance ?? 0 }
+    : null;
+
+  const latest = history.at(-1) ?? null;
+  const termEnd =
+    holding.loanStartDate && holding.loanTermMonths !== null
+      ? addMonths(parseISO(holding.loanStartDate), holding.loanTermMonths)
+      : null;
+
+  const terms = latest
+    ? getLoanTerms(holding, latest.balance, parseISO(latest.date))
+    : null;
+
+  let schedule: AmortisationSchedule | null = null;
+  let monthsAheadOfTerm: number | null = null;
+  if (latest && terms) {
+    schedule = buildAmortisationSchedule(
+      latest.balance,
+      terms,
+      parseISO(latest.date),
+      offset?.balance ?? 0
+    );
+    if (termEnd && schedule.payoffDate) {
+      monthsAheadOfTerm = differenceInCalendarMonths(termEnd, parseISO(schedule.payoffDate));
+    }
+  }
+
+  // Compare from the first balance recorded once the loan had started
+  const tracked = holding.loanStartDate
+    ? history.filter((h) => h.date >= holding.loanStartDate!)
+    : history;
+  let comparison: BalanceComparison[] = [];
+  if (tracked.length > 1) {
+    const startTerms = getLoanTerms(holding, tracked[0].balance, parseISO(tracked[0].date));
+    if (startTerms) {
+      comparison = compareWithSchedule(tracked, startTerms, offsetHistory);
+    }
+  }
+
+  return {
+    currency: holding.currency,
+    balance: latest?.balance ?? null,
+    balanceDate: latest?.date ?? null,
+    terms,
+    offset,
+    termEndDate: termEnd ? format(termEnd, "yyyy-MM-dd") : null,
+    monthsAheadOfTerm,
+    schedule,
+    history: comparison,
+    calculatedAt,
+  };
+}
+
+/**
+ * Compares payoff strategies across all of a user's active debt holdings,
+ * converted to AUD. Debts with nothing owing are skipped; debts without an
+ * interest rate or repayment are listed as excluded.
+ *
+ * @param userId - The user ID
+ * @param extraAmounts - Extra monthly amounts (AUD) to compare
+ * @returns DebtPayoffComparison
+ */
+export async function getDebtPayoffComparison(
+  userId: string,
+  extraAmounts: number[]
+): Promise<DebtPayoffComparison> {
+  const calculatedAt = new Date();
+
+  const [debtHoldings, snapshotsMap] = await Promise.all([
+    db
+      .select()
+      .from(holdings)
+      .where(
+        and(
+          eq(holdings.userId, userId),
+          eq(holdings.type, "debt"),
+          eq(holdings.isActive, true),
+          isNull(holdings.deletedAt)
+        )
+      ),
+    getLatestSnapshots(userId),
+  ]);
+
+  const offsetIds = debtHoldings
+    .map((h) => h.offsetHoldingId)
+    .filter((id): id is string => id !== null);
+  const offsetHoldings = offsetIds.length > 0
+    ? await db
+        .select({ id: holdings.id })
+        .from(holdings)
+        .where(and(inArray(holdings.id, offsetIds), isNull(holdings.deletedAt)))
+    : [];
+  const liveOffsetIds = new Set(offsetHoldings.map((h) => h.id));
+
+  const debts: PayoffDebt[] = [];
+  const excluded: DebtPayoffComparison["excluded"] = [];
+
+  for (const holding of debtHoldings) {
+    const snapshot = snapshotsMap.get(holding.id);
+    if (!snapshot || Number(snapshot.balance) <= 0) {
+      continue;
+    }
+
+    const balance =
+      Number(snapshot.balance) * (await getExchangeRate(snapshot.currency, holding.currency));
+    const toAud = await getExchangeRate(holding.currency, "AUD");
+    const terms = getLoanTerms(holding, balance, calculatedAt);
+    if (!terms) {
+      excluded.push({
+        id: holding.id,
+        name: holding.name,
+        reason:
+          holding.interestRate === null
+            ? "No interest rate"
+            : "No repayment amount, or loan term has ended",
+      });
+      continue;
+    }
+
+    let offsetBalance = 0;
+    const offsetSnapshot =
+      holding.offsetHoldingId && liveOffsetIds.has(holding.offsetHoldingId)
+        ? snapshotsMap.get(holding.offsetHoldingId)
+        : undefined;
+    if (offsetSnapshot) {
+      offsetBalance =
+        Number(offsetSnapshot.balance) * (await getExchangeRate(offsetSnapshot.currency, "AUD"));
+    }
+
+    debts.push({
+      id: holding.id,
+      name: holding.name,
+      balance: balance * toAud,
+      annualRate: terms.annualRate,
+      monthlyRepayment: (terms.repayment * toAud * REPAYMENTS_PER_YEAR[terms.frequency]) / 12,
+      offsetBalance,
+    });
+  }
+
+  const { baseline, plans } = compareDebtPayoffPlans(debts, extraAmounts, calculatedAt);
+
+  return {
+    debts,
+    excluded,
+    baseline,
+    plans,
+    calculatedAt,
+  };
+}
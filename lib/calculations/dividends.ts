@@ -0,0 +1,420 @@
+/**
+ * Dividend income calculation service.
+ *
+ * Turns DIVIDEND transactions into an income ledger with Australian
+ * franking credits and foreign withholding tax, grouped by financial year
+ * and by holding, and works out trailing yields for a single holding.
+ *
+ * Amounts:
+ * - Cash dividend = shares held x dividend per share (before withholding)
+ * - Net cash = cash dividend - foreign withholding tax
+ * - Franking credit = franked portion x company tax rate / (1 - company tax rate)
+ * - Grossed-up dividend = cash dividend + franking credit (assessable income)
+ *
+ * Summary amounts are reported in AUD, each payment converted at the
+ * exchange rate on its payment date.
+ */
+
+import { db } from "@/lib/db";
+import { transactions, type Holding } from "@/lib/db/schema";
+import { eq, isNull, and, inArray, asc } from "drizzle-orm";
+import { subYears, parseISO, isAfter } from "date-fns";
+import {
+  getAudRateHistories,
+  convertToAudAsOf,
+} from "@/lib/services/exchange-rate-history";
+import { getCachedPrice } from "@/lib/services/price-cache";
+import { getPriceSymbol } from "@/lib/services/price-history";
+import { calculateQuantityHeld } from "./quantity";
+import { getTradeableHoldings } from "./returns";
+import {
+  getFinancialYear,
+  getFinancialYearRange,
+  formatFinancialYear,
+} from "@/lib/utils/financial-year";
+
+/** Australian corporate tax rate used to gross up franked dividends. */
+export const COMPANY_TAX_RATE = 0.3;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A single dividend payment.
+ */
+export interface DividendEvent {
+  /** ID of the DIVIDEND transaction */
+  transactionId: string;
+  /** Holding ID */
+  holdingId: string;
+  /** Holding name */
+  name: string;
+  /** Trading symbol */
+  symbol: string | null;
+  /** Native currency of the dividend */
+  currency: string;
+  /** Payment date */
+  date: string;
+  /** Financial year the payment falls in */
+  financialYear: number;
+  /** Shares held when the dividend was paid */
+  shares: number;
+  /** Dividend per share in native currency */
+  amountPerShare: number;
+  /** Cash dividend before withholding tax, in native currency */
+  cashAmount: number;
+  /** Foreign tax withheld, in native currency */
+  withholdingTax: number;
+  /** Cash received after withholding, in native currency */
+  netCash: number;
+  /** Percentage of the dividend that was franked (0-100) */
+  frankingPercent: number;
+  /** Franking credit attached, in native currency */
+  frankingCredit: number;
+  /** Cash dividend plus franking credit, in native currency */
+  grossedUpAmount: number;
+  /** True if the dividend was reinvested through a DRP */
+  isDrp: boolean;
+  /** Cash dividend in AUD */
+  cashAmountAud: number;
+  /** Withholding tax in AUD */
+  withholdingTaxAud: number;
+  /** Net cash in AUD */
+  netCashAud: number;
+  /** Franking credit in AUD */
+  frankingCreditAud: number;
+  /** Grossed-up dividend in AUD */
+  grossedUpAmountAud: number;
+}
+
+/**
+ * Dividend income totals in AUD.
+ */
+export interface DividendTotals {
+  /** Cash dividends before withholding */
+  cashAmount: number;
+  /** Foreign tax withheld */
+  withholdingTax: number;
+  /** Cash received after withholding */
+  netCash: number;
+  /** Franking credits */
+  frankingCredit: number;
+  /** Cash dividends plus franking credits */
+  grossedUpAmount: number;
+  /** Net cash reinvested through DRPs */
+  reinvested: number;
+  /** Number of dividend payments */
+  count: number;
+}
+
+/**
+ * Dividend income for one holding within a report.
+ */
+export interface HoldingDividendTotals extends DividendTotals {
+  holdingId: string;
+  name: string;
+  symbol: string | null;
+}
+
+/**
+ * Dividend income report for a financial year.
+ */
+export interface DividendReport {
+  /** Financial year (ending year) */
+  financialYear: number;
+  /** Display label, e.g. "FY2025-26" */
+  label: string;
+  /** First day of the financial year (YYYY-MM-DD) */
+  startDate: string;
+  /** Last day of the financial year (YYYY-MM-DD) */
+  endDate: string;
+  /** Dividend payments in the year, ordered by date */
+  events: DividendEvent[];
+  /** Totals per holding, largest grossed-up income first */
+  byHolding: HoldingDividendTotals[];
+  /** Totals for the year */
+  summary: DividendTotals;
+  /** Financial years with at least one dividend, newest first */
+  availableYears: number[];
+  /** Timestamp when calculation was performed */
+  calculatedAt: Date;
+}
+
+/**
+ * Dividend totals for one financial year of a single holding.
+ */
+export interface FinancialYearDividends extends DividendTotals {
+  financialYear: number;
+  label: string;
+}
+
+/**
+ * Dividend history and trailing yield for a single holding.
+ */
+export interface HoldingDividendSummary {
+  /** Dividend payments, newest first */
+  events: DividendEvent[];
+  /** Totals per financial year, newest first */
+  byFinancialYear: FinancialYearDividends[];
+  /** Totals for the last 12 months */
+  trailing12Months: DividendTotals;
+  /** Current market value in native currency, or null without a price */
+  marketValue: number | null;
+  /** Trailing 12-month cash dividends / market value (%), or null */
+  trailingYield: number | null;
+  /** Trailing 12-month grossed-up dividends / market value (%), or null */
+  grossedUpYield: number | null;
+  /** Timestamp when calculation was performed */
+  calculatedAt: Date;
+}
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+/**
+ * Calculates the franking credit attached to a dividend.
+ *
+ * @param cashAmount - Cash dividend
+ * @param frankingPercent - Franked portion (0-100)
+ * @param companyTaxRate - Tax rate the company paid (default 30%)
+ * @returns Franking credit in the dividend's currency
+ *
+ * @example
+ * calculateFrankingCredit(70, 100); // 30
+ */
+export function calculateFrankingCredit(
+  cashAmount: number,
+  frankingPercent: number,
+  companyTaxRate: number = COMPANY_TAX_RATE
+): number {
+  const frankedAmount = cashAmount * (frankingPercent / 100);
+  return (frankedAmount * companyTaxRate) / (1 - companyTaxRate);
+}
+
+/**
+ * Sums dividend events into AUD totals.
+ */
+function totalDividends(events: DividendEvent[]): DividendTotals {
+  const totals: DividendTotals = {
+    cashAmount: 0,
+    withholdingTax: 0,
+    netCash: 0,
+    frankingCredit: 0,
+    grossedUpAmount: 0,
+    reinvested: 0,
+    count: events.length,
+  };
+
+  for (const event of events) {
+    totals.cashAmount += event.cashAmountAud;
+    totals.withholdingTax += event.withholdingTaxAud;
+    totals.netCash += event.netCashAud;
+    totals.frankingCredit += event.frankingCreditAud;
+    totals.grossedUpAmount += event.grossedUpAmountAud;
+    if (event.isDrp) {
+      totals.reinvested += event.netCashAud;
+    }
+  }
+
+  return totals;
+}
+
+/**
+ * Builds dividend events for the given holdings.
+ */
+async function getDividendEvents(
+  holdingList: Holding[]
+): Promise<DividendEvent[]> {
+  if (holdingList.length === 0) {
+    return [];
+  }
+
+  const holdingMap = new Map(holdingList.map((h) => [h.id, h]));
+
+  const rows = await db
+    .select({
+      id: transactions.id,
+      holdingId: transactions.holdingId,
+      date: transactions.date,
+      quantity: transactions.quantity,
+      unitPrice: transactions.unitPrice,
+      currency: transactions.currency,
+      frankingPercent: transactions.frankingPercent,
+      frankingCredit: transactions.frankingCredit,
+      withholdingTax: transactions.withholdingTax,
+      isDrp: transactions.isDrp,
+    })
+    .from(transactions)
+    .where(
+      and(
+        inArray(transactions.holdingId, Array.from(holdingMap.keys())),
+        eq(transactions.action, "DIVIDEND"),
+        isNull(transactions.deletedAt)
+      )
+    )
+    .orderBy(asc(transactions.date), asc(transactions.createdAt));
+
+  // Daily rates per currency, for payment-date conversion
+  const fxHistories = await getAudRateHistories(rows.map((r) => r.currency));
+
+  const events: DividendEvent[] = [];
+  for (const row of rows) {
+    const holding = holdingMap.get(row.holdingId)!;
+    const audRate = await convertToAudAsOf(1, row.currency, row.date, fxHistories);
+    const shares = Number(row.quantity);
+    const amountPerShare = Number(row.unitPrice);
+    const cashAmount = shares * amountPerShare;
+    const withholdingTax = Number(row.withholdingTax ?? 0);
+    const frankingPercent = Number(row.frankingPercent ?? 0);
+    const frankingCredit =
+      row.frankingCredit !== null
+        ? Number(row.frankingCredit)
+        : calculateFrankingCredit(cashAmount, frankingPercent);
+    const netCash = cashAmount - withholdingTax;
+    const grossedUpAmount = cashAmount + frankingCredit;
+
+    events.push({
+      transactionId: row.id,
+      holdingId: row.holdingId,
+      name: holding.name,
+      symbol: holding.symbol,
+      currency: row.currency,
+      date: row.date,
+      financialYear: getFinancialYear(row.date),
+      shares,
+      amountPerShare,
+      cashAmount,
+      withholdingTax,
+      netCash,
+      frankingPercent,
+      frankingCredit,
+      grossedUpAmount,
+      isDrp: row.isDrp,
+      cashAmountAud: cashAmount * audRate,
+      withholdingTaxAud: withholdingTax * audRate,
+      netCashAud: netCash * audRate,
+      frankingCreditAud: frankingCredit * audRate,
+      grossedUpAmountAud: grossedUpAmount * audRate,
+    });
+  }
+
+  return events;
+}
+
+// =============================================================================
+// MAIN CALCULATION FUNCTIONS
+// =============================================================================
+
+/**
+ * Builds the dividend income report for one Australian financial year.
+ *
+ * @param userId - The user ID to report on
+ * @param financialYear - Financial year (ending year), e.g. 2026 for FY2025-26
+ * @returns DividendReport with payments, per-holding totals, and year totals
+ *
+ * @example
+ * const report = await getDividendReport("user_123", 2026);
+ * console.log(`${report.label} franking credits: $${report.summary.frankingCredit}`);
+ */
+export async function getDividendReport(
+  userId: string,
+  financialYear: number
+): Promise<DividendReport> {
+  const calculatedAt = new Date();
+  const tradeableHoldings = await getTradeableHoldings(userId);
+  const allEvents = await getDividendEvents(tradeableHoldings);
+
+  const events = allEvents.filter((e) => e.financialYear === financialYear);
+  const availableYears = Array.from(
+    new Set(allEvents.map((e) => e.financialYear))
+  ).sort((a, b) => b - a);
+
+  // Group the year's events by holding
+  const eventsByHolding = new Map<string, DividendEvent[]>();
+  for (const event of events) {
+    const group = eventsByHolding.get(event.holdingId);
+    if (group) {
+      group.push(event);
+    } else {
+      eventsByHolding.set(event.holdingId, [event]);
+    }
+  }
+
+  const byHolding: HoldingDividendTotals[] = Array.from(eventsByHolding.values())
+    .map((holdingEvents) => ({
+      holdingId: holdingEvents[0].holdingId,
+      name: holdingEvents[0].name,
+      symbol: holdingEvents[0].symbol,
+      ...totalDividends(holdingEvents),
+    }))
+    .sort((a, b) => b.grossedUpAmount - a.grossedUpAmount);
+
+  const { startDate, endDate } = getFinancialYearRange(financialYear);
+
+  return {
+    financialYear,
+    label: formatFinancialYear(financialYear),
+    startDate,
+    endDate,
+    events,
+    byHolding,
+    summary: totalDividends(events),
+    availableYears,
+    calculatedAt,
+  };
+}
+
+/**
+ * Builds dividend history and trailing yield for a single holding.
+ *
+ * Yields use the last 12 months of dividends against the current market
+ * value (quantity held x cached price), both in the holding's currency.
+ *
+ * @param holding - The holding to summarise
+ * @returns HoldingDividendSummary with history, per-year totals, and yields
+ */
+export async function getHoldingDividendSummary(
+  holding: Holding
+): Promise<HoldingDividendSummary> {
+  const calculatedAt = new Date();
+  const events = (await getDividendEvents([holding])).reverse();
+
+  // Per financial year totals, newest first
+  const years = Array.from(new Set(events.map((e) => e.financialYear)));
+  const byFinancialYear: FinancialYearDividends[] = years.map((financialYear) => ({
+    financialYear,
+    label: formatFinancialYear(financialYear),
+    ...totalDividends(events.filter((e) => e.financialYear === financialYear)),
+  }));
+
+  const cutoff = subYears(calculatedAt, 1);
+  const trailingEvents = events.filter((e) => isAfter(parseISO(e.date), cutoff));
+  const trailing12Months = totalDividends(trailingEvents);
+
+  // Market value in native currency
+  let marketValue: number | null = null;
+  const priceSymbol = getPriceSymbol(holding);
+  if (priceSymbol) {
+    const cachedPrice = await getCachedPrice(priceSymbol);
+    const quantity = await calculateQuantityHeld(holding.id);
+    if (cachedPrice && cachedPrice.price > 0 && quantity > 0) {
+      marketValue = quantity * cachedPrice.price;
+    }
+  }
+
+  // Yields compare native-currency amounts
+  const trailingCash = trailingEvents.reduce((sum, e) => sum + e.cashAmount, 0);
+  const trailingGrossedUp = trailingEvents.reduce((sum, e) => sum + e.grossedUpAmount, 0);
+
+  return {
+    events,
+    byFinancialYear,
+    trailing12Months,
+    marketValue,
+    trailingYield: marketValue ? (trailingCash / marketValue) * 100 : null,
+    grossedUpYield: marketValue ? (trailingGrossedUp / marketValue) * 100 : null,
+    calculatedAt,
+  };
+}
@@ -3,13 +3,35 @@
  *
  * Calculates net worth at past points in time for charting.
  * Uses carry-forward logic for months with missing data.
+ *
+ * Tradeable holdings are valued at the month-end close from the stored
+ * daily price history, falling back to the current cached price for
+ * months before a symbol's history begins. Foreign currency values are
+ * converted at the month-end exchange rate from the stored daily rate
+ * history, falling back to the current rate before that history begins.
+ * Property and vehicles are estimated from their purchase details for months
+ * before their first valuation.
  */
 
 import { db } from "@/lib/db";
-import { holdings, transactions, snapshots, type Holding, type Snapshot } from "@/lib/db/schema";
-import { eq, isNull, and, lte, asc, desc } from "drizzle-orm";
+import { holdings, snapshots, type Holding, type Snapshot } from "@/lib/db/schema";
+import { eq, isNull, and, lte, desc } from "drizzle-orm";
 import { getCachedPrice, type CachedPrice } from "@/lib/services/price-cache";
 import { getExchangeRate } from "@/lib/services/exchange-rates";
+import {
+  getAudRateHistories,
+  convertToAudAsOf,
+  type AudRateHistories,
+} from "@/lib/services/exchange-rate-history";
+import {
+  getPriceHistory,
+  getPriceSymbol,
+  findCloseAsOf,
+  type PriceHistoryPoint,
+} from "@/lib/services/price-history";
+import { estimateRealAssetValue } from "./real-assets";
+import { calculateQuantityHeld } from "./quantity";
+import { isRealAsset } from "@/lib/constants";
 
 // =============================================================================
 // TYPES
@@ -73,55 +95,6 @@ async function convertToAud(value: number, currency: string): Promise<number> {
   return value * rate;
 }
 
-/**
- * Calculates quantity held for a holding as of a specific date.
- * Similar to calculateQuantityHeld but filters transactions up to the given date.
- */
-async function calculateQuantityHeldAsOf(
-  holdingId: string,
-  asOfDate: Date
-): Promise<number> {
-  const dateStr = formatDateForSql(asOfDate);
-
-  const txns = await db
-    .select({
-      date: transactions.date,
-      action: transactions.action,
-      quantity: transactions.quantity,
-    })
-    .from(transactions)
-    .where(
-      and(
-        eq(transactions.holdingId, holdingId),
-        isNull(transactions.deletedAt),
-        lte(transactions.date, dateStr)
-      )
-    )
-    .orderBy(asc(transactions.date));
-
-  let quantity = 0;
-
-  for (const txn of txns) {
-    const txnQuantity = Number(txn.quantity);
-
-    switch (txn.action) {
-      case "BUY":
-        quantity += txnQuantity;
-        break;
-      case "SELL":
-        quantity -= txnQuantity;
-        break;
-      case "SPLIT":
-        quantity *= txnQuantity;
-        break;
-      case "DIVIDEND":
-        break;
-    }
-  }
-
-  return quantity;
-}
-
 /**
  * Gets the most recent snapshot for a holding as of a specific date.
  * Implements carry-forward: returns the latest snapshot on or before the date.
@@ -150,24 +123,35 @@ async function getSnapshotAsOf(
 
 /**
  * Calculates value for a tradeable holding at a specific date.
- * Uses quantity at that date x current price (historical prices not stored).
+ * Uses quantity at that date x the close on or before that date (converted
+ * at that date's rate), or the current price at the current rate if no close
+ * is stored that far back.
  */
 async function calculateTradeableValueAsOf(
   holding: Holding,
   asOfDate: Date,
-  priceCache: Map<string, CachedPrice | null>
+  priceCache: Map<string, CachedPrice | null>,
+  historyCache: Map<string, PriceHistoryPoint[]>,
+  fxHistories: AudRateHistories
 ): Promise<number> {
-  const quantity = await calculateQuantityHeldAsOf(holding.id, asOfDate);
+  const quantity = await calculateQuantityHeld(holding.id, formatDateForSql(asOfDate));
 
   if (quantity === 0) {
     return 0;
   }
 
-  const symbol = holding.symbol;
+  const symbol = getPriceSymbol(holding);
   if (!symbol) {
     return 0;
   }
 
+  // Prefer the historical close for the date
+  const dateStr = formatDateForSql(asOfDate);
+  const close = findCloseAsOf(historyCache.get(symbol) ?? [], dateStr);
+  if (close) {
+    return convertToAudAsOf(quantity * close.close, close.currency, dateStr, fxHistories);
+  }
+
   // Get price from cache (already fetched for efficiency)
   const cachedPrice = priceCache.get(symbol);
   if (!cachedPrice) {
@@ -180,20 +164,27 @@ async function calculateTradeableValueAsOf(
 
 /**
  * Calculates value for a snapshot-based holding at a specific date.
- * Uses carry-forward: most recent snapshot on or before the date.
+ * Uses carry-forward: most recent snapshot on or before the date, converted
+ * at that date's rate. A property or vehicle with no valuation by then is
+ * estimated from its purchase details.
  */
 async function calculateSnapshotValueAsOf(
   holding: Holding,
-  asOfDate: Date
+  asOfDate: Date,
+  fxHistories: AudRateHistories
 ): Promise<number> {
   const snapshot = await getSnapshotAsOf(holding.id, asOfDate);
 
   if (!snapshot) {
-    return 0;
+    const estimate = isRealAsset(holding.type) ? estimateRealAssetValue(holding, asOfDate) : null;
+    if (!estimate) {
+      return 0;
+    }
+    return convertToAudAsOf(estimate, holding.currency, formatDateForSql(asOfDate), fxHistories);
   }
 
   const valueNative = Number(snapshot.balance);
-  return convertToAud(valueNative, snapshot.currency);
+  return convertToAudAsOf(valueNative, snapshot.currency, formatDateForSql(asOfDate), fxHistories);
 }
 
 // =============================================================================
@@ -206,14 +197,15 @@ async function calculateSnapshotValueAsOf(
  * Processing:
  * 1. Generates month-end dates for the requested period
  * 2. For each month:
- *    - Tradeable assets: quantity at month-end x current price
+ *    - Tradeable assets: quantity at month-end x month-end close
  *    - Snapshot assets: carry-forward most recent snapshot
  *    - Debt: carry-forward most recent snapshot
+ *    - Foreign currency values: converted at the month-end exchange rate
  * 3. Returns array of data points for charting
  *
- * Note: For tradeable assets, we use current price since historical prices
- * are not stored. This means historical values are estimates based on
- * current prices, not actual values at those dates.
+ * Note: For tradeable assets, months before a symbol's stored price history
+ * begins fall back to the current price, so those values are estimates.
+ * Months before the stored exchange rate history begins use the current rate.
  *
  * @param userId - The user ID to calculate history for
  * @param months - Number of months of history to return (default 12)
@@ -253,7 +245,7 @@ export async function calculateHistoricalNetWorth(
 
   // Categorize holdings
   const tradeableTypes = ["stock", "etf", "crypto"] as const;
-  const snapshotAssetTypes = ["super", "cash"] as const;
+  const snapshotAssetTypes = ["super", "cash", "property", "vehicle"] as const;
   const debtTypes = ["debt"] as const;
 
   const tradeableHoldings = userHoldings.filter((h) =>
@@ -266,14 +258,27 @@ export async function calculateHistoricalNetWorth(
     debtTypes.includes(h.type as (typeof debtTypes)[number])
   );
 
-  // Pre-fetch current prices for all tradeable holdings (for efficiency)
+  // Pre-fetch current prices and daily closes for all tradeable holdings (for efficiency)
   const priceCache = new Map<string, CachedPrice | null>();
+  const historyCache = new Map<string, PriceHistoryPoint[]>();
+  // Start a month early so the first month-end can carry a close forward
+  const historyFrom = formatDateForSql(new Date(monthEnds[0].getFullYear(), monthEnds[0].getMonth() - 1, 1));
   for (const holding of tradeableHoldings) {
-    if (holding.symbol) {
-      const price = await getCachedPrice(holding.symbol);
-      priceCache.set(holding.symbol, price);
+    const priceSymbol = getPriceSymbol(holding);
+    if (priceSymbol) {
+      priceCache.set(priceSymbol, await getCachedPrice(priceSymbol));
+      historyCache.set(priceSymbol, await getPriceHistory(priceSymbol, historyFrom));
+    }
+  }
+
+  // Pre-fetch daily exchange rates for every currency a value may be in
+  const currencies = new Set(userHoldings.map((h) => h.currency as string));
+  for (const closes of historyCache.values()) {
+    for (const close of closes) {
+      currencies.add(close.currency);
     }
   }
+  const fxHistories = await getAudRateHistories(currencies, historyFrom);
 
   // Calculate net worth for each month
   const history: HistoryPoint[] = [];
@@ -281,17 +286,17 @@ export async function calculateHistoricalNetWorth(
   for (const monthEnd of monthEnds) {
     // Calculate tradeable assets value
     const tradeableValues = await Promise.all(
-      tradeableHoldings.map((h) => calculateTradeableValueAsOf(h, monthEnd, priceCache))
+      tradeableHoldings.map((h) => calculateTradeableValueAsOf(h, monthEnd, priceCache, historyCache, fxHistories))
     );
 
     // Calculate snapshot assets value
     const snapshotAssetValues = await Promise.all(
-      snapshotAssetHoldings.map((h) => calculateSnapshotValueAsOf(h, monthEnd))
+      snapshotAssetHoldings.map((h) => calculateSnapshotValueAsOf(h, monthEnd, fxHistories))
     );
 
     // Calculate debt value
     const debtValues = await Promise.all(
-      debtHoldings.map((h) => calculateSnapshotValueAsOf(h, monthEnd))
+      debtHoldings.map((h) => calculateSnapshotValueAsOf(h, monthEnd, fxHistories))
     );
 
     const totalAssets =
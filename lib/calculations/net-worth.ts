@@ -3,8 +3,13 @@
  *
  * Calculates total net worth from all holdings:
  * - Tradeable assets (stocks, ETFs, crypto): quantity x current price
- * - Snapshot assets (super, cash): latest snapshot balance
+ * - Snapshot assets (super, cash, property, vehicle): latest snapshot balance
+ *   or valuation. Property and vehicles without a valuation are estimated
+ *   from their purchase details (see real-assets.ts).
  * - Debt: latest snapshot balance (subtracted from net worth)
+ * - Settlement cash: a cash holding that tradeable holdings settle to uses
+ *   its ledger balance when trades are newer than its snapshot (see
+ *   settlement.ts)
  *
  * Net Worth = Total Assets - Total Debt
  *
@@ -17,15 +22,15 @@ import { db } from "@/lib/db";
 import { holdings, type Holding } from "@/lib/db/schema";
 import { eq, isNull, and } from "drizzle-orm";
 import { calculateQuantityHeld } from "./quantity";
-import {
-  getCachedPrice,
-  isCacheValid,
-  DEFAULT_PRICE_CACHE_TTL_MINUTES,
-  type CachedPrice,
-} from "@/lib/services/price-cache";
+import { getCachedPrice, isCacheValid, type CachedPrice } from "@/lib/services/price-cache";
+import { getPriceSymbol } from "@/lib/services/price-history";
+import { getHoldingPriceProvider } from "@/lib/services/price-providers";
 import { getLatestSnapshots, type SnapshotWithHolding } from "@/lib/queries/snapshots";
 import { getExchangeRate } from "@/lib/services/exchange-rates";
 import { convertCurrency, type Currency, type ExchangeRates } from "@/lib/utils/currency";
+import { estimateRealAssetValue, type ValuationSource } from "./real-assets";
+import { calculateSettlementBalances, type SettlementBalance } from "./settlement";
+import { BASE_CURRENCY, ENABLED_CURRENCIES, isRealAsset } from "@/lib/constants";
 
 // Snapshot staleness threshold: 2 months in milliseconds
 const SNAPSHOT_STALE_THRESHOLD_MS = 2 * 30 * 24 * 60 * 60 * 1000;
@@ -38,8 +43,8 @@ const SNAPSHOT_STALE_THRESHOLD_MS = 2 * 30 * 24 * 60 * 60 * 1000;
  * Breakdown of assets by type with individual holding details.
  */
 export interface AssetTypeBreakdown {
-  /** Type of holding (stock, etf, crypto, super, cash) */
-  type: "stock" | "etf" | "crypto" | "super" | "cash";
+  /** Type of holding (stock, etf, crypto, super, cash, property, vehicle) */
+  type: "stock" | "etf" | "crypto" | "super" | "cash" | "property" | "vehicle";
   /** Total value in display currency */
   totalValue: number;
   /** Number of holdings in this type */
@@ -68,6 +73,16 @@ export interface HoldingValue {
   quantity?: number;
   /** Price in native currency (for tradeable assets) */
   price?: number;
+  /** Where the value came from (for property and vehicles) */
+  valuationSource?: ValuationSource;
+  /** Date of the latest trade settled since the snapshot, when the balance is a ledger balance (for cash) */
+  ledgerDate?: string;
+  /** Linked mortgage or loan balance in display currency (for property and vehicles) */
+  linkedDebtValue?: number;
+  /** Value - linked debt balance (for property and vehicles with a linked loan) */
+  equity?: number;
+  /** Linked debt balance / value x 100 (for property and vehicles with a linked loan) */
+  lvr?: number | null;
 }
 
 /**
@@ -76,6 +91,8 @@ export interface HoldingValue {
 export type StaleReason =
   | "price_expired" // Tradeable: cached price is older than TTL
   | "no_price" // Tradeable: no cached price available
+  | "manual_price_old" // Manually priced: latest price is older than MANUAL_PRICE_STALE_DAYS
+  | "no_manual_price" // Manually priced: no price has been entered
   | "snapshot_old" // Snapshot: snapshot is older than 2 months
   | "no_snapshot"; // Snapshot: no snapshot available
 
@@ -108,7 +125,7 @@ export interface HoldingWithPercentage extends HoldingValue {
  */
 export interface AssetBreakdownItem {
   /** Type of holding */
-  type: "stock" | "etf" | "crypto" | "super" | "cash" | "debt";
+  type: "stock" | "etf" | "crypto" | "super" | "cash" | "property" | "vehicle" | "debt";
   /** Total value in display currency */
   totalValue: number;
   /** Number of holdings in this type */
@@ -170,19 +187,22 @@ export interface NetWorthResult {
 // =============================================================================
 
 /**
- * Fetches current exchange rates for currency conversion.
+ * Fetches current exchange rates into AUD for every enabled currency, plus
+ * any other currency the user's holdings are recorded in.
  *
- * @returns ExchangeRates object with USD/AUD and NZD/AUD rates
+ * @param holdingCurrencies - Currencies of the holdings being valued
+ * @returns ExchangeRates object keyed "{currency}/AUD"
  */
-async function fetchExchangeRates(): Promise<ExchangeRates> {
-  const [usdRate, nzdRate] = await Promise.all([
-    getExchangeRate("USD", "AUD"),
-    getExchangeRate("NZD", "AUD"),
-  ]);
-  return {
-    "USD/AUD": usdRate,
-    "NZD/AUD": nzdRate,
-  };
+async function fetchExchangeRates(holdingCurrencies: string[]): Promise<ExchangeRates> {
+  const currencies = [...new Set([...ENABLED_CURRENCIES, ...holdingCurrencies])].filter(
+    (c) => c !== BASE_CURRENCY
+  );
+  const rates = await Promise.all(
+    currencies.map((c) => getExchangeRate(c, BASE_CURRENCY))
+  );
+  return Object.fromEntries(
+    currencies.map((c, i) => [`${c}/${BASE_CURRENCY}`, rates[i]])
+  );
 }
 
 /**
@@ -262,7 +282,8 @@ function calculateTradeableValue(
     return { holdingValue: null, staleHolding: null };
   }
 
-  const cachedPrice = pricesMap.get(symbol) ?? null;
+  const provider = getHoldingPriceProvider(holding);
+  const cachedPrice = pricesMap.get(getPriceSymbol(holding)!) ?? null;
 
   // No cached price - flag as stale with "no_price" reason
   if (!cachedPrice) {
@@ -282,13 +303,13 @@ function calculateTradeableValue(
         name: holding.name,
         type: holding.type,
         lastUpdated: null,
-        reason: "no_price",
+        reason: provider.id === "manual" ? "no_manual_price" : "no_price",
       },
     };
   }
 
-  // Check if cached price is stale (older than TTL)
-  const isStale = !isCacheValid(cachedPrice, DEFAULT_PRICE_CACHE_TTL_MINUTES);
+  // Check if cached price is stale (older than the provider's TTL)
+  const isStale = !isCacheValid(cachedPrice, provider.cacheTtlMinutes);
 
   // Calculate value in native currency (even if stale, we use the cached price)
   const valueNative = quantity * cachedPrice.price;
@@ -318,7 +339,7 @@ function calculateTradeableValue(
           name: holding.name,
           type: holding.type,
           lastUpdated: cachedPrice.fetchedAt,
-          reason: "price_expired",
+          reason: provider.id === "manual" ? "manual_price_old" : "price_expired",
         }
       : null,
   };
@@ -333,21 +354,56 @@ interface SnapshotValueResult {
 }
 
 /**
- * Calculates value for snapshot holdings (super, cash, debt).
- * Uses latest snapshot balance, flagging old/missing snapshots.
+ * Calculates value for snapshot holdings (super, cash, debt, property, vehicle).
+ * Uses latest snapshot balance, flagging old/missing snapshots. A property
+ * or vehicle with no valuation is estimated from its purchase details; a
+ * property estimate is still flagged as missing a snapshot. A settlement
+ * cash holding uses its ledger balance when one is newer than the snapshot,
+ * and is only stale if the latest settled trade is old too.
  *
  * @param holding - The holding to calculate value for
  * @param snapshotsMap - Map of holding ID to latest snapshot
  * @param displayCurrency - The target currency for the value
  * @param rates - Exchange rates to use for conversion
+ * @param settlementBalances - Map of cash holding ID to ledger balance
  */
 function calculateSnapshotValue(
   holding: Holding,
   snapshotsMap: Map<string, SnapshotWithHolding>,
   displayCurrency: Currency,
-  rates: ExchangeRates
+  rates: ExchangeRates,
+  settlementBalances?: Map<string, SettlementBalance>
 ): SnapshotValueResult {
   const snapshot = snapshotsMap.get(holding.id);
+  const ledger = settlementBalances?.get(holding.id);
+
+  // No valuation yet - estimate property/vehicle value from purchase details
+  if (!snapshot && isRealAsset(holding.type)) {
+    const estimate = estimateRealAssetValue(holding, new Date());
+    if (estimate !== null) {
+      const isVehicle = holding.type === "vehicle";
+      return {
+        holdingValue: {
+          id: holding.id,
+          name: holding.name,
+          symbol: holding.symbol,
+          value: convertToDisplayCurrency(estimate, holding.currency, displayCurrency, rates),
+          currency: holding.currency,
+          valueNative: estimate,
+          valuationSource: isVehicle ? "depreciation" : "purchase_price",
+        },
+        staleHolding: isVehicle
+          ? null
+          : {
+              holdingId: holding.id,
+              name: holding.name,
+              type: holding.type,
+              lastUpdated: null,
+              reason: "no_snapshot",
+            },
+      };
+    }
+  }
 
   // No snapshot - flag as stale with "no_snapshot" reason
   if (!snapshot) {
@@ -363,7 +419,7 @@ function calculateSnapshotValue(
     };
   }
 
-  const valueNative = Number(snapshot.balance);
+  const valueNative = ledger ? ledger.balance : Number(snapshot.balance);
 
   // Convert to display currency
   const valueDisplay = convertToDisplayCurrency(
@@ -373,8 +429,8 @@ function calculateSnapshotValue(
     rates
   );
 
-  // Check if snapshot is stale (older than 2 months)
-  const snapshotDate = new Date(snapshot.date);
+  // Check if snapshot (or the ledger carrying it forward) is stale (older than 2 months)
+  const snapshotDate = new Date(ledger ? ledger.asOf : snapshot.date);
   const now = new Date();
   const ageMs = now.getTime() - snapshotDate.getTime();
   const isStale = ageMs > SNAPSHOT_STALE_THRESHOLD_MS;
@@ -387,6 +443,8 @@ function calculateSnapshotValue(
       value: valueDisplay,
       currency: snapshot.currency,
       valueNative,
+      ...(isRealAsset(holding.type) && { valuationSource: "valuation" as const }),
+      ...(ledger && { ledgerDate: ledger.asOf }),
     },
     staleHolding: isStale
       ? {
@@ -421,7 +479,9 @@ export interface CalculateNetWorthOptions {
  * 1. Fetches all active holdings for user
  * 2. Fetches current exchange rates
  * 3. For tradeable (stocks, ETFs, crypto): quantity x current cached price
- * 4. For snapshot-based (super, cash, debt): latest snapshot balance
+ * 4. For snapshot-based (super, cash, property, vehicle, debt): latest
+ *    snapshot balance, or an estimate for property/vehicles without one.
+ *    Settlement cash holdings use their ledger balance when newer.
  * 5. Converts all values to display currency (default AUD)
  * 6. Sums assets and debt separately
  * 7. Tracks stale data (expired prices, old snapshots)
@@ -454,18 +514,18 @@ export async function calculateNetWorth(
   const { displayCurrency = "AUD" } = options;
   const calculatedAt = new Date();
 
-  // Get all active holdings and exchange rates concurrently
-  const [userHoldings, rates] = await Promise.all([
-    getUserHoldings(userId),
-    fetchExchangeRates(),
-  ]);
+  // Get all active holdings, then exchange rates for their currencies
+  const userHoldings = await getUserHoldings(userId);
+  const rates = await fetchExchangeRates(userHoldings.map((h) => h.currency));
 
-  // Get latest snapshots for all holdings (single query)
+  // Get latest snapshots for all holdings (single query), and ledger
+  // balances for settlement cash holdings with newer trades
   const snapshotsMap = await getLatestSnapshots(userId);
+  const settlementBalances = await calculateSettlementBalances(userId, snapshotsMap);
 
   // Categorize holdings
   const tradeableTypes = ["stock", "etf", "crypto"] as const;
-  const snapshotAssetTypes = ["super", "cash"] as const;
+  const snapshotAssetTypes = ["super", "cash", "property", "vehicle"] as const;
   const debtTypes = ["debt"] as const;
 
   const tradeableHoldings = userHoldings.filter((h) =>
@@ -491,8 +551,8 @@ export async function calculateNetWorth(
     tradeableHoldings
       .filter((h) => h.symbol)
       .map(async (h) => ({
-        symbol: h.symbol!,
-        price: await getCachedPrice(h.symbol!),
+        symbol: getPriceSymbol(h)!,
+        price: await getCachedPrice(getPriceSymbol(h)!),
       }))
   );
   const pricesMap = new Map(prices.map((p) => [p.symbol, p.price]));
@@ -503,11 +563,11 @@ export async function calculateNetWorth(
   );
 
   const snapshotAssetResults = snapshotAssetHoldings.map((h) =>
-    calculateSnapshotValue(h, snapshotsMap, displayCurrency, rates)
+    calculateSnapshotValue(h, snapshotsMap, displayCurrency, rates, settlementBalances)
   );
 
   const debtResults = debtHoldings.map((h) =>
-    calculateSnapshotValue(h, snapshotsMap, displayCurrency, rates)
+    calculateSnapshotValue(h, snapshotsMap, displayCurrency, rates, settlementBalances)
   );
 
   // Extract holding values (filter out nulls)
@@ -551,6 +611,14 @@ export async function calculateNetWorth(
     const holding = snapshotAssetHoldings.find((h) => h.id === v.id);
     return holding?.type === "cash";
   });
+  const propertyValues = validSnapshotAssetValues.filter((v) => {
+    const holding = snapshotAssetHoldings.find((h) => h.id === v.id);
+    return holding?.type === "property";
+  });
+  const vehicleValues = validSnapshotAssetValues.filter((v) => {
+    const holding = snapshotAssetHoldings.find((h) => h.id === v.id);
+    return holding?.type === "vehicle";
+  });
 
   // Build breakdown
   const breakdown: AssetTypeBreakdown[] = [];
@@ -600,6 +668,24 @@ export async function calculateNetWorth(
     });
   }
 
+  if (propertyValues.length > 0) {
+    breakdown.push({
+      type: "property",
+      totalValue: propertyValues.reduce((sum, v) => sum + v.value, 0),
+      count: propertyValues.length,
+      holdings: addLinkedDebt(propertyValues, snapshotAssetHoldings, validDebtValues),
+    });
+  }
+
+  if (vehicleValues.length > 0) {
+    breakdown.push({
+      type: "vehicle",
+      totalValue: vehicleValues.reduce((sum, v) => sum + v.value, 0),
+      count: vehicleValues.length,
+      holdings: addLinkedDebt(vehicleValues, snapshotAssetHoldings, validDebtValues),
+    });
+  }
+
   // Calculate totals
   const totalAssets = breakdown.reduce((sum, b) => sum + b.totalValue, 0);
   const totalDebt = validDebtValues.reduce((sum, v) => sum + v.value, 0);
@@ -631,7 +717,7 @@ export async function calculateNetWorth(
  * Currency exposure item showing value and percentage in a single currency.
  */
 export interface CurrencyExposureItem {
-  /** Currency code (AUD, NZD, USD) */
+  /** Currency code */
   currency: Currency;
   /** Total value in display currency */
   value: number;
@@ -697,18 +783,18 @@ export async function calculateCurrencyExposure(
   const { displayCurrency = "AUD" } = options;
   const calculatedAt = new Date();
 
-  // Get all active holdings and exchange rates concurrently
-  const [userHoldings, rates] = await Promise.all([
-    getUserHoldings(userId),
-    fetchExchangeRates(),
-  ]);
+  // Get all active holdings, then exchange rates for their currencies
+  const userHoldings = await getUserHoldings(userId);
+  const rates = await fetchExchangeRates(userHoldings.map((h) => h.currency));
 
-  // Get latest snapshots for all holdings (single query)
+  // Get latest snapshots for all holdings (single query), and ledger
+  // balances for settlement cash holdings with newer trades
   const snapshotsMap = await getLatestSnapshots(userId);
+  const settlementBalances = await calculateSettlementBalances(userId, snapshotsMap);
 
   // Categorize holdings (exclude debt)
   const tradeableTypes = ["stock", "etf", "crypto"] as const;
-  const snapshotAssetTypes = ["super", "cash"] as const;
+  const snapshotAssetTypes = ["super", "cash", "property", "vehicle"] as const;
 
   const tradeableHoldings = userHoldings.filter((h) =>
     tradeableTypes.includes(h.type as (typeof tradeableTypes)[number])
@@ -730,8 +816,8 @@ export async function calculateCurrencyExposure(
     tradeableHoldings
       .filter((h) => h.symbol)
       .map(async (h) => ({
-        symbol: h.symbol!,
-        price: await getCachedPrice(h.symbol!),
+        symbol: getPriceSymbol(h)!,
+        price: await getCachedPrice(getPriceSymbol(h)!),
       }))
   );
   const pricesMap = new Map(prices.map((p) => [p.symbol, p.price]));
@@ -742,7 +828,7 @@ export async function calculateCurrencyExposure(
   );
 
   const snapshotAssetResults = snapshotAssetHoldings.map((h) =>
-    calculateSnapshotValue(h, snapshotsMap, displayCurrency, rates)
+    calculateSnapshotValue(h, snapshotsMap, displayCurrency, rates, settlementBalances)
   );
 
   // Combine all holding values (filter out nulls)
@@ -752,31 +838,27 @@ export async function calculateCurrencyExposure(
   ];
 
   // Group by native currency
-  const currencyGroups: Record<Currency, { value: number; valueNative: number; count: number }> = {
-    AUD: { value: 0, valueNative: 0, count: 0 },
-    NZD: { value: 0, valueNative: 0, count: 0 },
-    USD: { value: 0, valueNative: 0, count: 0 },
-  };
+  const currencyGroups = new Map<Currency, { value: number; valueNative: number; count: number }>();
 
   for (const holdingValue of allValues) {
     const currency = holdingValue.currency as Currency;
-    if (currency in currencyGroups) {
-      currencyGroups[currency].value += holdingValue.value;
-      currencyGroups[currency].valueNative += holdingValue.valueNative;
-      currencyGroups[currency].count += 1;
-    }
+    const group = currencyGroups.get(currency) ?? { value: 0, valueNative: 0, count: 0 };
+    group.value += holdingValue.value;
+    group.valueNative += holdingValue.valueNative;
+    group.count += 1;
+    currencyGroups.set(currency, group);
   }
 
   // Calculate total assets
-  const totalAssets = Object.values(currencyGroups).reduce((sum, g) => sum + g.value, 0);
+  const totalAssets = [...currencyGroups.values()].reduce((sum, g) => sum + g.value, 0);
 
   // Build exposure array with percentages
   const exposure: CurrencyExposureItem[] = [];
 
-  for (const [currency, group] of Object.entries(currencyGroups)) {
+  for (const [currency, group] of currencyGroups) {
     if (group.count > 0) {
       exposure.push({
-        currency: currency as Currency,
+        currency,
         value: group.value,
         valueNative: group.valueNative,
         percentage: totalAssets > 0 ? (group.value / totalAssets) * 100 : 0,
@@ -814,6 +896,30 @@ function addHoldingPercentages(
   }));
 }
 
+/**
+ * Adds linked loan balance, equity and LVR to property and vehicle values.
+ * Holdings without a linked debt are returned unchanged.
+ */
+function addLinkedDebt(
+  values: HoldingValue[],
+  assetHoldings: Holding[],
+  debtValues: HoldingValue[]
+): HoldingValue[] {
+  return values.map((v) => {
+    const linkedDebtId = assetHoldings.find((h) => h.id === v.id)?.linkedDebtId;
+    if (!linkedDebtId) {
+      return v;
+    }
+    const linkedDebtValue = debtValues.find((d) => d.id === linkedDebtId)?.value ?? 0;
+    return {
+      ...v,
+      linkedDebtValue,
+      equity: v.value - linkedDebtValue,
+      lvr: v.value > 0 ? (linkedDebtValue / v.value) * 100 : null,
+    };
+  });
+}
+
 /**
  * Options for asset breakdown calculation.
  */
@@ -827,9 +933,10 @@ export interface CalculateAssetBreakdownOptions {
 /**
  * Calculates asset breakdown by type with percentages.
  *
- * Groups assets by type (stocks, ETFs, crypto, super, cash) and debt,
- * calculating the percentage each group represents of total assets
- * and the percentage each holding represents within its group.
+ * Groups assets by type (stocks, ETFs, crypto, super, cash, property,
+ * vehicles) and debt, calculating the percentage each group represents of
+ * total assets and the percentage each holding represents within its group.
+ * Property and vehicles with a linked loan also carry equity and LVR.
  *
  * @param userId - The user ID to calculate breakdown for
  * @param options - Optional configuration including displayCurrency
@@ -852,18 +959,18 @@ export async function calculateAssetBreakdown(
   const { displayCurrency = "AUD" } = options;
   const calculatedAt = new Date();
 
-  // Get all active holdings and exchange rates concurrently
-  const [userHoldings, rates] = await Promise.all([
-    getUserHoldings(userId),
-    fetchExchangeRates(),
-  ]);
+  // Get all active holdings, then exchange rates for their currencies
+  const userHoldings = await getUserHoldings(userId);
+  const rates = await fetchExchangeRates(userHoldings.map((h) => h.currency));
 
-  // Get latest snapshots for all holdings (single query)
+  // Get latest snapshots for all holdings (single query), and ledger
+  // balances for settlement cash holdings with newer trades
   const snapshotsMap = await getLatestSnapshots(userId);
+  const settlementBalances = await calculateSettlementBalances(userId, snapshotsMap);
 
   // Categorize holdings
   const tradeableTypes = ["stock", "etf", "crypto"] as const;
-  const snapshotAssetTypes = ["super", "cash"] as const;
+  const snapshotAssetTypes = ["super", "cash", "property", "vehicle"] as const;
   const debtTypes = ["debt"] as const;
 
   const tradeableHoldings = userHoldings.filter((h) =>
@@ -889,8 +996,8 @@ export async function calculateAssetBreakdown(
     tradeableHoldings
       .filter((h) => h.symbol)
       .map(async (h) => ({
-        symbol: h.symbol!,
-        price: await getCachedPrice(h.symbol!),
+        symbol: getPriceSymbol(h)!,
+        price: await getCachedPrice(getPriceSymbol(h)!),
       }))
   );
   const pricesMap = new Map(prices.map((p) => [p.symbol, p.price]));
@@ -901,11 +1008,11 @@ export async function calculateAssetBreakdown(
   );
 
   const snapshotAssetResults = snapshotAssetHoldings.map((h) =>
-    calculateSnapshotValue(h, snapshotsMap, displayCurrency, rates)
+    calculateSnapshotValue(h, snapshotsMap, displayCurrency, rates, settlementBalances)
   );
 
   const debtResults = debtHoldings.map((h) =>
-    calculateSnapshotValue(h, snapshotsMap, displayCurrency, rates)
+    calculateSnapshotValue(h, snapshotsMap, displayCurrency, rates, settlementBalances)
   );
 
   // Extract holding values (filter out nulls)
@@ -942,6 +1049,14 @@ export async function calculateAssetBreakdown(
     const holding = snapshotAssetHoldings.find((h) => h.id === v.id);
     return holding?.type === "cash";
   });
+  const propertyValues = validSnapshotAssetValues.filter((v) => {
+    const holding = snapshotAssetHoldings.find((h) => h.id === v.id);
+    return holding?.type === "property";
+  });
+  const vehicleValues = validSnapshotAssetValues.filter((v) => {
+    const holding = snapshotAssetHoldings.find((h) => h.id === v.id);
+    return holding?.type === "vehicle";
+  });
 
   // Calculate group totals
   const stockTotal = stockValues.reduce((sum, v) => sum + v.value, 0);
@@ -949,9 +1064,12 @@ export async function calculateAssetBreakdown(
   const cryptoTotal = cryptoValues.reduce((sum, v) => sum + v.value, 0);
   const superTotal = superValues.reduce((sum, v) => sum + v.value, 0);
   const cashTotal = cashValues.reduce((sum, v) => sum + v.value, 0);
+  const propertyTotal = propertyValues.reduce((sum, v) => sum + v.value, 0);
+  const vehicleTotal = vehicleValues.reduce((sum, v) => sum + v.value, 0);
   const debtTotal = validDebtValues.reduce((sum, v) => sum + v.value, 0);
 
-  const totalAssets = stockTotal + etfTotal + cryptoTotal + superTotal + cashTotal;
+  const totalAssets =
+    stockTotal + etfTotal + cryptoTotal + superTotal + cashTotal + propertyTotal + vehicleTotal;
 
   // Build breakdown with percentages
   const assets: AssetBreakdownItem[] = [];
@@ -1006,6 +1124,32 @@ export async function calculateAssetBreakdown(
     });
   }
 
+  if (propertyValues.length > 0) {
+    assets.push({
+      type: "property",
+      totalValue: propertyTotal,
+      count: propertyValues.length,
+      percentage: totalAssets > 0 ? (propertyTotal / totalAssets) * 100 : 0,
+      holdings: addHoldingPercentages(
+        addLinkedDebt(propertyValues, snapshotAssetHoldings, validDebtValues),
+        propertyTotal
+      ),
+    });
+  }
+
+  if (vehicleValues.length > 0) {
+    assets.push({
+      type: "vehicle",
+      totalValue: vehicleTotal,
+      count: vehicleValues.length,
+      percentage: totalAssets > 0 ? (vehicleTotal / totalAssets) * 100 : 0,
+      holdings: addHoldingPercentages(
+        addLinkedDebt(vehicleValues, snapshotAssetHoldings, validDebtValues),
+        vehicleTotal
+      ),
+    });
+  }
+
   // Sort by value descending
   assets.sort((a, b) => b.totalValue - a.totalValue);
 
@@ -6,14 +6,18 @@
  *
  * Gain/Loss = Current Value - Cost Basis
  * Gain/Loss % = (Gain/Loss / Cost Basis) x 100
+ *
+ * Current value is converted to AUD at today's rate; cost basis at each
+ * lot's purchase-date rate, so the gain includes currency moves.
  */
 
 import { db } from "@/lib/db";
 import { holdings, type Holding } from "@/lib/db/schema";
 import { eq, isNull, and, inArray } from "drizzle-orm";
 import { calculateQuantityHeld } from "./quantity";
-import { calculateCostBasis } from "./cost-basis";
+import { calculateCostBasis, calculateCostBasisAud } from "./cost-basis";
 import { getCachedPrice, type CachedPrice } from "@/lib/services/price-cache";
+import { getPriceSymbol } from "@/lib/services/price-history";
 import { getExchangeRate } from "@/lib/services/exchange-rates";
 
 // =============================================================================
@@ -109,7 +113,7 @@ async function calculateHoldingPerformance(
   }
 
   // Get cached price
-  const cachedPrice: CachedPrice | null = await getCachedPrice(symbol);
+  const cachedPrice: CachedPrice | null = await getCachedPrice(getPriceSymbol(holding)!);
   if (!cachedPrice || cachedPrice.price === 0) {
     return null;
   }
@@ -123,12 +127,13 @@ async function calculateHoldingPerformance(
     cachedPrice.currency
   );
 
-  // Calculate cost basis using FIFO
-  const costBasisResult = await calculateCostBasis(holding.id);
+  // Calculate cost basis using the holding's cost basis method
+  const costBasisResult = await calculateCostBasis(holding.id, holding.costBasisMethod);
 
-  // Convert cost basis to AUD (cost basis is stored in holding's currency)
-  const costBasisAud = await convertToAud(
-    costBasisResult.costBasis,
+  // Convert cost basis to AUD at each lot's purchase-date rate
+  // (cost basis is stored in holding's currency)
+  const costBasisAud = await calculateCostBasisAud(
+    costBasisResult.lots,
     holding.currency
   );
 
@@ -164,9 +169,9 @@ async function calculateHoldingPerformance(
  * 1. Fetches all active tradeable holdings (stocks, ETFs, crypto)
  * 2. For each holding with a position:
  *    - Calculates current market value (quantity x cached price)
- *    - Calculates cost basis using FIFO methodology
+ *    - Calculates cost basis using the holding's cost basis method
  *    - Computes unrealized gain/loss = current value - cost basis
- * 3. Converts all values to AUD for comparison
+ * 3. Converts all values to AUD for comparison (cost basis at purchase-date rates)
  * 4. Sorts by gain/loss amount and returns top N gainers and losers
  *
  * Note: Holdings without a position, price, or cost basis are excluded.
@@ -0,0 +1,430 @@
+/**
+ * Net worth projection and FIRE calculator.
+ *
+ * Projects today's net worth forward month by month, in today's dollars, to
+ * PROJECTION_YEARS_PAST_TARGET years past the target age:
+ * - Each asset type grows at its assumed return less inflation. Debt is held
+ *   at its current balance, so it shrinks in real terms.
+ * - The monthly contribution is split across the liquid investment types
+ *   (stock, etf, crypto, super, cash) in proportion to what is held in each
+ *   now, or goes to cash if none are held.
+ * - The deterministic projection uses the expected returns. The Monte Carlo
+ *   projection draws log-normal monthly returns with the assumed volatility,
+ *   with every pair of asset types correlated at PROJECTION_ASSET_CORRELATION.
+ *
+ * The FI number is annual spending divided by the safe withdrawal rate, and
+ * a path reaches FI in the first month its net worth is at least that.
+ * Simulations use a fixed seed so the same inputs give the same answer.
+ */
+
+import { db } from "@/lib/db";
+import { budgetPeriods, type ProjectionSettings } from "@/lib/db/schema";
+import { desc, lt } from "drizzle-orm";
+import { format } from "date-fns";
+import { calculateNetWorth } from "./net-worth";
+import { calculateHistoricalNetWorth } from "./net-worth-history";
+import { calculateBudgetSummary } from "@/lib/budget/summary";
+import {
+  BUDGET_SURPLUS_PERIODS,
+  DEFAULT_ANNUAL_SPENDING,
+  DEFAULT_CURRENT_AGE,
+  DEFAULT_INFLATION_RATE,
+  DEFAULT_PROJECTION_ASSUMPTIONS,
+  DEFAULT_TARGET_AGE,
+  DEFAULT_WITHDRAWAL_RATE,
+  PROJECTED_ASSET_TYPES,
+  PROJECTION_ASSET_CORRELATION,
+  PROJECTION_MAX_AGE,
+  PROJECTION_SIMULATIONS,
+  PROJECTION_YEARS_PAST_TARGET,
+  type ProjectedAssetType,
+} from "@/lib/constants";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Projection inputs with every asset type's assumptions filled in.
+ */
+export interface ResolvedProjectionSettings extends ProjectionSettings {
+  assumptions: Record<ProjectedAssetType, { expectedReturn: number; volatility: number }>;
+}
+
+/**
+ * Net worth at one age, in today's dollars.
+ */
+export interface ProjectionPoint {
+  /** Age at this point */
+  age: number;
+  /** Calendar year at this point */
+  year: number;
+  /** Net worth at the expected returns */
+  deterministic: number;
+  /** Monte Carlo percentiles of net worth */
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+  /** Share of Monte Carlo paths that have reached the FI number by this age (0-100) */
+  probabilityFi: number;
+}
+
+/**
+ * Full projection result.
+ */
+export interface NetWorthProjection {
+  /** Inputs used */
+  settings: ResolvedProjectionSettings;
+  /** Net worth today in AUD */
+  startingNetWorth: number;
+  /** Annual spending / withdrawal rate, in today's dollars */
+  fiNumber: number;
+  /** Monthly contribution used, in today's dollars */
+  monthlyContribution: number;
+  /** Where the contribution came from */
+  contributionSource: "manual" | "budget";
+  /** Average monthly budget surplus over recent periods, or null without budget data */
+  budgetSurplus: number | null;
+  /** Probability (0-100) of reaching the FI number by the target age */
+  probabilityAtTargetAge: number;
+  /** Age the expected-returns path reaches the FI number, or null if never */
+  deterministicFiAge: number | null;
+  /** Age by which half the Monte Carlo paths have reached FI, or null if they don't */
+  medianFiAge: number | null;
+  /** One point per year from today */
+  series: ProjectionPoint[];
+  /** Monthly net worth over the last two years (nominal AUD), for context */
+  history: Array<{ date: string; age: number; netWorth: number }>;
+  /** Number of Monte Carlo paths */
+  simulations: number;
+  /** Timestamp when calculation was performed */
+  calculatedAt: Date;
+}
+
+/**
+ * Starting position for a projection, in AUD.
+ */
+export interface ProjectionStart {
+  /** Current value of each asset type */
+  assets: Record<ProjectedAssetType, number>;
+  /** Current total debt */
+  debt: number;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/** Types that receive monthly contributions. */
+const CONTRIBUTION_TYPES: readonly ProjectedAssetType[] = ["stock", "etf", "crypto", "super", "cash"];
+
+/** Average days per month, to scale pay-cycle budget periods to a month. */
+const DAYS_PER_MONTH = 365.25 / 12;
+
+/** Months of net worth history included for context. */
+const HISTORY_MONTHS = 24;
+
+/**
+ * Fills in any asset type, rate or age missing from saved settings with the
+ * defaults.
+ */
+export function resolveProjectionSettings(
+  saved: Partial<ProjectionSettings> | null
+): ResolvedProjectionSettings {
+  const assumptions = { ...DEFAULT_PROJECTION_ASSUMPTIONS };
+  for (const type of PROJECTED_ASSET_TYPES) {
+    const override = saved?.assumptions?.[type];
+    if (override) {
+      assumptions[type] = override;
+    }
+  }
+
+  return {
+    assumptions,
+    monthlyContribution: saved?.monthlyContribution ?? null,
+    inflationRate: saved?.inflationRate ?? DEFAULT_INFLATION_RATE,
+    annualSpending: saved?.annualSpending ?? DEFAULT_ANNUAL_SPENDING,
+    withdrawalRate: saved?.withdrawalRate ?? DEFAULT_WITHDRAWAL_RATE,
+    currentAge: saved?.currentAge ?? DEFAULT_CURRENT_AGE,
+    targetAge: saved?.targetAge ?? DEFAULT_TARGET_AGE,
+  };
+}
+
+/**
+ * Small seeded PRNG (mulberry32), returning floats in [0, 1).
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal sampler using the Box-Muller transform.
+ */
+function createNormal(random: () => number): () => number {
+  return () => {
+    const u = 1 - random(); // (0, 1], avoids log(0)
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  };
+}
+
+/**
+ * Value at a percentile (0-100) of a sorted array, interpolating between
+ * neighbouring values.
+ */
+function percentile(sorted: Float64Array, p: number): number {
+  const index = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+/**
+ * Average monthly budget surplus (income less spending) over the most recent
+ * completed budget periods, in AUD. Pay-cycle periods are scaled to a month.
+ *
+ * @returns The average surplus, or null if there are no completed periods
+ */
+export async function getMonthlyBudgetSurplus(
+  periods: number = BUDGET_SURPLUS_PERIODS
+): Promise<number | null> {
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  const recent = await db
+    .select({ id: budgetPeriods.id })
+    .from(budgetPeriods)
+    .where(lt(budgetPeriods.endDate, today))
+    .orderBy(desc(budgetPeriods.startDate))
+    .limit(periods);
+
+  if (recent.length === 0) {
+    return null;
+  }
+
+  const summaries = await Promise.all(recent.map((p) => calculateBudgetSummary(p.id)));
+  const monthlySurpluses = summaries.map((summary) => {
+    const surplus = (summary.income.actualCents - summary.totals.spentCents) / 100;
+    const days = Math.max(summary.totalDays, 1);
+    return (surplus * DAYS_PER_MONTH) / days;
+  });
+
+  return monthlySurpluses.reduce((sum, s) => sum + s, 0) / monthlySurpluses.length;
+}
+
+// =============================================================================
+// PROJECTION
+// =============================================================================
+
+/**
+ * Runs the deterministic and Monte Carlo projections from a starting
+ * position. Pure; see the module comment for the model.
+ *
+ * @param start - Current assets by type and total debt, in AUD
+ * @param settings - Projection inputs
+ * @param monthlyContribution - Contribution per month, in today's dollars
+ * @param simulations - Number of Monte Carlo paths
+ * @param seed - PRNG seed
+ */
+export function runProjection(
+  start: ProjectionStart,
+  settings: ResolvedProjectionSettings,
+  monthlyContribution: number,
+  simulations: number = PROJECTION_SIMULATIONS,
+  seed: number = 1
+): Pick<
+  NetWorthProjection,
+  "fiNumber" | "probabilityAtTargetAge" | "deterministicFiAge" | "medianFiAge" | "series"
+> {
+  const { currentAge, targetAge, inflationRate, withdrawalRate, annualSpending } = settings;
+  const fiNumber = annualSpending / (withdrawalRate / 100);
+  const years =
+    Math.min(targetAge + PROJECTION_YEARS_PAST_TARGET, PROJECTION_MAX_AGE) - currentAge;
+  const months = years * 12;
+  const inflation = inflationRate / 100;
+  const monthlyInflation = Math.pow(1 + inflation, 1 / 12);
+  const thisYear = new Date().getFullYear();
+
+  // Monthly real growth parameters per type
+  const types = PROJECTED_ASSET_TYPES;
+  const drift = new Float64Array(types.length);
+  const sigma = new Float64Array(types.length);
+  const expectedGrowth = new Float64Array(types.length);
+  types.forEach((type, i) => {
+    const { expectedReturn, volatility } = settings.assumptions[type];
+    const realReturn = Math.max((1 + expectedReturn / 100) / (1 + inflation) - 1, -0.99);
+    sigma[i] = volatility / 100 / Math.sqrt(12);
+    drift[i] = Math.log(1 + realReturn) / 12 - (sigma[i] * sigma[i]) / 2;
+    expectedGrowth[i] = Math.pow(1 + realReturn, 1 / 12);
+  });
+
+  // Contribution share per type, in proportion to current liquid holdings
+  const contributionShare = new Float64Array(types.length);
+  const liquidTotal = CONTRIBUTION_TYPES.reduce((sum, t) => sum + Math.max(start.assets[t], 0), 0);
+  types.forEach((type, i) => {
+    if (liquidTotal > 0) {
+      contributionShare[i] = CONTRIBUTION_TYPES.includes(type)
+        ? Math.max(start.assets[type], 0) / liquidTotal
+        : 0;
+    } else {
+      contributionShare[i] = type === "cash" ? 1 : 0;
+    }
+  });
+
+  const startValues = Float64Array.from(types, (t) => start.assets[t]);
+  const debtAt = (month: number) => start.debt / Math.pow(monthlyInflation, month);
+
+  // Deterministic path
+  const deterministic = new Float64Array(years + 1);
+  let deterministicFiMonth: number | null = null;
+  {
+    const values = Float64Array.from(startValues);
+    const netWorth0 = values.reduce((s, v) => s + v, 0) - start.debt;
+    deterministic[0] = netWorth0;
+    if (netWorth0 >= fiNumber) deterministicFiMonth = 0;
+    for (let m = 1; m <= months; m++) {
+      let total = 0;
+      for (let i = 0; i < types.length; i++) {
+        values[i] = values[i] * expectedGrowth[i] + monthlyContribution * contributionShare[i];
+        total += values[i];
+      }
+      const netWorth = total - debtAt(m);
+      if (deterministicFiMonth === null && netWorth >= fiNumber) deterministicFiMonth = m;
+      if (m % 12 === 0) deterministic[m / 12] = netWorth;
+    }
+  }
+
+  // Monte Carlo paths: yearly net worth per path and the month each reaches FI
+  const normal = createNormal(createRandom(seed));
+  const commonWeight = Math.sqrt(PROJECTION_ASSET_CORRELATION);
+  const ownWeight = Math.sqrt(1 - PROJECTION_ASSET_CORRELATION);
+  const yearly = Array.from({ length: years + 1 }, () => new Float64Array(simulations));
+  const fiMonths = new Float64Array(simulations).fill(Infinity);
+  const values = new Float64Array(types.length);
+
+  for (let s = 0; s < simulations; s++) {
+    values.set(startValues);
+    yearly[0][s] = deterministic[0];
+    if (deterministic[0] >= fiNumber) fiMonths[s] = 0;
+
+    for (let m = 1; m <= months; m++) {
+      const common = normal();
+      let total = 0;
+      for (let i = 0; i < types.length; i++) {
+        const z = commonWeight * common + ownWeight * normal();
+        values[i] =
+          values[i] * Math.exp(drift[i] + sigma[i] * z) +
+          monthlyContribution * contributionShare[i];
+        total += values[i];
+      }
+      const netWorth = total - debtAt(m);
+      if (fiMonths[s] === Infinity && netWorth >= fiNumber) fiMonths[s] = m;
+      if (m % 12 === 0) yearly[m / 12][s] = netWorth;
+    }
+  }
+
+  const sortedFiMonths = Float64Array.from(fiMonths).sort();
+  const reachedBy = (month: number) => {
+    let count = 0;
+    while (count < simulations && sortedFiMonths[count] <= month) count++;
+    return (count / simulations) * 100;
+  };
+  const medianFiMonth = sortedFiMonths[Math.floor((simulations - 1) / 2)];
+
+  const series: ProjectionPoint[] = yearly.map((paths, y) => {
+    const sorted = paths.sort();
+    return {
+      age: currentAge + y,
+      year: thisYear + y,
+      deterministic: deterministic[y],
+      p10: percentile(sorted, 10),
+      p25: percentile(sorted, 25),
+      p50: percentile(sorted, 50),
+      p75: percentile(sorted, 75),
+      p90: percentile(sorted, 90),
+      probabilityFi: reachedBy(y * 12),
+    };
+  });
+
+  return {
+    fiNumber,
+    probabilityAtTargetAge: reachedBy((targetAge - currentAge) * 12),
+    deterministicFiAge:
+      deterministicFiMonth === null ? null : currentAge + deterministicFiMonth / 12,
+    medianFiAge: Number.isFinite(medianFiMonth) ? currentAge + medianFiMonth / 12 : null,
+    series,
+  };
+}
+
+/**
+ * Projects a user's net worth from today's balances.
+ *
+ * @param userId - The user ID
+ * @param saved - Saved projection settings (defaults fill any gaps)
+ * @returns Deterministic and Monte Carlo projections with FI probabilities
+ *
+ * @example
+ * const projection = await getNetWorthProjection("user_123", prefs.projectionSettings);
+ * console.log(`${projection.probabilityAtTargetAge.toFixed(0)}% chance of FI by 55`);
+ */
+export async function getNetWorthProjection(
+  userId: string,
+  saved: Partial<ProjectionSettings> | null
+): Promise<NetWorthProjection> {
+  const settings = resolveProjectionSettings(saved);
+
+  const [netWorth, history, budgetSurplus] = await Promise.all([
+    calculateNetWorth(userId),
+    calculateHistoricalNetWorth(userId, HISTORY_MONTHS),
+    getMonthlyBudgetSurplus(),
+  ]);
+
+  const assets = Object.fromEntries(PROJECTED_ASSET_TYPES.map((t) => [t, 0])) as Record<
+    ProjectedAssetType,
+    number
+  >;
+  for (const group of netWorth.breakdown) {
+    assets[group.type] += group.totalValue;
+  }
+
+  const contributionSource = settings.monthlyContribution === null ? "budget" : "manual";
+  const monthlyContribution =
+    settings.monthlyContribution ?? Math.max(budgetSurplus ?? 0, 0);
+
+  const result = runProjection(
+    { assets, debt: netWorth.totalDebt },
+    settings,
+    monthlyContribution
+  );
+
+  const now = new Date();
+  const historyPoints = history.history.map((point) => {
+    const monthsAgo =
+      (now.getFullYear() - point.date.getFullYear()) * 12 + now.getMonth() - point.date.getMonth();
+    return {
+      date: format(point.date, "yyyy-MM-dd"),
+      age: settings.currentAge - monthsAgo / 12,
+      netWorth: point.netWorth,
+    };
+  });
+
+  return {
+    settings,
+    startingNetWorth: netWorth.netWorth,
+    monthlyContribution,
+    contributionSource,
+    budgetSurplus,
+    ...result,
+    history: historyPoints,
+    simulations: PROJECTION_SIMULATIONS,
+    calculatedAt: new Date(),
+  };
+}
@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { LotCorporateAction } from "@/lib/calculations/cost-basis";
+
+const rows = vi.hoisted(() => ({
+  transactions: [] as { date: string; action: string; quantity: string }[],
+  actions: [] as LotCorporateAction[],
+}));
+
+vi.mock("@/lib/db", () => {
+  const query = {
+    from: () => query,
+    where: () => query,
+    orderBy: () => Promise.resolve(rows.transactions),
+  };
+  return { db: { select: () => query } };
+});
+
+vi.mock("@/lib/calculations/cost-basis", () => ({
+  getLotCorporateActions: () => Promise.resolve(rows.actions),
+}));
+
+const { calculateQuantityHeld } = await import("@/lib/calculations/quantity");
+
+function merger(role: "source" | "target", sourceUnits: number): LotCorporateAction {
+  return {
+    id: "merger",
+    date: "2025-03-01",
+    type: "merger",
+    role,
+    ratio: 0.5,
+    cashPerUnit: 0,
+    costBasePercent: 100,
+    sourceLots: role === "target"
+      ? [
+          {
+            transactionId: "source-buy",
+            date: "2024-01-10",
+            quantity: sourceUnits,
+            unitPrice: 10,
+            fees: 0,
+            remainingQuantity: sourceUnits,
+          },
+        ]
+      : [],
+  };
+}
+
+describe("calculateQuantityHeld", () => {
+  beforeEach(() => {
+    rows.transactions = [];
+    rows.actions = [];
+  });
+
+  it("counts units received by a merger target when checking a SELL edit", async () => {
+    // The target's own BUY; the SELL being edited is excluded by the query
+    rows.transactions = [{ date: "2024-06-01", action: "BUY", quantity: "20" }];
+    rows.actions = [merger("target", 100)];
+
+    const available = await calculateQuantityHeld("target-holding", undefined, "edited-sell");
+
+    // 20 bought + 100 source units at 0.5 per unit
+    expect(available).toBe(70);
+  });
+
+  it("leaves nothing in a merger source after the merger", async () => {
+    rows.transactions = [{ date: "2024-01-10", action: "BUY", quantity: "100" }];
+    rows.actions = [merger("source", 0)];
+
+    expect(await calculateQuantityHeld("source-holding", undefined, "edited-sell")).toBe(0);
+  });
+});
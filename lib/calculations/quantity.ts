@@ -1,6 +1,20 @@
 import { db } from "@/lib/db";
 import { transactions } from "@/lib/db/schema";
-import { eq, isNull, and, asc } from "drizzle-orm";
+import { eq, isNull, and, asc, lte, ne } from "drizzle-orm";
+import { getLotCorporateActions, type LotCorporateAction } from "./cost-basis";
+
+/**
+ * Change in quantity from a corporate action, given the quantity held just
+ * before it. Merger sources give up every unit; merger and spin-off targets
+ * receive `ratio` units per source unit held.
+ */
+function applyCorporateActionQuantity(action: LotCorporateAction, quantity: number): number {
+  if (action.role === "target") {
+    const sourceQuantity = action.sourceLots.reduce((sum, lot) => sum + lot.remainingQuantity, 0);
+    return quantity + sourceQuantity * action.ratio;
+  }
+  return action.type === "merger" ? 0 : quantity;
+}
 
 /**
  * Calculates the current quantity held for a given holding.
@@ -10,33 +24,57 @@ import { eq, isNull, and, asc } from "drizzle-orm";
  * - SELL: Subtracts from quantity
  * - SPLIT: Multiplies current quantity by split ratio (e.g., 2:1 split = multiply by 2)
  * - DIVIDEND: Does not affect quantity
+ * - Corporate actions: A merger converts every unit into units of the
+ *   target holding; a merger or spin-off target receives `ratio` units per
+ *   source unit. Symbol changes and returns of capital leave quantity alone.
  *
  * Splits are applied chronologically - all transactions before a split maintain their
  * original quantities, but the running total is multiplied when a split is processed.
+ * Corporate actions apply after the transactions on their date.
  *
  * @param holdingId - The UUID of the holding to calculate quantity for
- * @returns The current quantity held (as a number)
+ * @param asOf - Optional YYYY-MM-DD date; later transactions are excluded
+ * @param excludeTransactionId - Optional transaction to leave out (used to
+ *   check an edited SELL against the units available without it)
+ * @returns The quantity held (as a number)
  */
-export async function calculateQuantityHeld(holdingId: string): Promise<number> {
+export async function calculateQuantityHeld(
+  holdingId: string,
+  asOf?: string,
+  excludeTransactionId?: string
+): Promise<number> {
+  const conditions = [eq(transactions.holdingId, holdingId), isNull(transactions.deletedAt)];
+
+  if (asOf) {
+    conditions.push(lte(transactions.date, asOf));
+  }
+
+  if (excludeTransactionId) {
+    conditions.push(ne(transactions.id, excludeTransactionId));
+  }
+
   // Fetch all non-deleted transactions for this holding, ordered by date ascending
-  const txns = await db
-    .select({
-      date: transactions.date,
-      action: transactions.action,
-      quantity: transactions.quantity,
-    })
-    .from(transactions)
-    .where(
-      and(
-        eq(transactions.holdingId, holdingId),
-        isNull(transactions.deletedAt)
-      )
-    )
-    .orderBy(asc(transactions.date));
+  const [txns, actions] = await Promise.all([
+    db
+      .select({
+        date: transactions.date,
+        action: transactions.action,
+        quantity: transactions.quantity,
+      })
+      .from(transactions)
+      .where(and(...conditions))
+      .orderBy(asc(transactions.date)),
+    getLotCorporateActions(holdingId, asOf),
+  ]);
 
   let quantity = 0;
+  let nextAction = 0;
 
   for (const txn of txns) {
+    while (nextAction < actions.length && actions[nextAction].date < txn.date) {
+      quantity = applyCorporateActionQuantity(actions[nextAction++], quantity);
+    }
+
     const txnQuantity = Number(txn.quantity);
 
     switch (txn.action) {
@@ -57,5 +95,9 @@ export async function calculateQuantityHeld(holdingId: string): Promise<number>
     }
   }
 
+  while (nextAction < actions.length) {
+    quantity = applyCorporateActionQuantity(actions[nextAction++], quantity);
+  }
+
   return quantity;
 }
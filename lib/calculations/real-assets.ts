@@ -0,0 +1,397 @@
+/**
+ * Property and vehicle valuation service.
+ *
+ * Property and vehicles are snapshot-based: each check-in records a
+ * valuation. Between valuations (or before the first one) their value is
+ * estimated from the purchase details held on the holding:
+ * - Property: purchase price, until a valuation is entered
+ * - Vehicle: purchase price depreciated to the valuation date
+ *
+ * Depreciation:
+ * - Diminishing value = purchase price x (1 - rate)^years
+ * - Prime cost = purchase price x (1 - rate x years), floored at zero
+ *
+ * A property or vehicle may link to the debt holding secured against it
+ * (a mortgage or car loan), which gives:
+ * - Equity = value - linked debt balance
+ * - LVR (loan-to-value ratio) = linked debt balance / value x 100
+ *
+ * Capital growth compares the current value with the cost base (purchase
+ * price + purchase costs such as stamp duty, legal fees or on-road costs).
+ */
+
+import { db } from "@/lib/db";
+import { holdings, snapshots, type Holding } from "@/lib/db/schema";
+import { eq, and, isNull, desc } from "drizzle-orm";
+import { addYears, differenceInCalendarDays, format, parseISO } from "date-fns";
+import { getExchangeRate } from "@/lib/services/exchange-rates";
+import {
+  DEFAULT_VEHICLE_DEPRECIATION_RATE,
+  type DepreciationMethod,
+} from "@/lib/constants";
+
+/** Number of years shown in a vehicle's depreciation schedule. */
+export const DEPRECIATION_SCHEDULE_YEARS = 10;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Where a property or vehicle's current value came from.
+ */
+export type ValuationSource =
+  | "valuation" // Entered at check-in
+  | "depreciation" // Vehicle: purchase price depreciated to today
+  | "purchase_price"; // Property: no valuation entered yet
+
+/**
+ * One year of a vehicle's depreciation schedule.
+ */
+export interface DepreciationYear {
+  /** Year of ownership (1 = first year) */
+  year: number;
+  /** Anniversary of purchase that ends this year (YYYY-MM-DD) */
+  endDate: string;
+  /** Value at the start of the year */
+  openingValue: number;
+  /** Depreciation over the year */
+  depreciation: number;
+  /** Value at the end of the year */
+  closingValue: number;
+}
+
+/**
+ * The debt holding linked to a property or vehicle.
+ */
+export interface LinkedDebt {
+  /** Debt holding ID */
+  id: string;
+  /** Debt holding name */
+  name: string;
+  /** Latest balance converted to the asset's currency */
+  balance: number;
+  /** Date of the latest balance snapshot, or null if none recorded */
+  balanceDate: string | null;
+}
+
+/**
+ * Valuation, growth, equity and depreciation for a property or vehicle.
+ * All amounts are in the holding's currency.
+ */
+export interface RealAssetSummary {
+  /** Holding currency */
+  currency: string;
+  /** Current value, or null if neither a valuation nor a purchase price exists */
+  currentValue: number | null;
+  /** Where currentValue came from */
+  valuationSource: ValuationSource | null;
+  /** Date of the latest valuation (YYYY-MM-DD), or null if none entered */
+  valuationDate: string | null;
+  /** Purchase price */
+  purchasePrice: number | null;
+  /** Purchase costs (stamp duty, legal, on-road costs) */
+  purchaseCosts: number;
+  /** Purchase price + purchase costs */
+  costBase: number | null;
+  /** Current value - cost base */
+  capitalGrowth: number | null;
+  /** Capital growth as a percentage of cost base */
+  capitalGrowthPercent: number | null;
+  /** Compound annual growth rate since purchase (%), once held for a year */
+  annualisedGrowth: number | null;
+  /** Linked mortgage or loan, if any */
+  linkedDebt: LinkedDebt | null;
+  /** Current value - linked debt balance */
+  equity: number | null;
+  /** Linked debt balance / current value x 100 */
+  lvr: number | null;
+  /** Vehicle depreciation schedule (empty for property or without a purchase date) */
+  depreciationSchedule: DepreciationYear[];
+  /** Timestamp when calculation was performed */
+  calculatedAt: Date;
+}
+
+/**
+ * Holding fields needed to estimate a property or vehicle's value.
+ */
+export type RealAssetDetails = Pick<
+  Holding,
+  "type" | "purchasePrice" | "purchaseDate" | "depreciationMethod" | "depreciationRate"
+>;
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+/**
+ * Years elapsed between two dates, as a fraction.
+ */
+function yearsBetween(from: Date, to: Date): number {
+  return differenceInCalendarDays(to, from) / 365.25;
+}
+
+/**
+ * Depreciation rate as a fraction, using the default when none is set.
+ */
+function getDepreciationRate(details: RealAssetDetails): number {
+  const rate =
+    details.depreciationRate !== null
+      ? Number(details.depreciationRate)
+      : DEFAULT_VEHICLE_DEPRECIATION_RATE;
+  return rate / 100;
+}
+
+/**
+ * Gets the latest non-deleted snapshot for a holding.
+ */
+async function getLatestSnapshot(holdingId: string) {
+  const [snapshot] = await db
+    .select({
+      date: snapshots.date,
+      balance: snapshots.balance,
+      currency: snapshots.currency,
+    })
+    .from(snapshots)
+    .where(and(eq(snapshots.holdingId, holdingId), isNull(snapshots.deletedAt)))
+    .orderBy(desc(snapshots.date))
+    .limit(1);
+
+  return snapshot ?? null;
+}
+
+/**
+ * Loads the linked debt holding and its latest balance in the asset's currency.
+ */
+async function getLinkedDebt(
+  linkedDebtId: string,
+  userId: string,
+  currency: string
+): Promise<LinkedDebt | null> {
+  const [debt] = await db
+    .select({ id: holdings.id, name: holdings.name })
+    .from(holdings)
+    .where(
+      and(
+        eq(holdings.id, linkedDebtId),
+        eq(holdings.userId, userId),
+        isNull(holdings.deletedAt)
+      )
+    );
+
+  if (!debt) {
+    return null;
+  }
+
+  const snapshot = await getLatestSnapshot(debt.id);
+  if (!snapshot) {
+    return { id: debt.id, name: debt.name, balance: 0, balanceDate: null };
+  }
+
+  const rate = await getExchangeRate(snapshot.currency, currency);
+  return {
+    id: debt.id,
+    name: debt.name,
+    balance: Number(snapshot.balance) * rate,
+    balanceDate: snapshot.date,
+  };
+}
+
+// =============================================================================
+// MAIN CALCULATION FUNCTIONS
+// =============================================================================
+
+/**
+ * Calculates the depreciated value of an asset after a number of years.
+ *
+ * @param cost - Purchase price
+ * @param method - Diminishing value or prime cost
+ * @param rate - Annual rate as a fraction (0.25 = 25% p.a.)
+ * @param years - Years since purchase (may be fractional)
+ * @returns Depreciated value, never below zero
+ *
+ * @example
+ * calculateDepreciatedValue(40000, "diminishing_value", 0.25, 2); // 22500
+ * calculateDepreciatedValue(40000, "prime_cost", 0.25, 2); // 20000
+ */
+export function calculateDepreciatedValue(
+  cost: number,
+  method: DepreciationMethod,
+  rate: number,
+  years: number
+): number {
+  if (years <= 0) {
+    return cost;
+  }
+
+  const value =
+    method === "prime_cost"
+      ? cost * (1 - rate * years)
+      : cost * Math.pow(1 - rate, years);
+
+  return Math.max(0, value);
+}
+
+/**
+ * Estimates a property or vehicle's value on a date when no valuation has
+ * been entered.
+ *
+ * @param details - Purchase and depreciation fields from the holding
+ * @param asOf - Date to estimate the value for
+ * @returns Estimated value in the holding's currency, 0 before the purchase
+ *          date, or null if no purchase price is recorded
+ */
+export function estimateRealAssetValue(
+  details: RealAssetDetails,
+  asOf: Date
+): number | null {
+  if (details.purchasePrice === null) {
+    return null;
+  }
+
+  const purchasePrice = Number(details.purchasePrice);
+  if (!details.purchaseDate) {
+    return purchasePrice;
+  }
+
+  const purchaseDate = parseISO(details.purchaseDate);
+  if (asOf < purchaseDate) {
+    return 0;
+  }
+
+  if (details.type !== "vehicle") {
+    return purchasePrice;
+  }
+
+  return calculateDepreciatedValue(
+    purchasePrice,
+    details.depreciationMethod ?? "diminishing_value",
+    getDepreciationRate(details),
+    yearsBetween(purchaseDate, asOf)
+  );
+}
+
+/**
+ * Builds a year-by-year depreciation schedule for a vehicle from its
+ * purchase date, stopping early once the value reaches zero.
+ *
+ * @param details - Purchase and depreciation fields from the holding
+ * @param years - Number of years to schedule
+ * @returns Schedule rows, or an empty array without a purchase price and date
+ */
+export function buildDepreciationSchedule(
+  details: RealAssetDetails,
+  years: number = DEPRECIATION_SCHEDULE_YEARS
+): DepreciationYear[] {
+  if (details.purchasePrice === null || !details.purchaseDate) {
+    return [];
+  }
+
+  const purchasePrice = Number(details.purchasePrice);
+  const purchaseDate = parseISO(details.purchaseDate);
+  const method = details.depreciationMethod ?? "diminishing_value";
+  const rate = getDepreciationRate(details);
+
+  const schedule: DepreciationYear[] = [];
+  for (let year = 1; year <= years; year++) {
+    const openingValue = calculateDepreciatedValue(purchasePrice, method, rate, year - 1);
+    if (openingValue <= 0) {
+      break;
+    }
+    const closingValue = calculateDepreciatedValue(purchasePrice, method, rate, year);
+    schedule.push({
+      year,
+      endDate: format(addYears(purchaseDate, year), "yyyy-MM-dd"),
+      openingValue,
+      depreciation: openingValue - closingValue,
+      closingValue,
+    });
+  }
+
+  return schedule;
+}
+
+/**
+ * Summarises a property or vehicle: current value and where it came from,
+ * capital growth against the cost base, and equity and LVR against the
+ * linked debt holding.
+ *
+ * @param holding - The property or vehicle holding
+ * @param userId - Owner of the holding, used to scope the linked debt lookup
+ * @returns RealAssetSummary in the holding's currency
+ */
+export async function calculateRealAssetSummary(
+  holding: Holding,
+  userId: string
+): Promise<RealAssetSummary> {
+  const calculatedAt = new Date();
+
+  const [snapshot, linkedDebt] = await Promise.all([
+    getLatestSnapshot(holding.id),
+    holding.linkedDebtId
+      ? getLinkedDebt(holding.linkedDebtId, userId, holding.currency)
+      : Promise.resolve(null),
+  ]);
+
+  // Current value: latest valuation, else an estimate from purchase details
+  let currentValue: number | null = null;
+  let valuationSource: ValuationSource | null = null;
+  if (snapshot) {
+    const rate = await getExchangeRate(snapshot.currency, holding.currency);
+    currentValue = Number(snapshot.balance) * rate;
+    valuationSource = "valuation";
+  } else {
+    currentValue = estimateRealAssetValue(holding, calculatedAt);
+    if (currentValue !== null) {
+      valuationSource = holding.type === "vehicle" ? "depreciation" : "purchase_price";
+    }
+  }
+
+  const purchasePrice = holding.purchasePrice !== null ? Number(holding.purchasePrice) : null;
+  const purchaseCosts = holding.purchaseCosts !== null ? Number(holding.purchaseCosts) : 0;
+  const costBase = purchasePrice !== null ? purchasePrice + purchaseCosts : null;
+
+  // Capital growth against the cost base
+  let capitalGrowth: number | null = null;
+  let capitalGrowthPercent: number | null = null;
+  let annualisedGrowth: number | null = null;
+  if (currentValue !== null && costBase !== null && costBase > 0) {
+    capitalGrowth = currentValue - costBase;
+    capitalGrowthPercent = (capitalGrowth / costBase) * 100;
+
+    if (holding.purchaseDate) {
+      const years = yearsBetween(parseISO(holding.purchaseDate), calculatedAt);
+      if (years >= 1) {
+        annualisedGrowth = (Math.pow(currentValue / costBase, 1 / years) - 1) * 100;
+      }
+    }
+  }
+
+  // Equity and LVR against the linked loan
+  let equity: number | null = null;
+  let lvr: number | null = null;
+  if (currentValue !== null) {
+    const debtBalance = linkedDebt?.balance ?? 0;
+    equity = currentValue - debtBalance;
+    lvr = linkedDebt && currentValue > 0 ? (debtBalance / currentValue) * 100 : null;
+  }
+
+  return {
+    currency: holding.currency,
+    currentValue,
+    valuationSource,
+    valuationDate: snapshot?.date ?? null,
+    purchasePrice,
+    purchaseCosts,
+    costBase,
+    capitalGrowth,
+    capitalGrowthPercent,
+    annualisedGrowth,
+    linkedDebt,
+    equity,
+    lvr,
+    depreciationSchedule:
+      holding.type === "vehicle" ? buildDepreciationSchedule(holding) : [],
+    calculatedAt,
+  };
+}
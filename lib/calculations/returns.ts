@@ -0,0 +1,823 @@
+/**
+ * Portfolio returns calculation service.
+ *
+ * Measures investment performance for tradeable holdings (stocks, ETFs,
+ * crypto) per holding, per asset type and for the whole portfolio, so actual
+ * performance can be told apart from growth that came from new money.
+ *
+ * Two measures are reported for each lookback window:
+ * - Money-weighted return (XIRR): the annualised rate that discounts every
+ *   cash flow (BUYs out, SELLs and dividends in, plus the current value) to
+ *   zero. Reflects the timing and size of the user's own contributions.
+ * - Time-weighted return (TWR): sub-period returns between cash flows,
+ *   chained together. Removes the effect of contributions and withdrawals.
+ *
+ * Cash flows come from the transactions table and the terminal value from
+ * the cached price. A merger or spin-off moves market value from one
+ * holding to another (a withdrawal from the source and a contribution to the
+ * target, so they cancel out across the portfolio, bar any cash paid); a
+ * return of capital is a withdrawal. Interim valuations (window start and each cash-flow date)
+ * use each holding's daily close from the stored price history, or its most
+ * recent traded unit price where that is more recent or no close is stored.
+ *
+ * All amounts are reported in AUD: cash flows and closes at the exchange rate
+ * on their own date, the terminal value at today's rate.
+ */
+
+import { db } from "@/lib/db";
+import {
+  holdings,
+  transactions,
+  corporateActions,
+  type CorporateAction,
+  type Holding,
+} from "@/lib/db/schema";
+import { eq, isNull, and, inArray, asc } from "drizzle-orm";
+import {
+  format,
+  parseISO,
+  subDays,
+  subYears,
+  differenceInCalendarDays,
+} from "date-fns";
+import { getExchangeRate } from "@/lib/services/exchange-rates";
+import {
+  getAudRateHistories,
+  convertToAudAsOf,
+  type AudRateHistories,
+} from "@/lib/services/exchange-rate-history";
+import { getCachedPrice } from "@/lib/services/price-cache";
+import {
+  getPriceHistory,
+  getPriceSymbol,
+  findCloseAsOf,
+  type PriceHistoryPoint,
+} from "@/lib/services/price-history";
+import {
+  TRADEABLE_TYPES,
+  HOLDING_TYPE_LABELS,
+  type ReturnWindow,
+  type TradeableType,
+  type TransactionAction,
+} from "@/lib/constants";
+
+/** Tolerance used when solving for XIRR. */
+const XIRR_TOLERANCE = 0.0000001;
+const XIRR_MAX_ITERATIONS = 100;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A dated cash flow from the investor's point of view
+ * (negative = money invested, positive = money received).
+ */
+export interface CashFlow {
+  /** Date of the flow (YYYY-MM-DD) */
+  date: string;
+  /** Amount in AUD */
+  amount: number;
+}
+
+/**
+ * Return measures over a window.
+ */
+export interface ReturnMetrics {
+  /** Effective start of the window (YYYY-MM-DD) */
+  startDate: string;
+  /** End of the window, i.e. today (YYYY-MM-DD) */
+  endDate: string;
+  /** Market value at the start of the window in AUD */
+  startValue: number;
+  /** Market value at the end of the window in AUD */
+  endValue: number;
+  /** BUYs less SELL proceeds within the window in AUD */
+  netContributions: number;
+  /** Dividends received within the window (after withholding) in AUD */
+  income: number;
+  /** Investment gain: end value - start value - net contributions + income */
+  gain: number;
+  /** Money-weighted annualised return (%), or null if it cannot be solved */
+  xirr: number | null;
+  /** Time-weighted cumulative return over the window (%), or null */
+  twr: number | null;
+  /** Time-weighted return annualised (%), or null for windows under a year */
+  annualisedTwr: number | null;
+}
+
+/**
+ * Returns for a single holding.
+ */
+export interface HoldingReturn extends ReturnMetrics {
+  holdingId: string;
+  name: string;
+  symbol: string | null;
+  type: TradeableType;
+}
+
+/**
+ * Returns for all holdings of one asset type.
+ */
+export interface AssetTypeReturn extends ReturnMetrics {
+  type: TradeableType;
+  label: string;
+}
+
+/**
+ * Portfolio returns report for a lookback window.
+ */
+export interface PortfolioReturnsReport {
+  /** Lookback window the report covers */
+  window: ReturnWindow;
+  /** Whole tradeable portfolio, or null with no transactions */
+  portfolio: ReturnMetrics | null;
+  /** Per asset type, in display order */
+  byType: AssetTypeReturn[];
+  /** Per holding with activity in the window, best XIRR first */
+  holdings: HoldingReturn[];
+  /** Timestamp when calculation was performed */
+  calculatedAt: Date;
+}
+
+/**
+ * A transaction or corporate action converted to AUD, ready for return
+ * calculations.
+ */
+interface TimelineEvent {
+  date: string;
+  action: TransactionAction | "TRANSFER_IN" | "TRANSFER_OUT" | "RETURN_OF_CAPITAL";
+  /** Units traded, or moved in or out by a corporate action */
+  quantity: number;
+  /** Unit price in AUD (dividend per share for DIVIDEND) */
+  unitPrice: number;
+  /** Fees in AUD */
+  fees: number;
+  /** Foreign tax withheld in AUD (DIVIDEND only) */
+  withholdingTax: number;
+  /** Market value in AUD moved in or out, or capital returned (corporate actions only) */
+  value: number;
+}
+
+/**
+ * A holding with its transactions in date order, its daily closes and its
+ * current price.
+ */
+export interface HoldingTimeline {
+  holding: Holding;
+  events: TimelineEvent[];
+  /** Stored daily closes in AUD, oldest first */
+  closes: PriceHistoryPoint[];
+  /** Current cached price in AUD, or null if no price is cached */
+  currentPrice: number | null;
+}
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+/**
+ * Converts a value from its native currency to AUD.
+ */
+async function convertToAud(value: number, currency: string): Promise<number> {
+  if (currency === "AUD") {
+    return value;
+  }
+  const rate = await getExchangeRate(currency, "AUD");
+  return value * rate;
+}
+
+/**
+ * Gets all non-deleted tradeable holdings for a user, including inactive ones
+ * (a sold holding still contributes to past returns).
+ */
+export async function getTradeableHoldings(userId: string): Promise<Holding[]> {
+  return db
+    .select()
+    .from(holdings)
+    .where(
+      and(
+        eq(holdings.userId, userId),
+        isNull(holdings.deletedAt),
+        inArray(holdings.type, TRADEABLE_TYPES)
+      )
+    );
+}
+
+/**
+ * Inserts an event after any others on or before its date.
+ */
+function insertEvent(events: TimelineEvent[], event: TimelineEvent): void {
+  const index = events.findIndex((e) => e.date > event.date);
+  if (index === -1) {
+    events.push(event);
+  } else {
+    events.splice(index, 0, event);
+  }
+}
+
+/**
+ * Loads transactions, corporate actions and current prices for the given
+ * holdings. Holdings without either are left out.
+ */
+export async function getHoldingTimelines(
+  holdingList: Holding[]
+): Promise<HoldingTimeline[]> {
+  if (holdingList.length === 0) {
+    return [];
+  }
+
+  const rows = await db
+    .select({
+      holdingId: transactions.holdingId,
+      date: transactions.date,
+      action: transactions.action,
+      quantity: transactions.quantity,
+      unitPrice: transactions.unitPrice,
+      fees: transactions.fees,
+      currency: transactions.currency,
+      withholdingTax: transactions.withholdingTax,
+    })
+    .from(transactions)
+    .where(
+      and(
+        inArray(transactions.holdingId, holdingList.map((h) => h.id)),
+        isNull(transactions.deletedAt)
+      )
+    )
+    .orderBy(asc(transactions.date), asc(transactions.createdAt));
+
+  // Daily rates per currency: trades and closes convert at their own date's
+  // rate, the current price at today's rate
+  const fxHistories = await getAudRateHistories([
+    ...holdingList.map((h) => h.currency as string),
+    ...rows.map((r) => r.currency),
+  ]);
+
+  const eventsByHolding = new Map<string, TimelineEvent[]>();
+  for (const row of rows) {
+    const rate = await convertToAudAsOf(1, row.currency, row.date, fxHistories);
+    const event: TimelineEvent = {
+      date: row.date,
+      action: row.action,
+      quantity: Number(row.quantity),
+      unitPrice: Number(row.unitPrice) * rate,
+      fees: Number(row.fees) * rate,
+      withholdingTax: Number(row.withholdingTax ?? 0) * rate,
+      value: 0,
+    };
+    const group = eventsByHolding.get(row.holdingId);
+    if (group) {
+      group.push(event);
+    } else {
+      eventsByHolding.set(row.holdingId, [event]);
+    }
+  }
+
+  const actions = await db
+    .select()
+    .from(corporateActions)
+    .where(
+      and(
+        inArray(corporateActions.holdingId, holdingList.map((h) => h.id)),
+        isNull(corporateActions.deletedAt)
+      )
+    )
+    .orderBy(asc(corporateActions.date), asc(corporateActions.createdAt));
+
+  // Price history must reach back to the first transaction or action
+  const firstDateByHolding = new Map<string, string>();
+  for (const [holdingId, events] of eventsByHolding) {
+    firstDateByHolding.set(holdingId, events[0].date);
+  }
+  for (const action of actions) {
+    for (const holdingId of [action.holdingId, action.targetHoldingId]) {
+      if (!holdingId) continue;
+      const first = firstDateByHolding.get(holdingId);
+      if (!first || action.date < first) {
+        firstDateByHolding.set(holdingId, action.date);
+      }
+    }
+  }
+
+  const timelines: HoldingTimeline[] = [];
+  for (const holding of holdingList) {
+    const firstDate = firstDateByHolding.get(holding.id);
+    if (!firstDate) {
+      continue;
+    }
+    const events = eventsByHolding.get(holding.id) ?? [];
+
+    let currentPrice: number | null = null;
+    const priceSymbol = getPriceSymbol(holding);
+    if (priceSymbol) {
+      const cached = await getCachedPrice(priceSymbol);
+      if (cached && cached.price > 0) {
+        currentPrice = await convertToAud(cached.price, cached.currency);
+      }
+    }
+
+    const closes: PriceHistoryPoint[] = [];
+    if (priceSymbol) {
+      for (const point of await getPriceHistory(priceSymbol, firstDate)) {
+        closes.push({
+          date: point.date,
+          close: await convertToAudAsOf(point.close, point.currency, point.date, fxHistories),
+          currency: "AUD",
+        });
+      }
+    }
+
+    timelines.push({ holding, events, closes, currentPrice });
+  }
+
+  await addCorporateActionEvents(timelines, actions, fxHistories);
+
+  return timelines.filter((t) => t.events.length > 0);
+}
+
+/**
+ * Adds corporate actions to the timelines as transfers of market value, in
+ * date order so each sees the units left by the ones before it.
+ *
+ * The value moved is the target units at the target's price, falling back
+ * to the source's value (times `costBasePercent` for a spin-off, less the
+ * cash for a merger) when the target has no price. A merger's source gives
+ * up that value plus the cash paid.
+ */
+async function addCorporateActionEvents(
+  timelines: HoldingTimeline[],
+  actions: CorporateAction[],
+  fxHistories: AudRateHistories
+): Promise<void> {
+  const today = format(new Date(), "yyyy-MM-dd");
+  const timelineById = new Map(timelines.map((t) => [t.holding.id, t]));
+  const transfer = (
+    action: TimelineEvent["action"],
+    date: string,
+    quantity: number,
+    value: number
+  ): TimelineEvent => ({
+    date,
+    action,
+    quantity,
+    unitPrice: 0,
+    fees: 0,
+    withholdingTax: 0,
+    value,
+  });
+
+  for (const action of actions) {
+    const source = timelineById.get(action.holdingId);
+    if (!source || action.type === "symbol_change") {
+      continue;
+    }
+
+    const quantity = quantityAsOf(source.events, action.date);
+    if (quantity <= 0) {
+      continue;
+    }
+    const cashRate = await convertToAudAsOf(1, source.holding.currency, action.date, fxHistories);
+    const cash = quantity * Number(action.cashPerUnit ?? 0) * cashRate;
+
+    if (action.type === "return_of_capital") {
+      insertEvent(source.events, transfer("RETURN_OF_CAPITAL", action.date, 0, cash));
+      continue;
+    }
+
+    const sourceValue = quantity * priceAsOf(source, action.date, today);
+    const targetQuantity = quantity * Number(action.ratio ?? 1);
+    const target = action.targetHoldingId ? timelineById.get(action.targetHoldingId) : undefined;
+    const targetPrice = target ? priceAsOf(target, action.date, today) : 0;
+
+    let movedValue: number;
+    if (targetPrice > 0) {
+      movedValue = targetQuantity * targetPrice;
+    } else if (action.type === "spin_off") {
+      movedValue = (sourceValue * Number(action.costBasePercent ?? 0)) / 100;
+    } else {
+      movedValue = Math.max(sourceValue - cash, 0);
+    }
+
+    if (action.type === "merger") {
+      insertEvent(source.events, transfer("TRANSFER_OUT", action.date, quantity, movedValue + cash));
+    } else {
+      insertEvent(source.events, transfer("TRANSFER_OUT", action.date, 0, movedValue));
+    }
+    if (target) {
+      insertEvent(target.events, transfer("TRANSFER_IN", action.date, targetQuantity, movedValue));
+    }
+  }
+}
+
+/**
+ * Quantity held after applying every event up to `date`.
+ * When `inclusive` is false, events on `date` itself are not applied.
+ */
+function quantityAsOf(
+  events: TimelineEvent[],
+  date: string,
+  inclusive: boolean = true
+): number {
+  let quantity = 0;
+  for (const event of events) {
+    if (inclusive ? event.date > date : event.date >= date) {
+      break;
+    }
+    switch (event.action) {
+      case "BUY":
+        quantity += event.quantity;
+        break;
+      case "SELL":
+        quantity -= event.quantity;
+        break;
+      case "SPLIT":
+        quantity *= event.quantity;
+        break;
+      case "TRANSFER_IN":
+        quantity += event.quantity;
+        break;
+      case "TRANSFER_OUT":
+        quantity -= event.quantity;
+        break;
+      case "DIVIDEND":
+      case "RETURN_OF_CAPITAL":
+        break;
+    }
+  }
+  return quantity;
+}
+
+/**
+ * Unit price in AUD on `date`: the current price at the end of the window,
+ * otherwise the latest of the stored close and the last BUY or SELL price
+ * (or transfer-in value) on or before the date.
+ */
+function priceAsOf(
+  timeline: HoldingTimeline,
+  date: string,
+  endDate: string
+): number {
+  if (date >= endDate && timeline.currentPrice !== null) {
+    return timeline.currentPrice;
+  }
+
+  let price = 0;
+  let priceDate = "";
+  for (const event of timeline.events) {
+    if (event.date > date) {
+      break;
+    }
+    if (event.action === "BUY" || event.action === "SELL") {
+      price = event.unitPrice;
+      priceDate = event.date;
+    } else if (event.action === "TRANSFER_IN" && event.quantity > 0) {
+      price = event.value / event.quantity;
+      priceDate = event.date;
+    } else if (event.action === "SPLIT" && event.quantity > 0) {
+      price /= event.quantity;
+    }
+  }
+
+  const close = findCloseAsOf(timeline.closes, date);
+  if (close && close.date >= priceDate) {
+    return close.close;
+  }
+  return price;
+}
+
+/**
+ * Market value in AUD of a group of holdings on `date`.
+ */
+export function valueAsOf(
+  timelines: HoldingTimeline[],
+  date: string,
+  endDate: string,
+  inclusive: boolean = true
+): number {
+  return timelines.reduce((sum, timeline) => {
+    const quantity = quantityAsOf(timeline.events, date, inclusive);
+    if (quantity <= 0) {
+      return sum;
+    }
+    return sum + quantity * priceAsOf(timeline, date, endDate);
+  }, 0);
+}
+
+/**
+ * Calculates the money-weighted annualised return (XIRR) of a series of
+ * cash flows, using Newton's method with a bisection fallback.
+ *
+ * @param cashflows - Dated flows (negative = invested, positive = received)
+ * @returns Annualised rate as a decimal (0.08 = 8%), or null if the flows
+ *   do not contain both an outflow and an inflow or no rate can be found
+ *
+ * @example
+ * calculateXirr([
+ *   { date: "2025-01-01", amount: -1000 },
+ *   { date: "2026-01-01", amount: 1100 },
+ * ]); // ~0.1
+ */
+export function calculateXirr(cashflows: CashFlow[]): number | null {
+  const flows = cashflows.filter((f) => f.amount !== 0);
+  if (
+    !flows.some((f) => f.amount < 0) ||
+    !flows.some((f) => f.amount > 0)
+  ) {
+    return null;
+  }
+
+  const firstDate = parseISO(
+    flows.reduce((min, f) => (f.date < min ? f.date : min), flows[0].date)
+  );
+  const terms = flows.map((f) => ({
+    amount: f.amount,
+    years: differenceInCalendarDays(parseISO(f.date), firstDate) / 365,
+  }));
+
+  const npv = (rate: number) =>
+    terms.reduce((sum, t) => sum + t.amount / Math.pow(1 + rate, t.years), 0);
+  const derivative = (rate: number) =>
+    terms.reduce(
+      (sum, t) => sum - (t.years * t.amount) / Math.pow(1 + rate, t.years + 1),
+      0
+    );
+
+  // Newton's method from a 10% guess
+  let rate = 0.1;
+  for (let i = 0; i < XIRR_MAX_ITERATIONS; i++) {
+    const value = npv(rate);
+    if (Math.abs(value) < XIRR_TOLERANCE) {
+      return rate;
+    }
+    const slope = derivative(rate);
+    if (slope === 0 || !isFinite(slope)) {
+      break;
+    }
+    const next = rate - value / slope;
+    if (!isFinite(next) || next <= -1) {
+      break;
+    }
+    if (Math.abs(next - rate) < XIRR_TOLERANCE) {
+      return next;
+    }
+    rate = next;
+  }
+
+  // Bisection over a wide bracket
+  let low = -0.9999;
+  let high = 100;
+  let npvLow = npv(low);
+  if (Math.sign(npvLow) === Math.sign(npv(high))) {
+    return null;
+  }
+  for (let i = 0; i < XIRR_MAX_ITERATIONS * 2; i++) {
+    const mid = (low + high) / 2;
+    const npvMid = npv(mid);
+    if (Math.abs(npvMid) < XIRR_TOLERANCE || high - low < XIRR_TOLERANCE) {
+      return mid;
+    }
+    if (Math.sign(npvMid) === Math.sign(npvLow)) {
+      low = mid;
+      npvLow = npvMid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Start date of a lookback window, or null for since inception.
+ */
+function getWindowStart(window: ReturnWindow, today: Date): string | null {
+  switch (window) {
+    case "1y":
+      return format(subYears(today, 1), "yyyy-MM-dd");
+    case "3y":
+      return format(subYears(today, 3), "yyyy-MM-dd");
+    case "inception":
+      return null;
+  }
+}
+
+/**
+ * Groups the external cash flows of a set of holdings by date, for events
+ * after `startDate` up to and including `endDate`.
+ *
+ * Contributions are BUYs (cost plus fees) and transfers in, less SELL
+ * proceeds, transfers out and returns of capital. Income is dividends
+ * after withholding tax.
+ */
+export function getGroupFlows(
+  timelines: HoldingTimeline[],
+  startDate: string,
+  endDate: string
+): { contributionsByDate: Map<string, number>; incomeByDate: Map<string, number> } {
+  const contributionsByDate = new Map<string, number>();
+  const incomeByDate = new Map<string, number>();
+  for (const timeline of timelines) {
+    for (const event of timeline.events) {
+      if (event.date <= startDate || event.date > endDate) {
+        continue;
+      }
+      const gross = event.quantity * event.unitPrice;
+      switch (event.action) {
+        case "BUY":
+          contributionsByDate.set(
+            event.date,
+            (contributionsByDate.get(event.date) ?? 0) + gross + event.fees
+          );
+          break;
+        case "SELL":
+          contributionsByDate.set(
+            event.date,
+            (contributionsByDate.get(event.date) ?? 0) - (gross - event.fees)
+          );
+          break;
+        case "DIVIDEND":
+          incomeByDate.set(
+            event.date,
+            (incomeByDate.get(event.date) ?? 0) + gross - event.withholdingTax
+          );
+          break;
+        case "TRANSFER_IN":
+          contributionsByDate.set(
+            event.date,
+            (contributionsByDate.get(event.date) ?? 0) + event.value
+          );
+          break;
+        case "TRANSFER_OUT":
+        case "RETURN_OF_CAPITAL":
+          contributionsByDate.set(
+            event.date,
+            (contributionsByDate.get(event.date) ?? 0) - event.value
+          );
+          break;
+        case "SPLIT":
+          break;
+      }
+    }
+  }
+
+  return { contributionsByDate, incomeByDate };
+}
+
+/**
+ * Calculates XIRR and TWR for a group of holdings over a window.
+ *
+ * Events dated on the window start are treated as part of the opening
+ * position. The effective start is moved forward to the day before the
+ * group's first transaction if that is later, so a holding bought within
+ * the window starts from nothing.
+ *
+ * @returns ReturnMetrics, or null if the group had nothing to measure
+ */
+function calculateGroupReturns(
+  timelines: HoldingTimeline[],
+  windowStart: string | null,
+  endDate: string
+): ReturnMetrics | null {
+  const firstEventDate = timelines.reduce<string | null>((min, t) => {
+    const date = t.events[0]?.date ?? null;
+    return date !== null && (min === null || date < min) ? date : min;
+  }, null);
+  if (firstEventDate === null) {
+    return null;
+  }
+
+  const dayBeforeFirst = format(subDays(parseISO(firstEventDate), 1), "yyyy-MM-dd");
+  const startDate =
+    windowStart === null || windowStart < dayBeforeFirst ? dayBeforeFirst : windowStart;
+
+  const { contributionsByDate, incomeByDate } = getGroupFlows(timelines, startDate, endDate);
+
+  const flowDates = Array.from(
+    new Set([...contributionsByDate.keys(), ...incomeByDate.keys()])
+  ).sort();
+
+  const startValue = valueAsOf(timelines, startDate, endDate);
+  const endValue = valueAsOf(timelines, endDate, endDate);
+
+  // Nothing held and nothing happened in the window
+  if (startValue === 0 && endValue === 0 && flowDates.length === 0) {
+    return null;
+  }
+
+  let netContributions = 0;
+  let income = 0;
+
+  // Money-weighted: opening value as an investment, closing value as a return
+  const cashflows: CashFlow[] = [{ date: startDate, amount: -startValue }];
+  for (const date of flowDates) {
+    const contribution = contributionsByDate.get(date) ?? 0;
+    const dividend = incomeByDate.get(date) ?? 0;
+    netContributions += contribution;
+    income += dividend;
+    cashflows.push({ date, amount: dividend - contribution });
+  }
+  cashflows.push({ date: endDate, amount: endValue });
+  const xirr = calculateXirr(cashflows);
+
+  // Time-weighted: chain the growth of each sub-period between flow dates
+  let growth = 1;
+  let hasPeriod = false;
+  let periodStartValue = startValue;
+  for (const date of flowDates) {
+    if (periodStartValue > 0) {
+      // Value just before the day's flows, priced at the day's trades
+      const valueBeforeFlows = valueAsOf(timelines, date, endDate, false);
+      growth *= (valueBeforeFlows + (incomeByDate.get(date) ?? 0)) / periodStartValue;
+      hasPeriod = true;
+    }
+    periodStartValue = valueAsOf(timelines, date, endDate);
+  }
+  if (periodStartValue > 0) {
+    growth *= endValue / periodStartValue;
+    hasPeriod = true;
+  }
+
+  const days = differenceInCalendarDays(parseISO(endDate), parseISO(startDate));
+  const twr = hasPeriod ? (growth - 1) * 100 : null;
+  const annualisedTwr =
+    hasPeriod && days >= 365 ? (Math.pow(growth, 365 / days) - 1) * 100 : null;
+
+  return {
+    startDate,
+    endDate,
+    startValue,
+    endValue,
+    netContributions,
+    income,
+    gain: endValue - startValue - netContributions + income,
+    xirr: xirr === null ? null : xirr * 100,
+    twr,
+    annualisedTwr,
+  };
+}
+
+// =============================================================================
+// MAIN CALCULATION FUNCTIONS
+// =============================================================================
+
+/**
+ * Calculates money-weighted and time-weighted returns for the user's
+ * tradeable holdings over a lookback window.
+ *
+ * @param userId - The user ID to report on
+ * @param window - Lookback window: "1y", "3y", or "inception"
+ * @returns PortfolioReturnsReport with portfolio, per-type and per-holding returns
+ *
+ * @example
+ * const report = await getPortfolioReturns("user_123", "1y");
+ * console.log(`1Y XIRR: ${report.portfolio?.xirr?.toFixed(2)}%`);
+ */
+export async function getPortfolioReturns(
+  userId: string,
+  window: ReturnWindow
+): Promise<PortfolioReturnsReport> {
+  const calculatedAt = new Date();
+  const endDate = format(calculatedAt, "yyyy-MM-dd");
+  const windowStart = getWindowStart(window, calculatedAt);
+
+  const tradeableHoldings = await getTradeableHoldings(userId);
+  const timelines = await getHoldingTimelines(tradeableHoldings);
+
+  const holdingReturns: HoldingReturn[] = [];
+  for (const timeline of timelines) {
+    const metrics = calculateGroupReturns([timeline], windowStart, endDate);
+    if (!metrics) {
+      continue;
+    }
+    holdingReturns.push({
+      holdingId: timeline.holding.id,
+      name: timeline.holding.name,
+      symbol: timeline.holding.symbol,
+      type: timeline.holding.type as TradeableType,
+      ...metrics,
+    });
+  }
+  holdingReturns.sort(
+    (a, b) => (b.xirr ?? -Infinity) - (a.xirr ?? -Infinity)
+  );
+
+  const byType: AssetTypeReturn[] = [];
+  for (const type of TRADEABLE_TYPES) {
+    const metrics = calculateGroupReturns(
+      timelines.filter((t) => t.holding.type === type),
+      windowStart,
+      endDate
+    );
+    if (metrics) {
+      byType.push({ type, label: HOLDING_TYPE_LABELS[type], ...metrics });
+    }
+  }
+
+  return {
+    window,
+    portfolio: calculateGroupReturns(timelines, windowStart, endDate),
+    byType,
+    holdings: holdingReturns,
+    calculatedAt,
+  };
+}
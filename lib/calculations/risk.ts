@@ -0,0 +1,540 @@
+/**
+ * Portfolio risk calculation service.
+ *
+ * Complements returns with how bumpy the ride was:
+ * - Volatility: standard deviation of period returns, annualised
+ *   (12 periods a year for monthly net worth, 252 trading days for stocks
+ *   and ETFs, 365 days for crypto).
+ * - Maximum drawdown: largest fall from a peak to a later trough, with the
+ *   recovery time from the trough back to that peak (null while still
+ *   under water).
+ * - Sharpe-like ratio: annualised return less RISK_FREE_RATE, divided by
+ *   volatility.
+ * - Correlation: Pearson correlation of daily returns between each pair of
+ *   tradeable holdings, over the days both have a close. Holdings that move
+ *   together (HIGH_CORRELATION_THRESHOLD or more) are grouped with their
+ *   combined weight, so a concentration in, say, crypto and tech stocks
+ *   shows up as one position.
+ *
+ * Portfolio metrics come from the monthly net worth history, so they include
+ * the effect of contributions and debt repayments as well as market moves.
+ * Holding metrics come from the last RISK_LOOKBACK_DAYS of stored daily
+ * closes, converted to AUD at each day's exchange rate.
+ */
+
+import { db } from "@/lib/db";
+import { holdings, type Holding } from "@/lib/db/schema";
+import { eq, isNull, and, inArray } from "drizzle-orm";
+import { format, subDays, parseISO, differenceInCalendarDays } from "date-fns";
+import {
+  getAudRateHistories,
+  convertToAudAsOf,
+} from "@/lib/services/exchange-rate-history";
+import {
+  getPriceHistory,
+  getPriceSymbol,
+  type PriceHistoryPoint,
+} from "@/lib/services/price-history";
+import { calculateHistoricalNetWorth } from "./net-worth-history";
+import { calculateQuantityHeld } from "./quantity";
+import {
+  HIGH_CORRELATION_THRESHOLD,
+  RISK_FREE_RATE,
+  RISK_HISTORY_MONTHS,
+  RISK_LOOKBACK_DAYS,
+  TRADEABLE_TYPES,
+  type TradeableType,
+} from "@/lib/constants";
+
+/** Fewest period returns a metric is calculated from. */
+const MIN_RISK_OBSERVATIONS = 3;
+
+/** Fewest shared daily returns a correlation is calculated from. */
+const MIN_CORRELATION_OBSERVATIONS = 20;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Risk measures for a value series.
+ */
+export interface RiskMetrics {
+  /** First and last dates of the series (YYYY-MM-DD) */
+  startDate: string;
+  endDate: string;
+  /** Number of period returns the metrics were calculated from */
+  observations: number;
+  /** Compound annual growth of the series (%), or null */
+  annualisedReturn: number | null;
+  /** Annualised standard deviation of period returns (%), or null */
+  volatility: number | null;
+  /** (Annualised return - risk-free rate) / volatility, or null */
+  sharpeRatio: number | null;
+  /** Largest peak-to-trough fall as a negative % (0 if it never fell) */
+  maxDrawdown: number;
+  /** Peak and trough of the largest fall, or null if it never fell */
+  drawdownPeakDate: string | null;
+  drawdownTroughDate: string | null;
+  /** First date back at the peak after the trough, or null if not yet */
+  recoveryDate: string | null;
+  /** Days from trough to recovery, or null if not yet recovered */
+  recoveryDays: number | null;
+}
+
+/**
+ * Risk measures for a single tradeable holding.
+ */
+export interface HoldingRisk extends RiskMetrics {
+  holdingId: string;
+  name: string;
+  symbol: string | null;
+  type: TradeableType;
+  /** Current market value in AUD at the latest stored close */
+  marketValue: number;
+  /** Share of the tradeable portfolio's market value (%) */
+  weight: number;
+}
+
+/**
+ * Pairwise correlations between holdings, in the order of `holdingIds`.
+ */
+export interface CorrelationMatrix {
+  holdingIds: string[];
+  labels: string[];
+  /** values[i][j] is the correlation of holdings i and j, or null without enough shared days */
+  values: (number | null)[][];
+}
+
+/**
+ * Holdings whose returns move together.
+ */
+export interface CorrelatedGroup {
+  holdingIds: string[];
+  labels: string[];
+  /** Combined share of the tradeable portfolio (%) */
+  weight: number;
+  /** Mean correlation between the group's linked pairs */
+  averageCorrelation: number;
+}
+
+/**
+ * Portfolio risk report.
+ */
+export interface PortfolioRiskReport {
+  /** Metrics of monthly net worth, or null without enough history */
+  netWorth: RiskMetrics | null;
+  /** Per held tradeable holding with price history, highest weight first */
+  holdings: HoldingRisk[];
+  correlation: CorrelationMatrix;
+  /** Groups of highly correlated holdings, largest weight first */
+  correlatedGroups: CorrelatedGroup[];
+  /** Timestamp when calculation was performed */
+  calculatedAt: Date;
+}
+
+/**
+ * Risk report for one holding, with how it moves against the others.
+ */
+export interface HoldingRiskReport {
+  /** Metrics for the holding, or null if it is not held or has no price history */
+  risk: HoldingRisk | null;
+  /** Correlation with each other held tradeable holding, highest first */
+  correlations: Array<{
+    holdingId: string;
+    name: string;
+    symbol: string | null;
+    correlation: number;
+  }>;
+  calculatedAt: Date;
+}
+
+/**
+ * A dated value, e.g. a daily close or a month-end net worth.
+ */
+interface ValuePoint {
+  date: string;
+  value: number;
+}
+
+/**
+ * A held tradeable holding with its daily closes in AUD.
+ */
+interface HoldingSeries {
+  holding: Holding;
+  quantity: number;
+  closes: ValuePoint[];
+}
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+/**
+ * Periods per year for annualising a holding's daily returns: crypto
+ * trades every day, stocks and ETFs on trading days.
+ */
+function getPeriodsPerYear(type: Holding["type"]): number {
+  return type === "crypto" ? 365 : 252;
+}
+
+/**
+ * Sample standard deviation.
+ */
+function standardDeviation(values: number[]): number {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance =
+    values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
+
+/**
+ * Calculates volatility, drawdown and a Sharpe-like ratio for a series.
+ * Periods starting from a zero or negative value (e.g. negative net worth)
+ * are left out of the returns.
+ *
+ * @param points - Values oldest first
+ * @param periodsPerYear - Points per year, for annualising
+ * @returns RiskMetrics, or null with fewer than two points
+ */
+function calculateSeriesRisk(
+  points: ValuePoint[],
+  periodsPerYear: number
+): RiskMetrics | null {
+  if (points.length < 2) {
+    return null;
+  }
+
+  const returns: number[] = [];
+  for (let i = 1; i < points.length; i++) {
+    if (points[i - 1].value > 0) {
+      returns.push(points[i].value / points[i - 1].value - 1);
+    }
+  }
+
+  let volatility: number | null = null;
+  let annualisedReturn: number | null = null;
+  let sharpeRatio: number | null = null;
+  if (returns.length >= MIN_RISK_OBSERVATIONS) {
+    volatility = standardDeviation(returns) * Math.sqrt(periodsPerYear) * 100;
+    const growth = returns.reduce((product, r) => product * (1 + r), 1);
+    annualisedReturn = growth > 0 ? (Math.pow(growth, periodsPerYear / returns.length) - 1) * 100 : -100;
+    sharpeRatio = volatility > 0 ? (annualisedReturn - RISK_FREE_RATE) / volatility : null;
+  }
+
+  // Largest fall from a running peak
+  let peak = points[0];
+  let maxDrawdown = 0;
+  let drawdownPeak: ValuePoint | null = null;
+  let drawdownTrough: ValuePoint | null = null;
+  for (const point of points) {
+    if (point.value > peak.value) {
+      peak = point;
+    } else if (peak.value > 0) {
+      const drawdown = point.value / peak.value - 1;
+      if (drawdown < maxDrawdown) {
+        maxDrawdown = drawdown;
+        drawdownPeak = peak;
+        drawdownTrough = point;
+      }
+    }
+  }
+
+  let recoveryDate: string | null = null;
+  if (drawdownPeak && drawdownTrough) {
+    const trough = drawdownTrough;
+    const recovery = points.find(
+      (p) => p.date > trough.date && p.value >= drawdownPeak!.value
+    );
+    recoveryDate = recovery?.date ?? null;
+  }
+
+  return {
+    startDate: points[0].date,
+    endDate: points[points.length - 1].date,
+    observations: returns.length,
+    annualisedReturn,
+    volatility,
+    sharpeRatio,
+    maxDrawdown: maxDrawdown * 100,
+    drawdownPeakDate: drawdownPeak?.date ?? null,
+    drawdownTroughDate: drawdownTrough?.date ?? null,
+    recoveryDate,
+    recoveryDays:
+      recoveryDate && drawdownTrough
+        ? differenceInCalendarDays(parseISO(recoveryDate), parseISO(drawdownTrough.date))
+        : null,
+  };
+}
+
+/**
+ * Pearson correlation of two holdings' daily returns over the days both
+ * have a close, so a weekday-only stock lines up with a crypto that also
+ * trades at weekends.
+ *
+ * @returns The correlation, or null with too few shared days
+ */
+function calculateCorrelation(a: ValuePoint[], b: ValuePoint[]): number | null {
+  const bByDate = new Map(b.map((p) => [p.date, p.value]));
+  const shared = a
+    .filter((p) => bByDate.has(p.date))
+    .map((p) => [p.value, bByDate.get(p.date)!] as const);
+
+  const returnsA: number[] = [];
+  const returnsB: number[] = [];
+  for (let i = 1; i < shared.length; i++) {
+    if (shared[i - 1][0] > 0 && shared[i - 1][1] > 0) {
+      returnsA.push(shared[i][0] / shared[i - 1][0] - 1);
+      returnsB.push(shared[i][1] / shared[i - 1][1] - 1);
+    }
+  }
+  if (returnsA.length < MIN_CORRELATION_OBSERVATIONS) {
+    return null;
+  }
+
+  const meanA = returnsA.reduce((sum, r) => sum + r, 0) / returnsA.length;
+  const meanB = returnsB.reduce((sum, r) => sum + r, 0) / returnsB.length;
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < returnsA.length; i++) {
+    covariance += (returnsA[i] - meanA) * (returnsB[i] - meanB);
+    varianceA += (returnsA[i] - meanA) ** 2;
+    varianceB += (returnsB[i] - meanB) ** 2;
+  }
+  if (varianceA === 0 || varianceB === 0) {
+    return null;
+  }
+  return covariance / Math.sqrt(varianceA * varianceB);
+}
+
+/**
+ * Loads the user's held tradeable holdings with their daily closes in AUD
+ * over the lookback window. Holdings with no stored closes are left out.
+ */
+async function getHoldingSeries(userId: string, today: Date): Promise<HoldingSeries[]> {
+  const tradeableHoldings = await db
+    .select()
+    .from(holdings)
+    .where(
+      and(
+        eq(holdings.userId, userId),
+        isNull(holdings.deletedAt),
+        eq(holdings.isActive, true),
+        inArray(holdings.type, TRADEABLE_TYPES)
+      )
+    );
+
+  const fromDate = format(subDays(today, RISK_LOOKBACK_DAYS), "yyyy-MM-dd");
+
+  const held: Array<{ holding: Holding; quantity: number; history: PriceHistoryPoint[] }> = [];
+  for (const holding of tradeableHoldings) {
+    const priceSymbol = getPriceSymbol(holding);
+    if (!priceSymbol) {
+      continue;
+    }
+    const quantity = await calculateQuantityHeld(holding.id);
+    if (quantity > 0) {
+      held.push({ holding, quantity, history: await getPriceHistory(priceSymbol, fromDate) });
+    }
+  }
+
+  // Daily rates for every currency a close is stored in
+  const fxHistories = await getAudRateHistories(
+    held.flatMap((h) => h.history.map((point) => point.currency)),
+    fromDate
+  );
+
+  const series: HoldingSeries[] = [];
+  for (const { holding, quantity, history } of held) {
+    if (history.length === 0) {
+      continue;
+    }
+    const closes: ValuePoint[] = [];
+    for (const point of history) {
+      closes.push({
+        date: point.date,
+        value: await convertToAudAsOf(point.close, point.currency, point.date, fxHistories),
+      });
+    }
+    series.push({ holding, quantity, closes });
+  }
+
+  return series;
+}
+
+/**
+ * Risk metrics and weight for each holding series.
+ */
+function calculateHoldingRisks(series: HoldingSeries[]): HoldingRisk[] {
+  const marketValues = series.map((s) => s.quantity * s.closes[s.closes.length - 1].value);
+  const totalValue = marketValues.reduce((sum, v) => sum + v, 0);
+
+  const risks: HoldingRisk[] = [];
+  series.forEach((s, i) => {
+    const metrics = calculateSeriesRisk(s.closes, getPeriodsPerYear(s.holding.type));
+    if (!metrics) {
+      return;
+    }
+    risks.push({
+      holdingId: s.holding.id,
+      name: s.holding.name,
+      symbol: s.holding.symbol,
+      type: s.holding.type as TradeableType,
+      marketValue: marketValues[i],
+      weight: totalValue > 0 ? (marketValues[i] / totalValue) * 100 : 0,
+      ...metrics,
+    });
+  });
+  return risks;
+}
+
+/**
+ * Correlation matrix between every pair of holding series.
+ */
+function calculateCorrelationMatrix(series: HoldingSeries[]): CorrelationMatrix {
+  const values = series.map((a, i) =>
+    series.map((b, j) => (i === j ? 1 : calculateCorrelation(a.closes, b.closes)))
+  );
+  return {
+    holdingIds: series.map((s) => s.holding.id),
+    labels: series.map((s) => s.holding.symbol ?? s.holding.name),
+    values,
+  };
+}
+
+/**
+ * Groups holdings linked by a correlation at or above the threshold
+ * (directly or through another holding in the group).
+ */
+function findCorrelatedGroups(
+  matrix: CorrelationMatrix,
+  risks: HoldingRisk[]
+): CorrelatedGroup[] {
+  const weights = new Map(risks.map((r) => [r.holdingId, r.weight]));
+  const visited = new Set<number>();
+  const groups: CorrelatedGroup[] = [];
+
+  for (let start = 0; start < matrix.holdingIds.length; start++) {
+    if (visited.has(start)) continue;
+
+    // Walk every holding reachable through highly correlated pairs
+    const members: number[] = [];
+    const queue = [start];
+    visited.add(start);
+    while (queue.length > 0) {
+      const i = queue.shift()!;
+      members.push(i);
+      matrix.values[i].forEach((value, j) => {
+        if (j !== i && !visited.has(j) && value !== null && value >= HIGH_CORRELATION_THRESHOLD) {
+          visited.add(j);
+          queue.push(j);
+        }
+      });
+    }
+    if (members.length < 2) continue;
+
+    const links: number[] = [];
+    for (const i of members) {
+      for (const j of members) {
+        const value = matrix.values[i][j];
+        if (i < j && value !== null && value >= HIGH_CORRELATION_THRESHOLD) {
+          links.push(value);
+        }
+      }
+    }
+
+    groups.push({
+      holdingIds: members.map((i) => matrix.holdingIds[i]),
+      labels: members.map((i) => matrix.labels[i]),
+      weight: members.reduce((sum, i) => sum + (weights.get(matrix.holdingIds[i]) ?? 0), 0),
+      averageCorrelation: links.reduce((sum, v) => sum + v, 0) / links.length,
+    });
+  }
+
+  return groups.sort((a, b) => b.weight - a.weight);
+}
+
+// =============================================================================
+// MAIN CALCULATION FUNCTIONS
+// =============================================================================
+
+/**
+ * Calculates net worth volatility and drawdown, per-holding risk and the
+ * correlation between the user's tradeable holdings.
+ *
+ * @param userId - The user ID to report on
+ * @returns PortfolioRiskReport
+ *
+ * @example
+ * const report = await getPortfolioRisk("user_123");
+ * console.log(`Max drawdown: ${report.netWorth?.maxDrawdown.toFixed(1)}%`);
+ */
+export async function getPortfolioRisk(userId: string): Promise<PortfolioRiskReport> {
+  const calculatedAt = new Date();
+
+  const history = await calculateHistoricalNetWorth(userId, RISK_HISTORY_MONTHS);
+  // Months before anything was tracked are zero, not a fall to zero
+  const firstTracked = history.history.findIndex((p) => p.netWorth !== 0);
+  const netWorthPoints =
+    firstTracked === -1
+      ? []
+      : history.history.slice(firstTracked).map((p) => ({
+          date: format(p.date, "yyyy-MM-dd"),
+          value: p.netWorth,
+        }));
+
+  const series = await getHoldingSeries(userId, calculatedAt);
+  const holdingRisks = calculateHoldingRisks(series);
+  const correlation = calculateCorrelationMatrix(series);
+
+  return {
+    netWorth: calculateSeriesRisk(netWorthPoints, 12),
+    holdings: [...holdingRisks].sort((a, b) => b.weight - a.weight),
+    correlation,
+    correlatedGroups: findCorrelatedGroups(correlation, holdingRisks),
+    calculatedAt,
+  };
+}
+
+/**
+ * Calculates risk metrics for one holding and its correlation with each of
+ * the user's other held tradeable holdings.
+ *
+ * @param holdingId - The holding's ID (ownership checked by caller)
+ * @param userId - The user ID
+ * @returns HoldingRiskReport
+ */
+export async function getHoldingRisk(
+  holdingId: string,
+  userId: string
+): Promise<HoldingRiskReport> {
+  const calculatedAt = new Date();
+  const series = await getHoldingSeries(userId, calculatedAt);
+  const target = series.find((s) => s.holding.id === holdingId);
+
+  if (!target) {
+    return { risk: null, correlations: [], calculatedAt };
+  }
+
+  const correlations: HoldingRiskReport["correlations"] = [];
+  for (const other of series) {
+    if (other === target) continue;
+    const correlation = calculateCorrelation(target.closes, other.closes);
+    if (correlation !== null) {
+      correlations.push({
+        holdingId: other.holding.id,
+        name: other.holding.name,
+        symbol: other.holding.symbol,
+        correlation,
+      });
+    }
+  }
+  correlations.sort((a, b) => b.correlation - a.correlation);
+
+  return {
+    risk: calculateHoldingRisks(series).find((r) => r.holdingId === holdingId) ?? null,
+    correlations,
+    calculatedAt,
+  };
+}
@@ -0,0 +1,272 @@
+/**
+ * Settlement cash ledger.
+ *
+ * A tradeable holding may link to the cash holding its trades settle
+ * through (`holdings.settlementHoldingId`). Each transaction on a linked
+ * holding then moves cash:
+ * - BUY: debits quantity x unit price + fees
+ * - SELL: credits quantity x unit price - fees
+ * - DIVIDEND: credits quantity x dividend per share - withholding tax - fees.
+ *   A reinvested (DRP) dividend is credited and its BUY debited, leaving only
+ *   any residual in cash.
+ * - SPLIT: no cash movement
+ *
+ * Cash balances are snapshot-based, so the ledger runs forward from the
+ * latest snapshot: balance = snapshot balance + movements dated after it.
+ * Without a snapshot there is no opening balance and no ledger.
+ */
+
+import { db } from "@/lib/db";
+import { holdings, snapshots, transactions, type Transaction } from "@/lib/db/schema";
+import { eq, and, isNull, isNotNull, asc, desc } from "drizzle-orm";
+import { getAudRateHistories, convertToAudAsOf } from "@/lib/services/exchange-rate-history";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A cash movement caused by a transaction on a linked holding.
+ */
+export interface SettlementEntry {
+  /** Transaction ID */
+  transactionId: string;
+  /** Tradeable holding the transaction belongs to */
+  holdingId: string;
+  holdingName: string;
+  holdingSymbol: string | null;
+  /** Transaction date (YYYY-MM-DD) */
+  date: string;
+  action: Transaction["action"];
+  /** Cash movement in the cash holding's currency; negative for debits */
+  amount: number;
+  /** Ledger balance after this entry */
+  balance: number;
+}
+
+/**
+ * A cash holding's balance carried forward from its latest snapshot.
+ */
+export interface SettlementBalance {
+  /** Snapshot balance plus movements since */
+  balance: number;
+  /** Date of the last movement (YYYY-MM-DD) */
+  asOf: string;
+  /** Opening snapshot date (YYYY-MM-DD) */
+  snapshotDate: string;
+  snapshotBalance: number;
+}
+
+/**
+ * A cash holding's settlement ledger since its latest snapshot.
+ */
+export interface SettlementLedger {
+  /** Opening snapshot, or null if the holding has none */
+  snapshot: { date: string; balance: number } | null;
+  /** Movements after the snapshot, oldest first */
+  entries: SettlementEntry[];
+  /** Balance after the last entry (the snapshot balance if there are none) */
+  balance: number | null;
+}
+
+type SettlementTransaction = Pick<
+  Transaction,
+  "action" | "quantity" | "unitPrice" | "fees" | "withholdingTax"
+>;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Cash movement for a transaction in its own currency. Positive amounts
+ * credit the settlement account.
+ */
+export function getSettlementAmount(txn: SettlementTransaction): number {
+  const gross = Number(txn.quantity) * Number(txn.unitPrice);
+  const fees = Number(txn.fees);
+
+  switch (txn.action) {
+    case "BUY":
+      return -(gross + fees);
+    case "SELL":
+      return gross - fees;
+    case "DIVIDEND":
+      return gross - Number(txn.withholdingTax ?? 0) - fees;
+    case "SPLIT":
+      return 0;
+  }
+}
+
+/**
+ * Loads movements for cash holdings from transactions on the holdings that
+ * settle to them, oldest first, converted to each cash holding's currency
+ * at the exchange rate on each transaction's date.
+ *
+ * @param userId - The user ID
+ * @param settlementHoldingId - Optional cash holding to limit movements to
+ */
+async function getSettlementMovements(
+  userId: string,
+  settlementHoldingId?: string
+): Promise<Array<Omit<SettlementEntry, "balance"> & { settlementHoldingId: string }>> {
+  const conditions = [
+    eq(holdings.userId, userId),
+    isNull(holdings.deletedAt),
+    isNull(transactions.deletedAt),
+    isNotNull(holdings.settlementHoldingId),
+  ];
+  if (settlementHoldingId) {
+    conditions.push(eq(holdings.settlementHoldingId, settlementHoldingId));
+  }
+
+  const rows = await db
+    .select({
+      transaction: transactions,
+      holdingName: holdings.name,
+      holdingSymbol: holdings.symbol,
+      settlementHoldingId: holdings.settlementHoldingId,
+    })
+    .from(transactions)
+    .innerJoin(holdings, eq(transactions.holdingId, holdings.id))
+    .where(and(...conditions))
+    .orderBy(asc(transactions.date), asc(transactions.createdAt));
+
+  if (rows.length === 0) {
+    return [];
+  }
+
+  // Cash holding currencies, for converting transactions in other currencies
+  const cashHoldings = await db
+    .select({ id: holdings.id, currency: holdings.currency })
+    .from(holdings)
+    .where(and(eq(holdings.userId, userId), eq(holdings.type, "cash"), isNull(holdings.deletedAt)));
+  const cashCurrencies = new Map(cashHoldings.map((h) => [h.id, h.currency]));
+
+  // Convert through AUD so any pair can use the stored daily history
+  const fxHistories = await getAudRateHistories([
+    ...rows.map((r) => r.transaction.currency),
+    ...cashCurrencies.values(),
+  ]);
+  const movements = [];
+
+  for (const row of rows) {
+    const currency = cashCurrencies.get(row.settlementHoldingId!);
+    if (!currency) {
+      continue; // Cash holding was deleted
+    }
+
+    let amount = getSettlementAmount(row.transaction);
+    if (row.transaction.currency !== currency) {
+      const date = row.transaction.date;
+      const audAmount = await convertToAudAsOf(amount, row.transaction.currency, date, fxHistories);
+      amount = audAmount / (await convertToAudAsOf(1, currency, date, fxHistories));
+    }
+
+    movements.push({
+      transactionId: row.transaction.id,
+      holdingId: row.transaction.holdingId,
+      holdingName: row.holdingName,
+      holdingSymbol: row.holdingSymbol,
+      date: row.transaction.date,
+      action: row.transaction.action,
+      amount,
+      settlementHoldingId: row.settlementHoldingId!,
+    });
+  }
+
+  return movements;
+}
+
+// =============================================================================
+// MAIN FUNCTIONS
+// =============================================================================
+
+/**
+ * Calculates ledger balances for a user's settlement cash holdings whose
+ * ledger is newer than their latest snapshot, i.e. with a movement dated
+ * after it.
+ *
+ * @param userId - The user ID
+ * @param latestSnapshots - Latest snapshot per holding ID, as returned by
+ *   `getLatestSnapshots`
+ * @returns Map of cash holding ID to ledger balance
+ */
+export async function calculateSettlementBalances(
+  userId: string,
+  latestSnapshots: Map<string, { date: string; balance: string }>
+): Promise<Map<string, SettlementBalance>> {
+  const movements = await getSettlementMovements(userId);
+  const balances = new Map<string, SettlementBalance>();
+
+  for (const movement of movements) {
+    const snapshot = latestSnapshots.get(movement.settlementHoldingId);
+    if (!snapshot || movement.date <= snapshot.date) {
+      continue;
+    }
+
+    const current = balances.get(movement.settlementHoldingId) ?? {
+      balance: Number(snapshot.balance),
+      asOf: snapshot.date,
+      snapshotDate: snapshot.date,
+      snapshotBalance: Number(snapshot.balance),
+    };
+    current.balance += movement.amount;
+    current.asOf = movement.date;
+    balances.set(movement.settlementHoldingId, current);
+  }
+
+  return balances;
+}
+
+/**
+ * Builds the settlement ledger for one cash holding: its latest snapshot
+ * and every movement after it with the running balance.
+ *
+ * @param cashHoldingId - The cash holding's ID (ownership checked by caller)
+ * @param userId - The user ID
+ */
+export async function getSettlementLedger(
+  cashHoldingId: string,
+  userId: string
+): Promise<SettlementLedger> {
+  const [[snapshot], movements] = await Promise.all([
+    db
+      .select({ date: snapshots.date, balance: snapshots.balance })
+      .from(snapshots)
+      .where(and(eq(snapshots.holdingId, cashHoldingId), isNull(snapshots.deletedAt)))
+      .orderBy(desc(snapshots.date))
+      .limit(1),
+    getSettlementMovements(userId, cashHoldingId),
+  ]);
+
+  if (!snapshot) {
+    return { snapshot: null, entries: [], balance: null };
+  }
+
+  let balance = Number(snapshot.balance);
+  const entries: SettlementEntry[] = [];
+
+  for (const movement of movements) {
+    if (movement.date <= snapshot.date) {
+      continue;
+    }
+    balance += movement.amount;
+    entries.push({
+      transactionId: movement.transactionId,
+      holdingId: movement.holdingId,
+      holdingName: movement.holdingName,
+      holdingSymbol: movement.holdingSymbol,
+      date: movement.date,
+      action: movement.action,
+      amount: movement.amount,
+      balance,
+    });
+  }
+
+  return {
+    snapshot: { date: snapshot.date, balance: Number(snapshot.balance) },
+    entries,
+    balance,
+  };
+}
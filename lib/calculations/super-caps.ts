@@ -0,0 +1,455 @@
+/**
+ * Super contribution cap tracking.
+ *
+ * Sums contributions across all of a user's super holdings per Australian
+ * financial year (1 July - 30 June) and compares them with the caps:
+ * - Concessional: employer (SG) and employee (salary sacrifice and deductible
+ *   personal) contributions, against CONCESSIONAL_CAPS plus any carried
+ *   forward unused amounts.
+ * - Non-concessional: after-tax personal contributions, against
+ *   NON_CONCESSIONAL_CAPS. The three-year bring-forward arrangement and the
+ *   nil cap above the transfer balance cap are not modelled.
+ *
+ * Carry-forward: the unused concessional cap of each financial year from
+ * CARRY_FORWARD_FIRST_YEAR can be used in the following CARRY_FORWARD_YEARS
+ * years, oldest first, when the total super balance at the previous 30 June
+ * was under CARRY_FORWARD_BALANCE_THRESHOLD. That balance is the latest
+ * snapshot of each super holding on or before 30 June; with no snapshots by
+ * then, carried-forward amounts are not counted. Years before the first
+ * recorded contribution are unknown and carry nothing forward.
+ *
+ * Contributions are recorded per month (YYYY-MM-01) and count toward the
+ * financial year of that month. Employer contributions for the months still
+ * to be recorded this year are projected from the recent monthly average, so
+ * the salary sacrifice suggestion leaves room for the SG still to come.
+ */
+
+import { db } from "@/lib/db";
+import { contributions, holdings, snapshots } from "@/lib/db/schema";
+import { eq, isNull, and, inArray } from "drizzle-orm";
+import { getExchangeRate } from "@/lib/services/exchange-rates";
+import {
+  getFinancialYear,
+  getFinancialYearRange,
+} from "@/lib/utils/financial-year";
+import {
+  CAP_WARNING_PERCENT,
+  CARRY_FORWARD_BALANCE_THRESHOLD,
+  CARRY_FORWARD_FIRST_YEAR,
+  CARRY_FORWARD_YEARS,
+  CONCESSIONAL_CAPS,
+  EMPLOYER_CONTRIBUTION_LOOKBACK_MONTHS,
+  NON_CONCESSIONAL_CAPS,
+} from "@/lib/constants";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Where contributions stand against a cap. */
+export type CapStatus = "under" | "approaching" | "reached" | "exceeded";
+
+/**
+ * Contributions for one month across all super holdings, in AUD.
+ */
+export interface MonthlyContributionTotals {
+  /** First of the month (YYYY-MM-01) */
+  date: string;
+  employer: number;
+  employee: number;
+  nonConcessional: number;
+}
+
+/**
+ * Contributions for one financial year against its caps, in AUD.
+ */
+export interface FinancialYearContributions {
+  financialYear: number;
+  concessionalCap: number;
+  /** Employer + employee contributions */
+  concessional: number;
+  /** Carried-forward amounts used to cover concessional contributions over the cap */
+  carryForwardUsed: number;
+  nonConcessionalCap: number;
+  nonConcessional: number;
+}
+
+/**
+ * An unused concessional cap amount available to carry forward.
+ */
+export interface CarryForwardAmount {
+  /** Financial year the amount went unused */
+  financialYear: number;
+  amount: number;
+  /** Last financial year the amount can be used in */
+  expiresAfter: number;
+}
+
+/**
+ * Contributions so far this financial year against a cap, in AUD.
+ */
+export interface CapUsage {
+  /** Cap for the year, including any carried-forward amounts */
+  cap: number;
+  contributed: number;
+  remaining: number;
+  percentUsed: number;
+  status: CapStatus;
+}
+
+/**
+ * Current financial year cap position, with a suggestion of what can still
+ * go in before 30 June.
+ */
+export interface SuperCapReport {
+  financialYear: number;
+  /** 30 June of the current financial year (YYYY-MM-DD) */
+  endDate: string;
+  /** Months of the current financial year with no contributions recorded yet */
+  monthsRemaining: number;
+  concessional: CapUsage & {
+    /** Cap before carried-forward amounts */
+    annualCap: number;
+    /** Carried-forward amounts included in `cap` */
+    carryForward: number;
+    /** Employer contributions expected over the remaining months */
+    projectedEmployer: number;
+    /** Status once projected employer contributions are added */
+    projectedStatus: CapStatus;
+  };
+  nonConcessional: CapUsage;
+  carryForward: {
+    eligible: boolean;
+    /** Total super balance at the previous 30 June (AUD), or null if unknown */
+    totalSuperBalance: number | null;
+    /** Unused amounts available at the start of the year, oldest first */
+    amounts: CarryForwardAmount[];
+  };
+  suggestion: {
+    /** Further salary sacrifice that fits under the cap after projected SG */
+    salarySacrifice: number;
+    /** The same spread over the remaining months, or null if none remain */
+    salarySacrificeMonthly: number | null;
+    /** Further after-tax contributions that fit under the cap */
+    nonConcessional: number;
+  };
+  /** Each financial year from the first recorded contribution, oldest first */
+  history: FinancialYearContributions[];
+  calculatedAt: Date;
+}
+
+// =============================================================================
+// CALCULATION
+// =============================================================================
+
+function roundCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Returns the cap in force for a financial year.
+ */
+function capFor(
+  caps: ReadonlyArray<{ fromYear: number; cap: number }>,
+  financialYear: number
+): number {
+  let cap: number = caps[0].cap;
+  for (const entry of caps) {
+    if (financialYear >= entry.fromYear) {
+      cap = entry.cap;
+    }
+  }
+  return cap;
+}
+
+function getCapUsage(cap: number, contributed: number): CapUsage {
+  const roundedContributed = roundCents(contributed);
+  const percentUsed = cap > 0 ? (roundedContributed / cap) * 100 : 0;
+
+  let status: CapStatus = "under";
+  if (roundedContributed > cap) {
+    status = "exceeded";
+  } else if (roundedContributed === cap) {
+    status = "reached";
+  } else if (percentUsed >= CAP_WARNING_PERCENT) {
+    status = "approaching";
+  }
+
+  return {
+    cap,
+    contributed: roundedContributed,
+    remaining: roundCents(Math.max(0, cap - roundedContributed)),
+    percentUsed,
+    status,
+  };
+}
+
+/**
+ * Months of a financial year left after the latest month with contributions
+ * recorded, counting every month if none are recorded yet.
+ */
+function getMonthsRemaining(financialYear: number, recordedDates: string[]): number {
+  const { startDate } = getFinancialYearRange(financialYear);
+  const latest = recordedDates
+    .filter((date) => getFinancialYear(date) === financialYear)
+    .sort()
+    .at(-1);
+
+  if (!latest) {
+    return 12;
+  }
+
+  const startIndex = Number(startDate.slice(0, 4)) * 12 + Number(startDate.slice(5, 7)) - 1;
+  const latestIndex = Number(latest.slice(0, 4)) * 12 + Number(latest.slice(5, 7)) - 1;
+  return Math.max(0, 11 - (latestIndex - startIndex));
+}
+
+/**
+ * Calculates the current financial year's cap position from monthly
+ * contribution totals.
+ *
+ * @param months - Contributions per month across all super holdings, in AUD
+ * @param juneBalances - Total super balance (AUD) at 30 June, keyed by the
+ *   financial year ending that day. Missing years are unknown.
+ * @param today - Date the report is for
+ */
+export function calculateSuperCaps(
+  months: MonthlyContributionTotals[],
+  juneBalances: Map<number, number>,
+  today: Date = new Date()
+): Omit<SuperCapReport, "calculatedAt"> {
+  const currentYear = getFinancialYear(today);
+
+  // Total contributions per financial year
+  const byYear = new Map<number, { concessional: number; nonConcessional: number }>();
+  for (const month of months) {
+    const year = getFinancialYear(month.date);
+    const totals = byYear.get(year) ?? { concessional: 0, nonConcessional: 0 };
+    totals.concessional += month.employer + month.employee;
+    totals.nonConcessional += month.nonConcessional;
+    byYear.set(year, totals);
+  }
+
+  const firstYear = Math.min(currentYear, ...byYear.keys());
+  const isEligible = (year: number) => {
+    const balance = juneBalances.get(year - 1);
+    return balance !== undefined && balance < CARRY_FORWARD_BALANCE_THRESHOLD;
+  };
+
+  // Walk each year in order, using carried-forward amounts (oldest first) to
+  // cover concessional contributions over the cap and banking what's unused
+  const unused = new Map<number, number>();
+  const history: FinancialYearContributions[] = [];
+  let openingAmounts: CarryForwardAmount[] = [];
+
+  for (let year = firstYear; year <= currentYear; year++) {
+    const concessionalCap = capFor(CONCESSIONAL_CAPS, year);
+    const totals = byYear.get(year) ?? { concessional: 0, nonConcessional: 0 };
+
+    const available: CarryForwardAmount[] = [];
+    for (let from = year - CARRY_FORWARD_YEARS; from < year; from++) {
+      const amount = unused.get(from) ?? 0;
+      if (amount > 0) {
+        available.push({
+          financialYear: from,
+          amount: roundCents(amount),
+          expiresAfter: from + CARRY_FORWARD_YEARS,
+        });
+      }
+    }
+    if (year === currentYear) {
+      openingAmounts = available;
+    }
+
+    let carryForwardUsed = 0;
+    let excess = totals.concessional - concessionalCap;
+    if (excess > 0 && isEligible(year)) {
+      for (const entry of available) {
+        const used = Math.min(entry.amount, excess);
+        unused.set(entry.financialYear, entry.amount - used);
+        carryForwardUsed += used;
+        excess -= used;
+        if (excess <= 0) break;
+      }
+    }
+
+    if (year >= CARRY_FORWARD_FIRST_YEAR && year < currentYear) {
+      unused.set(year, Math.max(0, concessionalCap - totals.concessional));
+    }
+
+    history.push({
+      financialYear: year,
+      concessionalCap,
+      concessional: roundCents(totals.concessional),
+      carryForwardUsed: roundCents(carryForwardUsed),
+      nonConcessionalCap: capFor(NON_CONCESSIONAL_CAPS, year),
+      nonConcessional: roundCents(totals.nonConcessional),
+    });
+  }
+
+  const current = history[history.length - 1];
+  const eligible = isEligible(currentYear);
+  const carryForward = eligible
+    ? roundCents(openingAmounts.reduce((sum, entry) => sum + entry.amount, 0))
+    : 0;
+
+  // Project the rest of the year's SG from recent months with employer contributions
+  const monthsRemaining = getMonthsRemaining(
+    currentYear,
+    months.map((m) => m.date)
+  );
+  const recentEmployer = months
+    .filter((m) => m.employer > 0)
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, EMPLOYER_CONTRIBUTION_LOOKBACK_MONTHS);
+  const averageEmployer =
+    recentEmployer.length > 0
+      ? recentEmployer.reduce((sum, m) => sum + m.employer, 0) / recentEmployer.length
+      : 0;
+  const projectedEmployer = roundCents(averageEmployer * monthsRemaining);
+
+  const concessionalCap = current.concessionalCap + carryForward;
+  const concessional = getCapUsage(concessionalCap, current.concessional);
+  const projected = getCapUsage(concessionalCap, current.concessional + projectedEmployer);
+  const nonConcessional = getCapUsage(current.nonConcessionalCap, current.nonConcessional);
+
+  const salarySacrifice = projected.remaining;
+
+  return {
+    financialYear: currentYear,
+    endDate: getFinancialYearRange(currentYear).endDate,
+    monthsRemaining,
+    concessional: {
+      ...concessional,
+      annualCap: current.concessionalCap,
+      carryForward,
+      projectedEmployer,
+      projectedStatus: projected.status,
+    },
+    nonConcessional,
+    carryForward: {
+      eligible,
+      totalSuperBalance: juneBalances.get(currentYear - 1) ?? null,
+      amounts: openingAmounts,
+    },
+    suggestion: {
+      salarySacrifice,
+      salarySacrificeMonthly:
+        monthsRemaining > 0 ? roundCents(salarySacrifice / monthsRemaining) : null,
+      nonConcessional: nonConcessional.remaining,
+    },
+    history,
+  };
+}
+
+// =============================================================================
+// DATA LOADING
+// =============================================================================
+
+/**
+ * Builds the cap report for a user from their super holdings' contributions
+ * and snapshots. Amounts in other currencies are converted to AUD at the
+ * current rate.
+ *
+ * @param userId - The user ID to report on
+ */
+export async function getSuperCapReport(userId: string): Promise<SuperCapReport> {
+  const superHoldings = await db
+    .select({ id: holdings.id, currency: holdings.currency })
+    .from(holdings)
+    .where(
+      and(
+        eq(holdings.userId, userId),
+        eq(holdings.type, "super"),
+        isNull(holdings.deletedAt)
+      )
+    );
+
+  if (superHoldings.length === 0) {
+    return {
+      ...calculateSuperCaps([], new Map()),
+      calculatedAt: new Date(),
+    };
+  }
+
+  const holdingIds = superHoldings.map((h) => h.id);
+
+  const [contributionRows, snapshotRows] = await Promise.all([
+    db
+      .select({
+        holdingId: contributions.holdingId,
+        date: contributions.date,
+        employerContrib: contributions.employerContrib,
+        employeeContrib: contributions.employeeContrib,
+        nonConcessionalContrib: contributions.nonConcessionalContrib,
+      })
+      .from(contributions)
+      .where(
+        and(inArray(contributions.holdingId, holdingIds), isNull(contributions.deletedAt))
+      ),
+    db
+      .select({
+        holdingId: snapshots.holdingId,
+        date: snapshots.date,
+        balance: snapshots.balance,
+      })
+      .from(snapshots)
+      .where(and(inArray(snapshots.holdingId, holdingIds), isNull(snapshots.deletedAt))),
+  ]);
+
+  // AUD rate per holding
+  const currencies = [...new Set(superHoldings.map((h) => h.currency))].filter(
+    (c) => c !== "AUD"
+  );
+  const rates = await Promise.all(currencies.map((c) => getExchangeRate(c, "AUD")));
+  const rateByCurrency = new Map<string, number>(currencies.map((c, i) => [c, rates[i]]));
+  const rateByHolding = new Map(
+    superHoldings.map((h) => [h.id, rateByCurrency.get(h.currency) ?? 1])
+  );
+
+  // Combine holdings into monthly totals
+  const monthMap = new Map<string, MonthlyContributionTotals>();
+  for (const row of contributionRows) {
+    const rate = rateByHolding.get(row.holdingId) ?? 1;
+    const month = monthMap.get(row.date) ?? {
+      date: row.date,
+      employer: 0,
+      employee: 0,
+      nonConcessional: 0,
+    };
+    month.employer += Number(row.employerContrib) * rate;
+    month.employee += Number(row.employeeContrib) * rate;
+    month.nonConcessional += Number(row.nonConcessionalContrib) * rate;
+    monthMap.set(row.date, month);
+  }
+  const months = Array.from(monthMap.values());
+
+  // Total super balance at each 30 June from the year before the first contribution
+  const currentYear = getFinancialYear(new Date());
+  const firstYear = Math.min(currentYear, ...months.map((m) => getFinancialYear(m.date)));
+  const sortedSnapshots = [...snapshotRows].sort((a, b) => a.date.localeCompare(b.date));
+  const juneBalances = new Map<number, number>();
+
+  for (let year = firstYear - 1; year < currentYear; year++) {
+    const { endDate } = getFinancialYearRange(year);
+    const latestByHolding = new Map<string, number>();
+    for (const snapshot of sortedSnapshots) {
+      if (snapshot.date > endDate) break;
+      latestByHolding.set(
+        snapshot.holdingId,
+        Number(snapshot.balance) * (rateByHolding.get(snapshot.holdingId) ?? 1)
+      );
+    }
+    if (latestByHolding.size > 0) {
+      juneBalances.set(
+        year,
+        Array.from(latestByHolding.values()).reduce((sum, balance) => sum + balance, 0)
+      );
+    }
+  }
+
+  return {
+    ...calculateSuperCaps(months, juneBalances),
+    calculatedAt: new Date(),
+  };
+}
@@ -1,28 +1,56 @@
 import { db } from "@/lib/db";
-import { snapshots, contributions, holdings } from "@/lib/db/schema";
-import { eq, and, isNull } from "drizzle-orm";
+import { snapshots, contributions, holdings, type Contribution } from "@/lib/db/schema";
+import { eq, and, isNull, inArray } from "drizzle-orm";
+import { getFinancialYear } from "@/lib/utils/financial-year";
+import { SUPER_DEDUCTION_FIELDS, type SuperDeductionField } from "@/lib/constants";
+
+/**
+ * A super fund's investment return for a period, split into the gross
+ * return and the costs the fund deducted.
+ */
+export interface SuperReturnSplit {
+  /** What the market gave/took before fees, insurance and tax */
+  grossReturn: number;
+  /** Admin and investment fees, insurance premiums and contributions tax */
+  costs: number;
+  /** grossReturn - costs: the balance change not explained by contributions */
+  netReturn: number;
+}
+
+/**
+ * Sums the deductions recorded on a contribution row.
+ */
+export function sumSuperDeductions(
+  row: Pick<Contribution, SuperDeductionField>
+): number {
+  return SUPER_DEDUCTION_FIELDS.reduce((sum, field) => sum + Number(row[field]), 0);
+}
 
 /**
  * Calculate investment returns for a super fund between two dates.
  *
- * Investment returns = (new_balance - old_balance) - employer_contrib - employee_contrib
+ * Net return = (new_balance - old_balance) - employer_contrib - employee_contrib
+ *   - non_concessional_contrib
+ * Gross return = net return + admin_fees + investment_fees + insurance_premiums
+ *   + contributions_tax
  *
  * This separates the growth of a super fund into:
- * - Contributions (employer + employee) - what was put in
- * - Investment returns - what the market gave/took
+ * - Contributions (employer + employee + non-concessional) - what was put in
+ * - Gross investment returns - what the market gave/took
+ * - Costs - what the fund deducted (zero when none were recorded)
  *
  * @param holdingId - The super holding ID
  * @param userId - The user ID for ownership validation
  * @param fromDate - Start date (first of month, e.g., "2024-01-01")
  * @param toDate - End date (first of month, e.g., "2024-02-01")
- * @returns Investment returns as a number, or null if missing previous snapshot
+ * @returns Gross return, costs and net return, or null if missing previous snapshot
  */
 export async function calculateInvestmentReturns(
   holdingId: string,
   userId: string,
   fromDate: string,
   toDate: string
-): Promise<number | null> {
+): Promise<SuperReturnSplit | null> {
   // Validate the holding exists and belongs to the user
   const holding = await db
     .select({ id: holdings.id, type: holdings.type })
@@ -87,6 +115,11 @@ export async function calculateInvestmentReturns(
     .select({
       employerContrib: contributions.employerContrib,
       employeeContrib: contributions.employeeContrib,
+      nonConcessionalContrib: contributions.nonConcessionalContrib,
+      adminFees: contributions.adminFees,
+      investmentFees: contributions.investmentFees,
+      insurancePremiums: contributions.insurancePremiums,
+      contributionsTax: contributions.contributionsTax,
     })
     .from(contributions)
     .where(
@@ -105,16 +138,24 @@ export async function calculateInvestmentReturns(
   // Parse contributions (default to 0 if no record exists)
   let employerContrib = 0;
   let employeeContrib = 0;
+  let nonConcessionalContrib = 0;
+  let costs = 0;
   if (contribution.length > 0) {
     employerContrib = Number(contribution[0].employerContrib);
     employeeContrib = Number(contribution[0].employeeContrib);
+    nonConcessionalContrib = Number(contribution[0].nonConcessionalContrib);
+    costs = sumSuperDeductions(contribution[0]);
   }
 
-  // Investment returns = (new_balance - old_balance) - total_contributions
-  const investmentReturns =
-    newBalance - oldBalance - employerContrib - employeeContrib;
+  // Net return = (new_balance - old_balance) - total_contributions
+  const netReturn =
+    newBalance - oldBalance - employerContrib - employeeContrib - nonConcessionalContrib;
 
-  return investmentReturns;
+  return {
+    grossReturn: netReturn + costs,
+    costs,
+    netReturn,
+  };
 }
 
 /**
@@ -124,13 +165,13 @@ export async function calculateInvestmentReturns(
  * @param holdingId - The super holding ID
  * @param userId - The user ID for ownership validation
  * @param monthDate - The target month (first of month, e.g., "2024-02-01")
- * @returns Investment returns for that month, or null if missing previous snapshot
+ * @returns Gross return, costs and net return for that month, or null if missing previous snapshot
  */
 export async function calculateMonthlyInvestmentReturns(
   holdingId: string,
   userId: string,
   monthDate: string
-): Promise<number | null> {
+): Promise<SuperReturnSplit | null> {
   // Parse the month date and get the previous month
   const targetDate = new Date(monthDate);
   const previousMonth = new Date(
@@ -144,3 +185,194 @@ export async function calculateMonthlyInvestmentReturns(
 
   return calculateInvestmentReturns(holdingId, userId, fromDate, toDate);
 }
+
+/**
+ * One financial year of a super fund's returns and costs, in the fund's
+ * currency. Percentages are annualised over the months recorded.
+ */
+export interface SuperFeeYear {
+  financialYear: number;
+  /** Months with a balance change (a snapshot and the one before it) */
+  months: number;
+  /** Mean of the fund's snapshot balances in the year */
+  averageBalance: number;
+  contributions: number;
+  grossReturn: number;
+  adminFees: number;
+  investmentFees: number;
+  insurancePremiums: number;
+  contributionsTax: number;
+  /** All four deductions */
+  costs: number;
+  netReturn: number;
+  /** Admin and investment fees as a % of the average balance, or null */
+  feeDrag: number | null;
+  /** All costs as a % of the average balance, or null */
+  costDrag: number | null;
+  /** Gross and net return as a % of the average balance, or null */
+  grossReturnPercent: number | null;
+  netReturnPercent: number | null;
+}
+
+/**
+ * Yearly returns and costs for one super fund.
+ */
+export interface SuperFundFees {
+  holdingId: string;
+  name: string;
+  currency: string;
+  isDormant: boolean;
+  /** Newest financial year first */
+  years: SuperFeeYear[];
+}
+
+/**
+ * Builds an annual fee-drag report for each of a user's super funds, so funds
+ * can be compared on what they cost relative to their balance.
+ *
+ * Each month with a snapshot and a previous snapshot contributes its balance
+ * change, contributions and recorded deductions to the financial year it falls
+ * in. Fee drag counts admin and investment fees only; insurance is a choice
+ * of cover and contributions tax is the same at every fund, so they appear in
+ * the total cost drag instead.
+ *
+ * @param userId - The user ID to report on
+ */
+export async function getSuperFeeReport(
+  userId: string
+): Promise<{ funds: SuperFundFees[]; calculatedAt: Date }> {
+  const superHoldings = await db
+    .select({
+      id: holdings.id,
+      name: holdings.name,
+      currency: holdings.currency,
+      isDormant: holdings.isDormant,
+    })
+    .from(holdings)
+    .where(
+      and(
+        eq(holdings.userId, userId),
+        eq(holdings.type, "super"),
+        isNull(holdings.deletedAt)
+      )
+    );
+
+  if (superHoldings.length === 0) {
+    return { funds: [], calculatedAt: new Date() };
+  }
+
+  const holdingIds = superHoldings.map((h) => h.id);
+
+  const [snapshotRows, contributionRows] = await Promise.all([
+    db
+      .select({
+        holdingId: snapshots.holdingId,
+        date: snapshots.date,
+        balance: snapshots.balance,
+      })
+      .from(snapshots)
+      .where(and(inArray(snapshots.holdingId, holdingIds), isNull(snapshots.deletedAt))),
+    db
+      .select()
+      .from(contributions)
+      .where(
+        and(inArray(contributions.holdingId, holdingIds), isNull(contributions.deletedAt))
+      ),
+  ]);
+
+  const contributionByKey = new Map(
+    contributionRows.map((c) => [`${c.holdingId}:${c.date}`, c])
+  );
+
+  const funds = superHoldings.map((holding): SuperFundFees => {
+    const holdingSnapshots = snapshotRows
+      .filter((s) => s.holdingId === holding.id)
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    const years = new Map<number, SuperFeeYear & { balances: number[] }>();
+    const getYear = (financialYear: number) => {
+      let year = years.get(financialYear);
+      if (!year) {
+        year = {
+          financialYear,
+          months: 0,
+          averageBalance: 0,
+          contributions: 0,
+          grossReturn: 0,
+          adminFees: 0,
+          investmentFees: 0,
+          insurancePremiums: 0,
+          contributionsTax: 0,
+          costs: 0,
+          netReturn: 0,
+          feeDrag: null,
+          costDrag: null,
+          grossReturnPercent: null,
+          netReturnPercent: null,
+          balances: [],
+        };
+        years.set(financialYear, year);
+      }
+      return year;
+    };
+
+    for (let i = 0; i < holdingSnapshots.length; i++) {
+      const snapshot = holdingSnapshots[i];
+      const year = getYear(getFinancialYear(snapshot.date));
+      const balance = Number(snapshot.balance);
+      year.balances.push(balance);
+
+      if (i === 0) continue;
+
+      const change = balance - Number(holdingSnapshots[i - 1].balance);
+      const contribution = contributionByKey.get(`${holding.id}:${snapshot.date}`);
+      const contributed = contribution
+        ? Number(contribution.employerContrib) +
+          Number(contribution.employeeContrib) +
+          Number(contribution.nonConcessionalContrib)
+        : 0;
+      const costs = contribution ? sumSuperDeductions(contribution) : 0;
+      const netReturn = change - contributed;
+
+      year.months += 1;
+      year.contributions += contributed;
+      year.netReturn += netReturn;
+      year.grossReturn += netReturn + costs;
+      year.costs += costs;
+      if (contribution) {
+        for (const field of SUPER_DEDUCTION_FIELDS) {
+          year[field] += Number(contribution[field]);
+        }
+      }
+    }
+
+    const result = Array.from(years.values())
+      .filter((year) => year.months > 0)
+      .map(({ balances, ...year }) => {
+        const averageBalance = balances.reduce((sum, b) => sum + b, 0) / balances.length;
+        // Annualise amounts over the months recorded
+        const toPercent = (amount: number) =>
+          averageBalance > 0 ? (amount / averageBalance) * (12 / year.months) * 100 : null;
+
+        return {
+          ...year,
+          averageBalance,
+          feeDrag: toPercent(year.adminFees + year.investmentFees),
+          costDrag: toPercent(year.costs),
+          grossReturnPercent: toPercent(year.grossReturn),
+          netReturnPercent: toPercent(year.netReturn),
+        };
+      })
+      .sort((a, b) => b.financialYear - a.financialYear);
+
+    return {
+      holdingId: holding.id,
+      name: holding.name,
+      currency: holding.currency,
+      isDormant: holding.isDormant,
+      years: result,
+    };
+  });
+
+  return { funds, calculatedAt: new Date() };
+}
@@ -44,6 +44,8 @@ export const ETF = "#8B5CF6"; // purple-500
 export const CRYPTO = "#F97316"; // orange-500
 export const SUPER = "#10B981"; // emerald-500
 export const CASH = "#06B6D4"; // cyan-500
+export const PROPERTY = "#F59E0B"; // amber-500
+export const VEHICLE = "#F43F5E"; // rose-500
 export const CATEGORY_FALLBACK = "#6B7280"; // gray-500
 
 // ---------------------------------------------------------------------------
@@ -53,6 +55,21 @@ export const EMPLOYER = "#3B82F6"; // blue-500
 export const EMPLOYEE = "#10B981"; // emerald-500
 export const RETURNS = "#8B5CF6"; // purple-500
 
+// ---------------------------------------------------------------------------
+// Benchmark comparison colours (one per benchmark, in order)
+// ---------------------------------------------------------------------------
+export const BENCHMARK_COLORS = ["#F59E0B", "#06B6D4", "#F43F5E"] as const; // amber, cyan, rose
+
+// ---------------------------------------------------------------------------
+// Net worth projection colours
+// ---------------------------------------------------------------------------
+/** Monte Carlo median line and percentile bands (bands drawn with opacity) */
+export const PROJECTION_MEDIAN = "#3B82F6"; // blue-500
+/** Deterministic projection at the expected returns */
+export const PROJECTION_EXPECTED = "#F59E0B"; // amber-500
+/** FI number reference line */
+export const FI_TARGET = "#22C55E"; // green-500
+
 // ---------------------------------------------------------------------------
 // Health dashboard colours
 // ---------------------------------------------------------------------------
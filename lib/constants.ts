@@ -17,9 +17,13 @@ export const TRADEABLE_TYPES = ["stock", "etf", "crypto"] as const;
 export type TradeableType = (typeof TRADEABLE_TYPES)[number];
 
 /** Holding types that use snapshot-based balance tracking (monthly check-in). */
-export const SNAPSHOT_TYPES = ["super", "cash", "debt"] as const;
+export const SNAPSHOT_TYPES = ["super", "cash", "debt", "property", "vehicle"] as const;
 export type SnapshotType = (typeof SNAPSHOT_TYPES)[number];
 
+/** Snapshot types that are physical assets with a purchase price and optional linked loan. */
+export const REAL_ASSET_TYPES = ["property", "vehicle"] as const;
+export type RealAssetType = (typeof REAL_ASSET_TYPES)[number];
+
 /** All valid holding types in display order. */
 export const HOLDING_TYPE_ORDER: Holding["type"][] = [
   "stock",
@@ -27,6 +31,8 @@ export const HOLDING_TYPE_ORDER: Holding["type"][] = [
   "crypto",
   "super",
   "cash",
+  "property",
+  "vehicle",
   "debt",
 ];
 
@@ -38,26 +44,160 @@ export const HOLDING_TYPE_LABELS: Record<Holding["type"], string> = {
   super: "Superannuation",
   cash: "Cash",
   debt: "Debt",
+  property: "Property",
+  vehicle: "Vehicles",
 };
 
+// =============================================================================
+// DEPRECIATION
+// =============================================================================
+
+/** Methods for estimating a vehicle's value from its purchase price. */
+export const DEPRECIATION_METHODS = ["diminishing_value", "prime_cost"] as const;
+export type DepreciationMethod = (typeof DEPRECIATION_METHODS)[number];
+
+/** Human-readable labels for each depreciation method. */
+export const DEPRECIATION_METHOD_LABELS: Record<DepreciationMethod, string> = {
+  diminishing_value: "Diminishing value",
+  prime_cost: "Prime cost (straight line)",
+};
+
+/** Annual depreciation rate (%) used when a vehicle has none set. */
+export const DEFAULT_VEHICLE_DEPRECIATION_RATE = 25;
+
+// =============================================================================
+// DEBT
+// =============================================================================
+
+/** How often a loan's scheduled repayment is made. */
+export const REPAYMENT_FREQUENCIES = ["weekly", "fortnightly", "monthly"] as const;
+export type RepaymentFrequency = (typeof REPAYMENT_FREQUENCIES)[number];
+
+/** Human-readable labels for each repayment frequency. */
+export const REPAYMENT_FREQUENCY_LABELS: Record<RepaymentFrequency, string> = {
+  weekly: "Weekly",
+  fortnightly: "Fortnightly",
+  monthly: "Monthly",
+};
+
+/** Repayments made per year at each frequency. */
+export const REPAYMENTS_PER_YEAR: Record<RepaymentFrequency, number> = {
+  weekly: 52,
+  fortnightly: 26,
+  monthly: 12,
+};
+
+/** Orders in which the payoff planner directs extra repayments. */
+export const DEBT_PAYOFF_STRATEGIES = ["avalanche", "snowball"] as const;
+export type DebtPayoffStrategy = (typeof DEBT_PAYOFF_STRATEGIES)[number];
+
+/** Human-readable labels for each payoff strategy. */
+export const DEBT_PAYOFF_STRATEGY_LABELS: Record<DebtPayoffStrategy, string> = {
+  avalanche: "Avalanche (highest rate first)",
+  snowball: "Snowball (smallest balance first)",
+};
+
+/** Extra monthly repayments (AUD) the payoff planner compares by default. */
+export const DEFAULT_EXTRA_REPAYMENTS = [250, 500, 1000];
+
+/** Most extra repayment amounts the payoff planner compares at once. */
+export const MAX_EXTRA_REPAYMENTS = 5;
+
+/** Months after which a loan that still isn't repaid is treated as never repaid. */
+export const MAX_LOAN_MONTHS = 600;
+
 // =============================================================================
 // CURRENCIES
 // =============================================================================
 
-/** Supported currency codes. */
-export const CURRENCIES = ["AUD", "NZD", "USD"] as const;
+/**
+ * Currencies the app can store and convert. Each has daily reference rates
+ * on Frankfurter (ECB), used for the rate history.
+ */
+export const CURRENCIES = [
+  "AUD",
+  "NZD",
+  "USD",
+  "GBP",
+  "EUR",
+  "JPY",
+  "CAD",
+  "CHF",
+  "SGD",
+  "HKD",
+] as const;
 export type Currency = (typeof CURRENCIES)[number];
 
 /**
- * Currency symbols for display.
- * AUD uses plain "$", NZD uses "NZ$", USD uses "US$" to differentiate.
+ * Currency that exchange rates are quoted against: "USD/AUD" = 1.53 means
+ * 1 USD = 1.53 AUD. Always enabled.
+ */
+export const BASE_CURRENCY: Currency = "AUD";
+
+/** Display details for a currency. */
+export interface CurrencyInfo {
+  /** Full name, e.g. "US Dollar" */
+  name: string;
+  /** Symbol shown before amounts */
+  symbol: string;
+  /** Flag emoji */
+  flag: string;
+  /** Digits after the decimal point (0 for JPY) */
+  decimals: number;
+}
+
+/**
+ * Display details for each currency.
+ * AUD uses plain "$"; other dollars are prefixed (NZ$, US$) to differentiate.
  */
-export const CURRENCY_SYMBOLS: Record<Currency, string> = {
-  AUD: "$",
-  NZD: "NZ$",
-  USD: "US$",
+export const CURRENCY_INFO: Record<Currency, CurrencyInfo> = {
+  AUD: { name: "Australian Dollar", symbol: "$", flag: "🇦🇺", decimals: 2 },
+  NZD: { name: "New Zealand Dollar", symbol: "NZ$", flag: "🇳🇿", decimals: 2 },
+  USD: { name: "US Dollar", symbol: "US$", flag: "🇺🇸", decimals: 2 },
+  GBP: { name: "British Pound", symbol: "£", flag: "🇬🇧", decimals: 2 },
+  EUR: { name: "Euro", symbol: "€", flag: "🇪🇺", decimals: 2 },
+  JPY: { name: "Japanese Yen", symbol: "¥", flag: "🇯🇵", decimals: 0 },
+  CAD: { name: "Canadian Dollar", symbol: "C$", flag: "🇨🇦", decimals: 2 },
+  CHF: { name: "Swiss Franc", symbol: "CHF ", flag: "🇨🇭", decimals: 2 },
+  SGD: { name: "Singapore Dollar", symbol: "S$", flag: "🇸🇬", decimals: 2 },
+  HKD: { name: "Hong Kong Dollar", symbol: "HK$", flag: "🇭🇰", decimals: 2 },
 };
 
+/** Currency symbols for display. */
+export const CURRENCY_SYMBOLS = Object.fromEntries(
+  CURRENCIES.map((c) => [c, CURRENCY_INFO[c].symbol])
+) as Record<Currency, string>;
+
+/** Currencies enabled when NEXT_PUBLIC_ENABLED_CURRENCIES is not set. */
+export const DEFAULT_ENABLED_CURRENCIES: readonly Currency[] = ["AUD", "NZD", "USD"];
+
+/**
+ * Parses a comma-separated list of currency codes. Unknown codes are
+ * ignored and the base currency is always included, first.
+ */
+function parseEnabledCurrencies(value: string | undefined): Currency[] {
+  const codes = value
+    ? value.split(",").map((c) => c.trim().toUpperCase())
+    : DEFAULT_ENABLED_CURRENCIES;
+
+  const enabled = new Set<Currency>([BASE_CURRENCY]);
+  for (const code of codes) {
+    if (CURRENCIES.includes(code as Currency)) {
+      enabled.add(code as Currency);
+    }
+  }
+  return [...enabled];
+}
+
+/**
+ * Currencies that can be recorded and selected for display, configured by
+ * NEXT_PUBLIC_ENABLED_CURRENCIES (e.g. "AUD,NZD,USD,GBP,EUR,JPY").
+ * Exchange rates are fetched and cached for every pair between them.
+ */
+export const ENABLED_CURRENCIES: readonly Currency[] = parseEnabledCurrencies(
+  process.env.NEXT_PUBLIC_ENABLED_CURRENCIES
+);
+
 // =============================================================================
 // TRANSACTIONS
 // =============================================================================
@@ -66,6 +206,348 @@ export const CURRENCY_SYMBOLS: Record<Currency, string> = {
 export const TRANSACTION_ACTIONS = ["BUY", "SELL", "DIVIDEND", "SPLIT"] as const;
 export type TransactionAction = (typeof TRANSACTION_ACTIONS)[number];
 
+/** Methods for matching SELLs against purchase lots (tradeable holdings). */
+export const COST_BASIS_METHODS = ["fifo", "average", "hifo", "specific_lot"] as const;
+export type CostBasisMethod = (typeof COST_BASIS_METHODS)[number];
+
+/** Human-readable labels for each cost basis method. */
+export const COST_BASIS_METHOD_LABELS: Record<CostBasisMethod, string> = {
+  fifo: "FIFO (first in, first out)",
+  average: "Average cost",
+  hifo: "HIFO (highest cost first)",
+  specific_lot: "Specific lot",
+};
+
+/** Corporate actions beyond a SPLIT (tradeable holdings). */
+export const CORPORATE_ACTION_TYPES = [
+  "symbol_change",
+  "merger",
+  "spin_off",
+  "return_of_capital",
+] as const;
+export type CorporateActionType = (typeof CORPORATE_ACTION_TYPES)[number];
+
+/** Human-readable labels for each corporate action type. */
+export const CORPORATE_ACTION_LABELS: Record<CorporateActionType, string> = {
+  symbol_change: "Symbol change",
+  merger: "Merger / takeover",
+  spin_off: "Spin-off / demerger",
+  return_of_capital: "Return of capital",
+};
+
+/** Corporate actions that move units into a second holding. */
+export const CORPORATE_ACTIONS_WITH_TARGET: readonly CorporateActionType[] = [
+  "merger",
+  "spin_off",
+];
+
+// =============================================================================
+// PRICE SOURCES
+// =============================================================================
+
+/** Where a tradeable holding's price comes from. */
+export const PRICE_PROVIDERS = ["yahoo", "coingecko", "manual", "derived"] as const;
+export type PriceProviderId = (typeof PRICE_PROVIDERS)[number];
+
+/** Human-readable labels for each price provider. */
+export const PRICE_PROVIDER_LABELS: Record<PriceProviderId, string> = {
+  yahoo: "Yahoo Finance",
+  coingecko: "CoinGecko",
+  manual: "Manual prices",
+  derived: "Derived from another symbol",
+};
+
+/** Manual prices dated more than this many days ago are flagged as stale. */
+export const MANUAL_PRICE_STALE_DAYS = 90;
+
+// =============================================================================
+// RETURNS
+// =============================================================================
+
+/** Lookback windows for portfolio return calculations. */
+export const RETURN_WINDOWS = ["1y", "3y", "inception"] as const;
+export type ReturnWindow = (typeof RETURN_WINDOWS)[number];
+
+/** Human-readable labels for each return window. */
+export const RETURN_WINDOW_LABELS: Record<ReturnWindow, string> = {
+  "1y": "1Y",
+  "3y": "3Y",
+  inception: "Since inception",
+};
+
+/** Most benchmark symbols a user can compare the portfolio against. */
+export const MAX_BENCHMARK_SYMBOLS = 3;
+
+/** Yahoo symbol for a benchmark, e.g. "VAS.AX", "IVV" or "^AXJO". */
+export const BENCHMARK_SYMBOL_PATTERN = /^\^?[A-Z0-9][A-Z0-9.-]{0,14}$/;
+
+// =============================================================================
+// RISK
+// =============================================================================
+
+/** Annual risk-free rate (%) used for Sharpe-like ratios, roughly the cash rate. */
+export const RISK_FREE_RATE = 4;
+
+/** Days of daily closes used for holding volatility, drawdown and correlation. */
+export const RISK_LOOKBACK_DAYS = 365;
+
+/** Months of net worth history used for portfolio volatility and drawdown. */
+export const RISK_HISTORY_MONTHS = 36;
+
+/** Correlation at or above which holdings are grouped as moving together. */
+export const HIGH_CORRELATION_THRESHOLD = 0.7;
+
+// =============================================================================
+// SUPER DEDUCTIONS
+// =============================================================================
+
+/** Amounts a super fund deducts from the balance, optionally captured at check-in. */
+export const SUPER_DEDUCTION_FIELDS = [
+  "adminFees",
+  "investmentFees",
+  "insurancePremiums",
+  "contributionsTax",
+] as const;
+export type SuperDeductionField = (typeof SUPER_DEDUCTION_FIELDS)[number];
+
+/** Human-readable labels for each super deduction. */
+export const SUPER_DEDUCTION_LABELS: Record<SuperDeductionField, string> = {
+  adminFees: "Admin Fees",
+  investmentFees: "Investment Fees",
+  insurancePremiums: "Insurance Premiums",
+  contributionsTax: "Contributions Tax",
+};
+
+// =============================================================================
+// SUPER CONTRIBUTION CAPS
+// =============================================================================
+
+/**
+ * Annual concessional (before-tax) contributions cap in AUD, by the first
+ * financial year each amount applies from.
+ */
+export const CONCESSIONAL_CAPS = [
+  { fromYear: 2018, cap: 25000 },
+  { fromYear: 2022, cap: 27500 },
+  { fromYear: 2025, cap: 30000 },
+] as const;
+
+/**
+ * Annual non-concessional (after-tax) contributions cap in AUD, by the first
+ * financial year each amount applies from.
+ */
+export const NON_CONCESSIONAL_CAPS = [
+  { fromYear: 2018, cap: 100000 },
+  { fromYear: 2022, cap: 110000 },
+  { fromYear: 2025, cap: 120000 },
+] as const;
+
+/** First financial year whose unused concessional cap can be carried forward. */
+export const CARRY_FORWARD_FIRST_YEAR = 2019;
+
+/** Financial years an unused concessional amount can be carried forward for. */
+export const CARRY_FORWARD_YEARS = 5;
+
+/**
+ * Total super balance (AUD) at the previous 30 June that must not be reached
+ * to use carried-forward concessional amounts.
+ */
+export const CARRY_FORWARD_BALANCE_THRESHOLD = 500000;
+
+/** Share of a cap (%) at which contributions are flagged as approaching it. */
+export const CAP_WARNING_PERCENT = 90;
+
+/** Recent months of employer contributions averaged to project the rest of the year. */
+export const EMPLOYER_CONTRIBUTION_LOOKBACK_MONTHS = 3;
+
+// =============================================================================
+// PROJECTION
+// =============================================================================
+
+/** Asset types the projection grows; debt is carried at its current balance. */
+export const PROJECTED_ASSET_TYPES = [
+  "stock",
+  "etf",
+  "crypto",
+  "super",
+  "cash",
+  "property",
+  "vehicle",
+] as const;
+export type ProjectedAssetType = (typeof PROJECTED_ASSET_TYPES)[number];
+
+/**
+ * Default nominal annual return and volatility (%) per asset type, roughly in
+ * line with long-run Australian market history. Vehicles depreciate.
+ */
+export const DEFAULT_PROJECTION_ASSUMPTIONS: Record<
+  ProjectedAssetType,
+  { expectedReturn: number; volatility: number }
+> = {
+  stock: { expectedReturn: 8, volatility: 18 },
+  etf: { expectedReturn: 7.5, volatility: 15 },
+  crypto: { expectedReturn: 12, volatility: 70 },
+  super: { expectedReturn: 7, volatility: 10 },
+  cash: { expectedReturn: 4, volatility: 1 },
+  property: { expectedReturn: 6, volatility: 10 },
+  vehicle: { expectedReturn: -15, volatility: 5 },
+};
+
+/** Default inflation rate (%) used to express projections in today's dollars. */
+export const DEFAULT_INFLATION_RATE = 2.5;
+
+/** Default safe withdrawal rate (%) used to derive the FI number. */
+export const DEFAULT_WITHDRAWAL_RATE = 4;
+
+/** Default annual retirement spending (AUD, today's dollars) and ages until saved. */
+export const DEFAULT_ANNUAL_SPENDING = 60000;
+export const DEFAULT_CURRENT_AGE = 35;
+export const DEFAULT_TARGET_AGE = 55;
+
+/** Number of Monte Carlo paths per projection. */
+export const PROJECTION_SIMULATIONS = 2000;
+
+/** Years a projection runs past the target age, capped at PROJECTION_MAX_AGE. */
+export const PROJECTION_YEARS_PAST_TARGET = 10;
+
+/** Oldest age a projection runs to. */
+export const PROJECTION_MAX_AGE = 100;
+
+/** Assumed correlation between the returns of any two asset types. */
+export const PROJECTION_ASSET_CORRELATION = 0.5;
+
+/** Completed budget periods averaged to derive the monthly budget surplus. */
+export const BUDGET_SURPLUS_PERIODS = 6;
+
+// =============================================================================
+// ALLOCATION
+// =============================================================================
+
+/** Ways of grouping holdings for target allocations. */
+export const ALLOCATION_SCOPES = ["asset_type", "holding", "bucket"] as const;
+export type AllocationScope = (typeof ALLOCATION_SCOPES)[number];
+
+/** Human-readable labels for each allocation scope. */
+export const ALLOCATION_SCOPE_LABELS: Record<AllocationScope, string> = {
+  asset_type: "Asset type",
+  holding: "Holding",
+  bucket: "Custom bucket",
+};
+
+/** Allocation planner modes: spend new cash only, or also sell overweight holdings. */
+export const ALLOCATION_PLAN_MODES = ["buy", "rebalance"] as const;
+export type AllocationPlanMode = (typeof ALLOCATION_PLAN_MODES)[number];
+
+// =============================================================================
+// ALERTS
+// =============================================================================
+
+/** Conditions an alert rule can watch for. */
+export const ALERT_RULE_TYPES = [
+  "price_cross",
+  "daily_move",
+  "holding_weight",
+  "net_worth_cross",
+  "debt_below",
+] as const;
+export type AlertRuleType = (typeof ALERT_RULE_TYPES)[number];
+
+/** Human-readable labels for each alert rule type. */
+export const ALERT_RULE_TYPE_LABELS: Record<AlertRuleType, string> = {
+  price_cross: "Price crosses",
+  daily_move: "Daily move",
+  holding_weight: "Holding weight exceeds",
+  net_worth_cross: "Net worth crosses",
+  debt_below: "Debt falls below",
+};
+
+/** Alert rule types that watch a single holding. */
+export const HOLDING_ALERT_RULE_TYPES: readonly AlertRuleType[] = [
+  "price_cross",
+  "daily_move",
+  "holding_weight",
+  "debt_below",
+];
+
+/** Which side of the threshold a crossing alert fires on. */
+export const ALERT_DIRECTIONS = ["above", "below"] as const;
+export type AlertDirection = (typeof ALERT_DIRECTIONS)[number];
+
+// =============================================================================
+// CATEGORISATION RULES
+// =============================================================================
+
+/** Transaction fields a categorisation rule can match its pattern against. */
+export const RULE_MATCH_FIELDS = ["description", "raw_text", "up_category_id"] as const;
+export type RuleMatchField = (typeof RULE_MATCH_FIELDS)[number];
+
+/** Human-readable labels for each rule match field. */
+export const RULE_MATCH_FIELD_LABELS: Record<RuleMatchField, string> = {
+  description: "Description",
+  raw_text: "Raw text",
+  up_category_id: "UP category",
+};
+
+/** How a rule's pattern is compared with the field. Case-insensitive. */
+export const RULE_MATCH_TYPES = ["contains", "exact", "regex"] as const;
+export type RuleMatchType = (typeof RULE_MATCH_TYPES)[number];
+
+/** Human-readable labels for each rule match type. */
+export const RULE_MATCH_TYPE_LABELS: Record<RuleMatchType, string> = {
+  contains: "Contains",
+  exact: "Is exactly",
+  regex: "Matches regex",
+};
+
+/** Days of transactions a rule preview is tested against. */
+export const RULE_PREVIEW_DAYS = 90;
+
+// =============================================================================
+// PAY CYCLE
+// =============================================================================
+
+/** How often pay arrives, which sets the length of each budget period. */
+export const PAY_CYCLES = ["weekly", "fortnightly", "monthly", "last_business_day"] as const;
+export type PayCycle = (typeof PAY_CYCLES)[number];
+
+/** Human-readable labels for each pay cycle. */
+export const PAY_CYCLE_LABELS: Record<PayCycle, string> = {
+  weekly: "Weekly",
+  fortnightly: "Fortnightly",
+  monthly: "Monthly (fixed day)",
+  last_business_day: "Monthly (last business day)",
+};
+
+/** Pay cycles counted from an anchor payday rather than a day of the month. */
+export const ANCHORED_PAY_CYCLES: readonly PayCycle[] = ["weekly", "fortnightly"];
+
+// =============================================================================
+// INCOME SOURCES
+// =============================================================================
+
+/** Kinds of income tracked separately in the budget summary. */
+export const INCOME_SOURCE_KINDS = ["salary", "side_income", "interest", "other"] as const;
+export type IncomeSourceKind = (typeof INCOME_SOURCE_KINDS)[number];
+
+/** Human-readable labels for each income source kind. */
+export const INCOME_SOURCE_KIND_LABELS: Record<IncomeSourceKind, string> = {
+  salary: "Salary",
+  side_income: "Side income",
+  interest: "Interest",
+  other: "Other",
+};
+
+/** How often a recurring deposit arrives. */
+export const INCOME_CADENCES = ["weekly", "fortnightly", "monthly"] as const;
+export type IncomeCadence = (typeof INCOME_CADENCES)[number];
+
+/** Human-readable labels for each income cadence. */
+export const INCOME_CADENCE_LABELS: Record<IncomeCadence, string> = {
+  weekly: "Weekly",
+  fortnightly: "Fortnightly",
+  monthly: "Monthly",
+};
+
 // =============================================================================
 // EXCHANGES
 // =============================================================================
@@ -99,6 +581,8 @@ export interface HoldingWithData extends Holding {
   quantity: number | null;
   /** Total cost basis in native currency (tradeable holdings only). */
   costBasis: number | null;
+  /** Total cost basis in AUD at each lot's purchase-date rate (tradeable holdings only). */
+  costBasisAud: number | null;
   /** Average cost per unit in native currency (tradeable holdings only). */
   avgCost: number | null;
   /** Most recent balance snapshot (snapshot holdings only). */
@@ -119,6 +603,27 @@ export function isSnapshotType(type: string): type is SnapshotType {
   return SNAPSHOT_TYPES.includes(type as SnapshotType);
 }
 
+/** Type guard: returns true if the holding type is a property or vehicle. */
+export function isRealAsset(type: string): type is RealAssetType {
+  return REAL_ASSET_TYPES.includes(type as RealAssetType);
+}
+
+/**
+ * Returns the price provider a tradeable holding uses: its own choice, or
+ * by default CoinGecko for crypto and Yahoo Finance for stocks and ETFs.
+ */
+export function resolvePriceProvider(holding: {
+  type: Holding["type"];
+  priceProvider: PriceProviderId | null;
+}): PriceProviderId {
+  return holding.priceProvider ?? (holding.type === "crypto" ? "coingecko" : "yahoo");
+}
+
+/** Type guard: returns true if the currency code is enabled. */
+export function isEnabledCurrency(currency: string): currency is Currency {
+  return ENABLED_CURRENCIES.includes(currency as Currency);
+}
+
 // =============================================================================
 // DATE UTILITIES
 // =============================================================================
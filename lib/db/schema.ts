@@ -6,10 +6,12 @@
  *
  * 1. **Transaction-based** (stock, etf, crypto): Value is derived from logged
  *    BUY/SELL events. Current value = quantity held x live market price.
- *    Cost basis uses FIFO (first in, first out).
+ *    Cost basis uses each holding's method (FIFO by default; also average
+ *    cost, HIFO, or specific lot).
  *
- * 2. **Snapshot-based** (super, cash, debt): Value is a point-in-time balance
- *    recorded during monthly check-ins. One snapshot per holding per month.
+ * 2. **Snapshot-based** (super, cash, debt, property, vehicle): Value is a
+ *    point-in-time balance or valuation recorded during monthly check-ins.
+ *    One snapshot per holding per month.
  *
  * Entity relationships:
  *   users  -->  holdings  -->  transactions   (tradeable assets)
@@ -23,12 +25,12 @@
  *     and contributions. Queries filter with `isNull(deletedAt)`.
  *   - Snapshot granularity is monthly. Dates are normalized to the first of the
  *     month (YYYY-MM-01) with a unique constraint on (holdingId, date).
- *   - All monetary values stored in native currency (AUD/NZD/USD). Conversion
+ *   - All monetary values stored in native currency (AUD, NZD, USD, ...). Conversion
  *     to the user's display currency happens at query/display time.
  *   - Clerk provides the user ID (text PK, not UUID) as the single source of
  *     identity and authentication.
  */
-import { pgTable, text, timestamp, uuid, decimal, date, boolean, pgEnum, unique, integer, bigint, varchar, index, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, timestamp, uuid, decimal, date, boolean, pgEnum, unique, integer, bigint, varchar, index, jsonb, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 
 // =============================================================================
@@ -42,14 +44,67 @@ export const holdingTypeEnum = pgEnum("holding_type", [
   "super",
   "cash",
   "debt",
+  "property",
+  "vehicle",
 ]);
 
-export const currencyEnum = pgEnum("currency", ["AUD", "NZD", "USD"]);
+// Every currency the app can store; which are offered is set by
+// NEXT_PUBLIC_ENABLED_CURRENCIES (see ENABLED_CURRENCIES in lib/constants.ts)
+export const currencyEnum = pgEnum("currency", [
+  "AUD",
+  "NZD",
+  "USD",
+  "GBP",
+  "EUR",
+  "JPY",
+  "CAD",
+  "CHF",
+  "SGD",
+  "HKD",
+]);
 
 export const transactionActionEnum = pgEnum("transaction_action", ["BUY", "SELL", "DIVIDEND", "SPLIT"]);
 
+export const corporateActionTypeEnum = pgEnum("corporate_action_type", [
+  "symbol_change",
+  "merger",
+  "spin_off",
+  "return_of_capital",
+]);
+
 export const exchangeEnum = pgEnum("exchange", ["ASX", "NZX", "NYSE", "NASDAQ"]);
 
+export const costBasisMethodEnum = pgEnum("cost_basis_method", [
+  "fifo",
+  "average",
+  "hifo",
+  "specific_lot",
+]);
+
+export const depreciationMethodEnum = pgEnum("depreciation_method", [
+  "diminishing_value",
+  "prime_cost",
+]);
+
+export const repaymentFrequencyEnum = pgEnum("repayment_frequency", [
+  "weekly",
+  "fortnightly",
+  "monthly",
+]);
+
+export const priceProviderEnum = pgEnum("price_provider", [
+  "yahoo",
+  "coingecko",
+  "manual",
+  "derived",
+]);
+
+export const allocationScopeEnum = pgEnum("allocation_scope", [
+  "asset_type",
+  "holding",
+  "bucket",
+]);
+
 export const saverTypeEnum = pgEnum("saver_type", [
   "spending",
   "savings_goal",
@@ -62,6 +117,47 @@ export const goalStatusEnum = pgEnum("goal_status", [
   "paused",
 ]);
 
+export const alertRuleTypeEnum = pgEnum("alert_rule_type", [
+  "price_cross",
+  "daily_move",
+  "holding_weight",
+  "net_worth_cross",
+  "debt_below",
+]);
+
+export const alertDirectionEnum = pgEnum("alert_direction", ["above", "below"]);
+
+export const ruleMatchFieldEnum = pgEnum("rule_match_field", [
+  "description",
+  "raw_text",
+  "up_category_id",
+]);
+
+export const ruleMatchTypeEnum = pgEnum("rule_match_type", ["contains", "exact", "regex"]);
+
+export const correctionSuggestionStatusEnum = pgEnum("correction_suggestion_status", [
+  "accepted",
+  "dismissed",
+]);
+
+export const payCycleEnum = pgEnum("pay_cycle", [
+  "weekly",
+  "fortnightly",
+  "monthly",
+  "last_business_day",
+]);
+
+export const incomeSourceKindEnum = pgEnum("income_source_kind", [
+  "salary",
+  "side_income",
+  "interest",
+  "other",
+]);
+
+export const incomeCadenceEnum = pgEnum("income_cadence", ["weekly", "fortnightly", "monthly"]);
+
+export const incomeSourceStatusEnum = pgEnum("income_source_status", ["confirmed", "dismissed"]);
+
 // =============================================================================
 // USERS
 // =============================================================================
@@ -85,13 +181,47 @@ export const users = pgTable("users", {
 // USER PREFERENCES
 // =============================================================================
 
+/**
+ * Assumed nominal annual return and volatility for one asset type, in %.
+ */
+export interface ProjectionAssumption {
+  expectedReturn: number;
+  volatility: number;
+}
+
+/**
+ * Inputs to the net worth projection and FIRE calculator. Money amounts are
+ * in AUD, in today's dollars.
+ */
+export interface ProjectionSettings {
+  /** Assumptions per asset type; missing types use the defaults */
+  assumptions: Partial<
+    Record<Exclude<(typeof holdingTypeEnum.enumValues)[number], "debt">, ProjectionAssumption>
+  >;
+  /** Monthly contribution, or null to use the average budget surplus */
+  monthlyContribution: number | null;
+  /** Annual inflation rate (%) */
+  inflationRate: number;
+  /** Annual spending in retirement */
+  annualSpending: number;
+  /** Safe withdrawal rate (%); the FI number is annualSpending / rate */
+  withdrawalRate: number;
+  currentAge: number;
+  /** Age by which the FI number should be reached */
+  targetAge: number;
+}
+
 /**
  * Per-user display and notification settings.
  *
  * One record per user (enforced by unique constraint on `userId`). Stores
  * the preferred display currency, whether to show native currency alongside
- * converted values, and email reminder configuration (enabled flag, day of
- * month, last sent timestamp).
+ * converted values, email reminder configuration (enabled flag, day of
+ * month, last sent timestamp), the index symbols the portfolio is
+ * compared against (`benchmarkSymbols`, Yahoo symbols such as "VAS.AX"; see
+ * `lib/calculations/benchmark.ts`), and the saved net worth projection
+ * inputs (`projectionSettings`, null until first saved; see
+ * `lib/calculations/projection.ts`).
  */
 export const userPreferences = pgTable("user_preferences", {
   id: uuid("id").defaultRandom().primaryKey(),
@@ -105,6 +235,8 @@ export const userPreferences = pgTable("user_preferences", {
   emailReminders: boolean("email_reminders").default(true).notNull(),
   reminderDay: integer("reminder_day").default(1).notNull(), // 1-28, day of month to send reminder
   lastReminderSent: timestamp("last_reminder_sent", { withTimezone: true }), // Tracks when last reminder was sent
+  benchmarkSymbols: jsonb("benchmark_symbols").$type<string[]>().default([]).notNull(),
+  projectionSettings: jsonb("projection_settings").$type<ProjectionSettings>(),
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
 });
@@ -117,14 +249,35 @@ export const userPreferences = pgTable("user_preferences", {
  * Central registry of all tracked assets and liabilities.
  *
  * Every item the user tracks -- stocks, ETFs, crypto, super funds, cash
- * accounts, and debt -- is a row in this table. The `type` enum determines
- * which tracking paradigm applies (transaction-based for stock/etf/crypto,
- * snapshot-based for super/cash/debt).
+ * accounts, debt, property and vehicles -- is a row in this table. The `type`
+ * enum determines which tracking paradigm applies (transaction-based for
+ * stock/etf/crypto, snapshot-based for everything else).
  *
- * - `symbol` is required for tradeable types and nullable for super/cash/debt.
+ * - `symbol` is required for tradeable types and nullable for snapshot types.
  * - `exchange` is free text (not an enum) for flexibility with custom tickers.
  * - `isDormant` flags super funds that no longer receive contributions
  *   (e.g. Kiwisaver), so the check-in modal can skip contribution fields.
+ * - `costBasisMethod` selects how SELLs are matched against purchase lots
+ *   (tradeable types only; see `lib/calculations/cost-basis.ts`).
+ * - `purchasePrice`, `purchaseCosts` and `purchaseDate` record what a property
+ *   or vehicle cost to acquire; `linkedDebtId` points at the debt holding
+ *   secured against it (e.g. a mortgage or car loan).
+ * - `depreciationMethod` / `depreciationRate` (% p.a.) estimate a vehicle's
+ *   value when no valuation has been entered (see
+ *   `lib/calculations/real-assets.ts`).
+ * - `interestRate` (% p.a.), `repaymentAmount` / `repaymentFrequency`,
+ *   `loanStartDate` and `loanTermMonths` describe a debt holding's loan. The
+ *   repayment may be left blank to derive it from the term. `offsetHoldingId`
+ *   points at a cash holding whose balance offsets the interest charged (see
+ *   `lib/calculations/debt.ts`).
+ * - `priceProvider` picks where a tradeable holding's price comes from (null
+ *   means Yahoo Finance for stocks/ETFs, CoinGecko for crypto). A "derived"
+ *   price is the Yahoo price of `priceSourceSymbol` times `priceRatio`; a
+ *   "manual" price is the latest dated price entered for the holding (see
+ *   `lib/services/price-providers.ts`).
+ * - `settlementHoldingId` links a tradeable holding to the cash holding its
+ *   trades settle through. BUYs and fees debit it, SELLs and dividends credit
+ *   it (see `lib/calculations/settlement.ts`).
  * - `deletedAt` supports soft delete; all queries must filter on `isNull(deletedAt)`.
  */
 export const holdings = pgTable("holdings", {
@@ -139,6 +292,23 @@ export const holdings = pgTable("holdings", {
   exchange: text("exchange"), // Nullable, free text for flexibility
   isDormant: boolean("is_dormant").default(false).notNull(), // For dormant super funds
   isActive: boolean("is_active").default(true).notNull(),
+  costBasisMethod: costBasisMethodEnum("cost_basis_method").default("fifo").notNull(),
+  purchasePrice: decimal("purchase_price", { precision: 18, scale: 2 }), // Property/vehicle only
+  purchaseCosts: decimal("purchase_costs", { precision: 18, scale: 2 }), // Stamp duty, legal, on-road costs
+  purchaseDate: date("purchase_date"),
+  linkedDebtId: uuid("linked_debt_id").references((): AnyPgColumn => holdings.id),
+  depreciationMethod: depreciationMethodEnum("depreciation_method"), // Vehicle only
+  depreciationRate: decimal("depreciation_rate", { precision: 5, scale: 2 }), // % p.a.
+  interestRate: decimal("interest_rate", { precision: 6, scale: 3 }), // Debt only, % p.a.
+  repaymentAmount: decimal("repayment_amount", { precision: 18, scale: 2 }), // Debt only, per repayment
+  repaymentFrequency: repaymentFrequencyEnum("repayment_frequency"), // Debt only
+  loanStartDate: date("loan_start_date"), // Debt only
+  loanTermMonths: integer("loan_term_months"), // Debt only
+  offsetHoldingId: uuid("offset_holding_id").references((): AnyPgColumn => holdings.id), // Debt only; cash holding offsetting interest
+  priceProvider: priceProviderEnum("price_provider"), // Tradeable only; null = default for type
+  priceSourceSymbol: text("price_source_symbol"), // Derived provider only
+  priceRatio: decimal("price_ratio", { precision: 18, scale: 8 }), // Derived provider only
+  settlementHoldingId: uuid("settlement_holding_id").references((): AnyPgColumn => holdings.id), // Tradeable only; cash holding trades settle to
   notes: text("notes"),
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
@@ -149,6 +319,16 @@ export const holdings = pgTable("holdings", {
 // TRANSACTIONS
 // =============================================================================
 
+/**
+ * A BUY lot chosen to close (part of) a SELL under specific-lot cost basis.
+ */
+export interface LotSelection {
+  /** ID of the BUY transaction that opened the lot */
+  lotTransactionId: string;
+  /** Units taken from that lot */
+  quantity: number;
+}
+
 /**
  * BUY, SELL, DIVIDEND, and SPLIT events for tradeable assets (stock, etf, crypto).
  *
@@ -158,6 +338,15 @@ export const holdings = pgTable("holdings", {
  *
  * Sell transactions are validated to ensure the sell quantity does not exceed
  * the current quantity held (calculated via FIFO from all prior BUY/SELL events).
+ *
+ * `lotSelections` is only set on SELLs of holdings using the `specific_lot`
+ * cost basis method. It records which BUY lots the sale closes and how many
+ * units come from each; any unselected remainder falls back to FIFO.
+ *
+ * DIVIDEND rows record the cash dividend as `quantity` (shares held) x
+ * `unitPrice` (dividend per share), plus optional franking and foreign
+ * withholding tax. When `isDrp` is set the dividend was reinvested, and the
+ * BUY it produced points back to it via `dividendTransactionId`.
  * Soft delete supported via `deletedAt`.
  */
 export const transactions = pgTable("transactions", {
@@ -172,6 +361,58 @@ export const transactions = pgTable("transactions", {
   fees: decimal("fees", { precision: 18, scale: 8 }).default("0").notNull(),
   currency: currencyEnum("currency").notNull(),
   notes: text("notes"),
+  lotSelections: jsonb("lot_selections").$type<LotSelection[]>(),
+  frankingPercent: decimal("franking_percent", { precision: 5, scale: 2 }), // DIVIDEND only, 0-100
+  frankingCredit: decimal("franking_credit", { precision: 18, scale: 8 }), // DIVIDEND only
+  withholdingTax: decimal("withholding_tax", { precision: 18, scale: 8 }), // DIVIDEND only, foreign tax withheld
+  isDrp: boolean("is_drp").default(false).notNull(), // DIVIDEND reinvested via a DRP
+  dividendTransactionId: uuid("dividend_transaction_id").references(
+    (): AnyPgColumn => transactions.id
+  ), // BUY created by a DRP dividend
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at", { withTimezone: true }), // Soft delete
+});
+
+// =============================================================================
+// CORPORATE ACTIONS
+// =============================================================================
+
+/**
+ * Corporate actions that change a tradeable holding's units or cost base
+ * beyond a SPLIT. Each action is recorded once against the holding it
+ * happens to (`holdingId`) and is replayed by the lot engine in
+ * `lib/calculations/cost-basis.ts` for both holdings it touches.
+ *
+ * - symbol_change: the holding's ticker changed from `oldSymbol` to
+ *   `newSymbol`. Units and lots carry on unchanged.
+ * - merger: every unit is converted into `ratio` units of `targetHoldingId`,
+ *   plus `cashPerUnit` cash if any. Lots move across with their acquisition
+ *   dates and `costBasePercent` of their cost base; the rest is disposed of
+ *   against the cash.
+ * - spin_off: `ratio` units of `targetHoldingId` are received per unit held.
+ *   `costBasePercent` of each lot's cost base moves to the new lots, which
+ *   keep the original acquisition dates.
+ * - return_of_capital: `cashPerUnit` paid per unit held reduces each lot's
+ *   cost base; units are unchanged.
+ *
+ * Actions take effect after the day's transactions. Soft delete supported
+ * via `deletedAt`.
+ */
+export const corporateActions = pgTable("corporate_actions", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  holdingId: uuid("holding_id")
+    .references(() => holdings.id)
+    .notNull(),
+  targetHoldingId: uuid("target_holding_id").references(() => holdings.id), // merger and spin_off only
+  type: corporateActionTypeEnum("type").notNull(),
+  date: date("date").notNull(),
+  ratio: decimal("ratio", { precision: 18, scale: 8 }), // Target units per source unit
+  cashPerUnit: decimal("cash_per_unit", { precision: 18, scale: 8 }), // merger and return_of_capital
+  costBasePercent: decimal("cost_base_percent", { precision: 5, scale: 2 }), // merger and spin_off, 0-100
+  oldSymbol: text("old_symbol"), // symbol_change only
+  newSymbol: text("new_symbol"), // symbol_change only
+  notes: text("notes"),
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
   deletedAt: timestamp("deleted_at", { withTimezone: true }), // Soft delete
@@ -220,13 +461,25 @@ export const snapshots = pgTable(
 // =============================================================================
 
 /**
- * Super-specific employer and employee contributions.
+ * Super-specific contributions and deductions.
  *
  * Tracks the breakdown of how a super fund's balance changes each month:
  *   - `employerContrib`: Superannuation Guarantee payments from employer
- *   - `employeeContrib`: Salary sacrifice + voluntary personal contributions
+ *   - `employeeContrib`: Salary sacrifice + personal contributions claimed
+ *     as a tax deduction
+ *   - `nonConcessionalContrib`: After-tax personal contributions not claimed
+ *     as a deduction
+ *   - `adminFees`, `investmentFees`, `insurancePremiums`, `contributionsTax`:
+ *     Optional amounts the fund deducted from the balance
  *   - **Investment returns** are derived (not stored):
- *       new_balance - old_balance - employer_contrib - employee_contrib
+ *       net = new_balance - old_balance - employer_contrib - employee_contrib
+ *         - non_concessional_contrib
+ *       gross = net + admin_fees + investment_fees + insurance_premiums
+ *         + contributions_tax
+ *
+ * Employer and employee amounts count toward the concessional cap; the
+ * non-concessional amount counts toward the non-concessional cap (see
+ * `lib/calculations/super-caps.ts`).
  *
  * Only linked to holdings of type "super". Dormant super funds skip
  * contribution tracking. A unique constraint on (holdingId, date) enforces
@@ -242,6 +495,17 @@ export const contributions = pgTable(
     date: date("date").notNull(),
     employerContrib: decimal("employer_contrib", { precision: 18, scale: 2 }).default("0").notNull(),
     employeeContrib: decimal("employee_contrib", { precision: 18, scale: 2 }).default("0").notNull(),
+    nonConcessionalContrib: decimal("non_concessional_contrib", { precision: 18, scale: 2 })
+      .default("0")
+      .notNull(),
+    adminFees: decimal("admin_fees", { precision: 18, scale: 2 }).default("0").notNull(),
+    investmentFees: decimal("investment_fees", { precision: 18, scale: 2 }).default("0").notNull(),
+    insurancePremiums: decimal("insurance_premiums", { precision: 18, scale: 2 })
+      .default("0")
+      .notNull(),
+    contributionsTax: decimal("contributions_tax", { precision: 18, scale: 2 })
+      .default("0")
+      .notNull(),
     notes: text("notes"),
     createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
     updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
@@ -253,11 +517,102 @@ export const contributions = pgTable(
   })
 );
 
+// =============================================================================
+// ALLOCATION TARGETS
+// =============================================================================
+
+/**
+ * Target portfolio weights, compared against the current asset breakdown to
+ * show drift and plan contributions (see `lib/calculations/allocation.ts`).
+ *
+ * Each row targets one group within a `scope`:
+ *   - `asset_type`: every holding of `assetType`
+ *   - `holding`: the single holding `holdingId`
+ *   - `bucket`: a named custom group of `bucketHoldingIds` (e.g. "Australian
+ *     equities" spanning several ETFs and stocks)
+ *
+ * `targetPercent` is a share of total assets (0-100). Targets within a scope
+ * sum to at most 100; anything left over is the target for untargeted groups.
+ * A scope's targets are replaced as a set, so rows are hard-deleted.
+ */
+export const allocationTargets = pgTable(
+  "allocation_targets",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: text("user_id")
+      .references(() => users.id)
+      .notNull(),
+    scope: allocationScopeEnum("scope").notNull(),
+    assetType: holdingTypeEnum("asset_type"), // asset_type scope only
+    holdingId: uuid("holding_id").references(() => holdings.id), // holding scope only
+    bucketName: text("bucket_name"), // bucket scope only
+    bucketHoldingIds: jsonb("bucket_holding_ids").$type<string[]>(), // bucket scope only
+    targetPercent: decimal("target_percent", { precision: 5, scale: 2 }).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    userScopeIdx: index("allocation_targets_user_scope_idx").on(table.userId, table.scope),
+  })
+);
+
+// =============================================================================
+// ALERT RULES
+// =============================================================================
+
+/**
+ * User-defined alerts, evaluated daily by the evaluate-alerts cron job and
+ * delivered by email (see `lib/services/alerts.ts`).
+ *
+ * `threshold` depends on `type`:
+ *   - `price_cross`: price of `holdingId` in its quoted currency, fired when
+ *     it moves `direction` the threshold
+ *   - `daily_move`: percentage change on the day; `direction` null means a
+ *     move either way
+ *   - `holding_weight`: percentage of total assets held in `holdingId`
+ *   - `net_worth_cross`: net worth in AUD, fired when it moves `direction`
+ *     the threshold
+ *   - `debt_below`: balance of debt holding `holdingId` in its own currency
+ *
+ * `conditionMet` records whether the condition held at the last evaluation,
+ * so crossing rules fire once when the condition becomes true rather than on
+ * every run while it stays true. `daily_move` rules fire at most once a day.
+ * Soft delete supported via `deletedAt`.
+ */
+export const alertRules = pgTable(
+  "alert_rules",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: text("user_id")
+      .references(() => users.id)
+      .notNull(),
+    type: alertRuleTypeEnum("type").notNull(),
+    holdingId: uuid("holding_id").references(() => holdings.id), // Null for net_worth_cross
+    direction: alertDirectionEnum("direction"), // Crossing rules and optionally daily_move
+    threshold: decimal("threshold", { precision: 18, scale: 4 }).notNull(),
+    isActive: boolean("is_active").default(true).notNull(),
+    conditionMet: boolean("condition_met").default(false).notNull(),
+    lastTriggeredAt: timestamp("last_triggered_at", { withTimezone: true }),
+    lastTriggeredValue: decimal("last_triggered_value", { precision: 18, scale: 4 }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+    deletedAt: timestamp("deleted_at", { withTimezone: true }), // Soft delete
+  },
+  (table) => ({
+    userIdx: index("alert_rules_user_idx").on(table.userId),
+  })
+);
+
 // =============================================================================
 // PRICE CACHE
 // =============================================================================
 
-export const priceCacheSourceEnum = pgEnum("price_cache_source", ["yahoo", "coingecko"]);
+export const priceCacheSourceEnum = pgEnum("price_cache_source", [
+  "yahoo",
+  "coingecko",
+  "manual",
+  "derived",
+]);
 
 export const importTypeEnum = pgEnum("import_type", ["transactions", "snapshots"]);
 
@@ -269,6 +624,11 @@ export const importTypeEnum = pgEnum("import_type", ["transactions", "snapshots"
  * The `fetchedAt` timestamp is used to determine staleness -- prices older
  * than 15 minutes are refreshed on the next manual price refresh.
  *
+ * Manual and derived prices belong to a single holding, so they are keyed
+ * by a holding-scoped symbol ("manual:{holdingId}", "derived:{holdingId}").
+ * For a manual price `fetchedAt` is the date the price was entered for, so
+ * its staleness measures the age of the valuation.
+ *
  * Also stores daily change data (`changePercent`, `changeAbsolute`) for
  * display in the dashboard price badges.
  */
@@ -283,6 +643,35 @@ export const priceCache = pgTable("price_cache", {
   source: priceCacheSourceEnum("source").notNull(),
 });
 
+/**
+ * Daily closing prices for tradeable assets.
+ *
+ * One row per symbol per day (unique constraint on (symbol, date)), keyed by
+ * the same normalised symbol as `price_cache`. A symbol's history is
+ * backfilled from Yahoo Finance or CoinGecko the first time its price is
+ * fetched, then topped up on every price fetch -- today's row holds the latest
+ * price until the day ends. Closes are stored as traded on the day (not
+ * adjusted for later splits) so they multiply with the quantity held then.
+ * A manually priced holding's entered prices are its history (source
+ * "manual") and are never backfilled or topped up.
+ */
+export const priceHistory = pgTable(
+  "price_history",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    symbol: text("symbol").notNull(),
+    date: date("date").notNull(),
+    close: decimal("close", { precision: 20, scale: 8 }).notNull(),
+    currency: currencyEnum("currency").notNull(),
+    source: priceCacheSourceEnum("source").notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    // Unique constraint: one close per symbol per day
+    uniqueSymbolDate: unique().on(table.symbol, table.date),
+  })
+);
+
 // =============================================================================
 // EXCHANGE RATES
 // =============================================================================
@@ -310,6 +699,36 @@ export const exchangeRates = pgTable(
   })
 );
 
+export const exchangeRateSourceEnum = pgEnum("exchange_rate_source", [
+  "exchangerate-api",
+  "frankfurter",
+]);
+
+/**
+ * Daily foreign exchange rates for valuing the past.
+ *
+ * One rate per currency pair per day. Today's row is captured from the live
+ * rate whenever it is refreshed (and by the daily cron); earlier days are
+ * backfilled from Frankfurter's ECB reference rates. Weekends and holidays
+ * have no row -- lookups carry the previous day's rate forward.
+ */
+export const exchangeRateHistory = pgTable(
+  "exchange_rate_history",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    fromCurrency: currencyEnum("from_currency").notNull(),
+    toCurrency: currencyEnum("to_currency").notNull(),
+    date: date("date").notNull(),
+    rate: decimal("rate", { precision: 18, scale: 8 }).notNull(),
+    source: exchangeRateSourceEnum("source").notNull(),
+    fetchedAt: timestamp("fetched_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    // Unique constraint: one rate per currency pair per day
+    uniqueCurrencyPairDate: unique().on(table.fromCurrency, table.toCurrency, table.date),
+  })
+);
+
 // =============================================================================
 // IMPORT HISTORY
 // =============================================================================
@@ -337,6 +756,59 @@ export const importHistory = pgTable("import_history", {
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
 });
 
+// =============================================================================
+// IMPORT PROFILES
+// =============================================================================
+
+/**
+ * Source CSV headers for each transaction import field. `fees` lists every
+ * column that makes up the fees (e.g. brokerage and GST), which are summed.
+ */
+export interface ImportColumnMapping {
+  date: string;
+  symbol: string;
+  action: string;
+  quantity: string;
+  unitPrice: string;
+  fees: string[];
+  currency: string | null;
+  exchange: string | null;
+  notes: string | null;
+}
+
+/**
+ * How a broker's CSV export maps into transaction import rows (see
+ * `lib/import/profiles.ts`).
+ */
+export interface ImportProfileMapping {
+  columns: ImportColumnMapping;
+  /** Date format used by the date column, e.g. "DD/MM/YYYY" */
+  dateFormat: string;
+  /** Broker action labels (matched case-insensitively) and the action each means */
+  actionLabels: Record<string, (typeof transactionActionEnum.enumValues)[number]>;
+  /** Currency for rows without a currency column */
+  defaultCurrency: string | null;
+  /** Exchange for rows without an exchange column */
+  defaultExchange: string | null;
+}
+
+/**
+ * User-defined column mappings for transaction CSV imports, saved for reuse.
+ * Built-in broker profiles live in code; these sit alongside them.
+ * Soft delete supported via `deletedAt`.
+ */
+export const importProfiles = pgTable("import_profiles", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id")
+    .references(() => users.id)
+    .notNull(),
+  name: text("name").notNull(),
+  mapping: jsonb("mapping").$type<ImportProfileMapping>().notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at", { withTimezone: true }), // Soft delete
+});
+
 // =============================================================================
 // UP BANK INTEGRATION
 // =============================================================================
@@ -395,6 +867,7 @@ export const upTransactions = pgTable(
     transactionDate: date("transaction_date").notNull(),
     settledAt: timestamp("settled_at", { withTimezone: true }),
     isTransfer: boolean("is_transfer").default(false).notNull(),
+    upAccountId: varchar("up_account_id", { length: 255 }), // UP account the transaction belongs to
     // Three-tier classification fields (added in BI-A-004)
     saverKey: varchar("saver_key", { length: 50 }),
     categoryKey: varchar("category_key", { length: 50 }),
@@ -521,14 +994,26 @@ export const budgetAllocations = pgTable(
  * pay dates. Since Mjolnir is a single-user app, this table will typically
  * contain one row.
  *
- * - `paydayDay` is the day of month (1-28) when pay arrives.
- * - `adjustForWeekends` shifts Saturday paydays to Friday.
+ * - `cycle` is how often pay arrives: weekly, fortnightly, monthly on
+ *   `paydayDay`, or on the last business day of the month.
+ * - `paydayDay` is the day of month (1-28) when pay arrives (monthly cycle).
+ * - `anchorDate` is any past payday, required for weekly/fortnightly cycles.
+ * - `adjustForWeekends` moves weekend paydays back to the Friday before.
+ * - `adjustForHolidays` moves public-holiday paydays back to the business day
+ *   before. `holidays` adds local dates to the national holiday list.
+ * - `expectedIncomeCents` is the income new budget periods expect; null uses
+ *   the built-in default.
  * - `incomeSourcePattern` is an optional regex/keyword to match income transactions.
  */
 export const paydayConfig = pgTable("payday_config", {
   id: uuid("id").defaultRandom().primaryKey(),
+  cycle: payCycleEnum("cycle").default("monthly").notNull(),
   paydayDay: integer("payday_day").notNull(), // 1-28
+  anchorDate: date("anchor_date"),
   adjustForWeekends: boolean("adjust_for_weekends").default(true).notNull(),
+  adjustForHolidays: boolean("adjust_for_holidays").default(true).notNull(),
+  holidays: jsonb("holidays").$type<string[]>().default([]).notNull(),
+  expectedIncomeCents: bigint("expected_income_cents", { mode: "number" }),
   incomeSourcePattern: varchar("income_source_pattern", { length: 255 }),
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
@@ -754,6 +1239,7 @@ export const holdingsRelations = relations(holdings, ({ one, many }) => ({
     references: [users.id],
   }),
   transactions: many(transactions),
+  corporateActions: many(corporateActions),
   snapshots: many(snapshots),
   contributions: many(contributions),
 }));
@@ -765,6 +1251,24 @@ export const transactionsRelations = relations(transactions, ({ one }) => ({
   }),
 }));
 
+export const corporateActionsRelations = relations(corporateActions, ({ one }) => ({
+  holding: one(holdings, {
+    fields: [corporateActions.holdingId],
+    references: [holdings.id],
+  }),
+}));
+
+export const alertRulesRelations = relations(alertRules, ({ one }) => ({
+  user: one(users, {
+    fields: [alertRules.userId],
+    references: [users.id],
+  }),
+  holding: one(holdings, {
+    fields: [alertRules.holdingId],
+    references: [holdings.id],
+  }),
+}));
+
 export const snapshotsRelations = relations(snapshots, ({ one }) => ({
   holding: one(holdings, {
     fields: [snapshots.holdingId],
@@ -844,21 +1348,38 @@ export type NewHolding = typeof holdings.$inferInsert;
 export type Transaction = typeof transactions.$inferSelect;
 export type NewTransaction = typeof transactions.$inferInsert;
 
+export type CorporateAction = typeof corporateActions.$inferSelect;
+export type NewCorporateAction = typeof corporateActions.$inferInsert;
+
 export type Snapshot = typeof snapshots.$inferSelect;
 export type NewSnapshot = typeof snapshots.$inferInsert;
 
 export type Contribution = typeof contributions.$inferSelect;
 export type NewContribution = typeof contributions.$inferInsert;
 
+export type AllocationTarget = typeof allocationTargets.$inferSelect;
+export type NewAllocationTarget = typeof allocationTargets.$inferInsert;
+
+export type AlertRule = typeof alertRules.$inferSelect;
+export type NewAlertRule = typeof alertRules.$inferInsert;
+
 export type PriceCache = typeof priceCache.$inferSelect;
 export type NewPriceCache = typeof priceCache.$inferInsert;
 
+export type PriceHistory = typeof priceHistory.$inferSelect;
+export type NewPriceHistory = typeof priceHistory.$inferInsert;
+
 export type ExchangeRate = typeof exchangeRates.$inferSelect;
 export type NewExchangeRate = typeof exchangeRates.$inferInsert;
+export type ExchangeRateHistory = typeof exchangeRateHistory.$inferSelect;
+export type NewExchangeRateHistory = typeof exchangeRateHistory.$inferInsert;
 
 export type ImportHistory = typeof importHistory.$inferSelect;
 export type NewImportHistory = typeof importHistory.$inferInsert;
 
+export type ImportProfile = typeof importProfiles.$inferSelect;
+export type NewImportProfile = typeof importProfiles.$inferInsert;
+
 export type UpAccount = typeof upAccounts.$inferSelect;
 export type NewUpAccount = typeof upAccounts.$inferInsert;
 
@@ -938,3 +1459,182 @@ export const classificationCorrectionsRelations = relations(
 
 export type ClassificationCorrection = typeof classificationCorrections.$inferSelect;
 export type NewClassificationCorrection = typeof classificationCorrections.$inferInsert;
+
+// =============================================================================
+// CATEGORISATION RULES
+// =============================================================================
+
+/**
+ * Rules that classify incoming UP transactions, applied server-side when
+ * transactions are synced.
+ *
+ * Active rules are checked in ascending `priority`. A rule matches when its
+ * `pattern` matches `matchField` (case-insensitive, per `matchType`) and every
+ * condition that is set holds:
+ *   - `minAmountCents` / `maxAmountCents`: signed amount range, inclusive
+ *     (debits are negative, so `minAmountCents = 1` means credits only)
+ *   - `upAccountId`: the transaction's UP account
+ *   - `isTransfer`: whether the transaction is a transfer between accounts
+ *
+ * The first matching rule with a target decides the Mjolnir category and the
+ * saver/category pair independently; tags from every matching rule are combined.
+ */
+export const categorisationRules = pgTable(
+  "categorisation_rules",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    name: varchar("name", { length: 100 }).notNull(),
+    priority: integer("priority").notNull(),
+    matchField: ruleMatchFieldEnum("match_field").notNull(),
+    matchType: ruleMatchTypeEnum("match_type").notNull(),
+    pattern: varchar("pattern", { length: 255 }).notNull(),
+    minAmountCents: bigint("min_amount_cents", { mode: "number" }),
+    maxAmountCents: bigint("max_amount_cents", { mode: "number" }),
+    upAccountId: varchar("up_account_id", { length: 255 }),
+    isTransfer: boolean("is_transfer"), // Null matches either
+    mjolnirCategoryId: varchar("mjolnir_category_id", { length: 255 }),
+    saverKey: varchar("saver_key", { length: 50 }),
+    categoryKey: varchar("category_key", { length: 50 }),
+    tags: jsonb("tags").$type<string[]>().default([]).notNull(),
+    isActive: boolean("is_active").default(true).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    priorityIdx: index("categorisation_rules_priority_idx").on(table.priority),
+  })
+);
+
+export type CategorisationRule = typeof categorisationRules.$inferSelect;
+export type NewCategorisationRule = typeof categorisationRules.$inferInsert;
+
+// =============================================================================
+// RECATEGORISATION BATCHES
+// =============================================================================
+
+/**
+ * One run of the categorisation rules over historical UP transactions.
+ *
+ * Each batch records the date range it covered and, in
+ * `recategorisationChanges`, the classification every changed transaction
+ * had before and after, so the whole run can be undone. `undoneAt` is set
+ * once it has been.
+ */
+export const recategorisationBatches = pgTable("recategorisation_batches", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date").notNull(),
+  changedCount: integer("changed_count").notNull(),
+  undoneAt: timestamp("undone_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+});
+
+/**
+ * Classification of a transaction before and after a recategorisation batch.
+ * Cascade-deletes with the batch.
+ */
+export const recategorisationChanges = pgTable(
+  "recategorisation_changes",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    batchId: uuid("batch_id")
+      .references(() => recategorisationBatches.id, { onDelete: "cascade" })
+      .notNull(),
+    transactionId: uuid("transaction_id")
+      .references(() => upTransactions.id)
+      .notNull(),
+    previousMjolnirCategoryId: varchar("previous_mjolnir_category_id", { length: 255 }),
+    previousSaverKey: varchar("previous_saver_key", { length: 50 }),
+    previousCategoryKey: varchar("previous_category_key", { length: 50 }),
+    previousTags: jsonb("previous_tags").$type<string[]>().default([]).notNull(),
+    newMjolnirCategoryId: varchar("new_mjolnir_category_id", { length: 255 }),
+    newSaverKey: varchar("new_saver_key", { length: 50 }),
+    newCategoryKey: varchar("new_category_key", { length: 50 }),
+    newTags: jsonb("new_tags").$type<string[]>().default([]).notNull(),
+  },
+  (table) => ({
+    batchIdx: index("recategorisation_changes_batch_idx").on(table.batchId),
+  })
+);
+
+export const recategorisationChangesRelations = relations(
+  recategorisationChanges,
+  ({ one }) => ({
+    batch: one(recategorisationBatches, {
+      fields: [recategorisationChanges.batchId],
+      references: [recategorisationBatches.id],
+    }),
+    transaction: one(upTransactions, {
+      fields: [recategorisationChanges.transactionId],
+      references: [upTransactions.id],
+    }),
+  })
+);
+
+export type RecategorisationBatch = typeof recategorisationBatches.$inferSelect;
+export type RecategorisationChange = typeof recategorisationChanges.$inferSelect;
+export type NewRecategorisationChange = typeof recategorisationChanges.$inferInsert;
+
+// =============================================================================
+// CORRECTION SUGGESTION DECISIONS
+// =============================================================================
+
+/**
+ * Correction suggestions the user has accepted as a rule or dismissed, so
+ * they are not suggested again. Keyed like the suggestion: the normalised
+ * merchant description and the saver/category it was corrected to.
+ */
+export const correctionSuggestionDecisions = pgTable(
+  "correction_suggestion_decisions",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    merchantPattern: varchar("merchant_pattern", { length: 512 }).notNull(),
+    saverKey: varchar("saver_key", { length: 50 }).notNull(),
+    categoryKey: varchar("category_key", { length: 50 }).notNull(),
+    status: correctionSuggestionStatusEnum("status").notNull(),
+    ruleId: uuid("rule_id").references(() => categorisationRules.id, { onDelete: "set null" }), // Rule created on accept
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    uniqueSuggestion: unique().on(table.merchantPattern, table.saverKey, table.categoryKey),
+  })
+);
+
+export type CorrectionSuggestionDecision = typeof correctionSuggestionDecisions.$inferSelect;
+export type NewCorrectionSuggestionDecision = typeof correctionSuggestionDecisions.$inferInsert;
+
+// =============================================================================
+// INCOME SOURCES
+// =============================================================================
+
+/**
+ * Recurring deposits the user has confirmed as income (or dismissed), learned
+ * from transaction history. Keyed by the normalised payer description.
+ *
+ * Confirmed sources mark matching credits as income and are tracked
+ * separately in the budget summary. Dismissed rows keep a payer from being
+ * suggested again.
+ *
+ * - `cadence` and `typicalAmountCents` are what detection saw when the
+ *   source was suggested, for display only.
+ */
+export const incomeSources = pgTable(
+  "income_sources",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    payerPattern: varchar("payer_pattern", { length: 512 }).notNull(),
+    name: varchar("name", { length: 100 }).notNull(),
+    kind: incomeSourceKindEnum("kind").default("other").notNull(),
+    status: incomeSourceStatusEnum("status").notNull(),
+    cadence: incomeCadenceEnum("cadence"),
+    typicalAmountCents: bigint("typical_amount_cents", { mode: "number" }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    uniquePayer: unique().on(table.payerPattern),
+  })
+);
+
+export type IncomeSource = typeof incomeSources.$inferSelect;
+export type NewIncomeSource = typeof incomeSources.$inferInsert;
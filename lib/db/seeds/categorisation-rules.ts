@@ -0,0 +1,100 @@
+import { db } from "@/lib/db";
+import { categorisationRules, type NewCategorisationRule } from "@/lib/db/schema";
+import {
+  UP_TO_MJOLNIR_CATEGORY_MAP,
+  mapCategoryToSaver,
+} from "@/lib/budget/categorisation";
+
+// =============================================================================
+// RULE DEFINITIONS
+// =============================================================================
+
+/**
+ * Income and merchant rules carried over from the n8n rules engine, with the
+ * saver/category and tags the admin backfill used for the same merchants.
+ */
+const merchantRules: NewCategorisationRule[] = [
+  {
+    name: "Salary",
+    priority: 10,
+    matchField: "description",
+    matchType: "contains",
+    pattern: "THE WORKWEARGRO",
+    minAmountCents: 1, // Credits only
+    mjolnirCategoryId: "income",
+    tags: ["salary"],
+  },
+  {
+    name: "Rent",
+    priority: 20,
+    matchField: "description",
+    matchType: "contains",
+    pattern: "REAL ESTATE",
+    mjolnirCategoryId: "bills-fixed",
+    saverKey: "rent",
+    categoryKey: "rent",
+    tags: ["rent"],
+  },
+  {
+    name: "Origin Energy",
+    priority: 30,
+    matchField: "description",
+    matchType: "contains",
+    pattern: "ORIGIN ENERGY",
+    mjolnirCategoryId: "bills-fixed",
+    saverKey: "essentials",
+    categoryKey: "electricity",
+    tags: ["origin-energy", "electricity"],
+  },
+  {
+    name: "Telstra",
+    priority: 40,
+    matchField: "description",
+    matchType: "contains",
+    pattern: "TELSTRA",
+    mjolnirCategoryId: "bills-fixed",
+    saverKey: "essentials",
+    categoryKey: "phone",
+    tags: ["telstra", "phone"],
+  },
+];
+
+/**
+ * One rule per UP category with a Mjolnir category, after the merchant rules.
+ */
+function upCategoryRules(): NewCategorisationRule[] {
+  return Object.entries(UP_TO_MJOLNIR_CATEGORY_MAP)
+    .filter(([, mjolnirCategoryId]) => mjolnirCategoryId !== "uncategorised")
+    .map(([upCategoryId, mjolnirCategoryId], index) => {
+      const saver = mapCategoryToSaver(mjolnirCategoryId);
+      return {
+        name: `UP: ${upCategoryId}`,
+        priority: 100 + index * 10,
+        matchField: "up_category_id" as const,
+        matchType: "exact" as const,
+        pattern: upCategoryId,
+        mjolnirCategoryId,
+        saverKey: saver?.saverKey ?? null,
+        categoryKey: saver?.categoryKey ?? null,
+      };
+    });
+}
+
+// =============================================================================
+// SEED FUNCTION
+// =============================================================================
+
+/**
+ * Seeds categorisation_rules with the default rules. Only runs while the
+ * table is empty, so rules the user has edited or deleted are left alone.
+ */
+export async function seedCategorisationRules() {
+  const existing = await db
+    .select({ id: categorisationRules.id })
+    .from(categorisationRules)
+    .limit(1);
+
+  if (existing.length > 0) return;
+
+  await db.insert(categorisationRules).values([...merchantRules, ...upCategoryRules()]);
+}
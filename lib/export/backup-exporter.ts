@@ -56,6 +56,7 @@ function mapHoldingForExport(holding: Holding) {
     currency: holding.currency,
     exchange: holding.exchange,
     is_dormant: holding.isDormant,
+    cost_basis_method: holding.costBasisMethod,
     created_at: holding.createdAt,
   };
 }
@@ -73,6 +74,10 @@ function mapTransactionForExport(transaction: TransactionWithSymbol) {
     fees: transaction.fees,
     currency: transaction.currency,
     notes: transaction.notes,
+    franking_percent: transaction.frankingPercent,
+    franking_credit: transaction.frankingCredit,
+    withholding_tax: transaction.withholdingTax,
+    is_drp: transaction.isDrp,
   };
 }
 
@@ -99,6 +104,11 @@ function mapContributionForExport(contribution: ContributionWithHoldingName) {
     holding_name: contribution.holdingName,
     employer_contrib: contribution.employerContrib,
     employee_contrib: contribution.employeeContrib,
+    non_concessional_contrib: contribution.nonConcessionalContrib,
+    admin_fees: contribution.adminFees,
+    investment_fees: contribution.investmentFees,
+    insurance_premiums: contribution.insurancePremiums,
+    contributions_tax: contribution.contributionsTax,
     notes: contribution.notes,
   };
 }
@@ -26,6 +26,10 @@ const CSV_COLUMNS = [
   { header: "fees", key: "fees" },
   { header: "currency", key: "currency" },
   { header: "notes", key: "notes" },
+  { header: "franking_percent", key: "frankingPercent" },
+  { header: "franking_credit", key: "frankingCredit" },
+  { header: "withholding_tax", key: "withholdingTax" },
+  { header: "is_drp", key: "isDrp" },
 ] as const;
 
 /**
@@ -94,6 +98,10 @@ export function exportTransactionsJSON(transactions: TransactionWithSymbol[]): s
     fees: transaction.fees,
     currency: transaction.currency,
     notes: transaction.notes,
+    franking_percent: transaction.frankingPercent,
+    franking_credit: transaction.frankingCredit,
+    withholding_tax: transaction.withholdingTax,
+    is_drp: transaction.isDrp,
   }));
 
   return JSON.stringify(exportData, null, 2);
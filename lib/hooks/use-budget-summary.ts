@@ -2,6 +2,7 @@
 
 import { useQuery } from "@tanstack/react-query";
 import { queryKeys } from "@/lib/query-keys";
+import type { IncomeSourceKind } from "@/lib/constants";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -42,6 +43,14 @@ interface GoalSummary {
   icon: string | null;
 }
 
+interface IncomeSourceSummary {
+  sourceId: string | null;
+  name: string;
+  kind: IncomeSourceKind;
+  actualCents: number;
+  depositCount: number;
+}
+
 export interface BudgetSummary {
   periodId: string;
   period: {
@@ -55,6 +64,7 @@ export interface BudgetSummary {
   income: {
     expectedCents: number;
     actualCents: number;
+    sources: IncomeSourceSummary[];
   };
   spendingSavers: SaverSummary[];
   totalSpentCents: number;
@@ -62,7 +72,7 @@ export interface BudgetSummary {
   savingsGoals: GoalSummary[];
 }
 
-export type { SaverSummary, CategorySummary, GoalSummary, PaceStatus };
+export type { SaverSummary, CategorySummary, GoalSummary, IncomeSourceSummary, PaceStatus };
 
 // ---------------------------------------------------------------------------
 // Fetch helpers
@@ -19,13 +19,19 @@ export interface HoldingValue {
 }
 
 export interface AssetTypeBreakdown {
-  type: "stock" | "etf" | "crypto" | "super" | "cash";
+  type: "stock" | "etf" | "crypto" | "super" | "cash" | "property" | "vehicle";
   totalValue: number;
   count: number;
   holdings: HoldingValue[];
 }
 
-type StaleReason = "price_expired" | "no_price" | "snapshot_old" | "no_snapshot";
+type StaleReason =
+  | "price_expired"
+  | "no_price"
+  | "manual_price_old"
+  | "no_manual_price"
+  | "snapshot_old"
+  | "no_snapshot";
 
 export interface StaleHolding {
   holdingId: string;
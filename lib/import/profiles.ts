@@ -0,0 +1,403 @@
+/**
+ * Transaction Import Profiles
+ * Maps broker CSV exports into the columns the transaction validator expects.
+ * - Built-in profiles for CommSec, Stake, SelfWealth and Sharesight
+ * - User-defined profiles are stored in `import_profiles` with the same mapping
+ * - Mapping is pure, so the import page can preview the result before importing
+ */
+
+import { type CSVRow } from './csv-parser';
+import type { ImportColumnMapping, ImportProfileMapping } from '@/lib/db/schema';
+
+export interface TransactionImportProfile {
+  /** Built-in key (e.g. "commsec") or the saved profile's UUID */
+  id: string;
+  name: string;
+  builtIn: boolean;
+  mapping: ImportProfileMapping;
+}
+
+/** Date formats a profile's date column can use. */
+export const IMPORT_DATE_FORMATS = [
+  'YYYY-MM-DD',
+  'DD/MM/YYYY',
+  'MM/DD/YYYY',
+  'DD-MM-YYYY',
+  'DD.MM.YYYY',
+] as const;
+export type ImportDateFormat = (typeof IMPORT_DATE_FORMATS)[number];
+
+/** Transaction import fields, in the order the validator's CSV template uses. */
+export const IMPORT_FIELDS = [
+  'date',
+  'symbol',
+  'action',
+  'quantity',
+  'unit_price',
+  'fees',
+  'currency',
+  'exchange',
+  'notes',
+] as const;
+
+/** Mapping fields that must name a column. */
+export const REQUIRED_IMPORT_COLUMNS: ReadonlyArray<keyof ImportColumnMapping> = [
+  'date',
+  'symbol',
+  'action',
+  'quantity',
+  'unitPrice',
+];
+
+/** ID of the profile for our own CSV template. */
+export const DEFAULT_IMPORT_PROFILE_ID = 'mjolnir';
+
+const STANDARD_ACTIONS = {
+  BUY: 'BUY',
+  SELL: 'SELL',
+  DIVIDEND: 'DIVIDEND',
+  SPLIT: 'SPLIT',
+} as const;
+
+/**
+ * Profiles for common broker exports. Headers follow each broker's trade
+ * history download; anything that differs can be copied into a custom
+ * mapping and adjusted.
+ */
+export const BUILT_IN_IMPORT_PROFILES: TransactionImportProfile[] = [
+  {
+    id: DEFAULT_IMPORT_PROFILE_ID,
+    name: 'Mjolnir CSV template',
+    builtIn: true,
+    mapping: {
+      columns: {
+        date: 'date',
+        symbol: 'symbol',
+        action: 'action',
+        quantity: 'quantity',
+        unitPrice: 'unit_price',
+        fees: ['fees'],
+        currency: 'currency',
+        exchange: 'exchange',
+        notes: 'notes',
+      },
+      dateFormat: 'YYYY-MM-DD',
+      actionLabels: STANDARD_ACTIONS,
+      defaultCurrency: null,
+      defaultExchange: null,
+    },
+  },
+  {
+    id: 'commsec',
+    name: 'CommSec',
+    builtIn: true,
+    mapping: {
+      columns: {
+        date: 'Trade Date',
+        symbol: 'Code',
+        action: 'Buy/Sell',
+        quantity: 'Quantity',
+        unitPrice: 'Price',
+        fees: ['Brokerage', 'GST'],
+        currency: null,
+        exchange: null,
+        notes: 'Reference',
+      },
+      dateFormat: 'DD/MM/YYYY',
+      actionLabels: { ...STANDARD_ACTIONS, B: 'BUY', S: 'SELL' },
+      defaultCurrency: 'AUD',
+      defaultExchange: 'ASX',
+    },
+  },
+  {
+    id: 'stake',
+    name: 'Stake',
+    builtIn: true,
+    mapping: {
+      columns: {
+        date: 'Trade Date',
+        symbol: 'Symbol',
+        action: 'Side',
+        quantity: 'Units',
+        unitPrice: 'Avg. Price',
+        fees: ['Fees', 'GST'],
+        currency: 'Currency',
+        exchange: null,
+        notes: 'Order ID',
+      },
+      dateFormat: 'YYYY-MM-DD',
+      actionLabels: { ...STANDARD_ACTIONS, BOT: 'BUY', SLD: 'SELL' },
+      defaultCurrency: 'USD',
+      defaultExchange: null,
+    },
+  },
+  {
+    id: 'selfwealth',
+    name: 'SelfWealth',
+    builtIn: true,
+    mapping: {
+      columns: {
+        date: 'Trade Date',
+        symbol: 'Code',
+        action: 'Action',
+        quantity: 'Units',
+        unitPrice: 'Average Price',
+        fees: ['Brokerage'],
+        currency: null,
+        exchange: null,
+        notes: 'Reference',
+      },
+      dateFormat: 'DD/MM/YYYY',
+      actionLabels: STANDARD_ACTIONS,
+      defaultCurrency: 'AUD',
+      defaultExchange: 'ASX',
+    },
+  },
+  {
+    id: 'sharesight',
+    name: 'Sharesight',
+    builtIn: true,
+    mapping: {
+      columns: {
+        date: 'Trade Date',
+        symbol: 'Instrument Code',
+        action: 'Transaction Type',
+        quantity: 'Quantity',
+        unitPrice: 'Price in Dollars',
+        fees: ['Brokerage'],
+        currency: null,
+        exchange: 'Market Code',
+        notes: 'Comments',
+      },
+      dateFormat: 'DD/MM/YYYY',
+      actionLabels: STANDARD_ACTIONS,
+      defaultCurrency: null,
+      defaultExchange: null,
+    },
+  },
+];
+
+/**
+ * Finds a row value by header, ignoring case and surrounding whitespace.
+ */
+function getValue(row: CSVRow, header: string | null): string | null {
+  if (!header) {
+    return null;
+  }
+  if (header in row) {
+    return row[header];
+  }
+  const wanted = header.trim().toLowerCase();
+  const key = Object.keys(row).find((k) => k.trim().toLowerCase() === wanted);
+  return key !== undefined ? row[key] : null;
+}
+
+/**
+ * Strips currency symbols, thousands separators, signs and accounting
+ * brackets from an amount. Brokers report sells and fees with either sign,
+ * so amounts are taken as magnitudes.
+ */
+function cleanAmount(value: string | null): string | null {
+  if (value === null) {
+    return null;
+  }
+  const cleaned = value
+    .replace(/[A-Z]{3}/gi, '')
+    .replace(/[$,\s()]/g, '')
+    .replace(/^[-+]/, '');
+  return cleaned === '' ? null : cleaned;
+}
+
+/**
+ * Converts a date in the given format to YYYY-MM-DD. Any time after the
+ * date is dropped. Returns the value unchanged if it doesn't match the
+ * format, so the validator reports it.
+ */
+export function normalizeImportDate(value: string, format: string): string {
+  const datePart = value.trim().split(/[\sT]/)[0];
+  const parts = datePart.split(/[/.-]/);
+  if (parts.length !== 3 || parts.some((p) => !/^\d+$/.test(p))) {
+    return value;
+  }
+
+  let year: string;
+  let month: string;
+  let day: string;
+  switch (format as ImportDateFormat) {
+    case 'YYYY-MM-DD':
+      [year, month, day] = parts;
+      break;
+    case 'MM/DD/YYYY':
+      [month, day, year] = parts;
+      break;
+    case 'DD/MM/YYYY':
+    case 'DD-MM-YYYY':
+    case 'DD.MM.YYYY':
+      [day, month, year] = parts;
+      break;
+    default:
+      return value;
+  }
+
+  if (year.length === 2) {
+    year = `20${year}`;
+  }
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+/**
+ * Maps one broker CSV row into the columns of our CSV template
+ * (date, symbol, action, quantity, unit_price, fees, currency, exchange,
+ * notes), ready for `validateTransactionRow`.
+ *
+ * @param row - A row parsed from the broker's CSV
+ * @param mapping - The import profile's mapping
+ * @returns The row in template columns; unmapped actions are passed through
+ *   so the validator can report them
+ */
+export function applyImportProfile(row: CSVRow, mapping: ImportProfileMapping): CSVRow {
+  const { columns } = mapping;
+
+  const date = getValue(row, columns.date);
+
+  const rawAction = getValue(row, columns.action)?.trim() ?? null;
+  const actionLabel = rawAction
+    ? Object.keys(mapping.actionLabels).find(
+        (label) => label.toLowerCase() === rawAction.toLowerCase()
+      )
+    : undefined;
+  const action = actionLabel ? mapping.actionLabels[actionLabel] : rawAction;
+
+  let fees: string | null = null;
+  for (const header of columns.fees) {
+    const amount = cleanAmount(getValue(row, header));
+    if (amount !== null) {
+      const total: number = Number(fees ?? 0) + Number(amount);
+      fees = isNaN(total) ? amount : String(total);
+    }
+  }
+
+  return {
+    date: date ? normalizeImportDate(date, mapping.dateFormat) : null,
+    symbol: getValue(row, columns.symbol)?.trim().toUpperCase() || null,
+    action,
+    quantity: cleanAmount(getValue(row, columns.quantity)),
+    unit_price: cleanAmount(getValue(row, columns.unitPrice)),
+    fees,
+    currency: getValue(row, columns.currency)?.trim().toUpperCase() || mapping.defaultCurrency,
+    exchange: getValue(row, columns.exchange)?.trim().toUpperCase() || mapping.defaultExchange,
+    notes: getValue(row, columns.notes),
+  };
+}
+
+/**
+ * Maps every row of a broker CSV with an import profile.
+ */
+export function applyImportProfileToRows(rows: CSVRow[], mapping: ImportProfileMapping): CSVRow[] {
+  return rows.map((row) => applyImportProfile(row, mapping));
+}
+
+/**
+ * Lists the mapped columns missing from a CSV's headers.
+ *
+ * @param headers - Header row of the CSV
+ * @param mapping - The import profile's mapping
+ * @returns Missing headers; required ones first
+ */
+export function findMissingImportColumns(
+  headers: string[],
+  mapping: ImportProfileMapping
+): { required: string[]; optional: string[] } {
+  const present = new Set(headers.map((h) => h.trim().toLowerCase()));
+  const isMissing = (header: string | null): header is string =>
+    !!header && !present.has(header.trim().toLowerCase());
+
+  const required = REQUIRED_IMPORT_COLUMNS.map((field) => mapping.columns[field] as string).filter(
+    isMissing
+  );
+  const optional = [
+    ...mapping.columns.fees,
+    mapping.columns.currency,
+    mapping.columns.exchange,
+    mapping.columns.notes,
+  ].filter(isMissing);
+
+  return { required, optional };
+}
+
+/**
+ * Validates a user-defined mapping, adding messages to `errors` keyed by
+ * field (e.g. "columns.date").
+ *
+ * @param mapping - Mapping from the request body (untrusted)
+ * @param errors - Validation error map to add to
+ * @returns The mapping, normalised, or null if invalid
+ */
+export function validateImportProfileMapping(
+  mapping: unknown,
+  errors: Record<string, string>
+): ImportProfileMapping | null {
+  if (!mapping || typeof mapping !== 'object') {
+    errors.mapping = 'Mapping is required';
+    return null;
+  }
+  const input = mapping as Partial<ImportProfileMapping>;
+  const columns = (input.columns ?? {}) as Partial<Record<keyof ImportColumnMapping, unknown>>;
+
+  const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+  for (const field of REQUIRED_IMPORT_COLUMNS) {
+    if (!text(columns[field])) {
+      errors[`columns.${field}`] = `A column is required for ${field}`;
+    }
+  }
+
+  const fees = Array.isArray(columns.fees) ? columns.fees.map(text).filter((f) => f !== null) : [];
+  if (columns.fees !== undefined && !Array.isArray(columns.fees)) {
+    errors['columns.fees'] = 'Fee columns must be a list';
+  }
+
+  if (!IMPORT_DATE_FORMATS.includes(input.dateFormat as ImportDateFormat)) {
+    errors.dateFormat = `Date format must be one of: ${IMPORT_DATE_FORMATS.join(', ')}`;
+  }
+
+  const actionLabels: ImportProfileMapping['actionLabels'] = {};
+  const validActions = Object.values(STANDARD_ACTIONS) as string[];
+  for (const [label, action] of Object.entries(input.actionLabels ?? {})) {
+    if (!label.trim()) continue;
+    if (!validActions.includes(action)) {
+      errors.actionLabels = `"${label}" must map to one of: ${validActions.join(', ')}`;
+    } else {
+      actionLabels[label.trim()] = action;
+    }
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return null;
+  }
+
+  return {
+    columns: {
+      date: text(columns.date)!,
+      symbol: text(columns.symbol)!,
+      action: text(columns.action)!,
+      quantity: text(columns.quantity)!,
+      unitPrice: text(columns.unitPrice)!,
+      fees,
+      currency: text(columns.currency),
+      exchange: text(columns.exchange),
+      notes: text(columns.notes),
+    },
+    dateFormat: input.dateFormat!,
+    actionLabels: { ...STANDARD_ACTIONS, ...actionLabels },
+    defaultCurrency: text(input.defaultCurrency)?.toUpperCase() ?? null,
+    defaultExchange: text(input.defaultExchange)?.toUpperCase() ?? null,
+  };
+}
+
+/**
+ * Gets a built-in profile by ID.
+ */
+export function getBuiltInImportProfile(id: string): TransactionImportProfile | undefined {
+  return BUILT_IN_IMPORT_PROFILES.find((profile) => profile.id === id);
+}
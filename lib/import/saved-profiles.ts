@@ -0,0 +1,73 @@
+/**
+ * Saved Import Profiles
+ * Loads user-defined transaction import profiles alongside the built-in ones.
+ */
+
+import { db } from '@/lib/db';
+import { importProfiles, type ImportProfile } from '@/lib/db/schema';
+import { eq, and, isNull, asc } from 'drizzle-orm';
+import {
+  BUILT_IN_IMPORT_PROFILES,
+  getBuiltInImportProfile,
+  type TransactionImportProfile,
+} from './profiles';
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Converts a saved profile row to an import profile.
+ */
+export function toTransactionImportProfile(profile: ImportProfile): TransactionImportProfile {
+  return {
+    id: profile.id,
+    name: profile.name,
+    builtIn: false,
+    mapping: profile.mapping,
+  };
+}
+
+/**
+ * Lists the built-in profiles followed by the user's saved profiles by name.
+ *
+ * @param userId - The user ID to list saved profiles for
+ */
+export async function getImportProfiles(userId: string): Promise<TransactionImportProfile[]> {
+  const saved = await db
+    .select()
+    .from(importProfiles)
+    .where(and(eq(importProfiles.userId, userId), isNull(importProfiles.deletedAt)))
+    .orderBy(asc(importProfiles.name));
+
+  return [...BUILT_IN_IMPORT_PROFILES, ...saved.map(toTransactionImportProfile)];
+}
+
+/**
+ * Finds a built-in profile by key, or one of the user's saved profiles by ID.
+ *
+ * @returns The profile, or null if there is none with that ID
+ */
+export async function findImportProfile(
+  userId: string,
+  id: string
+): Promise<TransactionImportProfile | null> {
+  const builtIn = getBuiltInImportProfile(id);
+  if (builtIn) {
+    return builtIn;
+  }
+  if (!UUID_REGEX.test(id)) {
+    return null;
+  }
+
+  const [saved] = await db
+    .select()
+    .from(importProfiles)
+    .where(
+      and(
+        eq(importProfiles.id, id),
+        eq(importProfiles.userId, userId),
+        isNull(importProfiles.deletedAt)
+      )
+    );
+
+  return saved ? toTransactionImportProfile(saved) : null;
+}
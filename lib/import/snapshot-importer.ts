@@ -18,6 +18,7 @@ import {
 } from '@/lib/db/schema';
 import { eq, and, isNull } from 'drizzle-orm';
 import { type SnapshotRow } from './validators/snapshot-validator';
+import { type Currency } from '@/lib/constants';
 
 export interface ImportError {
   row: number;
@@ -100,7 +101,7 @@ async function findOrCreateHolding(
     type,
     symbol: null, // Snapshots don't have symbols
     name: fundName,
-    currency: (currency?.toUpperCase() as 'AUD' | 'NZD' | 'USD') || 'AUD',
+    currency: (currency?.toUpperCase() as Currency) || 'AUD',
     exchange: null,
     isDormant: false,
     isActive: true,
@@ -234,7 +235,7 @@ export async function importSnapshots(
         holdingId: holdingInfo.id,
         date: row.date,
         balance: String(row.balance),
-        currency: (row.currency?.toUpperCase() as 'AUD' | 'NZD' | 'USD') || 'AUD',
+        currency: (row.currency?.toUpperCase() as Currency) || 'AUD',
         notes: null,
       };
 
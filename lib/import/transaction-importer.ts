@@ -10,6 +10,7 @@ import { db } from '@/lib/db';
 import { holdings, transactions, type NewHolding, type NewTransaction } from '@/lib/db/schema';
 import { eq, and, isNull } from 'drizzle-orm';
 import { type TransactionRow } from './validators/transaction-validator';
+import { type Currency } from '@/lib/constants';
 
 export interface ImportError {
   row: number;
@@ -110,7 +111,7 @@ async function findOrCreateHolding(
     type: holdingType,
     symbol: normalizedSymbol,
     name: normalizedSymbol, // Use symbol as name; user can update later
-    currency: (currency?.toUpperCase() as 'AUD' | 'NZD' | 'USD') || 'AUD',
+    currency: (currency?.toUpperCase() as Currency) || 'AUD',
     exchange: holdingExchange,
     isDormant: false,
     isActive: true,
@@ -207,7 +208,7 @@ export async function importTransactions(
         quantity: String(row.quantity),
         unitPrice: String(row.unitPrice),
         fees: row.fees !== null ? String(row.fees) : '0',
-        currency: (row.currency?.toUpperCase() as 'AUD' | 'NZD' | 'USD') || 'AUD',
+        currency: (row.currency?.toUpperCase() as Currency) || 'AUD',
         notes: row.notes,
       };
 
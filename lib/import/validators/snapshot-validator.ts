@@ -4,6 +4,7 @@
  */
 
 import { type CSVRow } from '../csv-parser';
+import { ENABLED_CURRENCIES, isEnabledCurrency } from '@/lib/constants';
 
 export interface SnapshotRow {
   date: string;
@@ -90,6 +91,12 @@ export function validateSnapshotRow(row: CSVRow, rowNumber?: number): Validation
     }
   }
 
+  // Validate optional currency (if provided, must be an enabled currency)
+  const currency = row.currency?.toUpperCase();
+  if (currency && !isEnabledCurrency(currency)) {
+    errors.push(`${rowPrefix}currency "${row.currency}" is invalid (must be one of ${ENABLED_CURRENCIES.join(', ')})`);
+  }
+
   // If there are errors, return invalid result
   if (errors.length > 0) {
     return {
@@ -106,7 +113,7 @@ export function validateSnapshotRow(row: CSVRow, rowNumber?: number): Validation
     balance: parseNumber(balanceStr!)!,
     employerContrib,
     employeeContrib,
-    currency: row.currency || null,
+    currency: currency || null,
   };
 
   return {
@@ -4,6 +4,7 @@
  */
 
 import { type CSVRow } from '../csv-parser';
+import { ENABLED_CURRENCIES, isEnabledCurrency } from '@/lib/constants';
 
 export interface TransactionRow {
   date: string;
@@ -103,6 +104,12 @@ export function validateTransactionRow(row: CSVRow, rowNumber?: number): Validat
     }
   }
 
+  // Validate optional currency (if provided, must be an enabled currency)
+  const currency = row.currency?.toUpperCase();
+  if (currency && !isEnabledCurrency(currency)) {
+    errors.push(`${rowPrefix}currency "${row.currency}" is invalid (must be one of ${ENABLED_CURRENCIES.join(', ')})`);
+  }
+
   // If there are errors, return invalid result
   if (errors.length > 0) {
     return {
@@ -120,7 +127,7 @@ export function validateTransactionRow(row: CSVRow, rowNumber?: number): Validat
     quantity: parseNumber(quantityStr!)!,
     unitPrice: parseNumber(unitPriceStr!)!,
     fees,
-    currency: row.currency || null,
+    currency: currency || null,
     exchange: row.exchange || null,
     notes: row.notes || null,
   };
@@ -17,6 +17,12 @@ import {
   Utensils,
   Dumbbell,
   LayoutGrid,
+  Landmark,
+  Coins,
+  Target,
+  TrendingUp,
+  CreditCard,
+  ListFilter,
   type LucideIcon,
 } from "lucide-react";
 
@@ -85,6 +91,24 @@ export const navItems: NavItem[] = [
     icon: Wallet,
     description: "Manage your assets",
   },
+  {
+    href: "/allocation",
+    label: "Allocation",
+    icon: Target,
+    description: "Target allocation and rebalancing",
+  },
+  {
+    href: "/projection",
+    label: "Projection",
+    icon: TrendingUp,
+    description: "Net worth projection and FIRE calculator",
+  },
+  {
+    href: "/debt",
+    label: "Debt Payoff",
+    icon: CreditCard,
+    description: "Avalanche and snowball debt payoff planner",
+  },
   {
     href: "/transactions",
     label: "Transactions",
@@ -97,6 +121,26 @@ export const navItems: NavItem[] = [
     icon: Camera,
     description: "Track balances over time",
   },
+  {
+    href: "/tax",
+    label: "Tax",
+    icon: Landmark,
+    description: "Realised capital gains by financial year",
+    children: [
+      {
+        href: "/tax",
+        label: "Capital Gains",
+        icon: Landmark,
+        description: "Realised capital gains by financial year",
+      },
+      {
+        href: "/tax/dividends",
+        label: "Dividends",
+        icon: Coins,
+        description: "Dividend income, franking and withholding tax",
+      },
+    ],
+  },
   {
     href: "/budget",
     label: "Budget",
@@ -115,6 +159,12 @@ export const navItems: NavItem[] = [
         icon: Receipt,
         description: "View categorised transactions",
       },
+      {
+        href: "/budget/rules",
+        label: "Rules",
+        icon: ListFilter,
+        description: "Categorisation rules for synced transactions",
+      },
       {
         href: "/budget/setup",
         label: "Setup",
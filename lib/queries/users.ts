@@ -1,6 +1,12 @@
 import { db } from "@/lib/db";
-import { users, userPreferences, type UserPreferences } from "@/lib/db/schema";
+import {
+  users,
+  userPreferences,
+  type ProjectionSettings,
+  type UserPreferences,
+} from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
+import type { Currency } from "@/lib/constants";
 
 /**
  * Ensure a user record exists in the database.
@@ -76,10 +82,12 @@ export async function getUserPreferences(
 }
 
 interface UpdatePreferencesInput {
-  displayCurrency?: "AUD" | "NZD" | "USD";
+  displayCurrency?: Currency;
   showNativeCurrency?: boolean;
   emailReminders?: boolean;
   reminderDay?: number; // 1-28
+  benchmarkSymbols?: string[];
+  projectionSettings?: ProjectionSettings;
 }
 
 /**
@@ -117,6 +125,14 @@ export async function updateUserPreferences(
     setValues.reminderDay = updates.reminderDay;
   }
 
+  if (updates.benchmarkSymbols !== undefined) {
+    setValues.benchmarkSymbols = updates.benchmarkSymbols;
+  }
+
+  if (updates.projectionSettings !== undefined) {
+    setValues.projectionSettings = updates.projectionSettings;
+  }
+
   // Update preferences
   const [updated] = await db
     .update(userPreferences)
@@ -6,7 +6,12 @@
  * Import from this module instead of using string literals.
  */
 
-import type { Currency } from "@/lib/constants";
+import type {
+  AllocationPlanMode,
+  AllocationScope,
+  Currency,
+  ReturnWindow,
+} from "@/lib/constants";
 
 // =============================================================================
 // BASE KEYS (used for broad invalidation)
@@ -22,6 +27,30 @@ export const queryKeys = {
     detail: (id: string) => ["holding", id] as const,
     quantity: (holdingId: string) =>
       ["holdings", holdingId, "quantity"] as const,
+    lots: (holdingId: string, asOf: string) =>
+      ["holdings", holdingId, "lots", asOf] as const,
+    dividends: (holdingId: string) =>
+      ["holdings", holdingId, "dividends"] as const,
+    realAsset: (holdingId: string) =>
+      ["holdings", holdingId, "real-asset"] as const,
+    manualPrices: (holdingId: string) =>
+      ["holdings", holdingId, "manual-prices"] as const,
+    corporateActions: (holdingId: string) =>
+      ["holdings", holdingId, "corporate-actions"] as const,
+    settlement: (holdingId: string) =>
+      ["holdings", holdingId, "settlement"] as const,
+    risk: (holdingId: string) =>
+      ["holdings", holdingId, "risk"] as const,
+    debt: (holdingId: string) =>
+      ["holdings", holdingId, "debt"] as const,
+    debts: ["holdings", "debts"] as const,
+    /** Payoff plans across all debts; refreshed with any holdings change. */
+    debtPayoff: (extraAmounts: number[]) =>
+      ["holdings", "debt-payoff", extraAmounts] as const,
+    /** Cash holdings offered as settlement accounts. */
+    cash: ["holdings", "cash"] as const,
+    /** Non-debt holdings offered as allocation targets. */
+    targetable: ["holdings", "targetable"] as const,
   },
 
   // ---- Transactions ----
@@ -64,6 +93,11 @@ export const queryKeys = {
     all: ["net-worth"] as const,
     /** Broad invalidation key for all history queries. */
     allHistory: ["net-worth-history"] as const,
+    benchmark: (months: number) =>
+      ["net-worth-benchmark", months] as const,
+    /** Broad invalidation key for all benchmark comparison queries. */
+    allBenchmark: ["net-worth-benchmark"] as const,
+    projection: ["net-worth-projection"] as const,
   },
 
   // ---- Super ----
@@ -71,12 +105,45 @@ export const queryKeys = {
     holdingsCheck: ["super-holdings-check"] as const,
     breakdown: (months: number, holdingId?: string | null) =>
       ["super-breakdown", months, holdingId ?? "all"] as const,
+    caps: ["super-caps"] as const,
+    fees: ["super-fees"] as const,
+  },
+
+  // ---- Tax ----
+  tax: {
+    all: ["tax"] as const,
+    capitalGains: (financialYear: number) =>
+      ["tax", "capital-gains", financialYear] as const,
+    dividends: (financialYear: number) =>
+      ["tax", "dividends", financialYear] as const,
   },
 
   // ---- Dashboard ----
   topPerformers: ["top-performers"] as const,
+  returns: {
+    all: ["returns"] as const,
+    window: (window: ReturnWindow) => ["returns", window] as const,
+    /** Since-inception returns keyed by holding (holdings table). */
+    byHolding: ["returns", "by-holding"] as const,
+  },
   currencyExposure: (displayCurrency: Currency) =>
     ["currency-exposure", displayCurrency] as const,
+  portfolioRisk: ["portfolio-risk"] as const,
+
+  // ---- Allocation ----
+  allocation: {
+    all: ["allocation"] as const,
+    targets: (scope: AllocationScope) => ["allocation", "targets", scope] as const,
+    drift: (scope: AllocationScope, displayCurrency: Currency) =>
+      ["allocation", "drift", scope, displayCurrency] as const,
+    plan: (opts: {
+      scope: AllocationScope;
+      mode: AllocationPlanMode;
+      amount: number;
+      marginalTaxRate: number | null;
+      displayCurrency: Currency;
+    }) => ["allocation", "plan", opts] as const,
+  },
 
   // ---- Check-in ----
   checkIn: {
@@ -114,6 +181,11 @@ export const queryKeys = {
     corrections: {
       suggestions: ["budget", "corrections", "suggestions"] as const,
     },
+    rules: ["budget", "rules"] as const,
+    rulePreview: (rule: Record<string, string | undefined>) =>
+      ["budget", "rules", "preview", rule] as const,
+    recategorisations: ["budget", "recategorisations"] as const,
+    incomeSources: ["budget", "income-sources"] as const,
     challengeComparison: ["budget", "challenge-comparison"] as const,
     anomalies: (periodId?: string) =>
       ["budget", "anomalies", periodId ?? "current"] as const,
@@ -143,5 +215,6 @@ export const queryKeys = {
 
   // ---- Settings ----
   preferences: ["preferences"] as const,
+  alerts: ["alerts"] as const,
   exchangeRates: ["exchange-rates"] as const,
 } as const;
@@ -0,0 +1,339 @@
+/**
+ * Alert rule evaluation and email delivery.
+ *
+ * Evaluates a user's active alert rules against current prices and net worth,
+ * and emails any that have fired. Called daily by the evaluate-alerts cron job.
+ */
+
+import { db } from "@/lib/db";
+import { alertRules, holdings, type AlertRule, type Holding } from "@/lib/db/schema";
+import { and, eq, isNull } from "drizzle-orm";
+import { format } from "date-fns";
+import { render } from "@react-email/components";
+import { sendEmail, type SendEmailResult } from "./email";
+import { fetchPricesForHoldings, isTradeableHolding, type PriceResult } from "./price-fetcher";
+import { calculateNetWorth, type NetWorthResult } from "@/lib/calculations/net-worth";
+import {
+  AlertNotificationEmail,
+  type FiredAlert,
+} from "@/components/emails/alert-notification";
+import { BASE_CURRENCY } from "@/lib/constants";
+
+/**
+ * Result of evaluating a single rule
+ */
+export interface AlertEvaluation {
+  /** The rule that was evaluated */
+  rule: AlertRule;
+  /** Current value the threshold is compared against */
+  value: number;
+  /** Whether the rule's condition currently holds */
+  conditionMet: boolean;
+  /** Whether the rule should notify on this run */
+  fired: boolean;
+  /** Human-readable description of the alert, e.g. "VAS rose above 100.00 AUD" */
+  message: string;
+}
+
+/**
+ * Format an amount with two decimals and its currency code.
+ */
+function formatAmount(value: number, currency: string): string {
+  return `${value.toLocaleString("en-AU", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })} ${currency}`;
+}
+
+function formatPercent(value: number): string {
+  return `${value.toFixed(2)}%`;
+}
+
+/**
+ * Whether `value` is on the rule's side of its threshold.
+ */
+function isBeyondThreshold(value: number, threshold: number, direction: AlertRule["direction"]): boolean {
+  return direction === "below" ? value < threshold : value > threshold;
+}
+
+/**
+ * Find a holding's value in a net worth result, among assets or debts.
+ */
+function findHoldingValue(netWorth: NetWorthResult, holdingId: string) {
+  for (const group of netWorth.breakdown) {
+    const match = group.holdings.find((h) => h.id === holdingId);
+    if (match) return match;
+  }
+  return netWorth.debtBreakdown.find((h) => h.id === holdingId) ?? null;
+}
+
+/**
+ * Work out a rule's current value and whether its condition holds. Returns
+ * null when the data needed is unavailable (no price yet, holding removed).
+ */
+function evaluateCondition(
+  rule: AlertRule,
+  holding: Holding | null,
+  price: PriceResult | null,
+  netWorth: NetWorthResult | null
+): { value: number; conditionMet: boolean; message: string } | null {
+  const threshold = Number(rule.threshold);
+  const label = holding ? (holding.symbol ?? holding.name) : "";
+
+  switch (rule.type) {
+    case "price_cross": {
+      if (!price) return null;
+      const verb = rule.direction === "below" ? "fell below" : "rose above";
+      return {
+        value: price.price,
+        conditionMet: isBeyondThreshold(price.price, threshold, rule.direction),
+        message: `${label} ${verb} ${formatAmount(threshold, price.currency)} (now ${formatAmount(price.price, price.currency)})`,
+      };
+    }
+
+    case "daily_move": {
+      if (price?.changePercent === null || price?.changePercent === undefined) return null;
+      const change = price.changePercent;
+      const conditionMet =
+        rule.direction === "above"
+          ? change >= threshold
+          : rule.direction === "below"
+            ? change <= -threshold
+            : Math.abs(change) >= threshold;
+      return {
+        value: change,
+        conditionMet,
+        message: `${label} ${change >= 0 ? "rose" : "fell"} ${formatPercent(Math.abs(change))} today`,
+      };
+    }
+
+    case "holding_weight": {
+      if (!netWorth || !holding || netWorth.totalAssets <= 0) return null;
+      const holdingValue = findHoldingValue(netWorth, holding.id);
+      const weight = holdingValue ? (holdingValue.value / netWorth.totalAssets) * 100 : 0;
+      return {
+        value: weight,
+        conditionMet: weight > threshold,
+        message: `${label} is ${formatPercent(weight)} of total assets, above ${formatPercent(threshold)}`,
+      };
+    }
+
+    case "net_worth_cross": {
+      if (!netWorth) return null;
+      const verb = rule.direction === "below" ? "fell below" : "rose above";
+      return {
+        value: netWorth.netWorth,
+        conditionMet: isBeyondThreshold(netWorth.netWorth, threshold, rule.direction),
+        message: `Net worth ${verb} ${formatAmount(threshold, BASE_CURRENCY)} (now ${formatAmount(netWorth.netWorth, BASE_CURRENCY)})`,
+      };
+    }
+
+    case "debt_below": {
+      if (!netWorth || !holding) return null;
+      const holdingValue = findHoldingValue(netWorth, holding.id);
+      if (!holdingValue) return null;
+      return {
+        value: holdingValue.valueNative,
+        conditionMet: holdingValue.valueNative < threshold,
+        message: `${holding.name} fell below ${formatAmount(threshold, holding.currency)} (now ${formatAmount(holdingValue.valueNative, holding.currency)})`,
+      };
+    }
+  }
+}
+
+/**
+ * Whether a rule whose condition holds should notify on this run.
+ *
+ * Crossing rules fire only when the condition becomes true, so a price that
+ * stays above its threshold is reported once. Daily moves fire at most once
+ * per day.
+ */
+function shouldFire(rule: AlertRule, conditionMet: boolean, today: string): boolean {
+  if (!conditionMet) return false;
+  if (rule.type === "daily_move") {
+    return !rule.lastTriggeredAt || format(rule.lastTriggeredAt, "yyyy-MM-dd") !== today;
+  }
+  return !rule.conditionMet;
+}
+
+/**
+ * Evaluates every active alert rule for a user.
+ *
+ * Refreshes expired prices for the user's tradeable holdings first, and only
+ * calculates net worth if a rule needs it. Rules whose data is unavailable
+ * are left out of the results.
+ *
+ * @param userId - The Clerk user ID
+ * @returns One evaluation per rule that could be evaluated
+ */
+export async function evaluateAlertRules(userId: string): Promise<AlertEvaluation[]> {
+  const rules = await db
+    .select()
+    .from(alertRules)
+    .where(
+      and(
+        eq(alertRules.userId, userId),
+        eq(alertRules.isActive, true),
+        isNull(alertRules.deletedAt)
+      )
+    );
+
+  if (rules.length === 0) {
+    return [];
+  }
+
+  const userHoldings = await db
+    .select()
+    .from(holdings)
+    .where(and(eq(holdings.userId, userId), isNull(holdings.deletedAt)));
+  const holdingsById = new Map(userHoldings.map((h) => [h.id, h]));
+
+  // Refreshing every tradeable holding keeps weights and net worth current too
+  const needsNetWorth = rules.some((r) => r.type !== "price_cross" && r.type !== "daily_move");
+  const priceHoldings = userHoldings.filter(
+    (h) =>
+      isTradeableHolding(h) &&
+      h.isActive &&
+      (needsNetWorth || rules.some((r) => r.holdingId === h.id))
+  );
+  const prices = await fetchPricesForHoldings(priceHoldings);
+  const netWorth = needsNetWorth ? await calculateNetWorth(userId) : null;
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  const evaluations: AlertEvaluation[] = [];
+
+  for (const rule of rules) {
+    const holding = rule.holdingId ? (holdingsById.get(rule.holdingId) ?? null) : null;
+    if (rule.holdingId && !holding) continue;
+
+    const result = evaluateCondition(
+      rule,
+      holding,
+      holding ? (prices.get(holding.id) ?? null) : null,
+      netWorth
+    );
+    if (!result) continue;
+
+    evaluations.push({
+      rule,
+      value: result.value,
+      conditionMet: result.conditionMet,
+      fired: shouldFire(rule, result.conditionMet, today),
+      message: result.message,
+    });
+  }
+
+  return evaluations;
+}
+
+/**
+ * Options for sending alert notifications
+ */
+export interface SendAlertNotificationsOptions {
+  /** Clerk user ID */
+  userId: string;
+  /** User's email address */
+  email: string;
+  /** User's first name for personalized greeting */
+  userName?: string;
+}
+
+/**
+ * Result of sending alert notifications
+ */
+export interface SendAlertNotificationsResult {
+  /** Whether evaluation (and sending, if anything fired) succeeded */
+  success: boolean;
+  /** Number of rules evaluated */
+  rulesEvaluated: number;
+  /** Number of alerts that fired (0 means no email was sent) */
+  alertsFired: number;
+  /** Error message if failed */
+  error?: string;
+  /** Resend message ID if an email was sent */
+  messageId?: string;
+}
+
+/**
+ * Evaluates a user's alert rules and emails any that fired in a single
+ * message.
+ *
+ * Rule state is only saved as fired once the email is sent, so a failed send
+ * is retried on the next run. Rules whose condition no longer holds are reset
+ * so they can fire again on the next crossing.
+ *
+ * @param options - User details and email address
+ * @returns Result with the number of rules evaluated and alerts sent
+ */
+export async function sendAlertNotifications(
+  options: SendAlertNotificationsOptions
+): Promise<SendAlertNotificationsResult> {
+  const { userId, email, userName } = options;
+
+  const evaluations = await evaluateAlertRules(userId);
+  const fired = evaluations.filter((e) => e.fired);
+
+  let result: SendEmailResult | null = null;
+
+  if (fired.length > 0) {
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+    const alerts: FiredAlert[] = fired.map((e) => ({ id: e.rule.id, message: e.message }));
+
+    const emailHtml = await render(
+      AlertNotificationEmail({
+        userName,
+        alerts,
+        dashboardUrl: `${appUrl}/dashboard`,
+        settingsUrl: `${appUrl}/settings`,
+      })
+    );
+
+    result = await sendEmail({
+      to: email,
+      subject:
+        fired.length === 1
+          ? `Mjolnir alert: ${fired[0].message}`
+          : `Mjolnir: ${fired.length} alerts triggered`,
+      html: emailHtml,
+    });
+  }
+
+  const sent = result?.success ?? false;
+  const now = new Date();
+
+  for (const evaluation of evaluations) {
+    const { rule, conditionMet } = evaluation;
+
+    if (evaluation.fired && sent) {
+      await db
+        .update(alertRules)
+        .set({
+          conditionMet: true,
+          lastTriggeredAt: now,
+          lastTriggeredValue: evaluation.value.toString(),
+        })
+        .where(eq(alertRules.id, rule.id));
+    } else if (!evaluation.fired && conditionMet !== rule.conditionMet) {
+      await db
+        .update(alertRules)
+        .set({ conditionMet })
+        .where(eq(alertRules.id, rule.id));
+    }
+  }
+
+  if (result && !result.success) {
+    return {
+      success: false,
+      rulesEvaluated: evaluations.length,
+      alertsFired: fired.length,
+      error: result.error,
+    };
+  }
+
+  return {
+    success: true,
+    rulesEvaluated: evaluations.length,
+    alertsFired: fired.length,
+    messageId: result?.messageId,
+  };
+}
@@ -201,3 +201,118 @@ export async function fetchCryptoPrice(symbol: string): Promise<PriceData> {
     );
   }
 }
+
+// Re-export history types for consistency with yahoo-finance.ts
+export interface DailyClose {
+  date: string;
+  close: number;
+}
+
+export interface PriceHistoryData {
+  currency: string;
+  closes: DailyClose[];
+}
+
+/**
+ * Days of history available without an API key (CoinGecko public API limit).
+ */
+const FREE_TIER_HISTORY_DAYS = 365;
+
+/**
+ * CoinGecko API response for coins/{id}/market_chart/range endpoint
+ */
+interface CoinGeckoMarketChartResponse {
+  /** [timestamp in ms, price] pairs */
+  prices?: [number, number][];
+}
+
+/**
+ * Fetches daily prices for a cryptocurrency from CoinGecko, in USD.
+ *
+ * Crypto trades around the clock, so the close for a day is the last price
+ * reported on that UTC date. Without an API key, history is limited to the
+ * last 365 days and earlier dates are skipped.
+ *
+ * @param symbol - The crypto symbol (e.g., "BTC", "ETH")
+ * @param fromDate - First day to fetch
+ * @param toDate - Last day to fetch
+ * @returns Promise<PriceHistoryData> with one close per day in USD
+ * @throws CoinGeckoError on network failure, invalid symbol, or rate limiting
+ *
+ * @example
+ * const history = await fetchCryptoHistory("BTC", new Date("2025-01-01"), new Date());
+ */
+export async function fetchCryptoHistory(
+  symbol: string,
+  fromDate: Date,
+  toDate: Date
+): Promise<PriceHistoryData> {
+  const upperSymbol = symbol.toUpperCase().trim();
+  const coinId = getCoinGeckoId(upperSymbol);
+
+  if (!coinId) {
+    throw new CoinGeckoError(
+      `Unknown cryptocurrency symbol: ${upperSymbol}. Add it to the symbol mapping or use the CoinGecko ID directly.`,
+      upperSymbol
+    );
+  }
+
+  const apiKey = process.env.COINGECKO_API_KEY;
+  const baseUrl = apiKey
+    ? "https://pro-api.coingecko.com/api/v3"
+    : "https://api.coingecko.com/api/v3";
+
+  let from = fromDate.getTime();
+  if (!apiKey) {
+    from = Math.max(from, toDate.getTime() - FREE_TIER_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+  }
+  if (from >= toDate.getTime()) {
+    return { currency: "USD", closes: [] };
+  }
+
+  const url = new URL(`${baseUrl}/coins/${coinId}/market_chart/range`);
+  url.searchParams.set("vs_currency", "usd");
+  url.searchParams.set("from", String(Math.floor(from / 1000)));
+  url.searchParams.set("to", String(Math.floor(toDate.getTime() / 1000)));
+
+  let response: Response;
+  try {
+    response = await fetch(url.toString(), { headers: buildHeaders() });
+  } catch (error) {
+    throw new CoinGeckoError(
+      `Network error fetching history for ${upperSymbol}. Please check your internet connection.`,
+      upperSymbol,
+      undefined,
+      error
+    );
+  }
+
+  if (response.status === 429) {
+    throw new CoinGeckoError(
+      `Rate limit exceeded fetching history for ${upperSymbol}.`,
+      upperSymbol,
+      429
+    );
+  }
+
+  if (!response.ok) {
+    throw new CoinGeckoError(
+      `CoinGecko API returned status ${response.status}: ${response.statusText}`,
+      upperSymbol,
+      response.status
+    );
+  }
+
+  const data: CoinGeckoMarketChartResponse = await response.json();
+
+  // Keep the last price reported on each UTC date
+  const closesByDate = new Map<string, number>();
+  for (const [timestamp, price] of data.prices ?? []) {
+    closesByDate.set(new Date(timestamp).toISOString().slice(0, 10), price);
+  }
+
+  return {
+    currency: "USD",
+    closes: Array.from(closesByDate, ([date, close]) => ({ date, close })),
+  };
+}
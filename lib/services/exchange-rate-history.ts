@@ -0,0 +1,435 @@
+/**
+ * Exchange rate history service for daily FX rates.
+ *
+ * Stores one rate per currency pair per day in the `exchange_rate_history`
+ * table so past values can be converted at the rate in effect at the time.
+ * Earlier days are backfilled from Frankfurter (European Central Bank
+ * reference rates, free, no API key); today's row is captured from the live
+ * rate whenever exchangerate-api.com is queried and by the daily cron job.
+ *
+ * Lookups carry the latest rate on or before a date forward over weekends
+ * and holidays, and fall back to the current live rate for dates before the
+ * stored history begins.
+ */
+
+import { db } from "@/lib/db";
+import { exchangeRateHistory, type NewExchangeRateHistory } from "@/lib/db/schema";
+import { eq, and, gte, lte, asc, desc, sql } from "drizzle-orm";
+import { format, addDays, addYears, subYears, parseISO, min } from "date-fns";
+import {
+  ExchangeRateError,
+  SUPPORTED_PAIRS,
+  getExchangeRate,
+  type SupportedCurrency,
+} from "./exchange-rates";
+
+const FRANKFURTER_BASE_URL = "https://api.frankfurter.dev/v1";
+
+/** How far back to backfill when no history is stored. */
+export const EXCHANGE_RATE_BACKFILL_YEARS = 10;
+
+/** Rows written per insert statement when saving history. */
+const INSERT_BATCH_SIZE = 500;
+
+/**
+ * A stored daily rate.
+ */
+export interface ExchangeRatePoint {
+  /** Day the rate applies to (YYYY-MM-DD) */
+  date: string;
+  /** Units of the target currency per unit of the source currency */
+  rate: number;
+}
+
+/**
+ * Daily rates into AUD keyed by source currency, each oldest first.
+ * Built once by getAudRateHistories for converting many dated amounts.
+ */
+export type AudRateHistories = Map<string, ExchangeRatePoint[]>;
+
+/**
+ * Frankfurter time series response structure
+ */
+interface FrankfurterTimeSeriesResponse {
+  base: string;
+  start_date: string;
+  end_date: string;
+  rates: Record<string, Record<string, number>>;
+}
+
+/**
+ * Normalises a Date or YYYY-MM-DD string to YYYY-MM-DD.
+ */
+function toDateString(date: Date | string): string {
+  return typeof date === "string" ? date : format(date, "yyyy-MM-dd");
+}
+
+/**
+ * Gets stored daily rates for a currency pair, oldest first.
+ *
+ * @param from - Source currency code (e.g., "USD")
+ * @param to - Target currency code (e.g., "AUD")
+ * @param fromDate - Optional first day (YYYY-MM-DD)
+ * @param toDate - Optional last day (YYYY-MM-DD)
+ */
+export async function getExchangeRateHistory(
+  from: SupportedCurrency,
+  to: SupportedCurrency,
+  fromDate?: string,
+  toDate?: string
+): Promise<ExchangeRatePoint[]> {
+  const conditions = [
+    eq(exchangeRateHistory.fromCurrency, from),
+    eq(exchangeRateHistory.toCurrency, to),
+  ];
+  if (fromDate) {
+    conditions.push(gte(exchangeRateHistory.date, fromDate));
+  }
+  if (toDate) {
+    conditions.push(lte(exchangeRateHistory.date, toDate));
+  }
+
+  const rows = await db
+    .select({
+      date: exchangeRateHistory.date,
+      rate: exchangeRateHistory.rate,
+    })
+    .from(exchangeRateHistory)
+    .where(and(...conditions))
+    .orderBy(asc(exchangeRateHistory.date));
+
+  return rows.map((row) => ({ date: row.date, rate: Number(row.rate) }));
+}
+
+/**
+ * Finds the most recent rate on or before a date in a series sorted oldest
+ * first. Weekends and holidays carry the previous rate forward.
+ *
+ * @returns The rate, or null if the series starts after the date
+ */
+export function findRateAsOf(
+  history: ExchangeRatePoint[],
+  date: string
+): ExchangeRatePoint | null {
+  let low = 0;
+  let high = history.length - 1;
+  let match: ExchangeRatePoint | null = null;
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (history[mid].date <= date) {
+      match = history[mid];
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return match;
+}
+
+/**
+ * Gets the exchange rate in effect on a date: the stored rate for that day,
+ * or the latest stored rate before it. Falls back to the current live rate
+ * if no rate is stored on or before the date.
+ *
+ * @param from - Source currency code (e.g., "USD")
+ * @param to - Target currency code (e.g., "AUD")
+ * @param date - The day to convert at (Date or YYYY-MM-DD)
+ * @returns Promise<number> - The exchange rate (e.g., 1.42 for USD to AUD)
+ * @throws ExchangeRateError if the live fallback fails
+ *
+ * @example
+ * // Convert a USD purchase at its trade-date rate
+ * const rate = await getExchangeRateAsOf("USD", "AUD", "2021-03-15");
+ * const audCost = 1000 * rate;
+ */
+export async function getExchangeRateAsOf(
+  from: string,
+  to: string,
+  date: Date | string
+): Promise<number> {
+  const normalizedFrom = from.toUpperCase().trim() as SupportedCurrency;
+  const normalizedTo = to.toUpperCase().trim() as SupportedCurrency;
+
+  // Same currency = rate of 1
+  if (normalizedFrom === normalizedTo) {
+    return 1;
+  }
+
+  const [stored] = await db
+    .select({ rate: exchangeRateHistory.rate })
+    .from(exchangeRateHistory)
+    .where(
+      and(
+        eq(exchangeRateHistory.fromCurrency, normalizedFrom),
+        eq(exchangeRateHistory.toCurrency, normalizedTo),
+        lte(exchangeRateHistory.date, toDateString(date))
+      )
+    )
+    .orderBy(desc(exchangeRateHistory.date))
+    .limit(1);
+
+  if (stored) {
+    return Number(stored.rate);
+  }
+
+  return getExchangeRate(normalizedFrom, normalizedTo);
+}
+
+/**
+ * Loads daily rates into AUD for each non-AUD currency given.
+ *
+ * @param currencies - Currencies that amounts will be converted from
+ * @param fromDate - Optional first day (YYYY-MM-DD); the day before the
+ *   earliest date you will look up lets that date carry a rate forward
+ */
+export async function getAudRateHistories(
+  currencies: Iterable<string>,
+  fromDate?: string
+): Promise<AudRateHistories> {
+  const histories: AudRateHistories = new Map();
+  for (const currency of new Set(currencies)) {
+    if (currency !== "AUD") {
+      histories.set(
+        currency,
+        await getExchangeRateHistory(currency as SupportedCurrency, "AUD", fromDate)
+      );
+    }
+  }
+  return histories;
+}
+
+/**
+ * Converts a value to AUD at the rate in effect on a date, using rates
+ * preloaded by getAudRateHistories. Falls back to the current live rate for
+ * dates before the stored history begins.
+ *
+ * @param value - Amount in `currency`
+ * @param currency - Currency code of the amount
+ * @param date - The day to convert at (YYYY-MM-DD)
+ * @param histories - Rates from getAudRateHistories
+ */
+export async function convertToAudAsOf(
+  value: number,
+  currency: string,
+  date: string,
+  histories: AudRateHistories
+): Promise<number> {
+  if (currency === "AUD") {
+    return value;
+  }
+  const point = findRateAsOf(histories.get(currency) ?? [], date);
+  const rate = point ? point.rate : await getExchangeRate(currency, "AUD");
+  return value * rate;
+}
+
+/**
+ * Upserts daily rates for a currency pair. Existing days are overwritten.
+ */
+export async function saveExchangeRateHistory(
+  from: SupportedCurrency,
+  to: SupportedCurrency,
+  rates: ExchangeRatePoint[],
+  source: NewExchangeRateHistory["source"]
+): Promise<void> {
+  const now = new Date();
+  const rows: NewExchangeRateHistory[] = rates.map((r) => ({
+    fromCurrency: from,
+    toCurrency: to,
+    date: r.date,
+    rate: r.rate.toString(),
+    source,
+    fetchedAt: now,
+  }));
+
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    await db
+      .insert(exchangeRateHistory)
+      .values(rows.slice(i, i + INSERT_BATCH_SIZE))
+      .onConflictDoUpdate({
+        target: [
+          exchangeRateHistory.fromCurrency,
+          exchangeRateHistory.toCurrency,
+          exchangeRateHistory.date,
+        ],
+        set: {
+          rate: sql`excluded.rate`,
+          source: sql`excluded.source`,
+          fetchedAt: sql`excluded.fetched_at`,
+        },
+      });
+  }
+}
+
+/**
+ * Fetches daily reference rates from one base currency to several targets.
+ *
+ * Requests are made one calendar year at a time so long ranges come back
+ * at daily granularity. Only ECB working days have rates.
+ *
+ * @param base - Source currency code
+ * @param targets - Target currency codes
+ * @param fromDate - First day to fetch
+ * @param toDate - Last day to fetch
+ * @returns Daily rates keyed by target currency, oldest first
+ * @throws ExchangeRateError on network failure or API error
+ */
+export async function fetchHistoricalExchangeRates(
+  base: SupportedCurrency,
+  targets: SupportedCurrency[],
+  fromDate: Date,
+  toDate: Date
+): Promise<Map<SupportedCurrency, ExchangeRatePoint[]>> {
+  const result = new Map<SupportedCurrency, ExchangeRatePoint[]>(
+    targets.map((t) => [t, []])
+  );
+
+  for (let start = fromDate; start <= toDate; start = addYears(start, 1)) {
+    const end = min([addDays(addYears(start, 1), -1), toDate]);
+    const url = `${FRANKFURTER_BASE_URL}/${toDateString(start)}..${toDateString(end)}?from=${base}&to=${targets.join(",")}`;
+
+    let data: FrankfurterTimeSeriesResponse;
+    try {
+      const response = await fetch(url, {
+        headers: {
+          Accept: "application/json",
+        },
+      });
+
+      if (!response.ok) {
+        throw new ExchangeRateError(
+          `Frankfurter API returned status ${response.status}: ${response.statusText}`,
+          base,
+          targets.join(","),
+          response.status
+        );
+      }
+
+      data = await response.json();
+    } catch (error) {
+      if (error instanceof ExchangeRateError) {
+        throw error;
+      }
+      throw new ExchangeRateError(
+        `Failed to fetch historical exchange rates for ${base}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+        base,
+        targets.join(","),
+        undefined,
+        error
+      );
+    }
+
+    for (const [date, rates] of Object.entries(data.rates ?? {}).sort(([a], [b]) =>
+      a.localeCompare(b)
+    )) {
+      for (const target of targets) {
+        const rate = rates[target];
+        if (rate !== undefined && rate !== null) {
+          result.get(target)!.push({ date, rate });
+        }
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Gets the date of the most recent stored rate for a currency pair.
+ */
+async function getLatestExchangeRateDate(
+  from: SupportedCurrency,
+  to: SupportedCurrency
+): Promise<string | null> {
+  const [latest] = await db
+    .select({ date: exchangeRateHistory.date })
+    .from(exchangeRateHistory)
+    .where(
+      and(
+        eq(exchangeRateHistory.fromCurrency, from),
+        eq(exchangeRateHistory.toCurrency, to)
+      )
+    )
+    .orderBy(desc(exchangeRateHistory.date))
+    .limit(1);
+
+  return latest?.date ?? null;
+}
+
+/**
+ * Fetches and stores daily rates for every supported currency pair.
+ *
+ * For each base currency, starts the day after the oldest "latest stored
+ * day" across its pairs, or EXCHANGE_RATE_BACKFILL_YEARS ago (or `fromDate`
+ * if given) when a pair has no history.
+ *
+ * @param fromDate - Optional start date for pairs with no stored history
+ * @returns Number of rates stored
+ * @throws ExchangeRateError if the Frankfurter fetch fails
+ */
+export async function backfillExchangeRateHistory(fromDate?: Date): Promise<number> {
+  const today = new Date();
+  const todayStr = toDateString(today);
+
+  // Group pairs by base so each base needs one request per year
+  const targetsByBase = new Map<SupportedCurrency, SupportedCurrency[]>();
+  for (const [from, to] of SUPPORTED_PAIRS) {
+    targetsByBase.set(from, [...(targetsByBase.get(from) ?? []), to]);
+  }
+
+  let stored = 0;
+
+  for (const [base, targets] of targetsByBase) {
+    const latestDates = await Promise.all(
+      targets.map((target) => getLatestExchangeRateDate(base, target))
+    );
+
+    let start: Date;
+    if (latestDates.some((d) => d === null)) {
+      start = fromDate ?? subYears(today, EXCHANGE_RATE_BACKFILL_YEARS);
+    } else {
+      const oldestLatest = (latestDates as string[]).sort()[0];
+      start = addDays(parseISO(oldestLatest), 1);
+    }
+
+    if (toDateString(start) > todayStr) {
+      continue;
+    }
+
+    const history = await fetchHistoricalExchangeRates(base, targets, start, today);
+    for (const [target, rates] of history) {
+      await saveExchangeRateHistory(base, target, rates, "frankfurter");
+      stored += rates.length;
+    }
+  }
+
+  return stored;
+}
+
+/**
+ * Tops up the rate history: backfills any days missed since the last stored
+ * rate, then records the current live rate for every supported pair as
+ * today's rate.
+ *
+ * @returns Number of backfilled rates and the pairs captured for today
+ * @throws ExchangeRateError if the backfill or a live rate fetch fails
+ */
+export async function topUpExchangeRateHistory(): Promise<{
+  backfilled: number;
+  captured: string[];
+}> {
+  const backfilled = await backfillExchangeRateHistory();
+  const today = toDateString(new Date());
+  const captured: string[] = [];
+
+  for (const [from, to] of SUPPORTED_PAIRS) {
+    const rate = await getExchangeRate(from, to);
+    await saveExchangeRateHistory(from, to, [{ date: today, rate }], "exchangerate-api");
+    captured.push(`${from}/${to}`);
+  }
+
+  return { backfilled, captured };
+}
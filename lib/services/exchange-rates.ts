@@ -5,14 +5,24 @@
  * Supports optional EXCHANGE_RATE_API_KEY env var for authenticated requests.
  * Free tier: 1500 requests/month
  *
- * Includes caching with 1-hour TTL.
+ * Includes caching with 1-hour TTL. One request returns every rate for a
+ * base currency, so a cache miss refreshes the base's rates to all enabled
+ * currencies at once. Each fresh rate is also recorded as today's row in the
+ * daily rate history (see exchange-rate-history.ts).
  */
 
 import { db } from "@/lib/db";
-import { exchangeRates, ExchangeRate, NewExchangeRate } from "@/lib/db/schema";
-import { and, eq } from "drizzle-orm";
-
-export type SupportedCurrency = "USD" | "AUD" | "NZD";
+import {
+  exchangeRates,
+  exchangeRateHistory,
+  ExchangeRate,
+  NewExchangeRate,
+} from "@/lib/db/schema";
+import { and, eq, sql } from "drizzle-orm";
+import { format } from "date-fns";
+import { CURRENCIES, ENABLED_CURRENCIES, type Currency } from "@/lib/constants";
+
+export type SupportedCurrency = Currency;
 
 // Default cache TTL in minutes for exchange rates (1 hour)
 export const DEFAULT_EXCHANGE_RATE_TTL_MINUTES = 60;
@@ -48,27 +58,27 @@ interface ExchangeRateApiResponse {
 }
 
 /**
- * Supported currency pairs for exchange rate fetching.
- * We support conversion between AUD, NZD, and USD.
+ * Currency pairs kept cached and in the daily history: every pair of
+ * enabled currencies, in both directions.
  */
-const SUPPORTED_PAIRS: Array<[SupportedCurrency, SupportedCurrency]> = [
-  ["USD", "AUD"],
-  ["NZD", "AUD"],
-  ["USD", "NZD"],
-  ["AUD", "USD"],
-  ["AUD", "NZD"],
-  ["NZD", "USD"],
-];
+export const SUPPORTED_PAIRS: Array<[SupportedCurrency, SupportedCurrency]> =
+  ENABLED_CURRENCIES.flatMap((from) =>
+    ENABLED_CURRENCIES.filter((to) => to !== from).map(
+      (to): [SupportedCurrency, SupportedCurrency] => [from, to]
+    )
+  );
 
 /**
- * Validates that a currency pair is supported.
+ * Validates that a currency pair is supported. Any known currency converts,
+ * including ones no longer enabled that existing holdings may still use.
  */
 function isSupportedPair(from: string, to: string): boolean {
   const normalizedFrom = from.toUpperCase().trim();
   const normalizedTo = to.toUpperCase().trim();
 
-  return SUPPORTED_PAIRS.some(
-    ([f, t]) => f === normalizedFrom && t === normalizedTo
+  return (
+    CURRENCIES.includes(normalizedFrom as SupportedCurrency) &&
+    CURRENCIES.includes(normalizedTo as SupportedCurrency)
   );
 }
 
@@ -91,45 +101,18 @@ function buildApiUrl(baseCurrency: string): string {
 }
 
 /**
- * Fetches the exchange rate between two currencies.
- *
- * @param from - Source currency code (e.g., "USD", "NZD")
- * @param to - Target currency code (e.g., "AUD")
- * @returns Promise<number> - The exchange rate (e.g., 1.53 for USD to AUD)
- * @throws ExchangeRateError on network failure, invalid currency, or API error
- *
- * @example
- * // Get USD to AUD rate
- * const rate = await fetchExchangeRate("USD", "AUD");
- * // rate = 1.53 (meaning 1 USD = 1.53 AUD)
+ * Fetches the rates from a base currency to every currency the API quotes.
  *
- * @example
- * // Convert 100 USD to AUD
- * const rate = await fetchExchangeRate("USD", "AUD");
- * const audAmount = 100 * rate; // 153 AUD
+ * @param base - Base currency code (e.g., "USD")
+ * @param target - Currency the caller needs, for error reporting
+ * @returns Units of each currency per unit of the base, keyed by code
+ * @throws ExchangeRateError on network failure or API error
  */
-export async function fetchExchangeRate(
-  from: string,
-  to: string
-): Promise<number> {
-  const normalizedFrom = from.toUpperCase().trim() as SupportedCurrency;
-  const normalizedTo = to.toUpperCase().trim() as SupportedCurrency;
-
-  // Validate currency pair
-  if (!isSupportedPair(normalizedFrom, normalizedTo)) {
-    throw new ExchangeRateError(
-      `Unsupported currency pair: ${normalizedFrom}/${normalizedTo}. Supported pairs: USD/AUD, NZD/AUD, USD/NZD and their inverses.`,
-      normalizedFrom,
-      normalizedTo
-    );
-  }
-
-  // Same currency = rate of 1
-  if (normalizedFrom === normalizedTo) {
-    return 1;
-  }
-
-  const url = buildApiUrl(normalizedFrom);
+async function fetchRatesForBase(
+  base: string,
+  target: string
+): Promise<Record<string, number>> {
+  const url = buildApiUrl(base);
 
   try {
     const response = await fetch(url, {
@@ -142,8 +125,8 @@ export async function fetchExchangeRate(
     if (!response.ok) {
       throw new ExchangeRateError(
         `Exchange rate API returned status ${response.status}: ${response.statusText}`,
-        normalizedFrom,
-        normalizedTo,
+        base,
+        target,
         response.status
       );
     }
@@ -155,8 +138,8 @@ export async function fetchExchangeRate(
       const errorMessage = data["error-type"] || data.error || "Unknown error";
       throw new ExchangeRateError(
         `Exchange rate API error: ${errorMessage}`,
-        normalizedFrom,
-        normalizedTo
+        base,
+        target
       );
     }
 
@@ -165,24 +148,13 @@ export async function fetchExchangeRate(
     const ratesMap = data.conversion_rates ?? data.rates;
     if (!ratesMap) {
       throw new ExchangeRateError(
-        `No conversion rates returned for ${normalizedFrom}`,
-        normalizedFrom,
-        normalizedTo
-      );
-    }
-
-    // Get the rate for target currency
-    const rate = ratesMap[normalizedTo];
-
-    if (rate === undefined || rate === null) {
-      throw new ExchangeRateError(
-        `No rate found for ${normalizedFrom} to ${normalizedTo}`,
-        normalizedFrom,
-        normalizedTo
+        `No conversion rates returned for ${base}`,
+        base,
+        target
       );
     }
 
-    return rate;
+    return ratesMap;
   } catch (error) {
     // Re-throw our custom errors
     if (error instanceof ExchangeRateError) {
@@ -199,18 +171,18 @@ export async function fetchExchangeRate(
         error.message.includes("fetch")
       ) {
         throw new ExchangeRateError(
-          `Network error fetching exchange rate for ${normalizedFrom}/${normalizedTo}. Please check your internet connection.`,
-          normalizedFrom,
-          normalizedTo,
+          `Network error fetching exchange rate for ${base}/${target}. Please check your internet connection.`,
+          base,
+          target,
           undefined,
           error
         );
       }
 
       throw new ExchangeRateError(
-        `Failed to fetch exchange rate for ${normalizedFrom}/${normalizedTo}: ${error.message}`,
-        normalizedFrom,
-        normalizedTo,
+        `Failed to fetch exchange rate for ${base}/${target}: ${error.message}`,
+        base,
+        target,
         undefined,
         error
       );
@@ -218,15 +190,84 @@ export async function fetchExchangeRate(
 
     // Unknown error type
     throw new ExchangeRateError(
-      `Unknown error fetching exchange rate for ${normalizedFrom}/${normalizedTo}`,
-      normalizedFrom,
-      normalizedTo,
+      `Unknown error fetching exchange rate for ${base}/${target}`,
+      base,
+      target,
       undefined,
       error
     );
   }
 }
 
+/**
+ * Throws if a currency pair is not supported.
+ */
+function assertSupportedPair(from: string, to: string): void {
+  if (!isSupportedPair(from, to)) {
+    throw new ExchangeRateError(
+      `Unsupported currency pair: ${from}/${to}. Supported currencies: ${CURRENCIES.join(", ")}.`,
+      from,
+      to
+    );
+  }
+}
+
+/**
+ * Picks one target's rate from a base currency's rates.
+ *
+ * @throws ExchangeRateError if the API did not quote the target
+ */
+function pickRate(ratesMap: Record<string, number>, from: string, to: string): number {
+  const rate = ratesMap[to];
+
+  if (rate === undefined || rate === null) {
+    throw new ExchangeRateError(
+      `No rate found for ${from} to ${to}`,
+      from,
+      to
+    );
+  }
+
+  return rate;
+}
+
+/**
+ * Fetches the exchange rate between two currencies.
+ *
+ * @param from - Source currency code (e.g., "USD", "NZD")
+ * @param to - Target currency code (e.g., "AUD")
+ * @returns Promise<number> - The exchange rate (e.g., 1.53 for USD to AUD)
+ * @throws ExchangeRateError on network failure, invalid currency, or API error
+ *
+ * @example
+ * // Get USD to AUD rate
+ * const rate = await fetchExchangeRate("USD", "AUD");
+ * // rate = 1.53 (meaning 1 USD = 1.53 AUD)
+ *
+ * @example
+ * // Convert 100 USD to AUD
+ * const rate = await fetchExchangeRate("USD", "AUD");
+ * const audAmount = 100 * rate; // 153 AUD
+ */
+export async function fetchExchangeRate(
+  from: string,
+  to: string
+): Promise<number> {
+  const normalizedFrom = from.toUpperCase().trim();
+  const normalizedTo = to.toUpperCase().trim();
+
+  // Validate currency pair
+  assertSupportedPair(normalizedFrom, normalizedTo);
+
+  // Same currency = rate of 1
+  if (normalizedFrom === normalizedTo) {
+    return 1;
+  }
+
+  const ratesMap = await fetchRatesForBase(normalizedFrom, normalizedTo);
+  return pickRate(ratesMap, normalizedFrom, normalizedTo);
+}
+
 // =============================================================================
 // CACHING FUNCTIONS
 // =============================================================================
@@ -382,9 +423,46 @@ async function setCachedRate(
   }
 }
 
+/**
+ * Records a freshly fetched rate as today's row in the daily rate history.
+ * Best-effort: a failure is logged and never fails the rate lookup.
+ */
+async function recordDailyRate(
+  from: string,
+  to: string,
+  rate: number
+): Promise<void> {
+  try {
+    await db
+      .insert(exchangeRateHistory)
+      .values({
+        fromCurrency: from as SupportedCurrency,
+        toCurrency: to as SupportedCurrency,
+        date: format(new Date(), "yyyy-MM-dd"),
+        rate: rate.toString(),
+        source: "exchangerate-api",
+      })
+      .onConflictDoUpdate({
+        target: [
+          exchangeRateHistory.fromCurrency,
+          exchangeRateHistory.toCurrency,
+          exchangeRateHistory.date,
+        ],
+        set: {
+          rate: sql`excluded.rate`,
+          source: sql`excluded.source`,
+          fetchedAt: new Date(),
+        },
+      });
+  } catch (error) {
+    console.error(`[ExchangeRates] Failed to record daily rate for ${from}/${to}:`, error);
+  }
+}
+
 /**
  * Gets an exchange rate, using cache if available and not expired.
- * If the cache is expired or missing, fetches fresh rate and updates cache.
+ * If the cache is expired or missing, fetches fresh rates for the source
+ * currency and updates the cache for every enabled target in one go.
  *
  * This is the main function to use for getting exchange rates - it handles
  * caching automatically.
@@ -414,11 +492,23 @@ export async function getExchangeRate(from: string, to: string): Promise<number>
     return cachedRate;
   }
 
-  // Fetch fresh rate
-  const freshRate = await fetchExchangeRate(normalizedFrom, normalizedTo);
-
-  // Update cache
-  await setCachedRate(normalizedFrom, normalizedTo, freshRate);
+  // Fetch fresh rates for the source currency
+  assertSupportedPair(normalizedFrom, normalizedTo);
+  const ratesMap = await fetchRatesForBase(normalizedFrom, normalizedTo);
+  const freshRate = pickRate(ratesMap, normalizedFrom, normalizedTo);
+
+  // Update cache and today's history row for the requested pair and every
+  // other enabled target quoted in the same response
+  const targets = new Set<string>([normalizedTo, ...ENABLED_CURRENCIES]);
+  targets.delete(normalizedFrom);
+  for (const target of targets) {
+    const rate = ratesMap[target];
+    if (rate === undefined || rate === null) {
+      continue;
+    }
+    await setCachedRate(normalizedFrom, target, rate);
+    await recordDailyRate(normalizedFrom, target, rate);
+  }
 
   return freshRate;
 }
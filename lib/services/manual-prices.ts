@@ -0,0 +1,77 @@
+/**
+ * Manual price service for holdings priced by hand.
+ *
+ * Private shares, unlisted managed funds and delisted tickers have no
+ * market feed, so their prices are entered by date. Entries are stored as
+ * the holding's price history (source "manual") under its holding-scoped
+ * price symbol, so past valuations use them like any other close. The
+ * latest entry is the current price and is written through to the price
+ * cache whenever the entries change.
+ */
+
+import { db } from "@/lib/db";
+import { priceHistory, type Holding } from "@/lib/db/schema";
+import { eq, and } from "drizzle-orm";
+import { getPriceHistory, getPriceSymbol, savePriceHistory, type PriceHistoryPoint } from "./price-history";
+import { deleteCachedPrice } from "./price-cache";
+import { fetchPrice } from "./price-fetcher";
+import type { Currency } from "@/lib/constants";
+
+/**
+ * Gets a holding's manual prices, newest first.
+ */
+export async function getManualPrices(holding: Holding): Promise<PriceHistoryPoint[]> {
+  const symbol = getPriceSymbol(holding);
+  if (!symbol) {
+    return [];
+  }
+  return (await getPriceHistory(symbol)).reverse();
+}
+
+/**
+ * Rewrites the cached price from the latest manual price, or removes it
+ * once no prices are left.
+ */
+async function refreshCachedManualPrice(holding: Holding, symbol: string): Promise<void> {
+  const remaining = await getPriceHistory(symbol);
+  if (remaining.length === 0) {
+    await deleteCachedPrice(symbol);
+    return;
+  }
+  await fetchPrice(holding, { forceRefresh: true });
+}
+
+/**
+ * Records (or replaces) a holding's manual price for a date.
+ *
+ * @param holding - A holding using the manual price provider
+ * @param entry - Date (YYYY-MM-DD), price and its currency
+ */
+export async function saveManualPrice(
+  holding: Holding,
+  entry: { date: string; price: number; currency: Currency }
+): Promise<void> {
+  const symbol = getPriceSymbol(holding)!;
+  await savePriceHistory(symbol, entry.currency, [{ date: entry.date, close: entry.price }], "manual");
+  await refreshCachedManualPrice(holding, symbol);
+}
+
+/**
+ * Deletes a holding's manual price for a date.
+ *
+ * @returns false if there was no price on that date
+ */
+export async function deleteManualPrice(holding: Holding, date: string): Promise<boolean> {
+  const symbol = getPriceSymbol(holding)!;
+  const deleted = await db
+    .delete(priceHistory)
+    .where(and(eq(priceHistory.symbol, symbol), eq(priceHistory.date, date)))
+    .returning({ id: priceHistory.id });
+
+  if (deleted.length === 0) {
+    return false;
+  }
+
+  await refreshCachedManualPrice(holding, symbol);
+  return true;
+}
@@ -8,6 +8,7 @@
 import { db } from "@/lib/db";
 import { priceCache, PriceCache, NewPriceCache } from "@/lib/db/schema";
 import { eq } from "drizzle-orm";
+import type { Currency } from "@/lib/constants";
 
 // Default cache TTL in minutes
 export const DEFAULT_PRICE_CACHE_TTL_MINUTES = 15;
@@ -23,7 +24,7 @@ export interface CachedPrice {
   changePercent: number | null;
   changeAbsolute: number | null;
   fetchedAt: Date;
-  source: "yahoo" | "coingecko";
+  source: PriceCache["source"];
 }
 
 /**
@@ -31,10 +32,12 @@ export interface CachedPrice {
  */
 export interface PriceDataToCache {
   price: number;
-  currency: "AUD" | "NZD" | "USD";
+  currency: Currency;
   changePercent: number | null;
   changeAbsolute: number | null;
-  source: "yahoo" | "coingecko";
+  source: PriceCache["source"];
+  /** When the price applies from (defaults to now; the entry date for manual prices) */
+  fetchedAt?: Date;
 }
 
 /**
@@ -122,7 +125,7 @@ export async function setCachedPrice(
   symbol: string,
   priceData: PriceDataToCache
 ): Promise<void> {
-  const now = new Date();
+  const now = priceData.fetchedAt ?? new Date();
 
   const newCacheEntry: NewPriceCache = {
     symbol,
@@ -2,25 +2,31 @@
  * Unified price fetcher service.
  *
  * Provides a single interface to fetch prices for any holding type,
- * routing to the appropriate provider (Yahoo Finance for stocks/ETFs,
- * CoinGecko for crypto).
+ * routing to the holding's price provider (by default Yahoo Finance for
+ * stocks/ETFs and CoinGecko for crypto; see price-providers.ts).
  *
  * Handles caching, fallback to stale prices on fetch failure, and
  * returns consistent PriceResult objects.
  */
 
 import { Holding } from "@/lib/db/schema";
-import { fetchStockPrice, normalizeSymbol, YahooFinanceError } from "./yahoo-finance";
-import { fetchCryptoPrice, CoinGeckoError } from "./coingecko";
+import { YahooFinanceError } from "./yahoo-finance";
+import { CoinGeckoError } from "./coingecko";
 import {
   getCachedPrice,
   setCachedPrice,
   isCacheValid,
-  DEFAULT_PRICE_CACHE_TTL_MINUTES,
   CachedPrice,
   PriceDataToCache,
 } from "./price-cache";
+import {
+  getHoldingPriceProvider,
+  PriceProviderError,
+  type HoldingForPriceProvider,
+} from "./price-providers";
+import { getPriceSymbol, topUpPriceHistory } from "./price-history";
 import { withRetry, isTransientError } from "@/lib/utils/retry";
+import type { Currency } from "@/lib/constants";
 
 /**
  * Result of a price fetch operation.
@@ -28,13 +34,13 @@ import { withRetry, isTransientError } from "@/lib/utils/retry";
 export interface PriceResult {
   /** Current price in the holding's native currency */
   price: number;
-  /** Currency code (AUD, NZD, USD) */
+  /** Currency code (e.g. AUD, USD) */
   currency: string;
   /** 24-hour change percentage (null if unavailable) */
   changePercent: number | null;
   /** 24-hour absolute change (null if unavailable) */
   changeAbsolute: number | null;
-  /** When the price was fetched */
+  /** When the price was fetched (the entry date for manual prices) */
   fetchedAt: Date;
   /** Whether this is a stale cached price due to fetch failure */
   isStale: boolean;
@@ -46,10 +52,7 @@ export interface PriceResult {
  * Minimal holding interface for price fetching.
  * Only requires the fields needed to determine how to fetch the price.
  */
-export interface HoldingForPriceFetch {
-  type: Holding["type"];
-  symbol: string | null;
-  exchange: string | null;
+export interface HoldingForPriceFetch extends HoldingForPriceProvider {
   currency: Holding["currency"];
 }
 
@@ -88,15 +91,19 @@ function cachedPriceToPriceResult(
 /**
  * Fetches the current price for a holding.
  *
- * Routes to the appropriate provider based on holding type:
- * - stock/etf: Yahoo Finance
- * - crypto: CoinGecko
+ * Routes to the holding's price provider (see price-providers.ts):
+ * - stock/etf: Yahoo Finance by default
+ * - crypto: CoinGecko by default
+ * - manual: the latest price entered for the holding
+ * - derived: another symbol's price times a ratio
  *
  * Caching behavior:
  * - Checks cache first
- * - If cache is valid (< 15 minutes old), returns cached price
+ * - If cache is valid (< 15 minutes old, or a manual price dated within
+ *   MANUAL_PRICE_STALE_DAYS), returns cached price
  * - If cache is expired or missing, fetches fresh price
  * - Updates cache on successful fetch
+ * - Tops up the daily price history on successful fetch
  * - Returns stale cached price with isStale=true if fetch fails
  *
  * @param holding - The holding to fetch price for
@@ -108,10 +115,14 @@ function cachedPriceToPriceResult(
  * @example
  * // Fetch price for a stock
  * const result = await fetchPrice({
+ *   id: holding.id,
  *   type: "stock",
  *   symbol: "VAS.AX",
  *   exchange: "ASX",
- *   currency: "AUD"
+ *   currency: "AUD",
+ *   priceProvider: null,
+ *   priceSourceSymbol: null,
+ *   priceRatio: null,
  * });
  *
  * if (result.isStale) {
@@ -139,15 +150,13 @@ export async function fetchPrice(
   }
 
   // Normalize symbol for cache lookup
-  const cacheSymbol =
-    holding.type === "crypto"
-      ? holding.symbol.toUpperCase()
-      : normalizeSymbol(holding.symbol, holding.exchange);
+  const cacheSymbol = getPriceSymbol(holding)!;
+  const provider = getHoldingPriceProvider(holding);
 
   // Check cache first (unless force refresh)
   if (!options.forceRefresh) {
     const cached = await getCachedPrice(cacheSymbol);
-    if (cached && isCacheValid(cached, DEFAULT_PRICE_CACHE_TTL_MINUTES)) {
+    if (cached && isCacheValid(cached, provider.cacheTtlMinutes)) {
       return cachedPriceToPriceResult(cached, false);
     }
   }
@@ -155,7 +164,7 @@ export async function fetchPrice(
   // Attempt to fetch fresh price with retry logic
   try {
     const priceData = await withRetry(
-      () => fetchPriceFromProvider(holding),
+      () => provider.fetchQuote(holding, cacheSymbol),
       {
         maxRetries: 3,
         initialDelayMs: 1000,
@@ -173,20 +182,32 @@ export async function fetchPrice(
     // Update cache
     const cacheData: PriceDataToCache = {
       price: priceData.price,
-      currency: priceData.currency as "AUD" | "NZD" | "USD",
+      currency: priceData.currency as Currency,
       changePercent: priceData.changePercent,
       changeAbsolute: priceData.changeAbsolute,
-      source: holding.type === "crypto" ? "coingecko" : "yahoo",
+      source: provider.id,
+      fetchedAt: priceData.asOf,
     };
     await setCachedPrice(cacheSymbol, cacheData);
 
+    // Record today's close (and any missed days) in the price history.
+    // History is best-effort and never fails the price fetch.
+    try {
+      await topUpPriceHistory(holding, priceData);
+    } catch (historyError) {
+      console.log(
+        `[PriceFetcher] Price history top-up failed for ${cacheSymbol}:`,
+        historyError instanceof Error ? historyError.message : "Unknown error"
+      );
+    }
+
     // Return fresh result
     return {
       price: priceData.price,
       currency: priceData.currency,
       changePercent: priceData.changePercent,
       changeAbsolute: priceData.changeAbsolute,
-      fetchedAt: new Date(),
+      fetchedAt: priceData.asOf ?? new Date(),
       isStale: false,
     };
   } catch (error) {
@@ -207,29 +228,6 @@ export async function fetchPrice(
   }
 }
 
-/**
- * Fetches price from the appropriate provider based on holding type.
- */
-async function fetchPriceFromProvider(
-  holding: HoldingForPriceFetch
-): Promise<{
-  price: number;
-  currency: string;
-  changePercent: number | null;
-  changeAbsolute: number | null;
-}> {
-  if (!holding.symbol) {
-    throw new Error("Holding must have a symbol to fetch price");
-  }
-
-  if (holding.type === "crypto") {
-    return fetchCryptoPrice(holding.symbol);
-  }
-
-  // stock or etf
-  return fetchStockPrice(holding.symbol, holding.exchange);
-}
-
 /**
  * Extracts a user-friendly error message from various error types.
  */
@@ -240,6 +238,9 @@ function getErrorMessage(error: unknown): string {
   if (error instanceof CoinGeckoError) {
     return error.message;
   }
+  if (error instanceof PriceProviderError) {
+    return error.message;
+  }
   if (error instanceof Error) {
     return error.message;
   }
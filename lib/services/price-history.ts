@@ -0,0 +1,255 @@
+/**
+ * Price history service for daily closing prices.
+ *
+ * Stores one close per symbol per day in the `price_history` table so past
+ * positions can be valued at past prices. A symbol is backfilled from its
+ * holding's price provider (Yahoo Finance, CoinGecko, or a derived source)
+ * the first time its price is fetched, and topped up on every later fetch:
+ * any missing days are backfilled and today's row is set to the latest live
+ * price. Manually priced holdings only have the prices entered for them.
+ */
+
+import { db } from "@/lib/db";
+import { priceHistory, type NewPriceHistory } from "@/lib/db/schema";
+import { eq, and, gte, lte, asc, desc, sql } from "drizzle-orm";
+import { format, addDays, subYears, parseISO } from "date-fns";
+import { normalizeSymbol, type DailyClose } from "./yahoo-finance";
+import { getHoldingPriceProvider, type HoldingForPriceProvider } from "./price-providers";
+
+/** How far back to backfill a symbol with no stored history. */
+export const PRICE_HISTORY_BACKFILL_YEARS = 10;
+
+/** Rows written per insert statement when saving history. */
+const INSERT_BATCH_SIZE = 500;
+
+/**
+ * A stored daily close.
+ */
+export interface PriceHistoryPoint {
+  /** Trading day (YYYY-MM-DD) */
+  date: string;
+  /** Closing price in `currency` */
+  close: number;
+  /** Currency code (e.g. AUD, USD) */
+  currency: string;
+}
+
+/**
+ * Holding fields needed to look up or fetch a price series.
+ */
+export type HoldingForPriceHistory = HoldingForPriceProvider;
+
+/**
+ * Returns the normalised symbol that prices are stored under, matching the
+ * `price_cache` key: upper-case for crypto, exchange suffix for stocks/ETFs,
+ * and "{provider}:{holdingId}" for manual and derived prices.
+ *
+ * @example
+ * getPriceSymbol({ type: "etf", symbol: "VAS", exchange: "ASX", priceProvider: null, ... }); // "VAS.AX"
+ */
+export function getPriceSymbol(holding: HoldingForPriceHistory): string | null {
+  if (!holding.symbol) {
+    return null;
+  }
+
+  const provider = getHoldingPriceProvider(holding);
+  if (provider.holdingScoped) {
+    return `${provider.id}:${holding.id}`;
+  }
+  return provider.id === "coingecko"
+    ? holding.symbol.toUpperCase()
+    : normalizeSymbol(holding.symbol, holding.exchange);
+}
+
+/**
+ * Gets stored daily closes for a symbol, oldest first.
+ *
+ * @param symbol - Normalised price symbol (see getPriceSymbol)
+ * @param fromDate - Optional first day (YYYY-MM-DD)
+ * @param toDate - Optional last day (YYYY-MM-DD)
+ */
+export async function getPriceHistory(
+  symbol: string,
+  fromDate?: string,
+  toDate?: string
+): Promise<PriceHistoryPoint[]> {
+  const conditions = [eq(priceHistory.symbol, symbol)];
+  if (fromDate) {
+    conditions.push(gte(priceHistory.date, fromDate));
+  }
+  if (toDate) {
+    conditions.push(lte(priceHistory.date, toDate));
+  }
+
+  const rows = await db
+    .select({
+      date: priceHistory.date,
+      close: priceHistory.close,
+      currency: priceHistory.currency,
+    })
+    .from(priceHistory)
+    .where(and(...conditions))
+    .orderBy(asc(priceHistory.date));
+
+  return rows.map((row) => ({
+    date: row.date,
+    close: Number(row.close),
+    currency: row.currency,
+  }));
+}
+
+/**
+ * Finds the most recent close on or before a date in a series sorted
+ * oldest first. Weekends and holidays carry the previous close forward.
+ *
+ * @returns The close, or null if the series starts after the date
+ */
+export function findCloseAsOf(
+  history: PriceHistoryPoint[],
+  date: string
+): PriceHistoryPoint | null {
+  let low = 0;
+  let high = history.length - 1;
+  let match: PriceHistoryPoint | null = null;
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    if (history[mid].date <= date) {
+      match = history[mid];
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return match;
+}
+
+/**
+ * Gets the date of the most recent stored close for a symbol.
+ */
+async function getLatestPriceHistoryDate(symbol: string): Promise<string | null> {
+  const [latest] = await db
+    .select({ date: priceHistory.date })
+    .from(priceHistory)
+    .where(eq(priceHistory.symbol, symbol))
+    .orderBy(desc(priceHistory.date))
+    .limit(1);
+
+  return latest?.date ?? null;
+}
+
+/**
+ * Upserts daily closes for a symbol. Existing days are overwritten.
+ */
+export async function savePriceHistory(
+  symbol: string,
+  currency: string,
+  closes: DailyClose[],
+  source: NewPriceHistory["source"]
+): Promise<void> {
+  const rows: NewPriceHistory[] = closes.map((c) => ({
+    symbol,
+    date: c.date,
+    close: c.close.toString(),
+    currency: currency as NewPriceHistory["currency"],
+    source,
+  }));
+
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    await db
+      .insert(priceHistory)
+      .values(rows.slice(i, i + INSERT_BATCH_SIZE))
+      .onConflictDoUpdate({
+        target: [priceHistory.symbol, priceHistory.date],
+        set: {
+          close: sql`excluded.close`,
+          currency: sql`excluded.currency`,
+          source: sql`excluded.source`,
+          updatedAt: new Date(),
+        },
+      });
+  }
+}
+
+/**
+ * Fetches and stores daily closes for a holding from its provider.
+ *
+ * Starts the day after the latest stored close, or PRICE_HISTORY_BACKFILL_YEARS
+ * ago (or `fromDate` if given) for a symbol with no history.
+ *
+ * @param holding - The tradeable holding to backfill
+ * @param fromDate - Optional start date for a symbol with no stored history
+ * @returns Number of closes stored (0 for manually priced holdings)
+ * @throws YahooFinanceError, CoinGeckoError or PriceProviderError if the
+ *   provider fetch fails
+ */
+export async function backfillPriceHistory(
+  holding: HoldingForPriceHistory,
+  fromDate?: Date
+): Promise<number> {
+  const symbol = getPriceSymbol(holding);
+  const provider = getHoldingPriceProvider(holding);
+  if (!symbol || !provider.fetchHistory) {
+    return 0;
+  }
+
+  const today = new Date();
+  const latest = await getLatestPriceHistoryDate(symbol);
+  const start = latest
+    ? addDays(parseISO(latest), 1)
+    : fromDate ?? subYears(today, PRICE_HISTORY_BACKFILL_YEARS);
+
+  if (format(start, "yyyy-MM-dd") > format(today, "yyyy-MM-dd")) {
+    return 0;
+  }
+
+  const history = await provider.fetchHistory(holding, start, today);
+
+  await savePriceHistory(symbol, history.currency, history.closes, provider.id);
+
+  return history.closes.length;
+}
+
+/**
+ * Tops up a symbol's history after a live price fetch: backfills any days
+ * missed since the last stored close, then records the live price as
+ * today's close. Manual prices are already their own history, so are
+ * left alone.
+ *
+ * @param holding - The tradeable holding whose price was fetched
+ * @param price - The live price and its currency
+ */
+export async function topUpPriceHistory(
+  holding: HoldingForPriceHistory,
+  price: { price: number; currency: string }
+): Promise<void> {
+  const symbol = getPriceSymbol(holding);
+  const provider = getHoldingPriceProvider(holding);
+  if (!symbol || !provider.fetchHistory) {
+    return;
+  }
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  const yesterday = format(addDays(new Date(), -1), "yyyy-MM-dd");
+  const latest = await getLatestPriceHistoryDate(symbol);
+
+  if (latest === null || latest < yesterday) {
+    await backfillPriceHistory(holding);
+  }
+
+  await savePriceHistory(
+    symbol,
+    price.currency,
+    [{ date: today, close: price.price }],
+    provider.id
+  );
+}
+
+/**
+ * Deletes every stored close for a symbol, e.g. when a derived price's
+ * settings change and its history has to be rebuilt.
+ */
+export async function deletePriceHistory(symbol: string): Promise<void> {
+  await db.delete(priceHistory).where(eq(priceHistory.symbol, symbol));
+}
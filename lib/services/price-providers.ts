@@ -0,0 +1,255 @@
+/**
+ * Price provider registry.
+ *
+ * Each tradeable holding gets its price from one provider, chosen by its
+ * `priceProvider` column (see resolvePriceProvider for the defaults). The
+ * price fetcher and price history look the provider up here rather than
+ * switching on holding type, so a new source only needs registering.
+ *
+ * Built-in providers:
+ * - yahoo: live quotes and daily history from Yahoo Finance
+ * - coingecko: live quotes and daily history from CoinGecko
+ * - manual: the latest dated price entered for the holding, for private
+ *   shares, unlisted funds and delisted tickers
+ * - derived: another Yahoo symbol's price times a ratio, e.g. an unlisted
+ *   fund class that tracks a listed ETF
+ */
+
+import { db } from "@/lib/db";
+import { priceHistory, type Holding } from "@/lib/db/schema";
+import { eq, desc } from "drizzle-orm";
+import { parseISO } from "date-fns";
+import {
+  fetchStockPrice,
+  fetchStockHistory,
+  type PriceData,
+  type PriceHistoryData,
+} from "./yahoo-finance";
+import { fetchCryptoPrice, fetchCryptoHistory } from "./coingecko";
+import { DEFAULT_PRICE_CACHE_TTL_MINUTES } from "./price-cache";
+import {
+  MANUAL_PRICE_STALE_DAYS,
+  resolvePriceProvider,
+  type PriceProviderId,
+} from "@/lib/constants";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Holding fields a provider may need to price it.
+ */
+export interface HoldingForPriceProvider {
+  id: string;
+  type: Holding["type"];
+  symbol: string | null;
+  exchange: string | null;
+  priceProvider: PriceProviderId | null;
+  priceSourceSymbol: string | null;
+  priceRatio: string | null;
+}
+
+/**
+ * A price returned by a provider.
+ */
+export interface ProviderQuote extends PriceData {
+  /** Date the price applies to, if not now (manual prices) */
+  asOf?: Date;
+}
+
+/**
+ * A source of prices for tradeable holdings.
+ */
+export interface PriceProvider {
+  id: PriceProviderId;
+  /** How long a cached price from this provider stays current */
+  cacheTtlMinutes: number;
+  /**
+   * Whether prices belong to one holding rather than a public symbol. They
+   * are then stored under "{id}:{holdingId}" instead of the ticker.
+   */
+  holdingScoped: boolean;
+  /**
+   * Fetches the current price.
+   *
+   * @param holding - The holding to price
+   * @param priceSymbol - Symbol the holding's prices are stored under
+   */
+  fetchQuote(holding: HoldingForPriceProvider, priceSymbol: string): Promise<ProviderQuote>;
+  /**
+   * Fetches daily closes for backfilling price history. Providers without
+   * it (manual) are never backfilled or topped up.
+   */
+  fetchHistory?(
+    holding: HoldingForPriceProvider,
+    fromDate: Date,
+    toDate: Date
+  ): Promise<PriceHistoryData>;
+}
+
+/**
+ * Error for a holding whose provider cannot price it, such as a manually
+ * priced holding with no prices entered.
+ */
+export class PriceProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: PriceProviderId
+  ) {
+    super(message);
+    this.name = "PriceProviderError";
+  }
+}
+
+// =============================================================================
+// HELPER FUNCTIONS
+// =============================================================================
+
+function requireSymbol(holding: HoldingForPriceProvider, provider: PriceProviderId): string {
+  if (!holding.symbol) {
+    throw new PriceProviderError("Holding must have a symbol to fetch price", provider);
+  }
+  return holding.symbol;
+}
+
+/**
+ * Gets the source symbol and ratio of a derived holding.
+ */
+function getDerivedSource(holding: HoldingForPriceProvider): { symbol: string; ratio: number } {
+  const ratio = Number(holding.priceRatio);
+  if (!holding.priceSourceSymbol || !Number.isFinite(ratio) || ratio <= 0) {
+    throw new PriceProviderError(
+      "Derived price needs a source symbol and a ratio greater than 0",
+      "derived"
+    );
+  }
+  return { symbol: holding.priceSourceSymbol, ratio };
+}
+
+// =============================================================================
+// BUILT-IN PROVIDERS
+// =============================================================================
+
+const yahooProvider: PriceProvider = {
+  id: "yahoo",
+  cacheTtlMinutes: DEFAULT_PRICE_CACHE_TTL_MINUTES,
+  holdingScoped: false,
+  fetchQuote: (holding) => fetchStockPrice(requireSymbol(holding, "yahoo"), holding.exchange),
+  fetchHistory: (holding, fromDate, toDate) =>
+    fetchStockHistory(requireSymbol(holding, "yahoo"), holding.exchange, fromDate, toDate),
+};
+
+const coinGeckoProvider: PriceProvider = {
+  id: "coingecko",
+  cacheTtlMinutes: DEFAULT_PRICE_CACHE_TTL_MINUTES,
+  holdingScoped: false,
+  fetchQuote: (holding) => fetchCryptoPrice(requireSymbol(holding, "coingecko")),
+  fetchHistory: (holding, fromDate, toDate) =>
+    fetchCryptoHistory(requireSymbol(holding, "coingecko"), fromDate, toDate),
+};
+
+/**
+ * Prices entered by hand are stored as the holding's price history. The
+ * latest is the current price; the change is against the entry before it.
+ */
+const manualProvider: PriceProvider = {
+  id: "manual",
+  cacheTtlMinutes: MANUAL_PRICE_STALE_DAYS * 24 * 60,
+  holdingScoped: true,
+  fetchQuote: async (_holding, priceSymbol) => {
+    const [latest, previous] = await db
+      .select({
+        date: priceHistory.date,
+        close: priceHistory.close,
+        currency: priceHistory.currency,
+      })
+      .from(priceHistory)
+      .where(eq(priceHistory.symbol, priceSymbol))
+      .orderBy(desc(priceHistory.date))
+      .limit(2);
+
+    if (!latest) {
+      throw new PriceProviderError("No manual price has been entered", "manual");
+    }
+
+    const price = Number(latest.close);
+    const previousPrice = previous ? Number(previous.close) : null;
+    const changeAbsolute = previousPrice !== null ? price - previousPrice : null;
+
+    return {
+      price,
+      currency: latest.currency,
+      changePercent:
+        changeAbsolute !== null && previousPrice ? (changeAbsolute / previousPrice) * 100 : null,
+      changeAbsolute,
+      asOf: parseISO(latest.date),
+    };
+  },
+};
+
+const derivedProvider: PriceProvider = {
+  id: "derived",
+  cacheTtlMinutes: DEFAULT_PRICE_CACHE_TTL_MINUTES,
+  holdingScoped: true,
+  fetchQuote: async (holding) => {
+    const source = getDerivedSource(holding);
+    const quote = await fetchStockPrice(source.symbol, null);
+    return {
+      price: quote.price * source.ratio,
+      currency: quote.currency,
+      changePercent: quote.changePercent,
+      changeAbsolute: quote.changeAbsolute !== null ? quote.changeAbsolute * source.ratio : null,
+    };
+  },
+  fetchHistory: async (holding, fromDate, toDate) => {
+    const source = getDerivedSource(holding);
+    const history = await fetchStockHistory(source.symbol, null, fromDate, toDate);
+    return {
+      currency: history.currency,
+      closes: history.closes.map((c) => ({ date: c.date, close: c.close * source.ratio })),
+    };
+  },
+};
+
+const providers = new Map<PriceProviderId, PriceProvider>();
+
+// =============================================================================
+// MAIN FUNCTIONS
+// =============================================================================
+
+/**
+ * Registers a price provider, replacing any with the same ID.
+ */
+export function registerPriceProvider(provider: PriceProvider): void {
+  providers.set(provider.id, provider);
+}
+
+/**
+ * Gets a registered price provider.
+ *
+ * @throws Error if no provider is registered under the ID
+ */
+export function getPriceProvider(id: PriceProviderId): PriceProvider {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`No price provider registered for "${id}"`);
+  }
+  return provider;
+}
+
+/**
+ * Gets the provider a holding is priced by.
+ *
+ * @example
+ * getHoldingPriceProvider({ type: "etf", priceProvider: null, ... }).id; // "yahoo"
+ */
+export function getHoldingPriceProvider(
+  holding: Pick<HoldingForPriceProvider, "type" | "priceProvider">
+): PriceProvider {
+  return getPriceProvider(resolvePriceProvider(holding));
+}
+
+for (const provider of [yahooProvider, coinGeckoProvider, manualProvider, derivedProvider]) {
+  registerPriceProvider(provider);
+}
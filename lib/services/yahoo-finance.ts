@@ -26,6 +26,24 @@ export class YahooFinanceError extends Error {
   }
 }
 
+/**
+ * Currencies Yahoo quotes in minor units (London listings are priced in
+ * pence), with the major currency and the divisor to convert prices.
+ */
+const MINOR_UNIT_CURRENCIES: Record<string, { currency: string; divisor: number }> = {
+  GBp: { currency: "GBP", divisor: 100 },
+  GBX: { currency: "GBP", divisor: 100 },
+};
+
+/**
+ * Converts a Yahoo currency code to its major unit, e.g. "GBp" -> "GBP".
+ *
+ * @returns The major currency and the divisor to apply to prices (1 if none)
+ */
+function toMajorUnit(currency: string): { currency: string; divisor: number } {
+  return MINOR_UNIT_CURRENCIES[currency] ?? { currency, divisor: 1 };
+}
+
 /**
  * Normalizes a stock symbol by adding exchange suffix if not present.
  *
@@ -116,11 +134,14 @@ export async function fetchStockPrice(
       );
     }
 
+    const major = toMajorUnit(currency);
+
     return {
-      price: regularMarketPrice,
-      currency,
+      price: regularMarketPrice / major.divisor,
+      currency: major.currency,
       changePercent: regularMarketChangePercent ?? null,
-      changeAbsolute: regularMarketChange ?? null,
+      changeAbsolute:
+        regularMarketChange != null ? regularMarketChange / major.divisor : null,
     };
   } catch (error) {
     // Re-throw our custom errors
@@ -173,3 +194,89 @@ export async function fetchStockPrice(
     );
   }
 }
+
+/**
+ * A single daily closing price.
+ */
+export interface DailyClose {
+  /** Trading day (YYYY-MM-DD) */
+  date: string;
+  /** Closing price in the listing currency */
+  close: number;
+}
+
+/**
+ * Daily price history returned from Yahoo Finance
+ */
+export interface PriceHistoryData {
+  currency: string;
+  closes: DailyClose[];
+}
+
+/**
+ * Fetches daily closing prices for a stock/ETF from Yahoo Finance.
+ *
+ * Yahoo reports closes adjusted for every later split. They are converted
+ * back to the price actually traded on each day, so a close multiplies with
+ * the quantity held on that date.
+ *
+ * @param symbol - The stock ticker symbol
+ * @param exchange - Optional exchange hint for symbol normalization
+ * @param fromDate - First day to fetch
+ * @param toDate - Last day to fetch
+ * @returns Promise<PriceHistoryData> with one close per trading day
+ * @throws YahooFinanceError on network failure or invalid symbol
+ *
+ * @example
+ * const history = await fetchStockHistory("VAS", "ASX", new Date("2024-01-01"), new Date());
+ */
+export async function fetchStockHistory(
+  symbol: string,
+  exchange: string | null | undefined,
+  fromDate: Date,
+  toDate: Date
+): Promise<PriceHistoryData> {
+  const normalizedSymbol = normalizeSymbol(symbol, exchange);
+
+  try {
+    const result = await yahooFinance.chart(normalizedSymbol, {
+      period1: fromDate,
+      period2: toDate,
+      interval: "1d",
+      events: "split",
+    });
+
+    const splits = result.events?.splits ?? [];
+    // Bars are timestamped at the open; shift to exchange time to get the trading day
+    const offsetMs =
+      typeof result.meta.gmtoffset === "number" ? result.meta.gmtoffset * 1000 : 0;
+
+    const major = toMajorUnit(result.meta.currency);
+
+    const closes: DailyClose[] = [];
+    for (const quote of result.quotes) {
+      if (quote.close == null) {
+        continue;
+      }
+      // Undo the adjustment for splits that happened after this day
+      const splitFactor = splits
+        .filter((split) => split.date > quote.date && split.denominator > 0)
+        .reduce((factor, split) => factor * (split.numerator / split.denominator), 1);
+
+      closes.push({
+        date: new Date(quote.date.getTime() + offsetMs).toISOString().slice(0, 10),
+        close: (quote.close * splitFactor) / major.divisor,
+      });
+    }
+
+    return { currency: major.currency, closes };
+  } catch (error) {
+    throw new YahooFinanceError(
+      `Failed to fetch price history for ${normalizedSymbol}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`,
+      normalizedSymbol,
+      error
+    );
+  }
+}
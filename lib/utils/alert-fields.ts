@@ -0,0 +1,127 @@
+import { db } from "@/lib/db";
+import { holdings, type NewAlertRule } from "@/lib/db/schema";
+import { eq, and, isNull } from "drizzle-orm";
+import {
+  ALERT_DIRECTIONS,
+  ALERT_RULE_TYPES,
+  HOLDING_ALERT_RULE_TYPES,
+  isTradeable,
+  type AlertDirection,
+  type AlertRuleType,
+} from "@/lib/constants";
+
+/**
+ * Alert rule fields accepted by the alert create/update routes.
+ */
+export interface AlertRuleBody {
+  type?: string;
+  holdingId?: string | null;
+  direction?: string | null;
+  threshold?: number | string;
+  isActive?: boolean;
+}
+
+type AlertRuleColumns = Pick<NewAlertRule, "type" | "holdingId" | "direction" | "threshold">;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Rule types that fire when a value crosses the threshold in `direction`. */
+const CROSSING_TYPES: readonly AlertRuleType[] = ["price_cross", "net_worth_cross"];
+
+/**
+ * Validates a complete set of alert rule fields, adding messages to `errors`
+ * keyed by field. Update routes merge the body over the stored rule first,
+ * so the same checks apply to both.
+ *
+ * - price_cross and daily_move watch one of the user's tradeable holdings
+ * - holding_weight watches any non-debt holding; debt_below a debt holding
+ * - net_worth_cross has no holding
+ * - direction is required for crossing rules, optional for daily_move
+ *   (either way if absent) and not used otherwise
+ *
+ * @param body - Alert rule fields
+ * @param userId - Owner of the rule
+ * @param errors - Validation error map to add to
+ */
+export async function validateAlertRuleFields(
+  body: AlertRuleBody,
+  userId: string,
+  errors: Record<string, string>
+): Promise<void> {
+  if (!body.type) {
+    errors.type = "Type is required";
+    return;
+  }
+  if (!ALERT_RULE_TYPES.includes(body.type as AlertRuleType)) {
+    errors.type = `Type must be one of: ${ALERT_RULE_TYPES.join(", ")}`;
+    return;
+  }
+  const type = body.type as AlertRuleType;
+
+  // Holding
+  if (HOLDING_ALERT_RULE_TYPES.includes(type)) {
+    if (!body.holdingId) {
+      errors.holdingId = "Holding is required";
+    } else if (!UUID_PATTERN.test(body.holdingId)) {
+      errors.holdingId = "Holding not found";
+    } else {
+      const [holding] = await db
+        .select({ type: holdings.type })
+        .from(holdings)
+        .where(
+          and(
+            eq(holdings.id, body.holdingId),
+            eq(holdings.userId, userId),
+            isNull(holdings.deletedAt)
+          )
+        );
+
+      if (!holding) {
+        errors.holdingId = "Holding not found";
+      } else if ((type === "price_cross" || type === "daily_move") && !isTradeable(holding.type)) {
+        errors.holdingId = "Holding must be a stock, etf, or crypto holding";
+      } else if (type === "holding_weight" && holding.type === "debt") {
+        errors.holdingId = "Holding must not be a debt";
+      } else if (type === "debt_below" && holding.type !== "debt") {
+        errors.holdingId = "Holding must be a debt";
+      }
+    }
+  } else if (body.holdingId) {
+    errors.holdingId = "Net worth alerts do not take a holding";
+  }
+
+  // Direction
+  if (body.direction && !ALERT_DIRECTIONS.includes(body.direction as AlertDirection)) {
+    errors.direction = `Direction must be one of: ${ALERT_DIRECTIONS.join(", ")}`;
+  } else if (CROSSING_TYPES.includes(type) && !body.direction) {
+    errors.direction = "Direction is required";
+  } else if (body.direction && !CROSSING_TYPES.includes(type) && type !== "daily_move") {
+    errors.direction = "Direction only applies to crossing and daily move alerts";
+  }
+
+  // Threshold
+  const threshold = Number(body.threshold);
+  if (body.threshold === undefined || body.threshold === null || body.threshold === "") {
+    errors.threshold = "Threshold is required";
+  } else if (!Number.isFinite(threshold)) {
+    errors.threshold = "Threshold must be a number";
+  } else if (type === "holding_weight" && (threshold <= 0 || threshold > 100)) {
+    errors.threshold = "Threshold must be greater than 0 and at most 100";
+  } else if ((type === "price_cross" || type === "daily_move") && threshold <= 0) {
+    errors.threshold = "Threshold must be greater than 0";
+  } else if (type === "debt_below" && threshold < 0) {
+    errors.threshold = "Threshold must not be negative";
+  }
+}
+
+/**
+ * Maps validated alert rule fields to columns.
+ */
+export function toAlertRuleColumns(body: AlertRuleBody): AlertRuleColumns {
+  return {
+    type: body.type as AlertRuleType,
+    holdingId: body.holdingId || null,
+    direction: (body.direction as AlertDirection | null | undefined) || null,
+    threshold: String(body.threshold),
+  };
+}
@@ -0,0 +1,45 @@
+import { timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * Verifies a Vercel Cron request against the CRON_SECRET env var.
+ *
+ * Vercel sends the secret in the Authorization header as "Bearer <secret>".
+ * The comparison is timing-safe to prevent secret guessing via response timing.
+ *
+ * @param request - The incoming cron request
+ * @param logPrefix - Job name used in log messages (e.g. "send-reminders")
+ * @returns An error response to return as-is, or null if the request is authorised
+ */
+export function verifyCronRequest(
+  request: NextRequest,
+  logPrefix: string
+): NextResponse | null {
+  const cronSecret = process.env.CRON_SECRET;
+  const authHeader = request.headers.get("authorization");
+
+  if (!cronSecret) {
+    console.error(`[${logPrefix}] CRON_SECRET not configured`);
+    return NextResponse.json(
+      { error: "Cron endpoint not configured" },
+      { status: 500 }
+    );
+  }
+
+  const providedSecret = authHeader?.startsWith("Bearer ")
+    ? authHeader.slice(7)
+    : "";
+
+  const secretBuffer = Buffer.from(cronSecret);
+  const providedBuffer = Buffer.from(providedSecret);
+  const isValid =
+    secretBuffer.length === providedBuffer.length &&
+    timingSafeEqual(secretBuffer, providedBuffer);
+
+  if (!isValid) {
+    console.error(`[${logPrefix}] Invalid authorization`);
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  return null;
+}
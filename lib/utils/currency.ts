@@ -1,26 +1,55 @@
 /**
  * Currency conversion and formatting utilities.
  *
- * All values are stored in native currency (AUD/NZD/USD) and converted
- * at display time using current exchange rates.
+ * All values are stored in native currency and converted at display time
+ * using current exchange rates quoted against the base currency (AUD).
  */
 
-export type Currency = "AUD" | "NZD" | "USD";
+import {
+  BASE_CURRENCY,
+  CURRENCY_INFO,
+  CURRENCY_SYMBOLS,
+  type Currency,
+} from "@/lib/constants";
+
+export { CURRENCY_SYMBOLS, type Currency };
 
 /**
  * Exchange rates object structure.
- * Rates are expressed as: 1 {base} = X AUD
+ * Keys are "{currency}/AUD" and values are how many AUD equal 1 unit.
  * E.g., { "USD/AUD": 1.53, "NZD/AUD": 0.91 } means 1 USD = 1.53 AUD, 1 NZD = 0.91 AUD
  */
-export interface ExchangeRates {
-  "USD/AUD": number;
-  "NZD/AUD": number;
+export type ExchangeRates = Record<string, number>;
+
+/**
+ * Gets the rate from a currency into AUD.
+ *
+ * @throws Error if the rates have no entry for the currency
+ */
+function getRateToBase(currency: Currency, rates: ExchangeRates): number {
+  if (currency === BASE_CURRENCY) {
+    return 1;
+  }
+  const rate = rates[`${currency}/${BASE_CURRENCY}`];
+  if (rate === undefined) {
+    throw new Error(`No exchange rate for ${currency}/${BASE_CURRENCY}`);
+  }
+  return rate;
+}
+
+/**
+ * Checks that rates include every currency given (other than AUD).
+ */
+export function hasRatesFor(currencies: readonly Currency[], rates: ExchangeRates): boolean {
+  return currencies.every(
+    (c) => c === BASE_CURRENCY || typeof rates[`${c}/${BASE_CURRENCY}`] === "number"
+  );
 }
 
 /**
  * Converts an amount from one currency to another using provided exchange rates.
  *
- * Rates are expected in the format { "USD/AUD": number, "NZD/AUD": number }
+ * Rates are expected in the format { "USD/AUD": number, "NZD/AUD": number, ... }
  * where the rate represents how many AUD equal 1 unit of the foreign currency.
  *
  * Conversion logic:
@@ -32,8 +61,9 @@ export interface ExchangeRates {
  * @param amount - The amount to convert
  * @param from - Source currency code
  * @param to - Target currency code
- * @param rates - Exchange rates object with USD/AUD and NZD/AUD rates
+ * @param rates - Exchange rates into AUD for both currencies
  * @returns Converted amount rounded to 2 decimal places
+ * @throws Error if the rates have no entry for either currency
  *
  * @example
  * const rates = { "USD/AUD": 1.53, "NZD/AUD": 0.91 };
@@ -61,29 +91,9 @@ export function convertCurrency(
     return Math.round(amount * 100) / 100;
   }
 
-  let result: number;
-
-  // Convert to AUD first (if not already AUD)
-  let amountInAud: number;
-
-  if (from === "AUD") {
-    amountInAud = amount;
-  } else if (from === "USD") {
-    amountInAud = amount * rates["USD/AUD"];
-  } else {
-    // from === "NZD"
-    amountInAud = amount * rates["NZD/AUD"];
-  }
-
-  // Convert from AUD to target currency
-  if (to === "AUD") {
-    result = amountInAud;
-  } else if (to === "USD") {
-    result = amountInAud / rates["USD/AUD"];
-  } else {
-    // to === "NZD"
-    result = amountInAud / rates["NZD/AUD"];
-  }
+  // Convert to AUD first, then from AUD to the target currency
+  const amountInAud = amount * getRateToBase(from, rates);
+  const result = amountInAud / getRateToBase(to, rates);
 
   // Round to 2 decimal places for display
   return Math.round(result * 100) / 100;
@@ -112,21 +122,11 @@ export interface FormatCurrencyOptions {
   compact?: boolean;
 }
 
-/**
- * Currency symbols for supported currencies.
- * AUD uses plain $, NZD uses NZ$, USD uses US$ to differentiate.
- */
-export const CURRENCY_SYMBOLS: Record<Currency, string> = {
-  AUD: "$",
-  NZD: "NZ$",
-  USD: "US$",
-};
-
 /**
  * Formats a number as a currency string with proper symbols and formatting.
  *
  * @param amount - The amount to format
- * @param currency - The currency code (AUD, NZD, USD)
+ * @param currency - The currency code
  * @param options - Formatting options
  * @returns Formatted currency string
  *
@@ -135,6 +135,7 @@ export const CURRENCY_SYMBOLS: Record<Currency, string> = {
  * formatCurrency(1234.56, "AUD"); // "$1,234.56"
  * formatCurrency(1234.56, "NZD"); // "NZ$1,234.56"
  * formatCurrency(1234.56, "USD"); // "US$1,234.56"
+ * formatCurrency(1234.56, "JPY"); // "¥1,235" (no minor units)
  *
  * // With currency code
  * formatCurrency(1234.56, "AUD", { showCode: true }); // "$1,234.56 AUD"
@@ -167,9 +168,10 @@ export function formatCurrency(
     formattedNumber = formatCompactNumber(absAmount);
   } else {
     // Standard number formatting with thousands separators
+    const decimals = CURRENCY_INFO[currency].decimals;
     formattedNumber = absAmount.toLocaleString("en-AU", {
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals,
     });
   }
 
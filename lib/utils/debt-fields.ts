@@ -0,0 +1,159 @@
+import { db } from "@/lib/db";
+import { holdings, type NewHolding } from "@/lib/db/schema";
+import { eq, and, isNull } from "drizzle-orm";
+import {
+  REPAYMENT_FREQUENCIES,
+  MAX_LOAN_MONTHS,
+  type RepaymentFrequency,
+} from "@/lib/constants";
+
+/**
+ * Loan fields accepted by the holding create/update routes for debt
+ * holdings. Each may be null to clear it.
+ */
+export interface DebtFieldsBody {
+  interestRate?: number | null;
+  repaymentAmount?: number | null;
+  repaymentFrequency?: string | null;
+  loanStartDate?: string | null;
+  loanTermMonths?: number | null;
+  offsetHoldingId?: string | null;
+}
+
+type DebtColumns = Pick<
+  NewHolding,
+  | "interestRate"
+  | "repaymentAmount"
+  | "repaymentFrequency"
+  | "loanStartDate"
+  | "loanTermMonths"
+  | "offsetHoldingId"
+>;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Validates loan fields, adding messages to `errors` keyed by field. The
+ * offset account must be one of the user's own cash holdings, in the same
+ * currency as the debt.
+ *
+ * @param body - Request body
+ * @param type - Type of the holding being created or updated
+ * @param currency - Currency of the holding once the body is applied
+ * @param userId - Owner of the holding
+ * @param errors - Validation error map to add to
+ */
+export async function validateDebtFields(
+  body: DebtFieldsBody,
+  type: string,
+  currency: string | undefined,
+  userId: string,
+  errors: Record<string, string>
+): Promise<void> {
+  const provided = (field: keyof DebtFieldsBody) =>
+    body[field] !== undefined && body[field] !== null;
+
+  const fields = [
+    "interestRate",
+    "repaymentAmount",
+    "repaymentFrequency",
+    "loanStartDate",
+    "loanTermMonths",
+    "offsetHoldingId",
+  ] as const;
+  if (type !== "debt") {
+    for (const field of fields) {
+      if (provided(field)) {
+        errors[field] = "Only applies to debt holdings";
+      }
+    }
+    return;
+  }
+
+  if (provided("interestRate")) {
+    const rate = body.interestRate;
+    if (typeof rate !== "number" || !Number.isFinite(rate) || rate < 0 || rate > 100) {
+      errors.interestRate = "Interest rate must be between 0 and 100";
+    }
+  }
+
+  if (provided("repaymentAmount")) {
+    const amount = body.repaymentAmount;
+    if (typeof amount !== "number" || !Number.isFinite(amount) || amount <= 0) {
+      errors.repaymentAmount = "Repayment amount must be greater than 0";
+    }
+  }
+
+  if (
+    provided("repaymentFrequency") &&
+    !REPAYMENT_FREQUENCIES.includes(body.repaymentFrequency as RepaymentFrequency)
+  ) {
+    errors.repaymentFrequency = `Repayment frequency must be one of: ${REPAYMENT_FREQUENCIES.join(", ")}`;
+  }
+
+  if (provided("loanStartDate") && isNaN(Date.parse(body.loanStartDate!))) {
+    errors.loanStartDate = "Loan start date must be a valid date";
+  }
+
+  if (provided("loanTermMonths")) {
+    const term = body.loanTermMonths;
+    if (!Number.isInteger(term) || term! < 1 || term! > MAX_LOAN_MONTHS) {
+      errors.loanTermMonths = `Loan term must be a whole number of months from 1 to ${MAX_LOAN_MONTHS}`;
+    }
+  }
+
+  if (provided("offsetHoldingId")) {
+    if (!UUID_PATTERN.test(body.offsetHoldingId!)) {
+      errors.offsetHoldingId = "Offset account not found";
+      return;
+    }
+
+    const [cash] = await db
+      .select({ type: holdings.type, currency: holdings.currency })
+      .from(holdings)
+      .where(
+        and(
+          eq(holdings.id, body.offsetHoldingId!),
+          eq(holdings.userId, userId),
+          isNull(holdings.deletedAt)
+        )
+      );
+
+    if (!cash) {
+      errors.offsetHoldingId = "Offset account not found";
+    } else if (cash.type !== "cash") {
+      errors.offsetHoldingId = "Offset account must be a cash holding";
+    } else if (currency && cash.currency !== currency) {
+      errors.offsetHoldingId = `Offset account must be in ${currency}`;
+    }
+  }
+}
+
+/**
+ * Maps validated loan fields to holding columns. Fields absent from the body
+ * are left out so a partial update leaves them unchanged.
+ */
+export function toDebtColumns(body: DebtFieldsBody): DebtColumns {
+  const columns: DebtColumns = {};
+
+  if (body.interestRate !== undefined) {
+    columns.interestRate = body.interestRate?.toString() ?? null;
+  }
+  if (body.repaymentAmount !== undefined) {
+    columns.repaymentAmount = body.repaymentAmount?.toString() ?? null;
+  }
+  if (body.repaymentFrequency !== undefined) {
+    columns.repaymentFrequency = (body.repaymentFrequency as RepaymentFrequency) || null;
+  }
+  if (body.loanStartDate !== undefined) {
+    columns.loanStartDate = body.loanStartDate || null;
+  }
+  if (body.loanTermMonths !== undefined) {
+    columns.loanTermMonths = body.loanTermMonths ?? null;
+  }
+  if (body.offsetHoldingId !== undefined) {
+    columns.offsetHoldingId = body.offsetHoldingId || null;
+  }
+
+  return columns;
+}
@@ -0,0 +1,67 @@
+/**
+ * Australian financial year utilities.
+ *
+ * The Australian financial year runs 1 July to 30 June and is identified
+ * by the calendar year it ends in: FY2026 covers 2025-07-01 to 2026-06-30.
+ */
+
+/** Month (1-indexed) in which the financial year starts. */
+const FY_START_MONTH = 7;
+
+/**
+ * Returns the financial year (ending year) a date falls in.
+ *
+ * @param date - A YYYY-MM-DD string or Date
+ * @returns The financial year, e.g. 2026 for 2025-07-01 through 2026-06-30
+ *
+ * @example
+ * getFinancialYear("2025-06-30"); // 2025
+ * getFinancialYear("2025-07-01"); // 2026
+ */
+export function getFinancialYear(date: string | Date): number {
+  let year: number;
+  let month: number;
+
+  if (typeof date === "string") {
+    // Parse the date-only string directly to avoid timezone shifts
+    year = Number(date.slice(0, 4));
+    month = Number(date.slice(5, 7));
+  } else {
+    year = date.getFullYear();
+    month = date.getMonth() + 1;
+  }
+
+  return month >= FY_START_MONTH ? year + 1 : year;
+}
+
+/**
+ * Returns the financial year containing today.
+ */
+export function getCurrentFinancialYear(): number {
+  return getFinancialYear(new Date());
+}
+
+/**
+ * Returns the first and last day of a financial year as YYYY-MM-DD strings.
+ *
+ * @param financialYear - The financial year (ending year), e.g. 2026
+ */
+export function getFinancialYearRange(financialYear: number): {
+  startDate: string;
+  endDate: string;
+} {
+  return {
+    startDate: `${financialYear - 1}-07-01`,
+    endDate: `${financialYear}-06-30`,
+  };
+}
+
+/**
+ * Formats a financial year for display.
+ *
+ * @example
+ * formatFinancialYear(2026); // "FY2025-26"
+ */
+export function formatFinancialYear(financialYear: number): string {
+  return `FY${financialYear - 1}-${String(financialYear).slice(-2)}`;
+}
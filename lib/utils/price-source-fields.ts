@@ -0,0 +1,119 @@
+import type { Holding, NewHolding } from "@/lib/db/schema";
+import {
+  PRICE_PROVIDERS,
+  isTradeable,
+  resolvePriceProvider,
+  type PriceProviderId,
+} from "@/lib/constants";
+
+/**
+ * Price source fields accepted by the holding create/update routes. Each may
+ * be null to clear it.
+ */
+export interface PriceSourceFieldsBody {
+  priceProvider?: string | null;
+  priceSourceSymbol?: string | null;
+  priceRatio?: number | null;
+}
+
+type PriceSourceColumns = Pick<NewHolding, "priceProvider" | "priceSourceSymbol" | "priceRatio">;
+
+/**
+ * Returns the price provider a holding will use once the body is applied.
+ *
+ * @param body - Request body
+ * @param type - Type of the holding being created or updated
+ * @param existing - Current holding, for updates
+ */
+export function getEffectivePriceProvider(
+  body: PriceSourceFieldsBody,
+  type: Holding["type"],
+  existing?: Pick<Holding, "priceProvider">
+): PriceProviderId {
+  const priceProvider =
+    body.priceProvider !== undefined
+      ? ((body.priceProvider || null) as PriceProviderId | null)
+      : existing?.priceProvider ?? null;
+  return resolvePriceProvider({ type, priceProvider });
+}
+
+/**
+ * Validates price source fields, adding messages to `errors` keyed by field.
+ * A derived price needs a source symbol and a ratio, from the body or the
+ * existing holding.
+ *
+ * @param body - Request body
+ * @param type - Type of the holding being created or updated
+ * @param errors - Validation error map to add to
+ * @param existing - Current holding, for updates
+ */
+export function validatePriceSourceFields(
+  body: PriceSourceFieldsBody,
+  type: string,
+  errors: Record<string, string>,
+  existing?: Pick<Holding, "priceProvider" | "priceSourceSymbol" | "priceRatio">
+): void {
+  const provided = (field: keyof PriceSourceFieldsBody) =>
+    body[field] !== undefined && body[field] !== null && body[field] !== "";
+
+  for (const field of ["priceProvider", "priceSourceSymbol", "priceRatio"] as const) {
+    if (provided(field) && !isTradeable(type)) {
+      errors[field] = "Only applies to stock, etf, and crypto holdings";
+    }
+  }
+  if (!isTradeable(type)) {
+    return;
+  }
+
+  if (
+    provided("priceProvider") &&
+    !PRICE_PROVIDERS.includes(body.priceProvider as PriceProviderId)
+  ) {
+    errors.priceProvider = `Price provider must be one of: ${PRICE_PROVIDERS.join(", ")}`;
+    return;
+  }
+
+  if (getEffectivePriceProvider(body, type, existing) !== "derived") {
+    return;
+  }
+
+  const sourceSymbol =
+    body.priceSourceSymbol !== undefined ? body.priceSourceSymbol : existing?.priceSourceSymbol;
+  if (!sourceSymbol || sourceSymbol.trim() === "") {
+    errors.priceSourceSymbol = "Source symbol is required for a derived price";
+  }
+
+  if (provided("priceRatio")) {
+    const ratio = body.priceRatio;
+    if (typeof ratio !== "number" || !Number.isFinite(ratio) || ratio <= 0) {
+      errors.priceRatio = "Ratio must be a number greater than 0";
+    }
+  } else if (body.priceRatio !== undefined || !existing?.priceRatio) {
+    errors.priceRatio = "Ratio is required for a derived price";
+  }
+}
+
+/**
+ * Maps validated price source fields to holding columns. Fields absent from
+ * the body are left out so a partial update leaves them unchanged; switching
+ * to a provider other than "derived" clears the derived settings.
+ */
+export function toPriceSourceColumns(body: PriceSourceFieldsBody): PriceSourceColumns {
+  const columns: PriceSourceColumns = {};
+
+  if (body.priceSourceSymbol !== undefined) {
+    columns.priceSourceSymbol = body.priceSourceSymbol?.trim().toUpperCase() || null;
+  }
+  if (body.priceRatio !== undefined) {
+    columns.priceRatio = body.priceRatio?.toString() ?? null;
+  }
+  if (body.priceProvider !== undefined) {
+    columns.priceProvider = (body.priceProvider as PriceProviderId) || null;
+    if (columns.priceProvider !== "derived") {
+      columns.priceSourceSymbol = null;
+      columns.priceRatio = null;
+    }
+  }
+
+  return columns;
+}
@@ -0,0 +1,147 @@
+import { db } from "@/lib/db";
+import { holdings, type NewHolding } from "@/lib/db/schema";
+import { eq, and, isNull } from "drizzle-orm";
+import { DEPRECIATION_METHODS, isRealAsset, type DepreciationMethod } from "@/lib/constants";
+
+/**
+ * Property and vehicle fields accepted by the holding create/update routes.
+ * Each may be null to clear it.
+ */
+export interface RealAssetFieldsBody {
+  purchasePrice?: number | null;
+  purchaseCosts?: number | null;
+  purchaseDate?: string | null;
+  linkedDebtId?: string | null;
+  depreciationMethod?: string | null;
+  depreciationRate?: number | null;
+}
+
+type RealAssetColumns = Pick<
+  NewHolding,
+  | "purchasePrice"
+  | "purchaseCosts"
+  | "purchaseDate"
+  | "linkedDebtId"
+  | "depreciationMethod"
+  | "depreciationRate"
+>;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function isNonNegativeNumber(value: unknown): boolean {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Validates property/vehicle fields, adding messages to `errors` keyed by
+ * field. The linked debt must be one of the user's own debt holdings.
+ *
+ * @param body - Request body
+ * @param type - Type of the holding being created or updated
+ * @param userId - Owner of the holding
+ * @param errors - Validation error map to add to
+ */
+export async function validateRealAssetFields(
+  body: RealAssetFieldsBody,
+  type: string,
+  userId: string,
+  errors: Record<string, string>
+): Promise<void> {
+  const provided = (field: keyof RealAssetFieldsBody) =>
+    body[field] !== undefined && body[field] !== null;
+
+  for (const field of ["purchasePrice", "purchaseCosts", "purchaseDate", "linkedDebtId"] as const) {
+    if (provided(field) && !isRealAsset(type)) {
+      errors[field] = "Only applies to property and vehicle holdings";
+    }
+  }
+  for (const field of ["depreciationMethod", "depreciationRate"] as const) {
+    if (provided(field) && type !== "vehicle") {
+      errors[field] = "Only applies to vehicle holdings";
+    }
+  }
+
+  if (provided("purchasePrice") && !errors.purchasePrice && !isNonNegativeNumber(body.purchasePrice)) {
+    errors.purchasePrice = "Purchase price must be a number of 0 or more";
+  }
+
+  if (provided("purchaseCosts") && !errors.purchaseCosts && !isNonNegativeNumber(body.purchaseCosts)) {
+    errors.purchaseCosts = "Purchase costs must be a number of 0 or more";
+  }
+
+  if (provided("purchaseDate") && !errors.purchaseDate) {
+    if (isNaN(Date.parse(body.purchaseDate!))) {
+      errors.purchaseDate = "Purchase date must be a valid date";
+    } else if (new Date(body.purchaseDate!) > new Date()) {
+      errors.purchaseDate = "Purchase date cannot be in the future";
+    }
+  }
+
+  if (
+    provided("depreciationMethod") &&
+    !errors.depreciationMethod &&
+    !DEPRECIATION_METHODS.includes(body.depreciationMethod as DepreciationMethod)
+  ) {
+    errors.depreciationMethod = `Depreciation method must be one of: ${DEPRECIATION_METHODS.join(", ")}`;
+  }
+
+  if (provided("depreciationRate") && !errors.depreciationRate) {
+    const rate = body.depreciationRate;
+    if (typeof rate !== "number" || !Number.isFinite(rate) || rate <= 0 || rate > 100) {
+      errors.depreciationRate = "Depreciation rate must be between 0 and 100";
+    }
+  }
+
+  if (provided("linkedDebtId") && !errors.linkedDebtId) {
+    if (!UUID_PATTERN.test(body.linkedDebtId!)) {
+      errors.linkedDebtId = "Linked debt holding not found";
+      return;
+    }
+
+    const [debt] = await db
+      .select({ type: holdings.type })
+      .from(holdings)
+      .where(
+        and(
+          eq(holdings.id, body.linkedDebtId!),
+          eq(holdings.userId, userId),
+          isNull(holdings.deletedAt)
+        )
+      );
+
+    if (!debt) {
+      errors.linkedDebtId = "Linked debt holding not found";
+    } else if (debt.type !== "debt") {
+      errors.linkedDebtId = "Linked holding must be a debt holding";
+    }
+  }
+}
+
+/**
+ * Maps validated property/vehicle fields to holding columns. Fields absent
+ * from the body are left out so a partial update leaves them unchanged.
+ */
+export function toRealAssetColumns(body: RealAssetFieldsBody): RealAssetColumns {
+  const columns: RealAssetColumns = {};
+
+  if (body.purchasePrice !== undefined) {
+    columns.purchasePrice = body.purchasePrice?.toString() ?? null;
+  }
+  if (body.purchaseCosts !== undefined) {
+    columns.purchaseCosts = body.purchaseCosts?.toString() ?? null;
+  }
+  if (body.purchaseDate !== undefined) {
+    columns.purchaseDate = body.purchaseDate || null;
+  }
+  if (body.linkedDebtId !== undefined) {
+    columns.linkedDebtId = body.linkedDebtId || null;
+  }
+  if (body.depreciationMethod !== undefined) {
+    columns.depreciationMethod = (body.depreciationMethod as DepreciationMethod) || null;
+  }
+  if (body.depreciationRate !== undefined) {
+    columns.depreciationRate = body.depreciationRate?.toString() ?? null;
+  }
+
+  return columns;
+}
@@ -0,0 +1,79 @@
+import { db } from "@/lib/db";
+import { holdings, type NewHolding } from "@/lib/db/schema";
+import { eq, and, isNull } from "drizzle-orm";
+import { isTradeable } from "@/lib/constants";
+
+/**
+ * Settlement account field accepted by the holding create/update routes.
+ * May be null to unlink the cash holding.
+ */
+export interface SettlementFieldsBody {
+  settlementHoldingId?: string | null;
+}
+
+type SettlementColumns = Pick<NewHolding, "settlementHoldingId">;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Validates the settlement account, adding messages to `errors` keyed by
+ * field. It must be one of the user's own cash holdings, in the same
+ * currency as the tradeable holding.
+ *
+ * @param body - Request body
+ * @param type - Type of the holding being created or updated
+ * @param currency - Currency of the holding once the body is applied
+ * @param userId - Owner of the holding
+ * @param errors - Validation error map to add to
+ */
+export async function validateSettlementFields(
+  body: SettlementFieldsBody,
+  type: string,
+  currency: string | undefined,
+  userId: string,
+  errors: Record<string, string>
+): Promise<void> {
+  if (!body.settlementHoldingId) {
+    return;
+  }
+
+  if (!isTradeable(type)) {
+    errors.settlementHoldingId = "Only applies to stock, etf, and crypto holdings";
+    return;
+  }
+
+  if (!UUID_PATTERN.test(body.settlementHoldingId)) {
+    errors.settlementHoldingId = "Settlement account not found";
+    return;
+  }
+
+  const [cash] = await db
+    .select({ type: holdings.type, currency: holdings.currency })
+    .from(holdings)
+    .where(
+      and(
+        eq(holdings.id, body.settlementHoldingId),
+        eq(holdings.userId, userId),
+        isNull(holdings.deletedAt)
+      )
+    );
+
+  if (!cash) {
+    errors.settlementHoldingId = "Settlement account not found";
+  } else if (cash.type !== "cash") {
+    errors.settlementHoldingId = "Settlement account must be a cash holding";
+  } else if (currency && cash.currency !== currency) {
+    errors.settlementHoldingId = `Settlement account must be in ${currency}`;
+  }
+}
+
+/**
+ * Maps the validated settlement account to holding columns. Left out when
+ * absent from the body so a partial update leaves it unchanged.
+ */
+export function toSettlementColumns(body: SettlementFieldsBody): SettlementColumns {
+  if (body.settlementHoldingId === undefined) {
+    return {};
+  }
+  return { settlementHoldingId: body.settlementHoldingId || null };
+}
@@ -0,0 +1,65 @@
+import type { NewContribution } from "@/lib/db/schema";
+import type { SuperDeductionField } from "@/lib/constants";
+
+/**
+ * Super fund deductions accepted by the contributions routes, keyed by
+ * request body field, with the column each is stored in.
+ */
+export const SUPER_DEDUCTION_BODY_FIELDS = {
+  admin_fees: "adminFees",
+  investment_fees: "investmentFees",
+  insurance_premiums: "insurancePremiums",
+  contributions_tax: "contributionsTax",
+} as const satisfies Record<string, SuperDeductionField>;
+
+type SuperDeductionBodyField = keyof typeof SUPER_DEDUCTION_BODY_FIELDS;
+
+export type SuperDeductionsBody = Partial<Record<SuperDeductionBodyField, string | number>>;
+
+const FIELD_NAMES: Record<SuperDeductionBodyField, string> = {
+  admin_fees: "Admin fees",
+  investment_fees: "Investment fees",
+  insurance_premiums: "Insurance premiums",
+  contributions_tax: "Contributions tax",
+};
+
+/**
+ * Validates that any deductions provided are numbers of 0 or more, adding
+ * messages to `errors` keyed by body field. Blank strings are allowed and
+ * stored as 0.
+ *
+ * @param body - Request body
+ * @param errors - Validation error map to add to
+ */
+export function validateSuperDeductionFields(
+  body: SuperDeductionsBody,
+  errors: Record<string, string>
+): void {
+  for (const field of Object.keys(SUPER_DEDUCTION_BODY_FIELDS) as SuperDeductionBodyField[]) {
+    const value = body[field];
+    if (value === undefined || value === "") continue;
+
+    const amount = Number(value);
+    if (isNaN(amount) || amount < 0) {
+      errors[field] = `${FIELD_NAMES[field]} must be a number of 0 or more`;
+    }
+  }
+}
+
+/**
+ * Maps the deductions provided in a validated body to contribution columns.
+ * Fields left out of the body are left out of the result.
+ */
+export function toSuperDeductionColumns(
+  body: SuperDeductionsBody
+): Partial<Pick<NewContribution, SuperDeductionField>> {
+  const columns: Partial<Pick<NewContribution, SuperDeductionField>> = {};
+  for (const [field, column] of Object.entries(SUPER_DEDUCTION_BODY_FIELDS) as Array<
+    [SuperDeductionBodyField, SuperDeductionField]
+  >) {
+    if (body[field] !== undefined) {
+      columns[column] = String(body[field] || "0");
+    }
+  }
+  return columns;
+}